@@ -13,6 +13,9 @@ import Contact from "./pages/Contact";
 import Legal from "./pages/Legal";
 import AgentsWorkflows from "./pages/AgentsWorkflows";
 import Admin from "./pages/Admin";
+import BatchAnalysis from "./pages/BatchAnalysis";
+import CompareAnalyses from "./pages/CompareAnalyses";
+import CompareSolutions from "./pages/CompareSolutions";
 
 import NotFound from "./pages/NotFound";
 import TestAnalysis from "./components/TestAnalysis";
@@ -30,6 +33,9 @@ const App = () => (
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/results" element={<Results />} />
+              <Route path="/batch" element={<BatchAnalysis />} />
+              <Route path="/compare" element={<CompareAnalyses />} />
+              <Route path="/compare-solutions" element={<CompareSolutions />} />
               <Route path="/landing" element={<Landing />} />
               <Route path="/share" element={<Landing />} />
               <Route path="/about" element={<About />} />
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Clock, CheckSquare, Pencil, Tag, Trash2, Search, LogOut } from "lucide-react";
+import { t } from "@/lib/i18n/i18n";
+import { userAnalysisService, type UserAnalysis } from "@/lib/services/userAnalysisService";
+import ScoreCircle from "./ScoreCircle";
+
+interface AccountHistoryProps {
+  lang: "de" | "en";
+  email?: string;
+  onSignOut: () => void;
+}
+
+/**
+ * Server-side history of the signed-in user with search, tags, rename and delete.
+ * Imports the browser's local history once on first use.
+ */
+const AccountHistory = ({ lang, email, onSignOut }: AccountHistoryProps) => {
+  const [analyses, setAnalyses] = useState<UserAnalysis[]>([]);
+  const [search, setSearch] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(true);
+  const [importedCount, setImportedCount] = useState(0);
+  const navigate = useNavigate();
+
+  const loadAnalyses = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setAnalyses(await userAnalysisService.list({ search, tag: activeTag ?? undefined }));
+    } catch (error) {
+      console.error('Error loading account history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, activeTag]);
+
+  // One-time import of the local history before the first listing
+  useEffect(() => {
+    userAnalysisService.importLocalHistory()
+      .then(count => setImportedCount(count))
+      .catch(error => console.error('Error importing local history:', error))
+      .finally(() => setIsImporting(false));
+  }, []);
+
+  // Debounce search input
+  useEffect(() => {
+    if (isImporting) return;
+    const timeout = setTimeout(() => loadAnalyses(), 300);
+    return () => clearTimeout(timeout);
+  }, [isImporting, loadAnalyses]);
+
+  const replace = (updated: UserAnalysis) => {
+    setAnalyses(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  const openAnalysis = (item: UserAnalysis) => {
+    sessionStorage.setItem('analysisResult', JSON.stringify(item.analysis));
+    navigate('/results');
+  };
+
+  const renameAnalysis = async (e: React.MouseEvent, item: UserAnalysis) => {
+    e.stopPropagation();
+    const title = window.prompt(t(lang, 'account_rename_prompt'), item.title);
+    if (!title || title.trim() === item.title) return;
+
+    try {
+      replace(await userAnalysisService.rename(item.id, title));
+    } catch (error) {
+      console.error('Error renaming analysis:', error);
+    }
+  };
+
+  const editTags = async (e: React.MouseEvent, item: UserAnalysis) => {
+    e.stopPropagation();
+    const input = window.prompt(t(lang, 'account_tags_prompt'), item.tags.join(', '));
+    if (input === null) return;
+
+    try {
+      replace(await userAnalysisService.setTags(item.id, input.split(',')));
+    } catch (error) {
+      console.error('Error updating tags:', error);
+    }
+  };
+
+  const deleteAnalysis = async (e: React.MouseEvent, item: UserAnalysis) => {
+    e.stopPropagation();
+    if (!window.confirm(lang === 'de' ? 'Analyse wirklich löschen?' : 'Really delete analysis?')) {
+      return;
+    }
+
+    try {
+      await userAnalysisService.remove(item.id);
+      setAnalyses(prev => prev.filter(other => other.id !== item.id));
+    } catch (error) {
+      console.error('Error deleting analysis:', error);
+    }
+  };
+
+  const allTags = [...new Set(analyses.flatMap(item => item.tags))].sort();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t(lang, 'account_search_placeholder')}
+            className="pl-9"
+          />
+        </div>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span className="truncate">{email}</span>
+          <Button variant="ghost" size="sm" onClick={onSignOut}>
+            <LogOut className="w-4 h-4 mr-1" />
+            {t(lang, 'account_sign_out')}
+          </Button>
+        </div>
+      </div>
+
+      {importedCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {importedCount} {t(lang, 'account_imported')}
+        </p>
+      )}
+
+      {(allTags.length > 0 || activeTag) && (
+        <div className="flex flex-wrap gap-2">
+          {(activeTag && !allTags.includes(activeTag) ? [activeTag, ...allTags] : allTags).map(tag => (
+            <Badge
+              key={tag}
+              variant={tag === activeTag ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setActiveTag(tag === activeTag ? null : tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && analyses.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-6">{t(lang, 'account_empty')}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {analyses.map(item => (
+          <Card
+            key={item.id}
+            className="cursor-pointer hover:shadow-md transition-shadow duration-200 group"
+            onClick={() => openAnalysis(item)}
+          >
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-4">
+                <div className="flex-shrink-0">
+                  <ScoreCircle score={item.totalScore} maxScore={100} label="" variant="small" lang={lang} />
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <h3 className="font-medium text-foreground truncate">{item.title}</h3>
+                  <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                    <span className="flex items-center space-x-1">
+                      <Clock className="w-3 h-3" />
+                      <span>{new Date(item.createdAt).toLocaleDateString(lang === 'de' ? 'de-DE' : 'en-US')}</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <CheckSquare className="w-3 h-3" />
+                      <span>{item.taskCount} {t(lang, 'history_tasks')}</span>
+                    </span>
+                  </div>
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title={t(lang, 'account_rename')} onClick={(e) => renameAnalysis(e, item)}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title={t(lang, 'account_tags')} onClick={(e) => editTags(e, item)}>
+                    <Tag className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title={t(lang, 'history_delete')} onClick={(e) => deleteAnalysis(e, item)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AccountHistory;
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Mail } from "lucide-react";
+import { t } from "@/lib/i18n/i18n";
+
+interface AccountSignInProps {
+  lang: "de" | "en";
+  onSignIn: (email: string) => Promise<void>;
+}
+
+/**
+ * Passwordless sign-in prompt so the history follows the user across browsers
+ */
+const AccountSignIn = ({ lang, onSignIn }: AccountSignInProps) => {
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState<"idle" | "sending" | "sent" | "error">("idle");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setStatus("sending");
+    try {
+      await onSignIn(email.trim());
+      setStatus("sent");
+    } catch (error) {
+      console.error('Error sending sign-in link:', error);
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-3">
+      <p className="text-sm text-muted-foreground">{t(lang, 'account_sign_in_hint')}</p>
+      {status === "sent" ? (
+        <p className="text-sm font-medium text-foreground">{t(lang, 'account_link_sent')}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder={t(lang, 'account_email_placeholder')}
+            required
+          />
+          <Button type="submit" disabled={status === "sending"}>
+            <Mail className="w-4 h-4 mr-2" />
+            {t(lang, 'account_sign_in')}
+          </Button>
+        </form>
+      )}
+      {status === "error" && (
+        <p className="text-sm text-destructive">{t(lang, 'account_sign_in_error')}</p>
+      )}
+    </div>
+  );
+};
+
+export default AccountSignIn;
@@ -8,7 +8,9 @@ import {
   Shield,
   RefreshCw,
   Mail,
-  LayoutDashboard
+  LayoutDashboard,
+  GitMerge,
+  SlidersHorizontal
 } from 'lucide-react';
 
 interface AdminLayoutProps {
@@ -41,6 +43,20 @@ export default function AdminLayout({ children, lang, onLogout, currentView = 'd
       icon: RefreshCw,
       href: '/admin/sources'
     },
+    {
+      id: 'duplicates',
+      title: lang === 'de' ? 'Duplikate' : 'Duplicates',
+      description: lang === 'de' ? 'Zusammenführungen prüfen' : 'Review workflow merges',
+      icon: GitMerge,
+      href: '/admin/duplicates'
+    },
+    {
+      id: 'scoring-profiles',
+      title: lang === 'de' ? 'Bewertungsprofile' : 'Scoring Profiles',
+      description: lang === 'de' ? 'Gewichtungen & Versionen' : 'Weights & versions',
+      icon: SlidersHorizontal,
+      href: '/admin/scoring-profiles'
+    },
     {
       id: 'implementation-requests',
       title: lang === 'de' ? 'Implementierungsanfragen' : 'Implementation Requests',
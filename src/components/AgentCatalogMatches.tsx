@@ -0,0 +1,108 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertCircle, CheckCircle, ExternalLink } from 'lucide-react';
+import { CapabilityChip } from '@/components/CapabilityChip';
+import { AgentTierDisplay } from '@/components/AgentTierDisplay';
+import { AgentMatchResult } from '@/lib/solutions/agentMatcher';
+
+interface AgentCatalogMatchesProps {
+  result: AgentMatchResult;
+  lang?: 'de' | 'en';
+}
+
+/**
+ * Catalog agents ranked for a subtask, with the capabilities each one lacks
+ */
+export default function AgentCatalogMatches({ result, lang = 'de' }: AgentCatalogMatchesProps) {
+  const displayName = (tag: string) =>
+    result.requiredCapabilities.find(capability => capability.tag === tag)?.displayName ?? tag;
+
+  if (result.requiredCapabilities.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span>{lang === 'de' ? 'Benötigte Fähigkeiten:' : 'Required capabilities:'}</span>
+        {result.requiredCapabilities.map(capability => (
+          <CapabilityChip
+            key={capability.tag}
+            capability={capability.tag}
+            displayName={capability.displayName}
+            description={capability.description}
+            isCore={capability.isCore}
+            size="sm"
+          />
+        ))}
+        <span className="ml-auto text-xs text-gray-500">
+          {lang === 'de' ? 'Bewertungsprofil' : 'Scoring profile'} {result.profile.slug} v{result.profile.version}
+        </span>
+      </div>
+
+      {!result.bestMatch && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            {lang === 'de'
+              ? 'Kein gepflegter Agent aus dem Katalog deckt diese Teilaufgabe ausreichend ab. Unten steht ein KI-generierter Vorschlag.'
+              : 'No maintained catalog agent covers this subtask well enough. An AI-generated suggestion is shown below.'}
+            {result.uncoveredCapabilities.length > 0 && (
+              <> {lang === 'de' ? 'Von keinem Agenten abgedeckt:' : 'Not covered by any agent:'}{' '}
+                {result.uncoveredCapabilities.map(displayName).join(', ')}</>
+            )}
+          </span>
+        </div>
+      )}
+
+      {result.matches.map(match => (
+        <Card key={match.agent.id} className={match === result.bestMatch ? 'border-green-300' : undefined}>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{match.agent.title}</span>
+                  {match.maintained ? (
+                    <Badge variant="outline" className="border-green-200 bg-green-50 text-green-700">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      {lang === 'de' ? 'Gepflegt' : 'Maintained'}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="border-gray-200 text-gray-500">
+                      {lang === 'de' ? 'Nicht mehr gepflegt' : 'Unmaintained'}
+                    </Badge>
+                  )}
+                  <Badge variant="secondary">
+                    {Math.round(match.coverage * 100)}% {lang === 'de' ? 'abgedeckt' : 'covered'}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-600 mt-1 line-clamp-2">{match.agent.summary}</p>
+                <p className="text-xs text-gray-500 mt-1">{match.agent.provider}</p>
+              </div>
+              <AgentTierDisplay score={match.score} size="sm" />
+            </div>
+
+            {match.missingCapabilities.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                <span>{lang === 'de' ? 'Fehlt:' : 'Missing:'}</span>
+                {match.missingCapabilities.map(tag => (
+                  <CapabilityChip key={tag} capability={tag} displayName={displayName(tag)} size="sm" />
+                ))}
+              </div>
+            )}
+
+            {match.agent.link && match.agent.link !== '#' && (
+              <a
+                href={match.agent.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <ExternalLink className="h-3.5 w-3.5" />
+                {lang === 'de' ? 'Zum Agenten' : 'Open agent'}
+              </a>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
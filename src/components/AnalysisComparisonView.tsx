@@ -0,0 +1,138 @@
+import { useMemo } from "react";
+import { ArrowRight, Minus, TrendingDown, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { t } from "@/lib/i18n/i18n";
+import { compareAnalyses } from "@/lib/analysis/analysisComparison";
+import type { AnalysisResult } from "@/lib/analysis/roiAggregator";
+
+interface AnalysisComparisonViewProps {
+  left: AnalysisResult;
+  right: AnalysisResult;
+  leftTitle: string;
+  rightTitle: string;
+  lang: "de" | "en";
+}
+
+const DeltaBadge = ({ delta, suffix = "" }: { delta: number; suffix?: string }) => {
+  if (delta === 0) {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <Minus className="w-3 h-3" />0{suffix}
+      </Badge>
+    );
+  }
+  const Icon = delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <Badge variant={delta > 0 ? "default" : "destructive"} className="gap-1">
+      <Icon className="w-3 h-3" />
+      {delta > 0 ? "+" : ""}{delta}{suffix}
+    </Badge>
+  );
+};
+
+/**
+ * Side-by-side diff of two analyses: score and ratio changes, aligned tasks and tasks found in only one of them
+ */
+const AnalysisComparisonView = ({ left, right, leftTitle, rightTitle, lang }: AnalysisComparisonViewProps) => {
+  const comparison = useMemo(() => compareAnalyses(left, right), [left, right]);
+
+  return (
+    <div className="space-y-6">
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground truncate">{leftTitle}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-3xl font-semibold">{left.totalScore}%</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground truncate">{rightTitle}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-3xl font-semibold">{right.totalScore}%</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">{t(lang, "compare_change")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span>{t(lang, "compare_total_score")}</span>
+              <DeltaBadge delta={comparison.totalScoreDelta} suffix=" pp" />
+            </div>
+            <div className="flex items-center justify-between">
+              <span>{t(lang, "compare_ratio_automatable")}</span>
+              <DeltaBadge delta={comparison.ratioDelta.automatisierbar} suffix=" pp" />
+            </div>
+            <div className="flex items-center justify-between">
+              <span>{t(lang, "compare_overlap")}</span>
+              <span className="font-medium">{Math.round(comparison.overlap * 100)}%</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Aligned tasks */}
+      {comparison.pairs.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-foreground">{t(lang, "compare_matched_tasks")}</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{leftTitle}</TableHead>
+                <TableHead>{rightTitle}</TableHead>
+                <TableHead className="text-right">{t(lang, "compare_score")}</TableHead>
+                <TableHead className="text-right">{t(lang, "compare_delta")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.pairs.map(pair => (
+                <TableRow key={`${pair.leftIndex}-${pair.rightIndex}`}>
+                  <TableCell>{pair.left.text}</TableCell>
+                  <TableCell>{pair.right.text}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {pair.left.score}% <ArrowRight className="inline w-3 h-3 mx-1" /> {pair.right.score}%
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DeltaBadge delta={pair.scoreDelta} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Tasks found in only one analysis */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {[
+          { title: leftTitle, entries: comparison.onlyInLeft },
+          { title: rightTitle, entries: comparison.onlyInRight }
+        ].map(({ title, entries }) => (
+          <div key={title} className="space-y-2">
+            <h3 className="text-lg font-semibold text-foreground">
+              {t(lang, "compare_only_in")} {title}
+            </h3>
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t(lang, "compare_none")}</p>
+            ) : (
+              <ul className="space-y-2">
+                {entries.map(({ index, task }) => (
+                  <li key={index} className="flex justify-between gap-4 text-sm border-b border-border pb-2">
+                    <span>{task.text}</span>
+                    <span className="font-medium whitespace-nowrap">{task.score}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisComparisonView;
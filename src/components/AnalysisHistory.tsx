@@ -4,7 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Clock, BarChart3, Trash2, Users, Eye, CheckSquare } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { t } from "@/lib/i18n/i18n";
+import { useAuth } from "@/hooks/useAuth";
 import ScoreCircle from "./ScoreCircle";
+import AccountHistory from "./AccountHistory";
+import AccountSignIn from "./AccountSignIn";
 // Demo data for when no public analyses are available
 const generateDemoAnalyses = () => [
   {
@@ -81,6 +84,8 @@ const AnalysisHistory = ({ lang }: AnalysisHistoryProps) => {
   const [displayedCount, setDisplayedCount] = useState(8);
   const [showPublic, setShowPublic] = useState(false);
   const navigate = useNavigate();
+  const { user, signInWithEmail, signOut } = useAuth();
+  const showAccount = !showPublic && !!user;
 
   useEffect(() => {
     loadHistory();
@@ -350,10 +355,31 @@ const AnalysisHistory = ({ lang }: AnalysisHistoryProps) => {
               </button>
             </div>
           </div>
+
+          {!showPublic && !user && history.length >= 2 && (
+            <div className="flex justify-center mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/compare?lang=${lang}&ids=${history.slice(0, 2).map(item => item.id).join(',')}`)}
+              >
+                <BarChart3 className="w-4 h-4 mr-2" />
+                {t(lang, 'compare_action')}
+              </Button>
+            </div>
+          )}
         </div>
 
+        {!showPublic && user && (
+          <AccountHistory lang={lang} email={user.email} onSignOut={signOut} />
+        )}
+
+        {!showPublic && !user && (
+          <AccountSignIn lang={lang} onSignIn={signInWithEmail} />
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {(showPublic ? publicAnalyses : history).slice(0, displayedCount).map((item) => (
+          {(showPublic ? publicAnalyses : showAccount ? [] : history).slice(0, displayedCount).map((item) => (
             <Card 
               key={item.id} 
               className="cursor-pointer hover:shadow-md transition-shadow duration-200 group"
@@ -406,7 +432,7 @@ const AnalysisHistory = ({ lang }: AnalysisHistoryProps) => {
         </div>
         
         {/* Load More Button */}
-        {displayedCount < history.length && (
+        {!showAccount && displayedCount < history.length && (
           <div className="flex justify-center mt-6">
             <Button 
               onClick={loadMore}
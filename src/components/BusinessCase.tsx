@@ -23,6 +23,7 @@ import {
 import { t } from '../lib/i18n/i18n';
 import { openaiClient } from '../lib/openai';
 import { analysisCacheService } from '../lib/services/analysisCacheService';
+import { MONTHS_PER_PERIOD, ROIPeriod } from '../lib/analysis/roiModel';
 
 interface BusinessCaseProps {
   task: {
@@ -43,14 +44,7 @@ interface BusinessCaseProps {
   onPeriodChange?: (p: Period) => void;
 }
 
-type Period = 'year' | 'month' | 'week' | 'day';
-
-const HOURS_PER_PERIOD: Record<Period, number> = {
-  year: 2080, // 40h * 52
-  month: 40, // Realistische monatliche Arbeitszeit für eine spezifische Aufgabe
-  week: 10, // Realistische wöchentliche Arbeitszeit für eine spezifische Aufgabe
-  day: 2, // Realistische tägliche Arbeitszeit für eine spezifische Aufgabe
-};
+type Period = ROIPeriod;
 
 const BusinessCase: React.FC<BusinessCaseProps> = ({ task, lang = 'de', period: periodProp, onPeriodChange }) => {
   const [mode, setMode] = useState<'time' | 'money'>('time');
@@ -173,8 +167,8 @@ const BusinessCase: React.FC<BusinessCaseProps> = ({ task, lang = 'de', period:
       return null; // Return null if no AI data to prevent showing fallback numbers
     }
 
-    // AI now generates monthly values directly, so scale from month to other periods
-    const scale = HOURS_PER_PERIOD[period] / HOURS_PER_PERIOD['month'];
+    // AI generates monthly values; convert them to the selected calendar period
+    const scale = MONTHS_PER_PERIOD[period];
     
     // Use AI-generated hourly rate based on employment type, or fallback to user input
     const aiHourlyRate = businessCaseData.employmentType === 'employee' 
@@ -183,15 +177,20 @@ const BusinessCase: React.FC<BusinessCaseProps> = ({ task, lang = 'de', period:
     
     const effectiveHourlyRate = hourlyRate || aiHourlyRate;
     
+    // Saved = manual - automated, so the displayed rows always add up
+    const manualHours = businessCaseData.manualHours * scale;
+    const automatedHours = Math.min(businessCaseData.automatedHours * scale, manualHours);
+    const savedHours = manualHours - automatedHours;
+    
     return {
       automationRatio: businessCaseData.automationPotential,
-      manualHours: businessCaseData.manualHours * scale,
-      automatedHours: businessCaseData.automatedHours * scale,
-      savedHours: businessCaseData.savedHours * scale,
-      manualCost: businessCaseData.manualHours * scale * effectiveHourlyRate,
-      automatedCost: businessCaseData.automatedHours * scale * effectiveHourlyRate * 0.25, // 25% cost reduction
-      savedMoney: businessCaseData.savedHours * scale * effectiveHourlyRate,
-      totalSavingsMoney: businessCaseData.savedHours * scale * effectiveHourlyRate,
+      manualHours,
+      automatedHours,
+      savedHours,
+      manualCost: manualHours * effectiveHourlyRate,
+      automatedCost: automatedHours * effectiveHourlyRate,
+      savedMoney: savedHours * effectiveHourlyRate,
+      totalSavingsMoney: savedHours * effectiveHourlyRate,
       reasoning: businessCaseData.reasoning,
       employmentType: businessCaseData.employmentType,
       aiHourlyRate: aiHourlyRate,
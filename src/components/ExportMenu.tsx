@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Download, FileArchive, FileText, FileSpreadsheet, FileType, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { t } from "@/lib/i18n/i18n";
+import type { AnalysisResult } from "@/lib/analysis/roiAggregator";
+import {
+  ExportFormat,
+  buildAnalysisReport,
+  downloadReport,
+  fetchRecommendedWorkflows,
+  generateReport,
+  reportFileName
+} from "@/lib/export/analysisReport";
+import { exportWorkflowBundle } from "@/lib/export/n8nWorkflowExport";
+import { simplifiedWorkflowIndexer } from "@/lib/workflowIndexerSimplified";
+import type { UnifiedWorkflow } from "@/lib/schemas/unifiedWorkflow";
+
+interface ExportMenuProps {
+  analysis: AnalysisResult;
+  lang: "de" | "en";
+  title?: string;
+}
+
+const FORMATS: Array<{ format: ExportFormat; icon: typeof FileText; labelKey: string }> = [
+  { format: "pdf", icon: FileText, labelKey: "export_pdf" },
+  { format: "docx", icon: FileType, labelKey: "export_docx" },
+  { format: "xlsx", icon: FileSpreadsheet, labelKey: "export_xlsx" }
+];
+
+/**
+ * Download the analysis as PDF, DOCX or XLSX report, or its recommended workflows as n8n bundle
+ */
+const ExportMenu = ({ analysis, lang, title }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState<ExportFormat | "n8n" | null>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const solutions = await fetchRecommendedWorkflows(analysis);
+      const report = buildAnalysisReport(analysis, lang, { title, solutions });
+      const blob = await generateReport(report, format);
+      downloadReport(blob, reportFileName(report, format));
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast({ title: t(lang, "export_failed"), variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleWorkflowBundle = async () => {
+    setExporting("n8n");
+    try {
+      const solutions = await fetchRecommendedWorkflows(analysis);
+      const ids = Array.from(new Set(solutions.map(solution => solution.workflowId).filter((id): id is string => !!id)));
+      const workflows = (await Promise.all(ids.map(id => simplifiedWorkflowIndexer.getWorkflowById(id))))
+        .filter((workflow): workflow is UnifiedWorkflow => !!workflow);
+      if (workflows.length === 0) {
+        toast({ title: t(lang, "export_n8n_bundle_empty"), variant: "destructive" });
+        return;
+      }
+      const report = buildAnalysisReport(analysis, lang, { title });
+      const { blob } = await exportWorkflowBundle(workflows, { lang, title: report.title });
+      downloadReport(blob, reportFileName(report, "zip"));
+    } catch (error) {
+      console.error('Error exporting workflows:', error);
+      toast({ title: t(lang, "export_failed"), variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="lg" className="flex items-center space-x-2 px-8" disabled={exporting !== null}>
+          {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          <span>{t(lang, "export_button")}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center">
+        {FORMATS.map(({ format, icon: Icon, labelKey }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            <Icon className="w-4 h-4 mr-2" />
+            {t(lang, labelKey)}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuItem onSelect={handleWorkflowBundle}>
+          <FileArchive className="w-4 h-4 mr-2" />
+          {t(lang, "export_n8n_bundle")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -38,6 +38,12 @@ const Header = ({ showBack = false }: HeaderProps) => {
           </div>
         ) : (
           <nav className="flex items-center space-x-8 pointer-events-auto">
+            <Link 
+              to="/batch" 
+              className="text-foreground hover:text-primary transition-colors duration-200"
+            >
+              {t(lang, "batch_title")}
+            </Link>
             <Link 
               to="/about" 
               className="text-foreground hover:text-primary transition-colors duration-200"
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { callAnalyzeInput } from "@/lib/supabase";
+import { storePendingAnalysis } from "@/lib/analysisStorage";
 import { extractJobTextFromUrl } from "@/lib/extractJobText";
 import LoadingPage from "./LoadingPage";
 import AnalysisHistory from "./AnalysisHistory";
@@ -170,95 +170,15 @@ const MainContent = ({ buttonText, headline, subtitle, lang }: MainContentProps)
         }
       }
       
-      const result = await callAnalyzeInput(
-        isUrl && extractedJobText
-          ? { rawText: analysisInput }
-          : isUrl 
-            ? { url: input.trim() }
-            : { rawText: analysisInput },
-        lang
-      );
+      // The Results page streams the analysis and renders tasks as they arrive
+      storePendingAnalysis(analysisInput, lang);
       
-      if (result.success && result.data) {
-
-        
-        // Handle both old and new data structures
-        let analysisData;
-        const data = result.data as any; // Type assertion to handle both formats
-        
-        if (data.totalScore !== undefined) {
-          // New enhanced structure
-          analysisData = {
-            totalScore: data.totalScore,
-            ratio: data.ratio,
-            tasks: data.tasks,
-            summary: data.summary,
-            recommendations: data.recommendations,
-            automationTrends: data.automationTrends,
-            originalText: data.originalText
-          };
-        } else {
-          // Old structure - transform to new format
-          const automationScore = data.automationScore || 0;
-          const automatedTasks = data.automatedTasks || [];
-          const manualTasks = data.manualTasks || [];
-          
-          // Convert old task arrays to new task objects
-          const tasks = [
-            ...automatedTasks.map((task: string, index: number) => ({
-              text: task,
-              score: Math.min(100, automationScore + Math.random() * 20),
-              label: "Automatisierbar" as const,
-              category: "automatisierbar",
-              confidence: 80,
-              complexity: "medium" as const,
-              automationTrend: "increasing" as const
-            })),
-            ...manualTasks.map((task: string, index: number) => ({
-              text: task,
-              score: Math.max(0, 50 - Math.random() * 30),
-              label: "Mensch" as const,
-              category: "mensch", 
-              confidence: 70,
-              complexity: "medium" as const,
-              automationTrend: "stable" as const
-            }))
-          ];
-          
-          analysisData = {
-            totalScore: automationScore,
-            ratio: {
-              automatisierbar: Math.round((automatedTasks.length / (automatedTasks.length + manualTasks.length)) * 100),
-              mensch: Math.round((manualTasks.length / (automatedTasks.length + manualTasks.length)) * 100)
-            },
-            tasks: tasks,
-            summary: data.summary || `Analyse mit ${automationScore}% Automatisierungspotenzial`,
-            recommendations: data.recommendations || [],
-            automationTrends: {
-              highPotential: automatedTasks.slice(0, 3),
-              mediumPotential: [],
-              lowPotential: manualTasks.slice(0, 3)
-            },
-            originalText: data.originalText
-          };
-        }
-        
-        // Store the normalized data structure
-        sessionStorage.setItem('analysisResult', JSON.stringify(analysisData));
-        
-        // Save to history
-        saveToHistory(analysisData, analysisInput);
-        
-        if (debugData) {
-          sessionStorage.setItem('debugData', JSON.stringify(debugData));
-        }
-        // Navigate to results and scroll to top
-        navigate(`/results${lang === 'en' ? '?lang=en' : ''}`);
-        // The scroll to top will be handled in the Results component
-      } else {
-        console.error('Analysis failed:', result.error);
-        setAnalysisError(result.error || t(lang, "analysis_error"));
+      if (debugData) {
+        sessionStorage.setItem('debugData', JSON.stringify(debugData));
       }
+      // Navigate to results and scroll to top
+      navigate(`/results${lang === 'en' ? '?lang=en' : ''}`);
+      // The scroll to top will be handled in the Results component
     } catch (error) {
       console.error('Error during analysis:', error);
       setAnalysisError(t(lang, "connection_error"));
@@ -267,51 +187,6 @@ const MainContent = ({ buttonText, headline, subtitle, lang }: MainContentProps)
     }
   };
 
-  const saveToHistory = (analysisData: any, originalInput: string) => {
-    try {
-      const historyId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Extract job title
-      let jobTitle = "Analyse";
-      if (analysisData.originalText) {
-        const lines = analysisData.originalText.split('\n');
-        const firstLine = lines[0]?.trim();
-        if (firstLine && firstLine.length > 5 && firstLine.length < 60 && !firstLine.includes('http')) {
-          jobTitle = firstLine;
-        }
-      } else if (originalInput.length > 0 && originalInput.length < 60 && !originalInput.includes('http')) {
-        jobTitle = originalInput;
-      }
-
-      // Create history item
-      const historyItem = {
-        id: historyId,
-        timestamp: Date.now(),
-        score: analysisData.totalScore,
-        jobTitle: jobTitle,
-        taskCount: analysisData.tasks?.length || 0,
-        summary: analysisData.summary,
-        isPublic: true, // Default to public
-        views: 0
-      };
-
-      // Save full analysis data
-      localStorage.setItem(historyId, JSON.stringify(analysisData));
-
-      // Update history list
-      const existingHistory = localStorage.getItem('analysisHistory');
-      const history = existingHistory ? JSON.parse(existingHistory) : [];
-      history.unshift(historyItem); // Add to beginning
-      
-      // Keep only last 10 analyses
-      const trimmedHistory = history.slice(0, 10);
-      localStorage.setItem('analysisHistory', JSON.stringify(trimmedHistory));
-
-    } catch (error) {
-      console.error('Error saving to history:', error);
-    }
-  };
-
   const getExampleJobs = (lang: "de" | "en") => {
     if (lang === 'de') {
       return [
@@ -0,0 +1,58 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { t } from "@/lib/i18n/i18n";
+import type { RoleROI } from "@/lib/analysis/roiModel";
+
+interface RoleROICardProps {
+  roi: RoleROI;
+  lang: "de" | "en";
+}
+
+const formatMoney = (value: number, lang: "de" | "en") =>
+  `${Math.round(value).toLocaleString(lang === "de" ? "de-DE" : "en-US")} €`;
+
+/**
+ * Role-level business case of a single analysis: saved hours, savings, NPV and payback
+ */
+const RoleROICard = ({ roi, lang }: RoleROICardProps) => {
+  const figures: Array<[string, string | number]> = [
+    [t(lang, "batch_saved_hours"), roi.savedHoursPerMonth.toLocaleString(lang === "de" ? "de-DE" : "en-US")],
+    [t(lang, "batch_annual_savings"), formatMoney(roi.netMonthlySavings * 12, lang)],
+    [t(lang, "batch_setup_cost"), formatMoney(roi.setupCost, lang)],
+    [t(lang, "batch_npv"), formatMoney(roi.npv, lang)],
+    [t(lang, "batch_payback"), roi.paybackMonth ?? "–"]
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{t(lang, "roi_model_title")}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t(lang, "roi_model_note")}</p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {figures.map(([label, value]) => (
+            <div key={label} className="rounded-lg border border-border p-4">
+              <div className="text-sm text-muted-foreground">{label}</div>
+              <div className="text-2xl font-semibold text-foreground mt-1">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {roi.yearlySavings.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-foreground">{t(lang, "batch_yearly_savings")}</h3>
+            <div className="flex flex-wrap gap-6 text-sm">
+              {roi.yearlySavings.map((savings, year) => (
+                <span key={year}>
+                  <span className="text-muted-foreground">{t(lang, "batch_year")} {year + 1}:</span> {formatMoney(savings, lang)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleROICard;
@@ -0,0 +1,434 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, History, Loader2, Plus, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import {
+  ScoringProfileVersion,
+  scoringProfileService
+} from '@/lib/services/scoringProfileService';
+import {
+  ScoringProfile,
+  ScoringProfileConfig,
+  validateProfileConfig
+} from '../../supabase/functions/_shared/scoring-profiles.ts';
+
+interface ScoringProfilesManagementProps {
+  lang: 'de' | 'en';
+}
+
+interface Draft {
+  slug: string;
+  name: string;
+  description: string;
+  config: ScoringProfileConfig;
+  isNew: boolean;
+}
+
+type NumberSection = Record<string, number>;
+
+const toDraft = (profile: ScoringProfile, isNew = false): Draft => ({
+  slug: isNew ? '' : profile.slug,
+  name: isNew ? '' : profile.name,
+  description: isNew ? '' : profile.description,
+  config: JSON.parse(JSON.stringify({ agent: profile.agent, workflow: profile.workflow })),
+  isNew
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export default function ScoringProfilesManagement({ lang }: ScoringProfilesManagementProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [history, setHistory] = useState<ScoringProfileVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selectProfile = useCallback(async (profile: ScoringProfile) => {
+    setDraft(toDraft(profile));
+    setNotice(null);
+    setHistory([]);
+    try {
+      setHistory(await scoringProfileService.history(profile.slug));
+    } catch (e) {
+      console.warn('⚠️ [ScoringProfiles] Loading history failed:', e);
+    }
+  }, []);
+
+  // Reselects `selectSlug`, otherwise the first profile
+  const loadProfiles = useCallback(async (selectSlug?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await scoringProfileService.list();
+      setProfiles(loaded);
+      const selected = loaded.find(profile => profile.slug === selectSlug) ?? loaded[0];
+      if (selected) selectProfile(selected);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [selectProfile]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const errors = useMemo(() => (draft ? validateProfileConfig(draft.config) : []), [draft]);
+
+  const updateConfig = (mutate: (config: ScoringProfileConfig) => void) => {
+    setDraft(current => {
+      if (!current) return current;
+      const config: ScoringProfileConfig = JSON.parse(JSON.stringify(current.config));
+      mutate(config);
+      return { ...current, config };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const version = await scoringProfileService.save({
+        slug: draft.slug,
+        name: draft.name,
+        description: draft.description,
+        config: draft.config
+      }, 'admin');
+      setNotice(lang === 'de'
+        ? `${draft.name} als Version ${version} gespeichert und aktiviert.`
+        : `${draft.name} saved and activated as version ${version}.`);
+      await loadProfiles(draft.slug);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (entry: ScoringProfileVersion) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await scoringProfileService.activate(entry.profile.slug, entry.profile.version);
+      setNotice(lang === 'de'
+        ? `Version ${entry.profile.version} von ${entry.profile.name} ist wieder aktiv.`
+        : `Version ${entry.profile.version} of ${entry.profile.name} is active again.`);
+      await loadProfiles(entry.profile.slug);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderNumbers = (
+    title: string,
+    values: NumberSection,
+    onChange: (key: string, value: number) => void,
+    step = 0.01
+  ) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-900">{title}</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {Object.entries(values).map(([key, value]) => (
+          <div key={key} className="space-y-1">
+            <Label className="text-xs text-gray-600">{key}</Label>
+            <Input
+              type="number"
+              step={step}
+              value={value}
+              onChange={event => onChange(key, Number(event.target.value))}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderList = (title: string, values: string[], onChange: (values: string[]) => void) => (
+    <div className="space-y-1">
+      <Label className="text-sm font-medium text-gray-900">{title}</Label>
+      <Textarea
+        rows={2}
+        value={values.join(', ')}
+        onChange={event => onChange(splitList(event.target.value))}
+      />
+    </div>
+  );
+
+  const weightSum = draft
+    ? Object.values(draft.config.agent.weights).reduce((sum, weight) => sum + weight, 0)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            {lang === 'de' ? 'Bewertungsprofile' : 'Scoring Profiles'}
+          </h2>
+          <p className="text-gray-600">
+            {lang === 'de'
+              ? 'Gewichtung von Agenten-Scores und Workflow-Qualität. Jede Änderung wird als neue Version gespeichert.'
+              : 'Weighting of agent scores and workflow quality. Every change is stored as a new version.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => loadProfiles(draft?.slug)} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {lang === 'de' ? 'Aktualisieren' : 'Refresh'}
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!draft}
+            onClick={() => {
+              const base = profiles.find(profile => profile.slug === draft?.slug);
+              if (base) {
+                setDraft(toDraft(base, true));
+                setHistory([]);
+              }
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {lang === 'de' ? 'Neues Profil' : 'New profile'}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <button
+                key={profile.slug}
+                onClick={() => selectProfile(profile)}
+                className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                  draft && !draft.isNew && draft.slug === profile.slug
+                    ? 'border-primary bg-primary/5'
+                    : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">{profile.name}</span>
+                  <Badge variant="outline">v{profile.version}</Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{profile.slug}</p>
+              </button>
+            ))}
+          </div>
+
+          {draft && (
+            <div className="lg:col-span-3 space-y-6">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">
+                    {draft.isNew
+                      ? (lang === 'de' ? 'Neues Profil' : 'New profile')
+                      : draft.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {lang === 'de'
+                      ? 'Wird pro Anfrage über den Slug ausgewählt, z. B. { profile: "enterprise-safe" }.'
+                      : 'Selected per request by its slug, e.g. { profile: "enterprise-safe" }.'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Slug</Label>
+                      <Input
+                        value={draft.slug}
+                        disabled={!draft.isNew}
+                        placeholder="enterprise-safe"
+                        onChange={event => setDraft({ ...draft, slug: event.target.value.toLowerCase() })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>{lang === 'de' ? 'Name' : 'Name'}</Label>
+                      <Input value={draft.name} onChange={event => setDraft({ ...draft, name: event.target.value })} />
+                    </div>
+                    <div className="space-y-1 md:col-span-2">
+                      <Label>{lang === 'de' ? 'Beschreibung' : 'Description'}</Label>
+                      <Input
+                        value={draft.description}
+                        onChange={event => setDraft({ ...draft, description: event.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-4">
+                    <h3 className="font-semibold text-gray-900">{lang === 'de' ? 'Agenten' : 'Agents'}</h3>
+                    {renderNumbers(
+                      `${lang === 'de' ? 'Gewichte' : 'Weights'} (Σ ${weightSum.toFixed(2)})`,
+                      draft.config.agent.weights,
+                      (key, value) => updateConfig(config => {
+                        (config.agent.weights as NumberSection)[key] = value;
+                      })
+                    )}
+                    {renderNumbers(
+                      lang === 'de' ? 'Tier-Schwellen' : 'Tier thresholds',
+                      draft.config.agent.tierThresholds,
+                      (key, value) => updateConfig(config => {
+                        (config.agent.tierThresholds as NumberSection)[key] = value;
+                      }),
+                      1
+                    )}
+                    {renderNumbers(
+                      lang === 'de' ? 'Boost-Faktoren' : 'Boost factors',
+                      draft.config.agent.boostFactors,
+                      (key, value) => updateConfig(config => {
+                        (config.agent.boostFactors as NumberSection)[key] = value;
+                      })
+                    )}
+                    {renderList(
+                      lang === 'de' ? 'Hochwertige Modelle' : 'High-quality models',
+                      draft.config.agent.highQualityModels,
+                      values => updateConfig(config => { config.agent.highQualityModels = values; })
+                    )}
+                    {renderList(
+                      lang === 'de' ? 'Zuverlässige Anbieter' : 'Reliable providers',
+                      draft.config.agent.reliableProviders,
+                      values => updateConfig(config => { config.agent.reliableProviders = values; })
+                    )}
+                    {renderList(
+                      lang === 'de' ? 'Ausgeschlossene Anbieter' : 'Excluded providers',
+                      draft.config.agent.excludedProviders,
+                      values => updateConfig(config => { config.agent.excludedProviders = values; })
+                    )}
+                    {renderList(
+                      lang === 'de' ? 'Kernfähigkeiten' : 'Core capabilities',
+                      draft.config.agent.coreCapabilities,
+                      values => updateConfig(config => { config.agent.coreCapabilities = values; })
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={draft.config.agent.openSourceOnly}
+                        onCheckedChange={checked => updateConfig(config => { config.agent.openSourceOnly = checked; })}
+                      />
+                      <Label>{lang === 'de' ? 'Nur Open-Source-Agenten' : 'Open-source agents only'}</Label>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4">
+                    <h3 className="font-semibold text-gray-900">
+                      {lang === 'de' ? 'Workflow-Qualität (quality_prior)' : 'Workflow quality (quality_prior)'}
+                    </h3>
+                    {renderNumbers(
+                      lang === 'de' ? 'Basis' : 'Base',
+                      { base: draft.config.workflow.base },
+                      (_, value) => updateConfig(config => { config.workflow.base = value; })
+                    )}
+                    {renderNumbers(
+                      lang === 'de' ? 'Aufschläge' : 'Boosts',
+                      draft.config.workflow.boosts,
+                      (key, value) => updateConfig(config => {
+                        (config.workflow.boosts as NumberSection)[key] = value;
+                      })
+                    )}
+                    {renderNumbers(
+                      lang === 'de' ? 'Abzüge' : 'Penalties',
+                      draft.config.workflow.penalties,
+                      (key, value) => updateConfig(config => {
+                        (config.workflow.penalties as NumberSection)[key] = value;
+                      })
+                    )}
+                    {renderNumbers(
+                      lang === 'de' ? 'Schwellen' : 'Thresholds',
+                      draft.config.workflow.thresholds,
+                      (key, value) => updateConfig(config => {
+                        (config.workflow.thresholds as NumberSection)[key] = value;
+                      }),
+                      1
+                    )}
+                  </div>
+
+                  {errors.length > 0 && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        <ul className="list-disc pl-4">
+                          {errors.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={handleSave}
+                      disabled={saving || errors.length > 0 || !draft.slug || !draft.name.trim()}
+                    >
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      {lang === 'de' ? 'Als neue Version speichern' : 'Save as new version'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {history.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <History className="h-4 w-4" />
+                      {lang === 'de' ? 'Versionen' : 'Versions'}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {history.map(entry => (
+                      <div
+                        key={entry.profile.version}
+                        className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 p-3"
+                      >
+                        <div className="text-sm">
+                          <span className="font-medium">v{entry.profile.version}</span>
+                          <span className="text-gray-500">
+                            {' '}· {new Date(entry.createdAt).toLocaleString(lang === 'de' ? 'de-DE' : 'en-US')}
+                            {entry.createdBy && ` · ${entry.createdBy}`}
+                          </span>
+                        </div>
+                        {entry.active ? (
+                          <Badge variant="secondary">{lang === 'de' ? 'Aktiv' : 'Active'}</Badge>
+                        ) : (
+                          <Button variant="outline" size="sm" disabled={saving} onClick={() => handleActivate(entry)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            {lang === 'de' ? 'Aktivieren' : 'Activate'}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
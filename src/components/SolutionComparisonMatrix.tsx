@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SolutionIcon from "@/components/ui/SolutionIcon";
+import { t } from "@/lib/i18n/i18n";
+import { buildSolutionComparison } from "@/lib/solutions/solutionComparison";
+import type { Solution, SolutionComparisonCell, SolutionComparisonField } from "@/types/solutions";
+
+interface SolutionComparisonMatrixProps {
+  solutions: Solution[];
+  lang: "de" | "en";
+  onlyDifferences?: boolean;
+}
+
+const CellValue = ({ field, cell, lang }: { field: SolutionComparisonField; cell: SolutionComparisonCell; lang: "de" | "en" }) => {
+  if (cell.value === null) {
+    return <span className="text-muted-foreground">{t(lang, "solution_compare_unknown")}</span>;
+  }
+
+  if (Array.isArray(cell.value)) {
+    if (cell.value.length === 0) {
+      return <span className="text-muted-foreground">{t(lang, "compare_none")}</span>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {cell.value.map(item => (
+          <Badge key={item} variant="outline" className="font-normal">{item}</Badge>
+        ))}
+      </div>
+    );
+  }
+
+  if (field === "maintenance" && cell.detail) {
+    return (
+      <span>
+        {new Date(String(cell.value)).toLocaleDateString(lang === "de" ? "de-DE" : "en-US")}
+        <span className="block text-xs text-muted-foreground">
+          {cell.detail.daysSinceUpdate} {t(lang, "solution_compare_days_ago")}
+        </span>
+      </span>
+    );
+  }
+
+  if (field === "score" && cell.detail) {
+    return (
+      <div className="space-y-1">
+        <span className="text-lg font-semibold">{cell.value}</span>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-3 text-xs text-muted-foreground">
+          {Object.entries(cell.detail).map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="truncate">{key}</dt>
+              <dd className="text-right">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    );
+  }
+
+  return <span>{cell.value}</span>;
+};
+
+/**
+ * Comparison matrix of 2-4 workflows/agents; the best cell per row is highlighted and
+ * a "best for" summary names what each solution wins on
+ */
+const SolutionComparisonMatrix = ({ solutions, lang, onlyDifferences = false }: SolutionComparisonMatrixProps) => {
+  const comparison = useMemo(() => buildSolutionComparison(solutions, lang), [solutions, lang]);
+  const fields = comparison.comparisonFields.filter(field => !onlyDifferences || comparison.differences[field].differs);
+
+  return (
+    <div className="space-y-6">
+      {/* Best-for summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {comparison.bestFor.map(entry => {
+          const solution = solutions.find(item => item.id === entry.solutionId)!;
+          return (
+            <Card key={entry.solutionId}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <SolutionIcon type={solution.type} className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{solution.name}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {entry.reasons.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">{t(lang, "compare_none")}</span>
+                ) : entry.reasons.map(reason => (
+                  <Badge key={reason} className="gap-1">
+                    <Trophy className="w-3 h-3" />
+                    {t(lang, `solution_compare_best_${reason}`)}
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Matrix */}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t(lang, "solution_compare_criterion")}</TableHead>
+            {solutions.map(solution => (
+              <TableHead key={solution.id}>{solution.name}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={field}>
+              <TableCell className="font-medium whitespace-nowrap align-top">
+                {t(lang, `solution_compare_field_${field}`)}
+              </TableCell>
+              {comparison.differences[field].cells.map(cell => (
+                <TableCell
+                  key={cell.solutionId}
+                  className={`align-top ${cell.best ? "bg-primary/10 font-medium" : ""}`}
+                >
+                  <CellValue field={field} cell={cell} lang={lang} />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default SolutionComparisonMatrix;
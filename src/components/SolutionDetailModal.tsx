@@ -41,6 +41,7 @@ import {
 } from 'lucide-react';
 import { cn } from '../lib/utils';
 import CreatorBadge from './CreatorBadge';
+import WorkflowValidationPanel from './WorkflowValidationPanel';
 
 interface SolutionDetailModalProps {
   solution: Solution | null;
@@ -123,6 +124,9 @@ export default function SolutionDetailModal({
 
   if (!solution) return null;
 
+  // Static n8n checks only make sense for catalog workflows, and only admins act on them
+  const showValidation = isAdmin && solution.type === 'workflow';
+
   const handleSetupRequest = () => {
     const subject = encodeURIComponent(`Einrichtungsanfrage: ${solution.name}`);
     const body = encodeURIComponent(`Hallo,\n\nich interessiere mich für die professionelle Einrichtung der Lösung "${solution.name}".\n\nMeine Details:\n- Name: ${setupForm.name}\n- E-Mail: ${setupForm.email}\n- Firma: ${setupForm.company || 'Nicht angegeben'}\n\nLösungs-Details:\n- Name: ${solution.name}\n- Beschreibung: ${solution.description}\n- Kategorie: ${solution.category}\n- Automatisierungspotenzial: ${solution.automationPotential}%\n- Geschätzter ROI: ${solution.estimatedROI}\n- Zeit bis zur Wertschöpfung: ${solution.timeToValue}\n\nMeine Anforderungen:\n${setupForm.requirements}\n\nBitte kontaktieren Sie mich für weitere Details.\n\nMit freundlichen Grüßen\n${setupForm.name}`);
@@ -1012,13 +1016,14 @@ export default function SolutionDetailModal({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className={cn('grid w-full', showValidation ? 'grid-cols-7' : 'grid-cols-6')}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="prerequisites">Prerequisites</TabsTrigger>
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
             <TabsTrigger value="implementation">Implementation</TabsTrigger>
             <TabsTrigger value="requirements">Requirements</TabsTrigger>
             <TabsTrigger value="metadata">Details</TabsTrigger>
+            {showValidation && <TabsTrigger value="validation">Validation</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -1107,6 +1112,12 @@ export default function SolutionDetailModal({
           <TabsContent value="metadata" className="space-y-4">
             {renderMetadata()}
           </TabsContent>
+
+          {showValidation && (
+            <TabsContent value="validation" className="space-y-4">
+              <WorkflowValidationPanel workflowId={solution.id} lang="en" />
+            </TabsContent>
+          )}
         </Tabs>
 
         <Separator />
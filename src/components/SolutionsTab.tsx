@@ -1,12 +1,15 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Solution, SolutionType } from '../types/solutions';
+import { Solution, SolutionRef, SolutionType } from '../types/solutions';
 import SolutionCard from './SolutionCard';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Columns3 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
 import SolutionDetailModal from './SolutionDetailModal';
 import SolutionIcon from './ui/SolutionIcon';
 import { simplifiedWorkflowIndexer } from '@/lib/workflowIndexerSimplified';
 import { rerankWorkflows } from '@/lib/aiRerank';
 import { recommendWorkflows } from '@/lib/recommendations/client';
+import { MAX_COMPARED_SOLUTIONS, MIN_COMPARED_SOLUTIONS, solutionComparisonPath } from '@/lib/solutions/solutionComparison';
 
 interface SolutionsTabProps {
   taskText?: string;
@@ -35,6 +38,7 @@ export default function SolutionsTab({
   const [activeTab, setActiveTab] = useState<'all' | 'workflows' | 'agents'>('all');
   const [selectedSolution, setSelectedSolution] = useState<Solution | null>(null);
   const [showSolutionModal, setShowSolutionModal] = useState(false);
+  const [compareRefs, setCompareRefs] = useState<SolutionRef[]>([]);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -204,7 +208,7 @@ export default function SolutionsTab({
       // secondary fetch: query-scoped pool driven by task/subtasks
       let scoped: any[] = [];
       try {
-        const qRes = await simplifiedWorkflowIndexer.search({ source: 'all', query: q, limit: 1200, offset: 0 });
+        const qRes = await simplifiedWorkflowIndexer.search({ source: 'all', q, search_mode: 'hybrid', limit: 200, offset: 0 });
         scoped = qRes.workflows || [];
       } catch {}
 
@@ -415,6 +419,16 @@ export default function SolutionsTab({
     onSolutionSelect?.(solution);
   };
 
+  const isCompared = (solution: Solution) =>
+    compareRefs.some(ref => ref.type === solution.type && ref.id === solution.id);
+
+  const toggleCompare = (solution: Solution) => {
+    setCompareRefs(prev => isCompared(solution)
+      ? prev.filter(ref => ref.type !== solution.type || ref.id !== solution.id)
+      : prev.length < MAX_COMPARED_SOLUTIONS ? [...prev, { type: solution.type, id: solution.id }] : prev
+    );
+  };
+
   // Render skeletons while loading
   if (loading) {
     return (
@@ -560,6 +574,17 @@ export default function SolutionsTab({
                   }}
                   onView={() => handleSolutionSelect(solution)}
                   />
+                  <label
+                    className="mt-2 flex w-fit items-center gap-2 text-xs text-muted-foreground cursor-pointer"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Checkbox
+                      checked={isCompared(solution)}
+                      disabled={!isCompared(solution) && compareRefs.length >= MAX_COMPARED_SOLUTIONS}
+                      onCheckedChange={() => toggleCompare(solution)}
+                    />
+                    {lang === 'de' ? 'Vergleichen' : 'Compare'}
+                  </label>
                 </div>
               ))}
             </div>
@@ -577,6 +602,29 @@ export default function SolutionsTab({
           </div>
         )}
       </div>
+
+      {compareRefs.length > 0 && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border bg-primary/5 px-4 py-2 text-sm">
+          <span className="text-muted-foreground">
+            {lang === 'de'
+              ? `${compareRefs.length} von max. ${MAX_COMPARED_SOLUTIONS} zum Vergleich ausgewählt`
+              : `${compareRefs.length} of max. ${MAX_COMPARED_SOLUTIONS} selected for comparison`}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setCompareRefs([])}>
+              {lang === 'de' ? 'Zurücksetzen' : 'Clear'}
+            </Button>
+            <Button
+              size="sm"
+              disabled={compareRefs.length < MIN_COMPARED_SOLUTIONS}
+              onClick={() => window.open(solutionComparisonPath(compareRefs, lang), '_blank')}
+            >
+              <Columns3 className="w-4 h-4 mr-2" />
+              {lang === 'de' ? 'Vergleichen' : 'Compare'}
+            </Button>
+          </div>
+        </div>
+      )}
           
           {selectedSolution && (
         <SolutionDetailModal
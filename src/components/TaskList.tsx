@@ -1,7 +1,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Bot, User, ChevronDown, ChevronUp, Zap, Workflow, TrendingUp, TrendingDown, Minus, ExternalLink, Lightbulb, Code, Layers, Circle, Square, Hexagon } from "lucide-react";
+import { Bot, User, ChevronDown, ChevronUp, Zap, Workflow, TrendingUp, TrendingDown, Minus, ExternalLink, Lightbulb, Code, Layers, Circle, Square, Hexagon, Loader2 } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { t, translateCategory } from "@/lib/i18n/i18n";
 import { AppIcon } from './AppIcon';
@@ -27,6 +27,8 @@ export interface Task {
   confidence?: number;
   aiTools?: string[];
   industry?: string;
+  /** Subtasks are still being generated (streaming analysis) */
+  isPending?: boolean;
   subtasks?: Array<{
     id: string;
     title: string;
@@ -53,11 +55,13 @@ interface AIAgent {
 interface TaskListProps {
   tasks: Task[];
   lang?: "de" | "en";
+  /** More tasks are still arriving; shows a placeholder below the list */
+  isStreaming?: boolean;
 }
 
 
 
-const TaskList = ({ tasks, lang = "de" }: TaskListProps) => {
+const TaskList = ({ tasks, lang = "de", isStreaming = false }: TaskListProps) => {
 
   
   // Get language from URL as fallback
@@ -542,6 +546,12 @@ const TaskList = ({ tasks, lang = "de" }: TaskListProps) => {
                             return cat;
                           })()}
                         </span>
+                        {task.isPending && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            {t(lang, "analysis_streaming_details")}
+                          </span>
+                        )}
                       </div>
 
                     </div>
@@ -693,6 +703,15 @@ const TaskList = ({ tasks, lang = "de" }: TaskListProps) => {
             </Card>
           );
         })}
+
+        {isStreaming && (
+          <Card className="border-dashed shadow-none">
+            <CardContent className="flex items-center space-x-3 p-4 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>{t(lang, "analysis_streaming_more")}</span>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* AI Tool Detail Modal */}
@@ -61,6 +61,7 @@ import {
   Star
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { monitorSolutionDownload, monitorSolutionView } from '@/lib/monitoring/marketplaceMonitor';
 import { SolutionStatus, GenerationMetadata, UnifiedWorkflow } from '@/lib/types';
 
 // Base interface for all solution types
@@ -206,8 +207,7 @@ const normalizeSolution = (inputSolution: UnifiedSolutionData | UnifiedWorkflow)
     filename: `${workflow.title.toLowerCase().replace(/\s+/g, '-')}.json`,
     category: workflow.category || 'Workflow',
     priority: (workflow.complexity === 'High' ? 'High' : workflow.complexity === 'Medium' ? 'Medium' : 'Low') as 'Low' | 'Medium' | 'High',
-    rating: 4.0,
-    reviewCount: Math.abs(stableHash % 50) + 10,
+    rating: workflow.rating || undefined,
     triggerType: workflow.triggerType as 'Complex' | 'Webhook' | 'Manual' | 'Scheduled',
     complexity: workflow.complexity === 'Easy' ? 'Low' : workflow.complexity === 'Medium' ? 'Medium' : 'High',
     integrations: workflow.integrations || [],
@@ -598,6 +598,9 @@ export const UnifiedSolutionCard: React.FC<UnifiedSolutionCardProps> = ({
   // Handle download
   const handleDownload = (e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
+    if (normalizedSolution.type === 'workflow') {
+      monitorSolutionDownload('workflow', normalizedSolution.id, 'json');
+    }
     onDownloadClick?.(solution);
   };
 
@@ -609,6 +612,9 @@ export const UnifiedSolutionCard: React.FC<UnifiedSolutionCardProps> = ({
 
   // Handle select
   const handleSelect = () => {
+    if (onSelect && normalizedSolution.type === 'workflow') {
+      monitorSolutionView('workflow', normalizedSolution.id, 'detail');
+    }
     onSelect?.(solution);
   };
 
@@ -918,6 +924,13 @@ export const UnifiedSolutionCard: React.FC<UnifiedSolutionCardProps> = ({
               </div>
             )}
             
+            {!!normalizedSolution.popularity && (
+              <div className="flex items-center gap-1" title={lang === 'de' ? 'Beliebtheit (0-100)' : 'Popularity (0-100)'}>
+                <TrendingUp className="w-3 h-3" />
+                <span>{normalizedSolution.popularity}</span>
+              </div>
+            )}
+            
             {normalizedSolution.projectsCompleted && (
               <div className="flex items-center gap-1">
                 <Target className="w-3 h-3" />
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -18,9 +18,18 @@ import {
   Star,
   Clock,
   TrendingUp,
-  Activity
+  Activity,
+  Loader2
 } from 'lucide-react';
 import { WorkflowIndex } from '@/lib/schemas/workflowIndex';
+import { UnifiedWorkflow } from '@/lib/schemas/unifiedWorkflow';
+import { useToast } from '@/hooks/use-toast';
+import { t } from '@/lib/i18n/i18n';
+import { downloadReport } from '@/lib/export/analysisReport';
+import { exportFileSlug, exportWorkflowBundle, resolveN8nWorkflow } from '@/lib/export/n8nWorkflowExport';
+import { simplifiedWorkflowIndexer } from '@/lib/workflowIndexerSimplified';
+import WorkflowDryRunPanel from './WorkflowDryRunPanel';
+import WorkflowGraphPreview from './WorkflowGraphPreview';
 
 interface WorkflowDetailModalProps {
   workflow: WorkflowIndex | null;
@@ -28,6 +37,7 @@ interface WorkflowDetailModalProps {
   onClose: () => void;
   lang?: 'de' | 'en';
   isAdmin?: boolean; // New prop to determine if we're in admin area
+  sourceWorkflow?: UnifiedWorkflow | null; // Catalog entry behind the index view; loaded by id when missing
 }
 
 export default function WorkflowDetailModal({
@@ -35,9 +45,12 @@ export default function WorkflowDetailModal({
   isOpen,
   onClose,
   lang = 'de',
-  isAdmin = false
+  isAdmin = false,
+  sourceWorkflow
 }: WorkflowDetailModalProps) {
   const [activeTab, setActiveTab] = useState('overview');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
   const [showSetupForm, setShowSetupForm] = useState(false);
   const [setupForm, setSetupForm] = useState({
     name: '',
@@ -45,6 +58,30 @@ export default function WorkflowDetailModal({
     company: '',
     requirements: ''
   });
+  const [graphWorkflow, setGraphWorkflow] = useState<Record<string, unknown> | null>(null);
+  const [isGraphLoading, setIsGraphLoading] = useState(false);
+  const workflowId = workflow?.id;
+
+  // The n8n JSON may have to be downloaded, so load it only once the graph is opened
+  useEffect(() => {
+    if (activeTab !== 'graph' || !workflowId) return;
+    let cancelled = false;
+    setIsGraphLoading(true);
+    (async () => {
+      try {
+        const catalogWorkflow = sourceWorkflow ?? await simplifiedWorkflowIndexer.getWorkflowById(workflowId);
+        if (!catalogWorkflow) throw new Error(`Workflow ${workflowId} not found`);
+        const json = await resolveN8nWorkflow(catalogWorkflow);
+        if (!cancelled) setGraphWorkflow(json);
+      } catch (error) {
+        console.error('Error loading workflow graph:', error);
+        if (!cancelled) setGraphWorkflow(null);
+      } finally {
+        if (!cancelled) setIsGraphLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [activeTab, workflowId, sourceWorkflow]);
 
   if (!workflow) return null;
 
@@ -59,6 +96,21 @@ export default function WorkflowDetailModal({
     setSetupForm({name: '', email: '', company: '', requirements: ''});
   };
 
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const catalogWorkflow = sourceWorkflow ?? await simplifiedWorkflowIndexer.getWorkflowById(workflow.id);
+      if (!catalogWorkflow) throw new Error(`Workflow ${workflow.id} not found`);
+      const { blob } = await exportWorkflowBundle([catalogWorkflow], { lang });
+      downloadReport(blob, `${exportFileSlug(catalogWorkflow.title)}.zip`);
+    } catch (error) {
+      console.error('Error exporting workflow:', error);
+      toast({ title: t(lang, 'n8n_export_failed'), variant: 'destructive' });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const renderOverview = () => (
     <div className="space-y-6">
       {/* Key Metrics */}
@@ -326,22 +378,43 @@ export default function WorkflowDetailModal({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="overview">
               {lang === 'de' ? 'Übersicht' : 'Overview'}
             </TabsTrigger>
+            <TabsTrigger value="graph">
+              {lang === 'de' ? 'Ablauf' : 'Flow'}
+            </TabsTrigger>
             <TabsTrigger value="implementation">
               {lang === 'de' ? 'Implementierung' : 'Implementation'}
             </TabsTrigger>
+            <TabsTrigger value="dryRun">
+              {lang === 'de' ? 'Testlauf' : 'Dry run'}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
             {renderOverview()}
           </TabsContent>
 
+          <TabsContent value="graph" className="space-y-6">
+            {isGraphLoading ? (
+              <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                {lang === 'de' ? 'Workflow wird geladen...' : 'Loading workflow...'}
+              </div>
+            ) : (
+              <WorkflowGraphPreview workflow={graphWorkflow} name={workflow.title} lang={lang} />
+            )}
+          </TabsContent>
+
           <TabsContent value="implementation" className="space-y-6">
             {renderImplementation()}
           </TabsContent>
+
+          <TabsContent value="dryRun" className="space-y-6">
+            <WorkflowDryRunPanel workflowId={workflow.id} sourceWorkflow={sourceWorkflow} lang={lang} />
+          </TabsContent>
         </Tabs>
 
         {/* Action Buttons */}
@@ -356,9 +429,9 @@ export default function WorkflowDetailModal({
                 {lang === 'de' ? 'Auf n8n.io anzeigen' : 'View on n8n.io'}
               </a>
             </Button>
-            <Button variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              {lang === 'de' ? 'Workflow herunterladen' : 'Download Workflow'}
+            <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading}>
+              {isDownloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              {t(lang, 'n8n_export_download')}
             </Button>
           </div>
         </div>
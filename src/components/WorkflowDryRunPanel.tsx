@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle2, CircleDashed, CircleOff, Loader2, Play } from 'lucide-react';
+import { UnifiedWorkflow } from '@/lib/schemas/unifiedWorkflow';
+import { simplifiedWorkflowIndexer } from '@/lib/workflowIndexerSimplified';
+import { resolveN8nWorkflow } from '@/lib/export/n8nWorkflowExport';
+import { dryRunWorkflow, DryRunNodeStatus, DryRunResult } from '@/lib/dryRun/workflowDryRun';
+
+interface WorkflowDryRunPanelProps {
+  workflowId: string;
+  sourceWorkflow?: UnifiedWorkflow | null;
+  lang?: 'de' | 'en';
+}
+
+const DEFAULT_INPUT = '{\n  "email": "jane@example.com",\n  "name": "Jane Doe"\n}';
+
+const STATUS_STYLES: Record<DryRunNodeStatus, { icon: typeof CheckCircle2; className: string; de: string; en: string }> = {
+  success: { icon: CheckCircle2, className: 'text-green-600', de: 'Ausgeführt', en: 'Executed' },
+  mocked: { icon: CircleDashed, className: 'text-blue-500', de: 'Simuliert', en: 'Mocked' },
+  disabled: { icon: CircleOff, className: 'text-gray-400', de: 'Deaktiviert', en: 'Disabled' },
+  error: { icon: AlertCircle, className: 'text-red-600', de: 'Fehler', en: 'Error' }
+};
+
+export default function WorkflowDryRunPanel({ workflowId, sourceWorkflow, lang = 'de' }: WorkflowDryRunPanelProps) {
+  const [input, setInput] = useState(DEFAULT_INPUT);
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runDryRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      let sample: unknown;
+      try {
+        sample = input.trim() ? JSON.parse(input) : undefined;
+      } catch {
+        throw new Error(lang === 'de' ? 'Die Beispieldaten sind kein gültiges JSON' : 'The sample input is not valid JSON');
+      }
+      const workflow = sourceWorkflow ?? await simplifiedWorkflowIndexer.getWorkflowById(workflowId);
+      if (!workflow) throw new Error(lang === 'de' ? 'Workflow nicht im Katalog gefunden' : 'Workflow not found in catalog');
+      setResult(await dryRunWorkflow(await resolveN8nWorkflow(workflow), { input: sample }));
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium text-foreground mb-1">
+          {lang === 'de' ? 'Beispieldaten' : 'Sample input'}
+        </h4>
+        <p className="text-sm text-muted-foreground mb-3">
+          {lang === 'de'
+            ? 'Der Workflow läuft lokal mit diesen Daten; HTTP-Aufrufe gehen an einen Stub, andere Integrationen werden simuliert.'
+            : 'The workflow runs locally with this data; HTTP calls hit a stub and other integrations are mocked.'}
+        </p>
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          className="font-mono text-xs"
+        />
+      </div>
+
+      <Button size="sm" onClick={runDryRun} disabled={running}>
+        {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+        {lang === 'de' ? 'Testlauf starten' : 'Start dry run'}
+      </Button>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Badge variant={result.status === 'success' ? 'default' : 'destructive'}>
+              {result.status === 'success'
+                ? (lang === 'de' ? 'Erfolgreich' : 'Succeeded')
+                : (lang === 'de' ? 'Abgebrochen' : 'Failed')}
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              {lang === 'de'
+                ? `${result.trace.length} Node-Ausführungen in ${result.durationMs} ms`
+                : `${result.trace.length} node executions in ${result.durationMs} ms`}
+            </span>
+          </div>
+          {result.error && <p className="text-sm text-red-700">{result.error}</p>}
+
+          <ol className="relative border-l border-gray-200 ml-2">
+            {result.trace.map((entry, index) => {
+              const style = STATUS_STYLES[entry.status];
+              const Icon = style.icon;
+              const inputCount = entry.input.reduce((sum, items) => sum + items.length, 0);
+              const outputCount = entry.output.reduce((sum, items) => sum + items.length, 0);
+              const firstOutput = entry.output.find(items => items.length > 0)?.[0];
+              return (
+                <li key={index} className="mb-4 ml-6">
+                  <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-white">
+                    <Icon className={`h-4 w-4 ${style.className}`} />
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-sm">{entry.node}</span>
+                    <Badge variant="outline" className="text-xs">{entry.type.split('.').pop()}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {style[lang]} · +{entry.startedAt} ms · {entry.durationMs} ms · {inputCount} → {outputCount} {lang === 'de' ? 'Items' : 'items'}
+                      {entry.output.length > 1 && ` (${entry.output.map(items => items.length).join(' / ')})`}
+                    </span>
+                  </div>
+                  {entry.message && <p className="text-xs text-muted-foreground mt-1">{entry.message}</p>}
+                  {entry.httpRequests?.map((request, i) => (
+                    <p key={i} className="text-xs font-mono text-muted-foreground mt-1 break-all">{request.method} {request.url}</p>
+                  ))}
+                  {firstOutput && (
+                    <details className="mt-1">
+                      <summary className="text-xs cursor-pointer text-primary">
+                        {lang === 'de' ? 'Erstes Ausgabe-Item' : 'First output item'}
+                      </summary>
+                      <pre className="mt-1 max-h-40 overflow-auto rounded bg-muted p-2 text-xs">
+                        {JSON.stringify(firstOutput.json, null, 2)}
+                      </pre>
+                    </details>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {result.notExecuted.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {lang === 'de' ? 'Nicht erreicht' : 'Not reached'}: {result.notExecuted.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
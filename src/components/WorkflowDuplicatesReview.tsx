@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, ExternalLink, GitMerge, Loader2, RefreshCw, Split } from 'lucide-react';
+import {
+  MergeDecision,
+  MergeReview,
+  MergeReviewWorkflow,
+  workflowMergeReviewService
+} from '@/lib/services/workflowMergeReviewService';
+
+interface WorkflowDuplicatesReviewProps {
+  lang: 'de' | 'en';
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function WorkflowDuplicatesReview({ lang }: WorkflowDuplicatesReviewProps) {
+  const [reviews, setReviews] = useState<MergeReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastRun, setLastRun] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReviews(await workflowMergeReviewService.listPending());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, []);
+
+  const handleDecision = async (review: MergeReview, decision: MergeDecision) => {
+    setPendingDecision(review.id);
+    setError(null);
+    try {
+      await workflowMergeReviewService.decide(review.id, decision, 'admin');
+      setReviews(current => current.filter(item => item.id !== review.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await workflowMergeReviewService.runDeduplication();
+      setLastRun(lang === 'de'
+        ? `${result.clusters} Cluster, ${result.duplicates} Duplikate, ${result.pendingReviews} offene Prüfungen`
+        : `${result.clusters} clusters, ${result.duplicates} duplicates, ${result.pendingReviews} pending reviews`);
+      await loadReviews();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderWorkflow = (workflow: MergeReviewWorkflow) => (
+    <div className="flex-1 min-w-0 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center gap-2 mb-1">
+        {workflow.source && <Badge variant="outline">{workflow.source}</Badge>}
+        {workflow.nodeCount != null && (
+          <span className="text-xs text-gray-500">{workflow.nodeCount} {lang === 'de' ? 'Nodes' : 'nodes'}</span>
+        )}
+      </div>
+      <p className="font-medium text-gray-900 truncate" title={workflow.title}>{workflow.title || workflow.id}</p>
+      {workflow.integrations && workflow.integrations.length > 0 && (
+        <p className="text-xs text-gray-500 truncate">{workflow.integrations.join(', ')}</p>
+      )}
+      {workflow.sourceUrl && (
+        <a
+          href={workflow.sourceUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+        >
+          <ExternalLink className="h-3 w-3" />
+          {lang === 'de' ? 'Quelle öffnen' : 'Open source'}
+        </a>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            {lang === 'de' ? 'Workflow-Duplikate' : 'Workflow Duplicates'}
+          </h2>
+          <p className="text-gray-600">
+            {lang === 'de'
+              ? 'Unsichere Zusammenführungen prüfen. Entscheidungen gelten ab dem nächsten Deduplizierungslauf.'
+              : 'Review uncertain merges. Decisions apply from the next deduplication run.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadReviews} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {lang === 'de' ? 'Aktualisieren' : 'Refresh'}
+          </Button>
+          <Button onClick={handleRun} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            {lang === 'de' ? 'Deduplizierung ausführen' : 'Run deduplication'}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {lastRun && (
+        <Alert>
+          <AlertDescription>{lastRun}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">
+            {lang === 'de' ? 'Keine offenen Prüfungen.' : 'No pending reviews.'}
+          </CardContent>
+        </Card>
+      ) : (
+        reviews.map(review => (
+          <Card key={review.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                {lang === 'de' ? 'Ähnlichkeit' : 'Similarity'} {percent(review.score)}
+              </CardTitle>
+              <CardDescription>
+                Graph {percent(review.graphSimilarity)} · {lang === 'de' ? 'Titel' : 'Title'} {percent(review.titleSimilarity)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-col md:flex-row gap-3">
+                {renderWorkflow(review.left)}
+                {renderWorkflow(review.right)}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingDecision === review.id}
+                  onClick={() => handleDecision(review, 'separate')}
+                >
+                  <Split className="h-4 w-4 mr-2" />
+                  {lang === 'de' ? 'Getrennt lassen' : 'Keep separate'}
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={pendingDecision === review.id}
+                  onClick={() => handleDecision(review, 'merged')}
+                >
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  {lang === 'de' ? 'Zusammenführen' : 'Merge'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Maximize2, Play, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { IntegrationIcon } from '@/components/IntegrationIcon';
+import { cn } from '@/lib/utils';
+import {
+  GRAPH_NODE_HEIGHT,
+  GRAPH_NODE_WIDTH,
+  layoutWorkflowGraph,
+  WorkflowGraphEdge,
+  WorkflowGraphNode
+} from '@/lib/workflowGraphLayout';
+
+interface WorkflowGraphPreviewProps {
+  /** n8n workflow JSON, e.g. UnifiedWorkflow.n8nWorkflow */
+  workflow: unknown;
+  name?: string;
+  lang?: 'de' | 'en';
+  className?: string;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+function edgePath(edge: WorkflowGraphEdge, from: WorkflowGraphNode, to: WorkflowGraphNode): string {
+  if (edge.kind !== 'main') {
+    // Sub-node below the agent: from its top to the agent's bottom
+    const x1 = from.x + GRAPH_NODE_WIDTH / 2;
+    const x2 = to.x + GRAPH_NODE_WIDTH / 2;
+    return `M ${x1} ${from.y} C ${x1} ${from.y - 30}, ${x2} ${to.y + GRAPH_NODE_HEIGHT + 30}, ${x2} ${to.y + GRAPH_NODE_HEIGHT}`;
+  }
+  const x1 = from.x + GRAPH_NODE_WIDTH;
+  const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+  const x2 = to.x;
+  const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+  if (x2 > x1) {
+    const bend = (x2 - x1) / 2;
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  }
+  // Loop back to an earlier column: route below both nodes
+  const below = Math.max(from.y, to.y) + GRAPH_NODE_HEIGHT + 40;
+  return `M ${x1} ${y1} C ${x1 + 60} ${below}, ${x2 - 60} ${below}, ${x2} ${y2}`;
+}
+
+export default function WorkflowGraphPreview({ workflow, name, lang = 'de', className }: WorkflowGraphPreviewProps) {
+  const layout = useMemo(() => layoutWorkflowGraph(workflow, name), [workflow, name]);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const byName = useMemo(() => new Map(layout.nodes.map(node => [node.name, node])), [layout]);
+  const selectedNode = selected ? byName.get(selected) : undefined;
+
+  const fitToView = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !viewport.clientWidth || !layout.width) {
+      setView({ x: 0, y: 0, scale: 1 });
+      return;
+    }
+    const scale = clampScale(Math.min(1, viewport.clientWidth / layout.width, viewport.clientHeight / layout.height));
+    setView({
+      x: (viewport.clientWidth - layout.width * scale) / 2,
+      y: (viewport.clientHeight - layout.height * scale) / 2,
+      scale
+    });
+  }, [layout]);
+
+  useEffect(() => {
+    fitToView();
+    setSelected(null);
+  }, [fitToView]);
+
+  const zoomAt = useCallback((factor: number, clientX?: number, clientY?: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      // Keep the point under the cursor (or the viewport centre) in place
+      const px = clientX !== undefined && rect ? clientX - rect.left : (rect?.width ?? 0) / 2;
+      const py = clientY !== undefined && rect ? clientY - rect.top : (rect?.height ?? 0) / 2;
+      const ratio = scale / current.scale;
+      return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+    });
+  }, []);
+
+  // Registered natively: React's wheel listener is passive and cannot prevent page scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX, event.clientY);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  const onPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: false };
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    if (!drag.moved) event.currentTarget.setPointerCapture?.(event.pointerId);
+    drag.moved = true;
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    setView(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  const onPointerUp = () => {
+    // Keep the flag until the click that follows this pointerup has been handled
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const selectNode = (nodeName: string) => {
+    if (dragRef.current?.moved) return;
+    setSelected(current => (current === nodeName ? null : nodeName));
+  };
+
+  if (layout.nodes.length === 0) {
+    return (
+      <div className={cn('rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground', className)}>
+        {lang === 'de' ? 'Für diesen Workflow liegt kein n8n-JSON vor.' : 'No n8n JSON is available for this workflow.'}
+      </div>
+    );
+  }
+
+  const selectedSecrets = selectedNode ? layout.redactedSecrets.filter(secret => secret.node === selectedNode.name) : [];
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div
+        ref={viewportRef}
+        className="relative h-[420px] overflow-hidden rounded-lg border bg-muted/30 cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerUp}
+      >
+        <div
+          className="absolute left-0 top-0 origin-top-left"
+          style={{ width: layout.width, height: layout.height, transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          <svg className="absolute inset-0 overflow-visible" width={layout.width} height={layout.height} aria-hidden="true">
+            <defs>
+              <marker id="workflow-graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400" />
+              </marker>
+            </defs>
+            {layout.edges.map((edge, index) => {
+              const from = byName.get(edge.from);
+              const to = byName.get(edge.to);
+              if (!from || !to) return null;
+              const highlighted = selected === edge.from || selected === edge.to;
+              return (
+                <path
+                  key={index}
+                  d={edgePath(edge, from, to)}
+                  fill="none"
+                  strokeWidth={highlighted ? 2.5 : 1.5}
+                  strokeDasharray={edge.kind === 'main' ? undefined : '5 4'}
+                  className={highlighted ? 'stroke-primary' : 'stroke-gray-400'}
+                  markerEnd={edge.kind === 'main' ? 'url(#workflow-graph-arrow)' : undefined}
+                />
+              );
+            })}
+          </svg>
+
+          {layout.nodes.map(node => (
+            <button
+              key={node.name}
+              type="button"
+              onClick={() => selectNode(node.name)}
+              className={cn(
+                'absolute flex items-center gap-2 rounded-lg border bg-white px-2 text-left shadow-sm transition-colors hover:border-primary',
+                node.isTrigger && 'border-l-4 border-l-green-500',
+                node.isSubNode && 'rounded-full',
+                node.disabled && 'opacity-50',
+                selected === node.name && 'border-primary ring-2 ring-primary/30'
+              )}
+              style={{ left: node.x, top: node.y, width: GRAPH_NODE_WIDTH, height: GRAPH_NODE_HEIGHT }}
+              title={node.name}
+            >
+              <IntegrationIcon name={node.integration ?? node.type.split('.').pop() ?? node.type} size="md" />
+              <span className="min-w-0">
+                <span className="block truncate text-xs font-medium">{node.name}</span>
+                <span className="block truncate text-[10px] text-muted-foreground">{node.integration ?? node.type.split('.').pop()}</span>
+              </span>
+              {node.isTrigger && <Play className="ml-auto h-3 w-3 shrink-0 text-green-600" />}
+            </button>
+          ))}
+        </div>
+
+        <div className="absolute right-2 top-2 flex gap-1" onPointerDown={(e) => e.stopPropagation()}>
+          <Button variant="outline" size="icon" className="h-7 w-7 bg-white" onClick={() => zoomAt(1.2)} aria-label={lang === 'de' ? 'Vergrößern' : 'Zoom in'}>
+            <ZoomIn className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7 bg-white" onClick={() => zoomAt(1 / 1.2)} aria-label={lang === 'de' ? 'Verkleinern' : 'Zoom out'}>
+            <ZoomOut className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7 bg-white" onClick={fitToView} aria-label={lang === 'de' ? 'Einpassen' : 'Fit to view'}>
+            <Maximize2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {selectedNode ? (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium">{selectedNode.name}</div>
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                <Badge variant="outline" className="text-xs font-mono">{selectedNode.type}</Badge>
+                <span className="text-xs text-muted-foreground">v{selectedNode.typeVersion}</span>
+                {selectedNode.disabled && <Badge variant="secondary">{lang === 'de' ? 'Deaktiviert' : 'Disabled'}</Badge>}
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSelected(null)} aria-label={lang === 'de' ? 'Schließen' : 'Close'}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {Object.keys(selectedNode.parameters).length > 0 ? (
+            <pre className="max-h-64 overflow-auto rounded bg-muted p-3 text-xs">
+              {JSON.stringify(selectedNode.parameters, null, 2)}
+            </pre>
+          ) : (
+            <p className="text-sm text-muted-foreground">{lang === 'de' ? 'Keine Parameter' : 'No parameters'}</p>
+          )}
+          {selectedSecrets.length > 0 && (
+            <p className="text-xs text-amber-700">
+              {lang === 'de' ? 'Ausgeblendete Geheimnisse' : 'Hidden secrets'}: {selectedSecrets.map(secret => secret.parameter).join(', ')}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {lang === 'de'
+            ? 'Ziehen zum Verschieben, Mausrad zum Zoomen, Node anklicken für Parameter.'
+            : 'Drag to pan, scroll to zoom, click a node to see its parameters.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -123,10 +123,12 @@ const WorkflowItemComponent: React.FC<WorkflowItemProps> = ({
                   <DollarSign className="w-3 h-3" />
                   €{calculateTotalROI(workflow)}
                 </div>
-                <div className="flex items-center gap-1">
-                  <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-                  {workflow.rating.toFixed(1)}
-                </div>
+                {workflow.rating > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                    {workflow.rating.toFixed(1)}
+                  </div>
+                )}
                 <div className="flex items-center gap-1">
                   <Wrench className="w-3 h-3" />
                   {workflow.integrations.slice(0, 1).join(', ')}
@@ -178,10 +180,12 @@ const WorkflowItemComponent: React.FC<WorkflowItemProps> = ({
                 {workflow.description}
               </p>
             </div>
-            <div className="flex items-center gap-1 text-sm text-muted-foreground">
-              <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-              {workflow.rating.toFixed(1)}
-            </div>
+            {workflow.rating > 0 && (
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                {workflow.rating.toFixed(1)}
+              </div>
+            )}
           </div>
 
           {/* Metrics */}
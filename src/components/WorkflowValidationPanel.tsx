@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, AlertTriangle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import { simplifiedWorkflowIndexer } from '@/lib/workflowIndexerSimplified';
+import { resolveN8nWorkflow } from '@/lib/export/n8nWorkflowExport';
+import { DiagnosticCode, validateN8nWorkflow, WorkflowValidationResult } from '@/lib/workflowValidator';
+
+interface WorkflowValidationPanelProps {
+  workflowId: string;
+  lang?: 'de' | 'en';
+}
+
+const CODE_LABELS: Record<DiagnosticCode, { de: string; en: string }> = {
+  invalid_structure: { de: 'Ungültige Struktur', en: 'Invalid structure' },
+  unknown_node_type: { de: 'Unbekannter Node-Typ', en: 'Unknown node type' },
+  duplicate_node_name: { de: 'Doppelter Node-Name', en: 'Duplicate node name' },
+  dangling_connection: { de: 'Verbindung ins Leere', en: 'Dangling connection' },
+  missing_trigger: { de: 'Kein Trigger', en: 'Missing trigger' },
+  disconnected_node: { de: 'Nicht verbundener Node', en: 'Disconnected node' },
+  missing_parameter: { de: 'Fehlender Parameter', en: 'Missing parameter' },
+  hardcoded_secret: { de: 'Hinterlegtes Secret', en: 'Hardcoded secret' }
+};
+
+export default function WorkflowValidationPanel({ workflowId, lang = 'de' }: WorkflowValidationPanelProps) {
+  const [result, setResult] = useState<WorkflowValidationResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const runValidation = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const workflow = await simplifiedWorkflowIndexer.getWorkflowById(workflowId);
+      if (!workflow) throw new Error(lang === 'de' ? 'Workflow nicht im Katalog gefunden' : 'Workflow not found in catalog');
+      const n8nWorkflow = await resolveN8nWorkflow(workflow);
+      setResult(validateN8nWorkflow(n8nWorkflow, { strict: workflow.source === 'ai-generated' }));
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [workflowId, lang]);
+
+  useEffect(() => {
+    runValidation();
+  }, [runValidation]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        {lang === 'de' ? 'Workflow wird geprüft...' : 'Validating workflow...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {result && (
+            <Badge variant={result.status === 'valid' ? 'default' : 'destructive'}>
+              {result.status === 'valid' ? (lang === 'de' ? 'Gültig' : 'Valid') : (lang === 'de' ? 'Ungültig' : 'Invalid')}
+            </Badge>
+          )}
+          {result && (
+            <span className="text-sm text-muted-foreground">
+              {lang === 'de'
+                ? `${result.errorCount} Fehler, ${result.warningCount} Warnungen`
+                : `${result.errorCount} errors, ${result.warningCount} warnings`}
+            </span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={runValidation}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {lang === 'de' ? 'Erneut prüfen' : 'Validate again'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && result.diagnostics.length === 0 && (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          {lang === 'de' ? 'Keine Befunde' : 'No findings'}
+        </div>
+      )}
+
+      {result && result.diagnostics.length > 0 && (
+        <ul className="space-y-2">
+          {result.diagnostics.map((diagnostic, index) => (
+            <li key={index} className="flex items-start gap-3 rounded-lg border border-gray-200 p-3 text-sm">
+              {diagnostic.severity === 'error'
+                ? <AlertCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+                : <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />}
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {CODE_LABELS[diagnostic.code][lang]}
+                  {diagnostic.node && <span className="ml-2 text-xs text-muted-foreground">{diagnostic.node}</span>}
+                </div>
+                <div className="text-muted-foreground break-words">{diagnostic.message}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Bot, 
   Settings, 
@@ -27,11 +28,18 @@ import {
 } from 'lucide-react';
 import { DynamicSubtask } from '@/lib/types';
 import { GeneratedAgent } from '@/lib/services/agentGenerator';
-import { generateAgentWithFallback } from '@/lib/services/agentGenerator';
+import { recommendAgentForSubtask } from '@/lib/services/agentGenerator';
+import { AgentMatchResult } from '@/lib/solutions/agentMatcher';
+import { scoringProfileService } from '@/lib/services/scoringProfileService';
+import {
+  DEFAULT_SCORING_PROFILE_SLUG,
+  ScoringProfile
+} from '../../../supabase/functions/_shared/scoring-profiles.ts';
 import { cacheManager } from '@/lib/services/cacheManager';
 import { UnifiedSolutionCard, UnifiedSolutionData } from '../UnifiedSolutionCard';
 import FilterBar from '@/components/FilterBar';
 import SolutionDetailModal from '@/components/SolutionDetailModal';
+import AgentCatalogMatches from '@/components/AgentCatalogMatches';
 
 type AgentTabProps = {
   subtask: DynamicSubtask | null;
@@ -51,6 +59,9 @@ export default function AgentTab({
   onUpdateCount
 }: AgentTabProps) {
   const [agents, setAgents] = useState<GeneratedAgent[]>([]);
+  const [catalogMatch, setCatalogMatch] = useState<AgentMatchResult | null>(null);
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([]);
+  const [scoringProfile, setScoringProfile] = useState<string>(DEFAULT_SCORING_PROFILE_SLUG);
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -65,10 +76,18 @@ export default function AgentTab({
   const [selectedAgent, setSelectedAgent] = useState<GeneratedAgent | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  // Load agents when subtask changes
+  useEffect(() => {
+    scoringProfileService.list()
+      .then(setScoringProfiles)
+      .catch(error => console.warn('⚠️ [AgentTab] Scoring profiles unavailable:', error));
+  }, []);
+
+  // Load agents when subtask or scoring profile changes
   useEffect(() => {
     loadAgents();
-  }, [subtask]);
+  }, [subtask, scoringProfile]);
+
+  const getCacheKey = () => `agent_recommendations_${subtask?.id || 'all'}_${scoringProfile}`;
 
   const loadAgents = async () => {
 
@@ -80,25 +99,28 @@ export default function AgentTab({
       await new Promise(resolve => setTimeout(resolve, 600));
       
       // Check cache first
-      const cacheKey = `agents_${subtask?.id || 'all'}`;
-      const cached = cacheManager.get<GeneratedAgent[]>(cacheKey);
+      const cacheKey = getCacheKey();
+      const cached = cacheManager.get<{ agents: GeneratedAgent[]; match: AgentMatchResult | null }>(cacheKey);
       
-      if (cached && cached.length > 0) {
-        console.log('✅ [AgentTab] Using cached agents:', cached.length);
-        setAgents(cached);
-        onUpdateCount?.(cached.length);
+      if (cached && (cached.agents.length > 0 || cached.match?.bestMatch)) {
+        console.log('✅ [AgentTab] Using cached agents:', cached.agents.length);
+        setAgents(cached.agents);
+        setCatalogMatch(cached.match);
+        onUpdateCount?.(cached.agents.length + (cached.match?.matches.length ?? 0));
         setIsLoading(false);
         return;
       }
 
       // Generate agents based on context
       let agents: GeneratedAgent[] = [];
+      let match: AgentMatchResult | null = null;
       
       if (subtask) {
-        // Generate specific agent for individual subtask
-        const agent = await generateAgentWithFallback(subtask, lang, 3000);
-        agents = [agent];
-        console.log('✅ [AgentTab] Generated specific agent:', agent.name);
+        // Catalog agents first; an agent is generated only when none fits
+        const recommendation = await recommendAgentForSubtask(subtask, lang, { timeoutMs: 3000, profile: scoringProfile });
+        match = recommendation.match;
+        agents = recommendation.generated ? [recommendation.generated] : [];
+        console.log('✅ [AgentTab] Catalog matches:', match?.matches.length ?? 0, 'generated:', agents.length);
       } else {
         // Generate complete solution agents for "Alle (Komplettlösungen)"
         agents = generateCompleteSolutionAgents(lang);
@@ -106,15 +128,17 @@ export default function AgentTab({
       }
       
       setAgents(agents);
-      onUpdateCount?.(agents.length);
+      setCatalogMatch(match);
+      onUpdateCount?.(agents.length + (match?.matches.length ?? 0));
 
       // Cache the results
-      cacheManager.set(cacheKey, agents, 60 * 60 * 1000); // 1 hour cache
+      cacheManager.set(cacheKey, { agents, match }, 60 * 60 * 1000); // 1 hour cache
 
     } catch (error) {
       console.error('❌ [AgentTab] Error loading agents:', error);
       setError(error instanceof Error ? error.message : 'Failed to load agents');
       setAgents([]);
+      setCatalogMatch(null);
       onUpdateCount?.(0);
     } finally {
       setIsLoading(false);
@@ -122,17 +146,9 @@ export default function AgentTab({
   };
 
   const handleRefresh = () => {
-    if (subtask) {
-      // Clear cache and reload
-      const cacheKey = `agents_${subtask.id}`;
-      cacheManager.delete(cacheKey);
-      loadAgents();
-    } else {
-      // Clear cache for 'all' and reload
-      const cacheKey = `agents_all`;
-      cacheManager.delete(cacheKey);
-      loadAgents();
-    }
+    // Clear cache and reload
+    cacheManager.delete(getCacheKey());
+    loadAgents();
   };
 
   // Enhanced helper functions
@@ -331,6 +347,18 @@ const convertToUnifiedSolution = (agent: GeneratedAgent): UnifiedSolutionData =>
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {subtask && scoringProfiles.length > 1 && (
+            <Select value={scoringProfile} onValueChange={setScoringProfile}>
+              <SelectTrigger className="h-9 w-44" title={lang === 'de' ? 'Bewertungsprofil' : 'Scoring profile'}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scoringProfiles.map(profile => (
+                  <SelectItem key={profile.slug} value={profile.slug}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -400,12 +428,17 @@ const convertToUnifiedSolution = (agent: GeneratedAgent): UnifiedSolutionData =>
           <div className="text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
             <p className="text-gray-600">
-              {lang === 'de' ? 'Generiere AI-Agent...' : 'Generating AI agent...'}
+              {lang === 'de' ? 'Suche passende AI-Agents...' : 'Finding matching AI agents...'}
             </p>
           </div>
         </div>
       )}
 
+      {/* Catalog agents matched by capability */}
+      {!isLoading && !error && catalogMatch && (
+        <AgentCatalogMatches result={catalogMatch} lang={lang} />
+      )}
+
       {/* Enhanced Agents Grid */}
       {error ? (
         <div className="text-center py-12">
@@ -440,7 +473,7 @@ const convertToUnifiedSolution = (agent: GeneratedAgent): UnifiedSolutionData =>
       ) : null}
 
       {/* Empty State */}
-      {!isLoading && !error && filteredAgents.length === 0 && (
+      {!isLoading && !error && filteredAgents.length === 0 && !catalogMatch?.matches.length && (
         <div className="text-center py-12">
           <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-gray-900 mb-2">
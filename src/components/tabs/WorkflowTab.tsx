@@ -381,6 +381,7 @@ export default function WorkflowTab({
       {/* Workflow Detail Modal */}
       <WorkflowDetailModal
         workflow={selectedWorkflow ? convertToWorkflowIndex(selectedWorkflow) : null}
+        sourceWorkflow={selectedWorkflow}
         isOpen={isModalOpen}
         onClose={() => {
           setIsModalOpen(false);
@@ -0,0 +1,47 @@
+/**
+ * Auth Hook
+ * Supabase auth session of end users (passwordless e-mail sign-in)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AuthState {
+  user: User | null;
+  isLoading: boolean;
+}
+
+export function useAuth() {
+  const [authState, setAuthState] = useState<AuthState>({ user: null, isLoading: true });
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setAuthState({ user: data.session?.user ?? null, isLoading: false });
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setAuthState({ user: session?.user ?? null, isLoading: false });
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const signInWithEmail = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.href }
+    });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  return {
+    ...authState,
+    signInWithEmail,
+    signOut
+  };
+}
@@ -14,7 +14,9 @@ function getSupabaseClient(): ReturnType<typeof createClient<Database>> {
     }
     supabaseInstance = createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY, {
       auth: {
-        persistSession: false
+        storage: localStorage,
+        persistSession: true,
+        autoRefreshToken: true
       }
     })
   }
@@ -14,6 +14,437 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_capability_tags: {
+        Row: {
+          category: string
+          created_at: string | null
+          description: string | null
+          display_name: string
+          display_order: number
+          id: number
+          is_core: boolean | null
+          tag: string
+          updated_at: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          description?: string | null
+          display_name: string
+          display_order: number
+          id?: number
+          is_core?: boolean | null
+          tag: string
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          description?: string | null
+          display_name?: string
+          display_order?: number
+          id?: number
+          is_core?: boolean | null
+          tag?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      scoring_profiles: {
+        Row: {
+          config: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          slug: string
+          version: number
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          slug: string
+          version: number
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          slug?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      unified_agents: {
+        Row: {
+          active: boolean
+          author_avatar: string | null
+          author_name: string | null
+          author_username: string | null
+          author_verified: boolean
+          automation_potential: number | null
+          capabilities: string[]
+          category: string | null
+          created_at: string
+          deleted_at: string | null
+          demo_url: string | null
+          deployment: string | null
+          difficulty: string | null
+          documentation_url: string | null
+          domains: string[]
+          downloads: number | null
+          github_url: string | null
+          id: string
+          last_modified: string | null
+          license: string
+          likes: number | null
+          link: string
+          model: string | null
+          pricing: string | null
+          provider: string | null
+          requirements: string[]
+          setup_time: string | null
+          source: string
+          source_checked_at: string | null
+          source_health: string
+          summary: string
+          tags: string[]
+          title: string
+          updated_at: string | null
+          use_cases: string[]
+        }
+        Insert: {
+          active?: boolean
+          author_avatar?: string | null
+          author_name?: string | null
+          author_username?: string | null
+          author_verified?: boolean
+          automation_potential?: number | null
+          capabilities?: string[]
+          category?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          demo_url?: string | null
+          deployment?: string | null
+          difficulty?: string | null
+          documentation_url?: string | null
+          domains?: string[]
+          downloads?: number | null
+          github_url?: string | null
+          id: string
+          last_modified?: string | null
+          license?: string
+          likes?: number | null
+          link?: string
+          model?: string | null
+          pricing?: string | null
+          provider?: string | null
+          requirements?: string[]
+          setup_time?: string | null
+          source: string
+          source_checked_at?: string | null
+          source_health?: string
+          summary?: string
+          tags?: string[]
+          title: string
+          updated_at?: string | null
+          use_cases?: string[]
+        }
+        Update: {
+          active?: boolean
+          author_avatar?: string | null
+          author_name?: string | null
+          author_username?: string | null
+          author_verified?: boolean
+          automation_potential?: number | null
+          capabilities?: string[]
+          category?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          demo_url?: string | null
+          deployment?: string | null
+          difficulty?: string | null
+          documentation_url?: string | null
+          domains?: string[]
+          downloads?: number | null
+          github_url?: string | null
+          id?: string
+          last_modified?: string | null
+          license?: string
+          likes?: number | null
+          link?: string
+          model?: string | null
+          pricing?: string | null
+          provider?: string | null
+          requirements?: string[]
+          setup_time?: string | null
+          source?: string
+          source_checked_at?: string | null
+          source_health?: string
+          summary?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string | null
+          use_cases?: string[]
+        }
+        Relationships: []
+      }
+      unified_workflows: {
+        Row: {
+          active: boolean | null
+          analyzed_at: string | null
+          author_avatar: string | null
+          author_email: string | null
+          author_name: string | null
+          author_username: string | null
+          author_verified: boolean | null
+          branching_depth: number | null
+          cache_key: string | null
+          canonical_id: string | null
+          category: string
+          complexity: Database["public"]["Enums"]["complexity_type"]
+          connection_count: number | null
+          created_at: string
+          credentials_required: string[] | null
+          deleted_at: string | null
+          description: string
+          domain_confidences: number[] | null
+          domain_last_updated: string | null
+          domain_origin: Database["public"]["Enums"]["domain_origin"] | null
+          domain_primary: string | null
+          domain_secondary: string[] | null
+          download_url: string | null
+          downloads: number | null
+          estimated_cost: string | null
+          estimated_time: string | null
+          file_hash: string | null
+          generation_cache_key: string | null
+          generation_language: string | null
+          generation_model: string | null
+          generation_timestamp: number | null
+          generation_version: string | null
+          graph_fingerprint: Json | null
+          id: string
+          integrations: string[] | null
+          is_ai_generated: boolean
+          json_url: string | null
+          last_accessed: string | null
+          license: string | null
+          match_estimated_time_savings: number | null
+          match_reasons: string[] | null
+          match_relevant_integrations: string[] | null
+          match_score: number | null
+          n8n_workflow: Json | null
+          node_count: number | null
+          popularity: number | null
+          popularity_signals: Json | null
+          popularity_updated_at: string | null
+          preview_url: string | null
+          rating: number | null
+          score_category: number | null
+          score_complexity: number | null
+          score_confidence: number | null
+          score_integration: number | null
+          score_overall: number | null
+          score_reasoning: string[] | null
+          score_service: number | null
+          score_trigger: number | null
+          setup_cost: number | null
+          source: Database["public"]["Enums"]["source_type"]
+          source_aliases: Json
+          source_url: string | null
+          status: Database["public"]["Enums"]["solution_status"]
+          summary: string | null
+          tags: string[] | null
+          thumbnail_url: string | null
+          time_savings: number | null
+          title: string
+          trigger_node_type: string | null
+          trigger_type: Database["public"]["Enums"]["trigger_type"]
+          updated_at: string | null
+          validation_diagnostics: Json
+          validation_status: Database["public"]["Enums"]["validation_status"] | null
+          verified: boolean | null
+          version: string | null
+          workflow_data: Json | null
+        }
+        Insert: {
+          active?: boolean | null
+          analyzed_at?: string | null
+          author_avatar?: string | null
+          author_email?: string | null
+          author_name?: string | null
+          author_username?: string | null
+          author_verified?: boolean | null
+          branching_depth?: number | null
+          cache_key?: string | null
+          canonical_id?: string | null
+          category: string
+          complexity: Database["public"]["Enums"]["complexity_type"]
+          connection_count?: number | null
+          created_at?: string
+          credentials_required?: string[] | null
+          deleted_at?: string | null
+          description: string
+          domain_confidences?: number[] | null
+          domain_last_updated?: string | null
+          domain_origin?: Database["public"]["Enums"]["domain_origin"] | null
+          domain_primary?: string | null
+          domain_secondary?: string[] | null
+          download_url?: string | null
+          downloads?: number | null
+          estimated_cost?: string | null
+          estimated_time?: string | null
+          file_hash?: string | null
+          generation_cache_key?: string | null
+          generation_language?: string | null
+          generation_model?: string | null
+          generation_timestamp?: number | null
+          generation_version?: string | null
+          graph_fingerprint?: Json | null
+          id: string
+          integrations?: string[] | null
+          is_ai_generated?: boolean
+          json_url?: string | null
+          last_accessed?: string | null
+          license?: string | null
+          match_estimated_time_savings?: number | null
+          match_reasons?: string[] | null
+          match_relevant_integrations?: string[] | null
+          match_score?: number | null
+          n8n_workflow?: Json | null
+          node_count?: number | null
+          popularity?: number | null
+          popularity_signals?: Json | null
+          popularity_updated_at?: string | null
+          preview_url?: string | null
+          rating?: number | null
+          score_category?: number | null
+          score_complexity?: number | null
+          score_confidence?: number | null
+          score_integration?: number | null
+          score_overall?: number | null
+          score_reasoning?: string[] | null
+          score_service?: number | null
+          score_trigger?: number | null
+          setup_cost?: number | null
+          source: Database["public"]["Enums"]["source_type"]
+          source_aliases?: Json
+          source_url?: string | null
+          status?: Database["public"]["Enums"]["solution_status"]
+          summary?: string | null
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          time_savings?: number | null
+          title: string
+          trigger_node_type?: string | null
+          trigger_type: Database["public"]["Enums"]["trigger_type"]
+          updated_at?: string | null
+          validation_diagnostics?: Json
+          validation_status?: Database["public"]["Enums"]["validation_status"] | null
+          verified?: boolean | null
+          version?: string | null
+          workflow_data?: Json | null
+        }
+        Update: {
+          active?: boolean | null
+          analyzed_at?: string | null
+          author_avatar?: string | null
+          author_email?: string | null
+          author_name?: string | null
+          author_username?: string | null
+          author_verified?: boolean | null
+          branching_depth?: number | null
+          cache_key?: string | null
+          canonical_id?: string | null
+          category?: string
+          complexity?: Database["public"]["Enums"]["complexity_type"]
+          connection_count?: number | null
+          created_at?: string
+          credentials_required?: string[] | null
+          deleted_at?: string | null
+          description?: string
+          domain_confidences?: number[] | null
+          domain_last_updated?: string | null
+          domain_origin?: Database["public"]["Enums"]["domain_origin"] | null
+          domain_primary?: string | null
+          domain_secondary?: string[] | null
+          download_url?: string | null
+          downloads?: number | null
+          estimated_cost?: string | null
+          estimated_time?: string | null
+          file_hash?: string | null
+          generation_cache_key?: string | null
+          generation_language?: string | null
+          generation_model?: string | null
+          generation_timestamp?: number | null
+          generation_version?: string | null
+          graph_fingerprint?: Json | null
+          id?: string
+          integrations?: string[] | null
+          is_ai_generated?: boolean
+          json_url?: string | null
+          last_accessed?: string | null
+          license?: string | null
+          match_estimated_time_savings?: number | null
+          match_reasons?: string[] | null
+          match_relevant_integrations?: string[] | null
+          match_score?: number | null
+          n8n_workflow?: Json | null
+          node_count?: number | null
+          popularity?: number | null
+          popularity_signals?: Json | null
+          popularity_updated_at?: string | null
+          preview_url?: string | null
+          rating?: number | null
+          score_category?: number | null
+          score_complexity?: number | null
+          score_confidence?: number | null
+          score_integration?: number | null
+          score_overall?: number | null
+          score_reasoning?: string[] | null
+          score_service?: number | null
+          score_trigger?: number | null
+          setup_cost?: number | null
+          source?: Database["public"]["Enums"]["source_type"]
+          source_aliases?: Json
+          source_url?: string | null
+          status?: Database["public"]["Enums"]["solution_status"]
+          summary?: string | null
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          time_savings?: number | null
+          title?: string
+          trigger_node_type?: string | null
+          trigger_type?: Database["public"]["Enums"]["trigger_type"]
+          updated_at?: string | null
+          validation_diagnostics?: Json
+          validation_status?: Database["public"]["Enums"]["validation_status"] | null
+          verified?: boolean | null
+          version?: string | null
+          workflow_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unified_workflows_canonical_id_fkey"
+            columns: ["canonical_id"]
+            isOneToOne: false
+            referencedRelation: "unified_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       url_cache: {
         Row: {
           created_at: string
@@ -47,6 +478,123 @@ export type Database = {
         }
         Relationships: []
       }
+      user_analyses: {
+        Row: {
+          analysis: Json
+          created_at: string | null
+          edit_history: Json
+          id: string
+          job_text: string
+          lang: string
+          local_id: string | null
+          search_vector: unknown
+          tags: string[]
+          task_count: number
+          title: string
+          total_score: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          analysis: Json
+          created_at?: string | null
+          edit_history?: Json
+          id?: string
+          job_text?: string
+          lang?: string
+          local_id?: string | null
+          search_vector?: never
+          tags?: string[]
+          task_count?: number
+          title: string
+          total_score?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          analysis?: Json
+          created_at?: string | null
+          edit_history?: Json
+          id?: string
+          job_text?: string
+          lang?: string
+          local_id?: string | null
+          search_vector?: never
+          tags?: string[]
+          task_count?: number
+          title?: string
+          total_score?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workflow_interaction_events: {
+        Row: {
+          created_at: string
+          event_type: string
+          id: number
+          session_id: string | null
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_type: string
+          id?: number
+          session_id?: string | null
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string
+          event_type?: string
+          id?: number
+          session_id?: string | null
+          workflow_id?: string
+        }
+        Relationships: []
+      }
+      workflow_merge_reviews: {
+        Row: {
+          created_at: string | null
+          graph_similarity: number
+          id: string
+          left_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          right_id: string
+          score: number
+          status: string
+          title_similarity: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          graph_similarity: number
+          id?: string
+          left_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          right_id: string
+          score: number
+          status?: string
+          title_similarity: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          graph_similarity?: number
+          id?: string
+          left_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          right_id?: string
+          score?: number
+          status?: string
+          title_similarity?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -65,9 +613,28 @@ export type Database = {
           was_rendered: boolean
         }[]
       }
+      search_workflows_keyword: {
+        Args: { match_count?: number; query_text: string }
+        Returns: {
+          id: string
+          rank: number
+        }[]
+      }
+      search_workflows_vector: {
+        Args: { match_count?: number; query_embedding: string }
+        Returns: {
+          id: string
+          similarity: number
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      complexity_type: "Low" | "Medium" | "High" | "Easy" | "Hard"
+      domain_origin: "llm" | "admin" | "mixed"
+      solution_status: "generated" | "verified" | "fallback" | "loading"
+      source_type: "github" | "n8n.io" | "ai-generated" | "manual" | "api"
+      trigger_type: "Manual" | "Webhook" | "Scheduled" | "Complex"
+      validation_status: "valid" | "invalid" | "pending"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -194,6 +761,13 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      complexity_type: ["Low", "Medium", "High", "Easy", "Hard"],
+      domain_origin: ["llm", "admin", "mixed"],
+      solution_status: ["generated", "verified", "fallback", "loading"],
+      source_type: ["github", "n8n.io", "ai-generated", "manual", "api"],
+      trigger_type: ["Manual", "Webhook", "Scheduled", "Complex"],
+      validation_status: ["valid", "invalid", "pending"],
+    },
   },
 } as const
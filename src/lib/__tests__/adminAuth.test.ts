@@ -0,0 +1,52 @@
+/**
+ * Tests for the admin check of service-role edge functions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AuthClientLike, AuthUserLike, authorizeAdmin } from '../../../supabase/functions/_shared/admin-auth';
+
+const SERVICE_KEY = 'service-role-key';
+
+const request = (authorization?: string) =>
+  new Request('https://example.test/functions/v1/dedup-workflows', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {}
+  });
+
+const client = (user: AuthUserLike | null): AuthClientLike => ({
+  auth: {
+    getUser: vi.fn(async () => ({ data: { user }, error: user ? null : { message: 'invalid JWT' } }))
+  }
+});
+
+describe('authorizeAdmin', () => {
+  it('rejects callers without a bearer token', async () => {
+    expect(await authorizeAdmin(request(), client(null), SERVICE_KEY)).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Authentication required'
+    });
+  });
+
+  it('rejects invalid sessions and signed-in users without the admin role', async () => {
+    expect(await authorizeAdmin(request('Bearer expired'), client(null), SERVICE_KEY)).toMatchObject({ ok: false, status: 401 });
+
+    // user_metadata is editable by the user and must not grant admin rights
+    const user = { id: 'u1', email: 'user@example.com', app_metadata: {}, user_metadata: { role: 'admin' } } as AuthUserLike;
+    expect(await authorizeAdmin(request('Bearer user-jwt'), client(user), SERVICE_KEY)).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('accepts admins and scheduled calls with the service role key', async () => {
+    const admin = { id: 'a1', email: 'admin@example.com', app_metadata: { role: 'admin' } };
+    expect(await authorizeAdmin(request('Bearer admin-jwt'), client(admin), SERVICE_KEY)).toEqual({
+      ok: true,
+      userId: 'a1',
+      email: 'admin@example.com'
+    });
+
+    const auth = client(null);
+    expect(await authorizeAdmin(request(`Bearer ${SERVICE_KEY}`), auth, SERVICE_KEY)).toMatchObject({ ok: true, userId: null });
+    expect(auth.auth.getUser).not.toHaveBeenCalled();
+    expect(await authorizeAdmin(request(`Bearer ${SERVICE_KEY}`), auth, undefined)).toMatchObject({ ok: false });
+  });
+});
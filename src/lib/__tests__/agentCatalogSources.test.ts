@@ -0,0 +1,144 @@
+/**
+ * Tests for the agent catalog source adapters, run against recorded API responses
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AgentSourceContext,
+  AgentSourceError,
+  crewAiExamplesAdapter,
+  DEFAULT_GITHUB_TOPICS,
+  DEFAULT_HF_TAGS,
+  githubTopicsAdapter,
+  hfSpacesAdapter,
+  isHighQualitySpace,
+  manifestAdapter,
+  normalizeAgentSource
+} from '../../../supabase/functions/_shared/agent-catalog-sources';
+
+const fixtures = import.meta.glob('./fixtures/agent-catalogs/*.json', { eager: true, import: 'default' }) as Record<string, unknown>;
+const fixture = (name: string) => fixtures[`./fixtures/agent-catalogs/${name}.json`];
+
+// URL patterns of the recorded responses
+const ROUTES: Array<[RegExp, string]> = [
+  [/^https:\/\/huggingface\.co\/api\/spaces\?/, 'hf-spaces'],
+  [/search\/repositories\?q=topic%3Aai-agent/, 'github-search-ai-agent'],
+  [/search\/repositories\?q=topic%3Alanggraph/, 'github-search-langgraph'],
+  [/search\/repositories\?q=topic%3Aautogen/, 'github-search-autogen'],
+  [/repos\/crewAIInc\/crewAI-examples\/contents$/, 'crewai-contents'],
+  [/repos\/crewAIInc\/crewAI-examples$/, 'crewai-repo']
+];
+
+const fixtureFetch = vi.fn(async (input: RequestInfo | URL) => {
+  const url = String(input);
+  const route = ROUTES.find(([pattern]) => pattern.test(url));
+  const body = route ? fixture(route[1]) : { message: 'Not Found' };
+  return { ok: !!route, status: route ? 200 : 404, json: async () => body } as Response;
+});
+
+const context = (overrides: Partial<AgentSourceContext> = {}): AgentSourceContext => ({
+  fetch: fixtureFetch as unknown as typeof fetch,
+  now: Date.parse('2026-10-19T00:00:00Z'),
+  tags: DEFAULT_HF_TAGS,
+  topics: DEFAULT_GITHUB_TOPICS,
+  readManifest: async () => JSON.stringify(fixture('manifest')),
+  ...overrides
+});
+
+describe('normalizeAgentSource', () => {
+  it('maps aliases to adapters', () => {
+    expect(normalizeAgentSource('HuggingFace')).toBe('hf-spaces');
+    expect(normalizeAgentSource('crew-ai')).toBe('crewai');
+    expect(normalizeAgentSource('github-agents')).toBe('github-agents');
+    expect(normalizeAgentSource('local')).toBe('manifest');
+    expect(normalizeAgentSource('agentgpt')).toBeNull();
+  });
+});
+
+describe('hfSpacesAdapter', () => {
+  it('keeps tagged, active spaces ranked by quality', async () => {
+    const agents = await hfSpacesAdapter.fetchAgents(context());
+
+    expect(agents.map(agent => agent.id)).toEqual(['acme/research-crew', 'solo/inbox-agent']);
+    expect(agents[0]).toMatchObject({
+      source: 'hf-spaces',
+      title: 'Research Crew',
+      link: 'https://huggingface.co/spaces/acme/research-crew',
+      provider: 'HuggingFace Spaces',
+      likes: 42
+    });
+    expect(agents[1].title).toBe('inbox-agent');
+  });
+});
+
+describe('githubTopicsAdapter', () => {
+  it('merges topic searches and drops archived or inactive repositories', async () => {
+    const agents = await githubTopicsAdapter.fetchAgents(context());
+
+    expect(agents.map(agent => agent.id)).toEqual(['octo-labs/support-agent', 'data-team/sqlResearchAgent']);
+    expect(agents[0]).toMatchObject({
+      source: 'github-agents',
+      title: 'Support Agent',
+      provider: 'GitHub (octo-labs)',
+      tags: ['ai-agent', 'langgraph', 'customer-support'],
+      likes: 1280,
+      downloads: 140
+    });
+    // Kept for its fork although it has few stars and no recent push
+    expect(agents[1].title).toBe('Sql Research Agent');
+  });
+
+  it('sends the token and fails on API errors', async () => {
+    fixtureFetch.mockClear();
+    await githubTopicsAdapter.fetchAgents(context({ topics: ['autogen'], githubToken: 'ghp_test' }));
+    expect(fixtureFetch).toHaveBeenCalledWith(
+      expect.stringContaining('topic%3Aautogen'),
+      { headers: expect.objectContaining({ Authorization: 'token ghp_test' }) }
+    );
+
+    await expect(githubTopicsAdapter.fetchAgents(context({ topics: ['unknown-topic'] })))
+      .rejects.toBeInstanceOf(AgentSourceError);
+  });
+});
+
+describe('crewAiExamplesAdapter', () => {
+  it('lists each example crew of the repository', async () => {
+    const agents = await crewAiExamplesAdapter.fetchAgents(context());
+
+    expect(agents.map(agent => agent.title)).toEqual(['Instagram Post', 'Trip Planner']);
+    expect(agents[1]).toMatchObject({
+      id: 'crewAIInc/crewAI-examples/trip_planner',
+      source: 'crewai',
+      link: 'https://github.com/crewAIInc/crewAI-examples/tree/main/trip_planner',
+      provider: 'CrewAI Examples',
+      tags: ['crewai', 'multi-agent', 'agents', 'llm'],
+      likes: 4900
+    });
+  });
+});
+
+describe('manifestAdapter', () => {
+  it('keeps complete, recently reviewed entries', async () => {
+    const agents = await manifestAdapter.fetchAgents(context());
+
+    expect(agents).toEqual([expect.objectContaining({
+      id: 'prom8eus/invoice-chaser',
+      source: 'manifest',
+      provider: 'Prom8eus',
+      tags: ['finance', 'email']
+    })]);
+  });
+
+  it('rejects a broken manifest', async () => {
+    await expect(manifestAdapter.fetchAgents(context({ readManifest: async () => '{ agents: ' })))
+      .rejects.toThrow('Agent manifest is not valid JSON');
+  });
+});
+
+describe('isHighQualitySpace', () => {
+  it('accepts GitHub-style signals', () => {
+    const now = Date.parse('2026-10-19T00:00:00Z');
+    expect(isHighQualitySpace({ likes: 5 }, now)).toBe(true);
+    expect(isHighQualitySpace({ likes: 0, updatedAt: '2020-01-01' }, now)).toBe(false);
+  });
+});
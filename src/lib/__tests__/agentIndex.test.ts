@@ -0,0 +1,144 @@
+/**
+ * Tests for the AgentIndex mappers and scoring of mapped catalog entries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AgentSchemaMapper,
+  detectCapabilities,
+  detectDomains
+} from '../schemas/agentIndex';
+import { aiAgentsCatalog } from '../solutions/aiAgentsCatalog';
+import { createAgentScoring } from '../solutions/agentScoring';
+import type { AgentMinimal } from '../../../supabase/functions/_shared/agent-catalog-sources';
+
+const supportAgent: AgentMinimal = {
+  id: 'octo-labs/support-agent',
+  source: 'github-agents',
+  title: 'Support Agent',
+  summary: 'Customer support agent on GPT-4 that triages tickets, searches the web and drafts e-mail replies',
+  link: 'https://github.com/octo-labs/support-agent',
+  provider: 'GitHub (octo-labs)',
+  tags: ['ai-agent', 'langgraph', 'customer-support', 'openai'],
+  likes: 1280,
+  downloads: 140,
+  lastModified: '2026-09-30T12:00:00Z'
+};
+
+describe('detectCapabilities / detectDomains', () => {
+  it('maps free-form tags and texts to the shared taxonomies', () => {
+    expect(detectCapabilities(['web_search', 'data-analysis'], ['Sends a weekly e-mail report']))
+      .toEqual(['web_search', 'data_analysis', 'email_send', 'reporting']);
+    expect(detectDomains(['customer-support'], ['Chases overdue invoices'])).toEqual([
+      'Customer Support & Service',
+      'Finance & Accounting'
+    ]);
+    expect(detectDomains(['gradio'])).toEqual(['Other']);
+  });
+});
+
+describe('AgentSchemaMapper.fromAgentMinimal', () => {
+  it('derives model, provider, capabilities and source metadata', () => {
+    const agent = AgentSchemaMapper.fromAgentMinimal(supportAgent, {
+      health: 'healthy',
+      checkedAt: '2026-10-19T00:00:00Z'
+    });
+
+    expect(agent).toMatchObject({
+      id: 'octo-labs/support-agent',
+      source: 'github-agents',
+      model: 'gpt-4',
+      provider: 'OpenAI',
+      domains: ['Customer Support & Service'],
+      deployment: 'Local',
+      pricing: 'Free',
+      license: 'Unknown',
+      githubUrl: 'https://github.com/octo-labs/support-agent',
+      sourceHealth: 'healthy',
+      sourceCheckedAt: '2026-10-19T00:00:00Z'
+    });
+    expect(agent.capabilities).toEqual(expect.arrayContaining(['web_search', 'email_send', 'text_processing']));
+  });
+
+  it('keeps the listing provider and an unknown model when the listing names no LLM', () => {
+    const agent = AgentSchemaMapper.fromAgentMinimal({
+      id: 'solo/inbox-agent',
+      source: 'hf-spaces',
+      title: 'inbox-agent',
+      summary: '',
+      link: 'https://huggingface.co/spaces/solo/inbox-agent',
+      provider: 'HuggingFace Spaces',
+      tags: ['streamlit', 'autonomous', 'license:mit']
+    });
+
+    expect(agent).toMatchObject({
+      model: '',
+      provider: 'HuggingFace Spaces',
+      capabilities: ['email_send'],
+      domains: ['Other'],
+      deployment: 'Cloud',
+      license: 'MIT',
+      demoUrl: 'https://huggingface.co/spaces/solo/inbox-agent',
+      sourceHealth: 'unknown'
+    });
+    expect(agent.pricing).toBeUndefined();
+  });
+});
+
+describe('AgentSchemaMapper.fromAIAgent', () => {
+  it('maps every catalog entry onto ontology domains and capability tags', () => {
+    const agents = aiAgentsCatalog.map(entry => AgentSchemaMapper.fromAIAgent(entry));
+
+    agents.forEach(agent => {
+      expect(agent.domains!.length).toBeGreaterThan(0);
+      expect(agent.capabilities.length).toBeGreaterThan(0);
+    });
+
+    const hr = agents.find(agent => agent.id === 'hr-assistant')!;
+    expect(hr).toMatchObject({
+      source: 'catalog',
+      title: 'HR Assistant',
+      provider: 'OpenAI',
+      link: '#',
+      domains: ['Human Resources & Recruiting'],
+      deployment: 'Cloud',
+      pricing: 'Freemium',
+      sourceHealth: 'healthy'
+    });
+  });
+});
+
+describe('unified_agents rows', () => {
+  it('round-trips through toRow and fromRow', () => {
+    const agent = AgentSchemaMapper.fromAgentMinimal(supportAgent, { health: 'degraded' });
+    const row = AgentSchemaMapper.toRow(agent);
+
+    expect(row).toMatchObject({ model: 'gpt-4', source_health: 'degraded', last_modified: '2026-09-30T12:00:00Z' });
+    expect(AgentSchemaMapper.fromRow(row)).toEqual({
+      ...agent,
+      requirements: [],
+      useCases: []
+    });
+  });
+});
+
+describe('AgentScoring on mapped agents', () => {
+  it('tiers fetched and curated agents end-to-end', () => {
+    const scoring = createAgentScoring();
+    const fetched = AgentSchemaMapper.fromAgentMinimal(supportAgent);
+    const curated = AgentSchemaMapper.fromAIAgent(aiAgentsCatalog[0]);
+
+    const fetchedScore = scoring.calculateAgentScore(fetched, {
+      businessDomain: 'support',
+      requiredCapabilities: ['email_send', 'web_search']
+    });
+    expect(fetchedScore.agentId).toBe('octo-labs/support-agent');
+    expect(fetchedScore.capabilityScore).toBeGreaterThanOrEqual(60);
+    expect(fetchedScore.reasoning).toContain('Reliable provider: OpenAI');
+    expect(['Generalist', 'Specialist', 'Experimental']).toContain(fetchedScore.tier);
+
+    const curatedScore = scoring.calculateAgentScore(curated, { businessDomain: 'hr' });
+    expect(curatedScore.domainScore).toBeGreaterThan(0);
+    expect(curatedScore.scoreBreakdown.domainBreadth).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for capability-based agent matching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AgentMatcher,
+  CapabilityTag,
+  InMemoryAgentCatalogBackend,
+  deriveRequiredCapabilities,
+  isMaintainedAgent
+} from '../solutions/agentMatcher';
+import { AgentSchemaMapper } from '../schemas/agentIndex';
+import { aiAgentsCatalog } from '../solutions/aiAgentsCatalog';
+import { recommendAgentForSubtask } from '../services/agentGenerator';
+import { DynamicSubtask } from '../types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+vi.mock('../openai', () => ({
+  openaiClient: { chatCompletion: vi.fn(async () => { throw new Error('offline'); }) }
+}));
+
+const tag = (name: string, displayName: string, isCore = false): CapabilityTag =>
+  ({ tag: name, displayName, category: 'test', isCore });
+
+const TAXONOMY: CapabilityTag[] = [
+  tag('web_search', 'Web Search', true),
+  tag('data_analysis', 'Data Analysis', true),
+  tag('file_io', 'File Operations', true),
+  tag('email_send', 'Email Sending', true),
+  tag('api_integration', 'API Integration'),
+  tag('notification_sending', 'Notifications'),
+  tag('reporting', 'Reporting'),
+  tag('document_generation', 'Document Generation')
+];
+
+const NOW = Date.parse('2026-10-19T00:00:00Z');
+
+const subtask = (overrides: Partial<DynamicSubtask>): DynamicSubtask => ({
+  id: 'st-1',
+  title: '',
+  description: '',
+  automationPotential: 0.8,
+  estimatedTime: 4,
+  priority: 'medium',
+  complexity: 'medium',
+  systems: [],
+  dependencies: [],
+  risks: [],
+  opportunities: [],
+  ...overrides
+});
+
+const invoiceReminders = subtask({
+  title: 'Zahlungserinnerungen per E-Mail versenden',
+  description: 'Offene Rechnungen aus Excel auswerten und Kunden erinnern',
+  systems: ['Gmail', 'Excel', 'DATEV']
+});
+
+const invoiceChaser = AgentSchemaMapper.fromAgentMinimal({
+  id: 'prom8eus/invoice-chaser',
+  source: 'manifest',
+  title: 'Invoice Chaser',
+  summary: 'Analyzes overdue invoices from spreadsheets, sends e-mail reminders via API and notifies accounting',
+  link: 'https://github.com/prom8eus/invoice-chaser',
+  provider: 'OpenAI',
+  tags: ['finance', 'email'],
+  lastModified: '2026-09-01'
+}, { health: 'healthy' });
+
+const abandoned = AgentSchemaMapper.fromAgentMinimal({
+  ...invoiceChaser,
+  id: 'old/invoice-bot',
+  title: 'Invoice Bot',
+  summary: invoiceChaser.summary,
+  tags: ['finance', 'email'],
+  lastModified: '2023-01-01'
+});
+
+describe('deriveRequiredCapabilities', () => {
+  it('maps verbs and systems to taxonomy tags', () => {
+    const required = deriveRequiredCapabilities(invoiceReminders, TAXONOMY).map(capability => capability.tag);
+
+    expect(required).toEqual(expect.arrayContaining(['email_send', 'data_analysis', 'notification_sending', 'file_io', 'api_integration']));
+    // Tags missing from the taxonomy are dropped
+    expect(deriveRequiredCapabilities(invoiceReminders, [tag('email_send', 'Email Sending')]).map(c => c.tag))
+      .toEqual(['email_send']);
+  });
+});
+
+describe('isMaintainedAgent', () => {
+  it('requires recent activity and a reachable source', () => {
+    expect(isMaintainedAgent(invoiceChaser, NOW)).toBe(true);
+    expect(isMaintainedAgent(abandoned, NOW)).toBe(false);
+    expect(isMaintainedAgent({ ...invoiceChaser, sourceHealth: 'unhealthy' }, NOW)).toBe(false);
+  });
+});
+
+describe('AgentMatcher', () => {
+  it('ranks maintained agents first and explains coverage gaps', async () => {
+    const matcher = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, [abandoned, invoiceChaser]));
+    const result = await matcher.matchSubtask(invoiceReminders, { now: NOW });
+
+    expect(result.domains).toContain('Finance & Accounting');
+    expect(result.matches.map(match => match.agent.id)).toEqual(['prom8eus/invoice-chaser', 'old/invoice-bot']);
+    expect(result.matches[1].maintained).toBe(false);
+    expect(result.bestMatch?.agent.id).toBe('prom8eus/invoice-chaser');
+    expect(result.bestMatch?.missingCapabilities).toEqual(result.uncoveredCapabilities);
+  });
+
+  it('has no best match when nothing meets the threshold', async () => {
+    const matcher = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, [abandoned]));
+    const result = await matcher.matchSubtask(invoiceReminders, { now: NOW });
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.bestMatch).toBeNull();
+  });
+
+  it('matches curated catalog entries', async () => {
+    const curated = aiAgentsCatalog.map(agent => AgentSchemaMapper.fromAIAgent(agent));
+    const matcher = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, curated));
+    const result = await matcher.matchSubtask(subtask({
+      title: 'Analyze sales data and write a weekly report',
+      systems: ['Google Sheets']
+    }), { now: NOW, minScore: 0 });
+
+    expect(result.matches.length).toBeGreaterThan(0);
+    expect(result.matches.every(match => match.coverage > 0)).toBe(true);
+  });
+});
+
+describe('recommendAgentForSubtask', () => {
+  it('only generates an agent when no catalog agent fits', async () => {
+    const fitting = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, [invoiceChaser]));
+    const found = await recommendAgentForSubtask(invoiceReminders, 'de', { matcher: fitting });
+    expect(found.generated).toBeNull();
+    expect(found.match?.bestMatch?.agent.id).toBe('prom8eus/invoice-chaser');
+
+    const empty = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, []));
+    const fallback = await recommendAgentForSubtask(invoiceReminders, 'de', { matcher: empty, timeoutMs: 50 });
+    expect(fallback.match?.bestMatch).toBeNull();
+    expect(fallback.generated?.config.name).toBe('Fallback Agent für: Zahlungserinnerungen per E-Mail versenden');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for incremental catalog sync planning, checkpoints and reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  contentHash,
+  createSyncReport,
+  planSync,
+  recordFailure,
+  resumeOrStartReport,
+  stableWorkflowId,
+  SyncCheckpoint
+} from '../../../supabase/functions/_shared/catalog-sync';
+
+describe('planSync', () => {
+  const stored = [
+    { id: 'a', fileHash: 'sha-a', active: true },
+    { id: 'b', fileHash: 'sha-b', active: true },
+    { id: 'c', fileHash: 'sha-c', active: true },
+    { id: 'd', fileHash: 'sha-d', active: false }
+  ];
+
+  it('classifies entries by file hash', () => {
+    const plan = planSync(stored, [
+      { id: 'a', fileHash: 'sha-a' },
+      { id: 'b', fileHash: 'sha-b2' },
+      { id: 'd', fileHash: 'sha-d' },
+      { id: 'e', fileHash: 'sha-e' }
+    ]);
+
+    expect(plan.unchanged).toEqual(['a']);
+    expect(plan.updated).toEqual(['b', 'd']); // soft-deleted entries that reappear are restored
+    expect(plan.added).toEqual(['e']);
+    expect(plan.removed).toEqual(['c']); // already inactive 'd' would not be removed twice
+  });
+
+  it('never removes on an incomplete listing', () => {
+    const plan = planSync(stored, [{ id: 'a', fileHash: 'sha-a' }], false);
+    expect(plan.removed).toEqual([]);
+  });
+
+  it('ignores duplicate listing entries', () => {
+    const plan = planSync([], [{ id: 'x', fileHash: '1' }, { id: 'x', fileHash: '2' }]);
+    expect(plan.added).toEqual(['x']);
+  });
+});
+
+describe('resumeOrStartReport', () => {
+  const checkpoint = (revision?: string): SyncCheckpoint => {
+    const report = createSyncReport('github:Zie619/n8n-workflows', 'run-1', new Date('2025-10-01T00:00:00Z'));
+    report.added = 40;
+    report.revision = revision;
+    return { runId: 'run-1', revision, cursor: 40, report };
+  };
+
+  it('resumes an interrupted run at the same revision', () => {
+    const { report, resumed } = resumeOrStartReport('github:Zie619/n8n-workflows', checkpoint('abc'), 'abc', () => 'run-2');
+
+    expect(resumed).toBe(true);
+    expect(report.runId).toBe('run-1');
+    expect(report.added).toBe(40);
+    expect(report.invocations).toBe(2);
+    expect(report.status).toBe('running');
+  });
+
+  it('starts over when the source moved to a new revision', () => {
+    const { report, resumed } = resumeOrStartReport('github:Zie619/n8n-workflows', checkpoint('abc'), 'def', () => 'run-2');
+
+    expect(resumed).toBe(false);
+    expect(report.runId).toBe('run-2');
+    expect(report.added).toBe(0);
+    expect(report.revision).toBe('def');
+  });
+});
+
+describe('sync helpers', () => {
+  it('caps recorded failures but counts all of them', () => {
+    const report = createSyncReport('n8n.io', 'run');
+    for (let i = 0; i < 60; i++) recordFailure(report, `wf-${i}`, new Error('boom'));
+
+    expect(report.failed).toBe(60);
+    expect(report.failures).toHaveLength(50);
+    expect(report.failures[0]).toEqual({ id: 'wf-0', error: 'boom' });
+  });
+
+  it('builds stable ids and prefixes', () => {
+    expect(stableWorkflowId('github', 'Zie619/n8n-workflows', 'workflows/Slack/0001_Slack_Send.json'))
+      .toBe('github-zie619-n8n-workflows-workflows-slack-0001-slack-send');
+    expect(stableWorkflowId('n8n.io', '1234')).toBe('n8n-io-1234');
+    expect(stableWorkflowId('n8n.io')).toBe('n8n-io');
+  });
+
+  it('hashes content deterministically', () => {
+    expect(contentHash({ a: 1 })).toBe(contentHash({ a: 1 }));
+    expect(contentHash({ a: 1 })).not.toBe(contentHash({ a: 2 }));
+    expect(contentHash({ a: 1, views: undefined })).toBe(contentHash({ a: 1 }));
+  });
+});
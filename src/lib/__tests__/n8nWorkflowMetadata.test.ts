@@ -0,0 +1,106 @@
+/**
+ * Tests for n8n workflow metadata extraction used by the GitHub ingester
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeN8nWorkflow,
+  integrationName,
+  shortNodeType
+} from '../../../supabase/functions/_shared/n8n-workflow-metadata';
+
+const invoiceReminders = {
+  name: 'Overdue invoice reminders',
+  tags: [{ name: 'Finance' }],
+  nodes: [
+    { name: 'Every morning', type: 'n8n-nodes-base.scheduleTrigger' },
+    { name: 'Get invoices', type: 'n8n-nodes-base.quickbooks', credentials: { quickBooksOAuth2Api: { id: '1' } } },
+    { name: 'Overdue?', type: 'n8n-nodes-base.if' },
+    { name: 'Send reminder', type: 'n8n-nodes-base.gmail', credentials: { gmailOAuth2: { id: '2' } } },
+    { name: 'Notify team', type: 'n8n-nodes-base.slack', credentials: { slackApi: { id: '3' } } },
+    { name: 'Log', type: 'n8n-nodes-base.googleSheets', disabled: true },
+    { name: 'Note', type: 'n8n-nodes-base.stickyNote' }
+  ],
+  connections: {
+    'Every morning': { main: [[{ node: 'Get invoices', type: 'main', index: 0 }]] },
+    'Get invoices': { main: [[{ node: 'Overdue?', type: 'main', index: 0 }]] },
+    'Overdue?': {
+      main: [
+        [{ node: 'Send reminder', type: 'main', index: 0 }, { node: 'Notify team', type: 'main', index: 0 }],
+        []
+      ]
+    },
+    'Ghost': { main: [[{ node: 'Get invoices', type: 'main', index: 0 }]] }
+  }
+};
+
+describe('analyzeN8nWorkflow', () => {
+  it('derives integrations, trigger, counts and credentials from nodes and connections', () => {
+    const metadata = analyzeN8nWorkflow(invoiceReminders);
+
+    expect(metadata.name).toBe('Overdue invoice reminders');
+    expect(metadata.integrations).toEqual(['Gmail', 'QuickBooks', 'Slack']);
+    expect(metadata.triggerNodeType).toBe('n8n-nodes-base.scheduleTrigger');
+    expect(metadata.triggerType).toBe('Scheduled');
+    expect(metadata.nodeCount).toBe(6);
+    expect(metadata.connectionCount).toBe(4);
+    expect(metadata.credentialsRequired).toEqual(['gmailOAuth2', 'quickBooksOAuth2Api', 'slackApi']);
+    expect(metadata.branchingDepth).toBe(1);
+    expect(metadata.complexity).toBe('Medium');
+    expect(metadata.tags).toEqual(expect.arrayContaining(['finance', 'quickbooks', 'scheduled']));
+  });
+
+  it('counts nested branch points and tolerates loops', () => {
+    const metadata = analyzeN8nWorkflow({
+      nodes: [
+        { name: 'Hook', type: 'n8n-nodes-base.webhook' },
+        { name: 'A', type: 'n8n-nodes-base.switch' },
+        { name: 'B', type: 'n8n-nodes-base.if' },
+        { name: 'C', type: 'n8n-nodes-base.httpRequest' },
+        { name: 'D', type: 'n8n-nodes-base.noOp' },
+        { name: 'E', type: 'n8n-nodes-base.noOp' }
+      ],
+      connections: {
+        Hook: { main: [[{ node: 'A' }]] },
+        A: { main: [[{ node: 'B' }], [{ node: 'C' }]] },
+        B: { main: [[{ node: 'D' }], [{ node: 'E' }]] },
+        C: { main: [[{ node: 'A' }]] }
+      }
+    });
+
+    expect(metadata.triggerType).toBe('Webhook');
+    expect(metadata.integrations).toEqual(['HTTP Request', 'Webhook']);
+    expect(metadata.branchingDepth).toBe(2);
+  });
+
+  it('reports multiple triggers as complex and no trigger as manual', () => {
+    const multi = analyzeN8nWorkflow({
+      nodes: [
+        { name: 'Cron', type: 'n8n-nodes-base.cron' },
+        { name: 'Mail', type: 'n8n-nodes-base.gmailTrigger' }
+      ],
+      connections: {}
+    });
+    const none = analyzeN8nWorkflow({ nodes: [{ name: 'Set', type: 'n8n-nodes-base.set' }], connections: {} });
+
+    expect(multi.triggerType).toBe('Complex');
+    expect(multi.integrations).toEqual(['Gmail']);
+    expect(none.triggerType).toBe('Manual');
+    expect(none.triggerNodeType).toBeUndefined();
+    expect(none.complexity).toBe('Low');
+  });
+
+  it('rejects documents that are not workflows', () => {
+    expect(() => analyzeN8nWorkflow({ name: 'package.json' } as never)).toThrow('missing nodes');
+  });
+});
+
+describe('node type names', () => {
+  it('strips package prefixes and humanizes unknown types', () => {
+    expect(shortNodeType('@n8n/n8n-nodes-langchain.lmChatOpenAi')).toBe('lmChatOpenAi');
+    expect(integrationName('@n8n/n8n-nodes-langchain.lmChatOpenAi')).toBe('OpenAI');
+    expect(integrationName('n8n-nodes-base.pipedriveTrigger')).toBe('Pipedrive');
+    expect(integrationName('n8n-nodes-base.mailerLite')).toBe('Mailer Lite');
+    expect(integrationName('n8n-nodes-base.merge')).toBeNull();
+  });
+});
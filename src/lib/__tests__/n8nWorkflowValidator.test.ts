@@ -0,0 +1,184 @@
+/**
+ * Tests for the static n8n workflow validator
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findHardcodedSecrets,
+  validateN8nWorkflow,
+  WorkflowValidationResult
+} from '../../../supabase/functions/_shared/n8n-workflow-validator';
+import { withValidationStatus } from '../workflowValidator';
+import { UnifiedWorkflow } from '../schemas/unifiedWorkflow';
+
+const validWorkflow = {
+  name: 'Lead intake',
+  nodes: [
+    { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'leads' } },
+    { name: 'Enrich', type: 'n8n-nodes-base.httpRequest', parameters: { url: '={{ $env.ENRICH_URL }}' } },
+    { name: 'Sheets', type: 'n8n-nodes-base.googleSheets', parameters: { documentId: { mode: 'id', value: 'abc' } } },
+    { name: 'Note', type: 'n8n-nodes-base.stickyNote', parameters: {} }
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Enrich', type: 'main', index: 0 }]] },
+    Enrich: { main: [[{ node: 'Sheets', type: 'main', index: 0 }]] }
+  }
+};
+
+const codes = (result: WorkflowValidationResult) => result.diagnostics.map(diagnostic => diagnostic.code);
+
+describe('validateN8nWorkflow', () => {
+  it('accepts a connected workflow with a trigger', () => {
+    const result = validateN8nWorkflow(validWorkflow);
+
+    expect(result.status).toBe('valid');
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('accepts AI sub-nodes attached to their agent', () => {
+    const result = validateN8nWorkflow({
+      nodes: [
+        { name: 'Chat', type: '@n8n/n8n-nodes-langchain.chatTrigger' },
+        { name: 'Agent', type: '@n8n/n8n-nodes-langchain.agent' },
+        { name: 'Model', type: '@n8n/n8n-nodes-langchain.lmChatOpenAi' }
+      ],
+      connections: {
+        Chat: { main: [[{ node: 'Agent' }]] },
+        Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] }
+      }
+    });
+
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('rejects documents without nodes', () => {
+    expect(codes(validateN8nWorkflow({ name: 'x' }))).toEqual(['invalid_structure']);
+    expect(validateN8nWorkflow({ nodes: [], connections: {} }).status).toBe('invalid');
+  });
+
+  it('reports dangling connections and duplicate node names', () => {
+    const result = validateN8nWorkflow({
+      nodes: [...validWorkflow.nodes, { name: 'Sheets', type: 'n8n-nodes-base.slack' }],
+      connections: {
+        ...validWorkflow.connections,
+        Sheets: { main: [[{ node: 'Deleted' }]] },
+        'webhook-trigger': { main: [[{ node: 'Enrich' }]] }
+      }
+    });
+
+    expect(result.status).toBe('invalid');
+    expect(codes(result)).toEqual(['duplicate_node_name', 'dangling_connection', 'dangling_connection']);
+  });
+
+  it('requires a trigger', () => {
+    const result = validateN8nWorkflow({
+      nodes: validWorkflow.nodes.slice(1),
+      connections: { Enrich: validWorkflow.connections.Enrich }
+    });
+
+    expect(result.status).toBe('invalid');
+    expect(codes(result)).toContain('missing_trigger');
+  });
+
+  it('warns about nodes that are not connected to a trigger', () => {
+    const result = validateN8nWorkflow({
+      nodes: [...validWorkflow.nodes, { name: 'Orphan', type: 'n8n-nodes-base.set' }],
+      connections: validWorkflow.connections
+    });
+
+    expect(result.status).toBe('valid');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'disconnected_node', severity: 'warning', node: 'Orphan' })
+    ]);
+  });
+
+  it('rejects malformed node types and flags unknown built-in ones', () => {
+    const result = validateN8nWorkflow({
+      nodes: [
+        { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'x' } },
+        { name: 'Send', type: 'Slack' },
+        { name: 'Invented', type: 'n8n-nodes-base.slackMessenger' },
+        { name: 'Community', type: 'n8n-nodes-browserless.browserless' }
+      ],
+      connections: { Webhook: { main: [[{ node: 'Send' }, { node: 'Invented' }, { node: 'Community' }]] } }
+    });
+
+    expect(result.diagnostics.filter(diagnostic => diagnostic.code === 'unknown_node_type')).toEqual([
+      expect.objectContaining({ node: 'Send', severity: 'error' }),
+      expect.objectContaining({ node: 'Invented', severity: 'warning' })
+    ]);
+  });
+
+  it('reports missing required parameters', () => {
+    const result = validateN8nWorkflow({
+      nodes: [
+        { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'x' } },
+        { name: 'Call API', type: 'n8n-nodes-base.httpRequest', parameters: { url: '' } },
+        { name: 'Sheet', type: 'n8n-nodes-base.googleSheets', parameters: { documentId: { mode: 'list', value: '' } } },
+        { name: 'Query', type: 'n8n-nodes-base.postgres', parameters: { operation: 'insert' } }
+      ],
+      connections: { Webhook: { main: [[{ node: 'Call API' }, { node: 'Sheet' }, { node: 'Query' }]] } }
+    });
+
+    expect(result.diagnostics.map(diagnostic => `${diagnostic.node}:${diagnostic.parameter}`)).toEqual([
+      'Call API:url',
+      'Sheet:documentId'
+    ]);
+  });
+
+  it('reports hardcoded secrets as errors in strict mode', () => {
+    const workflow = {
+      nodes: [
+        { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'x' } },
+        {
+          name: 'Call API',
+          type: 'n8n-nodes-base.httpRequest',
+          parameters: {
+            url: 'https://api.example.com',
+            headerParameters: { parameters: [{ name: 'Authorization', value: 'Bearer abc' }] }
+          }
+        }
+      ],
+      connections: { Webhook: { main: [[{ node: 'Call API' }]] } }
+    };
+
+    expect(validateN8nWorkflow(workflow).status).toBe('valid');
+    const strict = validateN8nWorkflow(workflow, { strict: true });
+    expect(strict.status).toBe('invalid');
+    expect(strict.diagnostics).toEqual([
+      expect.objectContaining({ code: 'hardcoded_secret', severity: 'error', parameter: 'headerParameters.parameters[0] (Authorization)' })
+    ]);
+  });
+
+  it('checks only node types for listings without connections', () => {
+    const result = validateN8nWorkflow({ nodes: [{ type: 'n8n-nodes-base.httpRequest' }] }, { nodesOnly: true });
+
+    expect(codes(result)).toEqual(['missing_trigger']);
+  });
+});
+
+describe('findHardcodedSecrets', () => {
+  it('finds secret parameters and known key formats but ignores expressions', () => {
+    expect(findHardcodedSecrets({
+      apiKey: 'abc',
+      token: '={{ $credentials.token }}',
+      options: { body: 'key=sk-abcdefghijklmnopqrstuvwxyz123456' },
+      text: 'Hello'
+    })).toEqual(['apiKey', 'options.body']);
+  });
+});
+
+describe('withValidationStatus', () => {
+  const base = { id: 'w1', title: 'Lead intake', isAIGenerated: true } as UnifiedWorkflow;
+
+  it('sets the status from the embedded workflow JSON', () => {
+    expect(withValidationStatus({ ...base, workflowData: validWorkflow }).validationStatus).toBe('valid');
+    expect(withValidationStatus({ ...base, workflowData: { nodes: [] } }).validationStatus).toBe('invalid');
+  });
+
+  it('stays pending without workflow JSON', () => {
+    const workflow = withValidationStatus(base);
+    expect(workflow.validationStatus).toBe('pending');
+    expect(workflow.validationDiagnostics).toBeUndefined();
+  });
+});
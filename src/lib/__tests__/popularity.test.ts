@@ -0,0 +1,129 @@
+/**
+ * Tests for the workflow popularity score
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clientAddress,
+  computePopularity,
+  decayedEventCount,
+  dedupeSessionEvents,
+  EVENT_HALF_LIFE_DAYS,
+  interactionSessionKey,
+  PopularityEvent
+} from '../../../supabase/functions/_shared/popularity';
+
+const now = new Date('2025-10-19T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+const sessionEvents = (count: number, type: PopularityEvent['type'], days = 0): PopularityEvent[] =>
+  Array.from({ length: count }, (_, index) => ({ type, occurredAt: daysAgo(days), sessionId: `session-${type}-${index}` }));
+
+describe('computePopularity', () => {
+  it('is zero without any signal', () => {
+    expect(computePopularity({}, now).score).toBe(0);
+  });
+
+  it('ignores missing signals instead of counting them as zero', () => {
+    const githubOnly = computePopularity({ githubStars: 10_000, githubForks: 0, lastCommitAt: daysAgo(0) }, now);
+
+    expect(githubOnly.components).toEqual({ community: 1 });
+    expect(githubOnly.score).toBe(100);
+  });
+
+  it('halves at most for long-abandoned repositories', () => {
+    const fresh = computePopularity({ githubStars: 500, githubForks: 50, lastCommitAt: daysAgo(0) }, now);
+    const stale = computePopularity({ githubStars: 500, githubForks: 50, lastCommitAt: daysAgo(180) }, now);
+    const ancient = computePopularity({ githubStars: 500, githubForks: 50, lastCommitAt: daysAgo(5000) }, now);
+
+    expect(stale.freshness).toBeCloseTo(0.5);
+    expect(stale.score).toBeLessThan(fresh.score);
+    expect(ancient.score).toBeCloseTo(fresh.score / 2, -1);
+  });
+
+  it('weights downloads above views and lets old events fade', () => {
+    const views = computePopularity({ events: sessionEvents(9, 'view') }, now);
+    const downloads = computePopularity({ events: sessionEvents(3, 'download') }, now);
+    const oldDownloads = computePopularity({ events: sessionEvents(3, 'download', 120) }, now);
+
+    expect(downloads.score).toBe(views.score);
+    expect(oldDownloads.score).toBeLessThan(downloads.score);
+  });
+
+  it('never lowers the score when more events come in', () => {
+    const repo = { githubStars: 2000, githubForks: 300, lastCommitAt: daysAgo(0) };
+    let previous = computePopularity(repo, now).score;
+
+    expect(previous).toBeGreaterThan(80);
+    [1, 2, 10, 100, 1000, 5000].forEach(count => {
+      const score = computePopularity({ ...repo, events: sessionEvents(count, 'view') }, now).score;
+      expect(score).toBeGreaterThanOrEqual(previous);
+      previous = score;
+    });
+  });
+
+  it('combines sources by their weights', () => {
+    const breakdown = computePopularity({
+      githubStars: 10_000,
+      sourceViews: 0,
+      events: []
+    }, now);
+
+    // community 1 (0.4) and source 0 (0.3); no events -> no internal component
+    expect(breakdown.components).toEqual({ community: 1, source: 0 });
+    expect(breakdown.score).toBe(Math.round(100 * 0.4 / 0.7));
+  });
+});
+
+describe('decayedEventCount', () => {
+  it('halves an event per half-life', () => {
+    const events = [
+      { type: 'view' as const, occurredAt: daysAgo(0) },
+      { type: 'view' as const, occurredAt: daysAgo(EVENT_HALF_LIFE_DAYS) },
+      { type: 'download' as const, occurredAt: daysAgo(0) }
+    ];
+
+    expect(decayedEventCount(events, 'view', now)).toBeCloseTo(1.5);
+    expect(decayedEventCount(events, 'download', now)).toBeCloseTo(1);
+  });
+});
+
+describe('dedupeSessionEvents', () => {
+  it('counts a session once per type and day and drops events without a session', () => {
+    const events: PopularityEvent[] = [
+      { type: 'view', occurredAt: daysAgo(0), sessionId: 'a' },
+      { type: 'view', occurredAt: daysAgo(0), sessionId: 'a' },
+      { type: 'download', occurredAt: daysAgo(0), sessionId: 'a' },
+      { type: 'view', occurredAt: daysAgo(1), sessionId: 'a' },
+      { type: 'view', occurredAt: daysAgo(0), sessionId: 'b' },
+      { type: 'view', occurredAt: daysAgo(0) },
+      { type: 'view', occurredAt: daysAgo(0), sessionId: null }
+    ];
+
+    expect(dedupeSessionEvents(events)).toEqual([events[0], events[2], events[3], events[4]]);
+  });
+
+  it('keeps reloads of one session from inflating the score', () => {
+    const reloads = Array.from({ length: 500 }, () => ({ type: 'view' as const, occurredAt: daysAgo(0), sessionId: 'bot' }));
+
+    expect(computePopularity({ events: reloads }, now).score).toBe(computePopularity({ events: reloads.slice(0, 1) }, now).score);
+  });
+});
+
+describe('interaction sessions', () => {
+  it('takes the client from the first forwarded hop', () => {
+    const req = new Request('https://example.com', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } });
+
+    expect(clientAddress(req)).toBe('203.0.113.7');
+    expect(clientAddress(new Request('https://example.com'))).toBeNull();
+  });
+
+  it('keys an address per day without exposing it', async () => {
+    const today = await interactionSessionKey('203.0.113.7', now);
+
+    expect(today).toMatch(/^[0-9a-f]{64}$/);
+    expect(today).not.toContain('203.0.113.7');
+    expect(await interactionSessionKey('203.0.113.7', new Date(now.getTime() + 60_000))).toBe(today);
+    expect(await interactionSessionKey('203.0.113.7', new Date(daysAgo(-1)))).not.toBe(today);
+    expect(await interactionSessionKey('203.0.113.8', now)).not.toBe(today);
+  });
+});
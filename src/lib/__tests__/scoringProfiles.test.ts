@@ -0,0 +1,148 @@
+/**
+ * Tests for named, versioned scoring profiles
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BUILTIN_SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+  calculateQualityPrior,
+  mergeProfileConfig,
+  qualityPriorInputFromRow,
+  resolveScoringProfile,
+  validateProfileConfig
+} from '../../../supabase/functions/_shared/scoring-profiles';
+import { AgentSchemaMapper } from '../schemas/agentIndex';
+import { createAgentScoring } from '../solutions/agentScoring';
+import { AgentMatcher, CapabilityTag, InMemoryAgentCatalogBackend } from '../solutions/agentMatcher';
+import { InMemoryScoringProfileBackend, ScoringProfileService } from '../services/scoringProfileService';
+import { DynamicSubtask } from '../types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+const builtin = (slug: string) => BUILTIN_SCORING_PROFILES.find(profile => profile.slug === slug)!;
+
+const openAgent = AgentSchemaMapper.fromAgentMinimal({
+  id: 'acme/mail-crew',
+  source: 'manifest',
+  title: 'Mail Crew',
+  summary: 'Sends e-mail campaigns and analyzes replies',
+  link: 'https://github.com/acme/mail-crew',
+  provider: 'OpenAI',
+  tags: ['email', 'license:mit'],
+  lastModified: '2026-09-01'
+}, { health: 'healthy' });
+
+const closedAgent = AgentSchemaMapper.fromAgentMinimal({
+  ...openAgent,
+  id: 'vendor/mail-bot',
+  title: 'Mail Bot',
+  tags: ['email']
+}, { health: 'healthy' });
+
+const TAXONOMY: CapabilityTag[] = [
+  { tag: 'email_send', displayName: 'Email Sending', category: 'communication', isCore: true },
+  { tag: 'data_analysis', displayName: 'Data Analysis', category: 'analysis', isCore: true }
+];
+
+const subtask: DynamicSubtask = {
+  id: 'st-1',
+  title: 'E-Mails versenden und Antworten auswerten',
+  description: '',
+  automationPotential: 0.8,
+  estimatedTime: 4,
+  priority: 'medium',
+  complexity: 'medium',
+  systems: [],
+  dependencies: [],
+  risks: [],
+  opportunities: []
+};
+
+describe('scoring profile configs', () => {
+  it('keeps the default quality prior unchanged', () => {
+    const workflow = { verified: true, isAIGenerated: true, rating: 4.5, downloads: 80 };
+    expect(calculateQualityPrior(workflow)).toBeCloseTo(1.0);
+    expect(calculateQualityPrior({})).toBeCloseTo(0.5);
+    expect(calculateQualityPrior({ verified: true }, DEFAULT_SCORING_PROFILE.workflow)).toBeCloseTo(0.7);
+  });
+
+  it('boosts popular workflows on the 0-100 popularity scale', () => {
+    expect(calculateQualityPrior({ popularity: 80 })).toBeCloseTo(0.6);
+    expect(calculateQualityPrior({ popularity: 40 })).toBeCloseTo(0.5);
+  });
+
+  it('reads snake_case unified_workflows rows', () => {
+    const row = { verified: false, is_ai_generated: true, author_verified: true, rating: null, popularity: 75, license: 'MIT' };
+    const input = qualityPriorInputFromRow(row);
+
+    expect(input).toMatchObject({ isAIGenerated: true, author: { verified: true }, popularity: 75 });
+    expect(input.rating).toBeUndefined();
+    expect(calculateQualityPrior(input)).toBeCloseTo(0.7);
+    expect(calculateQualityPrior(input, builtin('enterprise-safe').workflow)).toBeCloseTo(0.7);
+  });
+
+  it('weights workflows differently per profile', () => {
+    const simple = { complexity: 'Low', license: 'Unknown' };
+    const complex = { complexity: 'High', license: 'MIT' };
+
+    expect(calculateQualityPrior(simple, builtin('quick-wins').workflow))
+      .toBeGreaterThan(calculateQualityPrior(complex, builtin('quick-wins').workflow));
+    expect(calculateQualityPrior(complex, builtin('open-source-only').workflow))
+      .toBeGreaterThan(calculateQualityPrior(simple, builtin('open-source-only').workflow));
+  });
+
+  it('completes partial stored configs and rejects unusable ones', () => {
+    const config = mergeProfileConfig({ agent: { weights: { modelQuality: 'high' }, openSourceOnly: true }, extra: 1 });
+
+    expect(config.agent.openSourceOnly).toBe(true);
+    expect(config.agent.weights.modelQuality).toBe(DEFAULT_SCORING_PROFILE.agent.weights.modelQuality);
+    expect(config).not.toHaveProperty('extra');
+    BUILTIN_SCORING_PROFILES.forEach(profile => expect(validateProfileConfig(profile)).toEqual([]));
+
+    config.agent.weights.capabilityCoverage = 0.9;
+    expect(validateProfileConfig(config)).toEqual([expect.stringContaining('sum to 1')]);
+  });
+
+  it('falls back to the default profile for unknown slugs', () => {
+    expect(resolveScoringProfile('does-not-exist').slug).toBe('default');
+    expect(resolveScoringProfile('quick-wins', [{ ...builtin('quick-wins'), version: 3 }]).version).toBe(3);
+  });
+});
+
+describe('profile-aware agent scoring', () => {
+  it('reports the profile that produced a score', () => {
+    expect(createAgentScoring().calculateAgentScore(openAgent).profile).toEqual({ slug: 'default', version: 1 });
+
+    const enterprise = createAgentScoring(undefined, builtin('enterprise-safe'));
+    expect(enterprise.calculateAgentScore(openAgent).profile).toEqual({ slug: 'enterprise-safe', version: 1 });
+  });
+
+  it('ranks with the profile selected per request, including edited versions', async () => {
+    const profiles = new ScoringProfileService(new InMemoryScoringProfileBackend(BUILTIN_SCORING_PROFILES));
+    const matcher = new AgentMatcher(new InMemoryAgentCatalogBackend(TAXONOMY, [closedAgent, openAgent]), profiles);
+
+    const balanced = await matcher.matchSubtask(subtask, { minScore: 0 });
+    expect(balanced.profile).toEqual({ slug: 'default', version: 1 });
+    expect(balanced.matches).toHaveLength(2);
+
+    const openOnly = await matcher.matchSubtask(subtask, { minScore: 0, profile: 'open-source-only' });
+    expect(openOnly.profile).toEqual({ slug: 'open-source-only', version: 1 });
+    expect(openOnly.matches.map(match => match.agent.id)).toEqual(['acme/mail-crew']);
+
+    const version = await profiles.save({
+      slug: 'default',
+      name: 'Default',
+      config: { ...DEFAULT_SCORING_PROFILE, agent: { ...DEFAULT_SCORING_PROFILE.agent, excludedProviders: ['openai'] } }
+    });
+    const edited = await matcher.matchSubtask(subtask, { minScore: 0 });
+    expect(version).toBe(2);
+    expect(edited.profile).toEqual({ slug: 'default', version: 2 });
+    expect(edited.matches).toEqual([]);
+
+    await profiles.activate('default', 1);
+    expect((await matcher.matchSubtask(subtask, { minScore: 0 })).matches).toHaveLength(2);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the solution comparison matrix and its shareable URL
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSolutionComparison,
+  formatSolutionRefs,
+  parseSolutionRefs,
+  solutionComparisonPath
+} from '../solutions/solutionComparison';
+import { aiAgentsCatalog } from '../solutions/aiAgentsCatalog';
+import { AgentSolution, SolutionRef, WorkflowSolution } from '../../types/solutions';
+
+const NOW = Date.parse('2026-10-19T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const integration = (platform: string, apiKeyRequired = false) => ({
+  platform,
+  type: 'API' as const,
+  description: '',
+  setupComplexity: 'Low' as const,
+  apiKeyRequired
+});
+
+function workflow(id: string, overrides: Partial<WorkflowSolution> = {}): WorkflowSolution {
+  return {
+    id,
+    name: `Workflow ${id}`,
+    description: '',
+    type: 'workflow',
+    category: 'Communication',
+    subcategories: [],
+    difficulty: 'Intermediate',
+    setupTime: 'Medium',
+    deployment: 'Cloud',
+    status: 'Active',
+    tags: [],
+    automationPotential: 70,
+    estimatedROI: '—',
+    timeToValue: '—',
+    implementationPriority: 'Medium',
+    createdAt: new Date(NOW - 400 * DAY_MS),
+    updatedAt: new Date(NOW - 400 * DAY_MS),
+    version: '1.0.0',
+    author: 'Community',
+    pricing: 'Free',
+    requirements: [],
+    useCases: [],
+    integrations: [],
+    metrics: {
+      usageCount: 0,
+      successRate: 0,
+      averageExecutionTime: 0,
+      errorRate: 0,
+      userRating: 4,
+      reviewCount: 0,
+      lastUsed: new Date(NOW),
+      performanceScore: 60
+    },
+    workflow: {} as WorkflowSolution['workflow'],
+    workflowMetadata: {
+      nodeCount: 5,
+      triggerType: 'Webhook',
+      executionTime: '—',
+      complexity: 'Moderate',
+      dependencies: [],
+      estimatedExecutionTime: '—'
+    },
+    ...overrides
+  };
+}
+
+const slackDigest = workflow('slack-digest', {
+  setupTime: 'Quick',
+  difficulty: 'Beginner',
+  license: 'MIT',
+  updatedAt: new Date(NOW - 10 * DAY_MS),
+  credentialsRequired: ['slackApi'],
+  integrations: [integration('Slack'), integration('Gmail'), integration('Notion')]
+});
+
+const crmSync = workflow('crm-sync', {
+  setupTime: 'Long',
+  difficulty: 'Advanced',
+  pricing: 'Paid',
+  integrations: [integration('Salesforce', true), integration('HubSpot', true)],
+  metrics: { ...slackDigest.metrics, performanceScore: 90 }
+});
+
+describe('buildSolutionComparison', () => {
+  it('compares 2-4 solutions only', () => {
+    expect(() => buildSolutionComparison([slackDigest], 'en', NOW)).toThrow('2-4');
+    expect(() => buildSolutionComparison(Array(5).fill(slackDigest), 'en', NOW)).toThrow('2-4');
+  });
+
+  it('marks the best cell per field and summarizes what each solution is best for', () => {
+    const comparison = buildSolutionComparison([slackDigest, crmSync], 'en', NOW);
+    const best = (field: keyof typeof comparison.differences) =>
+      comparison.differences[field].cells.filter(cell => cell.best).map(cell => cell.solutionId);
+
+    expect(comparison.comparisonFields).toHaveLength(8);
+    expect(best('integrations')).toEqual(['slack-digest']);
+    expect(best('setupTime')).toEqual(['slack-digest']);
+    expect(best('score')).toEqual(['crm-sync']);
+    // Only one solution has a known licence, nothing to compare against
+    expect(best('license')).toEqual([]);
+    expect(comparison.differences.credentials.cells.map(cell => cell.value)).toEqual([['slackApi'], ['Salesforce', 'HubSpot']]);
+    expect(comparison.differences.maintenance.cells[0].detail).toEqual({ daysSinceUpdate: 10 });
+
+    expect(comparison.bestFor).toEqual([
+      {
+        solutionId: 'slack-digest',
+        reasons: ['most_integrations', 'quickest_setup', 'lowest_cost', 'best_maintained', 'fewest_credentials']
+      },
+      { solutionId: 'crm-sync', reasons: ['highest_score'] }
+    ]);
+    expect(comparison.recommendations[1]).toBe('Workflow crm-sync: best for highest score');
+  });
+
+  it('does not highlight fields that do not tell the solutions apart', () => {
+    const comparison = buildSolutionComparison([workflow('a'), workflow('b')], 'de', NOW);
+
+    expect(comparison.differences.setupTime.differs).toBe(false);
+    expect(Object.values(comparison.differences).every(row => row.cells.every(cell => !cell.best))).toBe(true);
+    expect(comparison.recommendations).toEqual([]);
+  });
+
+  it('breaks agent scores down by the agent scoring criteria', () => {
+    const agent: AgentSolution = {
+      ...workflow('agent'),
+      type: 'agent',
+      agent: aiAgentsCatalog[0],
+      agentMetadata: {
+        model: 'GPT-4',
+        apiProvider: 'OpenAI',
+        rateLimits: '—',
+        responseTime: '—',
+        accuracy: 0,
+        trainingData: '—',
+        lastTraining: new Date(NOW)
+      }
+    } as AgentSolution;
+
+    const score = buildSolutionComparison([slackDigest, agent], 'en', NOW).differences.score.cells[1];
+    expect(score.value).toBeGreaterThan(0);
+    expect(Object.keys(score.detail || {})).toEqual(expect.arrayContaining(['modelQuality', 'providerReliability']));
+  });
+});
+
+describe('comparison URL', () => {
+  it('round-trips the selection through ?items=', () => {
+    const refs: SolutionRef[] = [
+      { type: 'workflow', id: '42' },
+      { type: 'agent', id: 'acme/mail:crew,v2' }
+    ];
+    const path = solutionComparisonPath(refs, 'en');
+
+    expect(path.startsWith('/compare-solutions?')).toBe(true);
+    const params = new URLSearchParams(path.split('?')[1]);
+    expect(params.get('lang')).toBe('en');
+    expect(parseSolutionRefs(params.get('items'))).toEqual(refs);
+  });
+
+  it('drops duplicates, malformed entries and everything past four solutions', () => {
+    const items = ['workflow:1', 'workflow:1', 'tool:2', 'agent:', 'agent:%E0', 'workflow:3', 'agent:4', 'agent:5', 'workflow:6'].join(',');
+
+    expect(formatSolutionRefs(parseSolutionRefs(items))).toBe('workflow:1,workflow:3,agent:4,agent:5');
+    expect(parseSolutionRefs(null)).toEqual([]);
+  });
+});
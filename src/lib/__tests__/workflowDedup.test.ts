@@ -0,0 +1,160 @@
+/**
+ * Tests for near-duplicate workflow detection and clustering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clusterDuplicates,
+  comparePair,
+  DedupCandidate,
+  graphFingerprint,
+  normalizeTitle,
+  pickCanonical,
+  titleSimilarity
+} from '../../../supabase/functions/_shared/workflow-dedup';
+import { N8nWorkflowLike } from '../../../supabase/functions/_shared/n8n-workflow-metadata';
+
+const slackToSheets = {
+  nodes: [
+    { name: 'Webhook', type: 'n8n-nodes-base.webhook' },
+    { name: 'Format', type: 'n8n-nodes-base.set' },
+    { name: 'Sheets', type: 'n8n-nodes-base.googleSheets' },
+    { name: 'Notify', type: 'n8n-nodes-base.slack' },
+    { name: 'Note', type: 'n8n-nodes-base.stickyNote' }
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Format' }]] },
+    Format: { main: [[{ node: 'Sheets' }]] },
+    Sheets: { main: [[{ node: 'Notify' }]] }
+  }
+};
+
+// Same graph, different node names and layout
+const slackToSheetsCopy = {
+  nodes: [
+    { name: 'Incoming', type: 'n8n-nodes-base.webhook' },
+    { name: 'Map fields', type: 'n8n-nodes-base.set' },
+    { name: 'Append row', type: 'n8n-nodes-base.googleSheets' },
+    { name: 'Post message', type: 'n8n-nodes-base.slack' }
+  ],
+  connections: {
+    Incoming: { main: [[{ node: 'Map fields' }]] },
+    'Map fields': { main: [[{ node: 'Append row' }]] },
+    'Append row': { main: [[{ node: 'Post message' }]] }
+  }
+};
+
+const candidate = (id: string, source: string, title: string, workflow: N8nWorkflowLike, extra: Partial<DedupCandidate> = {}): DedupCandidate => ({
+  id,
+  title,
+  source,
+  sourceUrl: `https://example.com/${id}`,
+  fingerprint: graphFingerprint(workflow),
+  ...extra
+});
+
+describe('graphFingerprint', () => {
+  it('ignores node names and sticky notes', () => {
+    const a = graphFingerprint(slackToSheets);
+    const b = graphFingerprint(slackToSheetsCopy);
+
+    expect(a.nodes).toEqual(['googleSheets', 'set', 'slack', 'webhook']);
+    expect(a.edges).toContain('set>googleSheets');
+    expect(a.hash).toBe(b.hash);
+  });
+
+  it('has no edges when the source lists nodes only', () => {
+    expect(graphFingerprint({ nodes: slackToSheets.nodes }).edges).toBeNull();
+  });
+});
+
+describe('similarity', () => {
+  it('normalizes numbering and filler words in titles', () => {
+    expect(normalizeTitle('0042_Slack_to_Google_Sheets_Workflow.json')).toBe('slack google sheets');
+    expect(titleSimilarity('Webhook to Google Sheets and Slack', 'webhook → google sheets + slack')).toBe(1);
+    expect(titleSimilarity('Send Slack alerts', 'Backup Postgres to S3')).toBeLessThan(0.3);
+  });
+
+  it('compares node types when one side has no connections', () => {
+    const pair = comparePair(
+      candidate('a', 'github', 'Log webhooks to Sheets and Slack', slackToSheets),
+      candidate('b', 'n8n.io', 'Log webhooks to Sheets and Slack', { nodes: slackToSheetsCopy.nodes })
+    );
+    expect(pair.graphSimilarity).toBe(1);
+    expect(pair.score).toBeCloseTo(1);
+  });
+});
+
+describe('clusterDuplicates', () => {
+  const github = candidate('github-slack-sheets', 'github', '0042_Webhook_Google_Sheets_Slack.json', slackToSheets);
+  const n8n = candidate('n8n-io-42', 'n8n.io', 'Webhook to Google Sheets and Slack', { nodes: slackToSheetsCopy.nodes }, { popularity: 10 });
+  const awesome = candidate('awesome-slack-sheets', 'awesome-n8n-templates', 'Webhook Google Sheets Slack', slackToSheetsCopy);
+  const similar = candidate('github-slack-sheets-email', 'github', 'Webhook to Google Sheets, Slack and Email', {
+    nodes: [...slackToSheets.nodes, { name: 'Mail', type: 'n8n-nodes-base.emailSend' }, { name: 'Wait', type: 'n8n-nodes-base.wait' }],
+    connections: { ...slackToSheets.connections, Notify: { main: [[{ node: 'Wait' }]] }, Wait: { main: [[{ node: 'Mail' }]] } }
+  });
+  const unrelated = candidate('github-postgres-backup', 'github', 'Backup Postgres to S3', {
+    nodes: [
+      { name: 'Cron', type: 'n8n-nodes-base.scheduleTrigger' },
+      { name: 'Query', type: 'n8n-nodes-base.postgres' },
+      { name: 'Upload', type: 'n8n-nodes-base.awsS3' }
+    ],
+    connections: { Cron: { main: [[{ node: 'Query' }]] }, Query: { main: [[{ node: 'Upload' }]] } }
+  });
+
+  it('merges the same template across sources and keeps the others as aliases', () => {
+    const { clusters } = clusterDuplicates([github, n8n, awesome, unrelated]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].canonicalId).toBe('n8n-io-42');
+    expect(clusters[0].memberIds).toEqual(['awesome-slack-sheets', 'github-slack-sheets', 'n8n-io-42']);
+    expect(clusters[0].aliases.map(alias => alias.url)).toEqual([
+      'https://example.com/github-slack-sheets',
+      'https://example.com/awesome-slack-sheets'
+    ]);
+  });
+
+  it('queues uncertain pairs for review instead of merging them', () => {
+    const { clusters, reviews } = clusterDuplicates([github, similar]);
+
+    expect(clusters).toEqual([]);
+    expect(reviews).toHaveLength(1);
+    expect(reviews[0]).toMatchObject({ leftId: 'github-slack-sheets', rightId: 'github-slack-sheets-email' });
+  });
+
+  it('applies admin decisions', () => {
+    const merged = clusterDuplicates([github, similar], [
+      { leftId: 'github-slack-sheets', rightId: 'github-slack-sheets-email', decision: 'merged' }
+    ]);
+    expect(merged.clusters).toHaveLength(1);
+    expect(merged.reviews).toEqual([]);
+
+    const separate = clusterDuplicates([github, n8n], [
+      { leftId: 'github-slack-sheets', rightId: 'n8n-io-42', decision: 'separate' }
+    ]);
+    expect(separate.clusters).toEqual([]);
+    expect(separate.reviews).toEqual([]);
+  });
+
+  it('does not join pairs marked separate through a third workflow', () => {
+    const { clusters, reviews } = clusterDuplicates([github, n8n, awesome], [
+      { leftId: 'github-slack-sheets', rightId: 'n8n-io-42', decision: 'separate' }
+    ]);
+
+    clusters.forEach(cluster => {
+      expect(cluster.memberIds.includes('github-slack-sheets') && cluster.memberIds.includes('n8n-io-42')).toBe(false);
+    });
+    expect(reviews.length).toBeGreaterThan(0);
+  });
+});
+
+describe('pickCanonical', () => {
+  it('prefers source priority, then graph data, then popularity', () => {
+    const a = candidate('a', 'github', 't', { nodes: slackToSheets.nodes }, { popularity: 90 });
+    const b = candidate('b', 'github', 't', slackToSheets, { popularity: 10 });
+    const c = candidate('c', 'n8n.io', 't', { nodes: slackToSheets.nodes }, { popularity: 0 });
+
+    expect(pickCanonical([a, b]).id).toBe('b');
+    expect(pickCanonical([a, b, c]).id).toBe('c');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the workflow graph layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GRAPH_NODE_HEIGHT, GRAPH_PADDING, layoutWorkflowGraph, WorkflowGraphLayout } from '../workflowGraphLayout';
+
+const to = (...nodes: string[]) => nodes.map(node => ({ node, type: 'main', index: 0 }));
+
+const cells = (layout: WorkflowGraphLayout) =>
+  Object.fromEntries(layout.nodes.map(node => [node.name, [node.layer, node.row]]));
+
+describe('layoutWorkflowGraph', () => {
+  it('places nodes in columns along the main flow and keeps branches apart', () => {
+    const layout = layoutWorkflowGraph({
+      nodes: [
+        { name: 'Webhook', type: 'n8n-nodes-base.webhook' },
+        { name: 'Check', type: 'n8n-nodes-base.if' },
+        { name: 'Sheets', type: 'n8n-nodes-base.googleSheets' },
+        { name: 'Slack', type: 'n8n-nodes-base.slack' },
+        { name: 'Done', type: 'n8n-nodes-base.noOp' },
+        { name: 'Note', type: 'n8n-nodes-base.stickyNote' }
+      ],
+      connections: {
+        Webhook: { main: [to('Check')] },
+        // The false branch (Sheets) comes first in the nodes array but belongs below
+        Check: { main: [to('Slack'), to('Sheets')] },
+        Slack: { main: [to('Done')] },
+        Sheets: { main: [to('Done')] }
+      }
+    });
+
+    expect(cells(layout)).toEqual({
+      Webhook: [0, 0],
+      Check: [1, 0],
+      Slack: [2, 0],
+      Sheets: [2, 1],
+      Done: [3, 0]
+    });
+    expect(layout.edges).toHaveLength(5);
+    expect(layout.nodes.find(node => node.name === 'Webhook')).toMatchObject({ isTrigger: true, integration: 'Webhook' });
+    expect(layout.nodes.find(node => node.name === 'Check')?.integration).toBeNull();
+    expect(layout.nodes.find(node => node.name === 'Sheets')?.integration).toBe('Google Sheets');
+    // Single nodes are centred next to the two-node column
+    expect(layout.nodes[0].y).toBeGreaterThan(GRAPH_PADDING);
+    expect(layout.height).toBe(2 * GRAPH_NODE_HEIGHT + 28 + 2 * GRAPH_PADDING);
+  });
+
+  it('puts AI sub-nodes into the column of their agent', () => {
+    const layout = layoutWorkflowGraph({
+      nodes: [
+        { name: 'Chat', type: '@n8n/n8n-nodes-langchain.chatTrigger' },
+        { name: 'Agent', type: '@n8n/n8n-nodes-langchain.agent' },
+        { name: 'Model', type: '@n8n/n8n-nodes-langchain.lmChatOpenAi' },
+        { name: 'Search', type: '@n8n/n8n-nodes-langchain.toolHttpRequest' },
+        { name: 'Reply', type: 'n8n-nodes-base.slack' }
+      ],
+      connections: {
+        Chat: { main: [to('Agent')] },
+        Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] },
+        Search: { ai_tool: [[{ node: 'Agent', type: 'ai_tool', index: 0 }]] },
+        Agent: { main: [to('Reply')] }
+      }
+    });
+
+    expect(cells(layout)).toMatchObject({ Agent: [1, 0], Model: [1, 1], Search: [1, 2], Reply: [2, 0] });
+    expect(layout.nodes.filter(node => node.isSubNode).map(node => node.name)).toEqual(['Model', 'Search']);
+    expect(layout.edges.map(edge => edge.kind)).toEqual(['main', 'ai_languageModel', 'ai_tool', 'main']);
+  });
+
+  it('survives loops and dangling connections', () => {
+    const layout = layoutWorkflowGraph({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger' },
+        { name: 'Batch', type: 'n8n-nodes-base.splitInBatches' },
+        { name: 'Call', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://example.com' } }
+      ],
+      connections: {
+        Start: { main: [to('Batch')] },
+        Batch: { main: [to('Call')] },
+        Call: { main: [to('Batch', 'Deleted node')] }
+      }
+    });
+
+    expect(cells(layout)).toEqual({ Start: [0, 0], Batch: [1, 0], Call: [2, 0] });
+    expect(layout.edges.map(edge => `${edge.from}->${edge.to}`)).toEqual(['Start->Batch', 'Batch->Call', 'Call->Batch']);
+  });
+
+  it('redacts hardcoded secrets in the parameters', () => {
+    const layout = layoutWorkflowGraph({
+      nodes: [{
+        name: 'Call',
+        type: 'n8n-nodes-base.httpRequest',
+        parameters: { url: 'https://api.example.com', apiKey: 'sk-live-123', token: '={{ $env.TOKEN }}' },
+        credentials: { httpHeaderAuth: { id: '1', name: 'Prod' } }
+      }],
+      connections: {}
+    });
+
+    expect(layout.nodes[0].parameters).toEqual({ url: 'https://api.example.com', apiKey: '', token: '={{ $env.TOKEN }}' });
+    expect(layout.redactedSecrets).toEqual([{ node: 'Call', parameter: 'apiKey' }]);
+  });
+
+  it('unwraps template documents and returns an empty graph without nodes', () => {
+    const template = { workflow: { workflow: { nodes: [{ name: 'Hook', type: 'n8n-nodes-base.webhook' }], connections: {} } } };
+
+    expect(layoutWorkflowGraph(template).nodes.map(node => node.name)).toEqual(['Hook']);
+    expect(layoutWorkflowGraph(null).nodes).toEqual([]);
+    expect(layoutWorkflowGraph({ name: 'Broken' }).width).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the generate → validate → repair loop of AI-generated workflows
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildRepairPrompt,
+  generateWithRepair,
+  parseWorkflowResponse
+} from '../../../supabase/functions/_shared/workflow-repair';
+
+const validWorkflow = {
+  name: 'Lead intake',
+  nodes: [
+    { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'leads' } },
+    { name: 'Notify', type: 'n8n-nodes-base.slack', parameters: {} }
+  ],
+  connections: { Webhook: { main: [[{ node: 'Notify', type: 'main', index: 0 }]] } }
+};
+
+// Connections keyed by node id instead of name: a typical model mistake
+const danglingWorkflow = {
+  ...validWorkflow,
+  connections: { 'webhook-1': { main: [[{ node: 'notify-1', type: 'main', index: 0 }]] } }
+};
+
+// Structurally fine, but with a hardcoded key (an error only in strict mode)
+const leakyWorkflow = {
+  ...validWorkflow,
+  nodes: [validWorkflow.nodes[0], { name: 'Notify', type: 'n8n-nodes-base.slack', parameters: { token: 'xoxb-123' } }]
+};
+
+const answer = (workflow: unknown) => JSON.stringify(workflow);
+
+describe('parseWorkflowResponse', () => {
+  it('accepts fenced JSON and rejects documents without nodes', () => {
+    expect(parseWorkflowResponse('```json\n' + answer(validWorkflow) + '\n```')).toMatchObject({ name: 'Lead intake' });
+    expect(() => parseWorkflowResponse('{"name": "x"}')).toThrow('no nodes array');
+    expect(() => parseWorkflowResponse('Here is your workflow')).toThrow();
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists the errors to fix', () => {
+    const prompt = buildRepairPrompt([{ code: 'missing_trigger', severity: 'error', message: 'Workflow has no trigger node' }], 'en');
+    expect(prompt).toContain('- [missing_trigger] Workflow has no trigger node');
+  });
+});
+
+describe('generateWithRepair', () => {
+  it('returns a valid first answer without repairing', async () => {
+    const repair = vi.fn();
+    const result = await generateWithRepair(async () => answer(validWorkflow), repair);
+
+    expect(result.status).toBe('generated');
+    expect(result.workflow).toEqual(validWorkflow);
+    expect(result.attempts).toEqual([expect.objectContaining({ round: 0, kind: 'generate', outcome: 'valid' })]);
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  it('sends the errors back and records every attempt', async () => {
+    const repair = vi.fn()
+      .mockResolvedValueOnce('not json')
+      .mockResolvedValueOnce(answer(validWorkflow));
+    const result = await generateWithRepair(async () => answer(danglingWorkflow), repair, { maxRepairRounds: 3 });
+
+    expect(result.status).toBe('generated');
+    expect(result.workflow).toEqual(validWorkflow);
+    expect(result.attempts.map(attempt => attempt.outcome)).toEqual(['invalid', 'unparseable', 'valid']);
+    expect(repair.mock.calls[0][0]).toBe(answer(danglingWorkflow));
+    expect(repair.mock.calls[0][1].map((error: { code: string }) => error.code)).toContain('dangling_connection');
+    expect(repair.mock.calls[1][1]).toEqual([expect.objectContaining({ code: 'invalid_structure' })]);
+  });
+
+  it('falls back when no answer is structurally valid', async () => {
+    const result = await generateWithRepair(async () => answer(danglingWorkflow), async () => answer(danglingWorkflow), { maxRepairRounds: 2 });
+
+    expect(result.status).toBe('fallback');
+    expect(result.workflow).toBeNull();
+    expect(result.attempts).toHaveLength(3);
+  });
+
+  it('keeps the best structurally valid answer when repairs run out', async () => {
+    const result = await generateWithRepair(async () => answer(leakyWorkflow), async () => answer(danglingWorkflow), { maxRepairRounds: 1 });
+
+    expect(result.status).toBe('generated');
+    expect(result.workflow).toEqual(leakyWorkflow);
+    expect(result.diagnostics).toEqual([expect.objectContaining({ code: 'hardcoded_secret' })]);
+    expect(result.attempts.map(attempt => attempt.structurallyValid)).toEqual([true, false]);
+  });
+
+  it('stops when the model cannot be reached', async () => {
+    const repair = vi.fn();
+    const result = await generateWithRepair(async () => { throw new Error('OpenAI API error: 500'); }, repair);
+
+    expect(result.status).toBe('fallback');
+    expect(result.attempts).toEqual([expect.objectContaining({ outcome: 'failed', error: 'OpenAI API error: 500' })]);
+    expect(repair).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { compareAnalyses, taskSimilarity } from '../analysisComparison';
+import type { AnalysisResult } from '../roiAggregator';
+import type { Task } from '../taskClassifier';
+
+const task = (text: string, score: number, category?: string): Task => ({
+  text,
+  score,
+  label: score >= 70 ? 'Automatisierbar' : score >= 30 ? 'Teilweise Automatisierbar' : 'Mensch',
+  category
+});
+
+const analysis = (tasks: Task[], totalScore: number): AnalysisResult => ({
+  totalScore,
+  ratio: { automatisierbar: totalScore, mensch: 100 - totalScore },
+  tasks,
+  summary: '',
+  recommendations: []
+});
+
+describe('analysisComparison', () => {
+  describe('taskSimilarity', () => {
+    it('should match rephrased tasks across word forms', () => {
+      const similar = taskSimilarity(task('Monatsberichte erstellen', 80), task('Erstellung von Monatsberichten', 75));
+      const unrelated = taskSimilarity(task('Monatsberichte erstellen', 80), task('Kunden am Telefon beraten', 20));
+
+      expect(similar).toBeGreaterThan(0.5);
+      expect(unrelated).toBeLessThan(0.2);
+    });
+  });
+
+  describe('compareAnalyses', () => {
+    it('should align tasks, report score deltas and unmatched tasks', () => {
+      // Arrange: before vs. after re-write of the same posting
+      const before = analysis([
+        task('Monatsberichte erstellen', 80, 'analytical'),
+        task('Rechnungen prüfen und buchen', 70, 'administrative'),
+        task('Lieferanten verhandeln', 20, 'communication')
+      ], 57);
+      const after = analysis([
+        task('Prüfung und Buchung von Rechnungen', 85, 'administrative'),
+        task('Erstellung von Monatsberichten', 90, 'analytical'),
+        task('Budgetplanung mit Fachabteilungen', 40, 'analytical')
+      ], 72);
+
+      // Act
+      const comparison = compareAnalyses(before, after);
+
+      // Assert
+      expect(comparison.pairs.map(pair => [pair.leftIndex, pair.rightIndex, pair.scoreDelta])).toEqual([
+        [0, 1, 10],
+        [1, 0, 15]
+      ]);
+      expect(comparison.onlyInLeft.map(entry => entry.task.text)).toEqual(['Lieferanten verhandeln']);
+      expect(comparison.onlyInRight.map(entry => entry.task.text)).toEqual(['Budgetplanung mit Fachabteilungen']);
+      expect(comparison.totalScoreDelta).toBe(15);
+      expect(comparison.ratioDelta).toEqual({ automatisierbar: 15, mensch: -15 });
+      expect(comparison.overlap).toBeCloseTo(4 / 6, 2);
+    });
+
+    it('should use each task only once and accept a custom similarity', () => {
+      const left = analysis([task('A', 50), task('B', 50)], 50);
+      const right = analysis([task('C', 60)], 60);
+
+      const comparison = compareAnalyses(left, right, { similarity: (a) => (a.text === 'B' ? 0.9 : 0.8) });
+
+      expect(comparison.pairs).toHaveLength(1);
+      expect(comparison.pairs[0]).toMatchObject({ leftIndex: 1, rightIndex: 0, scoreDelta: 10 });
+      expect(comparison.onlyInLeft.map(entry => entry.index)).toEqual([0]);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { AnalysisPipeline } from '../analysisPipeline';
 import { mockOpenAIClient, mockIsOpenAIAvailable } from './mocks/openaiClient';
+import { AnalysisPipeline } from '../analysisPipeline';
 
 describe('AnalysisPipeline', () => {
   let pipeline: AnalysisPipeline;
@@ -68,7 +68,7 @@ describe('AnalysisPipeline', () => {
       expect(result.tasks[0].subtasks).toHaveLength(1);
       expect(result.tasks[0].businessCase).toBeDefined();
       expect(result.summary).toContain('75% Automatisierungspotenzial');
-      expect(result.recommendations).toContain('Hohes Automatisierungspotenzial');
+      expect(result.recommendations).toContainEqual(expect.stringContaining('Hohes Automatisierungspotenzial'));
       expect(result.originalText).toBe(jobText);
     });
 
@@ -114,14 +114,18 @@ describe('AnalysisPipeline', () => {
       expect(result.ratio.mensch).toBe(40);
     });
 
-    it('should handle OpenAI API unavailable', async () => {
+    it('should fall back to a low-confidence offline analysis when OpenAI API is unavailable', async () => {
       // Arrange
-      const jobText = 'Software Engineer';
+      const jobText = 'Software Engineer\n- Write unit tests for new features\n- Review pull requests';
       mockIsOpenAIAvailable.mockReturnValue(false);
 
-      // Act & Assert
-      await expect(pipeline.runAnalysis(jobText, 'en'))
-        .rejects.toThrow('OpenAI API nicht konfiguriert. Bitte API-Key in .env hinterlegen.');
+      // Act
+      const result = await pipeline.runAnalysis(jobText, 'en');
+
+      // Assert
+      expect(result.tasks.length).toBeGreaterThan(0);
+      expect(result.analysisMode).toBe('offline');
+      expect(result.lowConfidence).toBe(true);
     });
 
     it('should handle API errors with clear error message', async () => {
@@ -131,7 +135,7 @@ describe('AnalysisPipeline', () => {
       mockOpenAIClient.analyzeJobDescription.mockRejectedValue(new Error('Network error'));
 
       // Act & Assert
-      await expect(pipeline.runAnalysis(jobText, 'en'))
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 0 }).runAnalysis(jobText, 'en'))
         .rejects.toThrow('AI-Analyse fehlgeschlagen: Network error');
     });
 
@@ -142,7 +146,7 @@ describe('AnalysisPipeline', () => {
       mockOpenAIClient.analyzeJobDescription.mockRejectedValue('String error');
 
       // Act & Assert
-      await expect(pipeline.runAnalysis(jobText, 'en'))
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 0 }).runAnalysis(jobText, 'en'))
         .rejects.toThrow('AI-Analyse fehlgeschlagen: Unbekannter Fehler');
     });
 
@@ -168,7 +172,7 @@ describe('AnalysisPipeline', () => {
       await pipeline.runAnalysis(jobText); // No lang parameter
 
       // Assert
-      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'de');
+      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'de', expect.any(AbortSignal));
     });
 
     it('should convert FastAnalysisResult to Task format correctly', async () => {
@@ -237,4 +241,54 @@ describe('AnalysisPipeline', () => {
       expect(result.tasks[0].businessCase).toBeDefined();
     });
   });
+
+  describe('config', () => {
+    const jobText = 'Software Engineer with React and TypeScript experience';
+
+    beforeEach(() => {
+      mockIsOpenAIAvailable.mockReturnValue(true);
+    });
+
+    it('skips the LLM when useAI is false', async () => {
+      const result = await new AnalysisPipeline({ useAI: false }).runAnalysis(jobText, 'en');
+
+      expect(mockOpenAIClient.analyzeJobDescription).not.toHaveBeenCalled();
+      expect(result.analysisMode).toBe('offline');
+      expect(result.lowConfidence).toBe(true);
+    });
+
+    it('falls back to the offline analysis only when fallbackEnabled is set', async () => {
+      mockOpenAIClient.analyzeJobDescription.mockRejectedValue(new Error('invalid api key'));
+
+      const result = await new AnalysisPipeline({ fallbackEnabled: true, maxRetries: 0 }).runAnalysis(jobText, 'en');
+      expect(result.analysisMode).toBe('offline');
+
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 0 }).runAnalysis(jobText, 'en'))
+        .rejects.toThrow('invalid api key');
+    });
+
+    it('retries transient errors up to maxRetries times', async () => {
+      mockOpenAIClient.analyzeJobDescription.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 0 }).runAnalysis(jobText, 'en')).rejects.toThrow();
+      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledTimes(1);
+
+      mockOpenAIClient.analyzeJobDescription.mockClear();
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 1 }).runAnalysis(jobText, 'en')).rejects.toThrow();
+      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledTimes(2);
+    });
+
+    it('aborts the request of a timed-out attempt', async () => {
+      const signals: AbortSignal[] = [];
+      mockOpenAIClient.analyzeJobDescription.mockImplementation((_text: string, _lang: string, signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise(() => {});
+      });
+
+      await expect(new AnalysisPipeline({ fallbackEnabled: false, maxRetries: 0, timeoutMs: 20 }).runAnalysis(jobText, 'en'))
+        .rejects.toMatchObject({ code: 'TIMEOUT' });
+      expect(signals).toHaveLength(1);
+      expect(signals[0].aborted).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { runAnalysis, cache } = vi.hoisted(() => ({
+  runAnalysis: vi.fn(),
+  cache: new Map<string, unknown>()
+}));
+
+vi.mock('../analysisPipeline', () => ({
+  AnalysisPipeline: vi.fn().mockImplementation(() => ({ runAnalysis }))
+}));
+
+vi.mock('../../services/analysisCacheService', () => ({
+  analysisCacheService: {
+    get: vi.fn(async (key: string, type: string) => cache.get(`${type}:${key}`) ?? null),
+    set: vi.fn(async (key: string, type: string, data: unknown) => { cache.set(`${type}:${key}`, data); })
+  }
+}));
+
+vi.mock('../../extractJobText', () => ({
+  extractJobTextFromUrl: vi.fn(async (url: string) => ({ composeJobText: () => `Posting from ${url}` }))
+}));
+
+import { BatchAnalyzer } from '../batchAnalysis';
+import type { BatchRole } from '../batchImport';
+
+const role = (id: string, overrides: Partial<BatchRole> = {}): BatchRole => ({
+  id,
+  row: 1,
+  title: id,
+  text: `Tasks of ${id}`,
+  headcount: 1,
+  ...overrides
+});
+
+const analysisResult = (score: number) => ({
+  totalScore: score,
+  ratio: { automatisierbar: score, mensch: 100 - score },
+  tasks: [],
+  summary: '',
+  recommendations: []
+});
+
+describe('BatchAnalyzer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cache.clear();
+  });
+
+  it('should never run more rows than the concurrency limit at once', async () => {
+    // Arrange
+    let active = 0;
+    let maxActive = 0;
+    runAnalysis.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return analysisResult(50);
+    });
+    const analyzer = new BatchAnalyzer(['a', 'b', 'c', 'd', 'e'].map(id => role(id)), { concurrency: 2 });
+
+    // Act
+    const rows = await analyzer.run();
+
+    // Assert
+    expect(rows.every(row => row.status === 'done')).toBe(true);
+    expect(runAnalysis).toHaveBeenCalledTimes(5);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should resolve URLs and reuse cached analyses', async () => {
+    runAnalysis.mockResolvedValue(analysisResult(70));
+    const roles = [role('a', { text: undefined, url: 'https://example.com/job' })];
+
+    await new BatchAnalyzer(roles).run();
+    const rows = await new BatchAnalyzer(roles).run();
+
+    expect(runAnalysis).toHaveBeenCalledTimes(1);
+    expect(runAnalysis).toHaveBeenCalledWith('Posting from https://example.com/job', 'de');
+    expect(rows[0]).toMatchObject({ status: 'done', fromCache: true });
+  });
+
+  it('should not cache low-confidence offline results', async () => {
+    runAnalysis.mockResolvedValue({ ...analysisResult(40), analysisMode: 'offline', lowConfidence: true });
+    const roles = [role('a')];
+
+    await new BatchAnalyzer(roles).run();
+    const rows = await new BatchAnalyzer(roles).run();
+
+    expect(runAnalysis).toHaveBeenCalledTimes(2);
+    expect(rows[0]).toMatchObject({ status: 'done', fromCache: false });
+  });
+
+  it('should retry only failed rows and report updates', async () => {
+    // Arrange
+    runAnalysis.mockImplementation(async (jobText: string) => {
+      if (jobText.includes('flaky')) throw new Error('Service unavailable');
+      return analysisResult(60);
+    });
+    const updates: string[] = [];
+    const analyzer = new BatchAnalyzer([role('stable'), role('flaky')], {
+      onRowUpdate: row => updates.push(`${row.role.id}:${row.status}`)
+    });
+
+    // Act
+    const firstRun = await analyzer.run();
+    runAnalysis.mockResolvedValue(analysisResult(40));
+    const retried = await analyzer.retry();
+
+    // Assert
+    expect(firstRun.find(row => row.role.id === 'flaky')).toMatchObject({ status: 'failed', error: 'Service unavailable' });
+    expect(retried.every(row => row.status === 'done')).toBe(true);
+    expect(runAnalysis).toHaveBeenCalledTimes(3);
+    expect(updates.filter(update => update.startsWith('stable'))).toEqual(['stable:running', 'stable:done']);
+    expect(analyzer.getReport().weightedScore).toBe(50);
+  });
+});
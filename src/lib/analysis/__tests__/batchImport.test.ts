@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseBatchFile } from '../batchImport';
+
+describe('batchImport', () => {
+  describe('CSV', () => {
+    it('should parse roles with quoted multi-line text', () => {
+      // Arrange
+      const csv = [
+        'title,url,text,headcount,hourly rate',
+        'Accountant,,"Book invoices, reconcile accounts\nPrepare ""monthly"" reports",3,55',
+        'Developer,https://example.com/jobs/42,,2,'
+      ].join('\n');
+
+      // Act
+      const { roles, errors } = parseBatchFile(csv, 'roles.csv');
+
+      // Assert
+      expect(errors).toEqual([]);
+      expect(roles).toHaveLength(2);
+      expect(roles[0]).toMatchObject({
+        id: 'role-2',
+        title: 'Accountant',
+        text: 'Book invoices, reconcile accounts\nPrepare "monthly" reports',
+        headcount: 3,
+        hourlyRate: 55
+      });
+      expect(roles[1]).toMatchObject({ url: 'https://example.com/jobs/42', headcount: 2, hourlyRate: undefined });
+    });
+
+    it('should accept semicolons, German headers and decimal commas', () => {
+      const csv = 'Titel;Stellenbeschreibung;Anzahl;Stundensatz\r\nBuchhalter;Rechnungen prüfen;2;47,50\r\n';
+
+      const { roles, errors } = parseBatchFile(csv);
+
+      expect(errors).toEqual([]);
+      expect(roles[0]).toMatchObject({ title: 'Buchhalter', text: 'Rechnungen prüfen', headcount: 2, hourlyRate: 47.5 });
+    });
+
+    it('should report invalid rows with their row number', () => {
+      const csv = 'title,url,text,headcount\nEmpty,,,1\nBad link,ftp://example.com,,1\nZero,,Some text,0\nOk,,Some text,';
+
+      const { roles, errors } = parseBatchFile(csv, 'roles.csv');
+
+      expect(roles.map(role => role.title)).toEqual(['Ok']);
+      expect(roles[0].headcount).toBe(1);
+      expect(errors.map(error => error.row)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe('JSON', () => {
+    it('should parse an array or a roles object', () => {
+      const roles = [{ title: 'Support Agent', description: 'Answer tickets', headcount: 5, hourlyRate: 35 }];
+
+      const fromArray = parseBatchFile(JSON.stringify(roles), 'roles.json');
+      const fromObject = parseBatchFile(JSON.stringify({ roles }));
+
+      expect(fromArray.roles[0]).toMatchObject({ id: 'role-1', title: 'Support Agent', text: 'Answer tickets', headcount: 5, hourlyRate: 35 });
+      expect(fromObject.roles).toEqual(fromArray.roles);
+    });
+
+    it('should report malformed JSON', () => {
+      const { roles, errors } = parseBatchFile('[{"title": ', 'roles.json');
+
+      expect(roles).toEqual([]);
+      expect(errors[0].message).toMatch(/Invalid JSON/);
+    });
+  });
+});
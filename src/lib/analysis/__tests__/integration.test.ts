@@ -198,7 +198,7 @@ describe('Analysis Integration Tests', () => {
       // Assert
       expect(result.tasks[0].text).toBe('Entwickle React Anwendungen');
       expect(result.tasks[0].category).toBe('Software-Entwicklung');
-      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'de');
+      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'de', expect.any(AbortSignal));
     });
 
     it('should handle API errors gracefully', async () => {
@@ -207,19 +207,24 @@ describe('Analysis Integration Tests', () => {
       mockIsOpenAIAvailable.mockReturnValue(true);
       mockOpenAIClient.analyzeJobDescription.mockRejectedValue(new Error('API rate limit exceeded'));
 
-      // Act & Assert
-      await expect(runAnalysis(jobText, 'en'))
-        .rejects.toThrow('AI-Analyse fehlgeschlagen: API rate limit exceeded');
+      // Act
+      const result = await runAnalysis(jobText, 'en');
+
+      // Assert
+      expect(result.analysisMode).toBe('offline');
     });
 
-    it('should provide helpful error messages for common issues', async () => {
+    it('should run offline when OpenAI is not configured', async () => {
       // Arrange
       const jobText = 'Software Engineer';
       mockIsOpenAIAvailable.mockReturnValue(false);
 
-      // Act & Assert
-      await expect(runAnalysis(jobText, 'en'))
-        .rejects.toThrow('OpenAI API nicht konfiguriert. Bitte API-Key in .env hinterlegen.');
+      // Act
+      const result = await runAnalysis(jobText, 'en');
+
+      // Assert
+      expect(result.analysisMode).toBe('offline');
+      expect(result.lowConfidence).toBe(true);
     });
   });
 });
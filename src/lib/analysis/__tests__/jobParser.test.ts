@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { JobParser } from '../jobParser';
 import { mockOpenAIClient, mockIsOpenAIAvailable } from './mocks/openaiClient';
+import { JobParser } from '../jobParser';
+import { AnalysisPipelineError } from '../errors';
 
 describe('JobParser', () => {
   let jobParser: JobParser;
@@ -65,33 +66,41 @@ describe('JobParser', () => {
       expect(result[0].automationPotential).toBe(75);
       expect(result[0].subtasks).toHaveLength(1);
       expect(result[0].businessCase).toBeDefined();
-      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'en');
+      expect(mockOpenAIClient.analyzeJobDescription).toHaveBeenCalledWith(jobText, 'en', undefined);
     });
 
-    it('should handle empty task response', async () => {
+    it('should surface schema validation errors instead of falling back', async () => {
       // Arrange
       const jobText = 'Invalid job description';
-      const mockResponse = { tasks: [] };
+      const validationError = new AnalysisPipelineError('INVALID_AI_RESPONSE', 'AI response failed schema validation', {
+        fieldErrors: [{ path: 'tasks', message: 'must be a non-empty array', received: [] }]
+      });
 
       mockIsOpenAIAvailable.mockReturnValue(true);
-      mockOpenAIClient.analyzeJobDescription.mockResolvedValue(mockResponse);
+      mockOpenAIClient.analyzeJobDescription.mockRejectedValue(validationError);
 
       // Act & Assert
-      await expect(jobParser.parseJobDescription(jobText, 'en'))
-        .rejects.toThrow('AI-Analyse fehlgeschlagen - keine Aufgaben extrahiert');
+      await expect(jobParser.parseJobDescription(jobText, 'en')).rejects.toMatchObject({
+        code: 'INVALID_AI_RESPONSE',
+        fieldErrors: [{ path: 'tasks' }]
+      });
     });
 
-    it('should handle OpenAI API unavailable', async () => {
+    it('should use offline analysis when OpenAI API is unavailable', async () => {
       // Arrange
-      const jobText = 'Software Engineer';
+      const jobText = 'Software Engineer\n- Write unit tests for new features\n- Review pull requests';
       mockIsOpenAIAvailable.mockReturnValue(false);
 
-      // Act & Assert
-      await expect(jobParser.parseJobDescription(jobText, 'en'))
-        .rejects.toThrow('OpenAI API nicht konfiguriert. Bitte API-Key in .env hinterlegen.');
+      // Act
+      const result = await jobParser.parseJobDescription(jobText, 'en');
+
+      // Assert
+      expect(result.length).toBeGreaterThan(0);
+      expect(result.every(r => r.pattern === 'offline-rule-based')).toBe(true);
+      expect(mockOpenAIClient.analyzeJobDescription).not.toHaveBeenCalled();
     });
 
-    it('should handle API errors with fallback', async () => {
+    it('should handle API errors with offline fallback', async () => {
       // Arrange
       const jobText = 'Software Engineer';
       mockIsOpenAIAvailable.mockReturnValue(true);
@@ -101,10 +110,9 @@ describe('JobParser', () => {
       const result = await jobParser.parseJobDescription(jobText, 'en');
 
       // Assert
-      expect(result).toHaveLength(1);
-      expect(result[0].text).toBe(jobText);
-      expect(result[0].automationPotential).toBe(50);
-      expect(result[0].pattern).toBe('fallback');
+      expect(result.length).toBeGreaterThan(0);
+      expect(result[0].pattern).toBe('offline-rule-based');
+      expect(result[0].confidence).toBeLessThan(90);
     });
 
     it('should detect task categories correctly', async () => {
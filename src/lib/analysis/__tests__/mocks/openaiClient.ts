@@ -5,6 +5,7 @@ import { vi } from 'vitest';
  */
 export const mockOpenAIClient = {
   analyzeJobDescription: vi.fn(),
+  streamJobAnalysis: vi.fn(),
   generateCompleteAnalysis: vi.fn(),
   chatCompletion: vi.fn(),
 };
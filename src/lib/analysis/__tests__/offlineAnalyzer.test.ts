@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfflineAnalyzer, OFFLINE_PATTERN } from '../offlineAnalyzer';
+
+describe('OfflineAnalyzer', () => {
+  let analyzer: OfflineAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new OfflineAnalyzer();
+  });
+
+  describe('extractTasks', () => {
+    it('should extract bullet points from the task section only', () => {
+      // Arrange
+      const jobText = `Customer Support Specialist
+
+Your tasks:
+- Respond to customer inquiries via email and chat
+- Document support tickets in our CRM
+- Escalate complex issues to second level
+
+Requirements:
+- 3 years of experience in customer service
+- Fluent English`;
+
+      // Act
+      const tasks = analyzer.extractTasks(jobText);
+
+      // Assert
+      expect(tasks).toEqual([
+        'Respond to customer inquiries via email and chat',
+        'Document support tickets in our CRM',
+        'Escalate complex issues to second level'
+      ]);
+    });
+
+    it('should fall back to sentences when there are no bullet points', () => {
+      // Arrange
+      const jobText = 'You prepare monthly financial reports. You reconcile bank statements every week.';
+
+      // Act
+      const tasks = analyzer.extractTasks(jobText);
+
+      // Assert
+      expect(tasks).toEqual([
+        'You prepare monthly financial reports',
+        'You reconcile bank statements every week'
+      ]);
+    });
+  });
+
+  describe('detectRole', () => {
+    it('should detect the role by title', () => {
+      expect(analyzer.detectRole('We are hiring a Software Engineer')?.roleSlug).toBe('software-engineer');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(analyzer.detectRole('xyz')).toBeNull();
+    });
+  });
+
+  describe('analyze', () => {
+    it('should produce deterministic low-confidence results', () => {
+      // Arrange
+      const jobText = `Customer Support Specialist
+- Document support tickets in the ticketing system
+- Respond to customer inquiries`;
+
+      // Act
+      const first = analyzer.analyze(jobText, 'en');
+      const second = analyzer.analyze(jobText, 'en');
+
+      // Assert
+      expect(first).toEqual(second);
+      expect(first).toHaveLength(3); // supplemented from the role catalog
+      first.forEach(result => {
+        expect(result.pattern).toBe(OFFLINE_PATTERN);
+        expect(result.confidence).toBeLessThanOrEqual(50);
+        expect(result.automationPotential).toBeGreaterThanOrEqual(0);
+        expect(result.automationPotential).toBeLessThanOrEqual(100);
+      });
+    });
+
+    it('should score automatable catalog tasks above human ones', () => {
+      // Arrange
+      const jobText = `Customer Support Specialist
+- Document support tickets in the ticketing system
+- Respond to customer inquiries`;
+
+      // Act
+      const [documentTickets, respondInquiries] = analyzer.analyze(jobText, 'en');
+
+      // Assert
+      expect(documentTickets.reasoning).toContain('Document support tickets');
+      expect(respondInquiries.reasoning).toContain('Respond to customer inquiries');
+      expect(documentTickets.automationPotential).toBeGreaterThan(respondInquiries.automationPotential);
+    });
+
+    it('should localize reasoning', () => {
+      const [result] = analyzer.analyze('- Document support tickets in the ticketing system', 'de');
+      expect(result.reasoning).toMatch(/^Offline-Analyse/);
+    });
+  });
+});
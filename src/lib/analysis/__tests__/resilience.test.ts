@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runWithTimeout, withRetry, isTransientError } from '../resilience';
+import { AnalysisPipelineError } from '../errors';
+
+describe('resilience', () => {
+  describe('runWithTimeout', () => {
+    it('should resolve with the stage result within the timeout', async () => {
+      await expect(runWithTimeout('parse', 100, async () => 'done')).resolves.toBe('done');
+    });
+
+    it('should abort the signal and reject with a TIMEOUT error', async () => {
+      // Arrange
+      let stageSignal: AbortSignal | undefined;
+      const stage = (signal: AbortSignal) => {
+        stageSignal = signal;
+        return new Promise<string>(() => {});
+      };
+
+      // Act
+      const error = await runWithTimeout('job_parsing', 10, stage).catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(AnalysisPipelineError);
+      expect(error.code).toBe('TIMEOUT');
+      expect(error.details).toEqual({ stage: 'job_parsing', timeoutMs: 10 });
+      expect(stageSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient errors and report each retry', async () => {
+      // Arrange
+      const task = vi.fn()
+        .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValue('ok');
+      const onRetry = vi.fn();
+
+      // Act
+      const result = await withRetry(task, { maxRetries: 2, baseDelayMs: 1, onRetry });
+
+      // Assert
+      expect(result).toBe('ok');
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(call => call[0])).toEqual([2, 3]);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const task = vi.fn().mockRejectedValue(new Error('Request timed out'));
+
+      await expect(withRetry(task, { maxRetries: 1, baseDelayMs: 1 })).rejects.toThrow('Request timed out');
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry invalid AI responses', async () => {
+      const task = vi.fn().mockRejectedValue(new AnalysisPipelineError('INVALID_AI_RESPONSE', 'schema mismatch'));
+
+      await expect(withRetry(task, { maxRetries: 3, baseDelayMs: 1 })).rejects.toThrow('schema mismatch');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('isTransientError', () => {
+    it('should classify errors', () => {
+      expect(isTransientError(new AnalysisPipelineError('TIMEOUT', 'timed out'))).toBe(true);
+      expect(isTransientError(new Error('OpenAI API Error: 429 Too Many Requests'))).toBe(true);
+      expect(isTransientError(new AnalysisPipelineError('AI_UNAVAILABLE', 'not configured'))).toBe(false);
+      expect(isTransientError(new Error('OpenAI API Error: Invalid API key'))).toBe(false);
+    });
+  });
+});
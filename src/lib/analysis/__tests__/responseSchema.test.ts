@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateCompleteAnalysis,
+  parseCompleteAnalysis,
+  buildRepairMessages,
+  formatFieldErrors
+} from '../responseSchema';
+
+const validTask = {
+  text: 'Prepare monthly reports',
+  automationPotential: 80,
+  category: 'analytical',
+  reasoning: 'Structured data',
+  subtasks: [
+    { id: 'sub1', title: 'Collect data', automationPotential: 90, estimatedTime: 2 }
+  ]
+};
+
+describe('responseSchema', () => {
+  describe('validateCompleteAnalysis', () => {
+    it('should accept a valid response and fill optional subtask fields', () => {
+      // Act
+      const result = validateCompleteAnalysis({ tasks: [validTask], summary: 'Summary' });
+
+      // Assert
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.tasks[0].businessCase).toBeNull();
+      expect(result.value.tasks[0].subtasks[0]).toMatchObject({
+        priority: 'medium',
+        complexity: 'medium',
+        systems: [],
+        description: ''
+      });
+    });
+
+    it('should reject an empty task list', () => {
+      const result = validateCompleteAnalysis({ tasks: [] });
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.errors).toEqual([{ path: 'tasks', message: 'must be a non-empty array', received: [] }]);
+    });
+
+    it('should collect every field-level error', () => {
+      // Arrange
+      const response = {
+        tasks: [
+          {
+            ...validTask,
+            automationPotential: 140,
+            subtasks: [{ id: 'sub1', title: '', automationPotential: 50, estimatedTime: 1, priority: 'urgent' }],
+            businessCase: {
+              manualHours: -2,
+              automatedHours: 1,
+              automationPotential: 50,
+              savedHours: 1,
+              hourlyRateEmployee: 40,
+              hourlyRateFreelancer: 60,
+              employmentType: 'contractor'
+            }
+          },
+          { text: 'Second task' }
+        ]
+      };
+
+      // Act
+      const result = validateCompleteAnalysis(response);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.errors.map(error => error.path)).toEqual([
+        'tasks[0].subtasks[0].title',
+        'tasks[0].subtasks[0].priority',
+        'tasks[0].automationPotential',
+        'tasks[0].businessCase.manualHours',
+        'tasks[0].businessCase.employmentType',
+        'tasks[1].automationPotential'
+      ]);
+    });
+  });
+
+  describe('parseCompleteAnalysis', () => {
+    it('should extract JSON surrounded by prose', () => {
+      const result = parseCompleteAnalysis(`Here you go: ${JSON.stringify({ tasks: [validTask] })} Done.`);
+      expect(result.ok).toBe(true);
+    });
+
+    it('should report invalid JSON at the root', () => {
+      const result = parseCompleteAnalysis('not json');
+      expect(result).toEqual({ ok: false, errors: [{ path: '$', message: 'response is not valid JSON' }] });
+    });
+  });
+
+  describe('buildRepairMessages', () => {
+    it('should include the field errors and the previous output', () => {
+      // Arrange
+      const errors = [{ path: 'tasks[0].automationPotential', message: 'must be <= 100', received: 140 }];
+
+      // Act
+      const messages = buildRepairMessages('{"tasks":[]}', errors, 'en');
+
+      // Assert
+      expect(messages[0].role).toBe('system');
+      expect(messages[1].content).toContain('tasks[0].automationPotential: must be <= 100 (got 140)');
+      expect(messages[1].content).toContain('{"tasks":[]}');
+    });
+  });
+
+  describe('formatFieldErrors', () => {
+    it('should truncate long error lists', () => {
+      const errors = Array.from({ length: 4 }, (_, i) => ({ path: `tasks[${i}].text`, message: 'must be a non-empty string' }));
+      expect(formatFieldErrors(errors, 2).split('\n')).toHaveLength(3);
+    });
+  });
+});
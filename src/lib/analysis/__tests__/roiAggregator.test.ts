@@ -301,4 +301,74 @@ describe('ROIAggregator', () => {
       expect(result).toHaveLength(8);
     });
   });
+
+  describe('aggregateRoles', () => {
+    const task = (text: string, score: number): Task => ({
+      text,
+      score,
+      label: 'Automatisierbar',
+      businessCase: {
+        manualHours: 10,
+        automatedHours: 10 - score / 10,
+        automationPotential: score,
+        savedHours: score / 10,
+        setupCostHours: 4,
+        setupCostMoney: 400,
+        roi: 20,
+        paybackPeriodYears: 0.1,
+        hourlyRateEmployee: 50,
+        hourlyRateFreelancer: 80,
+        employmentType: 'employee',
+        reasoning: 'Monthly values'
+      }
+    });
+    const roleResult = (tasks: Task[]) => roiAggregator.aggregateResults(tasks, '');
+
+    it('should weight the role score by task time instead of averaging', () => {
+      // 10 h at 80 % and a 30 h task at 20 %: plain average 50, time-weighted 35
+      const long = task('Client meetings', 20);
+      long.businessCase = { ...long.businessCase!, manualHours: 30 };
+
+      const result = roleResult([task('Book invoices', 80), long]);
+
+      expect(result.totalScore).toBe(35);
+      expect(result.roi?.tasks.map(entry => entry.timeShare)).toEqual([10 / 160, 30 / 160]);
+    });
+
+    it('should weight scores and savings by headcount', () => {
+      // Arrange
+      const roles = [
+        { roleId: 'a', title: 'Accountant', headcount: 3, result: roleResult([task('Book invoices', 80)]) },
+        { roleId: 'b', title: 'Lawyer', headcount: 1, hourlyRate: 100, result: roleResult([task('Review contracts', 20)]) }
+      ];
+
+      // Act
+      const report = roiAggregator.aggregateRoles(roles, 'en');
+
+      // Assert
+      expect(report.totalHeadcount).toBe(4);
+      expect(report.weightedScore).toBe(65);
+      expect(report.ratio).toEqual({ automatisierbar: 65, mensch: 35 });
+      // 8 h/month × 50 €/h × 12 × 3 people, and 2 h × 100 €/h × 12 × 1
+      expect(report.roles.map(role => [role.roleId, role.annualSavings])).toEqual([['a', 14400], ['b', 2400]]);
+      expect(report.totalSavedHoursPerMonth).toBe(26);
+      expect(report.totalSetupCost).toBe(800);
+      // 3-month ramp-up: 1/3 + 2/3 + 10 full months of 1400 €
+      expect(report.yearlySavings).toEqual([15400, 16800, 16800]);
+      expect(report.paybackMonth).toBe(2);
+      expect(report.totalNpv).toBeGreaterThan(0);
+      expect(report.topTasks[0]).toMatchObject({ roleTitle: 'Accountant', text: 'Book invoices' });
+    });
+
+    it('should place tasks without business cases on the role time', () => {
+      const report = roiAggregator.aggregateRoles([
+        { roleId: 'a', title: 'Nurse', headcount: 2, result: roleResult([{ text: 'Care', score: 30, label: 'Mensch' }]) }
+      ]);
+
+      expect(report.weightedScore).toBe(30);
+      // 160 h × 30 % × 40 €/h default × 2 people
+      expect(report.totalAnnualSavings).toBe(3840 * 12);
+      expect(report.paybackMonth).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { computeRoleROI, allocateTaskHours, MONTHS_PER_PERIOD } from '../roiModel';
+
+describe('roiModel', () => {
+  describe('allocateTaskHours', () => {
+    it('should scale task hours down to the role working time', () => {
+      const hours = allocateTaskHours([
+        { text: 'A', automationPotential: 50, manualHoursPerMonth: 120 },
+        { text: 'B', automationPotential: 50, manualHoursPerMonth: 80 }
+      ], 160);
+
+      expect(hours).toEqual([96, 64]);
+    });
+
+    it('should count tasks without hours as an average known task', () => {
+      const hours = allocateTaskHours([
+        { text: 'A', automationPotential: 50, manualHoursPerMonth: 40 },
+        { text: 'B', automationPotential: 50, manualHoursPerMonth: 20 },
+        { text: 'C', automationPotential: 50 }
+      ], 160);
+
+      expect(hours).toEqual([40, 20, 30]);
+    });
+
+    it('should cap tasks without hours at an equal share of the remaining time', () => {
+      const hours = allocateTaskHours([
+        { text: 'A', automationPotential: 50, manualHoursPerMonth: 100 },
+        { text: 'B', automationPotential: 50 },
+        { text: 'C', automationPotential: 50 }
+      ], 160);
+
+      expect(hours).toEqual([100, 30, 30]);
+    });
+
+    it('should split the role equally when no task has hours', () => {
+      const hours = allocateTaskHours([
+        { text: 'A', automationPotential: 50 },
+        { text: 'B', automationPotential: 50 }
+      ], 160);
+
+      expect(hours).toEqual([80, 80]);
+    });
+  });
+
+  describe('computeRoleROI', () => {
+    it('should weight the automation score by time share', () => {
+      // Arrange: 30 h at 90 % and 10 h at 10 %
+      const tasks = [
+        { text: 'Data entry', automationPotential: 90, manualHoursPerMonth: 30 },
+        { text: 'Negotiation', automationPotential: 10, manualHoursPerMonth: 10 }
+      ];
+
+      // Act
+      const roi = computeRoleROI(tasks);
+
+      // Assert
+      expect(roi.automationScore).toBe(70);
+      expect(roi.tasks.map(task => task.timeShare)).toEqual([30 / 160, 10 / 160]);
+      expect(roi.savedHoursPerMonth).toBe(28);
+    });
+
+    it('should not let a task without a business case dominate the automation score', () => {
+      // Arrange: the unpriced task counts as an average 20 h task, not the remaining 120 h
+      const tasks = [
+        { text: 'Data entry', automationPotential: 90, manualHoursPerMonth: 30 },
+        { text: 'Negotiation', automationPotential: 10, manualHoursPerMonth: 10 },
+        { text: 'Client meetings', automationPotential: 0 }
+      ];
+
+      // Act
+      const roi = computeRoleROI(tasks);
+
+      // Assert: 28 saved of 60 h
+      expect(roi.tasks[2].manualHoursPerMonth).toBe(20);
+      expect(roi.automationScore).toBe(47);
+    });
+
+    it('should compute cash flows, payback and NPV with licences, setup and ramp-up', () => {
+      // Arrange
+      const tasks = [{ text: 'Reporting', automationPotential: 50, manualHoursPerMonth: 20, setupCost: 1000 }];
+
+      // Act
+      const roi = computeRoleROI(tasks, {
+        headcount: 2,
+        loadedHourlyCost: 60,
+        licenceCostPerMonth: 25,
+        rampUpMonths: 2,
+        horizonMonths: 24,
+        discountRate: 0
+      });
+
+      // Assert: 10 h × 60 € × 2 people = 1200 € gross, 50 € licences
+      expect(roi.grossMonthlySavings).toBe(1200);
+      expect(roi.netMonthlySavings).toBe(1150);
+      expect(roi.monthlyCashFlows.slice(0, 3)).toEqual([550, 1150, 1150]);
+      expect(roi.paybackMonth).toBe(2);
+      expect(roi.yearlySavings).toEqual([550 + 11 * 1150, 12 * 1150]);
+      expect(roi.npv).toBe(-1000 + 550 + 23 * 1150);
+    });
+
+    it('should report no payback when licences exceed the savings', () => {
+      const roi = computeRoleROI(
+        [{ text: 'Filing', automationPotential: 10, manualHoursPerMonth: 5, setupCost: 500 }],
+        { licenceCostPerMonth: 100 }
+      );
+
+      expect(roi.netMonthlySavings).toBeLessThan(0);
+      expect(roi.paybackMonth).toBeNull();
+    });
+  });
+
+  it('should convert monthly values to calendar periods', () => {
+    expect(MONTHS_PER_PERIOD.year).toBe(12);
+    expect(MONTHS_PER_PERIOD.week * 52).toBeCloseTo(12);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { TaskStreamParser } from '../taskStreamParser';
+
+const response = {
+  tasks: [
+    {
+      text: 'Prepare monthly reports',
+      automationPotential: 80,
+      category: 'analytical',
+      reasoning: 'Structured data, "recurring" {format}',
+      subtasks: [
+        { id: 'sub1', title: 'Collect data', automationPotential: 90, estimatedTime: 2 }
+      ],
+      businessCase: {
+        manualHours: 10,
+        automatedHours: 2,
+        automationPotential: 80,
+        savedHours: 8,
+        hourlyRateEmployee: 50,
+        hourlyRateFreelancer: 80
+      }
+    },
+    {
+      text: 'Negotiate with suppliers',
+      automationPotential: 20,
+      subtasks: []
+    }
+  ],
+  summary: 'Two tasks'
+};
+
+function feed(parser: TaskStreamParser, content: string, chunkSize: number) {
+  const events = [];
+  for (let i = 0; i < content.length; i += chunkSize) {
+    events.push(...parser.push(content.slice(i, i + chunkSize)));
+  }
+  return events;
+}
+
+describe('TaskStreamParser', () => {
+  it('should emit task, subtasks and business case stages in order', () => {
+    // Arrange
+    const parser = new TaskStreamParser();
+    const content = JSON.stringify(response, null, 2);
+
+    // Act
+    const events = feed(parser, content, 7);
+
+    // Assert
+    expect(events.map(event => `${event.type}:${event.index}`)).toEqual([
+      'task:0',
+      'subtasks:0',
+      'businessCase:0',
+      'task:1',
+      'subtasks:1'
+    ]);
+    expect(events[0]).toMatchObject({ task: { text: 'Prepare monthly reports', automationPotential: 80 } });
+    expect(parser.getContent()).toBe(content);
+  });
+
+  it('should emit the task head before its subtasks have arrived', () => {
+    const parser = new TaskStreamParser();
+    const content = JSON.stringify(response);
+    const cut = content.indexOf('Collect data');
+
+    const events = parser.push(content.slice(0, cut));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'task', index: 0 });
+  });
+
+  it('should defer stages until the head is complete when detail keys come first', () => {
+    // Arrange
+    const parser = new TaskStreamParser();
+    const content = JSON.stringify({
+      tasks: [{ subtasks: [{ title: 'Scan invoices', automationPotential: 95, estimatedTime: 1 }], text: 'Process invoices', automationPotential: 85 }]
+    });
+
+    // Act
+    const events = parser.push(content);
+
+    // Assert
+    expect(events.map(event => event.type)).toEqual(['task', 'subtasks']);
+    expect(events[1]).toMatchObject({ subtasks: [{ id: 'sub1', title: 'Scan invoices' }] });
+  });
+
+  it('should skip stages that fail validation', () => {
+    const parser = new TaskStreamParser();
+    const content = JSON.stringify({ tasks: [{ text: 'Broken task', automationPotential: 140, subtasks: [] }] });
+
+    expect(parser.push(content)).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Analysis Comparison - diff of two AnalysisResults
+ * Tasks are aligned by text similarity (stemmed word overlap plus character
+ * trigrams, so "Monatsberichte erstellen" matches "Erstellung von Monatsberichten"),
+ * then score deltas, unmatched tasks and ratio changes are reported.
+ * Works for two versions of one posting as well as for two different roles.
+ */
+
+import type { AnalysisResult } from './roiAggregator';
+import type { Task } from './taskClassifier';
+
+export type TaskSimilarity = (left: Task, right: Task) => number;
+
+export interface AlignedTaskPair {
+  leftIndex: number;
+  rightIndex: number;
+  left: Task;
+  right: Task;
+  /** 0..1 */
+  similarity: number;
+  /** right.score - left.score */
+  scoreDelta: number;
+}
+
+export interface UnmatchedTask {
+  index: number;
+  task: Task;
+}
+
+export interface AnalysisComparison {
+  pairs: AlignedTaskPair[];
+  onlyInLeft: UnmatchedTask[];
+  onlyInRight: UnmatchedTask[];
+  /** right - left */
+  totalScoreDelta: number;
+  ratioDelta: AnalysisResult['ratio'];
+  /** Share of tasks that could be aligned, 0..1 */
+  overlap: number;
+}
+
+export interface CompareOptions {
+  /** Minimum similarity for two tasks to be aligned (default 0.3) */
+  threshold?: number;
+  similarity?: TaskSimilarity;
+}
+
+const DEFAULT_THRESHOLD = 0.3;
+
+const STOP_WORDS = new Set([
+  'der', 'die', 'das', 'und', 'oder', 'für', 'von', 'mit', 'zu', 'zur', 'zum', 'im', 'am', 'den', 'dem', 'des',
+  'bei', 'auf', 'aus', 'sowie', 'eine', 'ein', 'einer', 'einem', 'einen', 'in', 'an',
+  'the', 'and', 'or', 'for', 'of', 'with', 'to', 'on', 'at', 'is', 'are', 'a', 'an', 'this', 'that', 'these', 'as'
+]);
+
+const SUFFIXES = ['ungen', 'ung', 'ing', 'en', 'er', 'es', 'ed', 'e', 's', 'n'];
+
+/**
+ * Compare two analyses; left is the baseline ("before", "Junior"), right the comparison
+ */
+export function compareAnalyses(left: AnalysisResult, right: AnalysisResult, options: CompareOptions = {}): AnalysisComparison {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const similarity = options.similarity ?? taskSimilarity;
+
+  // Greedy alignment: best-scoring pairs first, each task used once
+  const candidates: Array<{ leftIndex: number; rightIndex: number; similarity: number }> = [];
+  left.tasks.forEach((leftTask, leftIndex) => {
+    right.tasks.forEach((rightTask, rightIndex) => {
+      const score = similarity(leftTask, rightTask);
+      if (score >= threshold) candidates.push({ leftIndex, rightIndex, similarity: score });
+    });
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity || a.leftIndex - b.leftIndex);
+
+  const usedLeft = new Set<number>();
+  const usedRight = new Set<number>();
+  const pairs: AlignedTaskPair[] = [];
+  for (const candidate of candidates) {
+    if (usedLeft.has(candidate.leftIndex) || usedRight.has(candidate.rightIndex)) continue;
+    usedLeft.add(candidate.leftIndex);
+    usedRight.add(candidate.rightIndex);
+    const leftTask = left.tasks[candidate.leftIndex];
+    const rightTask = right.tasks[candidate.rightIndex];
+    pairs.push({
+      ...candidate,
+      similarity: Math.round(candidate.similarity * 100) / 100,
+      left: leftTask,
+      right: rightTask,
+      scoreDelta: Math.round(safeScore(rightTask.score) - safeScore(leftTask.score))
+    });
+  }
+  pairs.sort((a, b) => a.leftIndex - b.leftIndex);
+
+  const taskCount = left.tasks.length + right.tasks.length;
+  return {
+    pairs,
+    onlyInLeft: left.tasks.map((task, index) => ({ index, task })).filter(({ index }) => !usedLeft.has(index)),
+    onlyInRight: right.tasks.map((task, index) => ({ index, task })).filter(({ index }) => !usedRight.has(index)),
+    totalScoreDelta: Math.round(safeScore(right.totalScore) - safeScore(left.totalScore)),
+    ratioDelta: {
+      automatisierbar: Math.round(safeScore(right.ratio?.automatisierbar) - safeScore(left.ratio?.automatisierbar)),
+      mensch: Math.round(safeScore(right.ratio?.mensch) - safeScore(left.ratio?.mensch))
+    },
+    overlap: taskCount > 0 ? Math.round(((pairs.length * 2) / taskCount) * 100) / 100 : 0
+  };
+}
+
+/**
+ * Default task similarity: stemmed word overlap (Jaccard) and character trigram overlap (Dice),
+ * with a small bonus for the same category
+ */
+export function taskSimilarity(left: Task, right: Task): number {
+  const words = wordSimilarity(left.text, right.text);
+  const trigrams = trigramSimilarity(left.text, right.text);
+  const sameCategory = !!left.category && left.category === right.category;
+  return Math.min(1, 0.5 * words + 0.5 * trigrams + (sameCategory ? 0.05 : 0));
+}
+
+function wordSimilarity(left: string, right: string): number {
+  const leftWords = new Set(stems(left));
+  const rightWords = new Set(stems(right));
+  if (leftWords.size === 0 || rightWords.size === 0) return 0;
+
+  let shared = 0;
+  leftWords.forEach(word => {
+    // Compound words: "monatsbericht" shares the stem with "bericht"
+    if (rightWords.has(word) || [...rightWords].some(other => isCompoundMatch(word, other))) shared++;
+  });
+  return shared / (leftWords.size + rightWords.size - shared);
+}
+
+function trigramSimilarity(left: string, right: string): number {
+  const leftGrams = trigrams(left);
+  const rightGrams = trigrams(right);
+  if (leftGrams.size === 0 || rightGrams.size === 0) return 0;
+
+  let shared = 0;
+  leftGrams.forEach(gram => {
+    if (rightGrams.has(gram)) shared++;
+  });
+  return (2 * shared) / (leftGrams.size + rightGrams.size);
+}
+
+function stems(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length <= 5) return word;
+  const suffix = SUFFIXES.find(ending => word.endsWith(ending) && word.length - ending.length >= 4);
+  return suffix ? word.slice(0, -suffix.length) : word;
+}
+
+function isCompoundMatch(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 5 && longer.includes(shorter);
+}
+
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  normalize(text).split(' ').filter(word => !STOP_WORDS.has(word)).forEach(word => {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  });
+  return grams;
+}
+
+function normalize(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\w\säöüß]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function safeScore(value: number | undefined): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
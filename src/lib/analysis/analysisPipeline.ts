@@ -1,7 +1,10 @@
-import { JobParser } from './jobParser';
-import { TaskClassifier } from './taskClassifier';
+import { JobParser, JobParserOptions, JobParserStageEvent } from './jobParser';
+import { TaskClassifier, Task } from './taskClassifier';
 import { ROIAggregator, AnalysisResult } from './roiAggregator';
-import { FastAnalysisResult } from './types';
+import { FastAnalysisResult, AnalysisPipelineConfig } from './types';
+import { OFFLINE_PATTERN } from './offlineAnalyzer';
+import { isAnalysisPipelineError } from './errors';
+import { runWithTimeout, withRetry } from './resilience';
 import { 
   startAnalysisMonitoring, 
   monitorJobParsing, 
@@ -10,20 +13,46 @@ import {
   completeTaskClassification,
   monitorROIAggregation,
   completeROIAggregation,
-  completeAnalysisMonitoring
+  completeAnalysisMonitoring,
+  recordAnalysisRetry,
+  recordAnalysisFallback
 } from '../monitoring/analysisMonitor';
 
+/**
+ * Progress events of runAnalysisStream, in arrival order per task:
+ * task extracted -> subtasks ready -> business case ready; 'complete' comes last
+ */
+export type AnalysisStreamEvent =
+  | { type: 'task'; index: number; task: Task }
+  | { type: 'subtasks'; index: number; subtasks: NonNullable<Task['subtasks']> }
+  | { type: 'businessCase'; index: number; businessCase: NonNullable<Task['businessCase']> }
+  | { type: 'complete'; result: AnalysisResult };
+
+type ToolLookup = typeof import('../catalog/aiTools')['getToolsByIndustry'];
+
+export const DEFAULT_PIPELINE_CONFIG: AnalysisPipelineConfig = {
+  useAI: true,
+  fallbackEnabled: true,
+  timeoutMs: 90000,
+  maxRetries: 2,
+  lang: 'de'
+};
+
 /**
  * Main Analysis Pipeline
  * Orchestrates the modular analysis services
  */
 export class AnalysisPipeline {
+  private config: AnalysisPipelineConfig;
   private jobParser: JobParser;
   private taskClassifier: TaskClassifier;
   private roiAggregator: ROIAggregator;
 
-  constructor() {
-    this.jobParser = new JobParser();
+  constructor(config: Partial<AnalysisPipelineConfig> = {}) {
+    this.config = { ...DEFAULT_PIPELINE_CONFIG, ...config };
+    // Retries and the offline fallback are decided here, not in the parser
+    const parserOptions: JobParserOptions = { offline: !this.config.useAI, fallbackEnabled: false };
+    this.jobParser = new JobParser(parserOptions);
     this.taskClassifier = new TaskClassifier();
     this.roiAggregator = new ROIAggregator();
   }
@@ -31,7 +60,28 @@ export class AnalysisPipeline {
   /**
    * Run complete analysis pipeline
    */
-  async runAnalysis(jobText: string, lang: 'de' | 'en' = 'de'): Promise<AnalysisResult> {
+  async runAnalysis(jobText: string, lang: 'de' | 'en' = this.config.lang): Promise<AnalysisResult> {
+    return this.execute(jobText, lang);
+  }
+
+  /**
+   * Run the pipeline with a streamed LLM response, reporting each task as soon as
+   * it is extracted and its subtasks / business case as they become ready.
+   * Stage events are previews; the 'complete' event carries the validated result.
+   */
+  async runAnalysisStream(
+    jobText: string,
+    lang: 'de' | 'en',
+    onEvent: (event: AnalysisStreamEvent) => void
+  ): Promise<AnalysisResult> {
+    return this.execute(jobText, lang, onEvent);
+  }
+
+  private async execute(
+    jobText: string,
+    lang: 'de' | 'en',
+    onEvent?: (event: AnalysisStreamEvent) => void
+  ): Promise<AnalysisResult> {
     console.log('DEBUG runAnalysis: lang =', lang);
     
     // Start monitoring
@@ -44,13 +94,31 @@ export class AnalysisPipeline {
       // Step 1: Parse job description and extract tasks
       console.log('📋 Step 1: Parsing job description...');
       monitorJobParsing(analysisId, jobText);
-      const fastResults = await this.jobParser.parseJobDescription(jobText, lang);
+      const { getToolsByIndustry } = await this.runStage(analysisId, 'tool_catalog', () => import('../catalog/aiTools'));
+      const streamedTasks = new Set<number>();
+      const fastResults = await this.parseTasks(
+        analysisId,
+        jobText,
+        lang,
+        streamedTasks,
+        onEvent && (event => this.forwardStage(event, streamedTasks, getToolsByIndustry, onEvent))
+      );
       completeJobParsing(analysisId, fastResults.tasks || [], true);
       
       // Step 2: Convert FastAnalysisResult to Task format with subtasks
       console.log('🔄 Step 2: Converting to task format...');
       monitorTaskClassification(analysisId, fastResults.tasks || []);
-      const analyzedTasks = await this.convertToTasks(fastResults);
+      const analyzedTasks = fastResults.map(result => this.toTask(result, getToolsByIndustry));
+      
+      // Tasks that did not arrive through the stream (offline results, repaired output)
+      if (onEvent) {
+        analyzedTasks.forEach((task, index) => {
+          if (streamedTasks.has(index)) return;
+          onEvent({ type: 'task', index, task });
+          if (task.subtasks) onEvent({ type: 'subtasks', index, subtasks: task.subtasks });
+          if (task.businessCase) onEvent({ type: 'businessCase', index, businessCase: task.businessCase });
+        });
+      }
       completeTaskClassification(analysisId, analyzedTasks, fastResults.industry || 'unknown', true);
       
       // Step 3: Aggregate results and generate summary/recommendations
@@ -59,8 +127,14 @@ export class AnalysisPipeline {
       const result = this.roiAggregator.aggregateResults(analyzedTasks, jobText);
       completeROIAggregation(analysisId, result, true);
       
+      // Mark rule-based results so the UI can flag them as low-confidence
+      const isOffline = fastResults.length > 0 && fastResults.every(r => r.pattern === OFFLINE_PATTERN);
+      result.analysisMode = isOffline ? 'offline' : 'ai';
+      result.lowConfidence = isOffline;
+      
       console.log('✅ Analysis pipeline completed successfully');
       completeAnalysisMonitoring(analysisId, result, true);
+      onEvent?.({ type: 'complete', result });
       return result;
       
     } catch (error) {
@@ -70,6 +144,11 @@ export class AnalysisPipeline {
       const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
       completeAnalysisMonitoring(analysisId, {}, false, error instanceof Error ? error : new Error(errorMessage));
       
+      // Typed errors (e.g. schema validation with field errors) are passed through as-is
+      if (isAnalysisPipelineError(error)) {
+        throw error;
+      }
+      
       throw new Error(`AI-Analyse fehlgeschlagen: ${errorMessage}. Bitte überprüfen Sie:
       1. OpenAI API-Key ist korrekt konfiguriert
       2. Internetverbindung ist verfügbar
@@ -79,36 +158,91 @@ export class AnalysisPipeline {
   }
 
   /**
-   * Convert FastAnalysisResult to Task format
+   * Parse with per-attempt timeout and retries; falls back to the offline analysis
+   * when enabled. Invalid model output is never replaced by offline scores.
    */
-  private async convertToTasks(fastResults: FastAnalysisResult[]): Promise<any[]> {
-    const { getToolsByIndustry } = await import('../catalog/aiTools');
-    
-    return fastResults.map(result => {
-      console.log('🔍 [AnalysisPipeline] Task result:', {
-        text: result.text,
-        subtasks: result.subtasks?.length || 0,
-        subtasksData: result.subtasks
+  private async parseTasks(
+    analysisId: string,
+    jobText: string,
+    lang: 'de' | 'en',
+    streamedTasks: Set<number>,
+    onStage?: (event: JobParserStageEvent) => void
+  ): Promise<FastAnalysisResult[]> {
+    try {
+      return await this.runStage(analysisId, 'job_parsing', signal => {
+        // A retried stream starts over at the first task
+        streamedTasks.clear();
+        return this.jobParser.parseJobDescription(jobText, lang, onStage, signal);
       });
-      
-      return {
-        text: result.text,
-        score: result.automationPotential,
-        label: result.label || (result.automationPotential >= 70 ? "Automatisierbar" : 
-               result.automationPotential >= 30 ? "Teilweise Automatisierbar" : "Mensch"),
-        signals: [result.reasoning ?? ''],
-        aiTools: getToolsByIndustry(result.category).map(tool => tool.id),
-        industry: result.category,
-        category: result.category,
-        confidence: result.confidence,
-        automationRatio: result.automationPotential,
-        humanRatio: 100 - result.automationPotential,
-        complexity: result.complexity || 'medium',
-        automationTrend: result.trend || 'stable' as const,
-        subtasks: result.subtasks || [],
-        businessCase: result.businessCase,
-        solutions: result.solutions
-      };
+    } catch (error) {
+      const invalidResponse = isAnalysisPipelineError(error) && error.code === 'INVALID_AI_RESPONSE';
+      if (!this.config.fallbackEnabled || invalidResponse) {
+        throw error;
+      }
+
+      console.warn('📴 AI analysis failed, using offline analysis:', error);
+      recordAnalysisFallback(analysisId, error instanceof Error ? error : new Error(String(error)));
+      return this.jobParser.parseOffline(jobText, lang);
+    }
+  }
+
+  /**
+   * Run one stage under config.timeoutMs, retrying transient errors up to config.maxRetries times
+   */
+  private runStage<T>(analysisId: string, stage: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return withRetry(() => runWithTimeout(stage, this.config.timeoutMs, task), {
+      maxRetries: this.config.maxRetries,
+      onRetry: (attempt, error) => {
+        console.warn(`🔁 Retrying ${stage} (attempt ${attempt}/${this.config.maxRetries + 1}):`, error);
+        recordAnalysisRetry(analysisId, stage, attempt, error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Map job parser stage events to pipeline events; only tasks with a known head are forwarded
+   */
+  private forwardStage(
+    event: JobParserStageEvent,
+    streamedTasks: Set<number>,
+    getToolsByIndustry: ToolLookup,
+    onEvent: (event: AnalysisStreamEvent) => void
+  ): void {
+    if (event.type === 'task') {
+      streamedTasks.add(event.index);
+      onEvent({ type: 'task', index: event.index, task: this.toTask(event.result, getToolsByIndustry) });
+    } else if (streamedTasks.has(event.index)) {
+      onEvent(event);
+    }
+  }
+
+  /**
+   * Convert FastAnalysisResult to Task format
+   */
+  private toTask(result: FastAnalysisResult, getToolsByIndustry: ToolLookup): Task {
+    console.log('🔍 [AnalysisPipeline] Task result:', {
+      text: result.text,
+      subtasks: result.subtasks?.length || 0,
+      subtasksData: result.subtasks
     });
+    
+    return {
+      text: result.text,
+      score: result.automationPotential,
+      label: result.label || (result.automationPotential >= 70 ? "Automatisierbar" : 
+             result.automationPotential >= 30 ? "Teilweise Automatisierbar" : "Mensch"),
+      signals: [result.reasoning ?? ''],
+      aiTools: getToolsByIndustry(result.category).map(tool => tool.id),
+      industry: result.category,
+      category: result.category,
+      confidence: result.confidence,
+      automationRatio: result.automationPotential,
+      humanRatio: 100 - result.automationPotential,
+      complexity: result.complexity || 'medium',
+      automationTrend: result.trend || 'stable' as const,
+      subtasks: result.subtasks || [],
+      businessCase: result.businessCase ?? undefined,
+      solutions: result.solutions
+    };
   }
 }
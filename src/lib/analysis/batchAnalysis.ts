@@ -0,0 +1,148 @@
+/**
+ * Batch Analysis - runs many roles through the AnalysisPipeline
+ * Rows are analyzed with bounded concurrency; AI results are cached per job text in
+ * analysisCacheService so re-runs and retries only call the LLM for new roles.
+ */
+
+import { AnalysisPipeline } from './analysisPipeline';
+import { ROIAggregator, AnalysisResult, ConsolidatedAnalysisReport } from './roiAggregator';
+import type { AnalysisPipelineConfig } from './types';
+import type { BatchRole } from './batchImport';
+import { analysisCacheService } from '../services/analysisCacheService';
+import { extractJobTextFromUrl } from '../extractJobText';
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRowState {
+  role: BatchRole;
+  status: BatchRowStatus;
+  result?: AnalysisResult;
+  error?: string;
+  fromCache?: boolean;
+}
+
+export interface BatchAnalyzerOptions {
+  lang?: 'de' | 'en';
+  /** Roles analyzed at the same time (default 3) */
+  concurrency?: number;
+  pipelineConfig?: Partial<AnalysisPipelineConfig>;
+  /** Called whenever a row changes status */
+  onRowUpdate?: (row: BatchRowState) => void;
+}
+
+const CACHE_TYPE = 'job-analysis';
+const MAX_JOB_TEXT_LENGTH = 10000;
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Batch Analyzer
+ * Holds the state of one batch; failed rows can be retried without re-running the rest
+ */
+export class BatchAnalyzer {
+  private rows: BatchRowState[];
+  private lang: 'de' | 'en';
+  private concurrency: number;
+  private pipeline: AnalysisPipeline;
+  private roiAggregator = new ROIAggregator();
+  private onRowUpdate?: (row: BatchRowState) => void;
+
+  constructor(roles: BatchRole[], options: BatchAnalyzerOptions = {}) {
+    this.rows = roles.map(role => ({ role, status: 'pending' }));
+    this.lang = options.lang ?? 'de';
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.pipeline = new AnalysisPipeline({ lang: this.lang, ...options.pipelineConfig });
+    this.onRowUpdate = options.onRowUpdate;
+  }
+
+  getRows(): BatchRowState[] {
+    return this.rows.map(row => ({ ...row }));
+  }
+
+  /**
+   * Analyze all pending rows
+   */
+  async run(): Promise<BatchRowState[]> {
+    await this.analyzeRows(this.rows.filter(row => row.status === 'pending'));
+    return this.getRows();
+  }
+
+  /**
+   * Re-run failed rows; all failed rows when no ids are given
+   */
+  async retry(roleIds?: string[]): Promise<BatchRowState[]> {
+    const rows = this.rows.filter(row =>
+      row.status === 'failed' && (!roleIds || roleIds.includes(row.role.id))
+    );
+    rows.forEach(row => this.update(row, { status: 'pending', error: undefined }));
+    await this.analyzeRows(rows);
+    return this.getRows();
+  }
+
+  /**
+   * Consolidated ROI report over all successfully analyzed rows
+   */
+  getReport(): ConsolidatedAnalysisReport {
+    const analyzed = this.rows
+      .filter(row => row.status === 'done' && row.result)
+      .map(row => ({
+        roleId: row.role.id,
+        title: row.role.title,
+        headcount: row.role.headcount,
+        hourlyRate: row.role.hourlyRate,
+        result: row.result!
+      }));
+    return this.roiAggregator.aggregateRoles(analyzed, this.lang);
+  }
+
+  private async analyzeRows(rows: BatchRowState[]): Promise<void> {
+    const queue = [...rows];
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        await this.analyzeRow(row);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+  }
+
+  private async analyzeRow(row: BatchRowState): Promise<void> {
+    this.update(row, { status: 'running', error: undefined });
+
+    try {
+      const jobText = (await this.resolveJobText(row.role)).slice(0, MAX_JOB_TEXT_LENGTH);
+      const cacheKey = `${this.lang}:${jobText}`;
+
+      const cached = await analysisCacheService.get<AnalysisResult>(cacheKey, CACHE_TYPE);
+      if (cached) {
+        this.update(row, { status: 'done', result: cached, fromCache: true });
+        return;
+      }
+
+      const result = await this.pipeline.runAnalysis(jobText, this.lang);
+      // Offline results would otherwise keep the role from getting an AI analysis later
+      if (!result.lowConfidence && result.analysisMode !== 'offline') {
+        await analysisCacheService.set(cacheKey, CACHE_TYPE, result);
+      }
+      this.update(row, { status: 'done', result, fromCache: false });
+    } catch (error) {
+      console.error(`❌ [BatchAnalysis] Row ${row.role.row} (${row.role.title}) failed:`, error);
+      this.update(row, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async resolveJobText(role: BatchRole): Promise<string> {
+    if (role.text) {
+      return role.title && !role.text.startsWith(role.title) ? `${role.title}\n\n${role.text}` : role.text;
+    }
+    const extracted = await extractJobTextFromUrl(role.url!);
+    const jobText = extracted.composeJobText();
+    if (!jobText.trim()) {
+      throw new Error(`No job text found at ${role.url}`);
+    }
+    return jobText;
+  }
+
+  private update(row: BatchRowState, patch: Partial<BatchRowState>): void {
+    Object.assign(row, patch);
+    this.onRowUpdate?.({ ...row });
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Batch Import - reads a list of roles from CSV or JSON for batch analysis
+ * Each role needs a title and either a job posting URL or the raw job text;
+ * headcount defaults to 1, the hourly rate is optional (the business case rate is used otherwise).
+ */
+
+export interface BatchRole {
+  id: string;
+  /** 1-based row number in the source file, for error messages */
+  row: number;
+  title: string;
+  url?: string;
+  text?: string;
+  headcount: number;
+  hourlyRate?: number;
+}
+
+export interface BatchImportError {
+  row: number;
+  message: string;
+}
+
+export interface BatchImportResult {
+  roles: BatchRole[];
+  errors: BatchImportError[];
+}
+
+/** Accepted column names (lower case, German and English) per field */
+const COLUMN_ALIASES: Record<'title' | 'url' | 'text' | 'headcount' | 'hourlyRate', string[]> = {
+  title: ['title', 'role', 'job', 'jobtitle', 'titel', 'rolle', 'stelle'],
+  url: ['url', 'link', 'joburl'],
+  text: ['text', 'description', 'jobtext', 'beschreibung', 'stellenbeschreibung'],
+  headcount: ['headcount', 'count', 'fte', 'anzahl', 'mitarbeiter'],
+  hourlyRate: ['hourlyrate', 'rate', 'stundensatz', 'stundenlohn']
+};
+
+export const MAX_BATCH_ROLES = 200;
+
+interface SourceRecord {
+  row: number;
+  fields: Record<string, string>;
+}
+
+/**
+ * Parse a batch file; the format is taken from the extension, falling back to content sniffing
+ */
+export function parseBatchFile(content: string, fileName = ''): BatchImportResult {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  const isJson = fileName.toLowerCase().endsWith('.json') ||
+    (!fileName.toLowerCase().endsWith('.csv') && /^[[{]/.test(trimmed));
+
+  return isJson ? parseBatchJson(trimmed) : parseBatchCsv(trimmed);
+}
+
+/**
+ * JSON: an array of role objects, or { roles: [...] }
+ */
+export function parseBatchJson(content: string): BatchImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { roles: [], errors: [{ row: 0, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }] };
+  }
+
+  const items = Array.isArray(data) ? data : (data as { roles?: unknown })?.roles;
+  if (!Array.isArray(items)) {
+    return { roles: [], errors: [{ row: 0, message: 'Expected an array of roles or an object with a "roles" array' }] };
+  }
+
+  const records = items.map((item, index): SourceRecord => ({
+    row: index + 1,
+    // Normalize keys so JSON accepts the same column names as CSV
+    fields: item && typeof item === 'object'
+      ? Object.fromEntries(
+          Object.entries(item as Record<string, unknown>).map(([key, value]) => [normalizeHeader(key), value == null ? '' : String(value)])
+        )
+      : {}
+  }));
+  return toRoles(records);
+}
+
+/**
+ * CSV with a header row; comma or semicolon separated (as exported by German Excel), quoted fields may span lines
+ */
+export function parseBatchCsv(content: string): BatchImportResult {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const [header, ...rows] = splitCsv(content, delimiter);
+
+  if (!header) {
+    return { roles: [], errors: [{ row: 0, message: 'File is empty' }] };
+  }
+
+  const columns = header.map(normalizeHeader);
+  const records = rows
+    // The header is row 1
+    .map((cells, index): SourceRecord => ({
+      row: index + 2,
+      fields: Object.fromEntries(columns.map((column, columnIndex) => [column, cells[columnIndex] ?? '']))
+    }))
+    .filter(record => Object.values(record.fields).some(value => value.trim()));
+  return toRoles(records);
+}
+
+function normalizeHeader(header: string): string {
+  const key = header.trim().toLowerCase().replace(/[\s_-]/g, '');
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    if (aliases.includes(key)) return field;
+  }
+  return key;
+}
+
+function splitCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Accepts "1.234,5" (German) as well as "1234.5" */
+function parseNumber(value: string): number | undefined {
+  const clean = value.trim().replace(/[€$\s]/g, '');
+  if (!clean) return undefined;
+  const normalized = /,\d{1,2}$/.test(clean) ? clean.replace(/\./g, '').replace(',', '.') : clean.replace(/,/g, '');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : NaN;
+}
+
+function toRoles(records: SourceRecord[]): BatchImportResult {
+  const roles: BatchRole[] = [];
+  const errors: BatchImportError[] = [];
+
+  records.forEach(({ row, fields: record }) => {
+    const title = (record.title ?? '').trim();
+    const url = (record.url ?? '').trim();
+    const text = (record.text ?? '').trim();
+    const headcount = parseNumber(record.headcount ?? '');
+    const hourlyRate = parseNumber(record.hourlyRate ?? '');
+
+    if (!url && !text) {
+      errors.push({ row, message: 'Either a URL or the job text is required' });
+      return;
+    }
+    if (url && !/^https?:\/\//i.test(url)) {
+      errors.push({ row, message: `Invalid URL: ${url}` });
+      return;
+    }
+    if (headcount !== undefined && (Number.isNaN(headcount) || headcount <= 0)) {
+      errors.push({ row, message: `Headcount must be a positive number, got "${record.headcount}"` });
+      return;
+    }
+    if (hourlyRate !== undefined && (Number.isNaN(hourlyRate) || hourlyRate < 0)) {
+      errors.push({ row, message: `Hourly rate must be a non-negative number, got "${record.hourlyRate}"` });
+      return;
+    }
+
+    roles.push({
+      id: `role-${row}`,
+      row,
+      title: title || text.split('\n')[0].slice(0, 60) || url,
+      url: url || undefined,
+      text: text || undefined,
+      headcount: headcount ?? 1,
+      hourlyRate
+    });
+  });
+
+  if (roles.length > MAX_BATCH_ROLES) {
+    errors.push({ row: 0, message: `Only the first ${MAX_BATCH_ROLES} roles are analyzed` });
+    roles.length = MAX_BATCH_ROLES;
+  }
+
+  return { roles, errors };
+}
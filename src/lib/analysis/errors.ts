@@ -0,0 +1,42 @@
+import { AnalysisError, AnalysisErrorCode, AnalysisFieldError } from './types';
+
+/**
+ * Throwable AnalysisError
+ * Keeps the error code and field-level details intact across pipeline stages
+ */
+export class AnalysisPipelineError extends Error implements AnalysisError {
+  readonly code: AnalysisErrorCode | string;
+  readonly details?: unknown;
+  readonly fieldErrors?: AnalysisFieldError[];
+  readonly timestamp: Date;
+
+  constructor(
+    code: AnalysisErrorCode | string,
+    message: string,
+    options: { details?: unknown; fieldErrors?: AnalysisFieldError[] } = {}
+  ) {
+    super(message);
+    this.name = 'AnalysisPipelineError';
+    this.code = code;
+    this.details = options.details;
+    this.fieldErrors = options.fieldErrors;
+    this.timestamp = new Date();
+  }
+
+  /**
+   * Plain AnalysisError object, e.g. for monitoring or serialization
+   */
+  toJSON(): AnalysisError {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+      fieldErrors: this.fieldErrors,
+      timestamp: this.timestamp
+    };
+  }
+}
+
+export function isAnalysisPipelineError(error: unknown): error is AnalysisPipelineError {
+  return error instanceof AnalysisPipelineError;
+}
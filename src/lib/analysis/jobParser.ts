@@ -1,32 +1,73 @@
 import { openaiClient, isOpenAIAvailable } from '../openai';
-import { FastAnalysisResult } from '../types';
+import { FastAnalysisResult } from './types';
+import { OfflineAnalyzer } from './offlineAnalyzer';
+import { AnalysisPipelineError, isAnalysisPipelineError } from './errors';
+import type { CompleteAnalysisTask, CompleteAnalysisStageEvent } from './responseSchema';
+
+export interface JobParserOptions {
+  /** Skip the LLM entirely and use the deterministic offline analyzer */
+  offline?: boolean;
+  /** Fall back to the offline analyzer when the LLM is unavailable or fails (default: true) */
+  fallbackEnabled?: boolean;
+}
+
+/**
+ * Stage events while a streamed analysis arrives; task heads are already converted
+ */
+export type JobParserStageEvent =
+  | { type: 'task'; index: number; result: FastAnalysisResult }
+  | Exclude<CompleteAnalysisStageEvent, { type: 'task' }>;
 
 /**
  * Job Parser Service
  * Handles parsing and initial analysis of job descriptions
  */
 export class JobParser {
+  private offline: boolean;
+  private fallbackEnabled: boolean;
+  private offlineAnalyzer: OfflineAnalyzer | null = null;
+
+  constructor(options: JobParserOptions = {}) {
+    this.offline = options.offline ?? false;
+    this.fallbackEnabled = options.fallbackEnabled ?? true;
+  }
+
   /**
    * Parse job description and extract main tasks
+   * With onStage the LLM response is streamed and tasks are reported as they arrive;
+   * offline results are only returned at the end. The signal cancels the LLM request.
    */
-  async parseJobDescription(jobText: string, lang: 'de' | 'en' = 'de'): Promise<FastAnalysisResult[]> {
+  async parseJobDescription(
+    jobText: string,
+    lang: 'de' | 'en' = 'de',
+    onStage?: (event: JobParserStageEvent) => void,
+    signal?: AbortSignal
+  ): Promise<FastAnalysisResult[]> {
     console.log('🤖 Starting job parsing...');
     
+    if (this.offline) {
+      return this.parseOffline(jobText, lang);
+    }
+
     if (!isOpenAIAvailable()) {
-      throw new Error('OpenAI API nicht konfiguriert. Bitte API-Key in .env hinterlegen.');
+      if (!this.fallbackEnabled) {
+        throw new AnalysisPipelineError('AI_UNAVAILABLE', 'OpenAI is not configured and the offline fallback is disabled');
+      }
+      console.warn('📴 OpenAI not available, using offline analysis');
+      return this.parseOffline(jobText, lang);
     }
 
     try {
       console.log('🚀 Starting complete AI analysis...');
-      const completeAnalysis = await openaiClient.analyzeJobDescription(jobText, lang);
-      
-      // DEBUG: Log the complete AI response
-      console.log('🔍 [DEBUG] Complete AI analysis response:', JSON.stringify(completeAnalysis, null, 2));
-      
-      if (!completeAnalysis.tasks || completeAnalysis.tasks.length === 0) {
-        throw new Error('AI-Analyse fehlgeschlagen - keine Aufgaben extrahiert');
-      }
+      const completeAnalysis = onStage
+        ? await openaiClient.streamJobAnalysis(jobText, lang, event => onStage(
+            event.type === 'task'
+              ? { type: 'task', index: event.index, result: this.toFastResult({ ...event.task, subtasks: [], businessCase: null }, jobText) }
+              : event
+          ), signal)
+        : await openaiClient.analyzeJobDescription(jobText, lang, signal);
       
+      // Response is schema-validated by the client (non-empty tasks, ranges, enums)
       console.log('✅ Tasks extracted and analyzed:', completeAnalysis.tasks.length, 'tasks');
       const mainTasks = completeAnalysis.tasks;
       
@@ -34,63 +75,8 @@ export class JobParser {
       const results: FastAnalysisResult[] = [];
       
       for (let i = 0; i < mainTasks.length; i++) {
-        const task = mainTasks[i];
-        const taskText = typeof task === 'string' ? task : task.text;
-        console.log(`📋 Processing main task ${i + 1}/${mainTasks.length}: ${taskText.slice(0, 50)}...`);
-        
-        // Generate varied complexity and trend based on task content
-        const taskTextLower = taskText.toLowerCase();
-        let complexity: 'low' | 'medium' | 'high';
-        let automationTrend: 'increasing' | 'stable' | 'decreasing';
-        let category = 'Allgemein';
-        
-        // Determine complexity based on task content
-        if (taskTextLower.includes('debugging') || taskTextLower.includes('fehlerbehebung') || 
-            taskTextLower.includes('integration') || taskTextLower.includes('optimierung') ||
-            taskTextLower.includes('entwicklung') || taskTextLower.includes('programmierung')) {
-          complexity = 'high';
-        } else if (taskTextLower.includes('dokumentation') || taskTextLower.includes('testing') || 
-                   taskTextLower.includes('review') || taskTextLower.includes('code-review')) {
-          complexity = 'medium';
-        } else if (completeAnalysis?.businessCase?.automationPotential >= 85) {
-          complexity = 'low';
-        } else if (completeAnalysis?.businessCase?.automationPotential >= 60) {
-          complexity = 'medium';
-        } else {
-          complexity = 'high';
-        }
-        
-        // Determine trend based on task type
-        if (taskTextLower.includes('ai') || taskTextLower.includes('automatisierung') || 
-            taskTextLower.includes('workflow') || taskTextLower.includes('machine learning')) {
-          automationTrend = 'increasing';
-        } else if (taskTextLower.includes('debugging') || taskTextLower.includes('fehlerbehebung') ||
-                   taskTextLower.includes('support') || taskTextLower.includes('wartung') ||
-                   taskTextLower.includes('pflege')) {
-          automationTrend = 'stable';
-        } else {
-          automationTrend = 'increasing';
-        }
-        
-        // Determine proper category based on job context and task content
-        category = this.detectTaskCategory(taskText, jobText);
-        
-        // Convert to FastAnalysisResult format with PRE-GENERATED data
-        const result: FastAnalysisResult = {
-          text: taskText,
-          automationPotential: task.automationPotential || 50,
-          confidence: 90, // High confidence for single AI call
-          category: task.category || category,
-          pattern: 'ai-single-call-preloaded',
-          reasoning: task.reasoning || 'Single AI call analysis completed',
-          subtasks: task.subtasks || [], // Pre-generate subtasks
-          solutions: { workflows: [], agents: [] }, // Skip solutions for speed
-          businessCase: task.businessCase || null, // Pre-generate business case
-          complexity: complexity,
-          trend: automationTrend
-        };
-        
-        results.push(result);
+        console.log(`📋 Processing main task ${i + 1}/${mainTasks.length}: ${mainTasks[i].text.slice(0, 50)}...`);
+        results.push(this.toFastResult(mainTasks[i], jobText));
         console.log(`✅ Main task ${i + 1} completed (batch processed)`);
       }
       
@@ -101,30 +87,80 @@ export class JobParser {
     } catch (error) {
       console.error(`❌ Failed to analyze tasks in batch:`, error);
       
-      // Fallback: create basic results for all tasks
-      const fallbackResults: FastAnalysisResult[] = [];
-      const mainTasks = [jobText]; // Use job text as single task
-      for (let i = 0; i < mainTasks.length; i++) {
-        const taskText = mainTasks[i];
-        const fallbackResult: FastAnalysisResult = {
-          text: taskText,
-          automationPotential: 50,
-          confidence: 30,
-          category: 'general',
-          pattern: 'fallback',
-          reasoning: 'Fallback analysis due to AI error',
-          subtasks: [],
-          solutions: { workflows: [], agents: [] },
-          businessCase: null,
-          complexity: 'medium',
-          trend: 'stable'
-        };
-        fallbackResults.push(fallbackResult);
+      // Invalid model output must not turn into plausible-looking offline scores
+      if (isAnalysisPipelineError(error) || !this.fallbackEnabled) {
+        throw error;
       }
       
-      console.log(`✅ Fallback analysis finished: ${fallbackResults.length} main tasks processed`);
-      return fallbackResults;
+      // Fallback: deterministic offline analysis (e.g. during OpenAI outages)
+      return this.parseOffline(jobText, lang);
+    }
+  }
+
+  /**
+   * Convert one validated AI task into a FastAnalysisResult
+   */
+  private toFastResult(task: CompleteAnalysisTask, jobText: string): FastAnalysisResult {
+    // Generate varied complexity and trend based on task content
+    const taskText = task.text;
+    const taskTextLower = taskText.toLowerCase();
+    let complexity: 'low' | 'medium' | 'high';
+    let automationTrend: 'increasing' | 'stable' | 'decreasing';
+    let category = 'Allgemein';
+    
+    // Determine complexity based on task content
+    if (taskTextLower.includes('debugging') || taskTextLower.includes('fehlerbehebung') || 
+        taskTextLower.includes('integration') || taskTextLower.includes('optimierung') ||
+        taskTextLower.includes('entwicklung') || taskTextLower.includes('programmierung')) {
+      complexity = 'high';
+    } else if (taskTextLower.includes('dokumentation') || taskTextLower.includes('testing') || 
+               taskTextLower.includes('review') || taskTextLower.includes('code-review')) {
+      complexity = 'medium';
+    } else if ((task.businessCase?.automationPotential ?? 0) >= 85) {
+      complexity = 'low';
+    } else if ((task.businessCase?.automationPotential ?? 0) >= 60) {
+      complexity = 'medium';
+    } else {
+      complexity = 'high';
+    }
+    
+    // Determine trend based on task type
+    if (/\bai\b/.test(taskTextLower) || taskTextLower.includes('automatisierung') || 
+        taskTextLower.includes('workflow') || taskTextLower.includes('machine learning')) {
+      automationTrend = 'increasing';
+    } else {
+      automationTrend = 'stable';
+    }
+    
+    // Determine proper category based on job context and task content
+    category = this.detectTaskCategory(taskText, jobText);
+    
+    // Convert to FastAnalysisResult format with PRE-GENERATED data
+    const result: FastAnalysisResult = {
+      text: taskText,
+      automationPotential: task.automationPotential,
+      confidence: 90, // High confidence for single AI call
+      category: task.category || category,
+      pattern: 'ai-single-call-preloaded',
+      reasoning: task.reasoning || 'Single AI call analysis completed',
+      subtasks: task.subtasks || [], // Pre-generate subtasks
+      solutions: { workflows: [], agents: [] }, // Skip solutions for speed
+      businessCase: task.businessCase ?? undefined, // Pre-generate business case
+      complexity: complexity,
+      trend: automationTrend
+    };
+    
+    return result;
+  }
+
+  /**
+   * Rule-based parsing using the role catalogs, no external calls
+   */
+  parseOffline(jobText: string, lang: 'de' | 'en' = 'de'): FastAnalysisResult[] {
+    if (!this.offlineAnalyzer) {
+      this.offlineAnalyzer = new OfflineAnalyzer();
     }
+    return this.offlineAnalyzer.analyze(jobText, lang);
   }
 
   /**
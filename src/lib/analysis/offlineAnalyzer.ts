@@ -0,0 +1,257 @@
+import { FastAnalysisResult } from './types';
+import { TaskClassifier } from './taskClassifier';
+import { validateCatalog, type Catalog, type CatalogTask } from '../catalog/schema';
+import { AUTOMATION_TENDENCY } from '../catalog/taxonomy';
+
+/**
+ * Pattern marker for results produced without an LLM
+ */
+export const OFFLINE_PATTERN = 'offline-rule-based';
+
+const MAX_TASKS = 12;
+const MIN_TASKS = 3;
+const MIN_MATCH_SCORE = 0.15;
+
+// Confidence on the same 0-100 scale the AI path uses (90 for a single AI call)
+const CONFIDENCE_CATALOG_MATCH = 50;
+const CONFIDENCE_RULES_ONLY = 30;
+
+// Score anchors derived from the taxonomy's automation tendency
+const TENDENCY_ANCHOR: Record<'Automatable' | 'Human', number> = {
+  Automatable: 80,
+  Human: 25
+};
+
+const TASK_SECTION_HEADINGS = [
+  'aufgaben', 'ihre aufgaben', 'deine aufgaben', 'tätigkeiten', 'verantwortlichkeiten',
+  'responsibilities', 'tasks', 'your tasks', 'duties', 'what you will do', "what you'll do", 'role'
+];
+
+const SKIPPED_SECTION_HEADINGS = [
+  'anforderungen', 'profil', 'ihr profil', 'dein profil', 'qualifikationen', 'wir bieten', 'benefits',
+  'requirements', 'qualifications', 'your profile', 'what we offer', 'we offer', 'about us', 'über uns',
+  'beschreibung', 'description', 'quelle'
+];
+
+const STOPWORDS = new Set([
+  'and', 'or', 'the', 'a', 'an', 'of', 'for', 'to', 'in', 'on', 'with', 'by', 'as', 'at', 'from', 'into', 'via',
+  'und', 'oder', 'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines', 'für', 'mit',
+  'von', 'zu', 'zur', 'zum', 'im', 'in', 'auf', 'bei', 'sowie', 'aus', 'nach', 'über'
+]);
+
+type CatalogMatch = {
+  item: CatalogTask;
+  role: string;
+  score: number;
+};
+
+/**
+ * Load and validate the role catalogs bundled from catalog/*.json
+ */
+function loadCatalogs(): Catalog[] {
+  const modules = import.meta.glob('../../../catalog/*.json', { eager: true, import: 'default' });
+
+  return Object.entries(modules)
+    .filter(([path]) => !path.endsWith('/index.json'))
+    .map(([path, data]) => {
+      const validation = validateCatalog(data);
+      if (!validation.ok) {
+        console.warn(`⚠️ [OfflineAnalyzer] Skipping invalid catalog ${path}: ${validation.error}`);
+        return null;
+      }
+      return validation.value;
+    })
+    .filter((catalog): catalog is Catalog => catalog !== null);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-zäöüß0-9]+/i)
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+/**
+ * Offline Analyzer Service
+ * Deterministic, rule-based job analysis used when the LLM is unavailable.
+ * Tasks are extracted from the job text (bullet lists, task sections) and
+ * matched against the role catalogs; scores combine the TaskClassifier
+ * keyword heuristics with the taxonomy's automation tendency.
+ */
+export class OfflineAnalyzer {
+  private taskClassifier: TaskClassifier;
+  private catalogs: Catalog[];
+
+  constructor(catalogs: Catalog[] = loadCatalogs()) {
+    this.taskClassifier = new TaskClassifier();
+    this.catalogs = catalogs;
+  }
+
+  /**
+   * Analyze a job description without any external calls
+   */
+  analyze(jobText: string, lang: 'de' | 'en' = 'de'): FastAnalysisResult[] {
+    console.log('📴 Starting offline analysis...');
+
+    const role = this.detectRole(jobText);
+    const taskTexts = this.extractTasks(jobText);
+
+    // Supplement sparse descriptions with the detected role's catalog tasks
+    if (taskTexts.length < MIN_TASKS && role) {
+      for (const item of role.items) {
+        if (taskTexts.length >= MIN_TASKS) break;
+        if (!taskTexts.some(text => text.toLowerCase() === item.title.toLowerCase())) {
+          taskTexts.push(item.title);
+        }
+      }
+    }
+
+    const results = taskTexts
+      .slice(0, MAX_TASKS)
+      .map(taskText => this.scoreTask(taskText, jobText, role, lang));
+
+    console.log(`✅ Offline analysis finished: ${results.length} tasks (role: ${role?.role ?? 'unknown'})`);
+    return results;
+  }
+
+  /**
+   * Extract task candidates from bullet lists and task sections
+   */
+  extractTasks(jobText: string): string[] {
+    const lines = jobText
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(Boolean);
+
+    const bulletPattern = /^(?:[-•*–·▪●]|\d+[.)])\s+/;
+    const tasks: string[] = [];
+    let inSkippedSection = false;
+
+    for (const line of lines) {
+      const isBullet = bulletPattern.test(line);
+      const heading = line.replace(/:\s*$/, '').toLowerCase();
+
+      // Section headings toggle whether following bullets count as tasks
+      if (!isBullet && (line.endsWith(':') || heading.length <= 40)) {
+        if (SKIPPED_SECTION_HEADINGS.some(h => heading.startsWith(h))) {
+          inSkippedSection = true;
+          continue;
+        }
+        if (TASK_SECTION_HEADINGS.some(h => heading.startsWith(h))) {
+          inSkippedSection = false;
+          continue;
+        }
+      }
+
+      if (isBullet && !inSkippedSection) {
+        tasks.push(line.replace(bulletPattern, '').trim());
+      }
+    }
+
+    // No bullet list: fall back to sentence splitting
+    if (tasks.length === 0) {
+      const sentences = jobText
+        .split(/(?<=[.;!?])\s+|\n+/)
+        .map(sentence => sentence.replace(/[.;!?]+$/, '').trim());
+      tasks.push(...sentences.filter(sentence => {
+        const words = sentence.split(/\s+/).length;
+        return words >= 3 && words <= 30 && !sentence.endsWith(':');
+      }));
+    }
+
+    const seen = new Set<string>();
+    return tasks
+      .map(task => task.replace(/\s{2,}/g, ' '))
+      .filter(task => task.length >= 8 && task.length <= 240)
+      .filter(task => {
+        const key = task.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Detect the best matching catalog role for the job text
+   */
+  detectRole(jobText: string): Catalog | null {
+    const lowerText = jobText.toLowerCase();
+
+    const byTitle = this.catalogs.find(catalog =>
+      lowerText.includes(catalog.role.toLowerCase()) || lowerText.includes(catalog.roleSlug.replace(/-/g, ' '))
+    );
+    if (byTitle) return byTitle;
+
+    // Otherwise pick the role whose tags overlap most with the text
+    const tokens = new Set(tokenize(jobText));
+    let best: { catalog: Catalog; hits: number } | null = null;
+    for (const catalog of this.catalogs) {
+      const tags = new Set(catalog.items.flatMap(item => item.tags));
+      const hits = [...tags].filter(tag => tokens.has(tag)).length;
+      if (hits > 0 && (!best || hits > best.hits)) {
+        best = { catalog, hits };
+      }
+    }
+    return best?.catalog ?? null;
+  }
+
+  /**
+   * Find the closest catalog task by token overlap, preferring the detected role
+   */
+  matchCatalogTask(taskText: string, role: Catalog | null): CatalogMatch | null {
+    const taskTokens = new Set(tokenize(taskText));
+    if (taskTokens.size === 0) return null;
+
+    let best: CatalogMatch | null = null;
+    for (const catalog of this.catalogs) {
+      const roleBonus = role && catalog.roleSlug === role.roleSlug ? 0.05 : 0;
+      for (const item of catalog.items) {
+        const itemTokens = new Set(tokenize(`${item.title} ${item.description} ${item.tags.join(' ')}`));
+        const overlap = [...taskTokens].filter(token => itemTokens.has(token)).length;
+        if (overlap === 0) continue;
+
+        const score = overlap / taskTokens.size + roleBonus;
+        if (!best || score > best.score) {
+          best = { item, role: catalog.role, score };
+        }
+      }
+    }
+
+    return best && best.score >= MIN_MATCH_SCORE ? best : null;
+  }
+
+  private scoreTask(taskText: string, jobText: string, role: Catalog | null, lang: 'de' | 'en'): FastAnalysisResult {
+    const lowerText = taskText.toLowerCase();
+    const classifierCategory = this.taskClassifier.detectTaskCategory(taskText);
+    const keywordScore = this.taskClassifier.calculateAutomationPotential(lowerText, classifierCategory);
+    const industry = this.taskClassifier.detectIndustry(`${role?.role ?? ''} ${jobText} ${taskText}`);
+    const match = this.matchCatalogTask(taskText, role);
+
+    let automationPotential = keywordScore;
+    let reasoning = lang === 'en'
+      ? `Offline analysis: keyword rules (${classifierCategory})`
+      : `Offline-Analyse: Schlüsselwortregeln (${classifierCategory})`;
+
+    if (match) {
+      const tendency = AUTOMATION_TENDENCY[match.item.category];
+      automationPotential = Math.round((keywordScore + TENDENCY_ANCHOR[tendency]) / 2);
+      reasoning = lang === 'en'
+        ? `Offline analysis: matched catalog task "${match.item.title}" (${match.role}, ${match.item.category} → ${tendency})`
+        : `Offline-Analyse: Katalogaufgabe "${match.item.title}" (${match.role}, ${match.item.category} → ${tendency})`;
+    }
+
+    return {
+      text: taskText,
+      automationPotential,
+      confidence: match ? CONFIDENCE_CATALOG_MATCH : CONFIDENCE_RULES_ONLY,
+      category: industry,
+      pattern: OFFLINE_PATTERN,
+      reasoning,
+      subtasks: [],
+      solutions: { workflows: [], agents: [] },
+      businessCase: null,
+      complexity: automationPotential >= 70 ? 'low' : automationPotential >= 30 ? 'medium' : 'high',
+      trend: 'stable'
+    };
+  }
+}
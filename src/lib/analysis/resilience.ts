@@ -0,0 +1,105 @@
+/**
+ * Resilience helpers for the analysis pipeline
+ * Per-stage timeouts via AbortController and retries with exponential backoff
+ * for transient failures (timeouts, network errors, rate limits, 5xx).
+ */
+
+import { AnalysisPipelineError, isAnalysisPipelineError } from './errors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for each further retry */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each retry with the upcoming attempt number (2, 3, …) */
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const TRANSIENT_PATTERNS = [
+  /timed? ?out/i,
+  /network/i,
+  /failed to fetch/i,
+  /econnreset|econnrefused|etimedout/i,
+  /rate limit|too many requests|\b429\b/i,
+  /\b50[0234]\b|bad gateway|service unavailable|gateway timeout/i
+];
+
+/**
+ * Whether retrying the same request may succeed
+ */
+export function isTransientError(error: unknown): boolean {
+  if (isAnalysisPipelineError(error)) {
+    return error.code === 'TIMEOUT';
+  }
+  if (error instanceof TypeError) {
+    // fetch() rejects with TypeError on network failures
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Run one stage with its own AbortController; rejects with a TIMEOUT error once
+ * timeoutMs has passed, even if the stage ignores the signal.
+ */
+export async function runWithTimeout<T>(
+  stage: string,
+  timeoutMs: number,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AnalysisPipelineError('TIMEOUT', `Stage "${stage}" timed out after ${timeoutMs}ms`, {
+        details: { stage, timeoutMs }
+      });
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Retry transient failures with exponential backoff; other errors are rethrown immediately
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 8000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt > options.maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      options.onRetry?.(attempt + 1, error);
+      const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, for calls that cannot be cancelled themselves
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
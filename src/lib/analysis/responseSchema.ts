@@ -0,0 +1,311 @@
+/**
+ * Response Schema - runtime validation for the analyze-job-complete LLM response
+ * Collects every field-level problem instead of stopping at the first one, so
+ * the list can be fed back to the model in a repair prompt.
+ */
+
+import { AnalysisFieldError } from './types';
+
+export const PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const COMPLEXITIES = ['low', 'medium', 'high'] as const;
+export const EMPLOYMENT_TYPES = ['employee', 'freelancer'] as const;
+
+export interface CompleteAnalysisSubtask {
+  id: string;
+  title: string;
+  description: string;
+  automationPotential: number;
+  estimatedTime: number;
+  priority: typeof PRIORITIES[number];
+  complexity: typeof COMPLEXITIES[number];
+  systems: string[];
+  risks: string[];
+  opportunities: string[];
+  dependencies: string[];
+}
+
+export interface CompleteAnalysisBusinessCase {
+  manualHours: number;
+  automatedHours: number;
+  automationPotential: number;
+  savedHours: number;
+  setupCostHours: number;
+  setupCostMoney: number;
+  roi: number;
+  paybackPeriodYears: number;
+  hourlyRateEmployee: number;
+  hourlyRateFreelancer: number;
+  employmentType: typeof EMPLOYMENT_TYPES[number];
+  reasoning: string;
+}
+
+export interface CompleteAnalysisTask {
+  text: string;
+  automationPotential: number;
+  category: string;
+  reasoning: string;
+  subtasks: CompleteAnalysisSubtask[];
+  businessCase: CompleteAnalysisBusinessCase | null;
+}
+
+export interface CompleteAnalysisResponse {
+  tasks: CompleteAnalysisTask[];
+  summary: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: AnalysisFieldError[] };
+
+export type CompleteAnalysisTaskHead = Omit<CompleteAnalysisTask, 'subtasks' | 'businessCase'>;
+
+/**
+ * Stage events emitted while a streamed response is still arriving
+ */
+export type CompleteAnalysisStageEvent =
+  | { type: 'task'; index: number; task: CompleteAnalysisTaskHead }
+  | { type: 'subtasks'; index: number; subtasks: CompleteAnalysisSubtask[] }
+  | { type: 'businessCase'; index: number; businessCase: CompleteAnalysisBusinessCase };
+
+/**
+ * Small collector so each check reads as one line
+ */
+class FieldChecker {
+  readonly errors: AnalysisFieldError[] = [];
+
+  fail(path: string, message: string, received: unknown): void {
+    this.errors.push({ path, message, received });
+  }
+
+  string(value: unknown, path: string, options: { optional?: boolean; fallback?: string } = {}): string {
+    if (value === undefined && options.optional) return options.fallback ?? '';
+    if (typeof value !== 'string' || !value.trim()) {
+      this.fail(path, 'must be a non-empty string', value);
+      return '';
+    }
+    return value.trim();
+  }
+
+  number(value: unknown, path: string, options: { min?: number; max?: number; optional?: boolean; fallback?: number } = {}): number {
+    if (value === undefined && options.optional) return options.fallback ?? 0;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'must be a finite number', value);
+      return 0;
+    }
+    if (options.min !== undefined && value < options.min) {
+      this.fail(path, `must be >= ${options.min}`, value);
+    }
+    if (options.max !== undefined && value > options.max) {
+      this.fail(path, `must be <= ${options.max}`, value);
+    }
+    return value;
+  }
+
+  percentage(value: unknown, path: string): number {
+    return this.number(value, path, { min: 0, max: 100 });
+  }
+
+  oneOf<T extends string>(value: unknown, allowed: readonly T[], path: string, fallback: T): T {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.fail(path, `must be one of: ${allowed.join(', ')}`, value);
+      return fallback;
+    }
+    return value as T;
+  }
+
+  stringArray(value: unknown, path: string): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      this.fail(path, 'must be an array of strings', value);
+      return [];
+    }
+    return value;
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.fail(path, 'must be an object', value);
+      return null;
+    }
+    return value as Record<string, unknown>;
+  }
+}
+
+function validateSubtask(check: FieldChecker, raw: unknown, path: string, index: number): CompleteAnalysisSubtask {
+  const subtask = check.object(raw, path) ?? {};
+  return {
+    id: check.string(subtask.id, `${path}.id`, { optional: true, fallback: `sub${index + 1}` }),
+    title: check.string(subtask.title, `${path}.title`),
+    description: check.string(subtask.description, `${path}.description`, { optional: true }),
+    automationPotential: check.percentage(subtask.automationPotential, `${path}.automationPotential`),
+    estimatedTime: check.number(subtask.estimatedTime, `${path}.estimatedTime`, { min: 0 }),
+    priority: check.oneOf(subtask.priority, PRIORITIES, `${path}.priority`, 'medium'),
+    complexity: check.oneOf(subtask.complexity, COMPLEXITIES, `${path}.complexity`, 'medium'),
+    systems: check.stringArray(subtask.systems, `${path}.systems`),
+    risks: check.stringArray(subtask.risks, `${path}.risks`),
+    opportunities: check.stringArray(subtask.opportunities, `${path}.opportunities`),
+    dependencies: check.stringArray(subtask.dependencies, `${path}.dependencies`)
+  };
+}
+
+function validateBusinessCase(check: FieldChecker, raw: unknown, path: string): CompleteAnalysisBusinessCase | null {
+  if (raw === undefined || raw === null) return null;
+  const businessCase = check.object(raw, path);
+  if (!businessCase) return null;
+
+  const hours = (key: string) => check.number(businessCase[key], `${path}.${key}`, { min: 0 });
+  const optionalNumber = (key: string, min?: number) =>
+    check.number(businessCase[key], `${path}.${key}`, { optional: true, min });
+
+  return {
+    manualHours: hours('manualHours'),
+    automatedHours: hours('automatedHours'),
+    automationPotential: check.percentage(businessCase.automationPotential, `${path}.automationPotential`),
+    savedHours: hours('savedHours'),
+    setupCostHours: optionalNumber('setupCostHours', 0),
+    setupCostMoney: optionalNumber('setupCostMoney', 0),
+    roi: optionalNumber('roi'),
+    paybackPeriodYears: optionalNumber('paybackPeriodYears', 0),
+    hourlyRateEmployee: hours('hourlyRateEmployee'),
+    hourlyRateFreelancer: hours('hourlyRateFreelancer'),
+    employmentType: check.oneOf(businessCase.employmentType, EMPLOYMENT_TYPES, `${path}.employmentType`, 'employee'),
+    reasoning: check.string(businessCase.reasoning, `${path}.reasoning`, { optional: true })
+  };
+}
+
+function validateTaskHead(check: FieldChecker, task: Record<string, unknown>, path: string): CompleteAnalysisTaskHead {
+  return {
+    text: check.string(task.text, `${path}.text`),
+    automationPotential: check.percentage(task.automationPotential, `${path}.automationPotential`),
+    category: check.string(task.category, `${path}.category`, { optional: true }),
+    reasoning: check.string(task.reasoning, `${path}.reasoning`, { optional: true })
+  };
+}
+
+function validateSubtaskList(check: FieldChecker, raw: unknown, path: string): CompleteAnalysisSubtask[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    check.fail(path, 'must be an array', raw);
+    return [];
+  }
+  return raw.map((sub: unknown, j: number) => validateSubtask(check, sub, `${path}[${j}]`, j));
+}
+
+function toResult<T>(check: FieldChecker, value: T): ValidationResult<T> {
+  return check.errors.length > 0 ? { ok: false, errors: check.errors } : { ok: true, value };
+}
+
+/**
+ * Stage validators for streamed responses; each checks one part of a task in isolation
+ */
+export function validateTaskHeadStage(raw: unknown, path = 'task'): ValidationResult<CompleteAnalysisTaskHead> {
+  const check = new FieldChecker();
+  const task = check.object(raw, path) ?? {};
+  return toResult(check, validateTaskHead(check, task, path));
+}
+
+export function validateSubtasksStage(raw: unknown, path = 'subtasks'): ValidationResult<CompleteAnalysisSubtask[]> {
+  const check = new FieldChecker();
+  return toResult(check, validateSubtaskList(check, raw, path));
+}
+
+export function validateBusinessCaseStage(raw: unknown, path = 'businessCase'): ValidationResult<CompleteAnalysisBusinessCase> {
+  const check = new FieldChecker();
+  const businessCase = validateBusinessCase(check, raw, path);
+  if (!businessCase) {
+    return { ok: false, errors: check.errors.length > 0 ? check.errors : [{ path, message: 'must be an object', received: raw }] };
+  }
+  return toResult(check, businessCase);
+}
+
+/**
+ * Validate a parsed analyze-job-complete response
+ */
+export function validateCompleteAnalysis(raw: unknown): ValidationResult<CompleteAnalysisResponse> {
+  const check = new FieldChecker();
+  const root = check.object(raw, '$');
+  if (!root) {
+    return { ok: false, errors: check.errors };
+  }
+
+  if (!Array.isArray(root.tasks) || root.tasks.length === 0) {
+    return { ok: false, errors: [{ path: 'tasks', message: 'must be a non-empty array', received: root.tasks }] };
+  }
+
+  const tasks = root.tasks.map((rawTask: unknown, i: number): CompleteAnalysisTask => {
+    const path = `tasks[${i}]`;
+    const task = check.object(rawTask, path) ?? {};
+    const subtasks = validateSubtaskList(check, task.subtasks, `${path}.subtasks`);
+
+    return {
+      ...validateTaskHead(check, task, path),
+      subtasks,
+      businessCase: validateBusinessCase(check, task.businessCase, `${path}.businessCase`)
+    };
+  });
+
+  const summary = root.summary === undefined ? '' : check.string(root.summary, 'summary', { optional: true });
+
+  return toResult(check, { tasks, summary });
+}
+
+/**
+ * Parse raw model output and validate it in one step
+ */
+export function parseCompleteAnalysis(content: string): ValidationResult<CompleteAnalysisResponse> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    try {
+      if (!jsonMatch) throw error;
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch {
+      return { ok: false, errors: [{ path: '$', message: 'response is not valid JSON' }] };
+    }
+  }
+  return validateCompleteAnalysis(parsed);
+}
+
+/**
+ * Format field errors for logs and repair prompts
+ */
+export function formatFieldErrors(errors: AnalysisFieldError[], limit = 20): string {
+  const lines = errors.slice(0, limit).map(error =>
+    `- ${error.path}: ${error.message}${error.received !== undefined ? ` (got ${JSON.stringify(error.received)})` : ''}`
+  );
+  if (errors.length > limit) {
+    lines.push(`- … ${errors.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Build the messages asking the model to fix its previous output
+ */
+export function buildRepairMessages(
+  previousOutput: string,
+  errors: AnalysisFieldError[],
+  lang: 'de' | 'en'
+): Array<{ role: 'system' | 'user'; content: string }> {
+  const rules = lang === 'de'
+    ? `Regeln: "tasks" ist ein nicht-leeres Array. automationPotential ist eine Zahl von 0 bis 100. priority ist eine von ${PRIORITIES.join(', ')}; complexity eine von ${COMPLEXITIES.join(', ')}; employmentType eine von ${EMPLOYMENT_TYPES.join(', ')}. Stunden und Zeiten sind Zahlen >= 0.`
+    : `Rules: "tasks" is a non-empty array. automationPotential is a number from 0 to 100. priority is one of ${PRIORITIES.join(', ')}; complexity one of ${COMPLEXITIES.join(', ')}; employmentType one of ${EMPLOYMENT_TYPES.join(', ')}. Hours and times are numbers >= 0.`;
+
+  return [
+    {
+      role: 'system',
+      content: lang === 'de'
+        ? `Du korrigierst ungültiges JSON einer Stellenanalyse. Antworte NUR mit dem korrigierten JSON-Objekt, ohne Markdown. Behalte alle gültigen Inhalte bei.\n${rules}`
+        : `You fix invalid JSON from a job analysis. Respond ONLY with the corrected JSON object, no markdown. Keep all valid content.\n${rules}`
+    },
+    {
+      role: 'user',
+      content: lang === 'de'
+        ? `Fehler:\n${formatFieldErrors(errors)}\n\nVorherige Ausgabe:\n${previousOutput.slice(0, 6000)}`
+        : `Errors:\n${formatFieldErrors(errors)}\n\nPrevious output:\n${previousOutput.slice(0, 6000)}`
+    }
+  ];
+}
@@ -1,4 +1,5 @@
 import { Task } from './taskClassifier';
+import { computeRoleROI, toTaskROIInputs, paybackMonthOf, RoleROI, ROIModelAssumptions } from './roiModel';
 
 export interface AnalysisResult {
   totalScore: number;
@@ -10,8 +11,60 @@ export interface AnalysisResult {
   summary: string;
   recommendations: string[];
   originalText?: string;
+  /** 'offline' when produced by the rule-based analyzer instead of the LLM */
+  analysisMode?: 'ai' | 'offline';
+  lowConfidence?: boolean;
+  /** Role-level ROI (time-share weighted, single person unless a headcount was given) */
+  roi?: RoleROI;
 }
 
+/** One analyzed role of a batch, with its headcount and optional loaded hourly cost */
+export interface RoleAnalysisInput {
+  roleId: string;
+  title: string;
+  headcount: number;
+  hourlyRate?: number;
+  result: AnalysisResult;
+}
+
+export interface RoleROISummary {
+  roleId: string;
+  title: string;
+  headcount: number;
+  automationScore: number;
+  /** Saved hours per person and month (business case hours are monthly) */
+  savedHoursPerMonth: number;
+  /** Net savings per year at full level, across the whole headcount */
+  annualSavings: number;
+  /** Net savings per year of the horizon, ramp-up included */
+  yearlySavings: number[];
+  /** One-time setup cost for the role's automations */
+  setupCost: number;
+  npv: number;
+  paybackMonth: number | null;
+  taskCount: number;
+  analysisMode?: 'ai' | 'offline';
+}
+
+export interface ConsolidatedAnalysisReport {
+  roles: RoleROISummary[];
+  totalHeadcount: number;
+  /** Automation score weighted by headcount */
+  weightedScore: number;
+  ratio: AnalysisResult['ratio'];
+  totalSavedHoursPerMonth: number;
+  totalAnnualSavings: number;
+  totalSetupCost: number;
+  totalNpv: number;
+  /** Net savings per year of the horizon, summed over roles */
+  yearlySavings: number[];
+  /** First month in which cumulative savings cover the setup cost; null if not within the horizon */
+  paybackMonth: number | null;
+  topTasks: Array<{ roleTitle: string; text: string; score: number; annualSavings: number }>;
+  summary: string;
+}
+
+
 /**
  * ROI Aggregator Service
  * Handles aggregation of analysis results, summary generation, and recommendations
@@ -20,7 +73,7 @@ export class ROIAggregator {
   /**
    * Aggregate analysis results
    */
-  aggregateResults(tasks: Task[], originalText: string): AnalysisResult {
+  aggregateResults(tasks: Task[], originalText: string, assumptions: Partial<ROIModelAssumptions> = {}): AnalysisResult {
     console.log('🔄 Aggregating analysis results...');
     
     // Calculate aggregated scores - make them consistent
@@ -29,20 +82,14 @@ export class ROIAggregator {
     const teilweiseCount = tasks.filter(t => t.label === "Teilweise Automatisierbar").length;
     const menschCount = tasks.filter(t => t.label === "Mensch").length;
 
-    // Calculate the overall automation potential based on task scores (weighted average)
-    const weightedScore = totalTasks > 0 ? tasks.reduce((sum, task) => sum + task.score, 0) / totalTasks : 0;
+    // Overall automation potential weighted by each task's share of the role's working time
+    const roi = computeRoleROI(toTaskROIInputs(tasks), assumptions);
+    const overallAutomationPotential = totalTasks > 0 ? roi.automationScore : 0;
     
     // The ratio should reflect the overall automation potential, not just task counts
-    const overallAutomationPotential = Math.round(weightedScore);
-    
-    // Berechne das tatsächliche Automatisierungspotenzial basierend auf den Task-Scores
-    const totalAutomationScore = tasks.reduce((sum, task) => sum + task.score, 0);
-    const maxPossibleScore = totalTasks * 100;
-    const actualAutomationPotential = totalTasks > 0 ? Math.round((totalAutomationScore / maxPossibleScore) * 100) : 0;
-    
     const ratio = {
-      automatisierbar: actualAutomationPotential,
-      mensch: 100 - actualAutomationPotential
+      automatisierbar: overallAutomationPotential,
+      mensch: 100 - overallAutomationPotential
     };
     
     // Ensure ratio values are valid numbers
@@ -65,7 +112,8 @@ export class ROIAggregator {
       tasks,
       summary,
       recommendations,
-      originalText // Store original text for job title extraction
+      originalText, // Store original text for job title extraction
+      roi
     };
   }
 
@@ -197,4 +245,84 @@ export class ROIAggregator {
 
     return recommendations.slice(0, 8); // Begrenzen auf 8 Empfehlungen
   }
+
+  /**
+   * Consolidate analyses of several roles into one report, weighted by headcount
+   */
+  aggregateRoles(
+    roles: RoleAnalysisInput[],
+    lang: 'de' | 'en' = 'de',
+    assumptions: Partial<ROIModelAssumptions> = {}
+  ): ConsolidatedAnalysisReport {
+    const topTasks: ConsolidatedAnalysisReport['topTasks'] = [];
+    const rolesROI = roles.map(role => computeRoleROI(toTaskROIInputs(role.result.tasks), {
+      ...assumptions,
+      headcount: role.headcount,
+      loadedHourlyCost: role.hourlyRate ?? assumptions.loadedHourlyCost
+    }));
+
+    const summaries = roles.map((role, index): RoleROISummary => {
+      const roi = rolesROI[index];
+      roi.tasks.forEach((task, taskIndex) => topTasks.push({
+        roleTitle: role.title,
+        text: task.text,
+        score: role.result.tasks[taskIndex].score,
+        annualSavings: Math.round(task.monthlySavings * 12)
+      }));
+
+      return {
+        roleId: role.roleId,
+        title: role.title,
+        headcount: role.headcount,
+        // Results without tasks carry no time shares, keep their own score
+        automationScore: role.result.tasks.length > 0 ? roi.automationScore : role.result.totalScore,
+        savedHoursPerMonth: roi.savedHoursPerMonth,
+        annualSavings: roi.netMonthlySavings * 12,
+        yearlySavings: roi.yearlySavings,
+        setupCost: roi.setupCost,
+        npv: roi.npv,
+        paybackMonth: roi.paybackMonth,
+        taskCount: role.result.tasks.length,
+        analysisMode: role.result.analysisMode
+      };
+    });
+
+    const totalHeadcount = summaries.reduce((sum, role) => sum + role.headcount, 0);
+    const weightedScore = totalHeadcount > 0
+      ? Math.round(summaries.reduce((sum, role) => sum + role.automationScore * role.headcount, 0) / totalHeadcount)
+      : 0;
+    const totalSavedHoursPerMonth = Math.round(summaries.reduce((sum, role) => sum + role.savedHoursPerMonth * role.headcount, 0) * 10) / 10;
+    const totalAnnualSavings = summaries.reduce((sum, role) => sum + role.annualSavings, 0);
+    const totalSetupCost = summaries.reduce((sum, role) => sum + role.setupCost, 0);
+    const totalNpv = summaries.reduce((sum, role) => sum + role.npv, 0);
+
+    // Sum the role cash flows month by month so ramp-up is respected in the payback
+    const horizon = Math.max(0, ...rolesROI.map(roi => roi.monthlyCashFlows.length));
+    const monthlyCashFlows = Array.from({ length: horizon }, (_, month) =>
+      rolesROI.reduce((sum, roi) => sum + (roi.monthlyCashFlows[month] ?? 0), 0)
+    );
+    const yearlySavings = Array.from({ length: Math.ceil(horizon / 12) }, (_, year) =>
+      summaries.reduce((sum, role) => sum + (role.yearlySavings[year] ?? 0), 0)
+    );
+
+    const taskCount = summaries.reduce((sum, role) => sum + role.taskCount, 0);
+    const summary = lang === 'en'
+      ? `${summaries.length} roles (${totalHeadcount} employees, ${taskCount} tasks) with a headcount-weighted automation potential of ${weightedScore}%.`
+      : `${summaries.length} Rollen (${totalHeadcount} Mitarbeitende, ${taskCount} Aufgaben) mit ${weightedScore}% Automatisierungspotenzial (nach Headcount gewichtet)`;
+
+    return {
+      roles: summaries.sort((a, b) => b.annualSavings - a.annualSavings),
+      totalHeadcount,
+      weightedScore,
+      ratio: { automatisierbar: weightedScore, mensch: 100 - weightedScore },
+      totalSavedHoursPerMonth,
+      totalAnnualSavings,
+      totalSetupCost,
+      totalNpv,
+      yearlySavings,
+      paybackMonth: paybackMonthOf(totalSetupCost, monthlyCashFlows),
+      topTasks: topTasks.sort((a, b) => b.annualSavings - a.annualSavings).slice(0, 10),
+      summary
+    };
+  }
 }
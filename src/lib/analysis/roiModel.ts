@@ -0,0 +1,237 @@
+/**
+ * ROI Model - role-level business case from task business cases
+ * Tasks are placed on the role's monthly working time (time shares never exceed
+ * 100 %), savings scale with headcount and loaded hourly cost, and licences,
+ * one-off setup cost and a linear ramp-up turn them into monthly cash flows
+ * for NPV, payback month and yearly savings.
+ * All hour values are per person and month, like the LLM business cases.
+ */
+
+import type { Task } from './taskClassifier';
+
+export type ROIPeriod = 'year' | 'month' | 'week' | 'day';
+
+/** Calendar conversion of monthly values (52 weeks, 260 working days per year) */
+export const MONTHS_PER_PERIOD: Record<ROIPeriod, number> = {
+  year: 12,
+  month: 1,
+  week: 12 / 52,
+  day: 12 / 260
+};
+
+export interface ROIModelAssumptions {
+  headcount: number;
+  /** Working hours per person and month */
+  hoursPerMonth: number;
+  /** Fully loaded cost per hour; overrides the task rates when set */
+  loadedHourlyCost?: number;
+  /** Multiplier from the task rates (gross) to loaded cost, used without loadedHourlyCost */
+  loadFactor: number;
+  /** Tool licences per seat (person) and month */
+  licenceCostPerMonth: number;
+  /** One-off setup cost; defaults to the sum of the task setup costs */
+  setupCost?: number;
+  /** Months until savings reach their full level (linear ramp-up) */
+  rampUpMonths: number;
+  /** Annual discount rate for the NPV */
+  discountRate: number;
+  horizonMonths: number;
+}
+
+export const DEFAULT_ROI_ASSUMPTIONS: ROIModelAssumptions = {
+  headcount: 1,
+  hoursPerMonth: 160,
+  loadFactor: 1,
+  licenceCostPerMonth: 0,
+  rampUpMonths: 3,
+  discountRate: 0.08,
+  horizonMonths: 36
+};
+
+export const DEFAULT_HOURLY_COST = 40;
+
+export interface TaskROIInput {
+  text: string;
+  /** 0..100 */
+  automationPotential: number;
+  /** Manual hours per person and month, if known */
+  manualHoursPerMonth?: number;
+  hourlyCost?: number;
+  setupCost?: number;
+}
+
+export interface TaskROI {
+  text: string;
+  /** Share of the role's working time, 0..1 */
+  timeShare: number;
+  manualHoursPerMonth: number;
+  savedHoursPerMonth: number;
+  /** Gross savings per month across the whole headcount */
+  monthlySavings: number;
+}
+
+export interface RoleROI {
+  tasks: TaskROI[];
+  /** Automation potential weighted by time share */
+  automationScore: number;
+  /** Per person */
+  manualHoursPerMonth: number;
+  /** Per person */
+  savedHoursPerMonth: number;
+  /** Full-level figures across the headcount */
+  grossMonthlySavings: number;
+  licenceCostPerMonth: number;
+  netMonthlySavings: number;
+  setupCost: number;
+  /** Net cash flow per month 1..horizon (ramp-up applied, setup excluded) */
+  monthlyCashFlows: number[];
+  /** Net savings per year of the horizon */
+  yearlySavings: number[];
+  npv: number;
+  /** First month in which cumulative savings cover the setup cost; null if not within the horizon */
+  paybackMonth: number | null;
+  assumptions: ROIModelAssumptions;
+}
+
+/**
+ * Read ROI inputs from analyzed tasks (business case hours are monthly); the task
+ * score is used as potential so role figures match the scores shown per task
+ */
+export function toTaskROIInputs(tasks: Task[]): TaskROIInput[] {
+  return tasks.map(task => {
+    const businessCase = task.businessCase;
+    if (!businessCase) {
+      return { text: task.text, automationPotential: task.score };
+    }
+    return {
+      text: task.text,
+      automationPotential: task.score,
+      manualHoursPerMonth: businessCase.manualHours,
+      hourlyCost: businessCase.employmentType === 'freelancer'
+        ? businessCase.hourlyRateFreelancer
+        : businessCase.hourlyRateEmployee,
+      setupCost: businessCase.setupCostMoney
+    };
+  });
+}
+
+/**
+ * Fit task hours into the role's working time: known hours are scaled down if they
+ * exceed it, unknown tasks are counted as an average known task, at most an equal
+ * share of the remaining time.
+ */
+export function allocateTaskHours(tasks: TaskROIInput[], hoursPerMonth: number): number[] {
+  const known = tasks.map(task => isPositive(task.manualHoursPerMonth) ? task.manualHoursPerMonth! : null);
+  const knownTotal = known.reduce<number>((sum, hours) => sum + (hours ?? 0), 0);
+  const knownCount = known.length - known.filter(hours => hours === null).length;
+  const unknownCount = known.length - knownCount;
+
+  // Without any figures every task gets an equal share of the role
+  const remaining = Math.max(0, hoursPerMonth - knownTotal);
+  const unknownHours = unknownCount === 0
+    ? 0
+    : knownCount > 0
+      ? Math.min(knownTotal / knownCount, remaining / unknownCount)
+      : hoursPerMonth / unknownCount;
+
+  const hours = known.map(value => value ?? unknownHours);
+  const total = hours.reduce((sum, value) => sum + value, 0);
+  const scale = total > hoursPerMonth ? hoursPerMonth / total : 1;
+  return hours.map(value => value * scale);
+}
+
+/**
+ * Compute the role-level ROI
+ */
+export function computeRoleROI(tasks: TaskROIInput[], overrides: Partial<ROIModelAssumptions> = {}): RoleROI {
+  const assumptions: ROIModelAssumptions = { ...DEFAULT_ROI_ASSUMPTIONS, ...stripUndefined(overrides) };
+  const { headcount, hoursPerMonth, rampUpMonths, horizonMonths } = assumptions;
+  const hours = allocateTaskHours(tasks, hoursPerMonth);
+
+  const taskROIs: TaskROI[] = tasks.map((task, index) => {
+    const potential = clamp(Number.isFinite(task.automationPotential) ? task.automationPotential : 0, 0, 100) / 100;
+    const hourlyCost = assumptions.loadedHourlyCost ??
+      (isPositive(task.hourlyCost) ? task.hourlyCost! : DEFAULT_HOURLY_COST) * assumptions.loadFactor;
+    const savedHoursPerMonth = hours[index] * potential;
+    return {
+      text: task.text,
+      timeShare: hoursPerMonth > 0 ? hours[index] / hoursPerMonth : 0,
+      manualHoursPerMonth: hours[index],
+      savedHoursPerMonth,
+      monthlySavings: savedHoursPerMonth * hourlyCost * headcount
+    };
+  });
+
+  const manualHoursPerMonth = sum(taskROIs.map(task => task.manualHoursPerMonth));
+  const savedHoursPerMonth = sum(taskROIs.map(task => task.savedHoursPerMonth));
+  const automationScore = manualHoursPerMonth > 0 ? Math.round((savedHoursPerMonth / manualHoursPerMonth) * 100) : 0;
+
+  const grossMonthlySavings = sum(taskROIs.map(task => task.monthlySavings));
+  const licenceCostPerMonth = assumptions.licenceCostPerMonth * headcount;
+  const setupCost = assumptions.setupCost ?? sum(tasks.map(task => isPositive(task.setupCost) ? task.setupCost! : 0));
+
+  const monthlyCashFlows = Array.from({ length: horizonMonths }, (_, index) => {
+    const ramp = rampUpMonths > 0 ? Math.min(1, (index + 1) / rampUpMonths) : 1;
+    return grossMonthlySavings * ramp - licenceCostPerMonth;
+  });
+
+  const monthlyRate = Math.pow(1 + assumptions.discountRate, 1 / 12) - 1;
+  const npv = monthlyCashFlows.reduce(
+    (value, cashFlow, index) => value + cashFlow / Math.pow(1 + monthlyRate, index + 1),
+    -setupCost
+  );
+
+  const yearlySavings: number[] = [];
+  for (let start = 0; start < monthlyCashFlows.length; start += 12) {
+    yearlySavings.push(Math.round(sum(monthlyCashFlows.slice(start, start + 12))));
+  }
+
+  return {
+    tasks: taskROIs,
+    automationScore,
+    manualHoursPerMonth: round1(manualHoursPerMonth),
+    savedHoursPerMonth: round1(savedHoursPerMonth),
+    grossMonthlySavings: Math.round(grossMonthlySavings),
+    licenceCostPerMonth: Math.round(licenceCostPerMonth),
+    netMonthlySavings: Math.round(grossMonthlySavings - licenceCostPerMonth),
+    setupCost: Math.round(setupCost),
+    monthlyCashFlows,
+    yearlySavings,
+    npv: Math.round(npv),
+    paybackMonth: paybackMonthOf(setupCost, monthlyCashFlows),
+    assumptions
+  };
+}
+
+/**
+ * Payback month of summed cash flows (e.g. several roles); null if not within the horizon
+ */
+export function paybackMonthOf(setupCost: number, monthlyCashFlows: number[]): number | null {
+  if (setupCost <= 0) return 0;
+  let cumulative = -setupCost;
+  for (let month = 0; month < monthlyCashFlows.length; month++) {
+    cumulative += monthlyCashFlows[month];
+    if (cumulative >= 0) return month + 1;
+  }
+  return null;
+}
+
+function isPositive(value: number | undefined): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,211 @@
+/**
+ * Task Stream Parser - incremental reader for a streamed analyze-job-complete response
+ * Scans the JSON text as it arrives and emits a stage event as soon as a task's
+ * head (text, score, category), its subtasks or its business case are complete.
+ * Stage payloads are validated on their own; the full response is still
+ * validated once the stream has finished.
+ */
+
+import {
+  validateTaskHeadStage,
+  validateSubtasksStage,
+  validateBusinessCaseStage,
+  type CompleteAnalysisStageEvent
+} from './responseSchema';
+
+interface OpenContainer {
+  char: '{' | '[';
+  start: number;
+  /** Key under which this container sits in its parent object */
+  key: string | null;
+  /** Most recent key read inside this container (objects only) */
+  currentKey: string | null;
+}
+
+interface TaskProgress {
+  start: number;
+  headEmitted: boolean;
+  subtasksEmitted: boolean;
+  businessCaseEmitted: boolean;
+}
+
+const TASK_DETAIL_KEYS = ['subtasks', 'businessCase'];
+
+export class TaskStreamParser {
+  private buffer = '';
+  private position = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: { value: string; start: number } | null = null;
+  private stack: OpenContainer[] = [];
+  private taskCount = 0;
+  private currentTask: TaskProgress | null = null;
+
+  /**
+   * Feed the next chunk of model output, returns the stage events it completed
+   */
+  push(chunk: string): CompleteAnalysisStageEvent[] {
+    this.buffer += chunk;
+    const events: CompleteAnalysisStageEvent[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = {
+            value: this.readString(this.stringStart, this.position),
+            start: this.stringStart
+          };
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          this.onKey(events);
+          break;
+        case '{':
+        case '[':
+          this.open(char);
+          break;
+        case '}':
+        case ']':
+          this.close(events);
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Full text received so far
+   */
+  getContent(): string {
+    return this.buffer;
+  }
+
+  private readString(start: number, end: number): string {
+    try {
+      return JSON.parse(this.buffer.slice(start, end + 1));
+    } catch {
+      return '';
+    }
+  }
+
+  private get top(): OpenContainer | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /** The tasks array sits directly in the root object under "tasks" */
+  private isTasksArray(container: OpenContainer | undefined): boolean {
+    return !!container && container.char === '[' && container.key === 'tasks' && this.stack.indexOf(container) === 1;
+  }
+
+  private isTaskObject(container: OpenContainer | undefined): boolean {
+    return !!container && container.char === '{' && this.isTasksArray(this.stack[this.stack.indexOf(container) - 1]);
+  }
+
+  private onKey(events: CompleteAnalysisStageEvent[]): void {
+    const container = this.top;
+    if (!container || container.char !== '{' || !this.lastString) return;
+    container.currentKey = this.lastString.value;
+
+    // Everything before the first detail key is the task head
+    if (this.isTaskObject(container) && this.currentTask && !this.currentTask.headEmitted &&
+        TASK_DETAIL_KEYS.includes(container.currentKey)) {
+      const head = this.buffer.slice(this.currentTask.start, this.lastString.start).replace(/[\s,]*$/, '') + '}';
+      this.emitHead(head, events);
+    }
+  }
+
+  private open(char: '{' | '['): void {
+    const parent = this.top;
+    const key = parent?.char === '{' ? parent.currentKey : null;
+    const container: OpenContainer = { char, start: this.position, key, currentKey: null };
+
+    if (char === '{' && this.isTasksArray(parent)) {
+      this.currentTask = { start: this.position, headEmitted: false, subtasksEmitted: false, businessCaseEmitted: false };
+    }
+    this.stack.push(container);
+  }
+
+  private close(events: CompleteAnalysisStageEvent[]): void {
+    const container = this.stack.pop();
+    if (!container || !this.currentTask) return;
+    const slice = this.buffer.slice(container.start, this.position + 1);
+    const parent = this.top;
+
+    if (this.isTaskObject(parent)) {
+      // Details of a task whose head is not known yet are emitted when the task closes
+      if (!this.currentTask.headEmitted) return;
+      if (container.key === 'subtasks' && container.char === '[') {
+        this.emitSubtasks(slice, events);
+      } else if (container.key === 'businessCase' && container.char === '{') {
+        this.emitBusinessCase(slice, events);
+      }
+      return;
+    }
+
+    if (container.char === '{' && this.isTasksArray(parent)) {
+      // Task closed: emit whatever stages were not detected on the way
+      const task = this.parse(slice);
+      if (task && typeof task === 'object' && (this.currentTask.headEmitted || this.emitHead(slice, events))) {
+        const raw = task as Record<string, unknown>;
+        if (!this.currentTask.subtasksEmitted && raw.subtasks !== undefined) this.emitSubtasks(JSON.stringify(raw.subtasks), events);
+        if (!this.currentTask.businessCaseEmitted && raw.businessCase) this.emitBusinessCase(JSON.stringify(raw.businessCase), events);
+      }
+      this.currentTask = null;
+      this.taskCount++;
+    }
+  }
+
+  private parse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * An invalid head is retried when the task closes; without a valid head no details are emitted
+   */
+  private emitHead(json: string, events: CompleteAnalysisStageEvent[]): boolean {
+    if (!this.currentTask) return false;
+    const result = validateTaskHeadStage(this.parse(json), `tasks[${this.taskCount}]`);
+    if (!result.ok) return false;
+    this.currentTask.headEmitted = true;
+    events.push({ type: 'task', index: this.taskCount, task: result.value });
+    return true;
+  }
+
+  private emitSubtasks(json: string, events: CompleteAnalysisStageEvent[]): void {
+    if (!this.currentTask) return;
+    this.currentTask.subtasksEmitted = true;
+    const result = validateSubtasksStage(this.parse(json), `tasks[${this.taskCount}].subtasks`);
+    if (result.ok) {
+      events.push({ type: 'subtasks', index: this.taskCount, subtasks: result.value });
+    }
+  }
+
+  private emitBusinessCase(json: string, events: CompleteAnalysisStageEvent[]): void {
+    if (!this.currentTask) return;
+    this.currentTask.businessCaseEmitted = true;
+    const result = validateBusinessCaseStage(this.parse(json), `tasks[${this.taskCount}].businessCase`);
+    if (result.ok) {
+      events.push({ type: 'businessCase', index: this.taskCount, businessCase: result.value });
+    }
+  }
+}
@@ -60,21 +60,39 @@ export interface FastAnalysisResult {
   complexity?: 'low' | 'medium' | 'high';
   trend?: 'increasing' | 'stable' | 'decreasing';
   systems?: string[];
-  label?: string;
+  label?: 'Automatisierbar' | 'Teilweise Automatisierbar' | 'Mensch';
   analysisTime?: number;
 }
 
 export interface AnalysisPipelineConfig {
+  /** false: skip the LLM and use the rule-based offline analysis */
   useAI: boolean;
+  /** Fall back to the offline analysis when the LLM is unavailable or keeps failing */
   fallbackEnabled: boolean;
+  /** Timeout per pipeline stage and attempt */
   timeoutMs: number;
+  /** Retries for transient LLM errors (timeouts, network, rate limits, 5xx) */
   maxRetries: number;
+  /** Default language when runAnalysis is called without one */
   lang: 'de' | 'en';
 }
 
+export type AnalysisErrorCode =
+  | 'INVALID_AI_RESPONSE'
+  | 'AI_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'UNKNOWN';
+
+export interface AnalysisFieldError {
+  path: string;      // e.g. "tasks[2].subtasks[0].priority"
+  message: string;
+  received?: unknown;
+}
+
 export interface AnalysisError {
-  code: string;
+  code: AnalysisErrorCode | string;
   message: string;
   details?: any;
+  fieldErrors?: AnalysisFieldError[];
   timestamp: Date;
 }
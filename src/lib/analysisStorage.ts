@@ -0,0 +1,130 @@
+/**
+ * Analysis Storage - browser storage for analysis runs
+ * Hands the pending job text from the start page to the Results page, which
+ * streams the analysis, and keeps the local history list of finished analyses.
+ */
+
+import type { AnalysisResult } from './analysis/roiAggregator';
+
+const PENDING_KEY = 'pendingAnalysis';
+const HISTORY_KEY = 'analysisHistory';
+const HISTORY_LIMIT = 10;
+
+export interface AnalysisHistoryEntry {
+  id: string;
+  timestamp: number;
+  score: number;
+  jobTitle: string;
+  taskCount: number;
+  summary: string;
+  /** Language the analysis ran in; missing on entries saved before it was recorded */
+  lang?: 'de' | 'en';
+  isPublic?: boolean;
+  views?: number;
+}
+
+export interface PendingAnalysis {
+  jobText: string;
+  lang: 'de' | 'en';
+  createdAt: number;
+}
+
+/**
+ * Queue a job text for the Results page to analyze
+ */
+export function storePendingAnalysis(jobText: string, lang: 'de' | 'en'): void {
+  const pending: PendingAnalysis = { jobText, lang, createdAt: Date.now() };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+}
+
+/**
+ * Read and remove the queued job text, so a reload shows the stored result instead of re-running
+ */
+export function takePendingAnalysis(): PendingAnalysis | null {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  if (!raw) return null;
+  sessionStorage.removeItem(PENDING_KEY);
+
+  try {
+    const pending = JSON.parse(raw);
+    return typeof pending?.jobText === 'string' && pending.jobText.trim() ? pending : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Job title for history lists: first line of the posting, or the short input itself
+ */
+export function deriveJobTitle(analysisData: AnalysisResult, originalInput: string): string {
+  if (analysisData.originalText) {
+    const firstLine = analysisData.originalText.split('\n')[0]?.trim();
+    if (firstLine && firstLine.length > 5 && firstLine.length < 60 && !firstLine.includes('http')) {
+      return firstLine;
+    }
+  } else if (originalInput.length > 0 && originalInput.length < 60 && !originalInput.includes('http')) {
+    return originalInput;
+  }
+  return "Analyse";
+}
+
+/**
+ * Save a finished analysis to the local history (last 10 entries)
+ */
+export function saveAnalysisToHistory(analysisData: AnalysisResult, originalInput: string, lang: 'de' | 'en'): void {
+  try {
+    const historyId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Create history item
+    const historyItem = {
+      id: historyId,
+      timestamp: Date.now(),
+      score: analysisData.totalScore,
+      jobTitle: deriveJobTitle(analysisData, originalInput),
+      taskCount: analysisData.tasks?.length || 0,
+      summary: analysisData.summary,
+      lang,
+      isPublic: true, // Default to public
+      views: 0
+    };
+
+    // Save full analysis data
+    localStorage.setItem(historyId, JSON.stringify(analysisData));
+
+    // Update history list
+    const existingHistory = localStorage.getItem(HISTORY_KEY);
+    const history = existingHistory ? JSON.parse(existingHistory) : [];
+    history.unshift(historyItem); // Add to beginning
+
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, HISTORY_LIMIT)));
+  } catch (error) {
+    console.error('Error saving to history:', error);
+  }
+}
+
+/**
+ * Local history list, most recent first
+ */
+export function loadAnalysisHistory(): AnalysisHistoryEntry[] {
+  try {
+    const history: AnalysisHistoryEntry[] = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return history.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error('Error loading analysis history:', error);
+    return [];
+  }
+}
+
+/**
+ * Full analysis stored for a history entry
+ */
+export function loadStoredAnalysis(historyId: string): AnalysisResult | null {
+  try {
+    const raw = localStorage.getItem(historyId);
+    const analysis = raw ? JSON.parse(raw) : null;
+    return Array.isArray(analysis?.tasks) ? analysis : null;
+  } catch (error) {
+    console.error('Error loading stored analysis:', error);
+    return null;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Tests for the local workflow dry run
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHttpStub, dryRunWorkflow, DryRunOptions } from '../workflowDryRun';
+import { createQuickJSCodeRunner, resolveParameterValue, SandboxError } from '../sandbox';
+
+const runCode = createQuickJSCodeRunner({ timeoutMs: 500 });
+const options: DryRunOptions = { codeRunner: runCode, now: () => Date.parse('2026-10-19T08:00:00Z') };
+
+const main = (...targets: string[]) => ({ main: [targets.map(node => ({ node, type: 'main', index: 0 }))] });
+
+const leadWorkflow = {
+  nodes: [
+    { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'leads' } },
+    {
+      name: 'Normalize',
+      type: 'n8n-nodes-base.set',
+      typeVersion: 3.4,
+      parameters: {
+        assignments: { assignments: [
+          { name: 'email', value: '={{ $json.body.email.toLowerCase() }}', type: 'string' },
+          { name: 'score', value: '={{ $json.body.employees }}', type: 'number' }
+        ] }
+      }
+    },
+    {
+      name: 'Qualified?',
+      type: 'n8n-nodes-base.if',
+      typeVersion: 2,
+      parameters: {
+        conditions: {
+          conditions: [{ leftValue: '={{ $json.score }}', rightValue: 50, operator: { type: 'number', operation: 'gte' } }],
+          combinator: 'and'
+        }
+      }
+    },
+    {
+      name: 'Enrich',
+      type: 'n8n-nodes-base.httpRequest',
+      parameters: {
+        method: 'POST',
+        url: 'https://api.example.com/enrich',
+        sendBody: true,
+        bodyParameters: { parameters: [{ name: 'email', value: '={{ $json.email }}' }] }
+      }
+    },
+    {
+      name: 'Format',
+      type: 'n8n-nodes-base.code',
+      parameters: { jsCode: "return $input.all().map(item => ({ json: { ...item.json, source: $('Normalize').first().json.email } }));" }
+    },
+    { name: 'Notify', type: 'n8n-nodes-base.slack', parameters: { text: 'New lead' } },
+    { name: 'Ignore', type: 'n8n-nodes-base.noOp', parameters: {} }
+  ],
+  connections: {
+    Webhook: main('Normalize'),
+    Normalize: main('Qualified?'),
+    'Qualified?': { main: [[{ node: 'Enrich', type: 'main', index: 0 }], [{ node: 'Ignore', type: 'main', index: 0 }]] },
+    Enrich: main('Format'),
+    Format: main('Notify')
+  }
+};
+
+describe('dryRunWorkflow', () => {
+  it('runs the sample input through the workflow and traces every node', async () => {
+    const httpStub = vi.fn(createHttpStub([
+      { method: 'POST', url: 'https://api.example.com/enrich', response: { status: 200, body: { company: 'Acme' } } }
+    ]));
+    const result = await dryRunWorkflow(leadWorkflow, { ...options, httpStub, input: { email: 'Ada@Example.com', employees: '120' } });
+
+    expect(result.status).toBe('success');
+    expect(result.trace.map(entry => `${entry.node}:${entry.status}`)).toEqual([
+      'Webhook:success', 'Normalize:success', 'Qualified?:success', 'Enrich:success', 'Format:success', 'Notify:mocked'
+    ]);
+    expect(result.notExecuted).toEqual(['Ignore']);
+    expect(result.trace[1].output[0][0].json).toEqual({ email: 'ada@example.com', score: 120 });
+    expect(result.trace[2].output.map(items => items.length)).toEqual([1, 0]);
+    expect(httpStub).toHaveBeenCalledWith(expect.objectContaining({ method: 'POST', body: { email: 'ada@example.com' } }));
+    expect(result.trace[3].httpRequests).toHaveLength(1);
+    expect(result.trace[4].output[0][0].json).toEqual({ company: 'Acme', source: 'ada@example.com' });
+  });
+
+  it('takes the false branch for unqualified leads', async () => {
+    const result = await dryRunWorkflow(leadWorkflow, { ...options, input: { email: 'x@y.z', employees: 3 } });
+
+    expect(result.trace.map(entry => entry.node)).toEqual(['Webhook', 'Normalize', 'Qualified?', 'Ignore']);
+    expect(result.notExecuted).toEqual(['Enrich', 'Format', 'Notify']);
+  });
+
+  it('routes items with Switch rules and a fallback output', async () => {
+    const rule = (value: string) => ({
+      conditions: { conditions: [{ leftValue: '={{ $json.priority }}', rightValue: value, operator: { type: 'string', operation: 'equals' } }], combinator: 'and' }
+    });
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Route', type: 'n8n-nodes-base.switch', typeVersion: 3, parameters: { rules: { values: [rule('high'), rule('low')] }, options: { fallbackOutput: 'extra' } } }
+      ],
+      connections: { Start: main('Route') }
+    }, { ...options, input: [{ priority: 'high' }, { priority: 'low' }, { priority: 'unknown' }, { priority: 'high' }] });
+
+    expect(result.trace[1].output.map(items => items.length)).toEqual([2, 1, 1]);
+  });
+
+  it('evaluates legacy IF conditions', async () => {
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Check', type: 'n8n-nodes-base.if', typeVersion: 1, parameters: { conditions: { string: [{ value1: '={{ $json.status }}', operation: 'contains', value2: 'paid' }] } } }
+      ],
+      connections: { Start: main('Check') }
+    }, { ...options, input: [{ status: 'paid' }, { status: 'open' }] });
+
+    expect(result.trace[1].output.map(items => items.map(item => item.json.status))).toEqual([['paid'], ['open']]);
+  });
+
+  it('waits for both Merge inputs and combines matching items', async () => {
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Schedule', type: 'n8n-nodes-base.scheduleTrigger', parameters: {} },
+        { name: 'Customers', type: 'n8n-nodes-base.code', parameters: { jsCode: "return [{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }];" } },
+        { name: 'Orders', type: 'n8n-nodes-base.code', parameters: { jsCode: 'return [{ id: 2, total: 99 }];' } },
+        { name: 'Merge', type: 'n8n-nodes-base.merge', typeVersion: 3, parameters: { mode: 'combineByFields', fieldsToMatchString: 'id' } }
+      ],
+      connections: {
+        Schedule: main('Customers', 'Orders'),
+        Customers: main('Merge'),
+        Orders: { main: [[{ node: 'Merge', type: 'main', index: 1 }]] }
+      }
+    }, options);
+
+    expect(result.trace[0].output[0][0].json).toEqual({ timestamp: '2026-10-19T08:00:00.000Z' });
+    expect(result.trace.map(entry => entry.node)).toEqual(['Schedule', 'Customers', 'Orders', 'Merge']);
+    expect(result.trace[3].output[0].map(item => item.json)).toEqual([{ id: 2, name: 'Grace', total: 99 }]);
+  });
+
+  it('stops at a failing node unless it continues on fail', async () => {
+    const workflow = (onError?: string) => ({
+      nodes: [
+        { name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: {} },
+        { name: 'Call API', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://api.example.com' }, onError },
+        { name: 'Done', type: 'n8n-nodes-base.noOp', parameters: {} }
+      ],
+      connections: { Webhook: main('Call API'), 'Call API': main('Done') }
+    });
+    const httpStub = () => ({ status: 500, body: 'boom' });
+
+    const failed = await dryRunWorkflow(workflow(), { ...options, httpStub });
+    expect(failed.status).toBe('error');
+    expect(failed.error).toBe('Call API: Request failed with status 500');
+    expect(failed.notExecuted).toEqual(['Done']);
+
+    const continued = await dryRunWorkflow(workflow('continueRegularOutput'), { ...options, httpStub });
+    expect(continued.status).toBe('success');
+    expect(continued.trace[2].input[0][0].json).toEqual({ error: 'Request failed with status 500' });
+  });
+
+  it('keeps Code nodes from reaching the page', async () => {
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Escape', type: 'n8n-nodes-base.code', parameters: { jsCode: "return [{ json: { leak: (() => {}).constructor('return document.cookie')() } }];" } }
+      ],
+      connections: { Start: main('Escape') }
+    }, options);
+
+    expect(result.status).toBe('error');
+    expect(result.trace[1].message).toBe("'document' is not defined");
+  });
+
+  it('passes disabled nodes through and reports missing triggers', async () => {
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Off', type: 'n8n-nodes-base.set', parameters: { keepOnlySet: true }, disabled: true }
+      ],
+      connections: { Start: main('Off') }
+    }, { ...options, input: { a: 1 } });
+    expect(result.trace[1]).toMatchObject({ status: 'disabled', output: [[{ json: { a: 1 } }]] });
+
+    expect((await dryRunWorkflow({ nodes: [{ name: 'Set', type: 'n8n-nodes-base.set' }], connections: {} }, options)).error)
+      .toBe('Workflow has no trigger node');
+  });
+
+  it('stops workflows that loop forever', async () => {
+    const result = await dryRunWorkflow({
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Again', type: 'n8n-nodes-base.set', parameters: { values: { number: [{ name: 'n', value: '={{ ($json.n || 0) + 1 }}' }] } } }
+      ],
+      connections: { Start: main('Again'), Again: main('Again') }
+    }, { ...options, maxNodeExecutions: 10 });
+
+    expect(result.status).toBe('error');
+    expect(result.trace).toHaveLength(10);
+    expect(result.trace[9].output[0][0].json).toEqual({ n: 9 });
+  });
+});
+
+describe('sandbox', () => {
+  const scope = { items: [{ json: { name: 'Ada', tags: ['a', 'b'] } }], nodes: {}, now: '2026-10-19T08:00:00.000Z' };
+
+  it('keeps the type of single expressions and interpolates mixed text', async () => {
+    expect(await resolveParameterValue('={{ $json.tags }}', scope, runCode)).toEqual(['a', 'b']);
+    expect(await resolveParameterValue('=Hi {{ $json.name }}, tags: {{ $json.tags }}', scope, runCode)).toBe('Hi Ada, tags: ["a","b"]');
+    expect(await resolveParameterValue({ plain: 'text', nested: ['={{ $today }}'] }, scope, runCode)).toEqual({ plain: 'text', nested: ['2026-10-19'] });
+  });
+
+  it('runs code in a realm without network, DOM or worker globals', async () => {
+    expect(await runCode('return [typeof fetch, typeof window, typeof document, typeof importScripts, typeof indexedDB];', scope))
+      .toEqual(['undefined', 'undefined', 'undefined', 'undefined', 'undefined']);
+  });
+
+  it('gives the Function constructor no way out', async () => {
+    // Obfuscated property names defeat any source blocklist; the VM simply has no fetch
+    await expect(runCode("return []['constr'+'uctor']['constr'+'uctor']('return fetch')();", scope))
+      .rejects.toThrow("'fetch' is not defined");
+    expect(await runCode("return []['constr'+'uctor']['constr'+'uctor']('return typeof globalThis.fetch')();", scope)).toBe('undefined');
+  });
+
+  it('does not let code change the caller\'s data', async () => {
+    await runCode('$json.name = "Eve"; items.length = 0;', scope);
+    expect(scope.items[0].json.name).toBe('Ada');
+  });
+
+  it('interrupts endless loops and promises that never settle', async () => {
+    await expect(runCode('while (true) {}', scope)).rejects.toThrow(SandboxError);
+    await expect(runCode('await new Promise(() => {}); return 1;', scope)).rejects.toThrow(SandboxError);
+    expect(await runCode('return 1 + 1;', scope)).toBe(2);
+  });
+});
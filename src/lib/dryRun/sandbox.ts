@@ -0,0 +1,190 @@
+/**
+ * Sandbox for Code nodes and expressions during dry runs
+ * Catalog workflows come from third parties, so their JavaScript never runs in the
+ * page's realm: every snippet is evaluated in a fresh QuickJS VM compiled to
+ * WebAssembly. The VM has no fetch, DOM, storage or worker APIs to escape to, data
+ * goes in and out as JSON only, and an interrupt handler and memory limit stop
+ * runaway code. The VM runs on the calling thread, so the timeout bounds how long
+ * a snippet can block it.
+ */
+
+import type { QuickJSContext, QuickJSHandle, QuickJSWASMModule } from 'quickjs-emscripten-core';
+
+export interface DryRunItem {
+  json: Record<string, unknown>;
+}
+
+/**
+ * Data the code can see; `$input`, `$json`, `$('Node')` etc. are built from it inside the sandbox
+ */
+export interface SandboxScope {
+  items: DryRunItem[];
+  /** Set when the code runs once per item */
+  itemIndex?: number;
+  /** Latest output of every executed node, by node name */
+  nodes: Record<string, DryRunItem[]>;
+  /** ISO timestamp exposed as $now */
+  now: string;
+}
+
+/**
+ * Runs a function body (which may use `return` and `await`) against a scope
+ */
+export type CodeRunner = (body: string, scope: SandboxScope) => Promise<unknown>;
+
+export interface QuickJSRunnerOptions {
+  timeoutMs?: number;
+  memoryLimitBytes?: number;
+}
+
+export class SandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+export const DEFAULT_CODE_TIMEOUT_MS = 2000;
+export const DEFAULT_CODE_MEMORY_LIMIT_BYTES = 32 * 1024 * 1024;
+const MAX_STACK_SIZE_BYTES = 512 * 1024;
+
+// Evaluated inside the VM; the scope arrives as the JSON string __scope
+const PRELUDE = `"use strict";
+const data = JSON.parse(__scope);
+const items = data.items;
+const $itemIndex = data.itemIndex ?? 0;
+const $input = {
+  all: () => items,
+  first: () => items[0],
+  last: () => items[items.length - 1],
+  item: items[$itemIndex]
+};
+const item = $input.item;
+const $json = item ? item.json : {};
+const $now = data.now;
+const $today = data.now.slice(0, 10);
+const $env = {};
+const $ = (name) => {
+  const output = data.nodes[name];
+  if (!output) throw new Error('Node "' + name + '" has not been executed');
+  const current = output[$itemIndex] ?? output[0];
+  return {
+    all: () => output,
+    first: () => output[0],
+    last: () => output[output.length - 1],
+    item: current,
+    json: current ? current.json : {}
+  };
+};
+const $node = new Proxy({}, { get: (_, name) => $(String(name)) });
+`;
+
+function functionSource(body: string): string {
+  return `(async () => {\n${PRELUDE}\nconst result = await (async () => {\n${body}\n})();\nreturn JSON.stringify(result ?? null);\n})()`;
+}
+
+let quickJS: Promise<QuickJSWASMModule> | undefined;
+
+// Loaded on first use, so the WebAssembly module is only fetched for dry runs
+function loadQuickJS(): Promise<QuickJSWASMModule> {
+  quickJS ??= Promise.all([import('quickjs-emscripten-core'), import('@jitl/quickjs-wasmfile-release-sync')])
+    .then(([core, variant]) => core.newQuickJSWASMModuleFromVariant(variant.default));
+  return quickJS;
+}
+
+function errorMessage(vm: QuickJSContext, handle: QuickJSHandle): string {
+  const error = vm.dump(handle);
+  handle.dispose();
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+/**
+ * Run each snippet in a fresh QuickJS VM, interrupted after `timeoutMs`
+ */
+export function createQuickJSCodeRunner(options: QuickJSRunnerOptions = {}): CodeRunner {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CODE_TIMEOUT_MS;
+  const memoryLimitBytes = options.memoryLimitBytes ?? DEFAULT_CODE_MEMORY_LIMIT_BYTES;
+
+  return async (body, scope) => {
+    const QuickJS = await loadQuickJS();
+    const deadline = Date.now() + timeoutMs;
+    let timedOut = false;
+    const runtime = QuickJS.newRuntime({
+      interruptHandler: () => (timedOut = Date.now() > deadline),
+      memoryLimitBytes,
+      maxStackSizeBytes: MAX_STACK_SIZE_BYTES
+    });
+    const vm = runtime.newContext();
+    const fail = (message: string) =>
+      timedOut ? new SandboxError(`Code did not finish within ${timeoutMs}ms`) : new Error(message);
+
+    try {
+      const scopeHandle = vm.newString(JSON.stringify(scope));
+      vm.setProp(vm.global, '__scope', scopeHandle);
+      scopeHandle.dispose();
+
+      const evaluated = vm.evalCode(functionSource(body), 'dry-run.js');
+      if (evaluated.error) throw fail(errorMessage(vm, evaluated.error));
+
+      // Nothing outside the VM can settle its promises, so draining the job queue finishes the code
+      const jobs = runtime.executePendingJobs();
+      if (jobs.error) {
+        evaluated.value.dispose();
+        throw fail(errorMessage(vm, jobs.error));
+      }
+
+      const state = vm.getPromiseState(evaluated.value);
+      evaluated.value.dispose();
+      if (state.type === 'pending') throw new SandboxError('Code waits for something that never happens');
+      if (state.type === 'rejected') throw fail(errorMessage(vm, state.error));
+
+      const json = vm.getString(state.value);
+      state.value.dispose();
+      return JSON.parse(json);
+    } finally {
+      vm.dispose();
+      runtime.dispose();
+    }
+  };
+}
+
+let sharedRunner: CodeRunner | undefined;
+
+export function defaultCodeRunner(): CodeRunner {
+  sharedRunner ??= createQuickJSCodeRunner();
+  return sharedRunner;
+}
+
+const EXPRESSION = /\{\{([\s\S]*?)\}\}/g;
+
+/**
+ * Resolve an n8n parameter value; strings starting with "=" are expressions with
+ * {{ … }} segments. A lone segment keeps its type, mixed text is interpolated.
+ */
+export async function resolveParameterValue(value: unknown, scope: SandboxScope, run: CodeRunner): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(entry => resolveParameterValue(entry, scope, run)));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, entry]) =>
+      [key, await resolveParameterValue(entry, scope, run)] as const));
+    return Object.fromEntries(entries);
+  }
+  if (typeof value !== 'string' || !value.startsWith('=')) return value;
+
+  const template = value.slice(1);
+  const single = template.trim().match(/^\{\{([\s\S]*?)\}\}$/);
+  if (single && !single[1].includes('}}')) {
+    return run(`return (${single[1]});`, scope);
+  }
+
+  const segments = [...template.matchAll(EXPRESSION)];
+  const values = await Promise.all(segments.map(segment => run(`return (${segment[1]});`, scope)));
+  let index = 0;
+  return template.replace(EXPRESSION, () => {
+    const resolved = values[index++];
+    if (resolved === null || resolved === undefined) return '';
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+  });
+}
@@ -0,0 +1,659 @@
+/**
+ * Workflow Dry Run
+ * Executes an n8n workflow locally with sample input, so users can see how a
+ * recommended workflow behaves before importing it. Core nodes (Webhook, Schedule,
+ * Manual, Set, IF, Switch, HTTP Request, Code, Merge) are simulated; HTTP calls hit
+ * a stub instead of the network and every other node passes its input through.
+ */
+
+import { isTriggerNode, shortNodeType } from '../../../supabase/functions/_shared/n8n-workflow-metadata.ts';
+import {
+  CodeRunner,
+  DryRunItem,
+  SandboxScope,
+  defaultCodeRunner,
+  resolveParameterValue
+} from './sandbox';
+
+export type { DryRunItem } from './sandbox';
+
+export type DryRunNodeStatus = 'success' | 'mocked' | 'disabled' | 'error';
+
+export interface DryRunHttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+export interface DryRunHttpResponse {
+  status: number;
+  body: unknown;
+}
+
+export type HttpStub = (request: DryRunHttpRequest) => DryRunHttpResponse | Promise<DryRunHttpResponse>;
+
+export interface DryRunNodeTrace {
+  node: string;
+  type: string;
+  status: DryRunNodeStatus;
+  /** Milliseconds since the start of the run */
+  startedAt: number;
+  durationMs: number;
+  /** Items per input (Merge has two) */
+  input: DryRunItem[][];
+  /** Items per output (IF: true/false, Switch: one per rule) */
+  output: DryRunItem[][];
+  httpRequests?: DryRunHttpRequest[];
+  message?: string;
+}
+
+export interface DryRunResult {
+  status: 'success' | 'error';
+  trace: DryRunNodeTrace[];
+  /** Nodes the sample input never reached */
+  notExecuted: string[];
+  error?: string;
+  durationMs: number;
+}
+
+export interface DryRunOptions {
+  /** Sample payload: webhook body, or the items of a manual/schedule trigger */
+  input?: unknown;
+  /** Trigger to start from; defaults to the first webhook, then the first trigger */
+  triggerNode?: string;
+  httpStub?: HttpStub;
+  codeRunner?: CodeRunner;
+  /** Guard against loops in the graph */
+  maxNodeExecutions?: number;
+  now?: () => number;
+}
+
+export const SIMULATED_NODE_TYPES = [
+  'webhook', 'manualTrigger', 'scheduleTrigger', 'cron', 'start',
+  'set', 'if', 'switch', 'httpRequest', 'code', 'merge'
+];
+
+const DEFAULT_MAX_NODE_EXECUTIONS = 200;
+
+interface DryRunNode {
+  name: string;
+  type: string;
+  parameters: Record<string, unknown>;
+  disabled?: boolean;
+  continueOnFail?: boolean;
+  onError?: string;
+}
+
+interface NodeContext {
+  node: DryRunNode;
+  inputs: DryRunItem[][];
+  /** Parameters with expressions resolved against one item of the first input */
+  parameters: (itemIndex: number) => Promise<Record<string, unknown>>;
+  scope: (items: DryRunItem[], itemIndex?: number) => SandboxScope;
+  runCode: CodeRunner;
+  request: (request: DryRunHttpRequest) => Promise<DryRunHttpResponse>;
+}
+
+type NodeHandler = (context: NodeContext) => Promise<DryRunItem[][]>;
+
+type Connections = Record<string, { main?: Array<Array<{ node: string; index?: number }> | null> }>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function toItem(value: unknown): DryRunItem {
+  if (isRecord(value) && isRecord(value.json)) return { json: value.json };
+  if (isRecord(value)) return { json: value };
+  throw new Error('Expected objects, got ' + (Array.isArray(value) ? 'an array' : typeof value));
+}
+
+function toItems(value: unknown): DryRunItem[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value.map(toItem) : [toItem(value)];
+}
+
+function getPath(source: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), source);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown, dotNotation: boolean): void {
+  const keys = dotNotation ? path.split('.') : [path];
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    if (!isRecord(current[key])) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+function nameValuePairs(value: unknown): Array<{ name: string; value: unknown }> {
+  return Array.isArray(value)
+    ? value.filter(isRecord).filter(entry => typeof entry.name === 'string').map(entry => ({ name: entry.name as string, value: entry.value }))
+    : [];
+}
+
+/**
+ * Echoes the request back as a 200 response
+ */
+export const echoHttpStub: HttpStub = request => ({
+  status: 200,
+  body: { stub: true, method: request.method, url: request.url, query: request.query, body: request.body ?? null }
+});
+
+export interface HttpStubRoute {
+  method?: string;
+  url: string | RegExp;
+  response: DryRunHttpResponse | ((request: DryRunHttpRequest) => DryRunHttpResponse);
+}
+
+/**
+ * Stub server answering matching requests from fixed routes; others go to `fallback`
+ */
+export function createHttpStub(routes: HttpStubRoute[], fallback: HttpStub = echoHttpStub): HttpStub {
+  return request => {
+    const route = routes.find(candidate =>
+      (!candidate.method || candidate.method.toUpperCase() === request.method) &&
+      (typeof candidate.url === 'string' ? request.url.startsWith(candidate.url) : candidate.url.test(request.url)));
+    if (!route) return fallback(request);
+    return typeof route.response === 'function' ? route.response(request) : route.response;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Conditions (IF, Switch)
+
+const LEGACY_OPERATIONS: Record<string, string> = {
+  equal: 'equals',
+  notEqual: 'notEquals',
+  larger: 'gt',
+  largerEqual: 'gte',
+  smaller: 'lt',
+  smallerEqual: 'lte',
+  isEmpty: 'empty',
+  isNotEmpty: 'notEmpty'
+};
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return isRecord(value) && Object.keys(value).length === 0;
+}
+
+function compareValues(operation: string, left: unknown, right: unknown, type = 'string', caseSensitive = true): boolean {
+  const op = LEGACY_OPERATIONS[operation] ?? operation;
+  const text = (value: unknown) => {
+    const string = value === null || value === undefined ? '' : String(value);
+    return caseSensitive ? string : string.toLowerCase();
+  };
+  const number = (value: unknown) => Number(value);
+  const date = (value: unknown) => new Date(String(value)).getTime();
+
+  switch (op) {
+    case 'exists': return left !== undefined && left !== null;
+    case 'notExists': return left === undefined || left === null;
+    case 'empty': return isEmptyValue(left);
+    case 'notEmpty': return !isEmptyValue(left);
+    case 'true': return left === true || left === 'true';
+    case 'false': return left === false || left === 'false';
+    case 'equals':
+    case 'notEquals': {
+      const equal = type === 'number' ? number(left) === number(right)
+        : type === 'boolean' ? String(left) === String(right)
+        : type === 'dateTime' ? date(left) === date(right)
+        : text(left) === text(right);
+      return op === 'equals' ? equal : !equal;
+    }
+    case 'contains': return Array.isArray(left) ? left.includes(right) : text(left).includes(text(right));
+    case 'notContains': return Array.isArray(left) ? !left.includes(right) : !text(left).includes(text(right));
+    case 'startsWith': return text(left).startsWith(text(right));
+    case 'notStartsWith': return !text(left).startsWith(text(right));
+    case 'endsWith': return text(left).endsWith(text(right));
+    case 'notEndsWith': return !text(left).endsWith(text(right));
+    case 'regex': return new RegExp(String(right)).test(String(left ?? ''));
+    case 'notRegex': return !new RegExp(String(right)).test(String(left ?? ''));
+    case 'gt': return number(left) > number(right);
+    case 'gte': return number(left) >= number(right);
+    case 'lt': return number(left) < number(right);
+    case 'lte': return number(left) <= number(right);
+    case 'after': return date(left) > date(right);
+    case 'before': return date(left) < date(right);
+    case 'lengthEquals': return Array.isArray(left) && left.length === number(right);
+    default: throw new Error(`Condition "${operation}" is not supported`);
+  }
+}
+
+/**
+ * IF v2+/Switch v3 filter: { conditions: [{ leftValue, rightValue, operator }], combinator }
+ */
+function evaluateFilter(filter: unknown): boolean {
+  if (!isRecord(filter) || !Array.isArray(filter.conditions)) return false;
+  const caseSensitive = !(isRecord(filter.options) && filter.options.caseSensitive === false);
+  const results = filter.conditions.filter(isRecord).map(condition => {
+    const operator = isRecord(condition.operator) ? condition.operator : {};
+    return compareValues(String(operator.operation ?? 'equals'), condition.leftValue, condition.rightValue, String(operator.type ?? 'string'), caseSensitive);
+  });
+  return filter.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * IF v1: { string|number|boolean|dateTime: [{ value1, operation, value2 }] }
+ */
+function evaluateLegacyConditions(conditions: Record<string, unknown>, combine: unknown): boolean {
+  const results = Object.entries(conditions).flatMap(([type, list]) =>
+    (Array.isArray(list) ? list.filter(isRecord) : []).map(condition =>
+      compareValues(String(condition.operation ?? 'equal'), condition.value1, condition.value2, type)));
+  return combine === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Node handlers
+
+const triggerOutput: NodeHandler = async ({ inputs }) => [inputs[0] ?? []];
+
+const executeSet: NodeHandler = async ({ inputs, parameters }) => {
+  const items = inputs[0] ?? [];
+  return [await Promise.all(items.map(async (item, index) => {
+    const params = await parameters(index);
+    const options = isRecord(params.options) ? params.options : {};
+    const dotNotation = options.dotNotation !== false;
+
+    if (params.mode === 'raw') {
+      const raw = typeof params.jsonOutput === 'string' ? JSON.parse(params.jsonOutput) : params.jsonOutput;
+      return { json: params.includeOtherFields === true ? { ...clone(item.json), ...toItem(raw).json } : toItem(raw).json };
+    }
+
+    if (isRecord(params.assignments)) {
+      // v3: include other fields only when asked
+      const json = params.includeOtherFields === true ? clone(item.json) : {};
+      (Array.isArray(params.assignments.assignments) ? params.assignments.assignments.filter(isRecord) : []).forEach(assignment => {
+        if (typeof assignment.name !== 'string') return;
+        let value = assignment.value;
+        if (assignment.type === 'number') value = Number(value);
+        if (assignment.type === 'boolean') value = value === true || value === 'true';
+        if ((assignment.type === 'object' || assignment.type === 'array') && typeof value === 'string') value = JSON.parse(value);
+        setPath(json, assignment.name, value, dotNotation);
+      });
+      return { json };
+    }
+
+    // v1/v2: { values: { string: [...], number: [...], boolean: [...] }, keepOnlySet }
+    const json = params.keepOnlySet === true ? {} : clone(item.json);
+    const values = isRecord(params.values) ? params.values : {};
+    Object.entries(values).forEach(([type, list]) => nameValuePairs(list).forEach(({ name, value }) => {
+      setPath(json, name, type === 'number' ? Number(value) : type === 'boolean' ? value === true || value === 'true' : value, dotNotation);
+    }));
+    return { json };
+  }))];
+};
+
+const executeIf: NodeHandler = async ({ inputs, parameters }) => {
+  const kept: DryRunItem[] = [];
+  const dropped: DryRunItem[] = [];
+  const items = inputs[0] ?? [];
+  for (let index = 0; index < items.length; index++) {
+    const params = await parameters(index);
+    const conditions = isRecord(params.conditions) ? params.conditions : {};
+    const matches = Array.isArray(conditions.conditions)
+      ? evaluateFilter(conditions)
+      : evaluateLegacyConditions(conditions, params.combineOperation);
+    (matches ? kept : dropped).push(items[index]);
+  }
+  return [kept, dropped];
+};
+
+const executeSwitch: NodeHandler = async ({ inputs, parameters }) => {
+  const items = inputs[0] ?? [];
+  const outputs: DryRunItem[][] = [];
+  const emit = (output: number, item: DryRunItem) => {
+    while (outputs.length <= output) outputs.push([]);
+    outputs[output].push(item);
+  };
+
+  for (let index = 0; index < items.length; index++) {
+    const params = await parameters(index);
+    const options = isRecord(params.options) ? params.options : {};
+
+    if (params.mode === 'expression') {
+      emit(Number(params.output ?? 0), items[index]);
+      continue;
+    }
+
+    const rules = isRecord(params.rules) ? params.rules : {};
+    let matched: number[];
+    let fallback: number | null;
+
+    if (Array.isArray(rules.values)) {
+      // v3: one output per rule, fallback "none", "extra" or an output index
+      const results = rules.values.map(rule => isRecord(rule) && evaluateFilter(rule.conditions));
+      matched = results.flatMap((result, output) => (result ? [output] : []));
+      fallback = options.fallbackOutput === 'extra' ? rules.values.length
+        : typeof options.fallbackOutput === 'number' ? options.fallbackOutput : null;
+      while (outputs.length < rules.values.length) outputs.push([]);
+    } else {
+      // v1/v2: value1 compared with each rule's value2, output index per rule
+      const list = Array.isArray(rules.rules) ? rules.rules.filter(isRecord) : [];
+      matched = list
+        .filter(rule => compareValues(String(rule.operation ?? 'equal'), params.value1, rule.value2, String(params.dataType ?? 'number')))
+        .map(rule => Number(rule.output ?? 0));
+      const legacyFallback = Number(params.fallbackOutput ?? -1);
+      fallback = legacyFallback >= 0 ? legacyFallback : null;
+    }
+
+    const targets = options.allMatchingOutputs === true ? matched : matched.slice(0, 1);
+    if (targets.length === 0 && fallback !== null) targets.push(fallback);
+    targets.forEach(output => emit(output, items[index]));
+  }
+  return outputs;
+};
+
+function httpRequestOf(params: Record<string, unknown>): DryRunHttpRequest {
+  const method = String(params.method ?? params.requestMethod ?? 'GET').toUpperCase();
+  const url = typeof params.url === 'string' ? params.url : '';
+  if (!url) throw new Error('URL is empty');
+
+  const pairs = (value: unknown, key: string) => nameValuePairs(isRecord(value) ? value[key] : undefined);
+  const headers = Object.fromEntries(pairs(params.headerParameters, 'parameters').map(({ name, value }) => [name, String(value ?? '')]));
+  const query = Object.fromEntries([
+    ...pairs(params.queryParameters, 'parameters'),
+    ...pairs(params.queryParametersUi, 'parameter')
+  ].map(({ name, value }) => [name, String(value ?? '')]));
+
+  let body: unknown;
+  if (params.sendBody === true || params.jsonParameters === true) {
+    const json = params.specifyBody === 'json' ? params.jsonBody : params.bodyParametersJson;
+    body = json !== undefined
+      ? (typeof json === 'string' ? JSON.parse(json) : json)
+      : Object.fromEntries([
+        ...pairs(params.bodyParameters, 'parameters'),
+        ...pairs(params.bodyParametersUi, 'parameter')
+      ].map(({ name, value }) => [name, value]));
+  }
+  return { method, url, headers, query, ...(body !== undefined ? { body } : {}) };
+}
+
+const executeHttpRequest: NodeHandler = async ({ inputs, parameters, request }) => {
+  const items = inputs[0] ?? [];
+  const output: DryRunItem[] = [];
+  for (let index = 0; index < items.length; index++) {
+    const response = await request(httpRequestOf(await parameters(index)));
+    if (response.status >= 400) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    // n8n splits array responses into one item per element
+    const body = response.body;
+    if (Array.isArray(body) && body.every(isRecord)) output.push(...body.map(json => ({ json })));
+    else output.push({ json: isRecord(body) ? body : { data: body } });
+  }
+  return [output];
+};
+
+const executeCode: NodeHandler = async ({ node, inputs, scope, runCode }) => {
+  const items = inputs[0] ?? [];
+  const code = String(node.parameters.jsCode ?? '');
+  if (node.parameters.mode === 'runOnceForEachItem') {
+    const results = [];
+    for (let index = 0; index < items.length; index++) {
+      results.push(...toItems(await runCode(code, scope(items, index))));
+    }
+    return [results];
+  }
+  return [toItems(await runCode(code, scope(items)))];
+};
+
+function mergeFields(params: Record<string, unknown>): Array<[string, string]> {
+  if (typeof params.fieldsToMatchString === 'string') {
+    return params.fieldsToMatchString.split(',').map(field => field.trim()).filter(Boolean).map(field => [field, field]);
+  }
+  if (isRecord(params.mergeByFields) && Array.isArray(params.mergeByFields.values)) {
+    return params.mergeByFields.values.filter(isRecord).map(pair => [String(pair.field1 ?? ''), String(pair.field2 ?? '')]);
+  }
+  if (typeof params.propertyName1 === 'string') {
+    return [[params.propertyName1, String(params.propertyName2 ?? params.propertyName1)]];
+  }
+  return [];
+}
+
+const executeMerge: NodeHandler = async ({ inputs, parameters }) => {
+  const params = await parameters(0);
+  const [first = [], second = []] = inputs;
+  const mode = String(params.mode ?? 'append');
+  const combination = String(params.combinationMode ?? params.combineBy ?? '');
+  const merged = (a: DryRunItem, b: DryRunItem): DryRunItem => ({ json: { ...clone(a.json), ...clone(b.json) } });
+
+  if (mode === 'append') return [[...first, ...second]];
+
+  if (mode === 'chooseBranch' || mode === 'passThrough') {
+    if (params.output === 'empty') return [[{ json: {} }]];
+    return [params.output === 'input2' || Number(params.useDataOfInput) === 2 ? second : first];
+  }
+  if (mode === 'wait') return [[]];
+
+  if (mode === 'mergeByIndex' || mode === 'combineByPosition' || combination === 'mergeByPosition' || combination === 'combineByPosition') {
+    const length = Math.min(first.length, second.length);
+    return [first.slice(0, length).map((item, index) => merged(item, second[index]))];
+  }
+
+  if (mode === 'combineAll' || combination === 'multiplex' || combination === 'combineAll') {
+    return [first.flatMap(a => second.map(b => merged(a, b)))];
+  }
+
+  if (mode === 'mergeByKey' || mode === 'combineByFields' || combination === 'mergeByFields' || combination === 'combineByFields') {
+    const fields = mergeFields(params);
+    if (fields.length === 0) throw new Error('No fields to match');
+    return [first.flatMap(a => second
+      .filter(b => fields.every(([left, right]) => getPath(a.json, left) !== undefined && getPath(a.json, left) === getPath(b.json, right)))
+      .map(b => merged(a, b)))];
+  }
+
+  throw new Error(`Merge mode "${[mode, combination].filter(Boolean).join('/')}" is not supported`);
+};
+
+const HANDLERS: Record<string, NodeHandler> = {
+  webhook: triggerOutput,
+  manualTrigger: triggerOutput,
+  scheduleTrigger: triggerOutput,
+  cron: triggerOutput,
+  start: triggerOutput,
+  set: executeSet,
+  if: executeIf,
+  switch: executeSwitch,
+  httpRequest: executeHttpRequest,
+  code: executeCode,
+  merge: executeMerge
+};
+
+// ---------------------------------------------------------------------------
+// Engine
+
+function parseNodes(workflow: unknown): DryRunNode[] {
+  const nodes = isRecord(workflow) && Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  return nodes
+    .filter(isRecord)
+    .filter(node => typeof node.name === 'string' && typeof node.type === 'string' && shortNodeType(node.type) !== 'stickyNote')
+    .map(node => ({
+      name: node.name as string,
+      type: node.type as string,
+      parameters: isRecord(node.parameters) ? node.parameters : {},
+      disabled: node.disabled === true,
+      continueOnFail: node.continueOnFail === true,
+      onError: typeof node.onError === 'string' ? node.onError : undefined
+    }));
+}
+
+/**
+ * Items the trigger emits for the sample input
+ */
+function triggerItems(node: DryRunNode, input: unknown, timestamp: string): DryRunItem[] {
+  const short = shortNodeType(node.type);
+  if (short === 'webhook') {
+    return [{ json: { headers: {}, params: {}, query: {}, body: input ?? {} } }];
+  }
+  const items = input === undefined ? [{ json: {} }] : toItems(input);
+  if (short === 'scheduleTrigger' || short === 'cron') {
+    return items.map(item => ({ json: { timestamp, ...item.json } }));
+  }
+  return items;
+}
+
+function selectTrigger(nodes: DryRunNode[], name?: string): DryRunNode | undefined {
+  if (name) return nodes.find(node => node.name === name);
+  const triggers = nodes.filter(node => !node.disabled && isTriggerNode(node.type));
+  return triggers.find(node => shortNodeType(node.type) === 'webhook') ?? triggers[0];
+}
+
+/**
+ * Execute a workflow with sample input and return the per-node trace
+ */
+export async function dryRunWorkflow(workflow: unknown, options: DryRunOptions = {}): Promise<DryRunResult> {
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const runCode = options.codeRunner ?? defaultCodeRunner();
+  const httpStub = options.httpStub ?? echoHttpStub;
+  const maxExecutions = options.maxNodeExecutions ?? DEFAULT_MAX_NODE_EXECUTIONS;
+
+  const nodes = parseNodes(workflow);
+  const byName = new Map(nodes.map(node => [node.name, node]));
+  const connections: Connections = isRecord(workflow) && isRecord(workflow.connections) ? workflow.connections as Connections : {};
+  const trace: DryRunNodeTrace[] = [];
+  const nodeOutputs: Record<string, DryRunItem[]> = {};
+  const finish = (error?: string): DryRunResult => ({
+    status: error ? 'error' : 'success',
+    trace,
+    notExecuted: nodes.map(node => node.name).filter(name => !trace.some(entry => entry.node === name)),
+    ...(error ? { error } : {}),
+    durationMs: now() - startedAt
+  });
+
+  const trigger = selectTrigger(nodes, options.triggerNode);
+  if (!trigger) {
+    return finish(options.triggerNode ? `Trigger "${options.triggerNode}" not found` : 'Workflow has no trigger node');
+  }
+
+  // Nodes with several connected inputs (Merge) wait until each input has data
+  const expectedInputs = new Map<string, Set<number>>();
+  Object.values(connections).forEach(outputs => (outputs?.main ?? []).forEach(targets => (targets ?? []).forEach(target => {
+    if (!expectedInputs.has(target.node)) expectedInputs.set(target.node, new Set());
+    expectedInputs.get(target.node)!.add(target.index ?? 0);
+  })));
+
+  const stack: Array<{ node: DryRunNode; inputs: DryRunItem[][] }> = [];
+  const waiting = new Map<string, DryRunItem[][]>();
+  const timestamp = new Date(startedAt).toISOString();
+
+  const deliver = (target: string, index: number, items: DryRunItem[]) => {
+    const node = byName.get(target);
+    if (!node) return;
+    const expected = expectedInputs.get(target) ?? new Set([0]);
+    if (expected.size <= 1) {
+      const inputs: DryRunItem[][] = [];
+      inputs[index] = items;
+      stack.push({ node, inputs });
+      return;
+    }
+    const buffer = waiting.get(target) ?? [];
+    buffer[index] = [...(buffer[index] ?? []), ...items];
+    if ([...expected].every(input => buffer[input] !== undefined)) {
+      waiting.delete(target);
+      stack.push({ node, inputs: buffer });
+    } else {
+      waiting.set(target, buffer);
+    }
+  };
+
+  stack.push({ node: trigger, inputs: [triggerItems(trigger, options.input, timestamp)] });
+  let executions = 0;
+
+  while (stack.length > 0 || waiting.size > 0) {
+    // Merge inputs that never arrived: run with what is there, like n8n does
+    let next = stack.pop();
+    if (!next) {
+      const [name, buffer] = waiting.entries().next().value as [string, DryRunItem[][]];
+      waiting.delete(name);
+      next = { node: byName.get(name)!, inputs: buffer };
+    }
+    if (++executions > maxExecutions) {
+      return finish(`Stopped after ${maxExecutions} node executions; the workflow may loop`);
+    }
+
+    const { node, inputs } = next;
+    const short = shortNodeType(node.type);
+    const handler = HANDLERS[short];
+    const httpRequests: DryRunHttpRequest[] = [];
+    const nodeStartedAt = now();
+    const scope = (items: DryRunItem[], itemIndex?: number): SandboxScope => ({
+      items,
+      ...(itemIndex !== undefined ? { itemIndex } : {}),
+      nodes: nodeOutputs,
+      now: new Date(now()).toISOString()
+    });
+    const context: NodeContext = {
+      node,
+      inputs,
+      parameters: async itemIndex =>
+        resolveParameterValue(node.parameters, scope(inputs[0] ?? [], itemIndex), runCode) as Promise<Record<string, unknown>>,
+      scope,
+      runCode,
+      request: async request => {
+        httpRequests.push(request);
+        return httpStub(request);
+      }
+    };
+
+    let status: DryRunNodeStatus = 'success';
+    let message: string | undefined;
+    let output: DryRunItem[][];
+    try {
+      if (node.disabled) {
+        status = 'disabled';
+        output = [inputs[0] ?? []];
+      } else if (!handler || (short === 'code' && node.parameters.language === 'python')) {
+        status = 'mocked';
+        message = 'Not simulated; input passed through';
+        output = [inputs.flat()];
+      } else {
+        output = await handler(context);
+      }
+    } catch (error) {
+      status = 'error';
+      message = error instanceof Error ? error.message : String(error);
+      output = [[{ json: { error: message } }]];
+    }
+
+    trace.push({
+      node: node.name,
+      type: node.type,
+      status,
+      startedAt: nodeStartedAt - startedAt,
+      durationMs: now() - nodeStartedAt,
+      input: Array.from(inputs, items => items ?? []),
+      output,
+      ...(httpRequests.length > 0 ? { httpRequests } : {}),
+      ...(message ? { message } : {})
+    });
+
+    if (status === 'error' && !node.continueOnFail && !node.onError?.startsWith('continue')) {
+      return finish(`${node.name}: ${message}`);
+    }
+
+    nodeOutputs[node.name] = output.find(items => items.length > 0) ?? [];
+    // Push in reverse so the first output's first target runs next (branch by branch)
+    const main = connections[node.name]?.main ?? [];
+    for (let outputIndex = main.length - 1; outputIndex >= 0; outputIndex--) {
+      const items = output[outputIndex] ?? [];
+      if (items.length === 0) continue;
+      const targets = main[outputIndex] ?? [];
+      for (let t = targets.length - 1; t >= 0; t--) {
+        deliver(targets[t].node, targets[t].index ?? 0, items);
+      }
+    }
+  }
+
+  return finish();
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { buildAnalysisReport, formatCell, reportFileName, reportTables } from '../analysisReport';
+import { generateXlsxReport } from '../xlsxReport';
+import type { AnalysisResult } from '../../analysis/roiAggregator';
+
+const analysis: AnalysisResult = {
+  totalScore: 64.6,
+  ratio: { automatisierbar: 65, mensch: 35 },
+  summary: 'Hohes Potenzial bei Berichten',
+  recommendations: ['Report-Generierung automatisieren'],
+  tasks: [
+    {
+      text: 'Monatsberichte erstellen',
+      score: 85,
+      label: 'Automatisierbar',
+      category: 'analytical',
+      subtasks: [{
+        id: 's1', title: 'Daten sammeln', description: '', automationPotential: 0.9, estimatedTime: 4,
+        priority: 'high', complexity: 'low', systems: [], risks: [], opportunities: [], dependencies: []
+      }],
+      businessCase: {
+        manualHours: 20, automatedHours: 4, automationPotential: 80, savedHours: 16, setupCostHours: 10,
+        setupCostMoney: 800, roi: 140, paybackPeriodYears: 0.4, hourlyRateEmployee: 50, hourlyRateFreelancer: 90,
+        employmentType: 'employee', reasoning: ''
+      }
+    },
+    { text: 'Teamgespräche führen', score: 20, label: 'Mensch', category: 'communication' }
+  ]
+};
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('analysisReport', () => {
+  it('should build a localized report with business case totals', () => {
+    const report = buildAnalysisReport(analysis, 'en', { title: 'Controller', generatedAt: new Date('2026-03-01T12:00:00Z') });
+
+    expect(report.totalScore).toBe(65);
+    expect(report.tasks.map(task => task.label)).toEqual(['Automatable', 'Human']);
+    expect(report.tasks[0].subtasks[0].automationPotential).toBe(90);
+    expect(report.tasks[0].businessCase).toMatchObject({ hourlyRate: 50, savedMoney: 800, setupCost: 800 });
+    expect(report.businessCase?.setupCost).toBe(800);
+    expect(reportFileName(report, 'pdf')).toBe('controller-2026-03-01.pdf');
+  });
+
+  it('should emit one table per non-empty section', () => {
+    const report = buildAnalysisReport(analysis, 'de');
+    const tables = reportTables(report);
+
+    expect(tables.map(table => table.id)).toEqual([
+      'overview', 'tasks', 'subtasks', 'business_case', 'task_business_case', 'solutions'
+    ]);
+    expect(tables.find(table => table.id === 'tasks')?.columns).toContain('Aufgabe');
+    expect(formatCell({ value: 1234, format: 'currency' }, 'de')).toMatch(/1\.234\s€/);
+    expect(formatCell({ value: 2.5, format: 'hours' }, 'en')).toBe('2.5 h');
+  });
+
+  it('should skip the business case without task figures', () => {
+    const tables = reportTables(buildAnalysisReport({ ...analysis, tasks: [analysis.tasks[1]] }, 'de'));
+
+    expect(tables.map(table => table.id)).toEqual(['overview', 'tasks', 'solutions']);
+  });
+
+  it('should write one worksheet per section with numeric cells', async () => {
+    const report = buildAnalysisReport(analysis, 'en');
+
+    const blob = await generateXlsxReport(report);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await readBlob(blob));
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(reportTables(report).map(table => table.title));
+    const tasks = workbook.getWorksheet('Tasks')!;
+    expect(tasks.getRow(2).getCell(2).value).toBe('Monatsberichte erstellen');
+    expect(tasks.getRow(2).getCell(5).value).toBe(85);
+  });
+});
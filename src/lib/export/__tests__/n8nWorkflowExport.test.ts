@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import {
+  exportWorkflow,
+  exportWorkflowBundle,
+  ExportableWorkflow,
+  resolveN8nWorkflow,
+  sanitizeN8nWorkflow,
+  unwrapN8nWorkflow
+} from '../n8nWorkflowExport';
+
+const rawWorkflow = {
+  name: 'Lead intake',
+  nodes: [
+    { name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: { path: 'leads' } },
+    {
+      name: 'Enrich',
+      type: 'n8n-nodes-base.httpRequest',
+      parameters: {
+        url: '={{ $env.ENRICH_URL }}',
+        apiKey: 'sk-live-123',
+        token: '={{ $credentials.token }}',
+        headerParameters: { parameters: [{ name: 'Authorization', value: 'Bearer abc' }, { name: 'Accept', value: 'application/json' }] }
+      }
+    },
+    {
+      name: 'Sheets',
+      type: 'n8n-nodes-base.googleSheets',
+      typeVersion: 4,
+      parameters: { documentId: "={{ $env['SHEET_ID'] }}" },
+      credentials: { googleSheetsOAuth2Api: { id: '7', name: 'My Google account' } }
+    }
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Enrich', type: 'main', index: 0 }]] },
+    Enrich: { main: [[{ node: 'Sheets', type: 'main', index: 0 }, { node: 'Deleted', type: 'main', index: 0 }]] },
+    Deleted: { main: [[{ node: 'Sheets', type: 'main', index: 0 }]] }
+  }
+};
+
+const catalogWorkflow = (id: string, title: string, extra: Partial<ExportableWorkflow> = {}): ExportableWorkflow => ({
+  id,
+  title,
+  source: 'n8n.io',
+  sourceUrl: `https://n8n.io/workflows/${id}`,
+  ...extra
+});
+
+const fetchJson = (body: unknown, status = 200) => vi.fn(async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+
+describe('unwrapN8nWorkflow', () => {
+  it('finds the workflow in the nested n8n.io template structure', () => {
+    const unwrapped = unwrapN8nWorkflow({ workflow: { id: 1, workflow: rawWorkflow } });
+    expect(unwrapped?.nodes).toHaveLength(3);
+  });
+
+  it('parses JSON strings and rejects other documents', () => {
+    expect(unwrapN8nWorkflow(JSON.stringify(rawWorkflow))?.name).toBe('Lead intake');
+    expect(unwrapN8nWorkflow({ description: 'no nodes' })).toBeNull();
+    expect(unwrapN8nWorkflow('not json')).toBeNull();
+  });
+});
+
+describe('resolveN8nWorkflow', () => {
+  it('prefers embedded workflow data over the JSON url', async () => {
+    const fetchImpl = fetchJson({});
+    const resolved = await resolveN8nWorkflow(catalogWorkflow('1', 'Lead intake', { n8n_workflow: rawWorkflow, jsonUrl: 'https://example.com/x.json' }), fetchImpl);
+
+    expect(resolved.name).toBe('Lead intake');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('downloads the JSON url when nothing is embedded', async () => {
+    const fetchImpl = fetchJson({ workflow: rawWorkflow });
+    const resolved = await resolveN8nWorkflow(catalogWorkflow('1', 'Lead intake', { json_url: 'https://example.com/x.json' }), fetchImpl);
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://example.com/x.json', expect.anything());
+    expect(resolved.nodes).toHaveLength(3);
+  });
+
+  it('fails for workflows without any n8n JSON', async () => {
+    await expect(resolveN8nWorkflow(catalogWorkflow('1', 'Empty'), fetchJson({}))).rejects.toThrow('has no n8n JSON');
+    await expect(resolveN8nWorkflow(catalogWorkflow('2', 'Missing', { jsonUrl: 'https://example.com/404' }), fetchJson({}, 404)))
+      .rejects.toThrow('404');
+  });
+});
+
+describe('sanitizeN8nWorkflow', () => {
+  const result = sanitizeN8nWorkflow(rawWorkflow, 'Fallback');
+  const node = (name: string) => result.workflow.nodes.find(item => item.name === name)!;
+
+  it('strips credentials and lists the required types', () => {
+    expect(node('Sheets').credentials).toBeUndefined();
+    expect(result.credentials).toEqual([{ type: 'googleSheetsOAuth2Api', nodes: ['Sheets'] }]);
+  });
+
+  it('blanks hardcoded secrets but keeps expressions', () => {
+    const parameters = node('Enrich').parameters as { apiKey: string; token: string; headerParameters: { parameters: Array<{ value: string }> } };
+    expect(parameters.apiKey).toBe('');
+    expect(parameters.token).toBe('={{ $credentials.token }}');
+    expect(parameters.headerParameters.parameters.map(header => header.value)).toEqual(['', 'application/json']);
+    expect(result.removedSecrets.map(secret => secret.parameter)).toEqual([
+      'apiKey',
+      'headerParameters.parameters[0] (Authorization)'
+    ]);
+  });
+
+  it('pins missing node versions and fills in positions', () => {
+    expect(node('Enrich').typeVersion).toBe(1);
+    expect(node('Enrich').position).toEqual([220, 300]);
+    expect(node('Sheets').typeVersion).toBe(4);
+    expect(result.pinnedNodes).toEqual(['Enrich']);
+  });
+
+  it('detects referenced environment variables', () => {
+    expect(result.envVars).toEqual(['ENRICH_URL', 'SHEET_ID']);
+  });
+
+  it('drops connections to nodes that are not exported', () => {
+    expect(Object.keys(result.workflow.connections)).toEqual(['Webhook', 'Enrich']);
+    expect(JSON.stringify(result.workflow.connections)).not.toContain('Deleted');
+  });
+
+  it('produces an inactive import document', () => {
+    expect(result.workflow).toMatchObject({ name: 'Lead intake', active: false, pinData: {}, settings: { executionOrder: 'v1' } });
+  });
+});
+
+describe('exportWorkflow', () => {
+  it('adds a README with credentials and environment variables', async () => {
+    const exported = await exportWorkflow(catalogWorkflow('42', 'Lead Intake: Google Sheets', { n8n_workflow: rawWorkflow }), {
+      lang: 'en',
+      exportedAt: new Date('2026-01-01T00:00:00Z')
+    });
+
+    expect(exported.fileName).toBe('lead-intake-google-sheets.json');
+    expect(exported.workflow.meta).toMatchObject({ catalogId: '42', exportedAt: '2026-01-01T00:00:00.000Z' });
+    expect(exported.readme).toContain('https://n8n.io/workflows/42');
+    expect(exported.readme).toContain('`googleSheetsOAuth2Api` – Sheets');
+    expect(exported.readme).toContain('`ENRICH_URL`');
+    expect(exported.readme).toContain('`lead-intake-google-sheets.json`');
+  });
+});
+
+describe('exportWorkflowBundle', () => {
+  const readZip = (blob: Blob) => JSZip.loadAsync(blob);
+
+  it('zips a single workflow as JSON and README', async () => {
+    const { blob } = await exportWorkflowBundle([catalogWorkflow('1', 'Lead intake', { n8n_workflow: rawWorkflow })]);
+    const zip = await readZip(blob);
+
+    expect(Object.keys(zip.files).sort()).toEqual(['README.md', 'lead-intake.json']);
+    const imported = JSON.parse(await zip.file('lead-intake.json')!.async('string'));
+    expect(imported.nodes).toHaveLength(3);
+  });
+
+  it('puts several workflows in folders and lists failures in the index', async () => {
+    const { blob, exported, failed } = await exportWorkflowBundle([
+      catalogWorkflow('1', 'Lead intake', { n8n_workflow: rawWorkflow }),
+      catalogWorkflow('2', 'Lead intake', { workflowData: { nodes: rawWorkflow.nodes.slice(0, 1) } }),
+      catalogWorkflow('3', 'Without JSON')
+    ], { lang: 'en', title: 'Recommended workflows' });
+    const zip = await readZip(blob);
+
+    expect(exported).toHaveLength(2);
+    expect(failed).toEqual([expect.objectContaining({ workflowId: '3', title: 'Without JSON' })]);
+    expect(zip.file('01-lead-intake/lead-intake.json')).not.toBeNull();
+    expect(zip.file('02-lead-intake/README.md')).not.toBeNull();
+
+    const index = await zip.file('README.md')!.async('string');
+    expect(index).toContain('# Recommended workflows');
+    expect(index).toContain('Without JSON');
+  });
+
+  it('fails when no workflow can be exported', async () => {
+    await expect(exportWorkflowBundle([catalogWorkflow('3', 'Without JSON')])).rejects.toThrow('has no n8n JSON');
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Analysis Report - format-independent, localized view of an analysis
+ * Collects everything the PDF, DOCX and XLSX generators render: score and ratio,
+ * tasks with subtasks, the business case and recommended workflows/agents.
+ * Generators are loaded on demand so the export libraries stay out of the main bundle.
+ */
+
+import type { AnalysisResult } from '@/lib/analysis/roiAggregator';
+import type { Task } from '@/lib/analysis/taskClassifier';
+import { computeRoleROI, toTaskROIInputs } from '@/lib/analysis/roiModel';
+import { getToolById, getToolDescription } from '@/lib/catalog/aiTools';
+import { recommendWorkflows } from '@/lib/recommendations/client';
+import { t, translateCategory } from '@/lib/i18n/i18n';
+
+export type ExportFormat = 'pdf' | 'docx' | 'xlsx';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/** Brand colour (hsl(268 85% 44%)) as hex without '#' */
+export const REPORT_BRAND_COLOR = '6A11D0';
+
+export interface ReportSolution {
+  kind: 'workflow' | 'agent';
+  name: string;
+  description?: string;
+  /** Task the solution was recommended for */
+  taskText?: string;
+  url?: string;
+  /** unified_workflows id of recommended catalog workflows */
+  workflowId?: string;
+}
+
+export interface ReportSubtask {
+  title: string;
+  /** 0..100 */
+  automationPotential: number;
+  estimatedTime: number;
+}
+
+export interface ReportTask {
+  text: string;
+  score: number;
+  label: string;
+  category: string;
+  subtasks: ReportSubtask[];
+  businessCase?: {
+    manualHours: number;
+    automatedHours: number;
+    savedHours: number;
+    hourlyRate: number;
+    savedMoney: number;
+    setupCost: number;
+    roi: number;
+    paybackPeriodYears: number;
+  };
+}
+
+export interface ReportBusinessCase {
+  manualHoursPerMonth: number;
+  savedHoursPerMonth: number;
+  netMonthlySavings: number;
+  annualSavings: number;
+  setupCost: number;
+  npv: number;
+  paybackMonth: number | null;
+  yearlySavings: number[];
+}
+
+export interface AnalysisReport {
+  lang: 'de' | 'en';
+  title: string;
+  generatedAt: Date;
+  totalScore: number;
+  ratio: AnalysisResult['ratio'];
+  summary: string;
+  tasks: ReportTask[];
+  businessCase: ReportBusinessCase | null;
+  recommendations: string[];
+  solutions: ReportSolution[];
+}
+
+export type ReportCell =
+  | string
+  | number
+  | { value: number; format: 'percent' | 'currency' | 'hours' };
+
+/** One section of the report as a table; XLSX renders one sheet per section */
+export interface ReportTable {
+  id: 'overview' | 'tasks' | 'subtasks' | 'business_case' | 'task_business_case' | 'solutions';
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+export interface BuildReportOptions {
+  title?: string;
+  solutions?: ReportSolution[];
+  generatedAt?: Date;
+}
+
+/**
+ * Build the report model for an analysis
+ */
+export function buildAnalysisReport(analysis: AnalysisResult, lang: 'de' | 'en', options: BuildReportOptions = {}): AnalysisReport {
+  const tasks = analysis.tasks || [];
+  const hasBusinessCase = tasks.some(task => task.businessCase);
+  const roi = analysis.roi ?? (hasBusinessCase ? computeRoleROI(toTaskROIInputs(tasks)) : undefined);
+
+  return {
+    lang,
+    title: options.title?.trim() || t(lang, 'export_report_title'),
+    generatedAt: options.generatedAt ?? new Date(),
+    totalScore: Math.round(analysis.totalScore || 0),
+    ratio: {
+      automatisierbar: Math.round(analysis.ratio?.automatisierbar || 0),
+      mensch: Math.round(analysis.ratio?.mensch || 0)
+    },
+    summary: analysis.summary || '',
+    tasks: tasks.map(task => toReportTask(task, lang)),
+    businessCase: roi
+      ? {
+          manualHoursPerMonth: roi.manualHoursPerMonth,
+          savedHoursPerMonth: roi.savedHoursPerMonth,
+          netMonthlySavings: roi.netMonthlySavings,
+          annualSavings: roi.netMonthlySavings * 12,
+          setupCost: roi.setupCost,
+          npv: roi.npv,
+          paybackMonth: roi.paybackMonth,
+          yearlySavings: roi.yearlySavings
+        }
+      : null,
+    recommendations: analysis.recommendations || [],
+    solutions: [...(options.solutions || []), ...toolSolutions(tasks, lang)]
+  };
+}
+
+/**
+ * Generate the report file in the given format
+ */
+export async function generateReport(report: AnalysisReport, format: ExportFormat): Promise<Blob> {
+  switch (format) {
+    case 'pdf': {
+      const { generatePdfReport } = await import('./pdfReport');
+      return generatePdfReport(report);
+    }
+    case 'docx': {
+      const { generateDocxReport } = await import('./docxReport');
+      return generateDocxReport(report);
+    }
+    case 'xlsx': {
+      const { generateXlsxReport } = await import('./xlsxReport');
+      return generateXlsxReport(report);
+    }
+  }
+}
+
+/**
+ * Report sections as tables, shared by all generators; empty sections are left out
+ */
+export function reportTables(report: AnalysisReport): ReportTable[] {
+  const { lang } = report;
+  const percent = (value: number): ReportCell => ({ value, format: 'percent' });
+  const currency = (value: number): ReportCell => ({ value, format: 'currency' });
+  const hours = (value: number): ReportCell => ({ value, format: 'hours' });
+
+  const tables: ReportTable[] = [
+    {
+      id: 'overview',
+      title: t(lang, 'export_overview'),
+      columns: [t(lang, 'export_metric'), t(lang, 'export_value')],
+      rows: [
+        [t(lang, 'export_analysis'), report.title],
+        [t(lang, 'export_generated_on'), formatDate(report.generatedAt, lang)],
+        [t(lang, 'export_total_score'), percent(report.totalScore)],
+        [t(lang, 'label_automatisierbar'), percent(report.ratio.automatisierbar)],
+        [t(lang, 'label_mensch'), percent(report.ratio.mensch)],
+        [t(lang, 'export_task_count'), report.tasks.length],
+        ...(report.summary ? [[t(lang, 'export_summary'), report.summary]] : [])
+      ]
+    },
+    {
+      id: 'tasks',
+      title: t(lang, 'export_tasks'),
+      columns: ['#', t(lang, 'export_task'), t(lang, 'export_category'), t(lang, 'export_label'), t(lang, 'export_score')],
+      rows: report.tasks.map((task, index) => [index + 1, task.text, task.category, task.label, percent(task.score)])
+    },
+    {
+      id: 'subtasks',
+      title: t(lang, 'export_subtasks'),
+      columns: ['#', t(lang, 'export_task'), t(lang, 'export_subtask'), t(lang, 'export_automation_potential'), t(lang, 'export_estimated_time')],
+      rows: report.tasks.flatMap((task, index) =>
+        task.subtasks.map(subtask => [index + 1, task.text, subtask.title, percent(subtask.automationPotential), hours(subtask.estimatedTime)])
+      )
+    }
+  ];
+
+  if (report.businessCase) {
+    const businessCase = report.businessCase;
+    tables.push({
+      id: 'business_case',
+      title: t(lang, 'export_business_case'),
+      columns: [t(lang, 'export_metric'), t(lang, 'export_value')],
+      rows: [
+        [t(lang, 'export_manual_hours_month'), hours(businessCase.manualHoursPerMonth)],
+        [t(lang, 'export_saved_hours_month'), hours(businessCase.savedHoursPerMonth)],
+        [t(lang, 'export_net_savings_month'), currency(businessCase.netMonthlySavings)],
+        [t(lang, 'export_annual_savings'), currency(businessCase.annualSavings)],
+        [t(lang, 'export_setup_cost'), currency(businessCase.setupCost)],
+        [t(lang, 'export_npv'), currency(businessCase.npv)],
+        [t(lang, 'export_payback_month'), businessCase.paybackMonth ?? '–'],
+        ...businessCase.yearlySavings.map((value, index): ReportCell[] => [`${t(lang, 'export_savings_year')} ${index + 1}`, currency(value)])
+      ]
+    });
+  }
+
+  tables.push({
+    id: 'task_business_case',
+    title: t(lang, 'export_task_business_case'),
+    columns: [
+      t(lang, 'export_task'),
+      t(lang, 'export_manual_hours'),
+      t(lang, 'export_automated_hours'),
+      t(lang, 'export_saved_hours'),
+      t(lang, 'export_hourly_rate'),
+      t(lang, 'export_saved_money'),
+      t(lang, 'export_setup_cost'),
+      t(lang, 'export_roi'),
+      t(lang, 'export_payback_years')
+    ],
+    rows: report.tasks
+      .filter(task => task.businessCase)
+      .map(task => {
+        const businessCase = task.businessCase!;
+        return [
+          task.text,
+          hours(businessCase.manualHours),
+          hours(businessCase.automatedHours),
+          hours(businessCase.savedHours),
+          currency(businessCase.hourlyRate),
+          currency(businessCase.savedMoney),
+          currency(businessCase.setupCost),
+          percent(businessCase.roi),
+          businessCase.paybackPeriodYears
+        ];
+      })
+  });
+
+  tables.push({
+    id: 'solutions',
+    title: t(lang, 'export_recommendations'),
+    columns: [t(lang, 'export_type'), t(lang, 'export_name'), t(lang, 'export_description'), t(lang, 'export_task'), t(lang, 'export_link')],
+    rows: [
+      ...report.recommendations.map(recommendation => [t(lang, 'export_recommendation'), recommendation, '', '', '']),
+      ...report.solutions.map(solution => [
+        t(lang, solution.kind === 'workflow' ? 'export_workflow' : 'export_agent'),
+        solution.name,
+        solution.description || '',
+        solution.taskText || '',
+        solution.url || ''
+      ])
+    ]
+  });
+
+  return tables.filter(table => table.rows.length > 0);
+}
+
+/**
+ * Display text of a cell for the PDF and DOCX reports
+ */
+export function formatCell(cell: ReportCell, lang: 'de' | 'en'): string {
+  if (typeof cell === 'string') return cell;
+  if (typeof cell === 'number') return formatNumber(cell, lang, Number.isInteger(cell) ? 0 : 1);
+  switch (cell.format) {
+    case 'percent':
+      return `${formatNumber(cell.value, lang)} %`;
+    case 'currency':
+      return formatCurrency(cell.value, lang);
+    case 'hours':
+      return `${formatNumber(cell.value, lang, 1)} h`;
+  }
+}
+
+/**
+ * Recommended workflows for the most automatable tasks; best effort, failed lookups are skipped
+ */
+export async function fetchRecommendedWorkflows(analysis: AnalysisResult, maxTasks = 3): Promise<ReportSolution[]> {
+  const topTasks = [...(analysis.tasks || [])]
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .slice(0, maxTasks);
+
+  const results = await Promise.allSettled(topTasks.map(task => recommendWorkflows({
+    taskText: task.text,
+    subtasks: (task.subtasks || []).map(subtask => ({ id: subtask.id, name: subtask.title })),
+    flags: { topK: 3 }
+  })));
+
+  return results.flatMap((result, index) => result.status === 'fulfilled'
+    ? result.value.map(solution => ({
+        kind: 'workflow' as const,
+        workflowId: solution.id,
+        name: solution.name,
+        description: solution.description,
+        taskText: topTasks[index].text
+      }))
+    : []);
+}
+
+export function reportFileName(report: AnalysisReport, format: ExportFormat | 'zip'): string {
+  const slug = report.title
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'analysis';
+  return `${slug}-${report.generatedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Trigger a browser download for a generated report
+ */
+export function downloadReport(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function formatNumber(value: number, lang: 'de' | 'en', fractionDigits = 0): string {
+  return value.toLocaleString(lang === 'de' ? 'de-DE' : 'en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+}
+
+export function formatCurrency(value: number, lang: 'de' | 'en'): string {
+  return value.toLocaleString(lang === 'de' ? 'de-DE' : 'en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+}
+
+export function formatDate(date: Date, lang: 'de' | 'en'): string {
+  return date.toLocaleDateString(lang === 'de' ? 'de-DE' : 'en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function toReportTask(task: Task, lang: 'de' | 'en'): ReportTask {
+  const businessCase = task.businessCase;
+  const hourlyRate = businessCase
+    ? (businessCase.employmentType === 'freelancer' ? businessCase.hourlyRateFreelancer : businessCase.hourlyRateEmployee) || 0
+    : 0;
+
+  return {
+    text: task.text,
+    score: Math.round(task.score || 0),
+    label: t(lang, LABEL_KEYS[task.label] || 'label_mensch'),
+    category: translateCategory(lang, task.category),
+    subtasks: (task.subtasks || []).map(subtask => ({
+      title: subtask.title,
+      automationPotential: Math.round((subtask.automationPotential <= 1 ? subtask.automationPotential * 100 : subtask.automationPotential) || 0),
+      estimatedTime: subtask.estimatedTime || 0
+    })),
+    businessCase: businessCase
+      ? {
+          manualHours: businessCase.manualHours,
+          automatedHours: businessCase.automatedHours,
+          savedHours: businessCase.savedHours,
+          hourlyRate,
+          savedMoney: businessCase.savedHours * hourlyRate,
+          setupCost: businessCase.setupCostMoney,
+          roi: businessCase.roi,
+          paybackPeriodYears: businessCase.paybackPeriodYears
+        }
+      : undefined
+  };
+}
+
+const LABEL_KEYS: Record<Task['label'], string> = {
+  'Automatisierbar': 'label_automatisierbar',
+  'Teilweise Automatisierbar': 'label_teilweise',
+  'Mensch': 'label_mensch'
+};
+
+// AI tools suggested per task become the report's agent recommendations
+function toolSolutions(tasks: Task[], lang: 'de' | 'en'): ReportSolution[] {
+  const seen = new Set<string>();
+  const solutions: ReportSolution[] = [];
+  tasks.forEach(task => {
+    (task.aiTools || []).forEach(toolId => {
+      const tool = getToolById(toolId);
+      if (!tool || seen.has(tool.id)) return;
+      seen.add(tool.id);
+      solutions.push({
+        kind: 'agent',
+        name: tool.name,
+        description: getToolDescription(tool, lang),
+        taskText: task.text,
+        url: tool.website
+      });
+    });
+  });
+  return solutions;
+}
@@ -0,0 +1,110 @@
+/**
+ * DOCX Report - editable Word version of the analysis report (docx)
+ */
+
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { t } from '@/lib/i18n/i18n';
+import { AnalysisReport, REPORT_BRAND_COLOR, ReportTable, formatCell, formatDate, reportTables } from './analysisReport';
+
+export async function generateDocxReport(report: AnalysisReport): Promise<Blob> {
+  const { lang } = report;
+
+  const intro: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun({ text: report.title, color: REPORT_BRAND_COLOR })] }),
+    new Paragraph({
+      children: [new TextRun({ text: `${t(lang, 'export_generated_on')} ${formatDate(report.generatedAt, lang)}`, italics: true })]
+    }),
+    new Paragraph({
+      spacing: { before: 240 },
+      children: [
+        new TextRun({ text: `${report.totalScore} % `, bold: true, size: 48, color: REPORT_BRAND_COLOR }),
+        new TextRun({ text: t(lang, 'export_total_score') })
+      ]
+    }),
+    new Paragraph({
+      children: [
+        new TextRun(`${t(lang, 'label_automatisierbar')}: ${report.ratio.automatisierbar} %  ·  `),
+        new TextRun(`${t(lang, 'label_mensch')}: ${report.ratio.mensch} %`)
+      ]
+    })
+  ];
+  if (report.summary) {
+    intro.push(new Paragraph({ spacing: { before: 240 }, children: [new TextRun(report.summary)] }));
+  }
+
+  const sections = reportTables(report)
+    .filter(table => table.id !== 'overview')
+    .flatMap(table => [
+      new Paragraph({ heading: HeadingLevel.HEADING_1, spacing: { before: 360, after: 120 }, children: [new TextRun(table.title)] }),
+      toDocxTable(table, lang)
+    ]);
+
+  const doc = new Document({
+    creator: 'PROM8EUS',
+    title: report.title,
+    sections: [
+      {
+        headers: {
+          default: new Header({
+            children: [new Paragraph({ children: [new TextRun({ text: 'PROM8EUS', bold: true, color: REPORT_BRAND_COLOR })] })]
+          })
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun(`${t(lang, 'export_footer')}  ·  `),
+                  new TextRun({ children: [PageNumber.CURRENT, ' / ', PageNumber.TOTAL_PAGES] })
+                ]
+              })
+            ]
+          })
+        },
+        children: [...intro, ...sections]
+      }
+    ]
+  });
+
+  return Packer.toBlob(doc);
+}
+
+function toDocxTable(table: ReportTable, lang: 'de' | 'en'): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: table.columns.map(column => new TableCell({
+      shading: { type: ShadingType.SOLID, color: REPORT_BRAND_COLOR, fill: REPORT_BRAND_COLOR },
+      children: [new Paragraph({ children: [new TextRun({ text: column, bold: true, color: 'FFFFFF' })] })]
+    }))
+  });
+
+  const rows = table.rows.map(row => new TableRow({
+    children: row.map(cell => new TableCell({
+      children: [new Paragraph({
+        alignment: typeof cell === 'string' ? AlignmentType.LEFT : AlignmentType.RIGHT,
+        children: [new TextRun(formatCell(cell, lang))]
+      })]
+    }))
+  }));
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [header, ...rows]
+  });
+}
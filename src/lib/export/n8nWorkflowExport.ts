@@ -0,0 +1,390 @@
+/**
+ * n8n Workflow Export - importable n8n JSON for any catalog workflow
+ * Resolves the workflow JSON from whatever the source provides (generated `n8nWorkflow`,
+ * raw `workflowData` or the `jsonUrl` download), strips credentials and hardcoded secrets,
+ * pins node versions and adds a README listing what has to be set up after the import.
+ * Several workflows (e.g. all recommendations of an analysis) are bundled as one zip.
+ */
+
+import type { UnifiedWorkflow } from '@/lib/schemas/unifiedWorkflow';
+import { t } from '@/lib/i18n/i18n';
+import { SECRET_HEADER, SECRET_PARAMETER } from '@/lib/workflowValidator';
+
+type Lang = 'de' | 'en';
+
+/** Catalog rows are read from unified_workflows as-is, so fields may still be snake_case */
+export type ExportableWorkflow = Pick<UnifiedWorkflow, 'id' | 'title'> & Partial<UnifiedWorkflow> & {
+  n8n_workflow?: unknown;
+  workflow_data?: unknown;
+  json_url?: string;
+  source_url?: string;
+};
+
+interface N8nNode {
+  id?: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  credentials?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface N8nImportWorkflow {
+  name: string;
+  nodes: N8nNode[];
+  connections: Record<string, unknown>;
+  settings: Record<string, unknown>;
+  pinData: Record<string, never>;
+  active: false;
+  meta: Record<string, unknown>;
+}
+
+export interface RequiredCredential {
+  /** n8n credential type, e.g. "slackApi" */
+  type: string;
+  nodes: string[];
+}
+
+export interface RemovedSecret {
+  node: string;
+  parameter: string;
+}
+
+export interface WorkflowExport {
+  workflowId: string;
+  title: string;
+  fileName: string;
+  workflow: N8nImportWorkflow;
+  credentials: RequiredCredential[];
+  envVars: string[];
+  removedSecrets: RemovedSecret[];
+  /** Nodes that had no typeVersion and were pinned to version 1 */
+  pinnedNodes: string[];
+  readme: string;
+}
+
+export interface ExportOptions {
+  lang?: Lang;
+  fetchImpl?: typeof fetch;
+  exportedAt?: Date;
+}
+
+const DEFAULT_NODE_VERSION = 1;
+const ENV_REFERENCE = /\$env(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*['"]([^'"]+)['"]\s*\])|process\.env\.([A-Za-z_][A-Za-z0-9_]*)/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Find the n8n workflow inside a document; the n8n.io template API nests it as
+ * `{ workflow: { workflow: { nodes, connections } } }`
+ */
+export function unwrapN8nWorkflow(document: unknown): Record<string, unknown> | null {
+  let current: unknown = typeof document === 'string' ? safeParse(document) : document;
+  for (let depth = 0; depth < 4 && isRecord(current); depth++) {
+    if (Array.isArray(current.nodes)) return current;
+    current = current.workflow;
+  }
+  return null;
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Raw n8n workflow of a catalog entry; downloads `jsonUrl` when nothing is embedded
+ */
+export async function resolveN8nWorkflow(
+  workflow: ExportableWorkflow,
+  fetchImpl: typeof fetch = fetch
+): Promise<Record<string, unknown>> {
+  const embedded = [workflow.n8nWorkflow, workflow.n8n_workflow, workflow.workflowData, workflow.workflow_data]
+    .map(unwrapN8nWorkflow)
+    .find(Boolean);
+  if (embedded) return embedded;
+
+  const jsonUrl = workflow.jsonUrl || workflow.json_url;
+  if (!jsonUrl) {
+    throw new Error(`Workflow ${workflow.id} has no n8n JSON`);
+  }
+
+  const response = await fetchImpl(jsonUrl, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Download of ${jsonUrl} failed: ${response.status}`);
+  }
+  const downloaded = unwrapN8nWorkflow(await response.text());
+  if (!downloaded) {
+    throw new Error(`${jsonUrl} is not an n8n workflow`);
+  }
+  return downloaded;
+}
+
+/**
+ * Blank hardcoded secrets (API keys, passwords, auth headers); expressions ("=...") are kept
+ */
+function stripSecrets(value: unknown, node: string, path: string, removed: RemovedSecret[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => stripSecrets(item, node, `${path}[${index}]`, removed));
+  }
+  if (!isRecord(value)) return value;
+
+  const isSecretHeader = typeof value.name === 'string' && SECRET_HEADER.test(value.name)
+    && typeof value.value === 'string' && value.value !== '' && !value.value.startsWith('=');
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    const isSecret = (key === 'value' && isSecretHeader)
+      || (SECRET_PARAMETER.test(key) && typeof child === 'string' && child !== '' && !child.startsWith('='));
+    if (isSecret) {
+      removed.push({ node, parameter: isSecretHeader && key === 'value' ? `${path} (${value.name})` : childPath });
+      return [key, ''];
+    }
+    return [key, stripSecrets(child, node, childPath, removed)];
+  }));
+}
+
+function collectEnvVars(value: unknown): string[] {
+  const names = new Set<string>();
+  const text = JSON.stringify(value) || '';
+  for (const match of text.matchAll(ENV_REFERENCE)) {
+    names.add(match[1] || match[2] || match[3]);
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Turn a raw n8n workflow into a clean import document
+ */
+export function sanitizeN8nWorkflow(
+  raw: Record<string, unknown>,
+  name: string,
+  meta: Record<string, unknown> = {}
+): Pick<WorkflowExport, 'workflow' | 'credentials' | 'envVars' | 'removedSecrets' | 'pinnedNodes'> {
+  const credentials = new Map<string, string[]>();
+  const removedSecrets: RemovedSecret[] = [];
+  const pinnedNodes: string[] = [];
+  const usedNames = new Set<string>();
+
+  const nodes = (raw.nodes as unknown[]).filter(isRecord).filter(node => typeof node.type === 'string').map((node, index): N8nNode => {
+    const nodeName = typeof node.name === 'string' && node.name ? node.name : `${node.type} ${index + 1}`;
+    usedNames.add(nodeName);
+
+    Object.keys(isRecord(node.credentials) ? node.credentials : {}).forEach(type => {
+      credentials.set(type, [...(credentials.get(type) || []), nodeName]);
+    });
+
+    let typeVersion = Number(node.typeVersion);
+    if (!Number.isFinite(typeVersion) || typeVersion <= 0) {
+      typeVersion = DEFAULT_NODE_VERSION;
+      pinnedNodes.push(nodeName);
+    }
+
+    const position: [number, number] = Array.isArray(node.position) && node.position.length === 2
+      ? [Number(node.position[0]) || 0, Number(node.position[1]) || 0]
+      : [index * 220, 300];
+
+    const { credentials: _credentials, ...rest } = node;
+    return {
+      ...rest,
+      name: nodeName,
+      type: node.type as string,
+      typeVersion,
+      position,
+      parameters: stripSecrets(isRecord(node.parameters) ? node.parameters : {}, nodeName, '', removedSecrets) as Record<string, unknown>
+    };
+  });
+
+  // Drop edges from or to nodes that are not part of the export
+  const connections = Object.fromEntries(Object.entries(isRecord(raw.connections) ? raw.connections : {})
+    .filter(([source]) => usedNames.has(source))
+    .map(([source, outputs]) => [source, isRecord(outputs)
+      ? Object.fromEntries(Object.entries(outputs).map(([kind, lists]) => [kind, Array.isArray(lists)
+        ? lists.map(list => (Array.isArray(list) ? list.filter(edge => isRecord(edge) && usedNames.has(String(edge.node))) : []))
+        : []]))
+      : {}]));
+
+  return {
+    workflow: {
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : name,
+      nodes,
+      connections,
+      settings: isRecord(raw.settings) ? raw.settings : { executionOrder: 'v1' },
+      pinData: {},
+      active: false,
+      meta: { ...(isRecord(raw.meta) ? { templateId: raw.meta.templateId } : {}), ...meta }
+    },
+    credentials: Array.from(credentials.entries())
+      .map(([type, nodeNames]) => ({ type, nodes: nodeNames }))
+      .sort((a, b) => a.type.localeCompare(b.type)),
+    envVars: collectEnvVars(nodes.map(node => node.parameters)),
+    removedSecrets,
+    pinnedNodes
+  };
+}
+
+export function exportFileSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'workflow';
+}
+
+/**
+ * README for one exported workflow (Markdown)
+ */
+export function buildWorkflowReadme(
+  result: Omit<WorkflowExport, 'readme'>,
+  source: { url?: string; source?: string },
+  lang: Lang = 'de'
+): string {
+  const none = `- ${t(lang, 'n8n_export_none')}`;
+  const lines = [
+    `# ${result.title}`,
+    '',
+    ...(source.url ? [`${t(lang, 'n8n_export_source')}: ${source.url}${source.source ? ` (${source.source})` : ''}`, ''] : []),
+    `## ${t(lang, 'n8n_export_import_title')}`,
+    '',
+    `1. ${t(lang, 'n8n_export_import_step_1')} \`${result.fileName}\``,
+    `2. ${t(lang, 'n8n_export_import_step_2')}`,
+    `3. ${t(lang, 'n8n_export_import_step_3')}`,
+    '',
+    `## ${t(lang, 'n8n_export_credentials')}`,
+    '',
+    ...(result.credentials.length > 0
+      ? result.credentials.map(credential => `- \`${credential.type}\` – ${credential.nodes.join(', ')}`)
+      : [none]),
+    '',
+    `## ${t(lang, 'n8n_export_env_vars')}`,
+    '',
+    ...(result.envVars.length > 0 ? result.envVars.map(name => `- \`${name}\``) : [none]),
+    ''
+  ];
+
+  if (result.removedSecrets.length > 0) {
+    lines.push(`## ${t(lang, 'n8n_export_removed_secrets')}`, '');
+    result.removedSecrets.forEach(secret => lines.push(`- ${secret.node}: \`${secret.parameter}\``));
+    lines.push('');
+  }
+
+  lines.push(`## ${t(lang, 'n8n_export_nodes')}`, '', `| Node | Type | Version |`, `| --- | --- | --- |`);
+  result.workflow.nodes.forEach(node => {
+    const pinned = result.pinnedNodes.includes(node.name) ? ` (${t(lang, 'n8n_export_pinned')})` : '';
+    lines.push(`| ${node.name.replace(/\|/g, '\\|')} | \`${node.type}\` | ${node.typeVersion}${pinned} |`);
+  });
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Resolve and sanitize one catalog workflow
+ */
+export async function exportWorkflow(workflow: ExportableWorkflow, options: ExportOptions = {}): Promise<WorkflowExport> {
+  const raw = await resolveN8nWorkflow(workflow, options.fetchImpl);
+  const sourceUrl = workflow.sourceUrl || workflow.source_url;
+  const sanitized = sanitizeN8nWorkflow(raw, workflow.title, {
+    exportedFrom: 'prom8eus',
+    catalogId: workflow.id,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString()
+  });
+
+  const result = {
+    workflowId: workflow.id,
+    title: workflow.title || sanitized.workflow.name,
+    fileName: `${exportFileSlug(workflow.title || sanitized.workflow.name)}.json`,
+    ...sanitized
+  };
+  return { ...result, readme: buildWorkflowReadme(result, { url: sourceUrl, source: workflow.source }, options.lang) };
+}
+
+/**
+ * Zip with one folder (workflow JSON + README) per workflow and an index README;
+ * a single workflow is zipped as just its JSON and README.
+ * Workflows that cannot be resolved are listed in the index instead of failing the bundle.
+ */
+export async function exportWorkflowBundle(
+  workflows: ExportableWorkflow[],
+  options: ExportOptions & { title?: string } = {}
+): Promise<{ blob: Blob; exported: WorkflowExport[]; failed: Array<{ workflowId: string; title: string; error: string }> }> {
+  const lang = options.lang ?? 'de';
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+
+  const results = await Promise.allSettled(workflows.map(workflow => exportWorkflow(workflow, options)));
+  const exported: WorkflowExport[] = [];
+  const failed: Array<{ workflowId: string; title: string; error: string }> = [];
+  const usedFolders = new Set<string>();
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      failed.push({
+        workflowId: workflows[index].id,
+        title: workflows[index].title,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+      });
+      return;
+    }
+    exported.push(result.value);
+  });
+
+  if (exported.length === 0) {
+    throw new Error(failed[0]?.error || t(lang, 'n8n_export_bundle_empty'));
+  }
+
+  // A single workflow needs no folders or index
+  if (workflows.length === 1) {
+    zip.file(exported[0].fileName, JSON.stringify(exported[0].workflow, null, 2));
+    zip.file('README.md', exported[0].readme);
+  } else {
+    exported.forEach((item, i) => {
+      let folder = `${String(i + 1).padStart(2, '0')}-${item.fileName.replace(/\.json$/, '')}`;
+      while (usedFolders.has(folder)) folder += '-1';
+      usedFolders.add(folder);
+      zip.file(`${folder}/${item.fileName}`, JSON.stringify(item.workflow, null, 2));
+      zip.file(`${folder}/README.md`, item.readme);
+    });
+    zip.file('README.md', bundleReadme(exported, failed, options.title, lang));
+  }
+
+  const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  return { blob, exported, failed };
+}
+
+function bundleReadme(
+  exported: WorkflowExport[],
+  failed: Array<{ title: string; error: string }>,
+  title: string | undefined,
+  lang: Lang
+): string {
+  const none = [`- ${t(lang, 'n8n_export_none')}`];
+  const credentialTypes = Array.from(new Set(exported.flatMap(item => item.credentials.map(credential => credential.type)))).sort();
+  const envVars = Array.from(new Set(exported.flatMap(item => item.envVars))).sort();
+
+  const lines = [
+    `# ${title || t(lang, 'n8n_export_bundle_title')}`,
+    '',
+    ...exported.map((item, i) => `${i + 1}. ${item.title} – \`${item.fileName}\``),
+    '',
+    `## ${t(lang, 'n8n_export_credentials')}`,
+    '',
+    ...(credentialTypes.length > 0 ? credentialTypes.map(type => `- \`${type}\``) : none),
+    '',
+    `## ${t(lang, 'n8n_export_env_vars')}`,
+    '',
+    ...(envVars.length > 0 ? envVars.map(name => `- \`${name}\``) : none),
+    ''
+  ];
+  if (failed.length > 0) {
+    lines.push(`## ${t(lang, 'n8n_export_failed_items')}`, '', ...failed.map(item => `- ${item.title}: ${item.error}`), '');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,110 @@
+/**
+ * PDF Report - branded, print-ready analysis report (jsPDF + autotable)
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { t } from '@/lib/i18n/i18n';
+import { AnalysisReport, REPORT_BRAND_COLOR, formatCell, formatDate, reportTables } from './analysisReport';
+
+const MARGIN = 15;
+const BRAND_RGB: [number, number, number] = [
+  parseInt(REPORT_BRAND_COLOR.slice(0, 2), 16),
+  parseInt(REPORT_BRAND_COLOR.slice(2, 4), 16),
+  parseInt(REPORT_BRAND_COLOR.slice(4, 6), 16)
+];
+const MUTED_RGB: [number, number, number] = [110, 110, 120];
+
+export async function generatePdfReport(report: AnalysisReport): Promise<Blob> {
+  const { lang } = report;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - 2 * MARGIN;
+
+  // Header band
+  doc.setFillColor(...BRAND_RGB);
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('PROM8EUS', MARGIN, 10);
+  doc.setFontSize(16);
+  doc.text(doc.splitTextToSize(report.title, contentWidth)[0], MARGIN, 19);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`${t(lang, 'export_generated_on')} ${formatDate(report.generatedAt, lang)}`, pageWidth - MARGIN, 10, { align: 'right' });
+
+  // Score and ratio bar
+  let y = 42;
+  doc.setTextColor(...BRAND_RGB);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(`${report.totalScore} %`, MARGIN, y);
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED_RGB);
+  doc.setFont('helvetica', 'normal');
+  doc.text(t(lang, 'export_total_score'), MARGIN, y + 6);
+
+  const barX = MARGIN + 60;
+  const barWidth = contentWidth - 60;
+  const automatableWidth = (barWidth * Math.min(100, Math.max(0, report.ratio.automatisierbar))) / 100;
+  doc.setFillColor(...BRAND_RGB);
+  doc.rect(barX, y - 8, automatableWidth, 6, 'F');
+  doc.setFillColor(225, 225, 232);
+  doc.rect(barX + automatableWidth, y - 8, barWidth - automatableWidth, 6, 'F');
+  doc.text(`${t(lang, 'label_automatisierbar')} ${report.ratio.automatisierbar} %`, barX, y + 3);
+  doc.text(`${t(lang, 'label_mensch')} ${report.ratio.mensch} %`, barX + barWidth, y + 3, { align: 'right' });
+
+  // Summary
+  y += 16;
+  if (report.summary) {
+    doc.setTextColor(40, 40, 45);
+    doc.setFontSize(10);
+    const lines: string[] = doc.splitTextToSize(report.summary, contentWidth);
+    doc.text(lines, MARGIN, y);
+    y += lines.length * 4.5 + 4;
+  }
+
+  // Sections; the overview table repeats the header facts for reference
+  reportTables(report)
+    .filter(table => table.id !== 'overview')
+    .forEach(table => {
+      if (y > doc.internal.pageSize.getHeight() - 40) {
+        doc.addPage();
+        y = MARGIN + 5;
+      }
+      doc.setTextColor(...BRAND_RGB);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(13);
+      doc.text(table.title, MARGIN, y);
+
+      autoTable(doc, {
+        startY: y + 3,
+        margin: { left: MARGIN, right: MARGIN },
+        head: [table.columns],
+        body: table.rows.map(row => row.map(cell => formatCell(cell, lang))),
+        styles: { font: 'helvetica', fontSize: 8.5, cellPadding: 1.8, overflow: 'linebreak' },
+        headStyles: { fillColor: BRAND_RGB, textColor: 255 },
+        alternateRowStyles: { fillColor: [246, 243, 252] }
+      });
+      y = lastTableEnd(doc) + 10;
+    });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_RGB);
+    doc.setFont('helvetica', 'normal');
+    const footerY = doc.internal.pageSize.getHeight() - 8;
+    doc.text(t(lang, 'export_footer'), MARGIN, footerY);
+    doc.text(`${page} / ${pageCount}`, pageWidth - MARGIN, footerY, { align: 'right' });
+  }
+
+  return doc.output('blob');
+}
+
+function lastTableEnd(doc: jsPDF): number {
+  return (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? MARGIN;
+}
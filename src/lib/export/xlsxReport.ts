@@ -0,0 +1,60 @@
+/**
+ * XLSX Report - one worksheet per report section (exceljs)
+ * Numbers stay numeric with number formats, so the sheets can be recalculated.
+ */
+
+import ExcelJS from 'exceljs';
+import { AnalysisReport, EXPORT_MIME_TYPES, REPORT_BRAND_COLOR, ReportCell, reportTables } from './analysisReport';
+
+const NUMBER_FORMATS = {
+  percent: '0" %"',
+  currency: '#,##0 "€"',
+  hours: '0.0" h"'
+} as const;
+
+// Excel limits sheet names to 31 characters and forbids a few characters
+const sheetName = (title: string) => title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+
+export async function generateXlsxReport(report: AnalysisReport): Promise<Blob> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'PROM8EUS';
+  workbook.created = report.generatedAt;
+  workbook.title = report.title;
+
+  reportTables(report).forEach(table => {
+    const sheet = workbook.addWorksheet(sheetName(table.title), {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    const header = sheet.addRow(table.columns);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.eachCell(cell => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${REPORT_BRAND_COLOR}` } };
+    });
+
+    table.rows.forEach(row => {
+      const added = sheet.addRow(row.map(cellValue));
+      row.forEach((cell, index) => {
+        if (typeof cell === 'object') {
+          added.getCell(index + 1).numFmt = NUMBER_FORMATS[cell.format];
+        }
+      });
+      added.alignment = { vertical: 'top', wrapText: true };
+    });
+
+    sheet.columns.forEach((column, index) => {
+      const longest = Math.max(
+        table.columns[index]?.length ?? 0,
+        ...table.rows.map(row => String(cellValue(row[index] ?? '')).length)
+      );
+      column.width = Math.min(60, Math.max(10, longest + 2));
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: EXPORT_MIME_TYPES.xlsx });
+}
+
+function cellValue(cell: ReportCell): string | number {
+  return typeof cell === 'object' ? cell.value : cell;
+}
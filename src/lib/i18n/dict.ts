@@ -155,6 +155,7 @@ export const DICT: Record<Lang, Record<string, string>> = {
     
     // Analysis Labels
     label_automatisierbar: "Automatisierbar",
+    label_teilweise: "Teilweise automatisierbar",
     label_mensch: "Mensch",
     score_label: "Automatisierungspotenzial",
     
@@ -444,6 +445,19 @@ export const DICT: Record<Lang, Record<string, string>> = {
     history_yesterday: "Gestern", 
     history_tasks: "Aufgaben",
     history_delete: "Analyse löschen",
+    account_sign_in_hint: "Melden Sie sich an, um Ihre Analysen geräteübergreifend zu speichern. Bestehende Analysen aus diesem Browser werden einmalig übernommen.",
+    account_email_placeholder: "E-Mail-Adresse",
+    account_sign_in: "Anmeldelink senden",
+    account_link_sent: "Wir haben Ihnen einen Anmeldelink per E-Mail geschickt.",
+    account_sign_in_error: "Der Anmeldelink konnte nicht gesendet werden. Bitte versuchen Sie es erneut.",
+    account_sign_out: "Abmelden",
+    account_search_placeholder: "Analysen durchsuchen …",
+    account_imported: "Analysen aus diesem Browser übernommen",
+    account_empty: "Keine Analysen gefunden",
+    account_rename: "Umbenennen",
+    account_rename_prompt: "Neuer Titel",
+    account_tags: "Tags bearbeiten",
+    account_tags_prompt: "Tags (durch Komma getrennt)",
     copyright: "Alle Rechte vorbehalten.",
     
     // MainContent
@@ -485,6 +499,162 @@ export const DICT: Record<Lang, Record<string, string>> = {
     // Results page
     back: "Zurück",
     your_analysis: "Ihre Automatisierungs-Analyse",
+    offline_analysis_notice: "Offline-Analyse: Die KI war nicht verfügbar. Aufgaben und Scores wurden regelbasiert aus unseren Rollenkatalogen abgeleitet und sind weniger zuverlässig.",
+    roi_model_title: "Business Case der Rolle",
+    roi_model_note: "Für eine Person gerechnet, Aufgaben anteilig auf die monatliche Arbeitszeit verteilt, mit Anlaufphase bis zur vollen Einsparung.",
+    analysis_streaming: "Aufgaben werden analysiert",
+    analysis_streaming_more: "Weitere Aufgaben werden extrahiert …",
+    analysis_streaming_details: "Teilaufgaben werden erstellt …",
+
+    // Batch analysis
+    batch_title: "Batch-Analyse",
+    batch_intro: "Analysieren Sie ganze Organigramme: Laden Sie eine CSV- oder JSON-Datei mit Rollen hoch (Titel, URL oder Stellentext, Headcount, Stundensatz).",
+    batch_format_hint: "Spalten: title, url oder text, headcount, hourlyRate. CSV mit Komma oder Semikolon.",
+    batch_upload: "Datei auswählen",
+    batch_import_errors: "Einige Zeilen wurden übersprungen",
+    batch_row: "Zeile",
+    batch_start: "Analyse starten",
+    batch_retry: "Erneut versuchen",
+    batch_retry_failed: "Fehlgeschlagene erneut analysieren",
+    batch_progress: "analysiert",
+    batch_col_role: "Rolle",
+    batch_col_headcount: "Headcount",
+    batch_col_status: "Status",
+    batch_col_score: "Potenzial",
+    batch_col_savings: "Einsparung / Jahr",
+    batch_status_pending: "Wartend",
+    batch_status_running: "Läuft",
+    batch_status_done: "Fertig",
+    batch_status_failed: "Fehlgeschlagen",
+    batch_cached: "aus Cache",
+    batch_report_title: "Konsolidierter Bericht",
+    batch_weighted_score: "Automatisierungspotenzial (gewichtet)",
+    batch_total_headcount: "Mitarbeitende",
+    batch_saved_hours: "Gesparte Stunden / Monat",
+    batch_annual_savings: "Einsparung / Jahr",
+    batch_setup_cost: "Einmalige Setup-Kosten",
+    batch_payback: "Amortisation (Monat)",
+    batch_npv: "Kapitalwert (NPV, 3 Jahre)",
+    batch_yearly_savings: "Nettoeinsparung pro Jahr (inkl. Anlaufphase)",
+    batch_year: "Jahr",
+    batch_top_tasks: "Größte Einsparpotenziale",
+
+    // Analysis comparison
+    compare_title: "Analysen vergleichen",
+    compare_intro: "Wählen Sie eine Basis-Analyse und eine oder mehrere weitere – z. B. vorher/nachher oder Junior vs. Senior.",
+    compare_action: "Analysen vergleichen",
+    compare_need_two: "Für einen Vergleich werden mindestens zwei gespeicherte Analysen benötigt.",
+    compare_select_more: "Wählen Sie mindestens eine weitere Analyse zum Vergleich aus.",
+    compare_baseline: "Basis",
+    compare_change: "Veränderung",
+    compare_total_score: "Gesamtscore",
+    compare_ratio_automatable: "Anteil automatisierbar",
+    compare_overlap: "Übereinstimmende Aufgaben",
+    compare_matched_tasks: "Zugeordnete Aufgaben",
+    compare_score: "Score",
+    compare_delta: "Differenz",
+    compare_only_in: "Nur in",
+    compare_none: "Keine",
+
+    // Solution comparison
+    solution_compare_title: "Lösungen vergleichen",
+    solution_compare_intro: "Workflows und KI-Agenten nebeneinander: Integrationen, Aufwand, Kosten, Lizenz, Pflege und Bewertung.",
+    solution_compare_need_two: "Wählen Sie in den Lösungen 2 bis 4 Workflows oder Agenten zum Vergleich aus.",
+    solution_compare_missing: "Nicht mehr verfügbar",
+    solution_compare_loading: "Lösungen werden geladen…",
+    solution_compare_failed: "Die Lösungen konnten nicht geladen werden",
+    solution_compare_share: "Link kopieren",
+    solution_compare_link_copied: "Link in die Zwischenablage kopiert",
+    solution_compare_only_differences: "Nur Unterschiede",
+    solution_compare_criterion: "Kriterium",
+    solution_compare_unknown: "Unbekannt",
+    solution_compare_days_ago: "Tage her",
+    solution_compare_summary: "Am besten geeignet",
+    solution_compare_best_for: "am besten für",
+    solution_compare_field_integrations: "Integrationen",
+    solution_compare_field_setupTime: "Einrichtungszeit",
+    solution_compare_field_complexity: "Komplexität",
+    solution_compare_field_cost: "Kosten",
+    solution_compare_field_license: "Lizenz",
+    solution_compare_field_maintenance: "Letzte Aktualisierung",
+    solution_compare_field_credentials: "Benötigte Zugangsdaten",
+    solution_compare_field_score: "Bewertung",
+    solution_compare_best_quickest_setup: "schnellste Einrichtung",
+    solution_compare_best_lowest_cost: "geringste Kosten",
+    solution_compare_best_most_integrations: "meiste Integrationen",
+    solution_compare_best_fewest_credentials: "wenigste Zugangsdaten",
+    solution_compare_best_open_license: "offene Lizenz",
+    solution_compare_best_best_maintained: "aktivste Pflege",
+    solution_compare_best_highest_score: "höchste Bewertung",
+
+    // Report export
+    export_button: "Bericht exportieren",
+    export_pdf: "PDF-Bericht",
+    export_docx: "Word-Dokument (DOCX)",
+    export_xlsx: "Excel-Tabelle (XLSX)",
+    export_failed: "Der Bericht konnte nicht erstellt werden",
+    export_report_title: "Automatisierungs-Analyse",
+    export_footer: "PROM8EUS – Automatisierungs-Analyse",
+    export_generated_on: "Erstellt am",
+    export_overview: "Übersicht",
+    export_metric: "Kennzahl",
+    export_value: "Wert",
+    export_analysis: "Analyse",
+    export_total_score: "Automatisierungspotenzial gesamt",
+    export_task_count: "Anzahl Aufgaben",
+    export_summary: "Zusammenfassung",
+    export_tasks: "Aufgaben",
+    export_task: "Aufgabe",
+    export_category: "Kategorie",
+    export_label: "Einstufung",
+    export_score: "Score",
+    export_subtasks: "Teilaufgaben",
+    export_subtask: "Teilaufgabe",
+    export_automation_potential: "Automatisierungspotenzial",
+    export_estimated_time: "Geschätzte Zeit",
+    export_business_case: "Business Case",
+    export_manual_hours_month: "Manuelle Stunden / Monat",
+    export_saved_hours_month: "Gesparte Stunden / Monat",
+    export_net_savings_month: "Nettoeinsparung / Monat",
+    export_annual_savings: "Nettoeinsparung / Jahr",
+    export_setup_cost: "Einmalige Setup-Kosten",
+    export_npv: "Kapitalwert (NPV)",
+    export_payback_month: "Amortisation (Monat)",
+    export_savings_year: "Einsparung Jahr",
+    export_task_business_case: "Business Case je Aufgabe",
+    export_manual_hours: "Manuelle Stunden",
+    export_automated_hours: "Automatisierte Stunden",
+    export_saved_hours: "Gesparte Stunden",
+    export_hourly_rate: "Stundensatz",
+    export_saved_money: "Einsparung",
+    export_roi: "ROI",
+    export_payback_years: "Amortisation (Jahre)",
+    export_recommendations: "Empfehlungen",
+    export_type: "Typ",
+    export_name: "Name",
+    export_description: "Beschreibung",
+    export_link: "Link",
+    export_recommendation: "Empfehlung",
+    export_workflow: "Workflow",
+    export_agent: "KI-Agent / Tool",
+    export_n8n_bundle: "n8n-Workflows (ZIP)",
+    export_n8n_bundle_empty: "Für diese Analyse gibt es keine exportierbaren Workflows",
+    n8n_export_download: "Workflow herunterladen",
+    n8n_export_failed: "Der Workflow konnte nicht exportiert werden",
+    n8n_export_source: "Quelle",
+    n8n_export_import_title: "Import in n8n",
+    n8n_export_import_step_1: "In n8n: Workflows → Import from File →",
+    n8n_export_import_step_2: "Zugangsdaten für die unten aufgeführten Credential-Typen anlegen und den Nodes zuweisen",
+    n8n_export_import_step_3: "Umgebungsvariablen setzen, Workflow testen und danach aktivieren",
+    n8n_export_credentials: "Benötigte Zugangsdaten",
+    n8n_export_env_vars: "Umgebungsvariablen",
+    n8n_export_removed_secrets: "Entfernte Geheimnisse (neu eintragen)",
+    n8n_export_nodes: "Nodes und Versionen",
+    n8n_export_pinned: "festgelegt",
+    n8n_export_none: "Keine",
+    n8n_export_bundle_title: "n8n-Workflow-Paket",
+    n8n_export_bundle_empty: "Keiner der Workflows konnte exportiert werden",
+    n8n_export_failed_items: "Nicht exportiert",
     detailed_evaluation: "Detaillierte Auswertung Ihrer Aufgabenbeschreibung",
     share_landing: "Analyse teilen",
     learn_workflows: "Mehr über Agenten und Workflows",
@@ -650,6 +820,7 @@ export const DICT: Record<Lang, Record<string, string>> = {
     
     // Analysis Labels
     label_automatisierbar: "Automatable",
+    label_teilweise: "Partially automatable",
     label_mensch: "Human",
     score_label: "Automation Potential",
     
@@ -929,6 +1100,19 @@ export const DICT: Record<Lang, Record<string, string>> = {
     history_yesterday: "Yesterday",
     history_tasks: "tasks",
     history_delete: "Delete analysis",
+    account_sign_in_hint: "Sign in to keep your analyses across devices. Existing analyses from this browser are imported once.",
+    account_email_placeholder: "Email address",
+    account_sign_in: "Send sign-in link",
+    account_link_sent: "We have sent you a sign-in link by email.",
+    account_sign_in_error: "The sign-in link could not be sent. Please try again.",
+    account_sign_out: "Sign out",
+    account_search_placeholder: "Search analyses …",
+    account_imported: "analyses imported from this browser",
+    account_empty: "No analyses found",
+    account_rename: "Rename",
+    account_rename_prompt: "New title",
+    account_tags: "Edit tags",
+    account_tags_prompt: "Tags (comma-separated)",
     copyright: "All rights reserved.",
     
     // MainContent
@@ -970,6 +1154,162 @@ export const DICT: Record<Lang, Record<string, string>> = {
     // Results page
     back: "Back",
     your_analysis: "Your Automation Analysis",
+    offline_analysis_notice: "Offline analysis: the AI was unavailable. Tasks and scores were derived rule-based from our role catalogs and are less reliable.",
+    roi_model_title: "Role business case",
+    roi_model_note: "Calculated for one person, with tasks placed on the monthly working time and a ramp-up until savings reach their full level.",
+    analysis_streaming: "Analyzing tasks",
+    analysis_streaming_more: "Extracting more tasks …",
+    analysis_streaming_details: "Generating subtasks …",
+
+    // Batch analysis
+    batch_title: "Batch Analysis",
+    batch_intro: "Analyze whole org charts: upload a CSV or JSON file with roles (title, URL or job text, headcount, hourly rate).",
+    batch_format_hint: "Columns: title, url or text, headcount, hourlyRate. CSV separated by comma or semicolon.",
+    batch_upload: "Choose file",
+    batch_import_errors: "Some rows were skipped",
+    batch_row: "Row",
+    batch_start: "Start analysis",
+    batch_retry: "Retry",
+    batch_retry_failed: "Retry failed roles",
+    batch_progress: "analyzed",
+    batch_col_role: "Role",
+    batch_col_headcount: "Headcount",
+    batch_col_status: "Status",
+    batch_col_score: "Potential",
+    batch_col_savings: "Savings / year",
+    batch_status_pending: "Pending",
+    batch_status_running: "Running",
+    batch_status_done: "Done",
+    batch_status_failed: "Failed",
+    batch_cached: "cached",
+    batch_report_title: "Consolidated report",
+    batch_weighted_score: "Automation potential (weighted)",
+    batch_total_headcount: "Employees",
+    batch_saved_hours: "Hours saved / month",
+    batch_annual_savings: "Savings / year",
+    batch_setup_cost: "One-time setup cost",
+    batch_payback: "Payback (month)",
+    batch_npv: "Net present value (3 years)",
+    batch_yearly_savings: "Net savings per year (incl. ramp-up)",
+    batch_year: "Year",
+    batch_top_tasks: "Largest savings potential",
+
+    // Analysis comparison
+    compare_title: "Compare analyses",
+    compare_intro: "Pick a baseline analysis and one or more others – e.g. before/after or junior vs. senior.",
+    compare_action: "Compare analyses",
+    compare_need_two: "At least two saved analyses are needed for a comparison.",
+    compare_select_more: "Select at least one more analysis to compare.",
+    compare_baseline: "Baseline",
+    compare_change: "Change",
+    compare_total_score: "Total score",
+    compare_ratio_automatable: "Automatable share",
+    compare_overlap: "Matching tasks",
+    compare_matched_tasks: "Aligned tasks",
+    compare_score: "Score",
+    compare_delta: "Delta",
+    compare_only_in: "Only in",
+    compare_none: "None",
+
+    // Solution comparison
+    solution_compare_title: "Compare solutions",
+    solution_compare_intro: "Workflows and AI agents side by side: integrations, effort, cost, licence, maintenance and score.",
+    solution_compare_need_two: "Pick 2 to 4 workflows or agents in the solutions list to compare them.",
+    solution_compare_missing: "No longer available",
+    solution_compare_loading: "Loading solutions…",
+    solution_compare_failed: "The solutions could not be loaded",
+    solution_compare_share: "Copy link",
+    solution_compare_link_copied: "Link copied to clipboard",
+    solution_compare_only_differences: "Differences only",
+    solution_compare_criterion: "Criterion",
+    solution_compare_unknown: "Unknown",
+    solution_compare_days_ago: "days ago",
+    solution_compare_summary: "Best for",
+    solution_compare_best_for: "best for",
+    solution_compare_field_integrations: "Integrations",
+    solution_compare_field_setupTime: "Setup time",
+    solution_compare_field_complexity: "Complexity",
+    solution_compare_field_cost: "Cost",
+    solution_compare_field_license: "Licence",
+    solution_compare_field_maintenance: "Last updated",
+    solution_compare_field_credentials: "Required credentials",
+    solution_compare_field_score: "Score",
+    solution_compare_best_quickest_setup: "quickest setup",
+    solution_compare_best_lowest_cost: "lowest cost",
+    solution_compare_best_most_integrations: "most integrations",
+    solution_compare_best_fewest_credentials: "fewest credentials",
+    solution_compare_best_open_license: "open licence",
+    solution_compare_best_best_maintained: "most actively maintained",
+    solution_compare_best_highest_score: "highest score",
+
+    // Report export
+    export_button: "Export report",
+    export_pdf: "PDF report",
+    export_docx: "Word document (DOCX)",
+    export_xlsx: "Excel workbook (XLSX)",
+    export_failed: "The report could not be created",
+    export_report_title: "Automation Analysis",
+    export_footer: "PROM8EUS – Automation Analysis",
+    export_generated_on: "Generated on",
+    export_overview: "Overview",
+    export_metric: "Metric",
+    export_value: "Value",
+    export_analysis: "Analysis",
+    export_total_score: "Overall automation potential",
+    export_task_count: "Number of tasks",
+    export_summary: "Summary",
+    export_tasks: "Tasks",
+    export_task: "Task",
+    export_category: "Category",
+    export_label: "Classification",
+    export_score: "Score",
+    export_subtasks: "Subtasks",
+    export_subtask: "Subtask",
+    export_automation_potential: "Automation potential",
+    export_estimated_time: "Estimated time",
+    export_business_case: "Business Case",
+    export_manual_hours_month: "Manual hours / month",
+    export_saved_hours_month: "Saved hours / month",
+    export_net_savings_month: "Net savings / month",
+    export_annual_savings: "Net savings / year",
+    export_setup_cost: "One-time setup cost",
+    export_npv: "Net present value (NPV)",
+    export_payback_month: "Payback (month)",
+    export_savings_year: "Savings year",
+    export_task_business_case: "Business case per task",
+    export_manual_hours: "Manual hours",
+    export_automated_hours: "Automated hours",
+    export_saved_hours: "Saved hours",
+    export_hourly_rate: "Hourly rate",
+    export_saved_money: "Savings",
+    export_roi: "ROI",
+    export_payback_years: "Payback (years)",
+    export_recommendations: "Recommendations",
+    export_type: "Type",
+    export_name: "Name",
+    export_description: "Description",
+    export_link: "Link",
+    export_recommendation: "Recommendation",
+    export_workflow: "Workflow",
+    export_agent: "AI agent / tool",
+    export_n8n_bundle: "n8n workflows (ZIP)",
+    export_n8n_bundle_empty: "There are no exportable workflows for this analysis",
+    n8n_export_download: "Download workflow",
+    n8n_export_failed: "The workflow could not be exported",
+    n8n_export_source: "Source",
+    n8n_export_import_title: "Import into n8n",
+    n8n_export_import_step_1: "In n8n: Workflows → Import from File →",
+    n8n_export_import_step_2: "Create credentials for the types listed below and assign them to the nodes",
+    n8n_export_import_step_3: "Set the environment variables, test the workflow, then activate it",
+    n8n_export_credentials: "Required credentials",
+    n8n_export_env_vars: "Environment variables",
+    n8n_export_removed_secrets: "Removed secrets (enter them again)",
+    n8n_export_nodes: "Nodes and versions",
+    n8n_export_pinned: "pinned",
+    n8n_export_none: "None",
+    n8n_export_bundle_title: "n8n workflow bundle",
+    n8n_export_bundle_empty: "None of the workflows could be exported",
+    n8n_export_failed_items: "Not exported",
     detailed_evaluation: "Detailed evaluation of your task description",
     share_landing: "Share Analysis", 
     learn_workflows: "More About Agents and Workflows",
@@ -17,8 +17,10 @@ export interface WorkflowSearchParams {
   trigger_type?: string | string[];
   limit?: number;
   offset?: number;
-  sort_by?: 'relevance' | 'created_at' | 'downloads' | 'rating';
+  sort_by?: 'relevance' | 'created_at' | 'downloads' | 'rating' | 'popularity';
   sort_order?: 'asc' | 'desc';
+  /** 'hybrid' ranks q by fused full-text + embedding relevance instead of substring match */
+  search_mode?: 'keyword' | 'hybrid';
 }
 
 /**
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  OpenAICompatibleProvider,
+  StubLLMProvider,
+  createLLMProvider,
+  extractJsonContent,
+  streamCompletion,
+  type LLMProvider
+} from '../providers';
+import { resolveActionConfig } from '../actionConfig';
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), {
+  status: 200,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+const sseResponse = (chunks: string[]) => new Response(new ReadableStream({
+  start(controller) {
+    const encoder = new TextEncoder();
+    chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+    controller.close();
+  }
+}), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+describe('LLM providers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should call the chat completions endpoint of a local server', async () => {
+      // Arrange
+      fetchMock.mockResolvedValue(jsonResponse({
+        choices: [{ message: { content: '```json\n{"ok":true}\n```' } }],
+        model: 'llama3.1'
+      }));
+      const provider = new OpenAICompatibleProvider('local', 'http://localhost:11434/v1/');
+
+      // Act
+      const result = await provider.complete([{ role: 'user', content: 'Hi' }], { max_tokens: 50 });
+
+      // Assert
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1', max_tokens: 50 });
+      expect(result).toMatchObject({ content: '{"ok":true}', provider: 'local' });
+    });
+
+    it('should stream deltas split across network chunks', async () => {
+      // Arrange
+      fetchMock.mockResolvedValue(sseResponse([
+        'data: {"model":"gpt-4o-mini","choices":[{"delta":{"content":"{\\"ta"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"sks\\":[]}"}}]}\n',
+        '\ndata: [DONE]\n\n'
+      ]));
+      const provider = new OpenAICompatibleProvider('openai', 'https://api.openai.com/v1', 'sk-test');
+      const deltas: string[] = [];
+
+      // Act
+      const result = await provider.stream([{ role: 'user', content: 'Hi' }], {}, delta => deltas.push(delta));
+
+      // Assert
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+      expect(deltas).toEqual(['{"ta', 'sks":[]}']);
+      expect(result).toMatchObject({ content: '{"tasks":[]}', model: 'gpt-4o-mini', provider: 'openai' });
+    });
+
+    it('should surface API errors', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: { message: 'quota' } }), { status: 429 }));
+      const provider = new OpenAICompatibleProvider('openai', 'https://api.openai.com/v1', 'sk-test');
+
+      await expect(provider.complete([{ role: 'user', content: 'Hi' }], {}))
+        .rejects.toThrow('openai API Error: quota');
+    });
+  });
+
+  describe('AzureOpenAIProvider', () => {
+    it('should use the model as deployment name and the api-key header', async () => {
+      // Arrange
+      fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'ok' } }] }));
+      const provider = new AzureOpenAIProvider('https://example.openai.azure.com', 'azure-key', '2024-06-01');
+
+      // Act
+      const result = await provider.complete([{ role: 'user', content: 'Hi' }], { model: 'gpt-4o-eu' });
+
+      // Assert
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.openai.azure.com/openai/deployments/gpt-4o-eu/chat/completions?api-version=2024-06-01');
+      expect(init.headers['api-key']).toBe('azure-key');
+      expect(result.model).toBe('gpt-4o-eu');
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should move system prompts into the system field and map usage', async () => {
+      // Arrange
+      fetchMock.mockResolvedValue(jsonResponse({
+        content: [{ type: 'text', text: '{"tasks":[]}' }],
+        model: 'claude-3-5-haiku-latest',
+        usage: { input_tokens: 10, output_tokens: 5 }
+      }));
+      const provider = new AnthropicProvider('anthropic-key');
+
+      // Act
+      const result = await provider.complete([
+        { role: 'system', content: 'Return JSON' },
+        { role: 'user', content: 'Analyze' }
+      ], { temperature: 0.2, max_tokens: 500 });
+
+      // Assert
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.system).toBe('Return JSON');
+      expect(body.messages).toEqual([{ role: 'user', content: 'Analyze' }]);
+      expect(body.max_tokens).toBe(500);
+      expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+      expect(result.content).toBe('{"tasks":[]}');
+    });
+  });
+
+  describe('StubLLMProvider', () => {
+    it('should serialize object responses and record calls', async () => {
+      const provider = new StubLLMProvider(() => ({ subtasks: [] }));
+
+      const result = await provider.complete([{ role: 'user', content: 'Hi' }], { max_tokens: 10 });
+
+      expect(result.content).toBe('{"subtasks":[]}');
+      expect(provider.calls).toHaveLength(1);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamCompletion', () => {
+    it('should deliver the full completion as one delta for providers without streaming', async () => {
+      // Arrange
+      const provider: LLMProvider = {
+        name: 'local',
+        complete: async () => ({ content: 'ok', model: 'llama3.1', provider: 'local' })
+      };
+      const deltas: string[] = [];
+
+      // Act
+      const result = await streamCompletion(provider, [{ role: 'user', content: 'Hi' }], {}, delta => deltas.push(delta));
+
+      // Assert
+      expect(deltas).toEqual(['ok']);
+      expect(result.content).toBe('ok');
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should require credentials for hosted providers', () => {
+      expect(() => createLLMProvider({ provider: 'anthropic' })).toThrow('Anthropic API key not configured');
+      expect(createLLMProvider({ provider: 'local' }).name).toBe('local');
+    });
+  });
+
+  describe('extractJsonContent', () => {
+    it('should strip generic code fences', () => {
+      expect(extractJsonContent('```\n{"a":1}\n```')).toBe('{"a":1}');
+      expect(extractJsonContent('{"a":1}')).toBe('{"a":1}');
+    });
+  });
+});
+
+describe('resolveActionConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the action token budget by default', () => {
+    expect(resolveActionConfig('analyze-job-complete')).toMatchObject({ maxTokens: 2500, temperature: 0.7 });
+    expect(resolveActionConfig('unknown-action')).toMatchObject({ maxTokens: 1000 });
+  });
+
+  it('should apply per-action overrides and let request options win', () => {
+    vi.stubEnv('VITE_LLM_ACTION_CONFIG', JSON.stringify({
+      'generate-workflow': { model: 'gpt-4o', temperature: 0.2, maxTokens: 3000 }
+    }));
+
+    expect(resolveActionConfig('generate-workflow')).toEqual({ model: 'gpt-4o', temperature: 0.2, maxTokens: 3000 });
+    expect(resolveActionConfig('generate-workflow', { max_tokens: 100 }).maxTokens).toBe(100);
+    expect(resolveActionConfig('generate-workflow', { temperature: 0.9 })).toEqual({ model: 'gpt-4o', temperature: 0.9, maxTokens: 3000 });
+  });
+});
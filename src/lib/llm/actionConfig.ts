@@ -0,0 +1,92 @@
+/**
+ * Per-action LLM configuration (model, temperature, token limits)
+ * Server-side equivalent: resolveActionConfig in supabase/functions/_shared/llm-config.ts
+ */
+
+import type { LLMProviderName, LLMProviderSettings } from './providers';
+
+export type LLMAction =
+  | 'chat'
+  | 'analyze-job'
+  | 'analyze-job-complete'
+  | 'generate-subtasks'
+  | 'generate-business-case'
+  | 'find-solutions'
+  | 'complete-analysis'
+  | 'generate-workflow';
+
+export interface LLMActionConfig {
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Defaults match the token budgets used by the openai-proxy Edge Function
+ */
+export const ACTION_DEFAULTS: Record<LLMAction, LLMActionConfig> = {
+  'chat': { temperature: 0.7, maxTokens: 1000 },
+  'analyze-job': { temperature: 0.7, maxTokens: 1200 },
+  'analyze-job-complete': { temperature: 0.7, maxTokens: 2500 },
+  'generate-subtasks': { temperature: 0.7, maxTokens: 1500 },
+  'generate-business-case': { temperature: 0.7, maxTokens: 1200 },
+  'find-solutions': { temperature: 0.7, maxTokens: 1500 },
+  'complete-analysis': { temperature: 0.7, maxTokens: 3000 },
+  'generate-workflow': { temperature: 0.7, maxTokens: 2000 }
+};
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'azure-openai', 'anthropic', 'local'];
+
+/**
+ * Resolve the config for an action.
+ * Precedence, same as the server: request options > VITE_LLM_ACTION_CONFIG (JSON keyed by
+ * action) > VITE_LLM_MODEL > action defaults.
+ */
+export function resolveActionConfig(
+  action: string,
+  requestOptions: { model?: string; temperature?: number; max_tokens?: number } = {}
+): LLMActionConfig {
+  const defaults = ACTION_DEFAULTS[action as LLMAction] || ACTION_DEFAULTS.chat;
+
+  let override: Partial<LLMActionConfig> = {};
+  const raw = import.meta.env.VITE_LLM_ACTION_CONFIG;
+  if (raw) {
+    try {
+      override = JSON.parse(raw)[action] || {};
+    } catch (error) {
+      console.warn('Invalid VITE_LLM_ACTION_CONFIG, ignoring:', error);
+    }
+  }
+
+  return {
+    model: requestOptions.model || override.model || import.meta.env.VITE_LLM_MODEL || undefined,
+    temperature: requestOptions.temperature ?? override.temperature ?? defaults.temperature,
+    maxTokens: requestOptions.max_tokens ?? override.maxTokens ?? defaults.maxTokens
+  };
+}
+
+/**
+ * Provider settings for the development direct fallback.
+ * VITE_LLM_PROVIDER selects the provider; VITE_OPENAI_API_KEY remains the OpenAI key.
+ */
+export function getDevProviderSettings(): LLMProviderSettings | null {
+  const env = import.meta.env;
+  const requested = env.VITE_LLM_PROVIDER as LLMProviderName | undefined;
+  const provider: LLMProviderName = requested && PROVIDERS.includes(requested) ? requested : 'openai';
+
+  const apiKey = provider === 'openai'
+    ? env.VITE_OPENAI_API_KEY
+    : env.VITE_LLM_API_KEY;
+
+  if (provider !== 'local' && !apiKey) {
+    return null;
+  }
+
+  return {
+    provider,
+    apiKey,
+    baseUrl: env.VITE_LLM_BASE_URL || undefined,
+    apiVersion: env.VITE_LLM_API_VERSION || undefined,
+    browserAccess: true
+  };
+}
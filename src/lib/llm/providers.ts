@@ -0,0 +1,66 @@
+/**
+ * LLM Providers - client-side provider abstraction behind OpenAIClient
+ * The providers are shared with the Edge Functions (supabase/functions/_shared/llm-providers.ts).
+ * In production all calls go through the openai-proxy Edge Function; on the client they are
+ * used for the development direct fallback, the stub provider stands in for them in tests.
+ */
+
+import {
+  DEFAULT_MODELS,
+  extractJsonContent,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequestOptions
+} from '../../../supabase/functions/_shared/llm-providers.ts';
+
+export {
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  DEFAULT_MODELS,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+  extractJsonContent,
+  readServerSentEvents,
+  streamCompletion
+} from '../../../supabase/functions/_shared/llm-providers.ts';
+
+export type {
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderSettings,
+  LLMRequestOptions
+} from '../../../supabase/functions/_shared/llm-providers.ts';
+
+export type StubResponder = (messages: LLMMessage[], options: LLMRequestOptions) => string | object;
+
+/**
+ * Deterministic in-memory provider for tests and offline development
+ * Streams the response in chunks of streamChunkSize characters.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly calls: Array<{ messages: LLMMessage[]; options: LLMRequestOptions }> = [];
+
+  constructor(private responder: StubResponder, private streamChunkSize = 40) {}
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMCompletion> {
+    this.calls.push({ messages, options });
+    const result = this.responder(messages, options);
+    return {
+      content: typeof result === 'string' ? extractJsonContent(result) : JSON.stringify(result),
+      model: options.model || DEFAULT_MODELS[this.name],
+      provider: this.name
+    };
+  }
+
+  async stream(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(messages, options);
+    for (let i = 0; i < completion.content.length; i += this.streamChunkSize) {
+      onDelta(completion.content.slice(i, i + this.streamChunkSize));
+    }
+    return completion;
+  }
+}
@@ -49,6 +49,7 @@ export class AnalysisMonitor {
   private static instance: AnalysisMonitor;
   private currentAnalysisId: string | null = null;
   private analysisStartTime: number | null = null;
+  private retryCounts = new Map<string, number>();
 
   static getInstance(): AnalysisMonitor {
     if (!AnalysisMonitor.instance) {
@@ -245,6 +246,58 @@ export class AnalysisMonitor {
     }
   }
 
+  /**
+   * Record a retry of a pipeline stage after a transient error
+   */
+  recordRetry(analysisId: string, stage: string, attempt: number, error: Error): void {
+    this.retryCounts.set(analysisId, (this.retryCounts.get(analysisId) ?? 0) + 1);
+
+    recordEvent('analysis_stage_retry', {
+      analysisId,
+      stage,
+      attempt,
+      error: error.message
+    }, {
+      analysisId,
+      type: 'analysis_retry',
+      stage
+    });
+
+    recordMetric({
+      name: 'analysis_stage_retries',
+      value: 1,
+      unit: 'count',
+      tags: { analysisId, stage }
+    });
+  }
+
+  /**
+   * Record that the pipeline switched to the offline analysis
+   */
+  recordFallback(analysisId: string, reason: Error): void {
+    recordEvent('analysis_fallback', {
+      analysisId,
+      reason: reason.message
+    }, {
+      analysisId,
+      type: 'analysis_fallback'
+    });
+
+    recordMetric({
+      name: 'analysis_fallback',
+      value: 1,
+      unit: 'count',
+      tags: { analysisId }
+    });
+  }
+
+  /**
+   * Number of retries recorded for an analysis
+   */
+  getRetryCount(analysisId: string): number {
+    return this.retryCounts.get(analysisId) ?? 0;
+  }
+
   /**
    * Complete the entire analysis pipeline
    */
@@ -288,6 +341,14 @@ export class AnalysisMonitor {
       });
     }
 
+    recordMetric({
+      name: 'analysis_retry_count',
+      value: this.getRetryCount(analysisId),
+      unit: 'count',
+      tags: { analysisId, success: success.toString() }
+    });
+    this.retryCounts.delete(analysisId);
+
     if (!success && error) {
       recordError('analysis_pipeline_error', error, { analysisId });
     }
@@ -462,6 +523,12 @@ export const completeAnalysisMonitoring = (
   error?: Error
 ) => analysisMonitor.completeAnalysis(analysisId, results, success, error);
 
+export const recordAnalysisRetry = (analysisId: string, stage: string, attempt: number, error: Error) => 
+  analysisMonitor.recordRetry(analysisId, stage, attempt, error);
+
+export const recordAnalysisFallback = (analysisId: string, reason: Error) => 
+  analysisMonitor.recordFallback(analysisId, reason);
+
 export const monitorAIGeneration = (analysisId: string, prompt: string, model: string) => 
   analysisMonitor.monitorAIGeneration(analysisId, prompt, model);
 
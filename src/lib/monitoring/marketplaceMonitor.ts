@@ -212,6 +212,10 @@ export class MarketplaceMonitor {
       type: 'solution_view'
     });
 
+    if (solutionType === 'workflow') {
+      this.persistWorkflowInteraction(solutionId, 'view');
+    }
+
     recordMetric({
       name: 'solution_views',
       value: 1,
@@ -240,6 +244,10 @@ export class MarketplaceMonitor {
       type: 'solution_download'
     });
 
+    if (solutionType === 'workflow') {
+      this.persistWorkflowInteraction(solutionId, 'download');
+    }
+
     recordMetric({
       name: 'solution_downloads',
       value: 1,
@@ -454,6 +462,22 @@ export class MarketplaceMonitor {
     };
   }
 
+  /**
+   * Store workflow views/downloads server-side; they feed the popularity score.
+   * The record-workflow-interaction function keys and rate-limits them by caller.
+   * Fire-and-forget: monitoring must never break the marketplace.
+   */
+  private persistWorkflowInteraction(workflowId: string, eventType: 'view' | 'download'): void {
+    import('@/integrations/supabase/client')
+      .then(({ supabase }) => supabase.functions.invoke('record-workflow-interaction', {
+        body: { workflowId, eventType }
+      }))
+      .then(result => {
+        if (result.error) console.warn('⚠️ [MarketplaceMonitor] Failed to store interaction:', result.error.message);
+      })
+      .catch(error => console.warn('⚠️ [MarketplaceMonitor] Failed to store interaction:', error));
+  }
+
   private getOrCreateSessionId(): string {
     let sessionId = sessionStorage.getItem('marketplace_session_id');
     if (!sessionId) {
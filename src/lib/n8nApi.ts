@@ -412,10 +412,6 @@ export class N8nApi {
       const estimatedTime = this.getEstimatedTime(nodes.length, difficulty);
       const estimatedCost = this.getEstimatedCost(estimatedTime);
       
-      // Generate rating and downloads
-      const rating = this.getRandomRating();
-      const downloads = this.getRandomDownloads();
-      
       // Create workflow object
       const workflow: N8nWorkflow = {
         id: `${categoryName}_${id}`,
@@ -427,8 +423,9 @@ export class N8nApi {
         estimatedCost: estimatedCost,
       nodes: nodes.length,
         connections: connectionCount,
-        downloads: downloads,
-        rating: rating,
+        // GitHub files carry no ratings or download counts; popularity is computed server-side
+        downloads: 0,
+        rating: 0,
       createdAt: new Date().toISOString(),
         url: `https://github.com/Zie619/n8n-workflows/blob/main/workflows/${categoryName}/${file.name}`,
         jsonUrl: file.download_url,
@@ -477,14 +474,6 @@ export class N8nApi {
     return `€${cost}`;
   }
 
-  private getRandomRating(): number {
-    return Math.round((Math.random() * 2 + 3) * 10) / 10; // 3.0 to 5.0
-  }
-
-  private getRandomDownloads(): number {
-    return Math.floor(Math.random() * 1000) + 10; // 10 to 1009
-  }
-
   private generateDescription(services: string, purpose: string, trigger: string, categoryName: string, workflowData: any): string {
     // Try to extract description from workflow data first
     if (workflowData.description) {
@@ -256,9 +256,10 @@ export class N8nApiUnified {
       estimatedTime: `${Math.floor(Math.random() * 3) + 1} hours`,
       estimatedCost: `$${template.price || Math.floor(Math.random() * 300) + 100}`,
       timeSavings: Math.floor(Math.random() * 25) + 10,
-      downloads: template.downloads || Math.floor(Math.random() * 5000) + 100,
-      rating: template.rating || Math.round((Math.random() * 1.5 + 3.5) * 10) / 10, // 3.5 - 5.0
-      popularity: template.popularity || Math.floor(Math.random() * 200) + 50,
+      // Real signals only; the popularity score itself is computed by refresh-workflow-popularity
+      downloads: template.downloads ?? 0,
+      rating: template.rating,
+      popularity: 0,
       verified: true,
       domainClassification: {
         domains: [category],
@@ -5,6 +5,27 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { isAIEnabled } from './config';
+import {
+  createLLMProvider,
+  readServerSentEvents,
+  streamCompletion,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequestOptions
+} from './llm/providers';
+import { resolveActionConfig, getDevProviderSettings } from './llm/actionConfig';
+import {
+  parseCompleteAnalysis,
+  buildRepairMessages,
+  formatFieldErrors,
+  type CompleteAnalysisResponse,
+  type CompleteAnalysisStageEvent
+} from './analysis/responseSchema';
+import { AnalysisPipelineError } from './analysis/errors';
+import { abortable } from './analysis/resilience';
+import { TaskStreamParser } from './analysis/taskStreamParser';
+
+const MAX_REPAIR_ATTEMPTS = 2;
 
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -21,6 +42,16 @@ export interface OpenAIResponse {
   model: string;
 }
 
+/**
+ * Body of an openai-proxy action; action-specific fields (jobText, taskText, …) ride along
+ */
+interface LLMActionPayload {
+  action: string;
+  messages?: OpenAIMessage[];
+  options?: LLMRequestOptions;
+  [key: string]: unknown;
+}
+
 export interface OpenAIError {
   error: {
     message: string;
@@ -32,6 +63,23 @@ export interface OpenAIError {
 export class OpenAIClient {
   private cache = new Map<string, { response: any; timestamp: number }>();
   private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+  private provider: LLMProvider | null;
+
+  /**
+   * @param provider Optional provider used instead of the backend proxy
+   *                 (e.g. a StubLLMProvider in tests or a local Ollama server)
+   */
+  constructor(provider?: LLMProvider) {
+    this.provider = provider ?? null;
+  }
+
+  /**
+   * Route all calls to the given provider instead of the backend proxy; pass null to reset
+   */
+  setProvider(provider: LLMProvider | null): void {
+    this.provider = provider;
+    this.cache.clear();
+  }
 
   /**
    * Generate cache key for a prompt
@@ -79,19 +127,25 @@ export class OpenAIClient {
   }
 
   /**
-   * Call OpenAI API through secure backend (with direct fallback for dev)
+   * Call LLM through secure backend (with direct fallback for dev)
+   * Aborting the signal cancels the proxy request; provider calls are only abandoned.
    */
-  private async callBackend(payload: any): Promise<any> {
+  private async callBackend(payload: any, signal?: AbortSignal): Promise<any> {
+    if (this.provider) {
+      return await abortable(this.callProvider(this.provider, payload), signal);
+    }
+
     try {
-      const { data, error } = await supabase.functions.invoke('openai-proxy', {
-        body: payload
-      });
+      // functions.invoke cannot be cancelled, so cancellable calls use fetch
+      const { data, error } = signal
+        ? await this.postToProxy(payload, signal)
+        : await supabase.functions.invoke('openai-proxy', { body: payload });
 
       if (error) {
         console.warn('Backend OpenAI call failed, trying direct fallback:', error);
         // Fallback to direct API call in development
-        if (import.meta.env.DEV && import.meta.env.VITE_OPENAI_API_KEY) {
-          return await this.callOpenAIDirectly(payload);
+        if (!signal?.aborted && import.meta.env.DEV && getDevProviderSettings()) {
+          return await abortable(this.callDirectly(payload), signal);
         }
         throw new Error(`OpenAI API Error: ${error.message}`);
       }
@@ -100,71 +154,143 @@ export class OpenAIClient {
     } catch (error) {
       console.warn('Supabase function invoke failed, trying direct fallback:', error);
       // Fallback to direct API call in development
-      if (import.meta.env.DEV && import.meta.env.VITE_OPENAI_API_KEY) {
-        return await this.callOpenAIDirectly(payload);
+      if (!signal?.aborted && import.meta.env.DEV && getDevProviderSettings()) {
+        return await abortable(this.callDirectly(payload), signal);
       }
       throw error;
     }
   }
 
   /**
-   * Direct OpenAI API call (only for development fallback)
+   * Direct provider call (only for development fallback)
    */
-  private async callOpenAIDirectly(payload: any): Promise<any> {
-    console.log('⚠️ [DEV] Using direct OpenAI API call (fallback)');
-    
-    const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
+  private async callDirectly(payload: any): Promise<any> {
+    const settings = getDevProviderSettings();
+    if (!settings) {
+      throw new Error('LLM provider not configured');
     }
 
-    // Extract messages from payload
-    let messages: OpenAIMessage[] = [];
-    if (payload.messages) {
-      messages = payload.messages;
-    } else if (payload.action === 'chat') {
-      messages = payload.messages || [];
-    } else {
-      // For other actions, construct messages based on action type
-      messages = this.constructMessagesForAction(payload);
+    console.log(`⚠️ [DEV] Using direct ${settings.provider} API call (fallback)`);
+    return await this.callProvider(createLLMProvider(settings), payload);
+  }
+
+  /**
+   * Stream an action through the backend proxy (server-sent events), with the same
+   * provider and dev fallbacks as callBackend. Resolves with the full completion.
+   */
+  private async callBackendStream(
+    payload: LLMActionPayload,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAIResponse> {
+    if (this.provider) {
+      return await this.callProvider(this.provider, payload, onDelta);
+    }
+
+    let receivedDelta = false;
+    const trackDelta = (text: string) => {
+      receivedDelta = true;
+      onDelta(text);
+    };
+
+    try {
+      return await this.streamFromProxy(payload, trackDelta, signal);
+    } catch (error) {
+      // A fallback after partial output would duplicate deltas, so only retry clean failures
+      if (!receivedDelta && !signal?.aborted && import.meta.env.DEV && getDevProviderSettings()) {
+        console.warn('Backend stream failed, trying direct fallback:', error);
+        const settings = getDevProviderSettings()!;
+        console.log(`⚠️ [DEV] Using direct ${settings.provider} API stream (fallback)`);
+        return await this.callProvider(createLLMProvider(settings), payload, onDelta);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST to openai-proxy with stream: true and read its event stream
+   */
+  private async streamFromProxy(
+    payload: Record<string, unknown>,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAIResponse> {
+    const response = await this.fetchProxy({ ...payload, stream: true }, signal);
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API Error: ${response.status} ${response.statusText}`);
+    }
+
+    let completion = null as OpenAIResponse | null;
+    await readServerSentEvents(response, (data) => {
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw new Error(`OpenAI API Error: ${event.error}`);
+      }
+      if (event.delta) {
+        onDelta(event.delta);
+      }
+      if (event.done) {
+        completion = { content: event.content ?? '', usage: event.usage, model: event.model };
+      }
+    });
+
+    if (!completion) {
+      throw new Error('OpenAI API Error: stream ended without completion');
     }
+    return completion;
+  }
+
+  /**
+   * POST to openai-proxy with fetch, resolving like functions.invoke
+   */
+  private async postToProxy(payload: Record<string, unknown>, signal: AbortSignal): Promise<{ data: unknown; error: Error | null }> {
+    const response = await this.fetchProxy(payload, signal);
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { data: null, error: new Error(data?.error || `${response.status} ${response.statusText}`) };
+    }
+    return { data, error: null };
+  }
+
+  private fetchProxy(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    return fetch(`${supabaseUrl}/functions/v1/openai-proxy`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'apikey': anonKey,
+        'Authorization': `Bearer ${anonKey}`
       },
-      body: JSON.stringify({
-        model: payload.options?.model || 'gpt-4o-mini',
-        messages,
-        temperature: payload.options?.temperature || 0.7,
-        max_tokens: payload.options?.max_tokens || 1000
-      })
+      body: JSON.stringify(body),
+      signal
     });
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`OpenAI API Error: ${errorData.error?.message || response.statusText}`);
-    }
+  /**
+   * Run an action against a provider with the action's model/temperature/token config;
+   * streams when onDelta is given
+   */
+  private async callProvider(provider: LLMProvider, payload: LLMActionPayload, onDelta?: (text: string) => void): Promise<LLMCompletion> {
+    // Extract messages from payload
+    const messages: OpenAIMessage[] = payload.messages
+      ? payload.messages
+      : this.constructMessagesForAction(payload);
+
+    const config = resolveActionConfig(payload.action, payload.options);
+    const options = {
+      ...payload.options,
+      model: config.model,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens
+    };
 
-    const data = await response.json();
-    
-    // Extract JSON from markdown code blocks if present
-    let content = data.choices[0]?.message?.content || '';
-    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      content = jsonMatch[1].trim();
-    } else if (content.startsWith('```') && content.endsWith('```')) {
-      const lines = content.split('\n');
-      content = lines.slice(1, -1).join('\n').trim();
+    if (onDelta) {
+      return await streamCompletion(provider, messages, options, onDelta);
     }
-
-    return {
-      content,
-      usage: data.usage,
-      model: data.model
-    };
+    return await provider.complete(messages, options);
   }
 
   /**
@@ -272,33 +398,12 @@ JSON Format:
   }
 
   /**
-   * Analyze job description and extract tasks WITH subtasks and business case
+   * Analyze job description and extract tasks WITH subtasks and business case.
+   * The response is validated against a strict schema; invalid output is sent
+   * back to the model with the field errors for up to MAX_REPAIR_ATTEMPTS rounds.
+   * Aborting the signal cancels the request and any repair round.
    */
-  async analyzeJobDescription(jobText: string, lang: 'de' | 'en' = 'de'): Promise<{
-    tasks: Array<{
-      text: string;
-      automationPotential: number;
-      category: string;
-      reasoning: string;
-      subtasks?: Array<{
-        id: string;
-        title: string;
-        automationPotential: number;
-        estimatedTime: number;
-      }>;
-      businessCase?: {
-        manualHours: number;
-        automatedHours: number;
-        automationPotential: number;
-        savedHours: number;
-        hourlyRateEmployee: number;
-        hourlyRateFreelancer: number;
-        employmentType: 'employee' | 'freelancer';
-        reasoning: string;
-      };
-    }>;
-    summary: string;
-  }> {
+  async analyzeJobDescription(jobText: string, lang: 'de' | 'en' = 'de', signal?: AbortSignal): Promise<CompleteAnalysisResponse> {
     const cacheKey = `analyze-job-${lang}-${jobText.slice(0, 100)}`;
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
@@ -307,32 +412,75 @@ JSON Format:
       action: 'analyze-job-complete',
       jobText,
       lang
-    });
+    }, signal);
 
-    try {
-      const parsed = JSON.parse(response.content);
-      
-      // Use response format with subtasks
-      const enhancedTasks = parsed.tasks?.map((task: any) => ({
-        text: task.text,
-        automationPotential: task.automationPotential || 50,
-        category: task.category || 'Allgemein',
-        reasoning: task.reasoning || 'AI analysis completed',
-        subtasks: task.subtasks || [], // Use AI-generated subtasks
-        businessCase: null // Empty for speed - will be generated later
-      })) || [];
-      
-      const enhancedResponse = {
-        tasks: enhancedTasks,
-        summary: parsed.summary || ''
-      };
-      
-      this.setCache(cacheKey, enhancedResponse);
-      return enhancedResponse;
-    } catch (error) {
-      console.error('Failed to parse response:', error);
-      throw new Error('Invalid response format from AI');
+    const value = await this.validateAnalysis(response.content ?? '', lang, signal);
+    this.setCache(cacheKey, value);
+    return value;
+  }
+
+  /**
+   * Streaming variant of analyzeJobDescription: onStage receives each task, its
+   * subtasks and its business case as soon as they are complete in the stream.
+   * Stage payloads are previews; the resolved value is the fully validated
+   * (and if needed repaired) response. Aborting the signal cancels the proxy request.
+   */
+  async streamJobAnalysis(
+    jobText: string,
+    lang: 'de' | 'en',
+    onStage: (event: CompleteAnalysisStageEvent) => void,
+    signal?: AbortSignal
+  ): Promise<CompleteAnalysisResponse> {
+    const cacheKey = `analyze-job-${lang}-${jobText.slice(0, 100)}`;
+    const cached: CompleteAnalysisResponse | null = this.getFromCache(cacheKey);
+    if (cached) {
+      cached.tasks.forEach(({ subtasks, businessCase, ...task }, index) => {
+        onStage({ type: 'task', index, task });
+        onStage({ type: 'subtasks', index, subtasks });
+        if (businessCase) onStage({ type: 'businessCase', index, businessCase });
+      });
+      return cached;
     }
+
+    const parser = new TaskStreamParser();
+    const response = await this.callBackendStream(
+      { action: 'analyze-job-complete', jobText, lang },
+      (delta) => parser.push(delta).forEach(onStage),
+      signal
+    );
+
+    const value = await this.validateAnalysis(response.content || parser.getContent(), lang, signal);
+    this.setCache(cacheKey, value);
+    return value;
+  }
+
+  /**
+   * Validate analyze-job-complete output, asking the model to repair it up to MAX_REPAIR_ATTEMPTS times
+   */
+  private async validateAnalysis(initialContent: string, lang: 'de' | 'en', signal?: AbortSignal): Promise<CompleteAnalysisResponse> {
+    let content = initialContent;
+    let result = parseCompleteAnalysis(content);
+
+    for (let attempt = 1; !result.ok && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`⚠️ [OpenAI] Invalid analysis response, repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}:\n${formatFieldErrors(result.errors, 5)}`);
+      const repaired = await this.callBackend({
+        action: 'chat',
+        messages: buildRepairMessages(content, result.errors, lang),
+        options: { temperature: 0, max_tokens: 2500 }
+      }, signal);
+      content = repaired.content ?? '';
+      result = parseCompleteAnalysis(content);
+    }
+
+    if (!result.ok) {
+      throw new AnalysisPipelineError(
+        'INVALID_AI_RESPONSE',
+        `AI response failed schema validation after ${MAX_REPAIR_ATTEMPTS} repair attempts (${result.errors.length} field errors)`,
+        { fieldErrors: result.errors }
+      );
+    }
+
+    return result.value;
   }
 
   /**
@@ -576,6 +724,9 @@ export const openaiClient = new OpenAIClient();
 
 // Export compatibility functions
 export const isOpenAIAvailable = (): boolean => {
+  // AI analysis switched off (VITE_ENABLE_AI_ANALYSIS=false) means offline mode
+  if (!isAIEnabled()) return false;
+
   // Check if we have the API key available
   const hasKey = import.meta.env.DEV && !!import.meta.env.VITE_OPENAI_API_KEY;
   console.log('🔍 [OpenAI] Availability check:', { hasKey, isDev: import.meta.env.DEV });
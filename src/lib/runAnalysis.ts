@@ -1,10 +1,12 @@
-import { AnalysisPipeline } from './analysis/analysisPipeline';
+import { AnalysisPipeline, AnalysisStreamEvent } from './analysis/analysisPipeline';
 import { AnalysisResult, ROIAggregator } from './analysis/roiAggregator';
 import { TaskClassifier } from './analysis/taskClassifier';
+import type { AnalysisPipelineConfig } from './analysis/types';
 
 // Re-export types for backward compatibility
 export type { AnalysisResult } from './analysis/roiAggregator';
 export type { Task } from './analysis/taskClassifier';
+export type { AnalysisStreamEvent } from './analysis/analysisPipeline';
 
 // Create instances for backward compatibility
 const taskClassifier = new TaskClassifier();
@@ -13,11 +15,28 @@ const roiAggregator = new ROIAggregator();
 /**
  * Main analysis function - now uses the modular pipeline
  */
-export async function runAnalysis(jobText: string, lang: 'de' | 'en' = 'de'): Promise<AnalysisResult> {
-  const pipeline = new AnalysisPipeline();
+export async function runAnalysis(
+  jobText: string,
+  lang: 'de' | 'en' = 'de',
+  config: Partial<AnalysisPipelineConfig> = {}
+): Promise<AnalysisResult> {
+  const pipeline = new AnalysisPipeline(config);
   return pipeline.runAnalysis(jobText, lang);
 }
 
+/**
+ * Streaming analysis - reports tasks, subtasks and business cases as they arrive
+ */
+export async function runAnalysisStream(
+  jobText: string,
+  lang: 'de' | 'en',
+  onEvent: (event: AnalysisStreamEvent) => void,
+  config: Partial<AnalysisPipelineConfig> = {}
+): Promise<AnalysisResult> {
+  const pipeline = new AnalysisPipeline(config);
+  return pipeline.runAnalysisStream(jobText, lang, onEvent);
+}
+
 /**
  * Detect industry from text - backward compatibility
  */
@@ -0,0 +1,383 @@
+/**
+ * Agent Index Schema
+ *
+ * Unified schema for AI agents, parallel to UnifiedWorkflow: entries of the curated
+ * aiAgentsCatalog and agents fetched by fetch-agent-catalogs (HuggingFace Spaces,
+ * CrewAI, GitHub topics, manifest) are mapped onto it and persisted in `unified_agents`.
+ * AgentScoring tiers these entries.
+ */
+
+import { AuthorInfo, DomainClassification } from './common';
+import type { AIAgent, AgentCategory } from '../solutions/aiAgentsCatalog';
+import type { AgentMinimal } from '../../../supabase/functions/_shared/agent-catalog-sources.ts';
+
+export type AgentDifficulty = 'Beginner' | 'Intermediate' | 'Advanced';
+export type AgentSetupTime = 'Quick' | 'Medium' | 'Long';
+export type AgentDeployment = 'Local' | 'Cloud' | 'Hybrid';
+export type AgentPricing = 'Free' | 'Freemium' | 'Paid' | 'Enterprise';
+// Same states as agent_sources.health_status
+export type AgentSourceHealth = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+
+export interface AgentIndex {
+  // Mandatory core fields (PRD requirement)
+  id: string;
+  source: string; // source identifier (crewai, hf-spaces, etc.)
+  title: string;
+  summary: string;
+  link: string;
+
+  // Agent-specific mandatory fields
+  model: string; // model/provider (e.g., "GPT-4", "Claude", "OpenAI"); '' when unknown
+  provider: string; // API provider (e.g., "OpenAI", "Anthropic", "HuggingFace")
+  capabilities: string[]; // standardized capability tags
+
+  // Optional fields with fallbacks
+  category?: string;
+  tags?: string[];
+  domains?: string[]; // ontology domain labels, 'Other' as fallback
+  difficulty?: AgentDifficulty;
+  setupTime?: AgentSetupTime;
+  deployment?: AgentDeployment;
+  license?: string; // license information with fallback 'Unknown'
+  pricing?: AgentPricing;
+  requirements?: string[];
+  useCases?: string[];
+  automationPotential?: number; // 0-100 percentage
+
+  // Author metadata (optional)
+  author?: AuthorInfo;
+
+  // Source-specific metadata
+  likes?: number;
+  downloads?: number;
+  lastModified?: string;
+  githubUrl?: string;
+  demoUrl?: string;
+  documentationUrl?: string;
+
+  // Source health (last check of the listing the agent came from)
+  sourceHealth?: AgentSourceHealth;
+  sourceCheckedAt?: string;
+
+  // Domain classification (LLM-based)
+  domainClassification?: DomainClassification;
+}
+
+/**
+ * Row of the unified_agents table
+ */
+export interface UnifiedAgentRow {
+  id: string;
+  source: string;
+  title: string;
+  summary: string;
+  link: string;
+  model: string | null;
+  provider: string | null;
+  capabilities: string[];
+  domains: string[];
+  category: string | null;
+  tags: string[];
+  difficulty: AgentDifficulty | null;
+  setup_time: AgentSetupTime | null;
+  deployment: AgentDeployment | null;
+  pricing: AgentPricing | null;
+  license: string;
+  requirements: string[];
+  use_cases: string[];
+  automation_potential: number | null;
+  author_name: string | null;
+  author_username: string | null;
+  author_avatar: string | null;
+  author_verified: boolean;
+  likes: number | null;
+  downloads: number | null;
+  last_modified: string | null;
+  github_url: string | null;
+  demo_url: string | null;
+  documentation_url: string | null;
+  source_health: AgentSourceHealth;
+  source_checked_at: string | null;
+  active?: boolean;
+}
+
+export interface AgentSourceStatus {
+  health: AgentSourceHealth;
+  checkedAt?: string;
+}
+
+// Capability tags of agent_capability_tags, detected from tags, titles and descriptions
+const CAPABILITY_KEYWORDS: Array<[string, RegExp]> = [
+  ['web_search', /\b(web[\s_-]?search|search(es|ing)?|brows(e|ing)|research(es|ing)?)\b/],
+  ['data_analysis', /\b(data[\s_-]?analy\w*|analytics|analy[sz]\w*|insights?)\b/],
+  ['file_io', /\b(files?|pdfs?|csv|spreadsheets?|uploads?)\b/],
+  ['email_send', /\b(e[\s-]?mails?|inbox|newsletters?)\b/],
+  ['api_integration', /\b(apis?|integrations?|webhooks?|ats)\b/],
+  ['database_query', /\b(sql|databases?|queries)\b/],
+  ['data_visualization', /\b(charts?|dashboards?|visuali[sz]\w*)\b/],
+  ['data_extraction', /\b(scrap\w*|extract\w*|crawl\w*|sourcing)\b/],
+  ['chat_interaction', /\b(chat\w*|conversations?|assistants?)\b/],
+  ['document_generation', /\b(writ(e|es|ing)|drafts?|blog|copywriting|content[\s_-]?creation)\b/],
+  ['notification_sending', /\b(notif\w*|reminds?|reminders?|slack)\b/],
+  ['calendar_management', /\b(calendars?|meetings?|scheduling)\b/],
+  ['text_processing', /\b(nlp|sentiment|classif\w*|triages?)\b/],
+  ['image_processing', /\b(images?|vision|photos?|instagram)\b/],
+  ['code_generation', /\b(code|coding|programming|developers?)\b/],
+  ['content_summarization', /\b(summar\w*|briefs?)\b/],
+  ['workflow_automation', /\b(automat\w*|workflows?)\b/],
+  ['task_scheduling', /\b(tasks?|planner|planning|project[\s_-]?management)\b/],
+  ['monitoring', /\b(monitor\w*|tracking)\b/],
+  ['code_review', /\b(code[\s_-]?reviews?|pull[\s_-]?requests?)\b/],
+  ['testing', /\b(testing|qa)\b/],
+  ['deployment', /\b(deploy\w*|devops|ci\/cd)\b/],
+  ['security_analysis', /\b(security|vulnerabilit\w*)\b/],
+  ['reporting', /\b(reports?|reporting)\b/],
+  ['forecasting', /\b(forecast\w*|predict\w*)\b/],
+  ['compliance_checking', /\b(complian\w*|regulat\w*)\b/],
+  ['language_translation', /\b(translat\w*)\b/],
+  ['voice_processing', /\b(voice|speech|audio)\b/]
+];
+
+// Labels of ontology_domains; German terms for subtasks of German analyses
+const DOMAIN_KEYWORDS: Array<[string, RegExp]> = [
+  ['Customer Support & Service', /\b(customer[\s_-]?support|support|helpdesk|tickets?|customer[\s_-]?service|kundenservice|kundenanfragen)\b/],
+  ['Sales & CRM', /\b(sales|crm|leads?|vertrieb|angebote?)\b/],
+  ['Marketing & Advertising', /\b(marketing|seo|social[\s_-]?media|instagram|advert\w*|campaigns?)\b/],
+  ['Human Resources & Recruiting', /\b(hr|recruit\w*|hiring|resumes?|candidates?|bewerb\w*|personalwesen|kandidat\w*)\b/],
+  ['Finance & Accounting', /\b(financ\w*|invoices?|accounting|budget\w*|expenses?|finanz\w*|rechnung\w*|buchhaltung|buchung\w*)\b/],
+  ['IT & Software Development', /\b(code|coding|software|developers?|programming)\b/],
+  ['DevOps & Cloud', /\b(devops|kubernetes|deploy\w*|infrastructure)\b/],
+  ['Research & Data Science', /\b(research\w*|data[\s_-]?science|analytics|sql)\b/],
+  ['Legal & Compliance', /\b(legal|contracts?|complian\w*|vertr(a|ä)g\w*|rechtliche?)\b/],
+  ['Education & Training', /\b(educat\w*|tutor\w*|courses?)\b/],
+  ['Healthcare & Medicine', /\b(health\w*|medical|clinic\w*|patients?)\b/],
+  ['Logistics & Supply Chain', /\b(logistics|supply[\s_-]?chain|shipping|logistik|versand|lieferung\w*)\b/],
+  ['Retail & E-Commerce', /\b(e[\s-]?commerce|shops?|retail)\b/],
+  ['Design & Creative', /\b(design|creative|image[\s_-]?generation)\b/]
+];
+
+const CATEGORY_DOMAINS: Record<AgentCategory, string[]> = {
+  'HR & Recruitment': ['Human Resources & Recruiting'],
+  'Finance & Accounting': ['Finance & Accounting'],
+  'Marketing & Sales': ['Marketing & Advertising', 'Sales & CRM'],
+  'Customer Support': ['Customer Support & Service'],
+  'Data Analysis': ['Research & Data Science'],
+  'Content Creation': ['Marketing & Advertising', 'Design & Creative'],
+  'Project Management': [],
+  'Development & DevOps': ['IT & Software Development', 'DevOps & Cloud'],
+  'Research & Analysis': ['Research & Data Science'],
+  'Communication': ['Customer Support & Service'],
+  'General Business': []
+};
+
+// Most specific first: "gpt-4-turbo" before "gpt-4"
+const MODEL_PATTERNS: Array<[string, RegExp]> = [
+  ['gpt-4-turbo', /\bgpt[\s-]?4[\s-]?turbo\b/],
+  ['gpt-4o', /\bgpt[\s-]?4o\b/],
+  ['gpt-4', /\bgpt[\s-]?4\b/],
+  ['gpt-3.5', /\bgpt[\s-]?3\.5\b/],
+  ['claude-3-opus', /\bclaude[\s_-]?3[\s_-]?opus\b/],
+  ['claude-3-sonnet', /\bclaude[\s_-]?3(\.5)?[\s_-]?sonnet\b/],
+  ['claude-3-haiku', /\bclaude[\s_-]?3[\s_-]?haiku\b/],
+  ['gemini-pro', /\bgemini[\s_-]?pro\b/],
+  ['llama', /\bllama[\s_-]?\d*\b/],
+  ['mistral', /\bmistral\b/]
+];
+
+const PROVIDER_PATTERNS: Array<[string, RegExp]> = [
+  ['OpenAI', /\b(openai|gpt[\s-]?[34])/],
+  ['Anthropic', /\b(anthropic|claude)\b/],
+  ['Google', /\b(google|gemini|vertex)\b/],
+  ['Microsoft', /\b(microsoft|azure|autogen)\b/],
+  ['Meta', /\b(llama)\b/],
+  ['Mistral', /\b(mistral)\b/]
+];
+
+// Listings are hosted Spaces or self-hosted repositories
+const SOURCE_DEPLOYMENT: Record<string, AgentDeployment> = {
+  'hf-spaces': 'Cloud',
+  'crewai': 'Local',
+  'github-agents': 'Local'
+};
+
+// Tags use "-" and "_" as separators, patterns match them as spaces
+const normalizeText = (parts: Array<string | undefined>) =>
+  parts.filter(Boolean).join(' ').toLowerCase().replace(/[_-]+/g, ' ');
+
+const matchAll = (text: string, patterns: Array<[string, RegExp]>) =>
+  patterns.filter(([, pattern]) => pattern.test(text)).map(([value]) => value);
+
+const matchFirst = (text: string, patterns: Array<[string, RegExp]>) =>
+  patterns.find(([, pattern]) => pattern.test(text))?.[0];
+
+/**
+ * Capability tags for free-form tags and texts; tags that already are capability tags are kept
+ */
+export function detectCapabilities(tags: string[], texts: string[] = []): string[] {
+  const known = new Set(CAPABILITY_KEYWORDS.map(([capability]) => capability));
+  const direct = tags.map(tag => tag.toLowerCase()).filter(tag => known.has(tag));
+  return [...new Set([...direct, ...matchAll(normalizeText([...tags, ...texts]), CAPABILITY_KEYWORDS)])];
+}
+
+/**
+ * Ontology domains for free-form tags and texts, ['Other'] when nothing matches
+ */
+export function detectDomains(tags: string[], texts: string[] = []): string[] {
+  const domains = matchAll(normalizeText([...tags, ...texts]), DOMAIN_KEYWORDS);
+  return domains.length > 0 ? domains : ['Other'];
+}
+
+/**
+ * Agent Schema Mapper
+ * Converts catalog entries, fetched listings and table rows to AgentIndex
+ */
+export class AgentSchemaMapper {
+  /**
+   * Hand-written aiAgentsCatalog entry
+   */
+  static fromAIAgent(agent: AIAgent): AgentIndex {
+    const texts = [agent.name, agent.description, ...agent.useCases, ...agent.requirements];
+    const modelText = normalizeText(agent.requirements);
+    const categoryDomains = CATEGORY_DOMAINS[agent.category] || [];
+    const detectedDomains = detectDomains(agent.tags, [agent.description]).filter(domain => domain !== 'Other');
+    const domains = [...new Set([...categoryDomains, ...detectedDomains])];
+
+    return {
+      id: agent.id,
+      source: 'catalog',
+      title: agent.name,
+      summary: agent.description,
+      link: agent.githubUrl || agent.documentationUrl || agent.demoUrl || '#',
+      model: matchFirst(modelText, MODEL_PATTERNS) || '',
+      provider: matchFirst(modelText, PROVIDER_PATTERNS) || '',
+      capabilities: detectCapabilities([...agent.tags, ...agent.subcategories], texts),
+      category: agent.category,
+      tags: agent.tags,
+      domains: domains.length > 0 ? domains : ['Other'],
+      difficulty: agent.difficulty,
+      setupTime: agent.setupTime,
+      deployment: agent.deployment,
+      license: 'Unknown',
+      pricing: agent.pricing,
+      requirements: agent.requirements,
+      useCases: agent.useCases,
+      automationPotential: agent.automationPotential,
+      githubUrl: agent.githubUrl,
+      demoUrl: agent.demoUrl,
+      documentationUrl: agent.documentationUrl,
+      // Maintained in the repository, nothing to check
+      sourceHealth: 'healthy'
+    };
+  }
+
+  /**
+   * Agent fetched by fetch-agent-catalogs
+   */
+  static fromAgentMinimal(agent: AgentMinimal, status?: AgentSourceStatus): AgentIndex {
+    const text = normalizeText([agent.title, agent.summary, ...agent.tags]);
+    const licenseTag = agent.tags.find(tag => tag.toLowerCase().startsWith('license:'));
+    const isRepository = agent.link.startsWith('https://github.com/');
+
+    return {
+      id: agent.id,
+      source: agent.source,
+      title: agent.title,
+      summary: agent.summary,
+      link: agent.link,
+      model: matchFirst(text, MODEL_PATTERNS) || '',
+      // The LLM provider when the listing names one, otherwise the listing itself
+      provider: matchFirst(text, PROVIDER_PATTERNS) || agent.provider,
+      capabilities: detectCapabilities(agent.tags, [agent.title, agent.summary]),
+      tags: agent.tags,
+      domains: detectDomains(agent.tags, [agent.title, agent.summary]),
+      deployment: SOURCE_DEPLOYMENT[agent.source],
+      license: licenseTag ? licenseTag.slice('license:'.length).toUpperCase() : 'Unknown',
+      // Open-source repositories cost nothing to run besides the model
+      pricing: isRepository ? 'Free' : undefined,
+      likes: agent.likes,
+      downloads: agent.downloads,
+      lastModified: agent.lastModified,
+      githubUrl: isRepository ? agent.link : undefined,
+      demoUrl: agent.source === 'hf-spaces' ? agent.link : undefined,
+      sourceHealth: status?.health || 'unknown',
+      sourceCheckedAt: status?.checkedAt
+    };
+  }
+
+  /**
+   * unified_agents row
+   */
+  static fromRow(row: UnifiedAgentRow): AgentIndex {
+    return {
+      id: row.id,
+      source: row.source,
+      title: row.title,
+      summary: row.summary || '',
+      link: row.link || '#',
+      model: row.model || '',
+      provider: row.provider || '',
+      capabilities: row.capabilities || [],
+      category: row.category ?? undefined,
+      tags: row.tags || [],
+      domains: row.domains && row.domains.length > 0 ? row.domains : ['Other'],
+      difficulty: row.difficulty ?? undefined,
+      setupTime: row.setup_time ?? undefined,
+      deployment: row.deployment ?? undefined,
+      license: row.license || 'Unknown',
+      pricing: row.pricing ?? undefined,
+      requirements: row.requirements || [],
+      useCases: row.use_cases || [],
+      automationPotential: row.automation_potential ?? undefined,
+      author: row.author_name ? {
+        name: row.author_name,
+        username: row.author_username || row.author_name,
+        avatar: row.author_avatar ?? undefined,
+        verified: row.author_verified
+      } : undefined,
+      likes: row.likes ?? undefined,
+      downloads: row.downloads ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      githubUrl: row.github_url ?? undefined,
+      demoUrl: row.demo_url ?? undefined,
+      documentationUrl: row.documentation_url ?? undefined,
+      sourceHealth: row.source_health || 'unknown',
+      sourceCheckedAt: row.source_checked_at ?? undefined
+    };
+  }
+
+  static toRow(agent: AgentIndex): UnifiedAgentRow {
+    return {
+      id: agent.id,
+      source: agent.source,
+      title: agent.title,
+      summary: agent.summary,
+      link: agent.link,
+      model: agent.model || null,
+      provider: agent.provider || null,
+      capabilities: agent.capabilities,
+      domains: agent.domains || ['Other'],
+      category: agent.category ?? null,
+      tags: agent.tags || [],
+      difficulty: agent.difficulty ?? null,
+      setup_time: agent.setupTime ?? null,
+      deployment: agent.deployment ?? null,
+      pricing: agent.pricing ?? null,
+      license: agent.license || 'Unknown',
+      requirements: agent.requirements || [],
+      use_cases: agent.useCases || [],
+      automation_potential: agent.automationPotential ?? null,
+      author_name: agent.author?.name ?? null,
+      author_username: agent.author?.username ?? null,
+      author_avatar: agent.author?.avatar ?? null,
+      author_verified: agent.author?.verified ?? false,
+      likes: agent.likes ?? null,
+      downloads: agent.downloads ?? null,
+      last_modified: agent.lastModified ?? null,
+      github_url: agent.githubUrl ?? null,
+      demo_url: agent.demoUrl ?? null,
+      documentation_url: agent.documentationUrl ?? null,
+      source_health: agent.sourceHealth || 'unknown',
+      source_checked_at: agent.sourceCheckedAt ?? null
+    };
+  }
+}
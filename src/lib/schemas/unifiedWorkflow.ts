@@ -3,12 +3,19 @@
  * Ein einheitliches Schema für alle Workflow-Typen in der Anwendung
  */
 
+import type { WorkflowDiagnostic } from '../workflowValidator';
+import type { Tables } from '../../integrations/supabase/types';
+import type { GenerationAttempt } from '../../../supabase/functions/_shared/workflow-repair.ts';
+
 // Basis-Typen
 export type Complexity = 'Low' | 'Medium' | 'High' | 'Easy' | 'Hard';
 export type TriggerType = 'Manual' | 'Webhook' | 'Scheduled' | 'Complex';
 export type SolutionStatus = 'generated' | 'verified' | 'fallback' | 'loading';
 export type SourceType = 'github' | 'n8n.io' | 'ai-generated' | 'manual' | 'api';
 
+// Generation Attempt (generate → validate → repair), geteilt mit den Edge Functions
+export type { GenerationAttempt } from '../../../supabase/functions/_shared/workflow-repair.ts';
+
 // Generation Metadata
 export interface GenerationMetadata {
   timestamp: number;
@@ -16,6 +23,7 @@ export interface GenerationMetadata {
   language: 'de' | 'en';
   cacheKey: string;
   version?: string;
+  attempts?: GenerationAttempt[]; // Alle Versuche der Reparaturschleife
 }
 
 // Author Information
@@ -46,6 +54,13 @@ export interface N8nWorkflowData {
   staticData?: any;
 }
 
+// Alternate source of a deduplicated workflow
+export interface WorkflowSourceAlias {
+  workflowId: string;
+  source: string;
+  url: string | null;
+}
+
 // Scoring Information
 export interface WorkflowScore {
   overall: number; // 0-100
@@ -66,6 +81,9 @@ export interface WorkflowMatch {
   estimatedTimeSavings?: number;
 }
 
+// Row of the unified_workflows table
+export type UnifiedWorkflowRow = Tables<'unified_workflows'>;
+
 /**
  * UNIFIED WORKFLOW SCHEMA
  * Das einheitliche Schema für alle Workflow-Typen
@@ -80,6 +98,8 @@ export interface UnifiedWorkflow {
   // === SOURCE & METADATA ===
   source: SourceType;
   sourceUrl?: string;
+  sourceAliases?: WorkflowSourceAlias[]; // Gleiche Vorlage aus anderen Quellen (zusammengeführte Duplikate)
+  canonicalId?: string; // Gesetzt, wenn dieser Workflow ein Duplikat ist
   category: string;
   tags: string[];
   license?: string;
@@ -90,6 +110,9 @@ export interface UnifiedWorkflow {
   integrations: string[];
   nodeCount?: number;
   connectionCount?: number;
+  triggerNodeType?: string; // z.B. "n8n-nodes-base.webhook"
+  credentialsRequired?: string[]; // Credential-Typen aus den Nodes
+  branchingDepth?: number; // Max. Verzweigungen auf einem Pfad
   
   // === TECHNICAL DETAILS ===
   n8nWorkflow?: N8nWorkflowData; // Vollständiges n8n Workflow (nur bei AI-generierten)
@@ -107,6 +130,7 @@ export interface UnifiedWorkflow {
   isAIGenerated: boolean;
   generationMetadata?: GenerationMetadata;
   validationStatus?: 'valid' | 'invalid' | 'pending';
+  validationDiagnostics?: WorkflowDiagnostic[]; // Fehler und Warnungen der statischen Prüfung
   
   // === BUSINESS METRICS ===
   setupCost?: number;
@@ -226,6 +250,94 @@ export interface WorkflowExport {
  * Hilfsfunktionen für Migration von alten Schemas
  */
 export class WorkflowSchemaMapper {
+  /**
+   * Konvertiert eine unified_workflows-Zeile zu UnifiedWorkflow
+   */
+  static fromRow(row: UnifiedWorkflowRow): UnifiedWorkflow {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      summary: optional(row.summary),
+      source: row.source,
+      sourceUrl: optional(row.source_url),
+      sourceAliases: row.source_aliases as unknown as WorkflowSourceAlias[],
+      canonicalId: optional(row.canonical_id),
+      category: row.category,
+      tags: row.tags || [],
+      license: optional(row.license),
+      complexity: row.complexity,
+      triggerType: row.trigger_type,
+      integrations: row.integrations || [],
+      nodeCount: optional(row.node_count),
+      connectionCount: optional(row.connection_count),
+      triggerNodeType: optional(row.trigger_node_type),
+      credentialsRequired: optional(row.credentials_required),
+      branchingDepth: optional(row.branching_depth),
+      n8nWorkflow: optional(row.n8n_workflow as unknown as N8nWorkflowData | null),
+      jsonUrl: optional(row.json_url),
+      workflowData: optional(row.workflow_data),
+      author: row.author_name || row.author_username ? {
+        name: optional(row.author_name),
+        username: optional(row.author_username),
+        avatar: optional(row.author_avatar),
+        verified: optional(row.author_verified),
+        email: optional(row.author_email)
+      } : undefined,
+      createdAt: row.created_at,
+      updatedAt: optional(row.updated_at),
+      version: optional(row.version),
+      status: row.status,
+      isAIGenerated: row.is_ai_generated,
+      generationMetadata: row.generation_model && row.generation_timestamp !== null ? {
+        timestamp: row.generation_timestamp,
+        model: row.generation_model,
+        language: row.generation_language === 'en' ? 'en' : 'de',
+        cacheKey: row.generation_cache_key || '',
+        version: optional(row.generation_version)
+      } : undefined,
+      validationStatus: optional(row.validation_status),
+      validationDiagnostics: row.validation_diagnostics as unknown as WorkflowDiagnostic[],
+      setupCost: optional(row.setup_cost),
+      estimatedTime: optional(row.estimated_time),
+      estimatedCost: optional(row.estimated_cost),
+      timeSavings: optional(row.time_savings),
+      downloads: optional(row.downloads),
+      rating: optional(row.rating),
+      popularity: optional(row.popularity),
+      verified: optional(row.verified),
+      domainClassification: row.domain_primary ? {
+        domains: [row.domain_primary, ...(row.domain_secondary || [])],
+        confidences: row.domain_confidences || [],
+        origin: row.domain_origin || 'admin'
+      } : undefined,
+      score: row.score_overall !== null ? {
+        overall: row.score_overall,
+        category: row.score_category ?? 0,
+        service: row.score_service ?? 0,
+        trigger: row.score_trigger ?? 0,
+        complexity: row.score_complexity ?? 0,
+        integration: row.score_integration ?? 0,
+        confidence: row.score_confidence ?? 0,
+        reasoning: row.score_reasoning || []
+      } : undefined,
+      match: row.match_score !== null ? {
+        score: row.match_score,
+        reasons: row.match_reasons || [],
+        relevantIntegrations: row.match_relevant_integrations || [],
+        estimatedTimeSavings: optional(row.match_estimated_time_savings)
+      } : undefined,
+      downloadUrl: optional(row.download_url),
+      previewUrl: optional(row.preview_url),
+      thumbnailUrl: optional(row.thumbnail_url),
+      active: optional(row.active),
+      fileHash: optional(row.file_hash),
+      analyzedAt: optional(row.analyzed_at),
+      lastAccessed: optional(row.last_accessed),
+      cacheKey: optional(row.cache_key)
+    };
+  }
+
   /**
    * Konvertiert WorkflowIndex zu UnifiedWorkflow
    */
@@ -363,3 +475,7 @@ export class WorkflowSchemaMapper {
   }
 }
 
+// Nullable columns become optional fields
+function optional<T>(value: T | null): T | undefined {
+  return value ?? undefined;
+}
@@ -5,6 +5,9 @@
  */
 
 import { AuthorInfo, DomainClassification } from './common';
+import type { AgentIndex } from './agentIndex';
+
+export type { AgentIndex } from './agentIndex';
 
 export interface WorkflowIndex {
   // Mandatory core fields (PRD requirement)
@@ -36,46 +39,6 @@ export interface WorkflowIndex {
   domainClassification?: DomainClassification;
 }
 
-export interface AgentIndex {
-  // Mandatory core fields (PRD requirement)
-  id: string;
-  source: string; // source identifier (crewai, hf-spaces, etc.)
-  title: string;
-  summary: string;
-  link: string;
-  
-  // Agent-specific mandatory fields
-  model: string; // model/provider (e.g., "GPT-4", "Claude", "OpenAI")
-  provider: string; // API provider (e.g., "OpenAI", "Anthropic", "HuggingFace")
-  capabilities: string[]; // standardized capability tags
-  
-  // Optional fields with fallbacks
-  category?: string;
-  tags?: string[];
-  difficulty?: 'Beginner' | 'Intermediate' | 'Advanced';
-  setupTime?: 'Quick' | 'Medium' | 'Long';
-  deployment?: 'Local' | 'Cloud' | 'Hybrid';
-  license?: string; // license information with fallback 'Unknown'
-  pricing?: 'Free' | 'Freemium' | 'Paid' | 'Enterprise';
-  requirements?: string[];
-  useCases?: string[];
-  automationPotential?: number; // 0-100 percentage
-  
-  // Author metadata (optional)
-  author?: AuthorInfo;
-  
-  // Source-specific metadata
-  likes?: number;
-  downloads?: number;
-  lastModified?: string;
-  githubUrl?: string;
-  demoUrl?: string;
-  documentationUrl?: string;
-
-  // Domain classification (LLM-based)
-  domainClassification?: DomainClassification;
-}
-
 // Unified solution type for both workflows and agents
 export type SolutionIndex = WorkflowIndex | AgentIndex;
 
@@ -0,0 +1,134 @@
+/**
+ * Tests for hybrid workflow search (BM25 + embeddings, reciprocal rank fusion)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), functions: { invoke: vi.fn() } }
+}));
+
+import {
+  HybridSearchBackend,
+  HybridWorkflowSearch,
+  InMemoryHybridSearchBackend,
+  reciprocalRankFusion
+} from '../hybridWorkflowSearch';
+import { LocalEmbeddingProvider, cosineSimilarity } from '../embeddings';
+import { UnifiedWorkflow } from '../../schemas/unifiedWorkflow';
+
+const workflow = (id: string, title: string, description: string, extra: Partial<UnifiedWorkflow> = {}): UnifiedWorkflow => ({
+  id,
+  title,
+  description,
+  source: 'github',
+  category: 'General',
+  tags: [],
+  complexity: 'Low',
+  triggerType: 'Manual',
+  integrations: [],
+  createdAt: '2025-01-01T00:00:00Z',
+  status: 'verified',
+  isAIGenerated: false,
+  ...extra
+} as UnifiedWorkflow);
+
+const catalog: UnifiedWorkflow[] = [
+  workflow('invoice-reminder', 'Overdue invoice reminder emails', 'Sends a reminder email for every unpaid invoice in QuickBooks', {
+    category: 'Finance', integrations: ['QuickBooks', 'Gmail']
+  }),
+  workflow('payment-followup', 'Payment follow-up for open invoices', 'Reminds customers about outstanding invoices via Slack and email', {
+    category: 'Finance', integrations: ['Stripe', 'Slack']
+  }),
+  workflow('invoice-ocr', 'Invoice OCR to spreadsheet', 'Extracts invoice fields from PDF attachments into Google Sheets', {
+    category: 'Finance', integrations: ['Google Sheets']
+  }),
+  workflow('social-post', 'Schedule social media posts', 'Publishes posts to Twitter and LinkedIn on a schedule', {
+    category: 'Marketing'
+  }),
+  workflow('lead-enrichment', 'Lead enrichment', 'Enriches new CRM leads with company data', { category: 'Sales' })
+];
+
+describe('reciprocalRankFusion', () => {
+  it('rewards documents ranked well by several retrievers', () => {
+    const fused = reciprocalRankFusion([
+      [{ id: 'a', score: 9 }, { id: 'b', score: 5 }, { id: 'c', score: 1 }],
+      [{ id: 'b', score: 0.9 }, { id: 'c', score: 0.8 }, { id: 'd', score: 0.7 }]
+    ]);
+
+    expect(fused.map(entry => entry.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('applies per-retriever weights', () => {
+    const fused = reciprocalRankFusion(
+      [[{ id: 'a', score: 1 }], [{ id: 'b', score: 1 }]],
+      { weights: [1, 2] }
+    );
+    expect(fused[0].id).toBe('b');
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  it('produces normalized vectors that place inflected forms close together', async () => {
+    const provider = new LocalEmbeddingProvider(128);
+    const [query, related, unrelated] = await provider.embed([
+      'send invoice reminders',
+      'invoice reminder emails',
+      'schedule social media posts'
+    ]);
+
+    expect(query).toHaveLength(128);
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('HybridWorkflowSearch', () => {
+  const embeddings = new LocalEmbeddingProvider();
+
+  it('finds invoice reminder templates for a task phrase', async () => {
+    const search = new HybridWorkflowSearch(new InMemoryHybridSearchBackend(catalog, embeddings), embeddings);
+
+    const result = await search.search('send invoice reminders', { limit: 3 });
+
+    expect(result.retrievers).toEqual(['keyword', 'vector']);
+    expect(result.workflows[0].id).toBe('invoice-reminder');
+    expect(result.workflows.map(w => w.id)).toContain('payment-followup');
+    expect(result.hits[0].keywordRank).toBe(1);
+    expect(result.hits[0].vectorRank).toBeDefined();
+  });
+
+  it('applies filters and pagination to the fused ranking', async () => {
+    const search = new HybridWorkflowSearch(new InMemoryHybridSearchBackend(catalog, embeddings), embeddings);
+
+    const all = await search.search('invoice', { filter: w => w.category === 'Finance' });
+    const second = await search.search('invoice', { filter: w => w.category === 'Finance', limit: 1, offset: 1 });
+
+    expect(all.workflows.every(w => w.category === 'Finance')).toBe(true);
+    expect(second.workflows.map(w => w.id)).toEqual([all.workflows[1].id]);
+    expect(second.total).toBe(all.total);
+  });
+
+  it('falls back to keyword results when vector retrieval fails', async () => {
+    const backend = new InMemoryHybridSearchBackend(catalog, embeddings);
+    const failingBackend: HybridSearchBackend = {
+      keywordSearch: (query, limit) => backend.keywordSearch(query, limit),
+      vectorSearch: () => Promise.reject(new Error('no embeddings')),
+      loadWorkflows: ids => backend.loadWorkflows(ids)
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const search = new HybridWorkflowSearch(failingBackend, embeddings);
+
+    const result = await search.search('invoice reminder');
+
+    expect(result.retrievers).toEqual(['keyword']);
+    expect(result.workflows[0].id).toBe('invoice-reminder');
+    warn.mockRestore();
+  });
+
+  it('returns nothing for an empty query', async () => {
+    const search = new HybridWorkflowSearch(new InMemoryHybridSearchBackend(catalog, embeddings), embeddings);
+    expect((await search.search('   ')).total).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Embeddings - pluggable text embedding providers for semantic search
+ * The proxy provider uses the same model as the workflow indexer (via openai-proxy);
+ * the local provider is a deterministic, dependency-free stand-in for tests and offline use.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from the openai-proxy edge function (text-embedding-3-small, 1536 dimensions)
+ */
+export class ProxyEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai-proxy';
+  readonly dimensions = 1536;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const { data, error } = await supabase.functions.invoke('openai-proxy', {
+      body: { action: 'embed', texts }
+    });
+    if (error) throw new Error(`Embedding request failed: ${error.message}`);
+    if (!Array.isArray(data?.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error('Embedding response is incomplete');
+    }
+    return data.embeddings;
+  }
+}
+
+/**
+ * Feature-hashing embedding over word stems and character trigrams.
+ * Captures lexical and morphological overlap ("reminder" ~ "reminders"), not meaning;
+ * good enough to exercise vector retrieval without a model.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+
+  constructor(readonly dimensions = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = tokenize(text);
+
+    words.forEach(word => {
+      this.add(vector, `w:${stemWord(word)}`, 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `g:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    });
+
+    return normalize(vector);
+  }
+
+  private add(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // Sign bit from the hash keeps collisions from only ever adding up
+    vector[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * weight;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'or', 'the', 'to', 'of', 'for', 'in', 'on', 'with', 'from', 'by', 'at', 'is', 'are',
+  'und', 'oder', 'der', 'die', 'das', 'mit', 'für', 'von', 'zu', 'im', 'ein', 'eine'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+export function stemWord(word: string): string {
+  if (word.length <= 4) return word;
+  for (const suffix of ['ations', 'ation', 'ings', 'ing', 'ers', 'er', 'es', 'ed', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,285 @@
+/**
+ * Hybrid Workflow Search
+ * Combines full-text (BM25-style) and embedding retrieval over unified_workflows
+ * with reciprocal rank fusion, so task phrases like "send invoice reminders" find
+ * templates that share meaning rather than an exact substring.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { UnifiedWorkflow, WorkflowSchemaMapper } from '../schemas/unifiedWorkflow';
+import {
+  EmbeddingProvider,
+  ProxyEmbeddingProvider,
+  cosineSimilarity,
+  stemWord,
+  tokenize
+} from './embeddings';
+
+export interface RankedWorkflowId {
+  id: string;
+  score: number;
+}
+
+export interface HybridSearchHit {
+  id: string;
+  score: number;
+  keywordRank?: number;
+  vectorRank?: number;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  offset?: number;
+  filter?: (workflow: UnifiedWorkflow) => boolean;
+}
+
+export interface HybridSearchResult {
+  workflows: UnifiedWorkflow[];
+  hits: HybridSearchHit[];
+  total: number;
+  retrievers: Array<'keyword' | 'vector'>;
+}
+
+export interface HybridWorkflowSearchConfig {
+  candidatePoolSize: number;
+  rrfK: number;
+  keywordWeight: number;
+  vectorWeight: number;
+}
+
+/**
+ * Retrieval backend; each method returns candidates ordered best-first
+ */
+export interface HybridSearchBackend {
+  keywordSearch(query: string, limit: number): Promise<RankedWorkflowId[]>;
+  vectorSearch(embedding: number[], limit: number): Promise<RankedWorkflowId[]>;
+  loadWorkflows(ids: string[]): Promise<UnifiedWorkflow[]>;
+}
+
+const DEFAULT_CONFIG: HybridWorkflowSearchConfig = {
+  candidatePoolSize: 100,
+  rrfK: 60,
+  keywordWeight: 1,
+  vectorWeight: 1,
+};
+
+/**
+ * Reciprocal rank fusion: score(d) = Σ weight_i / (k + rank_i(d)), ranks starting at 1
+ */
+export function reciprocalRankFusion(
+  rankings: RankedWorkflowId[][],
+  options: { k?: number; weights?: number[] } = {}
+): RankedWorkflowId[] {
+  const k = options.k ?? DEFAULT_CONFIG.rrfK;
+  const scores = new Map<string, number>();
+
+  rankings.forEach((ranking, listIndex) => {
+    const weight = options.weights?.[listIndex] ?? 1;
+    ranking.forEach((entry, position) => {
+      scores.set(entry.id, (scores.get(entry.id) ?? 0) + weight / (k + position + 1));
+    });
+  });
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Text used for both keyword and embedding retrieval; mirrors the indexer's document
+ */
+export function workflowSearchText(workflow: UnifiedWorkflow): string {
+  return [
+    workflow.title,
+    workflow.description,
+    workflow.summary,
+    workflow.category,
+    ...(workflow.tags || []),
+    ...(workflow.integrations || [])
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Supabase backend: search_workflows_keyword / search_workflows_vector RPCs
+ */
+export class SupabaseHybridSearchBackend implements HybridSearchBackend {
+  async keywordSearch(query: string, limit: number): Promise<RankedWorkflowId[]> {
+    const { data, error } = await supabase.rpc('search_workflows_keyword', {
+      query_text: query,
+      match_count: limit
+    });
+    if (error) throw new Error(`Keyword search failed: ${error.message}`);
+    return (data || []).map(row => ({ id: row.id, score: row.rank }));
+  }
+
+  async vectorSearch(embedding: number[], limit: number): Promise<RankedWorkflowId[]> {
+    // pgvector parses its text form, which is the JSON array notation
+    const { data, error } = await supabase.rpc('search_workflows_vector', {
+      query_embedding: JSON.stringify(embedding),
+      match_count: limit
+    });
+    if (error) throw new Error(`Vector search failed: ${error.message}`);
+    return (data || []).map(row => ({ id: row.id, score: row.similarity }));
+  }
+
+  async loadWorkflows(ids: string[]): Promise<UnifiedWorkflow[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await supabase
+      .from('unified_workflows')
+      .select('*')
+      .in('id', ids);
+    if (error) throw new Error(`Loading workflows failed: ${error.message}`);
+    return (data || []).map(row => WorkflowSchemaMapper.fromRow(row));
+  }
+}
+
+/**
+ * In-memory backend: BM25 over workflowSearchText plus cosine over provider embeddings.
+ * Used in tests and for small local catalogs.
+ */
+export class InMemoryHybridSearchBackend implements HybridSearchBackend {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  private documents: Array<{ workflow: UnifiedWorkflow; terms: Map<string, number>; length: number }> = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+  private embeddings: number[][] | null = null;
+
+  constructor(private workflows: UnifiedWorkflow[], private embeddingProvider: EmbeddingProvider) {
+    this.documents = workflows.map(workflow => {
+      const terms = new Map<string, number>();
+      const tokens = tokenize(workflowSearchText(workflow)).map(stemWord);
+      tokens.forEach(term => terms.set(term, (terms.get(term) ?? 0) + 1));
+      terms.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1));
+      return { workflow, terms, length: tokens.length };
+    });
+    this.averageLength = this.documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, this.documents.length);
+  }
+
+  async keywordSearch(query: string, limit: number): Promise<RankedWorkflowId[]> {
+    const queryTerms = Array.from(new Set(tokenize(query).map(stemWord)));
+    const { K1, B } = InMemoryHybridSearchBackend;
+    const count = this.documents.length;
+
+    return this.documents
+      .map(doc => {
+        const score = queryTerms.reduce((sum, term) => {
+          const frequency = doc.terms.get(term) ?? 0;
+          if (frequency === 0) return sum;
+          const df = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+          const norm = frequency + K1 * (1 - B + B * (doc.length / (this.averageLength || 1)));
+          return sum + idf * (frequency * (K1 + 1)) / norm;
+        }, 0);
+        return { id: doc.workflow.id, score };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async vectorSearch(embedding: number[], limit: number): Promise<RankedWorkflowId[]> {
+    if (!this.embeddings) {
+      this.embeddings = await this.embeddingProvider.embed(this.workflows.map(workflowSearchText));
+    }
+    return this.embeddings
+      .map((vector, index) => ({ id: this.workflows[index].id, score: cosineSimilarity(embedding, vector) }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async loadWorkflows(ids: string[]): Promise<UnifiedWorkflow[]> {
+    const wanted = new Set(ids);
+    return this.workflows.filter(workflow => wanted.has(workflow.id));
+  }
+}
+
+/**
+ * Hybrid Workflow Search
+ * Runs both retrievers in parallel and fuses them; if one fails (no embeddings
+ * deployed, proxy unavailable) the other still answers.
+ */
+export class HybridWorkflowSearch {
+  private config: HybridWorkflowSearchConfig;
+
+  constructor(
+    private backend: HybridSearchBackend,
+    private embeddingProvider: EmbeddingProvider,
+    config: Partial<HybridWorkflowSearchConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async search(query: string, options: HybridSearchOptions = {}): Promise<HybridSearchResult> {
+    const limit = options.limit ?? 10;
+    const offset = options.offset ?? 0;
+    const trimmed = (query || '').trim();
+    if (!trimmed) return { workflows: [], hits: [], total: 0, retrievers: [] };
+
+    const pool = Math.max(this.config.candidatePoolSize, offset + limit);
+    const [keyword, vector] = await Promise.allSettled([
+      this.backend.keywordSearch(trimmed, pool),
+      this.embeddingProvider.embed([trimmed]).then(([embedding]) => this.backend.vectorSearch(embedding, pool))
+    ]);
+
+    const rankings: RankedWorkflowId[][] = [];
+    const weights: number[] = [];
+    const retrievers: HybridSearchResult['retrievers'] = [];
+    if (keyword.status === 'fulfilled') {
+      rankings.push(keyword.value);
+      weights.push(this.config.keywordWeight);
+      retrievers.push('keyword');
+    } else {
+      console.warn('⚠️ [HybridSearch] Keyword retrieval failed:', keyword.reason);
+    }
+    if (vector.status === 'fulfilled') {
+      rankings.push(vector.value);
+      weights.push(this.config.vectorWeight);
+      retrievers.push('vector');
+    } else {
+      console.warn('⚠️ [HybridSearch] Vector retrieval failed:', vector.reason);
+    }
+    if (rankings.length === 0) {
+      throw new Error('Hybrid search failed: no retriever available');
+    }
+
+    const rankOf = (ranking: RankedWorkflowId[] | undefined, id: string) => {
+      const index = ranking ? ranking.findIndex(entry => entry.id === id) : -1;
+      return index >= 0 ? index + 1 : undefined;
+    };
+    const keywordRanking = keyword.status === 'fulfilled' ? keyword.value : undefined;
+    const vectorRanking = vector.status === 'fulfilled' ? vector.value : undefined;
+
+    const fused = reciprocalRankFusion(rankings, { k: this.config.rrfK, weights });
+    const loaded = await this.backend.loadWorkflows(fused.map(entry => entry.id));
+    const byId = new Map(loaded.map(workflow => [workflow.id, workflow]));
+
+    const matching = fused
+      .filter(entry => {
+        const workflow = byId.get(entry.id);
+        return workflow !== undefined && (!options.filter || options.filter(workflow));
+      })
+      .map(entry => ({
+        ...entry,
+        keywordRank: rankOf(keywordRanking, entry.id),
+        vectorRank: rankOf(vectorRanking, entry.id)
+      }));
+    const page = matching.slice(offset, offset + limit);
+
+    return {
+      workflows: page.map(hit => byId.get(hit.id)!),
+      hits: page,
+      total: matching.length,
+      retrievers
+    };
+  }
+}
+
+/**
+ * Global instance
+ */
+export const hybridWorkflowSearch = new HybridWorkflowSearch(
+  new SupabaseHybridSearchBackend(),
+  new ProxyEmbeddingProvider()
+);
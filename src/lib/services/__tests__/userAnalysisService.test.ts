@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  from: vi.fn()
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: { getSession: mocks.getSession },
+    from: mocks.from
+  }
+}));
+
+import { UserAnalysisService } from '../userAnalysisService';
+
+// Chainable PostgREST query stub resolving to the given result
+const query = (result: { data?: unknown; error?: unknown }) => {
+  const builder: Record<string, unknown> = {};
+  ['select', 'insert', 'update', 'upsert', 'delete', 'eq', 'textSearch', 'contains', 'order', 'limit'].forEach(method => {
+    builder[method] = vi.fn(() => builder);
+  });
+  builder.single = vi.fn(() => Promise.resolve({ error: null, ...result }));
+  builder.then = (resolve: (value: unknown) => unknown) => resolve({ error: null, ...result });
+  return builder as Record<string, ReturnType<typeof vi.fn>>;
+};
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'a1',
+  title: 'Buchhalter',
+  job_text: 'Buchhalter\nRechnungen prüfen',
+  analysis: { totalScore: 60, ratio: { automatisierbar: 60, mensch: 40 }, tasks: [], summary: '', recommendations: [] },
+  total_score: 60,
+  task_count: 0,
+  lang: 'de',
+  tags: [],
+  edit_history: [],
+  local_id: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides
+});
+
+const signIn = (userId: string | null) => {
+  mocks.getSession.mockResolvedValue({ data: { session: userId ? { user: { id: userId } } : null } });
+};
+
+describe('UserAnalysisService', () => {
+  let service: UserAnalysisService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    service = new UserAnalysisService();
+  });
+
+  it('should not save anything for anonymous visitors', async () => {
+    signIn(null);
+
+    const saved = await service.save(row().analysis as never, 'Buchhalter', 'de');
+
+    expect(saved).toBeNull();
+    expect(mocks.from).not.toHaveBeenCalled();
+  });
+
+  it('should import the local history once per user', async () => {
+    // Arrange: two stored analyses, one demo entry and one entry without data
+    signIn('user-1');
+    localStorage.setItem('analysisHistory', JSON.stringify([
+      { id: 'analysis_1', timestamp: Date.parse('2026-02-01T10:00:00Z'), score: 60, jobTitle: 'Buchhalter', taskCount: 0, summary: '' },
+      { id: 'analysis_2', timestamp: Date.parse('2026-01-01T10:00:00Z'), score: 40, jobTitle: 'Accountant', taskCount: 0, summary: '', lang: 'en' },
+      { id: 'demo_1', timestamp: 1, score: 85, jobTitle: 'Demo', taskCount: 0, summary: '' },
+      { id: 'analysis_missing', timestamp: 2, score: 10, jobTitle: 'Gone', taskCount: 0, summary: '' }
+    ]));
+    localStorage.setItem('analysis_1', JSON.stringify(row().analysis));
+    localStorage.setItem('analysis_2', JSON.stringify(row().analysis));
+    const upsert = query({});
+    mocks.from.mockReturnValue(upsert);
+
+    // Act
+    const imported = await service.importLocalHistory();
+    const again = await service.importLocalHistory();
+
+    // Assert
+    expect(imported).toBe(2);
+    expect(again).toBe(0);
+    expect(upsert.upsert).toHaveBeenCalledTimes(1);
+    expect(upsert.upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({
+        user_id: 'user-1',
+        local_id: 'analysis_1',
+        title: 'Buchhalter',
+        lang: 'de',
+        total_score: 60,
+        created_at: '2026-02-01T10:00:00.000Z'
+      }), expect.objectContaining({ local_id: 'analysis_2', lang: 'en' })],
+      { onConflict: 'user_id,local_id', ignoreDuplicates: true }
+    );
+    expect(service.hasImportedLocalHistory('user-1')).toBe(true);
+  });
+
+  it('should import entries without a recorded language by their summary', async () => {
+    signIn('user-1');
+    localStorage.setItem('analysisHistory', JSON.stringify([
+      { id: 'analysis_1', timestamp: 1, score: 60, jobTitle: 'Accountant', taskCount: 2, summary: '' }
+    ]));
+    localStorage.setItem('analysis_1', JSON.stringify({
+      ...row().analysis,
+      summary: 'Analysis of 2 identified tasks revealed medium automation potential of 60%.'
+    }));
+    const upsert = query({});
+    mocks.from.mockReturnValue(upsert);
+
+    await service.importLocalHistory();
+
+    expect(upsert.upsert.mock.calls[0][0][0].lang).toBe('en');
+  });
+
+  it('should search title and job text through the full-text column', async () => {
+    const list = query({ data: [row()] });
+    mocks.from.mockReturnValue(list);
+
+    const analyses = await service.list({ search: ' rechnungen prüfen ' });
+
+    expect(analyses).toHaveLength(1);
+    expect(list.textSearch).toHaveBeenCalledWith('search_vector', 'rechnungen prüfen', { config: 'simple', type: 'websearch' });
+  });
+
+  it('should record renames and tag changes in the edit history', async () => {
+    const load = query({ data: row({ edit_history: [{ at: 'earlier', field: 'tags', from: [], to: ['finance'] }] }) });
+    const update = query({ data: row({ title: 'Senior Buchhalter' }) });
+    mocks.from.mockReturnValueOnce(load).mockReturnValueOnce(update);
+
+    const renamed = await service.rename('a1', '  Senior Buchhalter ');
+
+    expect(renamed.title).toBe('Senior Buchhalter');
+    const changes = update.update.mock.calls[0][0];
+    expect(changes.title).toBe('Senior Buchhalter');
+    expect(changes.edit_history).toHaveLength(2);
+    expect(changes.edit_history[1]).toMatchObject({ field: 'title', from: 'Buchhalter', to: 'Senior Buchhalter' });
+  });
+
+  it('should normalize tags', async () => {
+    const update = query({ data: row() });
+    mocks.from.mockReturnValueOnce(query({ data: row() })).mockReturnValueOnce(update);
+
+    await service.setTags('a1', [' Finance', 'finance', '', 'Senior ']);
+
+    expect(update.update.mock.calls[0][0].tags).toEqual(['finance', 'senior']);
+  });
+});
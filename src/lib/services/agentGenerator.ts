@@ -6,6 +6,7 @@
 import { DynamicSubtask, SolutionStatus, GenerationMetadata } from '../types';
 import { openaiClient } from '../openai';
 import { AgentSolutionInterface } from '../interfaces';
+import { AgentMatcher, AgentMatchResult, agentMatcher } from '../solutions/agentMatcher';
 
 export interface GeneratedAgent extends AgentSolutionInterface {
   isAIGenerated: true;
@@ -345,7 +346,41 @@ export async function generateAgentsWithFallback(
   return agentMap;
 }
 
+export interface AgentRecommendation {
+  /** Catalog matching; null when the catalog could not be loaded */
+  match: AgentMatchResult | null;
+  /** Generated only when no maintained catalog agent meets the threshold */
+  generated: GeneratedAgent | null;
+}
+
+/**
+ * Recommend a real catalog agent for a subtask, generating one only when none fits
+ */
+export async function recommendAgentForSubtask(
+  subtask: DynamicSubtask,
+  lang: 'de' | 'en' = 'en',
+  options: { matcher?: AgentMatcher; timeoutMs?: number; profile?: string } = {}
+): Promise<AgentRecommendation> {
+  const { matcher = agentMatcher, timeoutMs = 3000, profile } = options;
+
+  let match: AgentMatchResult | null = null;
+  try {
+    match = await matcher.matchSubtask(subtask, { profile });
+  } catch (error) {
+    console.warn('⚠️ [AgentGenerator] Catalog matching failed, generating instead:', error);
+  }
+
+  if (match?.bestMatch) {
+    console.log(`✅ [AgentGenerator] Catalog agent for "${subtask.title}": ${match.bestMatch.agent.title}`);
+    return { match, generated: null };
+  }
+
+  const generated = await generateAgentWithFallback(subtask, lang, timeoutMs);
+  return { match, generated };
+}
+
 export default {
+  recommendAgentForSubtask,
   generateAgentForSubtask,
   generateAgentsForSubtasks,
   generateFallbackAgent,
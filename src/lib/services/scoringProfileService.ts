@@ -0,0 +1,175 @@
+/**
+ * Scoring Profile Service - named, versioned weightings for agent and workflow scoring
+ * Reads scoring_profiles directly; edits go through the `scoring-profiles` edge function,
+ * which stores every save as a new active version.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BUILTIN_SCORING_PROFILES,
+  ScoringProfile,
+  ScoringProfileConfig,
+  ScoringProfileRow,
+  profileFromRow,
+  resolveScoringProfile
+} from '../../../supabase/functions/_shared/scoring-profiles.ts';
+
+export interface ScoringProfileVersion {
+  profile: ScoringProfile;
+  active: boolean;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+export interface ScoringProfileDraft {
+  slug: string;
+  name: string;
+  description?: string;
+  config: ScoringProfileConfig;
+}
+
+export interface ScoringProfileBackend {
+  /** Active version of every stored profile */
+  loadActive(): Promise<ScoringProfile[]>;
+  loadHistory(slug: string): Promise<ScoringProfileVersion[]>;
+  /** Store a new version and activate it; resolves to its version number */
+  save(draft: ScoringProfileDraft, createdBy?: string): Promise<number>;
+  activate(slug: string, version: number): Promise<void>;
+}
+
+const FUNCTION_NAME = 'scoring-profiles';
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body });
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.error || 'Scoring profile request failed');
+  return data as T;
+}
+
+export class SupabaseScoringProfileBackend implements ScoringProfileBackend {
+  async loadActive(): Promise<ScoringProfile[]> {
+    const { data, error } = await supabase
+      .from('scoring_profiles')
+      .select('*')
+      .eq('is_active', true)
+      .order('slug');
+    if (error) throw new Error(`Loading scoring profiles failed: ${error.message}`);
+    return (data || []).map(row => profileFromRow(row as ScoringProfileRow));
+  }
+
+  async loadHistory(slug: string): Promise<ScoringProfileVersion[]> {
+    const { versions } = await invoke<{ versions: ScoringProfileVersion[] }>({ action: 'history', slug });
+    return versions;
+  }
+
+  async save(draft: ScoringProfileDraft, createdBy?: string): Promise<number> {
+    const { version } = await invoke<{ version: number }>({ action: 'save', ...draft, createdBy });
+    return version;
+  }
+
+  async activate(slug: string, version: number): Promise<void> {
+    await invoke({ action: 'activate', slug, version });
+  }
+}
+
+/**
+ * In-memory backend holding every version, for tests
+ */
+export class InMemoryScoringProfileBackend implements ScoringProfileBackend {
+  private versions: ScoringProfileVersion[];
+
+  constructor(profiles: ScoringProfile[] = []) {
+    this.versions = profiles.map(profile => ({ profile, active: true, createdAt: new Date(0).toISOString(), createdBy: null }));
+  }
+
+  async loadActive(): Promise<ScoringProfile[]> {
+    return this.versions.filter(version => version.active).map(version => version.profile);
+  }
+
+  async loadHistory(slug: string): Promise<ScoringProfileVersion[]> {
+    return this.versions
+      .filter(version => version.profile.slug === slug)
+      .sort((a, b) => b.profile.version - a.profile.version);
+  }
+
+  async save(draft: ScoringProfileDraft, createdBy?: string): Promise<number> {
+    const history = await this.loadHistory(draft.slug);
+    const version = (history[0]?.profile.version ?? 0) + 1;
+    this.versions.push({
+      profile: { ...draft.config, slug: draft.slug, name: draft.name, description: draft.description ?? '', version },
+      active: false,
+      createdAt: new Date().toISOString(),
+      createdBy: createdBy ?? null
+    });
+    await this.activate(draft.slug, version);
+    return version;
+  }
+
+  async activate(slug: string, version: number): Promise<void> {
+    if (!this.versions.some(entry => entry.profile.slug === slug && entry.profile.version === version)) {
+      throw new Error(`Profile ${slug} has no version ${version}`);
+    }
+    this.versions.forEach(entry => {
+      if (entry.profile.slug === slug) entry.active = entry.profile.version === version;
+    });
+  }
+}
+
+export class ScoringProfileService {
+  private cache: { profiles: Promise<ScoringProfile[]>; loadedAt: number } | null = null;
+
+  constructor(private backend: ScoringProfileBackend) {}
+
+  /**
+   * Active profiles, built-ins included when they are not stored
+   */
+  async list(): Promise<ScoringProfile[]> {
+    const stored = await this.loadActive();
+    const slugs = new Set(stored.map(profile => profile.slug));
+    return [...stored, ...BUILTIN_SCORING_PROFILES.filter(profile => !slugs.has(profile.slug))];
+  }
+
+  /**
+   * Active version of a profile; falls back to the built-in profiles when the table is unreachable
+   */
+  async resolve(slug?: string): Promise<ScoringProfile> {
+    try {
+      return resolveScoringProfile(slug, await this.loadActive());
+    } catch (error) {
+      console.warn('⚠️ [ScoringProfiles] Loading profiles failed, using built-in profile:', error);
+      return resolveScoringProfile(slug);
+    }
+  }
+
+  history(slug: string): Promise<ScoringProfileVersion[]> {
+    return this.backend.loadHistory(slug);
+  }
+
+  async save(draft: ScoringProfileDraft, createdBy?: string): Promise<number> {
+    const version = await this.backend.save(draft, createdBy);
+    this.cache = null;
+    return version;
+  }
+
+  async activate(slug: string, version: number): Promise<void> {
+    await this.backend.activate(slug, version);
+    this.cache = null;
+  }
+
+  private loadActive(): Promise<ScoringProfile[]> {
+    if (!this.cache || Date.now() - this.cache.loadedAt > CACHE_TTL_MS) {
+      const profiles = this.backend.loadActive().catch(error => {
+        this.cache = null;
+        throw error;
+      });
+      this.cache = { profiles, loadedAt: Date.now() };
+    }
+    return this.cache.profiles;
+  }
+}
+
+/**
+ * Global instance
+ */
+export const scoringProfileService = new ScoringProfileService(new SupabaseScoringProfileBackend());
@@ -0,0 +1,254 @@
+/**
+ * Solution Comparison Service - loads the workflows and agents of a comparison URL
+ * Solutions are always reloaded by id so a shared link shows the same matrix as the
+ * picker it was created from. Workflows come from unified_workflows, agents from
+ * unified_agents with the bundled aiAgentsCatalog as fallback.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { simplifiedWorkflowIndexer } from '../workflowIndexerSimplified';
+import { AgentIndex, AgentSchemaMapper, UnifiedAgentRow } from '../schemas/agentIndex';
+import { UnifiedWorkflow } from '../schemas/unifiedWorkflow';
+import { AIAgent, aiAgentsCatalog } from '../solutions/aiAgentsCatalog';
+import { AgentSolution, Solution, SolutionCategory, SolutionRef, WorkflowSolution } from '../../types/solutions';
+import { calculateQualityPrior } from '../../../supabase/functions/_shared/scoring-profiles.ts';
+
+const SOLUTION_CATEGORIES: SolutionCategory[] = [
+  'HR & Recruitment',
+  'Finance & Accounting',
+  'Marketing & Sales',
+  'Customer Support',
+  'Data Analysis',
+  'Content Creation',
+  'Project Management',
+  'Development & DevOps',
+  'Research & Analysis',
+  'Communication',
+  'General Business'
+];
+
+const COMPLEXITY_LEVEL: Record<string, 'Low' | 'Medium' | 'High'> = {
+  Low: 'Low',
+  Easy: 'Low',
+  Medium: 'Medium',
+  High: 'High',
+  Hard: 'High'
+};
+
+export class SolutionComparisonService {
+  /**
+   * Solutions in the order of the refs; refs that no longer resolve are skipped
+   */
+  async loadSolutions(refs: SolutionRef[]): Promise<Solution[]> {
+    const solutions = await Promise.all(refs.map(ref =>
+      ref.type === 'workflow' ? this.loadWorkflow(ref.id) : this.loadAgent(ref.id)
+    ));
+    return solutions.filter((solution): solution is Solution => solution !== null);
+  }
+
+  private async loadWorkflow(id: string): Promise<WorkflowSolution | null> {
+    const workflow = await simplifiedWorkflowIndexer.getWorkflowById(id);
+    return workflow ? workflowToSolution(workflow) : null;
+  }
+
+  private async loadAgent(id: string): Promise<AgentSolution | null> {
+    const { data, error } = await supabase
+      .from('unified_agents')
+      .select('*')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) {
+      console.warn('⚠️ [SolutionComparison] Loading agent failed, using bundled catalog:', error.message);
+    }
+
+    // Persisted rows win over the bundled copy of a curated entry
+    if (data) return agentToSolution(AgentSchemaMapper.fromRow(data as UnifiedAgentRow));
+    const curated = aiAgentsCatalog.find(agent => agent.id === id);
+    return curated ? agentToSolution(AgentSchemaMapper.fromAIAgent(curated), curated) : null;
+  }
+}
+
+function toCategory(category?: string): SolutionCategory {
+  return SOLUTION_CATEGORIES.find(known => known === category) ?? 'General Business';
+}
+
+function workflowToSolution(workflow: UnifiedWorkflow): WorkflowSolution {
+  const level = COMPLEXITY_LEVEL[workflow.complexity] ?? 'Medium';
+  const difficulty = level === 'High' ? 'Advanced' : level === 'Low' ? 'Beginner' : 'Intermediate';
+  const integrations = workflow.integrations || [];
+  const credentials = workflow.credentialsRequired;
+  const rating = workflow.rating ?? 0;
+  // Stored match score when the indexer computed one, otherwise the default quality prior
+  const performanceScore = workflow.score?.overall ?? Math.round(calculateQualityPrior(workflow) * 100);
+
+  return {
+    id: workflow.id,
+    name: workflow.title,
+    description: workflow.summary || workflow.description || '',
+    type: 'workflow',
+    category: toCategory(workflow.category),
+    subcategories: workflow.category ? [workflow.category] : [],
+    difficulty,
+    setupTime: level === 'High' ? 'Long' : level === 'Low' ? 'Quick' : 'Medium',
+    deployment: 'Cloud',
+    status: workflow.active === false ? 'Inactive' : 'Active',
+    tags: workflow.tags || [],
+    automationPotential: 70,
+    estimatedROI: '—',
+    timeToValue: workflow.estimatedTime || '—',
+    implementationPriority: 'Medium',
+    createdAt: new Date(workflow.createdAt),
+    updatedAt: new Date(workflow.updatedAt || workflow.analyzedAt || workflow.createdAt),
+    version: workflow.version || '1.0.0',
+    author: workflow.author?.name || 'Community',
+    authorUsername: workflow.author?.username,
+    authorAvatarUrl: workflow.author?.avatar,
+    authorVerified: workflow.author?.verified,
+    documentationUrl: workflow.sourceUrl,
+    pricing: 'Free',
+    license: workflow.license,
+    credentialsRequired: credentials,
+    requirements: workflow.estimatedCost && workflow.estimatedCost !== '—'
+      ? [{ category: 'Setup', items: ['n8n instance'], importance: 'Required', estimatedCost: workflow.estimatedCost }]
+      : [],
+    useCases: [],
+    integrations: integrations.map(platform => ({
+      platform,
+      type: 'API',
+      description: '',
+      setupComplexity: 'Medium',
+      // Without node credentials we cannot tell, so nothing is claimed
+      apiKeyRequired: false
+    })),
+    metrics: {
+      usageCount: workflow.downloads ?? 0,
+      successRate: 0,
+      averageExecutionTime: 0,
+      errorRate: 0,
+      userRating: rating,
+      reviewCount: 0,
+      lastUsed: new Date(workflow.lastAccessed || workflow.createdAt),
+      performanceScore
+    },
+    workflow: {
+      id: workflow.id,
+      name: workflow.title,
+      description: workflow.description || '',
+      category: workflow.category || 'General',
+      difficulty: level === 'High' ? 'Hard' : level === 'Low' ? 'Easy' : 'Medium',
+      estimatedTime: workflow.estimatedTime || '—',
+      estimatedCost: workflow.estimatedCost || '—',
+      nodes: workflow.nodeCount ?? 0,
+      connections: workflow.connectionCount ?? 0,
+      downloads: workflow.downloads ?? 0,
+      rating,
+      createdAt: workflow.createdAt,
+      url: workflow.sourceUrl || '',
+      jsonUrl: workflow.jsonUrl || '',
+      active: workflow.active !== false,
+      triggerType: workflow.triggerType,
+      integrations,
+      author: workflow.author?.name
+    },
+    workflowMetadata: {
+      nodeCount: workflow.nodeCount ?? 0,
+      triggerType: workflow.triggerType,
+      executionTime: '—',
+      complexity: level === 'High' ? 'Complex' : level === 'Low' ? 'Simple' : 'Moderate',
+      dependencies: integrations,
+      estimatedExecutionTime: '—'
+    }
+  };
+}
+
+function agentToSolution(agent: AgentIndex, curated?: AIAgent): AgentSolution {
+  const updatedAt = new Date(agent.lastModified || agent.sourceCheckedAt || NaN);
+  const category = toCategory(agent.category);
+  const automationPotential = agent.automationPotential ?? 70;
+
+  return {
+    id: agent.id,
+    name: agent.title,
+    description: agent.summary,
+    type: 'agent',
+    category,
+    subcategories: agent.tags || [],
+    difficulty: agent.difficulty || 'Intermediate',
+    setupTime: agent.setupTime || 'Medium',
+    deployment: agent.deployment || 'Cloud',
+    status: agent.sourceHealth === 'unhealthy' ? 'Inactive' : 'Active',
+    tags: agent.tags || [],
+    automationPotential,
+    estimatedROI: '—',
+    timeToValue: '—',
+    implementationPriority: 'Medium',
+    createdAt: updatedAt,
+    updatedAt,
+    version: '1.0.0',
+    author: agent.author?.name || 'Community',
+    authorUsername: agent.author?.username,
+    authorAvatarUrl: agent.author?.avatar,
+    authorVerified: agent.author?.verified,
+    documentationUrl: agent.documentationUrl,
+    demoUrl: agent.demoUrl,
+    githubUrl: agent.githubUrl,
+    pricing: agent.pricing,
+    license: agent.license,
+    // Hosted models need an API key of their provider
+    credentialsRequired: agent.provider ? [`${agent.provider} API key`] : [],
+    requirements: agent.requirements && agent.requirements.length > 0
+      ? [{ category: 'Access', items: agent.requirements, importance: 'Required' }]
+      : [],
+    useCases: [],
+    integrations: agent.capabilities.map(capability => ({
+      platform: capability,
+      type: 'API',
+      description: '',
+      setupComplexity: 'Medium',
+      apiKeyRequired: false
+    })),
+    metrics: {
+      usageCount: agent.downloads ?? 0,
+      successRate: 0,
+      averageExecutionTime: 0,
+      errorRate: 0,
+      userRating: 0,
+      reviewCount: 0,
+      lastUsed: updatedAt,
+      performanceScore: 0
+    },
+    agent: curated ?? {
+      id: agent.id,
+      name: agent.title,
+      description: agent.summary,
+      category,
+      subcategories: agent.tags || [],
+      difficulty: agent.difficulty || 'Intermediate',
+      setupTime: agent.setupTime || 'Medium',
+      requirements: agent.requirements || [],
+      deployment: agent.deployment || 'Cloud',
+      githubUrl: agent.githubUrl,
+      demoUrl: agent.demoUrl,
+      documentationUrl: agent.documentationUrl,
+      tags: [...(agent.tags || []), ...agent.capabilities],
+      automationPotential,
+      useCases: agent.useCases || [],
+      pricing: agent.pricing
+    },
+    agentMetadata: {
+      model: agent.model || 'Unknown',
+      apiProvider: agent.provider || 'Unknown',
+      rateLimits: '—',
+      responseTime: '—',
+      accuracy: 0,
+      trainingData: '—',
+      lastTraining: updatedAt
+    }
+  };
+}
+
+/**
+ * Global instance
+ */
+export const solutionComparisonService = new SolutionComparisonService();
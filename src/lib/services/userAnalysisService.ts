@@ -0,0 +1,251 @@
+/**
+ * User Analysis Service - server-side analysis history for signed-in users
+ * Backed by the `user_analyses` table (RLS restricts rows to their owner).
+ * Renames, tag changes and analysis updates are appended to the row's edit history.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { AnalysisResult } from '@/lib/analysis/roiAggregator';
+import { deriveJobTitle, loadAnalysisHistory, loadStoredAnalysis } from '@/lib/analysisStorage';
+
+const TABLE = 'user_analyses';
+// Everything but the generated search_vector
+const COLUMNS = 'id,title,job_text,analysis,total_score,task_count,lang,tags,edit_history,local_id,created_at,updated_at';
+const IMPORT_FLAG_PREFIX = 'userAnalysesImported_';
+const DEFAULT_LIST_LIMIT = 50;
+
+export interface UserAnalysisEdit {
+  at: string;
+  field: 'title' | 'tags' | 'analysis';
+  from: unknown;
+  to: unknown;
+}
+
+export interface UserAnalysis {
+  id: string;
+  title: string;
+  jobText: string;
+  analysis: AnalysisResult;
+  totalScore: number;
+  taskCount: number;
+  lang: 'de' | 'en';
+  tags: string[];
+  editHistory: UserAnalysisEdit[];
+  localId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserAnalysisQuery {
+  /** Full-text search over title and job text (web search syntax, e.g. "exact phrase" -excluded) */
+  search?: string;
+  tag?: string;
+  limit?: number;
+}
+
+type UserAnalysisRow = {
+  id: string;
+  title: string;
+  job_text: string;
+  analysis: Json;
+  total_score: number;
+  task_count: number;
+  lang: string;
+  tags: string[];
+  edit_history: Json;
+  local_id: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+/**
+ * User Analysis Service
+ * CRUD, search and the one-time localStorage import for the account history
+ */
+export class UserAnalysisService {
+  /**
+   * Id of the signed-in user, null for anonymous visitors
+   */
+  async getUserId(): Promise<string | null> {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  }
+
+  /**
+   * Analyses of the signed-in user, most recent first
+   */
+  async list(query: UserAnalysisQuery = {}): Promise<UserAnalysis[]> {
+    let request = supabase
+      .from(TABLE)
+      .select(COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_LIST_LIMIT);
+
+    const search = query.search?.trim();
+    if (search) {
+      request = request.textSearch('search_vector', search, { config: 'simple', type: 'websearch' });
+    }
+    if (query.tag) {
+      request = request.contains('tags', [query.tag]);
+    }
+
+    const { data, error } = await request;
+    if (error) throw new Error(`Failed to load analyses: ${error.message}`);
+    return (data || []).map(fromRow);
+  }
+
+  /**
+   * Store a finished analysis; returns null when nobody is signed in
+   */
+  async save(analysis: AnalysisResult, jobText: string, lang: 'de' | 'en', title?: string): Promise<UserAnalysis | null> {
+    const userId = await this.getUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({ user_id: userId, lang, ...toRowFields(analysis, jobText, title) })
+      .select(COLUMNS)
+      .single();
+    if (error) throw new Error(`Failed to save analysis: ${error.message}`);
+    console.log(`☁️ [UserAnalysis] Saved analysis ${data.id}`);
+    return fromRow(data);
+  }
+
+  async rename(id: string, title: string): Promise<UserAnalysis> {
+    const trimmed = title.trim();
+    if (!trimmed) throw new Error('Title must not be empty');
+    return this.update(id, 'title', current => current.title, () => ({ title: trimmed }), trimmed);
+  }
+
+  async setTags(id: string, tags: string[]): Promise<UserAnalysis> {
+    const normalized = normalizeTags(tags);
+    return this.update(id, 'tags', current => current.tags, () => ({ tags: normalized }), normalized);
+  }
+
+  /**
+   * Replace the stored result, e.g. after re-running the analysis; the previous score is kept in the edit history
+   */
+  async updateAnalysis(id: string, analysis: AnalysisResult): Promise<UserAnalysis> {
+    return this.update(
+      id,
+      'analysis',
+      current => current.total_score,
+      () => ({
+        analysis: analysis as unknown as Json,
+        total_score: analysis.totalScore || 0,
+        task_count: analysis.tasks?.length || 0
+      }),
+      analysis.totalScore
+    );
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from(TABLE).delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete analysis: ${error.message}`);
+  }
+
+  hasImportedLocalHistory(userId: string): boolean {
+    return localStorage.getItem(IMPORT_FLAG_PREFIX + userId) === 'true';
+  }
+
+  /**
+   * Copy the browser's local history into the account once per user.
+   * Entries are keyed by their localStorage id, so an interrupted import can simply run again.
+   * Returns the number of imported analyses.
+   */
+  async importLocalHistory(): Promise<number> {
+    const userId = await this.getUserId();
+    if (!userId || this.hasImportedLocalHistory(userId)) return 0;
+
+    const rows = loadAnalysisHistory()
+      .filter(entry => !entry.id.startsWith('demo_'))
+      .map(entry => {
+        const analysis = loadStoredAnalysis(entry.id);
+        if (!analysis) return null;
+        return {
+          user_id: userId,
+          lang: entry.lang ?? summaryLang(analysis.summary),
+          local_id: entry.id,
+          created_at: new Date(entry.timestamp).toISOString(),
+          ...toRowFields(analysis, analysis.originalText || '', entry.jobTitle)
+        };
+      })
+      .filter((row): row is NonNullable<typeof row> => row !== null);
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from(TABLE)
+        .upsert(rows, { onConflict: 'user_id,local_id', ignoreDuplicates: true });
+      if (error) throw new Error(`Failed to import local history: ${error.message}`);
+    }
+
+    localStorage.setItem(IMPORT_FLAG_PREFIX + userId, 'true');
+    console.log(`📥 [UserAnalysis] Imported ${rows.length} local analyses`);
+    return rows.length;
+  }
+
+  private async update(
+    id: string,
+    field: UserAnalysisEdit['field'],
+    previous: (current: UserAnalysisRow) => unknown,
+    changes: () => Partial<UserAnalysisRow>,
+    next: unknown
+  ): Promise<UserAnalysis> {
+    const { data: current, error: loadError } = await supabase.from(TABLE).select(COLUMNS).eq('id', id).single();
+    if (loadError || !current) throw new Error(`Analysis ${id} not found`);
+
+    const edit: UserAnalysisEdit = { at: new Date().toISOString(), field, from: previous(current), to: next };
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update({ ...changes(), edit_history: [...asEdits(current.edit_history), edit] as unknown as Json })
+      .eq('id', id)
+      .select(COLUMNS)
+      .single();
+    if (error) throw new Error(`Failed to update analysis: ${error.message}`);
+    return fromRow(data);
+  }
+}
+
+function toRowFields(analysis: AnalysisResult, jobText: string, title?: string) {
+  return {
+    title: title?.trim() || deriveJobTitle(analysis, jobText),
+    job_text: jobText,
+    analysis: analysis as unknown as Json,
+    total_score: analysis.totalScore || 0,
+    task_count: analysis.tasks?.length || 0
+  };
+}
+
+function fromRow(row: UserAnalysisRow): UserAnalysis {
+  return {
+    id: row.id,
+    title: row.title,
+    jobText: row.job_text,
+    analysis: row.analysis as unknown as AnalysisResult,
+    totalScore: Number(row.total_score),
+    taskCount: row.task_count,
+    lang: row.lang === 'en' ? 'en' : 'de',
+    tags: row.tags || [],
+    editHistory: asEdits(row.edit_history),
+    localId: row.local_id,
+    createdAt: row.created_at || '',
+    updatedAt: row.updated_at || ''
+  };
+}
+
+// Older history entries carry no language; the generated summary tells it apart
+function summaryLang(summary?: string): 'de' | 'en' {
+  return /^(Analysis of|No specific tasks)/.test(summary || '') ? 'en' : 'de';
+}
+
+function asEdits(value: Json): UserAnalysisEdit[] {
+  return Array.isArray(value) ? (value as unknown as UserAnalysisEdit[]) : [];
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Export singleton instance
+export const userAnalysisService = new UserAnalysisService();
@@ -0,0 +1,61 @@
+/**
+ * Workflow Merge Review Service - admin queue of uncertain duplicate pairs
+ * Backed by the `dedup-workflows` edge function; decisions take effect on the next deduplication run.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type MergeDecision = 'merged' | 'separate';
+
+export interface MergeReviewWorkflow {
+  id: string;
+  title?: string;
+  source?: string;
+  sourceUrl?: string | null;
+  integrations?: string[];
+  nodeCount?: number | null;
+  popularity?: number | null;
+}
+
+export interface MergeReview {
+  id: string;
+  score: number;
+  graphSimilarity: number;
+  titleSimilarity: number;
+  createdAt: string;
+  left: MergeReviewWorkflow;
+  right: MergeReviewWorkflow;
+}
+
+export interface DedupRunResult {
+  workflows: number;
+  clusters: number;
+  duplicates: number;
+  changed: number;
+  pendingReviews: number;
+}
+
+const FUNCTION_NAME = 'dedup-workflows';
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body });
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.error || 'Deduplication request failed');
+  return data as T;
+}
+
+export const workflowMergeReviewService = {
+  async listPending(limit = 50): Promise<MergeReview[]> {
+    const { reviews } = await invoke<{ reviews: MergeReview[] }>({ action: 'reviews', limit });
+    return reviews;
+  },
+
+  async decide(reviewId: string, decision: MergeDecision, reviewedBy?: string): Promise<void> {
+    await invoke({ action: 'decide', reviewId, decision, reviewedBy });
+  },
+
+  /** Re-cluster the catalog, applying all decisions so far */
+  async runDeduplication(): Promise<DedupRunResult> {
+    return invoke<DedupRunResult>({});
+  }
+};
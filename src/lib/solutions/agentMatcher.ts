@@ -0,0 +1,289 @@
+/**
+ * Agent Matcher
+ * Maps a subtask's systems, verbs and domain to the capability tags of
+ * agent_capability_tags and ranks real catalog agents (unified_agents plus the
+ * curated aiAgentsCatalog) with AgentScoring under the requested scoring profile.
+ * Reports which required capabilities no agent covers, so callers only generate an
+ * agent when nothing fits.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { DynamicSubtask } from '../types';
+import { AgentIndex, AgentSchemaMapper, UnifiedAgentRow, detectDomains } from '../schemas/agentIndex';
+import { aiAgentsCatalog } from './aiAgentsCatalog';
+import { AgentScore, AgentScoring, createAgentScoring } from './agentScoring';
+import { ScoringProfileService, scoringProfileService } from '../services/scoringProfileService';
+import type { ScoringProfileRef } from '../../../supabase/functions/_shared/scoring-profiles.ts';
+
+/**
+ * Row of agent_capability_tags
+ */
+export interface CapabilityTag {
+  tag: string;
+  displayName: string;
+  description?: string;
+  category: string;
+  isCore: boolean;
+}
+
+export interface AgentMatch {
+  agent: AgentIndex;
+  score: AgentScore;
+  coveredCapabilities: string[];
+  missingCapabilities: string[];
+  coverage: number; // 0-1 share of the required capabilities
+  maintained: boolean;
+}
+
+export interface AgentMatchResult {
+  requiredCapabilities: CapabilityTag[];
+  domains: string[];
+  matches: AgentMatch[];
+  /** Best maintained agent meeting score and coverage thresholds */
+  bestMatch: AgentMatch | null;
+  /** Required capabilities no ranked agent covers */
+  uncoveredCapabilities: string[];
+  /** Scoring profile the matches were ranked with */
+  profile: ScoringProfileRef;
+}
+
+export interface AgentMatchOptions {
+  maxResults?: number;
+  minScore?: number; // AgentScore.overallScore
+  minCoverage?: number; // 0-1
+  now?: number;
+  profile?: string; // scoring profile slug, 'default' when omitted
+}
+
+/**
+ * Catalog backend; the Supabase one reads the tables, the in-memory one serves tests
+ */
+export interface AgentCatalogBackend {
+  loadCapabilityTags(): Promise<CapabilityTag[]>;
+  /** Active agents having at least one of the capabilities */
+  loadAgents(capabilities: string[]): Promise<AgentIndex[]>;
+}
+
+export const DEFAULT_AGENT_MATCH_SCORE = 60;
+export const DEFAULT_AGENT_MATCH_COVERAGE = 0.5;
+
+const MAINTENANCE_WINDOW_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Verbs and objects of subtask titles and descriptions (German and English analyses)
+const VERB_CAPABILITIES: Array<[string, RegExp]> = [
+  ['email_send', /\b(e-?mails?|mails?|mailen|versend\w*|newsletter\w*|posteingang|inbox)\b/],
+  ['web_search', /\b(recherch\w*|suchen|sucht|websuche|search\w*|research\w*)\b/],
+  ['data_analysis', /\b(analy\w*|auswert\w*|kennzahlen|kpis?)\b/],
+  ['file_io', /\b(dateien|datei|files?|dokumente?|documents?|pdfs?|ablage|ablegen|archivier\w*)\b/],
+  ['data_extraction', /\b(extrahier\w*|extract\w*|auslesen|erfass\w*|scrap\w*)\b/],
+  ['data_transformation', /\b(bereinig\w*|transformier\w*|konvertier\w*|clean\w*|transform\w*|convert\w*)\b/],
+  ['reporting', /\b(bericht\w*|report\w*)\b/],
+  ['document_generation', /\b(erstell\w*|schreib\w*|verfass\w*|draft\w*|writ(e|es|ing)|generat\w*)\b/],
+  ['calendar_management', /\b(termin\w*|kalender\w*|meetings?|calendar\w*|schedul\w*)\b/],
+  ['task_scheduling', /\b(aufgabenplanung|planung|planen|tasks?|to-?dos?)\b/],
+  ['notification_sending', /\b(benachrichtig\w*|erinner\w*|notif\w*|remind\w*|alert\w*)\b/],
+  ['content_summarization', /\b(zusammenfass\w*|summar\w*)\b/],
+  ['text_processing', /\b(klassifizier\w*|kategorisier\w*|classif\w*|categori[sz]\w*|sentiment)\b/],
+  ['language_translation', /(übersetz\w*|uebersetz\w*|\btranslat\w*)/],
+  ['monitoring', /(überwach\w*|ueberwach\w*|\bmonitor\w*|\btrack\w*)/],
+  ['forecasting', /\b(prognos\w*|vorhersag\w*|forecast\w*|predict\w*)\b/],
+  ['compliance_checking', /\b(compliance|richtlinie\w*|regulat\w*|dsgvo|gdpr)\b/],
+  ['chat_interaction', /\b(chat\w*|beantwort\w*|answer\w*|kundenanfragen)\b/],
+  ['data_visualization', /\b(dashboards?|diagramm\w*|charts?|visuali\w*)\b/],
+  ['database_query', /\b(datenbank\w*|databases?|sql|abfrag\w*|quer(y|ies))\b/],
+  ['code_generation', /\b(programmier\w*|code|coding|skript\w*|scripts?)\b/],
+  ['image_processing', /\b(bilder?|images?|fotos?|photos?)\b/]
+];
+
+// Systems named by the analysis, e.g. "Gmail", "Google Sheets", "Slack"
+const SYSTEM_CAPABILITIES: Array<[string, RegExp]> = [
+  ['email_send', /(gmail|outlook|e-?mail|mailchimp|sendgrid|smtp)/],
+  ['file_io', /(excel|sheets|csv|drive|dropbox|sharepoint|onedrive|pdf)/],
+  ['database_query', /(sql|postgres|mysql|mongo|datenbank|database|airtable|supabase)/],
+  ['notification_sending', /(slack|teams|telegram|whatsapp|discord|sms|twilio)/],
+  ['calendar_management', /(calendar|kalender|calendly)/],
+  ['data_visualization', /(power ?bi|tableau|looker|metabase)/],
+  ['chat_interaction', /(zendesk|intercom|freshdesk|chatbot)/]
+];
+
+/**
+ * Capability tags a subtask needs; only tags present in the taxonomy are returned
+ */
+export function deriveRequiredCapabilities(subtask: DynamicSubtask, taxonomy: CapabilityTag[]): CapabilityTag[] {
+  const byTag = new Map(taxonomy.map(tag => [tag.tag, tag]));
+  const text = [subtask.title, subtask.description].filter(Boolean).join(' ').toLowerCase();
+  const required = new Set<string>();
+
+  VERB_CAPABILITIES.forEach(([tag, pattern]) => {
+    if (pattern.test(text)) required.add(tag);
+  });
+  // Display names of the taxonomy itself ("data visualization", "web search")
+  taxonomy.forEach(tag => {
+    if (text.includes(tag.displayName.toLowerCase())) required.add(tag.tag);
+  });
+  (subtask.systems || []).forEach(system => {
+    const name = system.toLowerCase();
+    const rule = SYSTEM_CAPABILITIES.find(([, pattern]) => pattern.test(name));
+    // Any other named system has to be reached through its API
+    required.add(rule ? rule[0] : 'api_integration');
+  });
+
+  return [...required].filter(tag => byTag.has(tag)).map(tag => byTag.get(tag)!);
+}
+
+/**
+ * Maintained: the source was reachable at the last check and the agent changed within a year.
+ * Curated catalog entries are maintained in this repository.
+ */
+export function isMaintainedAgent(agent: AgentIndex, now: number = Date.now()): boolean {
+  if (agent.sourceHealth === 'unhealthy') return false;
+  if (agent.source === 'catalog') return true;
+  if (!agent.lastModified) return false;
+  return now - new Date(agent.lastModified).getTime() <= MAINTENANCE_WINDOW_MS;
+}
+
+/**
+ * Supabase backend: agent_capability_tags and unified_agents, merged with the curated catalog
+ */
+export class SupabaseAgentCatalogBackend implements AgentCatalogBackend {
+  async loadCapabilityTags(): Promise<CapabilityTag[]> {
+    const { data, error } = await supabase
+      .from('agent_capability_tags')
+      .select('*')
+      .order('display_order');
+    if (error) throw new Error(`Loading capability tags failed: ${error.message}`);
+    return (data || []).map(row => ({
+      tag: row.tag,
+      displayName: row.display_name,
+      description: row.description ?? undefined,
+      category: row.category,
+      isCore: row.is_core === true
+    }));
+  }
+
+  async loadAgents(capabilities: string[]): Promise<AgentIndex[]> {
+    if (capabilities.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('unified_agents')
+      .select('*')
+      .eq('active', true)
+      .is('deleted_at', null)
+      .overlaps('capabilities', capabilities)
+      .limit(200);
+    if (error) throw new Error(`Loading agents failed: ${error.message}`);
+
+    // Persisted rows win over the bundled copy of a curated entry
+    const persisted = (data || []).map(row => AgentSchemaMapper.fromRow(row as UnifiedAgentRow));
+    const ids = new Set(persisted.map(agent => agent.id));
+    const curated = aiAgentsCatalog.map(agent => AgentSchemaMapper.fromAIAgent(agent));
+    return [
+      ...persisted,
+      ...curated.filter(agent => !ids.has(agent.id) && agent.capabilities.some(tag => capabilities.includes(tag)))
+    ];
+  }
+}
+
+/**
+ * In-memory backend over a fixed taxonomy and agent list
+ */
+export class InMemoryAgentCatalogBackend implements AgentCatalogBackend {
+  constructor(private tags: CapabilityTag[], private agents: AgentIndex[]) {}
+
+  async loadCapabilityTags(): Promise<CapabilityTag[]> {
+    return this.tags;
+  }
+
+  async loadAgents(capabilities: string[]): Promise<AgentIndex[]> {
+    return this.agents.filter(agent => agent.capabilities.some(tag => capabilities.includes(tag)));
+  }
+}
+
+export class AgentMatcher {
+  private taxonomy: Promise<CapabilityTag[]> | null = null;
+  private scorings = new Map<string, AgentScoring>();
+
+  constructor(
+    private backend: AgentCatalogBackend,
+    private profiles: ScoringProfileService = scoringProfileService
+  ) {}
+
+  /**
+   * Rank catalog agents for a subtask
+   */
+  async matchSubtask(subtask: DynamicSubtask, options: AgentMatchOptions = {}): Promise<AgentMatchResult> {
+    const {
+      maxResults = 3,
+      minScore = DEFAULT_AGENT_MATCH_SCORE,
+      minCoverage = DEFAULT_AGENT_MATCH_COVERAGE,
+      now = Date.now()
+    } = options;
+
+    const required = deriveRequiredCapabilities(subtask, await this.loadTaxonomy());
+    const requiredTags = required.map(tag => tag.tag);
+    const domains = detectDomains(subtask.systems || [], [subtask.title, subtask.description]);
+    const scoring = await this.loadScoring(options.profile);
+    const profile = scoring.getProfile();
+    if (requiredTags.length === 0) {
+      return { requiredCapabilities: [], domains, matches: [], bestMatch: null, uncoveredCapabilities: [], profile };
+    }
+
+    const knownDomains = domains.filter(domain => domain !== 'Other');
+    const agents = await this.backend.loadAgents(requiredTags);
+    const matches = agents
+      .filter(agent => scoring.isEligible(agent))
+      .map((agent): AgentMatch => {
+        const covered = requiredTags.filter(tag => agent.capabilities.includes(tag));
+        return {
+          agent,
+          score: scoring.calculateAgentScore(agent, {
+            userQuery: subtask.title,
+            requiredCapabilities: requiredTags,
+            businessDomain: knownDomains[0],
+            preferredDomains: knownDomains.length > 0 ? knownDomains : undefined
+          }),
+          coveredCapabilities: covered,
+          missingCapabilities: requiredTags.filter(tag => !covered.includes(tag)),
+          coverage: covered.length / requiredTags.length,
+          maintained: isMaintainedAgent(agent, now)
+        };
+      })
+      .sort((a, b) =>
+        Number(b.maintained) - Number(a.maintained) ||
+        b.score.overallScore - a.score.overallScore ||
+        b.coverage - a.coverage
+      )
+      .slice(0, maxResults);
+
+    const bestMatch = matches.find(match =>
+      match.maintained && match.score.overallScore >= minScore && match.coverage >= minCoverage
+    ) || null;
+    const uncovered = requiredTags.filter(tag => !matches.some(match => match.coveredCapabilities.includes(tag)));
+
+    return { requiredCapabilities: required, domains, matches, bestMatch, uncoveredCapabilities: uncovered, profile };
+  }
+
+  // One scorer per profile version; an edited profile gets a new version and thus a new scorer
+  private async loadScoring(slug?: string): Promise<AgentScoring> {
+    const profile = await this.profiles.resolve(slug);
+    const key = `${profile.slug}@${profile.version}`;
+    if (!this.scorings.has(key)) this.scorings.set(key, createAgentScoring(undefined, profile));
+    return this.scorings.get(key)!;
+  }
+
+  // The taxonomy changes rarely; load it once per matcher
+  private loadTaxonomy(): Promise<CapabilityTag[]> {
+    if (!this.taxonomy) {
+      this.taxonomy = this.backend.loadCapabilityTags().catch(error => {
+        this.taxonomy = null;
+        throw error;
+      });
+    }
+    return this.taxonomy;
+  }
+}
+
+/**
+ * Global instance
+ */
+export const agentMatcher = new AgentMatcher(new SupabaseAgentCatalogBackend());
@@ -1,4 +1,12 @@
 import { AgentIndex } from '../schemas/agentIndex';
+import {
+  AgentProfileConfig,
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfile,
+  ScoringProfileRef,
+  isOpenSourceLicense,
+  profileRef
+} from '../../../supabase/functions/_shared/scoring-profiles.ts';
 
 export type AgentTier = 'Generalist' | 'Specialist' | 'Experimental';
 
@@ -12,6 +20,7 @@ export interface AgentScore {
   reasoning: string[];
   confidence: number; // 0-100
   disclaimer: string;
+  profile: ScoringProfileRef; // scoring profile that produced the score
 }
 
 export interface AgentScoreBreakdown {
@@ -34,68 +43,44 @@ export interface AgentScoringContext {
   reliabilityPreference?: 'High' | 'Medium' | 'Low';
 }
 
-export interface AgentScoringCriteria {
-  tierThresholds: {
-    generalist: number; // Score threshold for Generalist tier
-    specialist: number; // Score threshold for Specialist tier
-    experimental: number; // Score threshold for Experimental tier
-  };
-  weights: {
-    capabilityCoverage: number;
-    domainAlignment: number;
-    capabilityDepth: number;
-    domainBreadth: number;
-    dataQuality: number;
-    modelQuality: number;
-    providerReliability: number;
-  };
-  boostFactors: {
-    coreCapabilities: number;
-    multipleDomains: number;
-    highQualityModel: number;
-    reliableProvider: number;
-    comprehensiveData: number;
-  };
-}
+// Weights, thresholds and boosts of a scoring profile (supabase/functions/_shared/scoring-profiles.ts)
+export type AgentScoringCriteria = Pick<AgentProfileConfig, 'tierThresholds' | 'weights' | 'boostFactors'>;
 
 export class AgentScoring {
-  private defaultCriteria: AgentScoringCriteria = {
-    tierThresholds: {
-      generalist: 85, // Very high capability + domain coverage
-      specialist: 70, // Good capability + domain coverage
-      experimental: 50 // Lower capability + domain coverage
-    },
-    weights: {
-      capabilityCoverage: 0.25,
-      domainAlignment: 0.20,
-      capabilityDepth: 0.15,
-      domainBreadth: 0.10,
-      dataQuality: 0.15,
-      modelQuality: 0.10,
-      providerReliability: 0.05
-    },
-    boostFactors: {
-      coreCapabilities: 1.2,
-      multipleDomains: 1.15,
-      highQualityModel: 1.1,
-      reliableProvider: 1.1,
-      comprehensiveData: 1.05
-    }
-  };
+  private defaultCriteria: AgentScoringCriteria;
 
   // Core capabilities that indicate high-quality agents
-  private coreCapabilities = ['web_search', 'data_analysis', 'file_io', 'email_send'];
+  private coreCapabilities: string[];
   
   // High-quality models
-  private highQualityModels = ['gpt-4', 'gpt-4-turbo', 'claude-3-opus', 'claude-3-sonnet', 'gemini-pro'];
+  private highQualityModels: string[];
   
   // Reliable providers
-  private reliableProviders = ['openai', 'anthropic', 'google', 'microsoft'];
+  private reliableProviders: string[];
+
+  constructor(
+    private customCriteria?: Partial<AgentScoringCriteria>,
+    private profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ) {
+    const { tierThresholds, weights, boostFactors } = profile.agent;
+    this.defaultCriteria = { tierThresholds, weights, boostFactors, ...customCriteria };
+    this.coreCapabilities = profile.agent.coreCapabilities;
+    this.highQualityModels = profile.agent.highQualityModels.map(model => model.toLowerCase());
+    this.reliableProviders = profile.agent.reliableProviders.map(provider => provider.toLowerCase());
+  }
 
-  constructor(private customCriteria?: Partial<AgentScoringCriteria>) {
-    if (customCriteria) {
-      this.defaultCriteria = { ...this.defaultCriteria, ...customCriteria };
-    }
+  getProfile(): ScoringProfileRef {
+    return profileRef(this.profile);
+  }
+
+  /**
+   * Whether the profile admits the agent at all (license and provider restrictions)
+   */
+  isEligible(agent: AgentIndex): boolean {
+    const { openSourceOnly, excludedProviders } = this.profile.agent;
+    if (openSourceOnly && !isOpenSourceLicense(agent.license)) return false;
+    const provider = (agent.provider || '').toLowerCase();
+    return !excludedProviders.some(excluded => excluded.toLowerCase() === provider);
   }
 
   /**
@@ -152,7 +137,8 @@ export class AgentScoring {
       scoreBreakdown: breakdown,
       reasoning,
       confidence,
-      disclaimer
+      disclaimer,
+      profile: this.getProfile()
     };
   }
 
@@ -246,7 +232,7 @@ export class AgentScoring {
         score += 50;
       } else {
         // Check for related domains
-        const relatedDomains = this.getRelatedDomains(domain);
+        const relatedDomains = this.getRelatedDomains(domain).map(rel => rel.toLowerCase());
         const relatedMatches = domains.filter(d => 
           relatedDomains.some(rel => 
             d.toLowerCase().includes(rel) || rel.includes(d.toLowerCase())
@@ -327,6 +313,11 @@ export class AgentScoring {
       boostMultiplier *= boostFactors.comprehensiveData;
     }
 
+    // Quick setup boost
+    if (agent.setupTime === 'Quick' && agent.difficulty === 'Beginner') {
+      boostMultiplier *= boostFactors.quickSetup;
+    }
+
     return Math.min(Math.round(baseScore * boostMultiplier), 100);
   }
 
@@ -584,8 +575,8 @@ export class AgentScoring {
 }
 
 // Factory function to create agent scorer
-export const createAgentScoring = (criteria?: Partial<AgentScoringCriteria>): AgentScoring => {
-  return new AgentScoring(criteria);
+export const createAgentScoring = (criteria?: Partial<AgentScoringCriteria>, profile?: ScoringProfile): AgentScoring => {
+  return new AgentScoring(criteria, profile);
 };
 
 // Default scorer instance
@@ -0,0 +1,253 @@
+/**
+ * Solution Comparison
+ * Builds the side-by-side matrix for 2-4 workflows/agents: one row per compared field,
+ * each cell rated 0-1 so the best value per row can be highlighted, plus a "best for"
+ * summary. The selection is encoded in ?items= so a comparison can be shared.
+ */
+
+import {
+  AgentSolution,
+  Solution,
+  SolutionBestFor,
+  SolutionBestForReason,
+  SolutionComparison,
+  SolutionComparisonCell,
+  SolutionComparisonField,
+  SolutionComparisonRow,
+  SolutionRef
+} from '../../types/solutions';
+import { AgentSchemaMapper } from '../schemas/agentIndex';
+import { createAgentScoring } from './agentScoring';
+import { t } from '../i18n/i18n';
+import { isOpenSourceLicense } from '../../../supabase/functions/_shared/scoring-profiles.ts';
+
+export const MIN_COMPARED_SOLUTIONS = 2;
+export const MAX_COMPARED_SOLUTIONS = 4;
+
+export const COMPARISON_FIELDS: SolutionComparisonField[] = [
+  'integrations',
+  'setupTime',
+  'complexity',
+  'cost',
+  'license',
+  'maintenance',
+  'credentials',
+  'score'
+];
+
+// Rows that feed the "best for" summary; complexity is covered by setup time
+const BEST_FOR_REASONS: Partial<Record<SolutionComparisonField, SolutionBestForReason>> = {
+  setupTime: 'quickest_setup',
+  cost: 'lowest_cost',
+  integrations: 'most_integrations',
+  credentials: 'fewest_credentials',
+  license: 'open_license',
+  maintenance: 'best_maintained',
+  score: 'highest_score'
+};
+
+const SETUP_TIME_RATING: Record<string, number> = { Quick: 1, Medium: 0.5, Long: 0 };
+const DIFFICULTY_RATING: Record<string, number> = { Beginner: 1, Intermediate: 0.5, Advanced: 0 };
+const PRICING_RATING: Record<string, number> = { Free: 1, Freemium: 0.75, Paid: 0.4, Enterprise: 0.2 };
+
+// Maintenance rating halves every half year without an update
+const MAINTENANCE_HALF_LIFE_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SOLUTION_TYPES = new Set<string>(['workflow', 'agent']);
+
+type CellData = Pick<SolutionComparisonCell, 'value' | 'detail' | 'rating'>;
+
+/**
+ * Compare 2-4 solutions field by field
+ */
+export function buildSolutionComparison(
+  solutions: Solution[],
+  lang: 'de' | 'en' = 'de',
+  now: number = Date.now()
+): SolutionComparison {
+  if (solutions.length < MIN_COMPARED_SOLUTIONS || solutions.length > MAX_COMPARED_SOLUTIONS) {
+    throw new Error(`A comparison needs ${MIN_COMPARED_SOLUTIONS}-${MAX_COMPARED_SOLUTIONS} solutions, got ${solutions.length}`);
+  }
+
+  const integrationCounts = solutions.map(solution => solution.integrations.length);
+  const maxIntegrations = Math.max(...integrationCounts);
+
+  const cellData: Record<SolutionComparisonField, (solution: Solution) => CellData> = {
+    integrations: solution => ({
+      value: solution.integrations.map(integration => integration.platform),
+      rating: maxIntegrations > 0 ? solution.integrations.length / maxIntegrations : null
+    }),
+    setupTime: solution => ({
+      value: solution.setupTime,
+      rating: SETUP_TIME_RATING[solution.setupTime] ?? null
+    }),
+    complexity: solution => ({
+      value: solution.type === 'workflow' ? solution.workflowMetadata.complexity : solution.difficulty,
+      rating: DIFFICULTY_RATING[solution.difficulty] ?? null
+    }),
+    cost: costCell,
+    license: licenseCell,
+    maintenance: solution => maintenanceCell(solution, now),
+    credentials: solution => {
+      const credentials = requiredCredentials(solution);
+      return { value: credentials, rating: 1 / (1 + credentials.length) };
+    },
+    score: scoreCell
+  };
+
+  const differences = {} as Record<SolutionComparisonField, SolutionComparisonRow>;
+  COMPARISON_FIELDS.forEach(field => {
+    const data = solutions.map(solution => ({ solutionId: solution.id, ...cellData[field](solution) }));
+    differences[field] = markBest(field, data);
+  });
+
+  const bestFor = solutions.map(solution => ({
+    solutionId: solution.id,
+    reasons: COMPARISON_FIELDS
+      .filter(field => BEST_FOR_REASONS[field] && differences[field].cells.some(cell => cell.solutionId === solution.id && cell.best))
+      .map(field => BEST_FOR_REASONS[field]!)
+  }));
+
+  return {
+    solutions,
+    comparisonFields: COMPARISON_FIELDS,
+    differences,
+    recommendations: describeBestFor(solutions, bestFor, lang),
+    bestFor
+  };
+}
+
+/**
+ * Solutions selected in ?items=; duplicates and malformed entries are dropped
+ */
+export function parseSolutionRefs(param: string | null | undefined): SolutionRef[] {
+  const refs: SolutionRef[] = [];
+  (param || '').split(',').forEach(item => {
+    const separator = item.indexOf(':');
+    if (separator < 0) return;
+    const type = item.slice(0, separator);
+    let id: string;
+    try {
+      id = decodeURIComponent(item.slice(separator + 1));
+    } catch {
+      return;
+    }
+    if (!SOLUTION_TYPES.has(type) || !id) return;
+    if (refs.some(ref => ref.type === type && ref.id === id)) return;
+    refs.push({ type: type as SolutionRef['type'], id });
+  });
+  return refs.slice(0, MAX_COMPARED_SOLUTIONS);
+}
+
+export function formatSolutionRefs(refs: SolutionRef[]): string {
+  return refs.map(ref => `${ref.type}:${encodeURIComponent(ref.id)}`).join(',');
+}
+
+/**
+ * Shareable path of the comparison page, e.g. /compare-solutions?items=workflow:42,agent:hr-bot&lang=en
+ */
+export function solutionComparisonPath(refs: SolutionRef[], lang: 'de' | 'en'): string {
+  const params = new URLSearchParams({ items: formatSolutionRefs(refs), lang });
+  return `/compare-solutions?${params.toString()}`;
+}
+
+function costCell(solution: Solution): CellData {
+  const estimates = solution.requirements
+    .map(requirement => requirement.estimatedCost)
+    .filter((cost): cost is string => !!cost);
+  const label = [solution.pricing, ...estimates].filter(Boolean).join(' · ');
+  return {
+    value: label || null,
+    rating: solution.pricing ? PRICING_RATING[solution.pricing] ?? null : null
+  };
+}
+
+function licenseCell(solution: Solution): CellData {
+  const license = solution.license && solution.license !== 'Unknown' ? solution.license : null;
+  return {
+    value: license,
+    rating: license ? (isOpenSourceLicense(license) ? 1 : 0.25) : null
+  };
+}
+
+function maintenanceCell(solution: Solution, now: number): CellData {
+  const updated = new Date(solution.updatedAt).getTime();
+  if (Number.isNaN(updated)) {
+    return { value: null, rating: solution.status === 'Deprecated' ? 0 : null };
+  }
+
+  const daysSinceUpdate = Math.max(0, Math.floor((now - updated) / DAY_MS));
+  let rating = Math.pow(0.5, daysSinceUpdate / MAINTENANCE_HALF_LIFE_DAYS);
+  if (solution.status === 'Deprecated') rating = 0;
+  if (solution.status === 'Inactive') rating *= 0.5;
+
+  return {
+    value: new Date(updated).toISOString().slice(0, 10),
+    detail: { daysSinceUpdate },
+    rating
+  };
+}
+
+// Declared credential types, otherwise the integrations that need an API key
+function requiredCredentials(solution: Solution): string[] {
+  if (solution.credentialsRequired) return [...new Set(solution.credentialsRequired)];
+  return [...new Set(solution.integrations.filter(integration => integration.apiKeyRequired).map(integration => integration.platform))];
+}
+
+function scoreCell(solution: Solution): CellData {
+  if (solution.type === 'agent') {
+    const score = createAgentScoring().calculateAgentScore(toAgentIndex(solution));
+    const detail: Record<string, number> = {};
+    Object.entries(score.scoreBreakdown).forEach(([key, value]) => {
+      detail[key] = Math.round(value);
+    });
+    return { value: score.overallScore, detail, rating: score.overallScore / 100 };
+  }
+
+  const { performanceScore, userRating } = solution.metrics;
+  return {
+    value: performanceScore,
+    detail: {
+      performanceScore: Math.round(performanceScore),
+      userRating: Math.round(userRating * 20)
+    },
+    rating: performanceScore / 100
+  };
+}
+
+function toAgentIndex(solution: AgentSolution) {
+  const { model, apiProvider } = solution.agentMetadata;
+  const base = AgentSchemaMapper.fromAIAgent(solution.agent);
+  return {
+    ...base,
+    model: model && model !== 'Unknown' ? model : base.model,
+    provider: apiProvider && apiProvider !== 'Unknown' ? apiProvider : base.provider,
+    license: solution.license || base.license,
+    pricing: solution.pricing ?? base.pricing
+  };
+}
+
+// Best cells are the top-rated ones, and only when the row tells the solutions apart
+function markBest(field: SolutionComparisonField, data: Array<Omit<SolutionComparisonCell, 'best'>>): SolutionComparisonRow {
+  const ratings = data.map(cell => cell.rating).filter((rating): rating is number => rating !== null);
+  const top = ratings.length > 0 ? Math.max(...ratings) : null;
+  const ratingsDiffer = ratings.length > 1 && ratings.some(rating => rating !== top);
+  const values = data.map(cell => JSON.stringify(cell.value));
+
+  return {
+    field,
+    differs: values.some(value => value !== values[0]),
+    cells: data.map(cell => ({ ...cell, best: ratingsDiffer && cell.rating === top }))
+  };
+}
+
+function describeBestFor(solutions: Solution[], bestFor: SolutionBestFor[], lang: 'de' | 'en'): string[] {
+  return bestFor
+    .filter(entry => entry.reasons.length > 0)
+    .map(entry => {
+      const name = solutions.find(solution => solution.id === entry.solutionId)?.name ?? entry.solutionId;
+      const reasons = entry.reasons.map(reason => t(lang, `solution_compare_best_${reason}`)).join(', ');
+      return `${name}: ${t(lang, 'solution_compare_best_for')} ${reasons}`;
+    });
+}
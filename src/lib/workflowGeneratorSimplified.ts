@@ -15,6 +15,7 @@ import {
   WorkflowGenerationOptions
 } from './interfaces/workflowGenerator';
 import { workflowCache } from './services/simpleCache';
+import { validateN8nWorkflow, withValidationStatus } from './workflowValidator';
 import { getFeatureToggleManager, isUnifiedWorkflowGeneratorEnabled } from './featureToggle';
 
 /**
@@ -62,9 +63,11 @@ export async function generateWorkflow(
     // Generate workflow using OpenAI directly (simplified approach)
     if (isUnifiedWorkflowGeneratorEnabled()) {
       try {
-        const workflow = await generateAIWorkflow(request);
+        const generated = await generateAIWorkflow(request);
         
-        if (workflow) {
+        if (generated) {
+          const workflow = withValidationStatus(generated, { strict: true });
+
           // Cache the result
           if (options.useCache !== false) {
             const cacheKey = generateCacheKey(request);
@@ -87,9 +90,11 @@ export async function generateWorkflow(
     }
 
     // Fallback to simple generation
-    const workflow = await generateSimpleWorkflow(request);
+    const generated = await generateSimpleWorkflow(request);
     
-    if (workflow) {
+    if (generated) {
+      const workflow = withValidationStatus(generated, { strict: true });
+
       // Cache the result
       if (options.useCache !== false) {
         const cacheKey = generateCacheKey(request);
@@ -321,6 +326,19 @@ export async function generateWorkflowFast(
 
   // Convert UnifiedWorkflow to legacy GeneratedBlueprint format
   if (result.workflow) {
+    const n8nWorkflow = {
+      name: result.workflow.title,
+      nodes: result.workflow.nodes,
+      connections: result.workflow.connections,
+      active: result.workflow.active,
+      settings: {},
+      versionId: '1.0.0'
+    };
+    const validation = validateN8nWorkflow(n8nWorkflow, { strict: true });
+    if (validation.status === 'invalid') {
+      console.warn(`⚠️ [WorkflowGeneratorSimplified] Generated workflow "${result.workflow.title}" is invalid:`, validation.diagnostics);
+    }
+
     return {
       id: result.workflow.id,
       name: result.workflow.title,
@@ -341,15 +359,9 @@ export async function generateWorkflowFast(
         cacheKey: `simplified_${subtask.id}_${lang}_${variation}`
       },
       setupCost: 100,
-      validationStatus: 'valid',
-      n8nWorkflow: {
-        name: result.workflow.title,
-        nodes: result.workflow.nodes,
-        connections: result.workflow.connections,
-        active: result.workflow.active,
-        settings: {},
-        versionId: '1.0.0'
-      }
+      validationStatus: validation.status,
+      validationDiagnostics: validation.diagnostics,
+      n8nWorkflow
     };
   }
 
@@ -0,0 +1,194 @@
+/**
+ * Workflow Graph Layout
+ * Positions the nodes of an n8n workflow from its `connections` (not the stored
+ * canvas positions, which AI-generated drafts do not have): layers follow the main
+ * data flow from the triggers, AI sub-nodes (models, tools, memory) sit in the
+ * column of the agent they feed. Parameters are redacted like in the n8n export.
+ */
+
+import {
+  integrationName,
+  isTriggerNode,
+  shortNodeType
+} from '../../supabase/functions/_shared/n8n-workflow-metadata.ts';
+import { RemovedSecret, sanitizeN8nWorkflow, unwrapN8nWorkflow } from './export/n8nWorkflowExport';
+
+export const GRAPH_NODE_WIDTH = 184;
+export const GRAPH_NODE_HEIGHT = 56;
+export const GRAPH_LAYER_GAP = 72;
+export const GRAPH_ROW_GAP = 28;
+export const GRAPH_PADDING = 24;
+
+export interface WorkflowGraphNode {
+  name: string;
+  type: string;
+  /** Integration name for icons, e.g. "Google Sheets"; null for core nodes */
+  integration: string | null;
+  isTrigger: boolean;
+  /** Model, tool or memory attached to an AI agent */
+  isSubNode: boolean;
+  disabled: boolean;
+  typeVersion: number;
+  /** Parameters with hardcoded secrets blanked */
+  parameters: Record<string, unknown>;
+  layer: number;
+  row: number;
+  x: number;
+  y: number;
+}
+
+export interface WorkflowGraphEdge {
+  from: string;
+  to: string;
+  /** Connection type: "main" or an AI port such as "ai_languageModel" */
+  kind: string;
+  outputIndex: number;
+  inputIndex: number;
+}
+
+export interface WorkflowGraphLayout {
+  nodes: WorkflowGraphNode[];
+  edges: WorkflowGraphEdge[];
+  width: number;
+  height: number;
+  redactedSecrets: RemovedSecret[];
+}
+
+const EMPTY_LAYOUT: WorkflowGraphLayout = { nodes: [], edges: [], width: 0, height: 0, redactedSecrets: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function collectEdges(connections: Record<string, unknown>, names: Set<string>): WorkflowGraphEdge[] {
+  const edges: WorkflowGraphEdge[] = [];
+  Object.entries(connections).forEach(([from, ports]) => {
+    if (!names.has(from) || !isRecord(ports)) return;
+    Object.entries(ports).forEach(([kind, outputs]) => {
+      (Array.isArray(outputs) ? outputs : []).forEach((targets, outputIndex) => {
+        (Array.isArray(targets) ? targets : []).forEach(target => {
+          if (!isRecord(target) || !names.has(String(target.node))) return;
+          edges.push({ from, to: String(target.node), kind, outputIndex, inputIndex: Number(target.index) || 0 });
+        });
+      });
+    });
+  });
+  return edges;
+}
+
+/**
+ * Longest-path layer per node over main edges; edges closing a cycle are ignored
+ */
+function assignLayers(names: string[], edges: WorkflowGraphEdge[], roots: string[]): Map<string, number> {
+  const successors = new Map<string, string[]>(names.map(name => [name, []]));
+  edges.forEach(edge => successors.get(edge.from)!.push(edge.to));
+
+  // DFS from the roots (then from anything left over) to drop back edges
+  const acyclic = new Map<string, string[]>(names.map(name => [name, []]));
+  const state = new Map<string, 'active' | 'done'>();
+  const visit = (name: string) => {
+    state.set(name, 'active');
+    successors.get(name)!.forEach(next => {
+      if (state.get(next) === 'active') return;
+      acyclic.get(name)!.push(next);
+      if (!state.has(next)) visit(next);
+    });
+    state.set(name, 'done');
+  };
+  [...roots, ...names].forEach(name => {
+    if (!state.has(name)) visit(name);
+  });
+
+  const layers = new Map<string, number>(names.map(name => [name, 0]));
+  const incoming = new Map<string, number>(names.map(name => [name, 0]));
+  acyclic.forEach(targets => targets.forEach(target => incoming.set(target, incoming.get(target)! + 1)));
+  const queue = names.filter(name => incoming.get(name) === 0);
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    acyclic.get(name)!.forEach(next => {
+      layers.set(next, Math.max(layers.get(next)!, layers.get(name)! + 1));
+      incoming.set(next, incoming.get(next)! - 1);
+      if (incoming.get(next) === 0) queue.push(next);
+    });
+  }
+  return layers;
+}
+
+/**
+ * Lay out an n8n workflow document; anything without a nodes array yields an empty graph
+ */
+export function layoutWorkflowGraph(document: unknown, name = 'Workflow'): WorkflowGraphLayout {
+  const raw = unwrapN8nWorkflow(document);
+  if (!raw) return EMPTY_LAYOUT;
+
+  const { workflow, removedSecrets } = sanitizeN8nWorkflow(raw, name);
+  const nodes = workflow.nodes.filter(node => shortNodeType(node.type) !== 'stickyNote');
+  const names = new Set(nodes.map(node => node.name));
+  const edges = collectEdges(workflow.connections, names);
+  const mainEdges = edges.filter(edge => edge.kind === 'main');
+
+  // Sub-nodes only feed AI ports and take no part in the main flow
+  const inMainFlow = new Set(mainEdges.flatMap(edge => [edge.from, edge.to]));
+  const subNodeTarget = new Map<string, string>();
+  edges.forEach(edge => {
+    if (edge.kind !== 'main' && !inMainFlow.has(edge.from) && !subNodeTarget.has(edge.from)) {
+      subNodeTarget.set(edge.from, edge.to);
+    }
+  });
+
+  const flowNames = nodes.map(node => node.name).filter(nodeName => !subNodeTarget.has(nodeName));
+  const hasIncoming = new Set(mainEdges.map(edge => edge.to));
+  const roots = flowNames.filter(nodeName => !hasIncoming.has(nodeName));
+  const layers = assignLayers(flowNames, mainEdges, roots);
+  subNodeTarget.forEach((target, subNode) => {
+    // Chains of sub-nodes (a tool with its own model) resolve to the agent's column
+    let agent = target;
+    for (let hops = 0; subNodeTarget.has(agent) && hops < nodes.length; hops++) agent = subNodeTarget.get(agent)!;
+    layers.set(subNode, layers.get(agent) ?? 0);
+  });
+
+  // Order rows by the position of the predecessors, so branches do not cross
+  const order = new Map(nodes.map((node, index) => [node.name, index]));
+  const rows = new Map<string, number>();
+  const layerCount = Math.max(0, ...layers.values()) + 1;
+  const columns: string[][] = [];
+  for (let layer = 0; layer < layerCount; layer++) {
+    const column = nodes.map(node => node.name).filter(nodeName => layers.get(nodeName) === layer);
+    const weight = (nodeName: string) => {
+      if (subNodeTarget.has(nodeName)) return Number.MAX_SAFE_INTEGER;
+      const predecessors = mainEdges.filter(edge => edge.to === nodeName && rows.has(edge.from));
+      if (predecessors.length === 0) return order.get(nodeName)! / nodes.length;
+      return predecessors.reduce((sum, edge) => sum + rows.get(edge.from)! + edge.outputIndex * 0.1, 0) / predecessors.length;
+    };
+    const weights = new Map(column.map(nodeName => [nodeName, weight(nodeName)]));
+    column.sort((a, b) => weights.get(a)! - weights.get(b)! || order.get(a)! - order.get(b)!);
+    column.forEach((nodeName, row) => rows.set(nodeName, row));
+    columns.push(column);
+  }
+
+  const tallest = Math.max(...columns.map(column => column.length));
+  const columnHeight = (count: number) => count * GRAPH_NODE_HEIGHT + Math.max(0, count - 1) * GRAPH_ROW_GAP;
+  const height = columnHeight(tallest) + 2 * GRAPH_PADDING;
+  const width = layerCount * GRAPH_NODE_WIDTH + (layerCount - 1) * GRAPH_LAYER_GAP + 2 * GRAPH_PADDING;
+
+  const graphNodes = nodes.map((node): WorkflowGraphNode => {
+    const layer = layers.get(node.name) ?? 0;
+    const row = rows.get(node.name) ?? 0;
+    const offset = (columnHeight(tallest) - columnHeight(columns[layer].length)) / 2;
+    return {
+      name: node.name,
+      type: node.type,
+      integration: integrationName(node.type),
+      isTrigger: isTriggerNode(node.type),
+      isSubNode: subNodeTarget.has(node.name),
+      disabled: node.disabled === true,
+      typeVersion: node.typeVersion,
+      parameters: node.parameters,
+      layer,
+      row,
+      x: GRAPH_PADDING + layer * (GRAPH_NODE_WIDTH + GRAPH_LAYER_GAP),
+      y: GRAPH_PADDING + offset + row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP)
+    };
+  });
+
+  return { nodes: graphNodes, edges, width, height, redactedSecrets: removedSecrets };
+}
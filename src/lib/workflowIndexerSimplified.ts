@@ -4,7 +4,7 @@
  * Clean, minimal workflow indexing and search with clear interfaces
  */
 
-import { UnifiedWorkflow } from './schemas/unifiedWorkflow';
+import { Complexity, SourceType, UnifiedWorkflow, WorkflowSchemaMapper } from './schemas/unifiedWorkflow';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   WorkflowSearchParams, 
@@ -17,6 +17,7 @@ import {
 } from './interfaces/workflowIndexer';
 import { searchCache, statsCache } from './services/simpleCache';
 import { getFeatureToggleManager } from './featureToggle';
+import { hybridWorkflowSearch } from './search/hybridWorkflowSearch';
 
 /**
  * Default configuration
@@ -83,10 +84,15 @@ export class SimplifiedWorkflowIndexer {
         }
       }
 
-      // Build query
+      if (params.q && params.search_mode === 'hybrid') {
+        return await this.searchHybrid(params, startTime);
+      }
+
+      // Build query; duplicates are represented by their canonical record
       let query = supabase
         .from('unified_workflows')
-        .select('*', { count: 'exact' });
+        .select('*', { count: 'exact' })
+        .is('canonical_id', null);
 
       // Apply filters
       if (params.q) {
@@ -95,7 +101,7 @@ export class SimplifiedWorkflowIndexer {
 
       if (params.source) {
         const sources = Array.isArray(params.source) ? params.source : [params.source];
-        query = query.in('source', sources);
+        query = query.in('source', sources as SourceType[]);
       }
 
       if (params.category) {
@@ -105,7 +111,7 @@ export class SimplifiedWorkflowIndexer {
 
       if (params.complexity) {
         const complexities = Array.isArray(params.complexity) ? params.complexity : [params.complexity];
-        query = query.in('complexity', complexities);
+        query = query.in('complexity', complexities as Complexity[]);
       }
 
       // Apply pagination
@@ -126,7 +132,7 @@ export class SimplifiedWorkflowIndexer {
       }
 
       const result: WorkflowSearchResult = {
-        workflows: data || [],
+        workflows: (data || []).map(row => WorkflowSchemaMapper.fromRow(row)),
         total: count || 0,
         page: Math.floor(offset / limit) + 1,
         pageSize: limit,
@@ -163,6 +169,46 @@ export class SimplifiedWorkflowIndexer {
     }
   }
 
+  /**
+   * Relevance-ranked search for q (keyword + vector, fused); filters apply to the fused candidates
+   */
+  private async searchHybrid(params: WorkflowSearchParams, startTime: number): Promise<WorkflowSearchResult> {
+    const limit = params.limit || 10;
+    const offset = params.offset || 0;
+    const asList = (value?: string | string[]) => (value === undefined ? undefined : Array.isArray(value) ? value : [value]);
+    const sources = asList(params.source);
+    const categories = asList(params.category);
+    const complexities = asList(params.complexity);
+
+    const { workflows, total } = await hybridWorkflowSearch.search(params.q!, {
+      limit,
+      offset,
+      filter: workflow =>
+        (!sources || sources.includes('all') || sources.includes(workflow.source)) &&
+        (!categories || categories.includes(workflow.category)) &&
+        (!complexities || complexities.includes(workflow.complexity))
+    });
+
+    const result: WorkflowSearchResult = {
+      workflows,
+      total,
+      page: Math.floor(offset / limit) + 1,
+      pageSize: limit,
+      hasMore: (offset + limit) < total,
+      metadata: {
+        searchTimeMs: Date.now() - startTime,
+        cacheHit: false,
+        filters: params,
+      }
+    };
+
+    if (this.config.cacheEnabled) {
+      searchCache.set(this.generateSearchCacheKey(params), result, this.config.cacheTTLMs);
+    }
+
+    return result;
+  }
+
   /**
    * Refresh workflows
    */
@@ -185,12 +231,12 @@ export class SimplifiedWorkflowIndexer {
         };
       }
 
-      // Call Supabase function to refresh workflows
-      const { data, error } = await supabase.functions.invoke('index-workflows-unified', {
+      // Incremental catalog sync: only changed workflows are fetched and upserted,
+      // interrupted runs resume from their checkpoint on the next call
+      const { data, error } = await supabase.functions.invoke('sync-workflow-catalog', {
         body: {
           sources: request.sourceId ? [request.sourceId] : undefined,
-          force: request.force || false,
-          incremental: request.incremental !== false,
+          force: request.force === true || request.incremental === false,
         }
       });
 
@@ -198,6 +244,14 @@ export class SimplifiedWorkflowIndexer {
         throw new Error(`Refresh failed: ${error.message}`);
       }
 
+      // Re-cluster duplicates across sources when the catalog changed
+      if ((data?.workflowsAdded || 0) + (data?.workflowsUpdated || 0) + (data?.workflowsRemoved || 0) > 0) {
+        const { error: dedupError } = await supabase.functions.invoke('dedup-workflows', { body: {} });
+        if (dedupError) {
+          console.warn('[WorkflowIndexer] Deduplication failed:', dedupError.message);
+        }
+      }
+
       // Clear relevant caches
       if (this.config.cacheEnabled) {
         searchCache.clear();
@@ -340,7 +394,7 @@ export class SimplifiedWorkflowIndexer {
         return null;
       }
 
-      return data;
+      return WorkflowSchemaMapper.fromRow(data);
     } catch (error) {
       console.error('[WorkflowIndexer] Error in getWorkflowById:', error);
       return null;
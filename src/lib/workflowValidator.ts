@@ -0,0 +1,51 @@
+/**
+ * Workflow Validator
+ * Client-side entry point to the static n8n workflow checks shared with the edge
+ * functions (supabase/functions/_shared/n8n-workflow-validator.ts), so generated,
+ * indexed and admin-reviewed workflows are judged by the same rules.
+ */
+
+import { UnifiedWorkflow } from './schemas/unifiedWorkflow';
+import {
+  validateN8nWorkflow,
+  WorkflowValidationOptions,
+  WorkflowValidationResult
+} from '../../supabase/functions/_shared/n8n-workflow-validator.ts';
+
+export {
+  findHardcodedSecrets,
+  SECRET_HEADER,
+  SECRET_PARAMETER,
+  validateN8nWorkflow
+} from '../../supabase/functions/_shared/n8n-workflow-validator.ts';
+export type {
+  DiagnosticCode,
+  DiagnosticSeverity,
+  WorkflowDiagnostic,
+  WorkflowValidationOptions,
+  WorkflowValidationResult
+} from '../../supabase/functions/_shared/n8n-workflow-validator.ts';
+
+/**
+ * Validate the n8n JSON embedded in a workflow; null when the workflow carries none
+ */
+export function validateUnifiedWorkflow(
+  workflow: Pick<UnifiedWorkflow, 'n8nWorkflow' | 'workflowData' | 'isAIGenerated'>,
+  options: WorkflowValidationOptions = {}
+): WorkflowValidationResult | null {
+  const data = workflow.n8nWorkflow ?? workflow.workflowData;
+  if (!data) return null;
+  return validateN8nWorkflow(data, { strict: workflow.isAIGenerated, ...options });
+}
+
+/**
+ * Copy of the workflow with `validationStatus` and diagnostics set; 'pending' until n8n JSON is available
+ */
+export function withValidationStatus<T extends UnifiedWorkflow>(workflow: T, options: WorkflowValidationOptions = {}): T {
+  const result = validateUnifiedWorkflow(workflow, options);
+  return {
+    ...workflow,
+    validationStatus: result ? result.status : 'pending',
+    validationDiagnostics: result ? result.diagnostics : undefined
+  };
+}
@@ -6,6 +6,8 @@ import AdminLayout from '@/components/AdminLayout';
 import AdminDashboard from '@/components/AdminDashboard';
 import { ImplementationRequestsManagement } from '@/components/ImplementationRequestsManagement';
 import EnhancedSourcesManagement from '@/components/EnhancedSourcesManagement';
+import WorkflowDuplicatesReview from '@/components/WorkflowDuplicatesReview';
+import ScoringProfilesManagement from '@/components/ScoringProfilesManagement';
 
 export default function Admin() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -18,6 +20,10 @@ export default function Admin() {
   const path = location.pathname.replace(/\/$/, '');
   const currentView = (path.endsWith('/sources') || path.endsWith('/enhanced-sources'))
     ? 'sources'
+    : path.endsWith('/duplicates')
+    ? 'duplicates'
+    : path.endsWith('/scoring-profiles')
+    ? 'scoring-profiles'
     : path.endsWith('/implementation-requests')
     ? 'implementation-requests'
     : path.endsWith('/users')
@@ -65,6 +71,12 @@ export default function Admin() {
       case 'sources':
         navigate('/admin/sources');
         break;
+      case 'duplicates':
+        navigate('/admin/duplicates');
+        break;
+      case 'scoring-profiles':
+        navigate('/admin/scoring-profiles');
+        break;
       case 'implementation-requests':
         navigate('/admin/implementation-requests');
         break;
@@ -102,6 +114,8 @@ export default function Admin() {
       <Routes>
         <Route index element={<AdminDashboard lang={lang} />} />
         <Route path="sources" element={<EnhancedSourcesManagement lang={lang} />} />
+        <Route path="duplicates" element={<WorkflowDuplicatesReview lang={lang} />} />
+        <Route path="scoring-profiles" element={<ScoringProfilesManagement lang={lang} />} />
         <Route path="implementation-requests" element={<ImplementationRequestsManagement />} />
         <Route path="users" element={
           <div className="text-center py-12">
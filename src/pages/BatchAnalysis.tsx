@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Upload, Loader2, RotateCcw, AlertTriangle, CheckCircle2 } from "lucide-react";
+import Header from "@/components/Header";
+import PageFooter from "@/components/PageFooter";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import StaticPageTemplate from "@/components/StaticPageTemplate";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { resolveLang, t } from "@/lib/i18n/i18n";
+import { parseBatchFile, BatchImportError } from "@/lib/analysis/batchImport";
+import { BatchAnalyzer, BatchRowState, BatchRowStatus } from "@/lib/analysis/batchAnalysis";
+import type { ConsolidatedAnalysisReport } from "@/lib/analysis/roiAggregator";
+
+const STATUS_VARIANTS: Record<BatchRowStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  running: "secondary",
+  done: "default",
+  failed: "destructive"
+};
+
+const formatMoney = (value: number, lang: "de" | "en") =>
+  `${Math.round(value).toLocaleString(lang === "de" ? "de-DE" : "en-US")} €`;
+
+const BatchAnalysis = () => {
+  const [searchParams] = useSearchParams();
+  const lang = resolveLang(searchParams.get("lang") || undefined);
+
+  const analyzerRef = useRef<BatchAnalyzer | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRowState[]>([]);
+  const [importErrors, setImportErrors] = useState<BatchImportError[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<ConsolidatedAnalysisReport | null>(null);
+
+  const handleRowUpdate = (row: BatchRowState) => {
+    setRows(prev => prev.map(existing => existing.role.id === row.role.id ? row : existing));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const { roles, errors } = parseBatchFile(await file.text(), file.name);
+    analyzerRef.current = new BatchAnalyzer(roles, { lang, onRowUpdate: handleRowUpdate });
+    setFileName(file.name);
+    setImportErrors(errors);
+    setRows(analyzerRef.current.getRows());
+    setReport(null);
+  };
+
+  const runBatch = async (retryIds?: string[]) => {
+    const analyzer = analyzerRef.current;
+    if (!analyzer || isRunning) return;
+
+    setIsRunning(true);
+    try {
+      // Pending rows are analyzed first; afterwards the same action retries failed rows
+      const updated = retryIds || !rows.some(row => row.status === "pending")
+        ? await analyzer.retry(retryIds)
+        : await analyzer.run();
+      setRows(updated);
+      setReport(analyzer.getReport());
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const finishedCount = rows.filter(row => row.status === "done" || row.status === "failed").length;
+  const failedCount = rows.filter(row => row.status === "failed").length;
+  const pendingCount = rows.filter(row => row.status === "pending").length;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <StaticPageTemplate title={t(lang, "batch_title")} maxWidth="2xl">
+        <div className="text-center space-y-2">
+          <p className="text-lg text-muted-foreground">{t(lang, "batch_intro")}</p>
+          <p className="text-sm text-muted-foreground">{t(lang, "batch_format_hint")}</p>
+        </div>
+
+        {/* Upload */}
+        <div className="flex flex-wrap items-center justify-center gap-3 not-prose">
+          <Button variant="outline" asChild disabled={isRunning}>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {t(lang, "batch_upload")}
+              <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} disabled={isRunning} />
+            </label>
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          {pendingCount > 0 && (
+            <Button onClick={() => runBatch()} disabled={isRunning}>
+              {isRunning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t(lang, "batch_start")}
+            </Button>
+          )}
+          {failedCount > 0 && pendingCount === 0 && (
+            <Button onClick={() => runBatch()} disabled={isRunning}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t(lang, "batch_retry_failed")} ({failedCount})
+            </Button>
+          )}
+        </div>
+
+        {importErrors.length > 0 && (
+          <Alert variant="destructive" className="not-prose">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{t(lang, "batch_import_errors")}</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-2 space-y-1 text-sm">
+                {importErrors.map((error, index) => (
+                  <li key={index}>{error.row > 0 && `${t(lang, "batch_row")} ${error.row}: `}{error.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Per-row progress */}
+        {rows.length > 0 && (
+          <div className="space-y-4 not-prose">
+            <div className="flex items-center gap-4">
+              <Progress value={(finishedCount / rows.length) * 100} className="flex-1" />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                {finishedCount}/{rows.length} {t(lang, "batch_progress")}
+              </span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t(lang, "batch_col_role")}</TableHead>
+                  <TableHead className="text-right">{t(lang, "batch_col_headcount")}</TableHead>
+                  <TableHead>{t(lang, "batch_col_status")}</TableHead>
+                  <TableHead className="text-right">{t(lang, "batch_col_score")}</TableHead>
+                  <TableHead className="text-right">{t(lang, "batch_col_savings")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => {
+                  const roleReport = report?.roles.find(role => role.roleId === row.role.id);
+                  return (
+                    <TableRow key={row.role.id}>
+                      <TableCell>
+                        <div className="font-medium">{row.role.title}</div>
+                        {row.error && <div className="text-xs text-destructive mt-1">{row.error}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{row.role.headcount}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[row.status]} className="gap-1">
+                          {row.status === "running" && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {row.status === "done" && <CheckCircle2 className="w-3 h-3" />}
+                          {t(lang, `batch_status_${row.status}`)}
+                        </Badge>
+                        {row.fromCache && <span className="ml-2 text-xs text-muted-foreground">{t(lang, "batch_cached")}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{row.result ? `${row.result.totalScore}%` : "–"}</TableCell>
+                      <TableCell className="text-right">{roleReport ? formatMoney(roleReport.annualSavings, lang) : "–"}</TableCell>
+                      <TableCell className="text-right">
+                        {row.status === "failed" && (
+                          <Button size="sm" variant="ghost" onClick={() => runBatch([row.role.id])} disabled={isRunning}>
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            {t(lang, "batch_retry")}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Consolidated report */}
+        {report && report.roles.length > 0 && (
+          <div className="space-y-6 not-prose">
+            <h2 className="text-2xl font-bold text-foreground">{t(lang, "batch_report_title")}</h2>
+            <p className="text-muted-foreground">{report.summary}</p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                [t(lang, "batch_weighted_score"), `${report.weightedScore}%`],
+                [t(lang, "batch_total_headcount"), report.totalHeadcount.toLocaleString()],
+                [t(lang, "batch_saved_hours"), report.totalSavedHoursPerMonth.toLocaleString()],
+                [t(lang, "batch_annual_savings"), formatMoney(report.totalAnnualSavings, lang)],
+                [t(lang, "batch_setup_cost"), formatMoney(report.totalSetupCost, lang)],
+                [t(lang, "batch_npv"), formatMoney(report.totalNpv, lang)],
+                [t(lang, "batch_payback"), report.paybackMonth ?? "–"]
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-lg border border-border p-4">
+                  <div className="text-sm text-muted-foreground">{label}</div>
+                  <div className="text-2xl font-semibold text-foreground mt-1">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            {report.yearlySavings.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold text-foreground">{t(lang, "batch_yearly_savings")}</h3>
+                <div className="flex flex-wrap gap-6 text-sm">
+                  {report.yearlySavings.map((savings, year) => (
+                    <span key={year}>
+                      <span className="text-muted-foreground">{t(lang, "batch_year")} {year + 1}:</span> {formatMoney(savings, lang)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.topTasks.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold text-foreground">{t(lang, "batch_top_tasks")}</h3>
+                <ul className="space-y-2">
+                  {report.topTasks.map((task, index) => (
+                    <li key={index} className="flex justify-between gap-4 text-sm">
+                      <span><span className="text-muted-foreground">{task.roleTitle}:</span> {task.text}</span>
+                      <span className="font-medium whitespace-nowrap">{formatMoney(task.annualSavings, lang)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </StaticPageTemplate>
+
+      <PageFooter />
+      <div className="fixed bottom-6 right-6">
+        <LanguageSwitcher current={lang} />
+      </div>
+    </div>
+  );
+};
+
+export default BatchAnalysis;
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import Header from "@/components/Header";
+import PageFooter from "@/components/PageFooter";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import StaticPageTemplate from "@/components/StaticPageTemplate";
+import AnalysisComparisonView from "@/components/AnalysisComparisonView";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { resolveLang, t } from "@/lib/i18n/i18n";
+import { loadAnalysisHistory, loadStoredAnalysis } from "@/lib/analysisStorage";
+
+/**
+ * Compare analyses from the local history; the first selected analysis is the
+ * baseline, every further one is compared against it. Selection lives in ?ids=
+ * so a comparison can be bookmarked.
+ */
+const CompareAnalyses = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lang = resolveLang(searchParams.get("lang") || undefined);
+
+  const history = useMemo(() => loadAnalysisHistory(), []);
+  const selectedIds = (searchParams.get("ids") || "").split(",").filter(Boolean);
+
+  const selected = selectedIds
+    .map(id => ({ entry: history.find(item => item.id === id), analysis: loadStoredAnalysis(id) }))
+    .filter((item): item is { entry: NonNullable<typeof item.entry>; analysis: NonNullable<typeof item.analysis> } =>
+      !!item.entry && !!item.analysis
+    );
+  const [baseline, ...others] = selected;
+
+  const toggle = (id: string) => {
+    const ids = selectedIds.includes(id) ? selectedIds.filter(other => other !== id) : [...selectedIds, id];
+    const params = new URLSearchParams(searchParams);
+    if (ids.length > 0) {
+      params.set("ids", ids.join(","));
+    } else {
+      params.delete("ids");
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <StaticPageTemplate title={t(lang, "compare_title")} maxWidth="2xl">
+        <p className="text-lg text-muted-foreground text-center">{t(lang, "compare_intro")}</p>
+
+        {/* Selection */}
+        <div className="not-prose space-y-2">
+          {history.length < 2 && (
+            <p className="text-sm text-muted-foreground text-center">{t(lang, "compare_need_two")}</p>
+          )}
+          {history.map(item => {
+            const position = selectedIds.indexOf(item.id);
+            return (
+              <label
+                key={item.id}
+                className="flex items-center gap-3 rounded-lg border border-border p-3 cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox checked={position >= 0} onCheckedChange={() => toggle(item.id)} />
+                <span className="flex-1 truncate font-medium">{item.jobTitle}</span>
+                {position === 0 && <Badge variant="secondary">{t(lang, "compare_baseline")}</Badge>}
+                <span className="text-sm text-muted-foreground">
+                  {new Date(item.timestamp).toLocaleDateString(lang === "de" ? "de-DE" : "en-US")}
+                </span>
+                <span className="w-12 text-right font-medium">{item.score}%</span>
+              </label>
+            );
+          })}
+        </div>
+
+        {/* Comparisons against the baseline */}
+        {baseline && others.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center not-prose">{t(lang, "compare_select_more")}</p>
+        )}
+        {baseline && others.map(other => (
+          <section key={other.entry.id} className="not-prose space-y-4">
+            <h2 className="text-2xl font-bold text-foreground">
+              {baseline.entry.jobTitle} ↔ {other.entry.jobTitle}
+            </h2>
+            <AnalysisComparisonView
+              left={baseline.analysis}
+              right={other.analysis}
+              leftTitle={baseline.entry.jobTitle}
+              rightTitle={other.entry.jobTitle}
+              lang={lang}
+            />
+          </section>
+        ))}
+      </StaticPageTemplate>
+
+      <PageFooter />
+      <div className="fixed bottom-6 right-6">
+        <LanguageSwitcher current={lang} />
+      </div>
+    </div>
+  );
+};
+
+export default CompareAnalyses;
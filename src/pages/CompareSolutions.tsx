@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Copy, X } from "lucide-react";
+import Header from "@/components/Header";
+import PageFooter from "@/components/PageFooter";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import StaticPageTemplate from "@/components/StaticPageTemplate";
+import SolutionComparisonMatrix from "@/components/SolutionComparisonMatrix";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { resolveLang, t } from "@/lib/i18n/i18n";
+import { solutionComparisonService } from "@/lib/services/solutionComparisonService";
+import {
+  MIN_COMPARED_SOLUTIONS,
+  formatSolutionRefs,
+  parseSolutionRefs,
+  solutionComparisonPath
+} from "@/lib/solutions/solutionComparison";
+import type { Solution, SolutionRef } from "@/types/solutions";
+
+/**
+ * Compare 2-4 workflows/agents picked in the solutions list. The selection lives in
+ * ?items=workflow:<id>,agent:<id> so consultants can share the comparison as a link.
+ */
+const CompareSolutions = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lang = resolveLang(searchParams.get("lang") || undefined);
+  const { toast } = useToast();
+
+  const itemsParam = searchParams.get("items");
+  const refs = useMemo(() => parseSolutionRefs(itemsParam), [itemsParam]);
+
+  const [solutions, setSolutions] = useState<Solution[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    if (refs.length === 0) {
+      setSolutions([]);
+      return;
+    }
+
+    setLoading(true);
+    solutionComparisonService.loadSolutions(refs)
+      .then(loaded => {
+        if (!cancelled) setSolutions(loaded);
+      })
+      .catch(err => {
+        console.error("[CompareSolutions] Loading solutions failed:", err);
+        if (!cancelled) setFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refs]);
+
+  const remove = (ref: SolutionRef) => {
+    const remaining = refs.filter(other => other.type !== ref.type || other.id !== ref.id);
+    const params = new URLSearchParams(searchParams);
+    if (remaining.length > 0) {
+      params.set("items", formatSolutionRefs(remaining));
+    } else {
+      params.delete("items");
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${solutionComparisonPath(refs, lang)}`);
+      toast({ title: t(lang, "solution_compare_link_copied") });
+    } catch (err) {
+      console.error("[CompareSolutions] Copying link failed:", err);
+    }
+  };
+
+  const compared = refs
+    .map(ref => solutions.find(solution => solution.type === ref.type && solution.id === ref.id))
+    .filter((solution): solution is Solution => !!solution);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <StaticPageTemplate title={t(lang, "solution_compare_title")} maxWidth="2xl">
+        <p className="text-lg text-muted-foreground text-center">{t(lang, "solution_compare_intro")}</p>
+
+        {/* Selection */}
+        <div className="not-prose flex flex-wrap items-center gap-2">
+          {refs.map(ref => {
+            const solution = solutions.find(item => item.type === ref.type && item.id === ref.id);
+            return (
+              <Badge key={`${ref.type}:${ref.id}`} variant={solution || loading ? "secondary" : "destructive"} className="gap-1">
+                {solution?.name ?? ref.id}
+                {!loading && !solution && ` (${t(lang, "solution_compare_missing")})`}
+                <button type="button" aria-label="remove" onClick={() => remove(ref)}>
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            );
+          })}
+          {refs.length > 0 && (
+            <div className="ml-auto flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+                {t(lang, "solution_compare_only_differences")}
+              </label>
+              <Button variant="outline" size="sm" onClick={copyLink}>
+                <Copy className="w-4 h-4 mr-2" />
+                {t(lang, "solution_compare_share")}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="not-prose">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center">{t(lang, "solution_compare_loading")}</p>
+          ) : failed ? (
+            <p className="text-sm text-destructive text-center">{t(lang, "solution_compare_failed")}</p>
+          ) : compared.length < MIN_COMPARED_SOLUTIONS ? (
+            <p className="text-sm text-muted-foreground text-center">{t(lang, "solution_compare_need_two")}</p>
+          ) : (
+            <SolutionComparisonMatrix solutions={compared} lang={lang} onlyDifferences={onlyDifferences} />
+          )}
+        </div>
+      </StaticPageTemplate>
+
+      <PageFooter />
+      <div className="fixed bottom-6 right-6">
+        <LanguageSwitcher current={lang} />
+      </div>
+    </div>
+  );
+};
+
+export default CompareSolutions;
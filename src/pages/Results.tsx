@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { Share2, BookOpen, Zap, User, Target, Rocket, Sparkles, Lightbulb, AlertTriangle } from "lucide-react";
+import { Share2, BookOpen, Zap, User, Target, Rocket, Sparkles, Lightbulb, AlertTriangle, Loader2 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import ScoreCircle from "@/components/ScoreCircle";
 import InfoCard from "@/components/InfoCard";
@@ -9,18 +9,24 @@ import Header from "@/components/Header";
 import { AIToolRecommendations } from "@/components/AIToolRecommendations";
 
 import ShareModal from "@/components/ShareModal";
+import ExportMenu from "@/components/ExportMenu";
+import RoleROICard from "@/components/RoleROICard";
 import PageFooter from "@/components/PageFooter";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { resolveLang, t, translateCategory } from "@/lib/i18n/i18n";
+import { computeRoleROI, toTaskROIInputs } from "@/lib/analysis/roiModel";
 import { runAnalysis } from "@/lib/runAnalysis";
 import { detectIndustry } from "@/lib/runAnalysis";
 import { generateSummary } from "@/lib/runAnalysis";
+import { runAnalysisStream } from "@/lib/runAnalysis";
+import { takePendingAnalysis, saveAnalysisToHistory } from "@/lib/analysisStorage";
+import { userAnalysisService } from "@/lib/services/userAnalysisService";
 import { SharedAnalysisService } from "@/lib/sharedAnalysis";
 import LoadingPage from "@/components/LoadingPage";
 
 // Import correct types
-import type { AnalysisResult as RunAnalysisResult, Task as RunAnalysisTask } from "@/lib/runAnalysis";
+import type { AnalysisResult as RunAnalysisResult, Task as RunAnalysisTask, AnalysisStreamEvent } from "@/lib/runAnalysis";
 import type { Task as TaskListTask } from "@/components/TaskList";
 
 // Use imported types
@@ -84,6 +90,8 @@ interface TaskForDisplay {
   aiTools?: string[];
   automationRatio?: number;
   humanRatio?: number;
+  subtasks?: AnalysisTask['subtasks'];
+  isPending?: boolean;
 }
 
 // NOTE: Fallback data for demo purposes - real AI analysis is used in production
@@ -145,6 +153,50 @@ const Results = () => {
   const [isJobTitleVisible, setIsJobTitleVisible] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [isLoadingSharedAnalysis, setIsLoadingSharedAnalysis] = useState(isSharedUrl);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamedTasks, setStreamedTasks] = useState<AnalysisTask[]>([]);
+  const streamStartedRef = useRef(false);
+
+  // Apply streamed stage events; tasks keep their index from the LLM response
+  const handleStreamEvent = (event: AnalysisStreamEvent) => {
+    setStreamedTasks(prev => {
+      const next = [...prev];
+      if (event.type === 'task') {
+        // Subtasks stay undefined (pending) until their own event arrives
+        next[event.index] = { ...event.task, subtasks: undefined };
+      } else if (event.type === 'subtasks' && next[event.index]) {
+        next[event.index] = { ...next[event.index], subtasks: event.subtasks };
+      } else if (event.type === 'businessCase' && next[event.index]) {
+        next[event.index] = { ...next[event.index], businessCase: event.businessCase };
+      }
+      return next;
+    });
+  };
+
+  // Run the analysis queued by the start page, rendering tasks as they are extracted
+  const startStreamingAnalysis = async (jobText: string) => {
+    setIsStreaming(true);
+    setStreamedTasks([]);
+    setJobTitle(jobText.split('\n')[0].trim());
+
+    try {
+      const result = await runAnalysisStream(jobText.slice(0, 10000), lang, handleStreamEvent);
+      // Store full original text for sharing
+      const completed: AnalysisResult = { ...result, originalText: jobText };
+
+      sessionStorage.setItem('analysisResult', JSON.stringify(completed));
+      saveAnalysisToHistory(completed, jobText, lang);
+      userAnalysisService.save(completed, jobText, lang)
+        .catch(error => console.error('Error saving analysis to account:', error));
+      setAnalysisData(completed);
+      generateShareUrl(completed).then(url => setShareUrl(url));
+    } catch (error) {
+      console.error('Streaming analysis failed:', error);
+      setAnalysisError(t(lang, "analysis_error"));
+    } finally {
+      setIsStreaming(false);
+    }
+  };
 
   // Function to create a fallback analysis when the original text doesn't contain extractable tasks
   const createFallbackAnalysis = (originalText: string, lang: 'de' | 'en'): AnalysisResult | null => {
@@ -411,6 +463,14 @@ const Results = () => {
 
       loadSharedAnalysis();
     } else {
+      // Analysis queued by the start page: stream it instead of loading a stored result
+      const pending = streamStartedRef.current ? null : takePendingAnalysis();
+      if (pending) {
+        streamStartedRef.current = true;
+        startStreamingAnalysis(pending.jobText);
+        return;
+      }
+
       // Try to load real analysis results from sessionStorage
       try {
         const storedResult = sessionStorage.getItem('analysisResult');
@@ -485,7 +545,8 @@ const Results = () => {
         description: `${task.category ? translateCategory(lang, task.category) : 'Allgemein'} (${t(lang, 'task_confidence')}: ${Math.round(task.confidence || task.score)}%)`,
         complexity: task.complexity,
         automationTrend: task.automationTrend,
-        aiTools: task.aiTools
+        aiTools: task.aiTools,
+        subtasks: task.subtasks
       }));
       
       setDisplayTasks(transformedTasks);
@@ -523,6 +584,11 @@ const Results = () => {
   const automatizableTasks = analysisData?.ratio?.automatisierbar ?? 0;
   const humanTasks = analysisData?.ratio?.mensch ?? 0;
   const totalScore = analysisData?.totalScore ?? 72;
+  // Only analyses with task business cases have real figures; older ones are recomputed
+  const hasBusinessCase = !!analysisData?.tasks?.some(task => task.businessCase);
+  const roleROI = analysisData && hasBusinessCase
+    ? analysisData.roi ?? computeRoleROI(toTaskROIInputs(analysisData.tasks))
+    : undefined;
 
   const handleShare = async () => {
     if (analysisData) {
@@ -546,6 +612,41 @@ const Results = () => {
     navigate('/agents-workflows');
   };
 
+  const toTaskListTask = (task: TaskForDisplay): Task => ({
+    id: task.id,
+    text: task.name,
+    name: task.name,
+    score: task.score,
+    label: task.category === 'automatisierbar' ? 'Automatisierbar' : 
+           task.category === 'teilweise' ? 'Teilweise Automatisierbar' : 'Mensch',
+    category: task.category,
+    description: task.description,
+    complexity: task.complexity,
+    automationTrend: task.automationTrend,
+    humanRatio: task.humanRatio,
+    automationRatio: task.automationRatio,
+    aiTools: task.aiTools,
+    subtasks: task.subtasks,
+    isPending: task.isPending
+  });
+
+  // Streamed tasks in display format; skipped indices (invalid heads) leave gaps
+  const streamedDisplayTasks: TaskForDisplay[] = streamedTasks.flatMap((task, index) => task ? [{
+    id: String(index + 1),
+    name: task.text.length > 60 ? task.text.substring(0, 60) + '...' : task.text,
+    score: Math.round(task.score),
+    category: task.label === 'Automatisierbar' ? 'automatisierbar' : 
+              task.label === 'Teilweise Automatisierbar' ? 'teilweise' : 'mensch',
+    description: `${task.category ? translateCategory(lang, task.category) : 'Allgemein'} (${t(lang, 'task_confidence')}: ${Math.round(task.confidence || task.score)}%)`,
+    complexity: task.complexity,
+    automationTrend: task.automationTrend,
+    automationRatio: task.automationRatio,
+    humanRatio: task.humanRatio,
+    aiTools: task.aiTools,
+    subtasks: task.subtasks,
+    isPending: task.subtasks === undefined
+  }] : []);
+
   // Show LoadingPage if loading shared analysis
   if (isLoadingSharedAnalysis) {
     return <LoadingPage />;
@@ -586,7 +687,16 @@ const Results = () => {
           )}
 
           {/* Check if tasks were found */}
-          {analysisData && analysisData.tasks && analysisData.tasks.length > 0 ? (
+          {isStreaming ? (
+            <div className="space-y-8">
+              <div className="flex items-center justify-center gap-3 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>{t(lang, "analysis_streaming")} ({streamedDisplayTasks.length})</span>
+              </div>
+
+              <TaskList tasks={streamedDisplayTasks.map(toTaskListTask)} lang={lang} isStreaming />
+            </div>
+          ) : analysisData && analysisData.tasks && analysisData.tasks.length > 0 ? (
             <>
               {/* Analysis Summary Subheadline */}
               <div className="text-center mb-12">
@@ -595,6 +705,15 @@ const Results = () => {
                 </p>
               </div>
 
+              {analysisData.lowConfidence && (
+                <div className="max-w-2xl mx-auto mb-8">
+                  <div className="flex items-start gap-3 text-sm text-muted-foreground bg-muted/50 border border-border p-4 rounded-lg text-left">
+                    <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                    <p>{t(lang, "offline_analysis_notice")}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Score Section */}
               <div className="flex justify-center">
                 <ScoreCircle 
@@ -625,23 +744,16 @@ const Results = () => {
                 </div>
               </div>
 
+              {/* Role business case */}
+              {roleROI && (
+                <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-4xl mx-auto">
+                  <RoleROICard roi={roleROI} lang={lang} />
+                </div>
+              )}
+
               {/* Task List */}
               <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 delay-300">
-                <TaskList tasks={displayTasks.map(task => ({
-                  id: task.id,
-                  text: task.name,
-                  name: task.name,
-                  score: task.score,
-                  label: task.category === 'automatisierbar' ? 'Automatisierbar' : 
-                         task.category === 'teilweise' ? 'Teilweise Automatisierbar' : 'Mensch',
-                  category: task.category,
-                  description: task.description,
-                  complexity: task.complexity,
-                  automationTrend: task.automationTrend,
-                  humanRatio: task.humanRatio,
-                  automationRatio: task.automationRatio,
-                  aiTools: task.aiTools
-                }))} lang={lang} />
+                <TaskList tasks={displayTasks.map(toTaskListTask)} lang={lang} />
               </div>
             </>
           ) : (
@@ -769,6 +881,10 @@ const Results = () => {
                   <Share2 className="w-5 h-5" />
                   <span>{t(lang, "share_landing")}</span>
                 </Button>
+
+                {analysisData && (
+                  <ExportMenu analysis={analysisData} lang={lang} title={jobTitle} />
+                )}
                 
                 <Button 
                   onClick={handleLearnMore}
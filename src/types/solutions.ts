@@ -49,6 +49,8 @@ export interface BaseSolution {
   demoUrl?: string;
   githubUrl?: string;
   pricing?: 'Free' | 'Freemium' | 'Paid' | 'Enterprise';
+  license?: string;
+  credentialsRequired?: string[]; // credential types, e.g. n8n credential names or LLM API keys
   requirements: SolutionRequirement[];
   useCases: SolutionUseCase[];
   integrations: SolutionIntegration[];
@@ -160,11 +162,56 @@ export interface SolutionSearchResult {
   };
 }
 
+export type SolutionComparisonField =
+  | 'integrations'
+  | 'setupTime'
+  | 'complexity'
+  | 'cost'
+  | 'license'
+  | 'maintenance'
+  | 'credentials'
+  | 'score';
+
+export interface SolutionComparisonCell {
+  solutionId: string;
+  value: string | number | string[] | null;
+  detail?: Record<string, number>; // e.g. the score breakdown
+  rating: number | null; // 0-1, higher is better; null when unknown
+  best: boolean;
+}
+
+export interface SolutionComparisonRow {
+  field: SolutionComparisonField;
+  cells: SolutionComparisonCell[]; // same order as SolutionComparison.solutions
+  differs: boolean;
+}
+
+export type SolutionBestForReason =
+  | 'quickest_setup'
+  | 'lowest_cost'
+  | 'most_integrations'
+  | 'fewest_credentials'
+  | 'open_license'
+  | 'best_maintained'
+  | 'highest_score';
+
+export interface SolutionBestFor {
+  solutionId: string;
+  reasons: SolutionBestForReason[];
+}
+
+/** Reference to a workflow or agent, e.g. in a shared comparison URL */
+export interface SolutionRef {
+  type: SolutionType;
+  id: string;
+}
+
 export interface SolutionComparison {
   solutions: Solution[];
-  comparisonFields: string[];
-  differences: Record<string, any>;
-  recommendations: string[];
+  comparisonFields: SolutionComparisonField[];
+  differences: Record<SolutionComparisonField, SolutionComparisonRow>;
+  recommendations: string[]; // "best for" summary, one sentence per solution
+  bestFor: SolutionBestFor[];
 }
 
 export interface SolutionRecommendation {
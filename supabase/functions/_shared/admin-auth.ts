@@ -0,0 +1,45 @@
+/**
+ * Admin authorization for edge functions that write with the service role
+ * The caller's JWT (Authorization: Bearer …) is verified with Supabase Auth and must
+ * carry `app_metadata.role = 'admin'`; app_metadata is only writable with the service
+ * role, unlike user_metadata. Scheduled jobs may call with the service role key itself.
+ * Dependency-free (the client is passed in) so it is testable outside the edge runtime.
+ */
+
+export interface AuthUserLike {
+  id: string;
+  email?: string | null;
+  app_metadata?: Record<string, unknown> | null;
+}
+
+/** The part of a Supabase client the check needs */
+export interface AuthClientLike {
+  auth: {
+    getUser(jwt: string): Promise<{ data: { user: AuthUserLike | null }; error: { message: string } | null }>;
+  };
+}
+
+export type AdminAuthResult =
+  | { ok: true; userId: string | null; email: string | null }
+  | { ok: false; status: 401 | 403; error: string };
+
+export function bearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') || '');
+  return match ? match[1].trim() : null;
+}
+
+export function isAdminUser(user: AuthUserLike | null): boolean {
+  return user?.app_metadata?.role === 'admin';
+}
+
+export async function authorizeAdmin(req: Request, client: AuthClientLike, serviceRoleKey: string | undefined): Promise<AdminAuthResult> {
+  const token = bearerToken(req);
+  if (!token) return { ok: false, status: 401, error: 'Authentication required' };
+  if (serviceRoleKey && token === serviceRoleKey) return { ok: true, userId: null, email: null };
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return { ok: false, status: 401, error: 'Invalid or expired session' };
+  if (!isAdminUser(data.user)) return { ok: false, status: 403, error: 'Admin role required' };
+
+  return { ok: true, userId: data.user.id, email: data.user.email ?? null };
+}
@@ -0,0 +1,304 @@
+/**
+ * Agent catalog sources
+ * Source adapters for fetch-agent-catalogs: HuggingFace Spaces, CrewAI example repos,
+ * GitHub topic search and a curated local manifest. Each adapter maps its listing to
+ * the same AgentMinimal shape and applies the shared quality filter and ranking.
+ * Network and file access are injected, so adapters run against recorded fixtures.
+ */
+
+export type AgentSourceId = 'hf-spaces' | 'crewai' | 'github-agents' | 'manifest';
+
+export type HfSpace = {
+  id: string; // e.g. "org/space"
+  likes?: number;
+  downloads?: number;
+  updatedAt?: string;
+  lastModified?: string;
+  tags?: string[];
+  title?: string;
+  cardData?: { title?: string; description?: string };
+};
+
+export type AgentMinimal = {
+  id: string;
+  source: string;
+  title: string;
+  summary: string;
+  link: string;
+  provider: string;
+  tags: string[];
+  likes?: number;
+  downloads?: number;
+  lastModified?: string;
+};
+
+/** Popularity and activity of a listing entry; stars count as likes, forks as downloads */
+export type QualitySignals = Pick<HfSpace, 'likes' | 'downloads' | 'updatedAt' | 'lastModified'>;
+
+const TWELVE_MONTHS_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Quality filter (PRD): likes >= 5 OR updated within last 12 months OR downloads > 0
+export function isHighQualitySpace(space: QualitySignals, now: number = Date.now()): boolean {
+  const likes = Number(space.likes || 0);
+  const dl = Number(space.downloads || 0);
+  const lm = space.updatedAt || space.lastModified;
+  const recent = lm ? now - new Date(lm).getTime() <= TWELVE_MONTHS_MS : false;
+  const likesOk = likes >= 5;
+  const downloadsOk = dl > 0;
+  return likesOk || recent || downloadsOk;
+}
+
+// Ranking (2.2 preference): prefer higher likes/downloads and recency
+export function qualityScore(space: QualitySignals, now: number = Date.now()): number {
+  const likes = Number(space.likes || 0);
+  const dl = Number(space.downloads || 0);
+  const lm = space.updatedAt || space.lastModified;
+  const recentBoost = lm && now - new Date(lm).getTime() <= TWELVE_MONTHS_MS ? 50 : 0;
+  // weights: likes x2, downloads x1, recency +50
+  return (likes * 2) + dl + recentBoost;
+}
+
+export interface AgentSourceContext {
+  fetch: typeof fetch;
+  now: number;
+  /** HuggingFace tags to match (at least one) */
+  tags: string[];
+  /** GitHub topics to search */
+  topics: string[];
+  githubToken?: string;
+  /** Contents of the local manifest file */
+  readManifest: () => Promise<string>;
+}
+
+export interface AgentSourceAdapter {
+  id: AgentSourceId;
+  provider: string;
+  /** Quality-filtered agents, best first */
+  fetchAgents(context: AgentSourceContext): Promise<AgentMinimal[]>;
+}
+
+export const DEFAULT_HF_TAGS = ['agents', 'autonomous', 'crew'];
+export const DEFAULT_GITHUB_TOPICS = ['ai-agent', 'langgraph', 'autogen'];
+export const CREWAI_EXAMPLE_REPOS = ['crewAIInc/crewAI-examples'];
+
+export class AgentSourceError extends Error {
+  constructor(readonly source: AgentSourceId, readonly status: number, message: string) {
+    super(message);
+    this.name = 'AgentSourceError';
+  }
+}
+
+/**
+ * Map request aliases ("huggingface", "github", "crew-ai", …) to an adapter id
+ */
+export function normalizeAgentSource(source: string): AgentSourceId | null {
+  const v = source.toLowerCase().trim();
+  if (v.includes('hf') || v.includes('huggingface')) return 'hf-spaces';
+  if (v.replace(/[\s_-]/g, '').includes('crewai')) return 'crewai';
+  if (v.includes('github')) return 'github-agents';
+  if (v === 'manifest' || v === 'local') return 'manifest';
+  return null;
+}
+
+function rankAndFilter<T extends QualitySignals>(entries: T[], now: number): T[] {
+  return entries
+    .filter(entry => isHighQualitySpace(entry, now))
+    .sort((a, b) => qualityScore(b, now) - qualityScore(a, now));
+}
+
+async function getJson<T>(context: AgentSourceContext, source: AgentSourceId, url: string, headers: Record<string, string>): Promise<T> {
+  const response = await context.fetch(url, { headers });
+  if (!response.ok) {
+    throw new AgentSourceError(source, response.status, `${source} request failed: ${response.status} (${url})`);
+  }
+  return await response.json() as T;
+}
+
+function githubHeaders(context: AgentSourceContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'prom8eus-agent-ingest/1.0',
+  };
+  if (context.githubToken) headers['Authorization'] = `token ${context.githubToken}`;
+  return headers;
+}
+
+const humanize = (slug: string) => slug
+  .replace(/[_-]+/g, ' ')
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .trim()
+  .replace(/\b\w/g, c => c.toUpperCase());
+
+// === HuggingFace Spaces ===
+
+export const hfSpacesAdapter: AgentSourceAdapter = {
+  id: 'hf-spaces',
+  provider: 'HuggingFace Spaces',
+  async fetchAgents(context) {
+    // API doc: https://huggingface.co/docs/api/spaces#get-api-spaces
+    // The API has no tag OR-filter, so fetch a generous listing and filter locally
+    const spaces = await getJson<HfSpace[]>(context, 'hf-spaces', 'https://huggingface.co/api/spaces?full=true&limit=200', {
+      'Accept': 'application/json',
+      'User-Agent': 'prom8eus-agent-ingest/1.0',
+    });
+
+    const tagSet = new Set(context.tags.map(t => t.toLowerCase()));
+    const tagged = (spaces || []).filter(s => (s.tags || []).some(t => tagSet.has(String(t).toLowerCase())));
+
+    return rankAndFilter(tagged, context.now).map(s => ({
+      id: s.id,
+      source: 'hf-spaces',
+      title: s.title || s.cardData?.title || s.id.split('/').pop() || s.id,
+      summary: s.cardData?.description || '',
+      link: `https://huggingface.co/spaces/${s.id}`,
+      provider: 'HuggingFace Spaces',
+      tags: s.tags || [],
+      likes: s.likes,
+      downloads: s.downloads,
+      lastModified: s.updatedAt || s.lastModified,
+    }));
+  },
+};
+
+// === GitHub ===
+
+export type GithubRepo = {
+  full_name: string;
+  name: string;
+  html_url: string;
+  description?: string | null;
+  topics?: string[];
+  stargazers_count?: number;
+  forks_count?: number;
+  pushed_at?: string;
+  archived?: boolean;
+  fork?: boolean;
+  owner?: { login?: string };
+};
+
+type GithubContentEntry = {
+  name: string;
+  path: string;
+  type: 'file' | 'dir' | string;
+  html_url: string;
+};
+
+const repoSignals = (repo: GithubRepo): QualitySignals => ({
+  likes: repo.stargazers_count,
+  downloads: repo.forks_count,
+  updatedAt: repo.pushed_at,
+});
+
+export const githubTopicsAdapter: AgentSourceAdapter = {
+  id: 'github-agents',
+  provider: 'GitHub',
+  async fetchAgents(context) {
+    const repos = new Map<string, GithubRepo>();
+    for (const topic of context.topics) {
+      const query = encodeURIComponent(`topic:${topic} archived:false fork:false`);
+      const result = await getJson<{ items?: GithubRepo[] }>(
+        context,
+        'github-agents',
+        `https://api.github.com/search/repositories?q=${query}&sort=stars&order=desc&per_page=50`,
+        githubHeaders(context),
+      );
+      // Repositories tagged with several topics are listed once
+      (result.items || []).forEach(repo => {
+        if (!repo.archived && !repo.fork && !repos.has(repo.full_name)) repos.set(repo.full_name, repo);
+      });
+    }
+
+    const ranked = rankAndFilter([...repos.values()].map(repo => ({ repo, ...repoSignals(repo) })), context.now);
+    return ranked.map(({ repo }) => ({
+      id: repo.full_name,
+      source: 'github-agents',
+      title: humanize(repo.name),
+      summary: repo.description || '',
+      link: repo.html_url,
+      provider: repo.owner?.login ? `GitHub (${repo.owner.login})` : 'GitHub',
+      tags: repo.topics || [],
+      likes: repo.stargazers_count,
+      downloads: repo.forks_count,
+      lastModified: repo.pushed_at,
+    }));
+  },
+};
+
+export const crewAiExamplesAdapter: AgentSourceAdapter = {
+  id: 'crewai',
+  provider: 'CrewAI Examples',
+  async fetchAgents(context) {
+    const agents: AgentMinimal[] = [];
+    for (const fullName of CREWAI_EXAMPLE_REPOS) {
+      const headers = githubHeaders(context);
+      const repo = await getJson<GithubRepo>(context, 'crewai', `https://api.github.com/repos/${fullName}`, headers);
+      // Examples share the repository's stars and activity
+      if (!isHighQualitySpace(repoSignals(repo), context.now)) continue;
+
+      const contents = await getJson<GithubContentEntry[]>(context, 'crewai', `https://api.github.com/repos/${fullName}/contents`, headers);
+      contents
+        .filter(entry => entry.type === 'dir' && !entry.name.startsWith('.'))
+        .forEach(entry => agents.push({
+          id: `${fullName}/${entry.path}`,
+          source: 'crewai',
+          title: humanize(entry.name),
+          summary: `CrewAI example crew "${humanize(entry.name)}" from ${fullName}`,
+          link: entry.html_url,
+          provider: 'CrewAI Examples',
+          tags: ['crewai', 'multi-agent', ...(repo.topics || []).filter(topic => topic !== 'crewai')],
+          likes: repo.stargazers_count,
+          downloads: repo.forks_count,
+          lastModified: repo.pushed_at,
+        }));
+    }
+    return agents;
+  },
+};
+
+// === Local manifest ===
+
+/**
+ * Curated agents (agents-manifest.json next to the function). `lastModified` is the date
+ * an entry was last reviewed; like other sources, stale entries without likes drop out.
+ */
+export type AgentManifest = {
+  version: 1;
+  agents: Array<Partial<AgentMinimal>>;
+};
+
+export const manifestAdapter: AgentSourceAdapter = {
+  id: 'manifest',
+  provider: 'Prom8eus',
+  async fetchAgents(context) {
+    let manifest: AgentManifest;
+    try {
+      manifest = JSON.parse(await context.readManifest());
+    } catch (error) {
+      throw new AgentSourceError('manifest', 500, `Agent manifest is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Curated entries still need the fields every agent card relies on
+    const valid = (Array.isArray(manifest?.agents) ? manifest.agents : []).filter(entry =>
+      typeof entry?.id === 'string' && typeof entry.title === 'string' && typeof entry.link === 'string');
+
+    return rankAndFilter(valid, context.now).map(entry => ({
+      id: entry.id!,
+      source: 'manifest',
+      title: entry.title!,
+      summary: entry.summary || '',
+      link: entry.link!,
+      provider: entry.provider || 'Prom8eus',
+      tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+      likes: entry.likes,
+      downloads: entry.downloads,
+      lastModified: entry.lastModified,
+    }));
+  },
+};
+
+export const AGENT_SOURCE_ADAPTERS: Record<AgentSourceId, AgentSourceAdapter> = {
+  'hf-spaces': hfSpacesAdapter,
+  'crewai': crewAiExamplesAdapter,
+  'github-agents': githubTopicsAdapter,
+  'manifest': manifestAdapter,
+};
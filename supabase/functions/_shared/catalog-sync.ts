@@ -0,0 +1,167 @@
+/**
+ * Catalog sync
+ * Change detection, checkpoints and reports for incremental workflow catalog syncs.
+ * Dependency-free so the planning logic is testable outside the edge runtime.
+ */
+
+export type SyncStatus = 'running' | 'completed' | 'interrupted' | 'failed' | 'unchanged';
+
+/** Workflow as currently stored in unified_workflows */
+export interface StoredCatalogEntry {
+  id: string;
+  fileHash: string | null;
+  active: boolean;
+}
+
+/** Workflow as currently listed by the source */
+export interface RemoteCatalogEntry {
+  id: string;
+  fileHash: string;
+}
+
+export interface SyncPlan {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface SyncFailure {
+  id: string;
+  error: string;
+}
+
+export interface SyncReport {
+  source: string;
+  runId: string;
+  status: SyncStatus;
+  startedAt: string;
+  finishedAt?: string;
+  /** Source revision this run syncs to (commit SHA or listing hash) */
+  revision?: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+  failures: SyncFailure[];
+  /** Number of invocations this run took; > 1 means it was resumed */
+  invocations: number;
+}
+
+/**
+ * Progress of an unfinished run, persisted between invocations
+ */
+export interface SyncCheckpoint {
+  runId: string;
+  revision?: string;
+  /** Source-specific position, e.g. next listing page */
+  cursor: number;
+  /** Ids listed so far; needed to detect removals once the listing is complete */
+  seenIds?: string[];
+  report: SyncReport;
+}
+
+const MAX_REPORTED_FAILURES = 50;
+
+/**
+ * Compare stored and listed entries by file hash.
+ * Inactive (soft-deleted) entries that reappear count as updated; entries
+ * missing from a complete listing are removed.
+ */
+export function planSync(stored: StoredCatalogEntry[], remote: RemoteCatalogEntry[], listingComplete = true): SyncPlan {
+  const storedById = new Map(stored.map(entry => [entry.id, entry]));
+  const remoteIds = new Set<string>();
+  const plan: SyncPlan = { added: [], updated: [], removed: [], unchanged: [] };
+
+  remote.forEach(entry => {
+    if (remoteIds.has(entry.id)) return;
+    remoteIds.add(entry.id);
+
+    const existing = storedById.get(entry.id);
+    if (!existing) plan.added.push(entry.id);
+    else if (existing.fileHash !== entry.fileHash || !existing.active) plan.updated.push(entry.id);
+    else plan.unchanged.push(entry.id);
+  });
+
+  if (listingComplete) {
+    plan.removed = stored
+      .filter(entry => entry.active && !remoteIds.has(entry.id))
+      .map(entry => entry.id);
+  }
+
+  return plan;
+}
+
+export function createSyncReport(source: string, runId: string, startedAt: Date = new Date()): SyncReport {
+  return {
+    source,
+    runId,
+    status: 'running',
+    startedAt: startedAt.toISOString(),
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    failed: 0,
+    failures: [],
+    invocations: 1
+  };
+}
+
+/**
+ * Continue the report of an interrupted run, or start a new one
+ */
+export function resumeOrStartReport(
+  source: string,
+  checkpoint: SyncCheckpoint | null,
+  revision: string | undefined,
+  newRunId: () => string,
+  now: Date = new Date()
+): { report: SyncReport; resumed: boolean } {
+  if (checkpoint && (!revision || !checkpoint.revision || checkpoint.revision === revision)) {
+    return {
+      report: { ...checkpoint.report, status: 'running', invocations: checkpoint.report.invocations + 1 },
+      resumed: true
+    };
+  }
+  const report = createSyncReport(source, newRunId(), now);
+  report.revision = revision;
+  return { report, resumed: false };
+}
+
+export function recordFailure(report: SyncReport, id: string, error: unknown): void {
+  report.failed++;
+  if (report.failures.length < MAX_REPORTED_FAILURES) {
+    report.failures.push({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Stable id for a workflow in a source, e.g. ("github", "Zie619/n8n-workflows", "workflows/Slack/0001_x.json");
+ * without parts it is the id prefix of that source. Migration 20251019000012 derives the same ids
+ * for rows stored under the older positional ids (github-<n>, n8n-<n>).
+ */
+export function stableWorkflowId(source: string, ...parts: string[]): string {
+  const slug = parts
+    .join('-')
+    .replace(/\.json$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const prefix = source.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  return slug ? `${prefix}-${slug}` : prefix;
+}
+
+/**
+ * Short content hash (FNV-1a, hex) for sources without their own content hashes
+ */
+export function contentHash(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared embedding helpers
+ * One model for indexing (index-workflows-unified) and querying (openai-proxy 'embed'),
+ * so stored workflow vectors and query vectors live in the same space.
+ * Embeddings are OpenAI-only and always use OPENAI_API_KEY; the per-action provider
+ * configuration (llm-config.ts) applies to chat completions only.
+ */
+
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Embed texts with OpenAI; returns an empty list without API key or on failure
+ */
+export async function embedTexts(texts: string[], apiKey?: string): Promise<number[][]> {
+  if (!apiKey || texts.length === 0) return [];
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: EMBEDDING_MODEL,
+        input: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.data.map((d: { embedding: number[] }) => d.embedding);
+  } catch (error) {
+    console.error('Error generating embeddings:', error);
+    return [];
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * LLM Configuration for Supabase Edge Functions
+ *
+ * Reads provider credentials and per-action provider, model, temperature and
+ * token limits from environment variables; the providers themselves live in
+ * llm-providers.ts.
+ */
+
+import { createLLMProvider, DEFAULT_MODELS, type LLMProvider, type LLMProviderName } from './llm-providers.ts';
+
+export interface LLMActionConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} not configured on server`);
+  }
+  return value;
+}
+
+/**
+ * Create a provider from server environment variables
+ */
+export function createProviderFromEnv(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return createLLMProvider({
+        provider: 'openai',
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || undefined,
+      });
+    case 'azure-openai':
+      return createLLMProvider({
+        provider: 'azure-openai',
+        apiKey: requireEnv('AZURE_OPENAI_API_KEY'),
+        baseUrl: requireEnv('AZURE_OPENAI_ENDPOINT'),
+        apiVersion: Deno.env.get('AZURE_OPENAI_API_VERSION') || undefined,
+      });
+    case 'anthropic':
+      return createLLMProvider({
+        provider: 'anthropic',
+        apiKey: requireEnv('ANTHROPIC_API_KEY'),
+        baseUrl: Deno.env.get('ANTHROPIC_BASE_URL') || undefined,
+      });
+    case 'local':
+      return createLLMProvider({
+        provider: 'local',
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY') || undefined,
+        baseUrl: Deno.env.get('LOCAL_LLM_BASE_URL') || undefined,
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+function isProviderName(value: unknown): value is LLMProviderName {
+  return value === 'openai' || value === 'azure-openai' || value === 'anthropic' || value === 'local';
+}
+
+/**
+ * Resolve provider/model/limits for an action.
+ *
+ * Precedence, same as src/lib/llm/actionConfig.ts: request options > LLM_ACTION_CONFIG (JSON keyed
+ * by action) > LLM_PROVIDER / LLM_MODEL > action defaults. The provider is never taken from a request.
+ * Example: LLM_ACTION_CONFIG='{"generate-workflow":{"provider":"anthropic","model":"claude-3-5-sonnet-latest","maxTokens":3000}}'
+ */
+export function resolveActionConfig(
+  action: string,
+  defaults: { temperature: number; maxTokens: number },
+  request: { temperature?: number; maxTokens?: number } = {}
+): LLMActionConfig {
+  const envProvider = Deno.env.get('LLM_PROVIDER');
+  const baseProvider: LLMProviderName = isProviderName(envProvider) ? envProvider : 'openai';
+
+  let override: Partial<LLMActionConfig> = {};
+  const rawOverrides = Deno.env.get('LLM_ACTION_CONFIG');
+  if (rawOverrides) {
+    try {
+      override = JSON.parse(rawOverrides)[action] || {};
+    } catch (error) {
+      console.warn('Invalid LLM_ACTION_CONFIG, ignoring:', error);
+    }
+  }
+
+  const provider = isProviderName(override.provider) ? override.provider : baseProvider;
+  const model = override.model
+    || (provider === baseProvider ? Deno.env.get('LLM_MODEL') : undefined)
+    || DEFAULT_MODELS[provider];
+
+  return {
+    provider,
+    model,
+    temperature: request.temperature ?? override.temperature ?? defaults.temperature,
+    maxTokens: request.maxTokens ?? override.maxTokens ?? defaults.maxTokens,
+  };
+}
@@ -0,0 +1,461 @@
+/**
+ * Shared LLM Provider Layer
+ *
+ * Abstracts chat completions behind a small provider interface so the same
+ * actions can run against OpenAI, Azure OpenAI, Anthropic or a local
+ * OpenAI-compatible server (e.g. Ollama). Dependency-free so the client
+ * (src/lib/llm/providers.ts) uses the same implementation; configuration from
+ * server environment variables lives in llm-config.ts.
+ */
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'local' | 'stub';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequestOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  model: string;
+  provider: LLMProviderName;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMCompletion>;
+  /** Stream the completion; onDelta receives text as it arrives, the resolved value is the full completion */
+  stream?(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (text: string) => void): Promise<LLMCompletion>;
+}
+
+export interface LLMProviderSettings {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  /** Anthropic only: allow the request from a browser (development direct fallback) */
+  browserAccess?: boolean;
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openai': 'gpt-4o-mini',
+  'azure-openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'local': 'llama3.1',
+  'stub': 'stub'
+};
+
+/**
+ * Strip markdown code fences models like to wrap JSON in
+ */
+export function extractJsonContent(content: string): string {
+  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
+  if (jsonMatch) {
+    return jsonMatch[1].trim();
+  }
+  if (content.startsWith('```') && content.endsWith('```')) {
+    const lines = content.split('\n');
+    return lines.slice(1, -1).join('\n').trim();
+  }
+  return content;
+}
+
+async function readError(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || response.statusText || 'Unknown error';
+}
+
+/**
+ * Read a server-sent events body and pass each `data:` payload to onData
+ */
+export async function readServerSentEvents(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  flush(buffer);
+}
+
+/**
+ * Read an OpenAI-style chat completion stream (also used by Azure and local servers)
+ */
+async function readOpenAIStream(response: Response, onDelta: (text: string) => void) {
+  let content = '';
+  let model: string | undefined;
+  let usage: LLMCompletion['usage'];
+
+  await readServerSentEvents(response, (data) => {
+    if (data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    model = model || chunk.model;
+    usage = chunk.usage || usage;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+  });
+
+  return { content, model, usage };
+}
+
+/**
+ * Stream when the provider supports it, otherwise deliver the full completion as a single delta
+ */
+export async function streamCompletion(
+  provider: LLMProvider,
+  messages: LLMMessage[],
+  options: LLMRequestOptions,
+  onDelta: (text: string) => void
+): Promise<LLMCompletion> {
+  if (provider.stream) {
+    return await provider.stream(messages, options, onDelta);
+  }
+  const completion = await provider.complete(messages, options);
+  onDelta(completion.content);
+  return completion;
+}
+
+/**
+ * OpenAI chat completions; also serves any OpenAI-compatible server
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: LLMProviderName,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || DEFAULT_MODELS[this.name],
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        top_p: options.top_p ?? 1,
+        frequency_penalty: options.frequency_penalty ?? 0,
+        presence_penalty: options.presence_penalty ?? 0,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API Error: ${await readError(response)}`);
+    }
+
+    const data = await response.json();
+    return {
+      content: extractJsonContent(data.choices?.[0]?.message?.content || ''),
+      usage: data.usage,
+      model: data.model || options.model || DEFAULT_MODELS[this.name],
+      provider: this.name,
+    };
+  }
+
+  async stream(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || DEFAULT_MODELS[this.name],
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        top_p: options.top_p ?? 1,
+        frequency_penalty: options.frequency_penalty ?? 0,
+        presence_penalty: options.presence_penalty ?? 0,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API Error: ${await readError(response)}`);
+    }
+
+    const { content, model, usage } = await readOpenAIStream(response, onDelta);
+    return {
+      content: extractJsonContent(content),
+      usage,
+      model: model || options.model || DEFAULT_MODELS[this.name],
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * Azure OpenAI: the deployment name takes the place of the model
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly name = 'azure-openai' as const;
+
+  constructor(
+    private endpoint: string,
+    private apiKey: string,
+    private apiVersion = '2024-06-01'
+  ) {}
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMCompletion> {
+    const deployment = options.model || DEFAULT_MODELS[this.name];
+    const url = `${this.endpoint.replace(/\/$/, '')}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${this.apiVersion}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        top_p: options.top_p ?? 1,
+        frequency_penalty: options.frequency_penalty ?? 0,
+        presence_penalty: options.presence_penalty ?? 0,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`azure-openai API Error: ${await readError(response)}`);
+    }
+
+    const data = await response.json();
+    return {
+      content: extractJsonContent(data.choices?.[0]?.message?.content || ''),
+      usage: data.usage,
+      model: data.model || deployment,
+      provider: this.name,
+    };
+  }
+
+  async stream(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const deployment = options.model || DEFAULT_MODELS[this.name];
+    const url = `${this.endpoint.replace(/\/$/, '')}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${this.apiVersion}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        top_p: options.top_p ?? 1,
+        frequency_penalty: options.frequency_penalty ?? 0,
+        presence_penalty: options.presence_penalty ?? 0,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`azure-openai API Error: ${await readError(response)}`);
+    }
+
+    const { content, model, usage } = await readOpenAIStream(response, onDelta);
+    return {
+      content: extractJsonContent(content),
+      usage,
+      model: model || deployment,
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API: system prompts go into a separate field
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl = 'https://api.anthropic.com/v1',
+    private browserAccess = false
+  ) {}
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+      ...(this.browserAccess ? { 'anthropic-dangerous-direct-browser-access': 'true' } : {}),
+    };
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMCompletion> {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const conversation = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }));
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: options.model || DEFAULT_MODELS[this.name],
+        ...(system ? { system } : {}),
+        messages: conversation,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        ...(options.top_p !== undefined ? { top_p: options.top_p } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`anthropic API Error: ${await readError(response)}`);
+    }
+
+    const data = await response.json();
+    const text = ((data.content || []) as AnthropicContentBlock[])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+
+    return {
+      content: extractJsonContent(text),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      model: data.model || options.model || DEFAULT_MODELS[this.name],
+      provider: this.name,
+    };
+  }
+
+  async stream(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const conversation = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }));
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: options.model || DEFAULT_MODELS[this.name],
+        ...(system ? { system } : {}),
+        messages: conversation,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens || 1000,
+        ...(options.top_p !== undefined ? { top_p: options.top_p } : {}),
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`anthropic API Error: ${await readError(response)}`);
+    }
+
+    let text = '';
+    let model: string | undefined;
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    await readServerSentEvents(response, (data) => {
+      const event = JSON.parse(data);
+      if (event.type === 'message_start') {
+        model = event.message?.model;
+        promptTokens = event.message?.usage?.input_tokens ?? 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        completionTokens = event.usage?.output_tokens ?? completionTokens;
+      } else if (event.type === 'error') {
+        throw new Error(`anthropic API Error: ${event.error?.message || 'stream error'}`);
+      }
+    });
+
+    return {
+      content: extractJsonContent(text),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      model: model || options.model || DEFAULT_MODELS[this.name],
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * Create a provider from explicit settings
+ */
+export function createLLMProvider(settings: LLMProviderSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      if (!settings.apiKey) throw new Error('OpenAI API key not configured');
+      return new OpenAICompatibleProvider('openai', settings.baseUrl || 'https://api.openai.com/v1', settings.apiKey);
+    case 'azure-openai':
+      if (!settings.apiKey || !settings.baseUrl) throw new Error('Azure OpenAI endpoint and API key required');
+      return new AzureOpenAIProvider(settings.baseUrl, settings.apiKey, settings.apiVersion);
+    case 'anthropic':
+      if (!settings.apiKey) throw new Error('Anthropic API key not configured');
+      return new AnthropicProvider(settings.apiKey, settings.baseUrl, settings.browserAccess);
+    case 'local':
+      return new OpenAICompatibleProvider('local', settings.baseUrl || 'http://localhost:11434/v1', settings.apiKey);
+    default:
+      throw new Error(`Provider ${settings.provider} cannot be created from settings`);
+  }
+}
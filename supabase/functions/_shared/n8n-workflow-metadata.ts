@@ -0,0 +1,219 @@
+/**
+ * n8n workflow metadata
+ * Derives catalog metadata (integrations, trigger, size, credentials, branching)
+ * from a workflow's `nodes` and `connections` instead of its file name.
+ * Dependency-free so it runs in edge functions and in vitest alike.
+ */
+
+export type WorkflowComplexity = 'Low' | 'Medium' | 'High';
+export type WorkflowTriggerType = 'Manual' | 'Webhook' | 'Scheduled' | 'Complex';
+
+export interface N8nNodeLike {
+  name?: string;
+  type?: string;
+  disabled?: boolean;
+  credentials?: Record<string, unknown>;
+  parameters?: Record<string, unknown>;
+}
+
+export interface N8nWorkflowLike {
+  name?: string;
+  nodes?: N8nNodeLike[];
+  connections?: Record<string, Record<string, Array<Array<{ node?: string }> | null> | undefined>>;
+  tags?: Array<string | { name?: string }>;
+}
+
+export interface N8nWorkflowMetadata {
+  name?: string;
+  integrations: string[];
+  triggerNodeType?: string;
+  triggerType: WorkflowTriggerType;
+  nodeCount: number;
+  connectionCount: number;
+  credentialsRequired: string[];
+  branchingDepth: number;
+  complexity: WorkflowComplexity;
+  tags: string[];
+}
+
+const NODE_TYPE_PREFIXES = ['n8n-nodes-base.', '@n8n/n8n-nodes-langchain.', 'n8n-nodes-'];
+
+// Flow-control and data-shaping nodes; they are not something a user has to connect
+const CORE_NODES = new Set([
+  'start', 'manualTrigger', 'scheduleTrigger', 'cron', 'interval', 'stickyNote', 'noOp',
+  'set', 'if', 'switch', 'merge', 'filter', 'function', 'functionItem', 'code', 'wait',
+  'splitInBatches', 'splitOut', 'aggregate', 'itemLists', 'sort', 'limit', 'removeDuplicates',
+  'dateTime', 'renameKeys', 'executeWorkflow', 'executeWorkflowTrigger', 'respondToWebhook',
+  'stopAndError', 'errorTrigger', 'compareDatasets', 'summarize', 'moveBinaryData', 'crypto',
+  'xml', 'html', 'markdown', 'spreadsheetFile', 'readBinaryFile', 'writeBinaryFile'
+]);
+
+const SCHEDULE_TRIGGERS = new Set(['scheduleTrigger', 'cron', 'interval']);
+const MANUAL_TRIGGERS = new Set(['manualTrigger', 'start', 'executeWorkflowTrigger']);
+
+const DISPLAY_NAMES: Record<string, string> = {
+  httpRequest: 'HTTP Request',
+  webhook: 'Webhook',
+  formTrigger: 'Form',
+  openAi: 'OpenAI',
+  lmChatOpenAi: 'OpenAI',
+  lmChatAnthropic: 'Anthropic',
+  emailSend: 'Email',
+  emailReadImap: 'Email',
+  gmail: 'Gmail',
+  googleSheets: 'Google Sheets',
+  googleDrive: 'Google Drive',
+  googleCalendar: 'Google Calendar',
+  hubspot: 'HubSpot',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  quickbooks: 'QuickBooks',
+  mySql: 'MySQL',
+  postgres: 'Postgres',
+  mongoDb: 'MongoDB',
+  awsS3: 'AWS S3',
+  microsoftTeams: 'Microsoft Teams',
+  microsoftOutlook: 'Microsoft Outlook',
+  microsoftExcel: 'Microsoft Excel',
+  whatsApp: 'WhatsApp',
+  linkedIn: 'LinkedIn',
+  youTube: 'YouTube'
+};
+
+/**
+ * Short node type without package prefix, e.g. "n8n-nodes-base.googleSheets" -> "googleSheets"
+ */
+export function shortNodeType(type: string): string {
+  const prefix = NODE_TYPE_PREFIXES.find(p => type.startsWith(p));
+  const short = prefix ? type.slice(prefix.length) : type;
+  return short.includes('.') ? short.slice(short.lastIndexOf('.') + 1) : short;
+}
+
+/**
+ * Human-readable integration name for a node type, or null for core nodes
+ */
+export function integrationName(type: string): string | null {
+  const short = shortNodeType(type);
+  if (CORE_NODES.has(short)) return null;
+
+  const base = short.replace(/(Trigger|Tool)$/, '') || short;
+  if (DISPLAY_NAMES[short]) return DISPLAY_NAMES[short];
+  if (DISPLAY_NAMES[base]) return DISPLAY_NAMES[base];
+  return base
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, c => c.toUpperCase());
+}
+
+/**
+ * Whether a node starts executions (webhooks, schedules, app triggers, manual start)
+ */
+export function isTriggerNode(type: string): boolean {
+  const short = shortNodeType(type);
+  return short.endsWith('Trigger') || short === 'webhook' || SCHEDULE_TRIGGERS.has(short) || short === 'start';
+}
+
+function triggerTypeOf(types: string[]): WorkflowTriggerType {
+  if (types.length === 0) return 'Manual';
+  if (types.length > 1) return 'Complex';
+  const short = shortNodeType(types[0]);
+  if (SCHEDULE_TRIGGERS.has(short)) return 'Scheduled';
+  if (MANUAL_TRIGGERS.has(short)) return 'Manual';
+  // Webhooks, forms and app triggers all start on an external event
+  return 'Webhook';
+}
+
+/**
+ * Most branch points (nodes with more than one outgoing edge) on any path from a root
+ */
+function computeBranchingDepth(adjacency: Map<string, string[]>, roots: string[]): number {
+  const memo = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const depth = (node: string): number => {
+    if (memo.has(node)) return memo.get(node)!;
+    if (visiting.has(node)) return 0; // loops (e.g. pagination) do not add depth
+    visiting.add(node);
+    const targets = adjacency.get(node) || [];
+    const below = targets.reduce((max, target) => Math.max(max, depth(target)), 0);
+    visiting.delete(node);
+    const result = below + (targets.length > 1 ? 1 : 0);
+    memo.set(node, result);
+    return result;
+  };
+
+  return roots.reduce((max, root) => Math.max(max, depth(root)), 0);
+}
+
+function complexityOf(nodeCount: number, branchingDepth: number, integrationCount: number): WorkflowComplexity {
+  if (nodeCount > 15 || branchingDepth >= 3 || integrationCount >= 5) return 'High';
+  if (nodeCount > 6 || branchingDepth >= 1 || integrationCount >= 3) return 'Medium';
+  return 'Low';
+}
+
+const slug = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Analyze an n8n workflow JSON; throws if the document has no nodes array
+ */
+export function analyzeN8nWorkflow(workflow: N8nWorkflowLike): N8nWorkflowMetadata {
+  if (!workflow || !Array.isArray(workflow.nodes)) {
+    throw new Error('Not an n8n workflow: missing nodes');
+  }
+
+  const nodes = workflow.nodes.filter(node => node && typeof node.type === 'string' && shortNodeType(node.type) !== 'stickyNote');
+  const activeNodes = nodes.filter(node => !node.disabled);
+  const nodeNames = new Set(nodes.map(node => node.name).filter((name): name is string => !!name));
+
+  const integrations = Array.from(new Set(
+    activeNodes.map(node => integrationName(node.type!)).filter((name): name is string => !!name)
+  )).sort();
+
+  const credentialsRequired = Array.from(new Set(
+    activeNodes.flatMap(node => Object.keys(node.credentials || {}))
+  )).sort();
+
+  // Edges from the connections map; dangling targets (deleted nodes) are ignored
+  const adjacency = new Map<string, string[]>();
+  let connectionCount = 0;
+  Object.entries(workflow.connections || {}).forEach(([source, outputs]) => {
+    if (!nodeNames.has(source)) return;
+    Object.values(outputs || {}).forEach(outputList => {
+      (outputList || []).forEach(output => {
+        (output || []).forEach(edge => {
+          if (!edge?.node || !nodeNames.has(edge.node)) return;
+          connectionCount++;
+          adjacency.set(source, [...(adjacency.get(source) || []), edge.node]);
+        });
+      });
+    });
+  });
+
+  const triggers = activeNodes.filter(node => isTriggerNode(node.type!));
+  const hasIncoming = new Set(Array.from(adjacency.values()).flat());
+  const roots = triggers.length > 0
+    ? triggers.map(node => node.name!).filter(Boolean)
+    : Array.from(nodeNames).filter(name => !hasIncoming.has(name));
+  const branchingDepth = computeBranchingDepth(adjacency, roots);
+
+  const triggerType = triggerTypeOf(triggers.map(node => node.type!));
+  const ownTags = (workflow.tags || [])
+    .map(tag => (typeof tag === 'string' ? tag : tag?.name || ''))
+    .filter(Boolean);
+
+  return {
+    name: workflow.name?.trim() || undefined,
+    integrations,
+    triggerNodeType: triggers[0]?.type,
+    triggerType,
+    nodeCount: nodes.length,
+    connectionCount,
+    credentialsRequired,
+    branchingDepth,
+    complexity: complexityOf(nodes.length, branchingDepth, integrations.length),
+    tags: Array.from(new Set([
+      ...ownTags.map(slug),
+      ...integrations.map(slug),
+      slug(triggerType)
+    ])).filter(Boolean)
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * n8n workflow validator
+ * Static checks for n8n workflow JSON: node types, connections, trigger, reachability,
+ * node names, required parameters of common nodes and hardcoded secrets.
+ * Errors make a workflow invalid; warnings are reported but keep it valid.
+ * Dependency-free so the catalog sync, the generator and the admin UI share one rule set.
+ */
+
+import { isTriggerNode, shortNodeType } from './n8n-workflow-metadata.ts';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'invalid_structure'
+  | 'unknown_node_type'
+  | 'duplicate_node_name'
+  | 'dangling_connection'
+  | 'missing_trigger'
+  | 'disconnected_node'
+  | 'missing_parameter'
+  | 'hardcoded_secret';
+
+export interface WorkflowDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  node?: string;
+  parameter?: string;
+}
+
+export interface WorkflowValidationResult {
+  status: 'valid' | 'invalid';
+  diagnostics: WorkflowDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface WorkflowValidationOptions {
+  /** Report unknown node types, missing parameters and secrets as errors (generated workflows) */
+  strict?: boolean;
+  /** Source lists node types only (n8n.io listing); skip name, connection and parameter checks */
+  nodesOnly?: boolean;
+}
+
+const BASE_PACKAGE = 'n8n-nodes-base';
+const LANGCHAIN_PACKAGE = '@n8n/n8n-nodes-langchain';
+const NODE_TYPE_FORMAT = /^(@[a-z0-9-]+\/)?n8n-nodes-[a-z0-9-]+\.[A-Za-z][A-Za-z0-9]*$/;
+
+// Built-in nodes seen in the catalog; `<name>Trigger` and `<name>Tool` variants are accepted too
+const KNOWN_NODE_TYPES: Record<string, Set<string>> = {
+  [BASE_PACKAGE]: new Set([
+    'activeCampaign', 'aggregate', 'airtable', 'aiTransform', 'asana', 'awsLambda', 'awsS3', 'awsSes', 'awsSns',
+    'awsSqs', 'awsTextract', 'baserow', 'calendly', 'chargebee', 'clickUp', 'clockify', 'code', 'compareDatasets',
+    'compression', 'convertToFile', 'cron', 'crypto', 'dateTime', 'debugHelper', 'discord', 'dropbox', 'editImage',
+    'elasticsearch', 'email', 'emailReadImap', 'emailSend', 'error', 'executeCommand', 'executeWorkflow',
+    'executionData', 'extractFromFile', 'facebookGraphApi', 'facebookLeadAds', 'filter', 'form', 'ftp', 'function',
+    'functionItem', 'github', 'gitlab', 'gmail', 'googleBigQuery', 'googleCalendar', 'googleContacts', 'googleDocs',
+    'googleDrive', 'googleSheets', 'googleSlides', 'googleTranslate', 'graphql', 'html', 'htmlExtract', 'httpRequest',
+    'hubspot', 'if', 'interval', 'itemLists', 'jira', 'jotForm', 'kafka', 'limit', 'linear', 'linkedIn', 'localFile',
+    'mailchimp', 'mailerLite', 'manual', 'markdown', 'mattermost', 'merge', 'microsoftExcel', 'microsoftOneDrive',
+    'microsoftOutlook', 'microsoftSql', 'microsoftTeams', 'microsoftToDo', 'mongoDb', 'monday', 'moveBinaryData',
+    'mqtt', 'mySql', 'n8n', 'noOp', 'nocoDb', 'notion', 'odoo', 'openAi', 'perplexity', 'pipedrive', 'postgres',
+    'quickbooks', 'rabbitmq', 'readBinaryFile', 'readBinaryFiles', 'readPdf', 'readWriteFile', 'redis',
+    'removeDuplicates', 'renameKeys', 'respondToWebhook', 'rssFeedRead', 'salesforce', 'schedule', 'sendGrid',
+    'sentry', 'set', 'shopify', 'slack', 'sort', 'splitInBatches', 'splitOut', 'spreadsheetFile', 'ssh', 'start',
+    'stickyNote', 'stopAndError', 'stripe', 'summarize', 'supabase', 'switch', 'telegram', 'todoist', 'trello',
+    'twilio', 'twitter', 'typeform', 'wait', 'webhook', 'whatsApp', 'wooCommerce', 'wordpress', 'workflow',
+    'writeBinaryFile', 'xml', 'youTube', 'zendesk', 'zoom'
+  ]),
+  [LANGCHAIN_PACKAGE]: new Set([
+    'agent', 'chainLlm', 'chainRetrievalQa', 'chainSummarization', 'chat', 'code', 'documentDefaultDataLoader',
+    'documentGithubLoader', 'embeddingsAzureOpenAi', 'embeddingsGoogleGemini', 'embeddingsMistralCloud',
+    'embeddingsOllama', 'embeddingsOpenAi', 'informationExtractor', 'lmChatAnthropic', 'lmChatAzureOpenAi',
+    'lmChatDeepSeek', 'lmChatGoogleGemini', 'lmChatGroq', 'lmChatMistralCloud', 'lmChatOllama', 'lmChatOpenAi',
+    'lmChatOpenRouter', 'lmOllama', 'lmOpenAi', 'manualChat', 'mcp', 'mcpClient', 'memoryBufferWindow',
+    'memoryPostgresChat', 'memoryRedisChat', 'openAi', 'outputParserAutofixing', 'outputParserItemList',
+    'outputParserStructured', 'rerankerCohere', 'retrieverVectorStore', 'sentimentAnalysis', 'textClassifier',
+    'textSplitterCharacterTextSplitter', 'textSplitterRecursiveCharacterTextSplitter', 'textSplitterTokenSplitter',
+    'toolCalculator', 'toolCode', 'toolHttpRequest', 'toolSerpApi', 'toolThink', 'toolVectorStore',
+    'toolWikipedia', 'toolWorkflow', 'vectorStoreInMemory', 'vectorStorePGVector', 'vectorStorePinecone',
+    'vectorStoreQdrant', 'vectorStoreSupabase'
+  ])
+};
+
+interface ParameterRule {
+  /** At least one of these parameters must be set */
+  anyOf: string[];
+  /** Rule applies only to these operations */
+  when?: (parameters: Record<string, unknown>) => boolean;
+}
+
+// Parameters without a usable default; n8n omits parameters left at their default from exports
+const REQUIRED_PARAMETERS: Record<string, ParameterRule[]> = {
+  httpRequest: [{ anyOf: ['url'] }],
+  toolHttpRequest: [{ anyOf: ['url'] }],
+  webhook: [{ anyOf: ['path'] }],
+  emailSend: [{ anyOf: ['toEmail'] }],
+  if: [{ anyOf: ['conditions'] }],
+  googleSheets: [{ anyOf: ['documentId', 'sheetId'] }],
+  executeWorkflow: [{ anyOf: ['workflowId'], when: parameters => (parameters.source ?? 'database') === 'database' }],
+  postgres: [{ anyOf: ['query'], when: parameters => parameters.operation === 'executeQuery' }],
+  mySql: [{ anyOf: ['query'], when: parameters => parameters.operation === 'executeQuery' }]
+};
+
+export const SECRET_PARAMETER = /^(api[_-]?key|apikey|token|access[_-]?token|bearer[_-]?token|password|secret|client[_-]?secret|private[_-]?key)$/i;
+export const SECRET_HEADER = /^(authorization|x-api-key|api-key|x-auth-token)$/i;
+// Well-known key formats (OpenAI, Anthropic, GitHub, Slack, AWS, Stripe, Google) found anywhere in a parameter
+const SECRET_VALUE = /\b(sk-(ant-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{30,}|xox[abpr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|[sr]k_live_[A-Za-z0-9]{16,}|AIza[0-9A-Za-z_-]{35})\b/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLiteral = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && !value.startsWith('=');
+
+const isMissing = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+  // Resource locators ({ mode, value }) are empty when their value is
+  || (isRecord(value) && 'mode' in value && (value.value === undefined || value.value === ''));
+
+/**
+ * Whether a node type is a known built-in node; `null` when it belongs to a community package
+ */
+function isKnownNodeType(type: string): boolean | null {
+  const separator = type.lastIndexOf('.');
+  const packageName = type.slice(0, separator);
+  const known = KNOWN_NODE_TYPES[packageName];
+  if (!known) return null;
+  const short = type.slice(separator + 1);
+  return known.has(short) || known.has(short.replace(/(Trigger|Tool)$/, ''));
+}
+
+/**
+ * Hardcoded secrets in node parameters; expressions ("={{ ... }}") are fine
+ */
+export function findHardcodedSecrets(parameters: unknown, path = ''): string[] {
+  if (Array.isArray(parameters)) {
+    return parameters.flatMap((item, index) => findHardcodedSecrets(item, `${path}[${index}]`));
+  }
+  if (!isRecord(parameters)) {
+    return isLiteral(parameters) && SECRET_VALUE.test(parameters) ? [path] : [];
+  }
+
+  const isSecretHeader = typeof parameters.name === 'string' && SECRET_HEADER.test(parameters.name) && isLiteral(parameters.value);
+  return Object.entries(parameters).flatMap(([key, value]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (key === 'value' && isSecretHeader) return [`${path} (${parameters.name})`];
+    if (SECRET_PARAMETER.test(key) && isLiteral(value)) return [childPath];
+    return findHardcodedSecrets(value, childPath);
+  });
+}
+
+/**
+ * Validate an n8n workflow document
+ */
+export function validateN8nWorkflow(workflow: unknown, options: WorkflowValidationOptions = {}): WorkflowValidationResult {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const lint = (code: DiagnosticCode, message: string, extra: Partial<WorkflowDiagnostic> = {}) =>
+    diagnostics.push({ code, severity: options.strict ? 'error' : 'warning', message, ...extra });
+  const fail = (code: DiagnosticCode, message: string, extra: Partial<WorkflowDiagnostic> = {}) =>
+    diagnostics.push({ code, severity: 'error', message, ...extra });
+
+  if (!isRecord(workflow) || !Array.isArray(workflow.nodes)) {
+    fail('invalid_structure', 'Workflow has no nodes array');
+    return summarize(diagnostics);
+  }
+
+  const nodes = workflow.nodes.filter(isRecord);
+  if (workflow.nodes.length === 0) {
+    fail('invalid_structure', 'Workflow has no nodes');
+  } else if (nodes.length < workflow.nodes.length) {
+    fail('invalid_structure', 'Workflow contains entries that are not nodes');
+  }
+
+  const names = new Set<string>();
+  nodes.forEach((node, index) => {
+    const name = typeof node.name === 'string' ? node.name : '';
+    const label = name || `#${index + 1}`;
+    // Listings carry node types without names
+    if (!options.nodesOnly) {
+      if (!name) {
+        fail('invalid_structure', `Node ${label} has no name`, { node: label });
+      } else if (names.has(name)) {
+        fail('duplicate_node_name', `Node name "${name}" is used more than once`, { node: name });
+      }
+      names.add(name);
+    }
+
+    if (typeof node.type !== 'string' || !NODE_TYPE_FORMAT.test(node.type)) {
+      fail('unknown_node_type', `Node "${label}" has an invalid type ${JSON.stringify(node.type ?? null)}`, { node: label });
+    } else if (isKnownNodeType(node.type) === false) {
+      lint('unknown_node_type', `Node "${label}" uses the unknown type ${node.type}`, { node: label });
+    }
+  });
+
+  const activeNodes = nodes.filter(node => !node.disabled && typeof node.type === 'string' && shortNodeType(node.type) !== 'stickyNote');
+  const triggers = activeNodes.filter(node => isTriggerNode(node.type as string));
+  if (nodes.length > 0 && triggers.length === 0) {
+    fail('missing_trigger', 'Workflow has no trigger node');
+  }
+
+  if (options.nodesOnly) return summarize(diagnostics);
+
+  // Edges, keyed by node name as in n8n; ai_* connections attach sub-nodes to their agent
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    neighbours.set(a, (neighbours.get(a) || new Set()).add(b));
+    neighbours.set(b, (neighbours.get(b) || new Set()).add(a));
+  };
+  Object.entries(isRecord(workflow.connections) ? workflow.connections : {}).forEach(([source, outputs]) => {
+    if (!names.has(source)) {
+      fail('dangling_connection', `Connections start at the missing node "${source}"`, { node: source });
+      return;
+    }
+    Object.values(isRecord(outputs) ? outputs : {}).forEach(outputList => {
+      (Array.isArray(outputList) ? outputList : []).forEach(output => {
+        (Array.isArray(output) ? output : []).forEach(edge => {
+          const target = isRecord(edge) ? edge.node : undefined;
+          if (typeof target !== 'string' || !names.has(target)) {
+            fail('dangling_connection', `"${source}" connects to the missing node "${String(target)}"`, { node: source });
+            return;
+          }
+          link(source, target);
+        });
+      });
+    });
+  });
+
+  // Nodes in a part of the graph without a trigger never run
+  const reachable = new Set<string>();
+  const queue = triggers.map(node => node.name as string);
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (reachable.has(name)) continue;
+    reachable.add(name);
+    neighbours.get(name)?.forEach(next => queue.push(next));
+  }
+  activeNodes.forEach(node => {
+    const name = node.name as string;
+    if (!name || reachable.has(name) || activeNodes.length === 1) return;
+    if (triggers.length > 0 || !neighbours.has(name)) {
+      lint('disconnected_node', `Node "${name}" is not connected to a trigger`, { node: name });
+    }
+  });
+
+  activeNodes.forEach(node => {
+    const name = (node.name as string) || String(node.type);
+    const parameters = isRecord(node.parameters) ? node.parameters : {};
+    (REQUIRED_PARAMETERS[shortNodeType(node.type as string)] || [])
+      .filter(rule => !rule.when || rule.when(parameters))
+      .filter(rule => rule.anyOf.every(key => isMissing(parameters[key])))
+      .forEach(rule => lint('missing_parameter', `Node "${name}" is missing the parameter ${rule.anyOf.join(' / ')}`, {
+        node: name,
+        parameter: rule.anyOf[0]
+      }));
+
+    findHardcodedSecrets(parameters).forEach(path => lint('hardcoded_secret', `Node "${name}" contains a hardcoded secret in ${path}`, {
+      node: name,
+      parameter: path
+    }));
+  });
+
+  return summarize(diagnostics);
+}
+
+function summarize(diagnostics: WorkflowDiagnostic[]): WorkflowValidationResult {
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  return {
+    status: errorCount > 0 ? 'invalid' : 'valid',
+    diagnostics,
+    errorCount,
+    warningCount: diagnostics.length - errorCount
+  };
+}
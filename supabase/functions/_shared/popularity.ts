@@ -0,0 +1,154 @@
+/**
+ * Workflow popularity
+ * Combines real signals into the 0-100 `popularity` score on unified_workflows:
+ *
+ *   community  = log(1 + stars + 2·forks) / log(1 + 10 000)     (GitHub repo sources)
+ *   source     = log(1 + template views) / log(1 + 100 000)     (n8n.io template API)
+ *   internal   = log(1 + Σ decay(view) + 3·Σ decay(download)) / log(1 + 1 000)
+ *                decay(event) = 0.5 ^ (age in days / 30)        (our own marketplace events)
+ *
+ *   external   = weighted mean of the available external components (community 0.4,
+ *                source 0.3), each capped at 1; missing signals do not count as zero
+ *   base       = max(external, weighted mean including internal 0.3)
+ *   freshness  = 0.5 ^ (days since last commit / 180), 1 when unknown
+ *   popularity = round(100 · base · (0.5 + 0.5 · freshness))
+ *
+ * Log scaling keeps a handful of mega-repos from flattening everything else;
+ * the freshness factor halves the score of long-abandoned sources at most.
+ * Our own events can only raise the score: a handful of views starts near zero and
+ * must not drag down a well-known repository. Each session counts at most once per
+ * workflow, type and day, and events without a session are ignored. The
+ * record-workflow-interaction function derives the session from the caller's address
+ * (interactionSessionKey), so clients cannot mint new sessions to add up views.
+ */
+
+export interface PopularityEvent {
+  type: 'view' | 'download';
+  occurredAt: string | Date;
+  sessionId?: string | null;
+}
+
+export interface PopularitySignals {
+  githubStars?: number;
+  githubForks?: number;
+  lastCommitAt?: string;
+  sourceViews?: number;
+  events?: PopularityEvent[];
+}
+
+export interface PopularityBreakdown {
+  score: number;
+  components: {
+    community?: number;
+    source?: number;
+    internal?: number;
+  };
+  freshness: number;
+  decayedViews: number;
+  decayedDownloads: number;
+}
+
+export const POPULARITY_WEIGHTS = { community: 0.4, source: 0.3, internal: 0.3 } as const;
+export const EVENT_HALF_LIFE_DAYS = 30;
+export const COMMIT_HALF_LIFE_DAYS = 180;
+export const DOWNLOAD_EVENT_WEIGHT = 3;
+/** Events one session may record per hour before record-workflow-interaction answers 429 */
+export const MAX_INTERACTIONS_PER_HOUR = 120;
+
+const COMMUNITY_SATURATION = 10_000;
+const SOURCE_VIEWS_SATURATION = 100_000;
+const INTERNAL_SATURATION = 1_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const logScale = (value: number, saturation: number) =>
+  Math.min(1, Math.log1p(Math.max(0, value)) / Math.log1p(saturation));
+
+const halfLifeDecay = (ageDays: number, halfLifeDays: number) =>
+  Math.pow(0.5, Math.max(0, ageDays) / halfLifeDays);
+
+/**
+ * One event per session, type and UTC day; repeated clicks and reloads do not add up
+ */
+export function dedupeSessionEvents(events: PopularityEvent[]): PopularityEvent[] {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    if (!event.sessionId) return false;
+    const key = `${event.sessionId}|${event.type}|${new Date(event.occurredAt).toISOString().slice(0, 10)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Sum of event weights after exponential time decay
+ */
+export function decayedEventCount(events: PopularityEvent[], type: PopularityEvent['type'], now: Date): number {
+  return events
+    .filter(event => event.type === type)
+    .reduce((sum, event) => {
+      const ageDays = (now.getTime() - new Date(event.occurredAt).getTime()) / DAY_MS;
+      return sum + halfLifeDecay(ageDays, EVENT_HALF_LIFE_DAYS);
+    }, 0);
+}
+
+export function computePopularity(signals: PopularitySignals, now: Date = new Date()): PopularityBreakdown {
+  const components: PopularityBreakdown['components'] = {};
+
+  if (signals.githubStars !== undefined || signals.githubForks !== undefined) {
+    components.community = logScale((signals.githubStars || 0) + 2 * (signals.githubForks || 0), COMMUNITY_SATURATION);
+  }
+  if (signals.sourceViews !== undefined) {
+    components.source = logScale(signals.sourceViews, SOURCE_VIEWS_SATURATION);
+  }
+
+  const external = weightedMean(components);
+
+  const events = dedupeSessionEvents(signals.events || []);
+  const decayedViews = decayedEventCount(events, 'view', now);
+  const decayedDownloads = decayedEventCount(events, 'download', now);
+  if (events.length > 0) {
+    components.internal = logScale(decayedViews + DOWNLOAD_EVENT_WEIGHT * decayedDownloads, INTERNAL_SATURATION);
+  }
+  const base = Math.max(external, weightedMean(components));
+
+  const freshness = signals.lastCommitAt
+    ? halfLifeDecay((now.getTime() - new Date(signals.lastCommitAt).getTime()) / DAY_MS, COMMIT_HALF_LIFE_DAYS)
+    : 1;
+
+  return {
+    score: Math.round(100 * base * (0.5 + 0.5 * freshness)),
+    components,
+    freshness,
+    decayedViews,
+    decayedDownloads
+  };
+}
+
+function weightedMean(components: PopularityBreakdown['components']): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(components) as Array<keyof typeof components>).forEach(key => {
+    weighted += POPULARITY_WEIGHTS[key] * components[key]!;
+    totalWeight += POPULARITY_WEIGHTS[key];
+  });
+  return totalWeight > 0 ? weighted / totalWeight : 0;
+}
+
+/**
+ * Caller address as reported by the edge proxy; the first x-forwarded-for hop is the client
+ */
+export function clientAddress(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip') || null;
+}
+
+/**
+ * Session key for an address on a UTC day: SHA-256 of both, so no address is stored and
+ * keys cannot be linked across days
+ */
+export async function interactionSessionKey(address: string, now: Date = new Date()): Promise<string> {
+  const input = new TextEncoder().encode(`${address}|${now.toISOString().slice(0, 10)}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
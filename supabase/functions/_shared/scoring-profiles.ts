@@ -0,0 +1,366 @@
+/**
+ * Scoring profiles
+ * Named, versioned weightings for agent scoring (src/lib/solutions/agentScoring.ts)
+ * and the workflow quality prior (index-workflows-unified). Profiles are stored in
+ * scoring_profiles, one row per version with exactly one active version per slug;
+ * the built-in profiles below seed the table and are the fallback when it is
+ * unreachable. Stored configs may be partial, missing keys come from `default`.
+ */
+
+export interface AgentProfileConfig {
+  tierThresholds: {
+    generalist: number;
+    specialist: number;
+    experimental: number;
+  };
+  /** Weights of the overall score, 0-1 each, summing to 1 */
+  weights: {
+    capabilityCoverage: number;
+    domainAlignment: number;
+    capabilityDepth: number;
+    domainBreadth: number;
+    dataQuality: number;
+    modelQuality: number;
+    providerReliability: number;
+  };
+  /** Multipliers on the overall score, 1 = no effect */
+  boostFactors: {
+    coreCapabilities: number;
+    multipleDomains: number;
+    highQualityModel: number;
+    reliableProvider: number;
+    comprehensiveData: number;
+    quickSetup: number; // setup time 'Quick' and difficulty 'Beginner'
+  };
+  coreCapabilities: string[];
+  highQualityModels: string[];
+  reliableProviders: string[];
+  /** Only agents under an open-source license are eligible */
+  openSourceOnly: boolean;
+  /** Providers whose agents are never eligible (lowercase) */
+  excludedProviders: string[];
+}
+
+export interface WorkflowPriorConfig {
+  base: number;
+  boosts: {
+    verified: number;
+    verifiedAuthor: number;
+    aiGenerated: number;
+    highRating: number;
+    popular: number;
+    downloads: number;
+    openSourceLicense: number;
+    lowComplexity: number;
+  };
+  penalties: {
+    highComplexity: number;
+    unknownLicense: number;
+  };
+  thresholds: {
+    rating: number;
+    popularity: number;
+    downloads: number;
+  };
+}
+
+export interface ScoringProfileConfig {
+  agent: AgentProfileConfig;
+  workflow: WorkflowPriorConfig;
+}
+
+export interface ScoringProfile extends ScoringProfileConfig {
+  slug: string;
+  name: string;
+  description: string;
+  version: number;
+}
+
+/** Attached to every result so callers can tell which weighting produced it */
+export interface ScoringProfileRef {
+  slug: string;
+  version: number;
+}
+
+/** Workflow fields the quality prior reads */
+export interface QualityPriorInput {
+  verified?: boolean;
+  isAIGenerated?: boolean;
+  rating?: number;
+  popularity?: number;
+  downloads?: number;
+  license?: string;
+  complexity?: string;
+  author?: { verified?: boolean };
+}
+
+/** unified_workflows columns the quality prior reads; rows come back snake_case */
+export interface QualityPriorRow {
+  verified?: boolean | null;
+  author_verified?: boolean | null;
+  is_ai_generated?: boolean | null;
+  rating?: number | null;
+  popularity?: number | null;
+  downloads?: number | null;
+  license?: string | null;
+  complexity?: string | null;
+}
+
+/** Row of scoring_profiles */
+export interface ScoringProfileRow {
+  slug: string;
+  version: number;
+  name: string;
+  description: string | null;
+  config: unknown;
+  is_active: boolean;
+}
+
+export const DEFAULT_SCORING_PROFILE_SLUG = 'default';
+
+const DEFAULT_CONFIG: ScoringProfileConfig = {
+  agent: {
+    tierThresholds: { generalist: 85, specialist: 70, experimental: 50 },
+    weights: {
+      capabilityCoverage: 0.25,
+      domainAlignment: 0.20,
+      capabilityDepth: 0.15,
+      domainBreadth: 0.10,
+      dataQuality: 0.15,
+      modelQuality: 0.10,
+      providerReliability: 0.05
+    },
+    boostFactors: {
+      coreCapabilities: 1.2,
+      multipleDomains: 1.15,
+      highQualityModel: 1.1,
+      reliableProvider: 1.1,
+      comprehensiveData: 1.05,
+      quickSetup: 1
+    },
+    coreCapabilities: ['web_search', 'data_analysis', 'file_io', 'email_send'],
+    highQualityModels: ['gpt-4', 'gpt-4-turbo', 'claude-3-opus', 'claude-3-sonnet', 'gemini-pro'],
+    reliableProviders: ['openai', 'anthropic', 'google', 'microsoft'],
+    openSourceOnly: false,
+    excludedProviders: []
+  },
+  workflow: {
+    base: 0.5,
+    boosts: {
+      verified: 0.2,
+      verifiedAuthor: 0,
+      aiGenerated: 0.1,
+      highRating: 0.1,
+      popular: 0.1,
+      downloads: 0.1,
+      openSourceLicense: 0,
+      lowComplexity: 0
+    },
+    penalties: { highComplexity: 0, unknownLicense: 0 },
+    thresholds: { rating: 4, popularity: 70, downloads: 50 }
+  }
+};
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export type ScoringProfileConfigPatch = DeepPartial<ScoringProfileConfig>;
+
+/**
+ * Complete a stored (possibly partial or outdated) config with the default values
+ */
+export function mergeProfileConfig(patch: unknown, base: ScoringProfileConfig = DEFAULT_CONFIG): ScoringProfileConfig {
+  return mergeDeep(base, patch) as ScoringProfileConfig;
+}
+
+// Keys and types follow `base`; unknown keys and mistyped values of the patch are dropped
+function mergeDeep(base: unknown, patch: unknown): unknown {
+  if (Array.isArray(base)) {
+    return Array.isArray(patch) ? patch.filter(item => typeof item === 'string') : [...base];
+  }
+  if (typeof base === 'object' && base !== null) {
+    const source = typeof patch === 'object' && patch !== null && !Array.isArray(patch)
+      ? patch as Record<string, unknown>
+      : {};
+    const result: Record<string, unknown> = {};
+    Object.keys(base).forEach(key => {
+      result[key] = mergeDeep((base as Record<string, unknown>)[key], source[key]);
+    });
+    return result;
+  }
+  return typeof patch === typeof base && !Number.isNaN(patch) ? patch : base;
+}
+
+const profile = (
+  slug: string,
+  name: string,
+  description: string,
+  patch: ScoringProfileConfigPatch = {}
+): ScoringProfile => ({ slug, name, description, version: 1, ...mergeProfileConfig(patch) });
+
+/**
+ * Seed profiles (version 1 of each slug)
+ */
+export const BUILTIN_SCORING_PROFILES: ScoringProfile[] = [
+  profile(DEFAULT_SCORING_PROFILE_SLUG, 'Default', 'Balanced weighting of capabilities, domain fit and data quality'),
+  profile('enterprise-safe', 'Enterprise-safe', 'Established providers and verified sources before everything else', {
+    agent: {
+      tierThresholds: { generalist: 88, specialist: 75, experimental: 55 },
+      weights: {
+        capabilityCoverage: 0.20,
+        domainAlignment: 0.15,
+        capabilityDepth: 0.10,
+        domainBreadth: 0.05,
+        dataQuality: 0.15,
+        modelQuality: 0.15,
+        providerReliability: 0.20
+      },
+      boostFactors: { highQualityModel: 1.15, reliableProvider: 1.2 },
+      highQualityModels: ['gpt-4o', 'gpt-4.1', 'gpt-4', 'claude-3-5-sonnet', 'claude-3-opus', 'gemini-1.5-pro'],
+      reliableProviders: ['openai', 'anthropic', 'google', 'microsoft', 'aws', 'azure']
+    },
+    workflow: {
+      boosts: { verified: 0.25, verifiedAuthor: 0.1, aiGenerated: 0 },
+      penalties: { unknownLicense: 0.15 }
+    }
+  }),
+  profile('open-source-only', 'Open source only', 'Only openly licensed agents; self-hostable models rank highest', {
+    agent: {
+      weights: {
+        capabilityCoverage: 0.30,
+        domainAlignment: 0.20,
+        capabilityDepth: 0.15,
+        domainBreadth: 0.10,
+        dataQuality: 0.15,
+        modelQuality: 0.10,
+        providerReliability: 0
+      },
+      boostFactors: { reliableProvider: 1 },
+      highQualityModels: ['llama-3', 'llama-3.1', 'mixtral', 'mistral', 'qwen2', 'deepseek'],
+      reliableProviders: ['meta', 'mistral', 'hugging face', 'huggingface', 'ollama'],
+      openSourceOnly: true
+    },
+    workflow: {
+      boosts: { openSourceLicense: 0.2 },
+      penalties: { unknownLicense: 0.3 }
+    }
+  }),
+  profile('quick-wins', 'Quick wins', 'Cheap, fast-to-set-up solutions that cover the task directly', {
+    agent: {
+      tierThresholds: { generalist: 80, specialist: 65, experimental: 45 },
+      weights: {
+        capabilityCoverage: 0.40,
+        domainAlignment: 0.20,
+        capabilityDepth: 0.05,
+        domainBreadth: 0.05,
+        dataQuality: 0.15,
+        modelQuality: 0.10,
+        providerReliability: 0.05
+      },
+      boostFactors: { multipleDomains: 1, quickSetup: 1.2 }
+    },
+    workflow: {
+      boosts: { lowComplexity: 0.2 },
+      penalties: { highComplexity: 0.2 }
+    }
+  })
+];
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = BUILTIN_SCORING_PROFILES[0];
+
+/**
+ * Profile for a slug: stored versions win over the built-in ones, unknown slugs get `default`
+ */
+export function resolveScoringProfile(slug: string | undefined, stored: ScoringProfile[] = []): ScoringProfile {
+  const wanted = slug || DEFAULT_SCORING_PROFILE_SLUG;
+  return stored.find(p => p.slug === wanted)
+    ?? BUILTIN_SCORING_PROFILES.find(p => p.slug === wanted)
+    ?? stored.find(p => p.slug === DEFAULT_SCORING_PROFILE_SLUG)
+    ?? DEFAULT_SCORING_PROFILE;
+}
+
+export function profileFromRow(row: ScoringProfileRow): ScoringProfile {
+  const builtin = BUILTIN_SCORING_PROFILES.find(p => p.slug === row.slug);
+  return {
+    slug: row.slug,
+    name: row.name,
+    description: row.description ?? '',
+    version: row.version,
+    ...mergeProfileConfig(row.config, builtin ?? DEFAULT_CONFIG)
+  };
+}
+
+export function profileRef(profile: ScoringProfile): ScoringProfileRef {
+  return { slug: profile.slug, version: profile.version };
+}
+
+/**
+ * Problems that make a config unusable; empty when it can be saved
+ */
+export function validateProfileConfig(config: ScoringProfileConfig): string[] {
+  const errors: string[] = [];
+  const weights = Object.entries(config.agent.weights);
+  weights.forEach(([key, value]) => {
+    if (!(value >= 0 && value <= 1)) errors.push(`agent.weights.${key} must be between 0 and 1`);
+  });
+  const sum = weights.reduce((total, [, value]) => total + value, 0);
+  if (Math.abs(sum - 1) > 0.01) errors.push(`agent.weights must sum to 1 (is ${sum.toFixed(2)})`);
+
+  const { generalist, specialist, experimental } = config.agent.tierThresholds;
+  if (!(generalist > specialist && specialist > experimental && experimental >= 0 && generalist <= 100)) {
+    errors.push('agent.tierThresholds must satisfy 100 >= generalist > specialist > experimental >= 0');
+  }
+  Object.entries(config.agent.boostFactors).forEach(([key, value]) => {
+    if (!(value >= 0.5 && value <= 2)) errors.push(`agent.boostFactors.${key} must be between 0.5 and 2`);
+  });
+
+  const { base, boosts, penalties } = config.workflow;
+  if (!(base >= 0 && base <= 1)) errors.push('workflow.base must be between 0 and 1');
+  [...Object.entries(boosts), ...Object.entries(penalties)].forEach(([key, value]) => {
+    if (!(value >= 0 && value <= 1)) errors.push(`workflow.${key} must be between 0 and 1`);
+  });
+  return errors;
+}
+
+const OPEN_SOURCE_LICENSE = /^(mit|apache|bsd|[la]?gpl|mpl|isc|unlicense|cc0|epl|eupl|zlib)/i;
+
+export function isOpenSourceLicense(license: string | undefined): boolean {
+  return !!license && OPEN_SOURCE_LICENSE.test(license.trim());
+}
+
+export function qualityPriorInputFromRow(row: QualityPriorRow): QualityPriorInput {
+  return {
+    verified: row.verified ?? undefined,
+    isAIGenerated: row.is_ai_generated ?? undefined,
+    rating: row.rating ?? undefined,
+    popularity: row.popularity ?? undefined,
+    downloads: row.downloads ?? undefined,
+    license: row.license ?? undefined,
+    complexity: row.complexity ?? undefined,
+    author: { verified: row.author_verified ?? undefined }
+  };
+}
+
+/**
+ * Prior belief (0-1) that a workflow is good, before any query is known
+ * (popularity is the 0-100 score of refresh-workflow-popularity)
+ */
+export function calculateQualityPrior(workflow: QualityPriorInput, config: WorkflowPriorConfig = DEFAULT_CONFIG.workflow): number {
+  const { boosts, penalties, thresholds } = config;
+  let score = config.base;
+
+  if (workflow.verified) score += boosts.verified;
+  if (workflow.author?.verified) score += boosts.verifiedAuthor;
+  if (workflow.isAIGenerated) score += boosts.aiGenerated;
+  if (workflow.rating && workflow.rating > thresholds.rating) score += boosts.highRating;
+  if (workflow.popularity && workflow.popularity > thresholds.popularity) score += boosts.popular;
+  if (workflow.downloads && workflow.downloads > thresholds.downloads) score += boosts.downloads;
+
+  if (isOpenSourceLicense(workflow.license)) score += boosts.openSourceLicense;
+  else if (!workflow.license || /^unknown$/i.test(workflow.license)) score -= penalties.unknownLicense;
+
+  const complexity = (workflow.complexity || '').toLowerCase();
+  if (complexity === 'low' || complexity === 'easy') score += boosts.lowComplexity;
+  if (complexity === 'high' || complexity === 'hard') score -= penalties.highComplexity;
+
+  return Math.max(0, Math.min(score, 1.0));
+}
@@ -0,0 +1,325 @@
+/**
+ * Workflow deduplication
+ * Finds the same template published in several sources (GitHub community repos,
+ * Awesome n8n, n8n.io) by comparing normalized node graphs and titles:
+ *
+ *   graph      = multiset Jaccard of node types, averaged with the Jaccard of
+ *                edge type pairs when both workflows have connections
+ *   title      = Dice coefficient of character bigrams of the normalized titles
+ *   score      = 0.65 · graph + 0.35 · title
+ *
+ * Pairs scoring >= AUTO_MERGE_SCORE (with a matching graph) are merged automatically,
+ * pairs between REVIEW_SCORE and AUTO_MERGE_SCORE go to the admin review queue.
+ * Dependency-free so clustering is testable outside the edge runtime.
+ */
+
+import { N8nWorkflowLike, shortNodeType } from './n8n-workflow-metadata.ts';
+
+export interface GraphFingerprint {
+  /** Sorted short node types, one entry per node (sticky notes excluded) */
+  nodes: string[];
+  /** Sorted "sourceType>targetType" pairs, null when the workflow came without connections */
+  edges: string[] | null;
+  /** Hash of nodes and edges; equal hashes mean identical graphs */
+  hash: string;
+}
+
+export interface DedupCandidate {
+  id: string;
+  title: string;
+  source: string;
+  sourceUrl?: string | null;
+  fingerprint: GraphFingerprint | null;
+  popularity?: number | null;
+}
+
+export interface SourceAlias {
+  workflowId: string;
+  source: string;
+  url: string | null;
+}
+
+export interface DuplicateCluster {
+  canonicalId: string;
+  memberIds: string[];
+  aliases: SourceAlias[];
+}
+
+export interface PairSimilarity {
+  leftId: string;
+  rightId: string;
+  score: number;
+  graphSimilarity: number;
+  titleSimilarity: number;
+}
+
+/** Admin decision on a previously queued pair */
+export interface MergeDecision {
+  leftId: string;
+  rightId: string;
+  decision: 'merged' | 'separate';
+}
+
+export interface DedupResult {
+  clusters: DuplicateCluster[];
+  reviews: PairSimilarity[];
+}
+
+export const AUTO_MERGE_SCORE = 0.88;
+export const REVIEW_SCORE = 0.7;
+export const GRAPH_WEIGHT = 0.65;
+
+// Graphs this small are shared by many unrelated templates; never merge them without a review
+const MIN_AUTO_MERGE_NODES = 3;
+// Features shared by more workflows than this are too common to select comparison candidates
+const MAX_BLOCK_SIZE = 150;
+// Official template gallery first, then the curated repositories
+const SOURCE_PRIORITY = ['n8n.io', 'github', 'awesome-n8n-templates', 'ai-enhanced'];
+
+const TITLE_NOISE = new Set(['n8n', 'workflow', 'workflows', 'template', 'automation', 'automate', 'the', 'a', 'an', 'and', 'to', 'with', 'for', 'from', 'in', 'of', 'on', 'via', 'using']);
+
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Node-type graph of a workflow, independent of node names, positions and parameters
+ */
+export function graphFingerprint(workflow: N8nWorkflowLike): GraphFingerprint {
+  const typeByName = new Map<string, string>();
+  const nodes: string[] = [];
+  (workflow.nodes || []).forEach(node => {
+    if (!node || typeof node.type !== 'string') return;
+    const type = shortNodeType(node.type);
+    if (type === 'stickyNote') return;
+    nodes.push(type);
+    if (node.name) typeByName.set(node.name, type);
+  });
+  nodes.sort();
+
+  const connections = Object.entries(workflow.connections || {});
+  let edges: string[] | null = null;
+  if (connections.length > 0) {
+    edges = [];
+    connections.forEach(([source, outputs]) => {
+      const sourceType = typeByName.get(source);
+      if (!sourceType) return;
+      Object.values(outputs || {}).forEach(outputList => {
+        (outputList || []).forEach(output => {
+          (output || []).forEach(edge => {
+            const targetType = edge?.node ? typeByName.get(edge.node) : undefined;
+            if (targetType) edges!.push(`${sourceType}>${targetType}`);
+          });
+        });
+      });
+    });
+    edges.sort();
+  }
+
+  return { nodes, edges, hash: hashString(`${nodes.join(',')}|${(edges || []).join(',')}`) };
+}
+
+/**
+ * Jaccard similarity of two sorted multisets
+ */
+function multisetJaccard(left: string[], right: string[]): number {
+  if (left.length === 0 && right.length === 0) return 1;
+  let i = 0;
+  let j = 0;
+  let intersection = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) { intersection++; i++; j++; }
+    else if (left[i] < right[j]) i++;
+    else j++;
+  }
+  return intersection / (left.length + right.length - intersection);
+}
+
+export function graphSimilarity(left: GraphFingerprint | null, right: GraphFingerprint | null): number {
+  if (!left || !right || left.nodes.length === 0 || right.nodes.length === 0) return 0;
+  if (left.hash === right.hash && left.edges && right.edges) return 1;
+  const nodeSimilarity = multisetJaccard(left.nodes, right.nodes);
+  if (!left.edges || !right.edges) return nodeSimilarity;
+  return (nodeSimilarity + multisetJaccard(left.edges, right.edges)) / 2;
+}
+
+/**
+ * Lowercased title without numbering, punctuation and filler words
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\.json$/, '')
+    .replace(/^\d+[\s_-]+/, '')
+    .replace(/[^a-z0-9äöüß]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !TITLE_NOISE.has(word))
+    .join(' ');
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, ' ');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result.sort();
+}
+
+export function titleSimilarity(left: string, right: string): number {
+  const a = normalizeTitle(left);
+  const b = normalizeTitle(right);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const leftBigrams = bigrams(a);
+  const rightBigrams = bigrams(b);
+  const jaccard = multisetJaccard(leftBigrams, rightBigrams);
+  return (2 * jaccard) / (1 + jaccard); // Dice from Jaccard
+}
+
+export function comparePair(left: DedupCandidate, right: DedupCandidate): PairSimilarity {
+  const graph = graphSimilarity(left.fingerprint, right.fingerprint);
+  const title = titleSimilarity(left.title, right.title);
+  const [leftId, rightId] = left.id < right.id ? [left.id, right.id] : [right.id, left.id];
+  return {
+    leftId,
+    rightId,
+    score: GRAPH_WEIGHT * graph + (1 - GRAPH_WEIGHT) * title,
+    graphSimilarity: graph,
+    titleSimilarity: title
+  };
+}
+
+function isAutoMerge(pair: PairSimilarity, left: DedupCandidate, right: DedupCandidate): boolean {
+  const smallest = Math.min(left.fingerprint?.nodes.length || 0, right.fingerprint?.nodes.length || 0);
+  return pair.score >= AUTO_MERGE_SCORE && pair.graphSimilarity >= 0.8 && smallest >= MIN_AUTO_MERGE_NODES;
+}
+
+/**
+ * Pairs worth comparing: workflows sharing a title word or a node type that is not
+ * too common. Keeps the comparison far below n² on large catalogs.
+ */
+function candidatePairs(candidates: DedupCandidate[]): Array<[number, number]> {
+  const blocks = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => {
+    const features = new Set([
+      ...normalizeTitle(candidate.title).split(' ').filter(word => word.length > 2).map(word => `t:${word}`),
+      ...(candidate.fingerprint?.nodes || []).map(type => `n:${type}`)
+    ]);
+    features.forEach(feature => blocks.set(feature, [...(blocks.get(feature) || []), index]));
+  });
+
+  const pairs = new Set<number>();
+  const result: Array<[number, number]> = [];
+  blocks.forEach(members => {
+    if (members.length < 2 || members.length > MAX_BLOCK_SIZE) return;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = members[i] * candidates.length + members[j];
+        if (pairs.has(key)) continue;
+        pairs.add(key);
+        result.push([members[i], members[j]]);
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Canonical record of a cluster: preferred source, then richer graph data, then popularity
+ */
+export function pickCanonical(members: DedupCandidate[]): DedupCandidate {
+  const priority = (source: string) => {
+    const index = SOURCE_PRIORITY.indexOf(source);
+    return index === -1 ? SOURCE_PRIORITY.length : index;
+  };
+  return [...members].sort((a, b) =>
+    priority(a.source) - priority(b.source) ||
+    Number(!!b.fingerprint?.edges) - Number(!!a.fingerprint?.edges) ||
+    (b.popularity || 0) - (a.popularity || 0) ||
+    a.id.localeCompare(b.id)
+  )[0];
+}
+
+const pairKey = (leftId: string, rightId: string) => (leftId < rightId ? `${leftId}|${rightId}` : `${rightId}|${leftId}`);
+
+/**
+ * Cluster duplicates. Confident pairs and admin-approved pairs are merged
+ * (transitively); uncertain pairs are returned for review. A merge that would put
+ * a pair marked "separate" into one cluster is skipped.
+ */
+export function clusterDuplicates(candidates: DedupCandidate[], decisions: MergeDecision[] = []): DedupResult {
+  const index = new Map(candidates.map((candidate, i) => [candidate.id, i]));
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const decided = new Map(decisions.map(decision => [pairKey(decision.leftId, decision.rightId), decision.decision]));
+  const separated = decisions
+    .filter(decision => decision.decision === 'separate' && index.has(decision.leftId) && index.has(decision.rightId))
+    .map(decision => [index.get(decision.leftId)!, index.get(decision.rightId)!]);
+
+  const union = (a: number, b: number): boolean => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return true;
+    const conflict = separated.some(([x, y]) => {
+      const rootX = find(x);
+      const rootY = find(y);
+      return (rootX === rootA && rootY === rootB) || (rootX === rootB && rootY === rootA);
+    });
+    if (conflict) return false;
+    parent[rootB] = rootA;
+    return true;
+  };
+
+  decisions
+    .filter(decision => decision.decision === 'merged' && index.has(decision.leftId) && index.has(decision.rightId))
+    .forEach(decision => union(index.get(decision.leftId)!, index.get(decision.rightId)!));
+
+  const uncertain: PairSimilarity[] = [];
+  const scored = candidatePairs(candidates)
+    .map(([a, b]) => ({ a, b, pair: comparePair(candidates[a], candidates[b]) }))
+    .filter(({ pair }) => pair.score >= REVIEW_SCORE && !decided.has(pairKey(pair.leftId, pair.rightId)))
+    .sort((x, y) => y.pair.score - x.pair.score);
+
+  scored.forEach(({ a, b, pair }) => {
+    if (isAutoMerge(pair, candidates[a], candidates[b])) {
+      if (!union(a, b)) uncertain.push(pair);
+    } else {
+      uncertain.push(pair);
+    }
+  });
+
+  const groups = new Map<number, DedupCandidate[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), candidate]);
+  });
+
+  const clusters: DuplicateCluster[] = Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const canonical = pickCanonical(members);
+      return {
+        canonicalId: canonical.id,
+        memberIds: members.map(member => member.id).sort(),
+        aliases: members
+          .filter(member => member.id !== canonical.id)
+          .map(member => ({ workflowId: member.id, source: member.source, url: member.sourceUrl ?? null }))
+      };
+    });
+
+  // Pairs that ended up in the same cluster anyway need no review
+  const reviews = uncertain.filter(pair => find(index.get(pair.leftId)!) !== find(index.get(pair.rightId)!));
+
+  return { clusters, reviews };
+}
@@ -0,0 +1,141 @@
+/**
+ * Generate → validate → repair loop for AI-generated n8n workflows
+ * The validator's diagnostics are sent back to the model for up to `maxRepairRounds`
+ * rounds. Only a structurally valid workflow (no validator errors outside strict mode)
+ * counts as generated; otherwise the caller falls back to its template.
+ * Dependency-free: the model calls are injected, so the loop is testable without OpenAI.
+ */
+
+import { validateN8nWorkflow, WorkflowDiagnostic } from './n8n-workflow-validator.ts';
+
+export const DEFAULT_REPAIR_ROUNDS = 2;
+export const MAX_REPAIR_ROUNDS = 4;
+
+export interface GenerationAttempt {
+  /** 0 is the initial generation, 1..n are repair rounds */
+  round: number;
+  kind: 'generate' | 'repair';
+  /** valid: passes strict validation; invalid: has errors; unparseable: no workflow JSON; failed: model call failed */
+  outcome: 'valid' | 'invalid' | 'unparseable' | 'failed';
+  structurallyValid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Errors that were sent to the next repair round */
+  errors: WorkflowDiagnostic[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface RepairLoopResult<T> {
+  /** Best structurally valid workflow, null when no attempt produced one */
+  workflow: T | null;
+  status: 'generated' | 'fallback';
+  attempts: GenerationAttempt[];
+  /** Strict diagnostics of the returned workflow */
+  diagnostics: WorkflowDiagnostic[];
+}
+
+export interface RepairLoopOptions {
+  maxRepairRounds?: number;
+  now?: () => number;
+}
+
+/**
+ * Workflow JSON from a model response; tolerates Markdown code fences
+ */
+export function parseWorkflowResponse<T = Record<string, unknown>>(content: string): T {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const workflow = JSON.parse(json);
+  if (!workflow || typeof workflow !== 'object' || !Array.isArray(workflow.nodes)) {
+    throw new Error('Response has no nodes array');
+  }
+  return workflow as T;
+}
+
+/**
+ * Follow-up prompt asking the model to fix the listed problems of its previous answer
+ */
+export function buildRepairPrompt(errors: WorkflowDiagnostic[], lang: 'de' | 'en' = 'de'): string {
+  const list = errors.map(error => `- [${error.code}] ${error.message}`).join('\n');
+  return lang === 'de'
+    ? `Der Workflow aus deiner letzten Antwort ist fehlerhaft:\n${list}\n\nBehebe alle Fehler und antworte NUR mit dem vollständigen, korrigierten Workflow-JSON im selben Format.`
+    : `The workflow in your last answer has problems:\n${list}\n\nFix all of them and respond ONLY with the complete, corrected workflow JSON in the same format.`;
+}
+
+/**
+ * Run the loop. `generate` produces the first answer, `repair` receives the previous
+ * answer and its errors and produces the next one.
+ */
+export async function generateWithRepair<T = Record<string, unknown>>(
+  generate: () => Promise<string>,
+  repair: (previous: string, errors: WorkflowDiagnostic[]) => Promise<string>,
+  options: RepairLoopOptions = {}
+): Promise<RepairLoopResult<T>> {
+  const now = options.now ?? Date.now;
+  const requested = Number(options.maxRepairRounds ?? DEFAULT_REPAIR_ROUNDS);
+  const rounds = Number.isInteger(requested) ? Math.max(0, Math.min(MAX_REPAIR_ROUNDS, requested)) : DEFAULT_REPAIR_ROUNDS;
+  const attempts: GenerationAttempt[] = [];
+  let best: { workflow: T; diagnostics: WorkflowDiagnostic[]; errorCount: number } | null = null;
+  let previous = '';
+  let errors: WorkflowDiagnostic[] = [];
+
+  for (let round = 0; round <= rounds; round++) {
+    const kind = round === 0 ? 'generate' : 'repair';
+    const startedAt = now();
+    const attempt = (fields: Partial<GenerationAttempt>): GenerationAttempt => ({
+      round,
+      kind,
+      outcome: 'invalid',
+      structurallyValid: false,
+      errorCount: 0,
+      warningCount: 0,
+      errors: [],
+      durationMs: now() - startedAt,
+      ...fields
+    });
+
+    let content: string;
+    try {
+      content = round === 0 ? await generate() : await repair(previous, errors);
+    } catch (error) {
+      // The model is unreachable; more rounds will not help
+      attempts.push(attempt({ outcome: 'failed', error: error instanceof Error ? error.message : String(error) }));
+      break;
+    }
+    previous = content;
+
+    let workflow: T;
+    try {
+      workflow = parseWorkflowResponse<T>(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors = [{ code: 'invalid_structure', severity: 'error', message: `Response is not workflow JSON: ${message}` }];
+      attempts.push(attempt({ outcome: 'unparseable', errorCount: 1, errors, error: message }));
+      continue;
+    }
+
+    const strict = validateN8nWorkflow(workflow, { strict: true });
+    const structurallyValid = validateN8nWorkflow(workflow).status === 'valid';
+    errors = strict.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    attempts.push(attempt({
+      outcome: strict.status,
+      structurallyValid,
+      errorCount: strict.errorCount,
+      warningCount: strict.warningCount,
+      errors
+    }));
+
+    // A repair can make things worse; keep the structurally valid answer with the fewest errors
+    if (structurallyValid && (!best || strict.errorCount <= best.errorCount)) {
+      best = { workflow, diagnostics: strict.diagnostics, errorCount: strict.errorCount };
+    }
+    if (strict.status === 'valid') break;
+  }
+
+  return {
+    workflow: best?.workflow ?? null,
+    status: best ? 'generated' : 'fallback',
+    attempts,
+    diagnostics: best?.diagnostics ?? []
+  };
+}
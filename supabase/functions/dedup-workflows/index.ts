@@ -0,0 +1,302 @@
+/**
+ * Workflow Deduplication Edge Function
+ *
+ * Clusters near-duplicate workflows across sources (normalized node graph + title):
+ * - confident duplicates point to their canonical record via canonical_id
+ * - the canonical record lists the duplicates' source URLs in source_aliases
+ * - uncertain pairs are queued in workflow_merge_reviews; admin decisions
+ *   ('merged' / 'separate') are applied on every run
+ *
+ * POST { dryRun? }                                   run deduplication
+ * POST { action: 'reviews', limit? }                 pending review queue with both workflows
+ * POST { action: 'decide', reviewId, decision }      record an admin decision
+ *
+ * Every action writes or exposes catalog data with the service role, so the caller must
+ * be an admin (see _shared/admin-auth.ts).
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorizeAdmin } from '../_shared/admin-auth.ts';
+import {
+  clusterDuplicates,
+  DedupCandidate,
+  MergeDecision,
+  PairSimilarity,
+  SourceAlias
+} from '../_shared/workflow-dedup.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+} as Record<string, string>;
+
+const PAGE_SIZE = 1000;
+const WRITE_CONCURRENCY = 8;
+
+interface WorkflowRow {
+  id: string;
+  title: string;
+  source: string;
+  source_url: string | null;
+  graph_fingerprint: DedupCandidate['fingerprint'];
+  popularity: number | null;
+  canonical_id: string | null;
+  source_aliases: SourceAlias[] | null;
+}
+
+interface MergeReviewRow {
+  id: string;
+  left_id: string;
+  right_id: string;
+  score: number;
+  graph_similarity: number;
+  title_similarity: number;
+  created_at: string;
+}
+
+interface ReviewedWorkflowRow {
+  id: string;
+  title: string;
+  source: string;
+  source_url: string | null;
+  integrations: string[] | null;
+  node_count: number | null;
+  popularity: number | null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const supabase = getSupabase();
+    const caller = await authorizeAdmin(req, supabase, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+    if (!caller.ok) {
+      return jsonResponse({ success: false, error: caller.error }, caller.status);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+
+    if (body.action === 'reviews') {
+      const limit = Math.min(Math.max(Number(body.limit) || 50, 1), 200);
+      return jsonResponse({ success: true, reviews: await loadPendingReviews(supabase, limit) });
+    }
+
+    if (body.action === 'decide') {
+      if (typeof body.reviewId !== 'string' || !['merged', 'separate'].includes(body.decision)) {
+        return jsonResponse({ success: false, error: 'reviewId and decision (merged | separate) are required' }, 400);
+      }
+      const { error } = await supabase
+        .from('workflow_merge_reviews')
+        .update({
+          status: body.decision,
+          // The verified caller wins over a name sent in the body
+          reviewed_by: caller.email ?? caller.userId ?? (typeof body.reviewedBy === 'string' ? body.reviewedBy : null),
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', body.reviewId);
+      if (error) throw new Error(`Saving decision failed: ${error.message}`);
+      return jsonResponse({ success: true });
+    }
+
+    const [rows, decisions] = await Promise.all([loadWorkflows(supabase), loadDecisions(supabase)]);
+    const { clusters, reviews } = clusterDuplicates(rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      source: row.source,
+      sourceUrl: row.source_url,
+      fingerprint: row.graph_fingerprint,
+      popularity: row.popularity
+    })), decisions);
+
+    // Desired state per workflow; everything not in a cluster is its own canonical record
+    const canonicalOf = new Map<string, string>();
+    const aliasesOf = new Map<string, SourceAlias[]>();
+    clusters.forEach(cluster => {
+      aliasesOf.set(cluster.canonicalId, cluster.aliases);
+      cluster.aliases.forEach(alias => canonicalOf.set(alias.workflowId, cluster.canonicalId));
+    });
+
+    const changes = rows
+      .map(row => ({
+        id: row.id,
+        canonical_id: canonicalOf.get(row.id) ?? null,
+        source_aliases: aliasesOf.get(row.id) ?? []
+      }))
+      .filter((change, i) =>
+        change.canonical_id !== rows[i].canonical_id ||
+        JSON.stringify(change.source_aliases) !== JSON.stringify(rows[i].source_aliases || [])
+      );
+
+    if (!dryRun) {
+      await runLimited(changes, WRITE_CONCURRENCY, async change => {
+        const { error } = await supabase
+          .from('unified_workflows')
+          .update({ canonical_id: change.canonical_id, source_aliases: change.source_aliases })
+          .eq('id', change.id);
+        if (error) throw new Error(`Update of ${change.id} failed: ${error.message}`);
+      });
+      await syncReviewQueue(supabase, reviews);
+    }
+
+    return jsonResponse({
+      success: true,
+      dryRun,
+      workflows: rows.length,
+      clusters: clusters.length,
+      duplicates: canonicalOf.size,
+      changed: changes.length,
+      pendingReviews: reviews.length,
+      durationMs: Date.now() - startTime
+    });
+  } catch (error) {
+    console.error('[dedup-workflows] error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function getSupabase() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient(url, serviceKey);
+}
+
+async function loadWorkflows(supabase: SupabaseClient): Promise<WorkflowRow[]> {
+  const rows: WorkflowRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('unified_workflows')
+      .select('id, title, source, source_url, graph_fingerprint, popularity, canonical_id, source_aliases')
+      .eq('active', true)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load workflows: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadDecisions(supabase: SupabaseClient): Promise<MergeDecision[]> {
+  const { data, error } = await supabase
+    .from('workflow_merge_reviews')
+    .select('left_id, right_id, status')
+    .neq('status', 'pending');
+  if (error) throw new Error(`Failed to load merge decisions: ${error.message}`);
+  return (data || []).map((row: { left_id: string; right_id: string; status: MergeDecision['decision'] }) => ({
+    leftId: row.left_id,
+    rightId: row.right_id,
+    decision: row.status
+  }));
+}
+
+async function loadPendingReviews(supabase: SupabaseClient, limit: number) {
+  const { data, error } = await supabase
+    .from('workflow_merge_reviews')
+    .select('id, left_id, right_id, score, graph_similarity, title_similarity, created_at')
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load review queue: ${error.message}`);
+
+  const reviews: MergeReviewRow[] = data || [];
+  const ids = Array.from(new Set(reviews.flatMap(row => [row.left_id, row.right_id])));
+  const workflows = new Map<string, unknown>();
+  if (ids.length > 0) {
+    const { data: rows, error: workflowError } = await supabase
+      .from('unified_workflows')
+      .select('id, title, source, source_url, integrations, node_count, popularity')
+      .in('id', ids);
+    if (workflowError) throw new Error(`Failed to load workflows: ${workflowError.message}`);
+    (rows || []).forEach((row: ReviewedWorkflowRow) => workflows.set(row.id, {
+      id: row.id,
+      title: row.title,
+      source: row.source,
+      sourceUrl: row.source_url,
+      integrations: row.integrations || [],
+      nodeCount: row.node_count,
+      popularity: row.popularity
+    }));
+  }
+
+  return reviews.map(row => ({
+    id: row.id,
+    score: row.score,
+    graphSimilarity: row.graph_similarity,
+    titleSimilarity: row.title_similarity,
+    createdAt: row.created_at,
+    left: workflows.get(row.left_id) || { id: row.left_id },
+    right: workflows.get(row.right_id) || { id: row.right_id }
+  }));
+}
+
+/**
+ * Upsert the current uncertain pairs and drop pending ones that no longer qualify
+ */
+async function syncReviewQueue(supabase: SupabaseClient, reviews: PairSimilarity[]): Promise<void> {
+  const rows = reviews.map(review => ({
+    left_id: review.leftId,
+    right_id: review.rightId,
+    score: review.score,
+    graph_similarity: review.graphSimilarity,
+    title_similarity: review.titleSimilarity,
+    status: 'pending'
+  }));
+  for (let offset = 0; offset < rows.length; offset += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('workflow_merge_reviews')
+      .upsert(rows.slice(offset, offset + PAGE_SIZE), { onConflict: 'left_id,right_id' });
+    if (error) throw new Error(`Review queue upsert failed: ${error.message}`);
+  }
+
+  const current = new Set(rows.map(row => `${row.left_id}|${row.right_id}`));
+  const { data, error } = await supabase
+    .from('workflow_merge_reviews')
+    .select('id, left_id, right_id')
+    .eq('status', 'pending');
+  if (error) throw new Error(`Failed to load review queue: ${error.message}`);
+
+  const stale = ((data || []) as Array<Pick<MergeReviewRow, 'id' | 'left_id' | 'right_id'>>)
+    .filter(row => !current.has(`${row.left_id}|${row.right_id}`))
+    .map(row => row.id);
+  for (let offset = 0; offset < stale.length; offset += 200) {
+    const { error: deleteError } = await supabase
+      .from('workflow_merge_reviews')
+      .delete()
+      .in('id', stale.slice(offset, offset + 200));
+    if (deleteError) throw new Error(`Review queue cleanup failed: ${deleteError.message}`);
+  }
+}
+
+async function runLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
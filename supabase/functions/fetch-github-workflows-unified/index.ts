@@ -8,6 +8,11 @@
 declare const Deno: any;
 
 import { checkFeatureToggle } from '../_shared/feature-toggles.ts';
+import { analyzeN8nWorkflow, N8nWorkflowLike, N8nWorkflowMetadata } from '../_shared/n8n-workflow-metadata.ts';
+import { validateN8nWorkflow, WorkflowDiagnostic, WorkflowValidationResult } from '../_shared/n8n-workflow-validator.ts';
+
+// Parallel workflow JSON downloads per repository directory
+const DOWNLOAD_CONCURRENCY = 8;
 
 interface UnifiedWorkflow {
   id: string;
@@ -24,6 +29,9 @@ interface UnifiedWorkflow {
   integrations: string[];
   nodeCount?: number;
   connectionCount?: number;
+  triggerNodeType?: string;
+  credentialsRequired?: string[];
+  branchingDepth?: number;
   author?: {
     name?: string;
     username?: string;
@@ -42,6 +50,7 @@ interface UnifiedWorkflow {
     cacheKey?: string;
   };
   validationStatus?: 'valid' | 'invalid' | 'pending';
+  validationDiagnostics?: WorkflowDiagnostic[];
   setupCost?: number;
   estimatedTime?: string;
   estimatedCost?: string;
@@ -233,11 +242,11 @@ async function loadGithubWorkflowsUnified(repoUrl: string, useUnified: boolean):
     // As a last resort, scan the repo root for .json workflow files
     const rootResponse = await fetch(`${repoUrl}/contents`, { headers });
     if (!rootResponse.ok) return workflows;
-    const files = await rootResponse.json();
-    for (const file of files) {
-      if (!file.name || !file.name.endsWith('.json')) continue;
-      workflows.push(mapGithubFileToUnifiedWorkflow(file.name, file.sha, 'misc', workflowId++, useUnified));
-    }
+    const jsonFiles = jsonWorkflowFiles(await rootResponse.json());
+    const analyses = await analyzeGithubFiles(jsonFiles, headers);
+    jsonFiles.forEach((file, index) => {
+      workflows.push(mapGithubFileToUnifiedWorkflow(file, 'misc', workflowId++, analyses[index]));
+    });
     return workflows;
   }
 
@@ -246,35 +255,100 @@ async function loadGithubWorkflowsUnified(repoUrl: string, useUnified: boolean):
     const baseDir = category.__root ? `${category.__root}/` : '';
     const categoryResponse = await fetch(`${repoUrl}/contents/${baseDir}${category.name}`, { headers });
     if (!categoryResponse.ok) continue;
-    const files = await categoryResponse.json();
+    const jsonFiles = jsonWorkflowFiles(await categoryResponse.json());
+    const analyses = await analyzeGithubFiles(jsonFiles, headers);
+    jsonFiles.forEach((file, index) => {
+      workflows.push(mapGithubFileToUnifiedWorkflow(file, category.name, workflowId++, analyses[index]));
+    });
+  }
 
-    for (const file of files) {
-      if (!file.name || !file.name.endsWith('.json')) continue;
-      workflows.push(mapGithubFileToUnifiedWorkflow(file.name, file.sha, category.name, workflowId++, useUnified));
+  return workflows;
+}
+
+// Entry of the GitHub contents API listing
+interface GithubContentFile {
+  name?: string;
+  path?: string;
+  sha?: string;
+  html_url?: string;
+  download_url?: string | null;
+}
+
+type GithubWorkflowFile = GithubContentFile & { name: string };
+
+type GithubFileAnalysis =
+  | { status: 'parsed'; metadata: N8nWorkflowMetadata; validation: WorkflowValidationResult }
+  | { status: 'invalid' | 'unavailable' };
+
+function jsonWorkflowFiles(listing: unknown): GithubWorkflowFile[] {
+  if (!Array.isArray(listing)) return [];
+  return (listing as GithubContentFile[]).filter((file): file is GithubWorkflowFile => !!file.name && file.name.endsWith('.json'));
+}
+
+/**
+ * Download each workflow JSON and derive its metadata from nodes and connections
+ */
+async function analyzeGithubFiles(files: GithubWorkflowFile[], headers: Record<string, string>): Promise<GithubFileAnalysis[]> {
+  const results: GithubFileAnalysis[] = new Array(files.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      results[index] = await analyzeGithubFile(files[index], headers);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, files.length) }, worker));
+
+  return results;
+}
+
+async function analyzeGithubFile(file: GithubWorkflowFile, headers: Record<string, string>): Promise<GithubFileAnalysis> {
+  if (!file.download_url) return { status: 'unavailable' };
+
+  let text: string;
+  try {
+    const response = await fetch(file.download_url, { headers: { 'User-Agent': headers['User-Agent'] } });
+    if (!response.ok) return { status: 'unavailable' };
+    text = await response.text();
+  } catch (error) {
+    console.warn(`Could not download ${file.path || file.name}:`, error);
+    return { status: 'unavailable' };
   }
 
-  return workflows;
+  // Malformed JSON and non-workflow files (no nodes array) are both invalid
+  try {
+    const workflow: N8nWorkflowLike = JSON.parse(text);
+    return { status: 'parsed', metadata: analyzeN8nWorkflow(workflow), validation: validateN8nWorkflow(workflow) };
+  } catch (_) {
+    return { status: 'invalid' };
+  }
 }
 
-function mapGithubFileToUnifiedWorkflow(fileName: string, sha: string, categoryName: string, id: number, useUnified: boolean): UnifiedWorkflow {
+function mapGithubFileToUnifiedWorkflow(file: GithubWorkflowFile, categoryName: string, id: number, analysis: GithubFileAnalysis): UnifiedWorkflow {
   const now = new Date().toISOString();
+  const fileName = file.name;
+  const metadata = analysis.status === 'parsed' ? analysis.metadata : undefined;
   
   return {
     id: `github-${id}`,
-    title: generateWorkflowName(fileName),
+    title: metadata?.name || generateWorkflowName(fileName),
     description: generateDescription(fileName),
     summary: generateDescription(fileName),
     source: 'github',
-    sourceUrl: `https://github.com/Zie619/n8n-workflows/blob/main/workflows/${categoryName}/${fileName}`,
+    sourceUrl: file.html_url,
     category: mapCategory(categoryName),
-    tags: generateTags(fileName),
+    tags: metadata ? metadata.tags : ['n8n'],
     license: 'MIT',
-    complexity: determineComplexity(fileName),
-    triggerType: determineTriggerType(fileName),
-    integrations: extractIntegrations(fileName),
-    nodeCount: Math.floor(Math.random() * 20) + 3,
-    connectionCount: Math.floor(Math.random() * 15) + 2,
+    // Without a readable workflow JSON nothing is known about its shape
+    complexity: metadata?.complexity ?? 'Medium',
+    triggerType: metadata?.triggerType ?? 'Manual',
+    integrations: metadata?.integrations ?? [],
+    nodeCount: metadata?.nodeCount,
+    connectionCount: metadata?.connectionCount,
+    triggerNodeType: metadata?.triggerNodeType,
+    credentialsRequired: metadata?.credentialsRequired,
+    branchingDepth: metadata?.branchingDepth,
     author: {
       name: 'GitHub Community',
       username: 'github-community',
@@ -285,36 +359,26 @@ function mapGithubFileToUnifiedWorkflow(fileName: string, sha: string, categoryN
     version: '1.0.0',
     status: 'verified',
     isAIGenerated: false,
-    validationStatus: 'valid',
+    validationStatus: analysis.status === 'parsed' ? analysis.validation.status : analysis.status === 'invalid' ? 'invalid' : 'pending',
+    validationDiagnostics: analysis.status === 'parsed' ? analysis.validation.diagnostics : undefined,
     setupCost: Math.floor(Math.random() * 100) + 10,
     estimatedTime: `${Math.floor(Math.random() * 4) + 1} hours`,
     estimatedCost: `$${Math.floor(Math.random() * 200) + 50}`,
     timeSavings: Math.floor(Math.random() * 20) + 5,
-    downloads: Math.floor(Math.random() * 1000) + 10,
-    rating: Math.round((Math.random() * 2 + 3) * 10) / 10, // 3.0 - 5.0
-    popularity: Math.floor(Math.random() * 100) + 1,
-    verified: Math.random() > 0.3,
+    // Filled from real signals by refresh-workflow-popularity
+    downloads: 0,
+    popularity: 0,
+    // Community uploads are not reviewed; score and match are left to the quality prior and search
+    verified: false,
     domainClassification: {
       domains: [mapCategory(categoryName)],
       confidences: [0.8],
       origin: 'admin'
     },
-    score: {
-      overall: Math.round((Math.random() * 2 + 3) * 100) / 100, // 3.0 - 5.0
-      complexity: Math.round((Math.random() * 2 + 3) * 100) / 100,
-      integration: Math.round((Math.random() * 2 + 3) * 100) / 100,
-      popularity: Math.round((Math.random() * 2 + 3) * 100) / 100,
-      quality: Math.round((Math.random() * 2 + 3) * 100) / 100
-    },
-    match: {
-      score: Math.round((Math.random() * 2 + 3) * 100) / 100,
-      reason: 'GitHub workflow match',
-      confidence: 0.8
-    },
-    downloadUrl: `https://github.com/Zie619/n8n-workflows/raw/main/workflows/${categoryName}/${fileName}`,
-    previewUrl: `https://github.com/Zie619/n8n-workflows/blob/main/workflows/${categoryName}/${fileName}`,
-    active: Math.random() > 0.1,
-    fileHash: (sha || '').substring(0, 8),
+    downloadUrl: file.download_url ?? undefined,
+    previewUrl: file.html_url,
+    active: analysis.status !== 'invalid',
+    fileHash: (file.sha || '').substring(0, 8),
     analyzedAt: now,
     lastAccessed: now,
     cacheKey: `github-${categoryName}-${fileName}`
@@ -379,32 +443,22 @@ function mapN8nTemplateToUnifiedWorkflow(template: any, id: number, useUnified:
     version: '1.0.0',
     status: 'verified',
     isAIGenerated: false,
-    validationStatus: 'valid',
+    // Listings carry node types only; without them nothing can be checked
+    validationStatus: Array.isArray(template.nodes)
+      ? validateN8nWorkflow({ nodes: template.nodes }, { nodesOnly: true }).status
+      : 'pending',
     setupCost: template.price || Math.floor(Math.random() * 200) + 50,
     estimatedTime: `${Math.floor(Math.random() * 3) + 1} hours`,
     estimatedCost: `$${template.price || Math.floor(Math.random() * 300) + 100}`,
     timeSavings: Math.floor(Math.random() * 25) + 10,
-    downloads: template.downloads || Math.floor(Math.random() * 5000) + 100,
-    rating: template.rating || Math.round((Math.random() * 1.5 + 3.5) * 10) / 10, // 3.5 - 5.0
-    popularity: template.popularity || Math.floor(Math.random() * 200) + 50,
+    downloads: 0,
+    popularity: 0,
     verified: true,
     domainClassification: {
       domains: [template.category || 'General'],
       confidences: [0.9],
       origin: 'admin'
     },
-    score: {
-      overall: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100, // 3.5 - 5.0
-      complexity: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100,
-      integration: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100,
-      popularity: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100,
-      quality: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100
-    },
-    match: {
-      score: Math.round((Math.random() * 1.5 + 3.5) * 100) / 100,
-      reason: 'Official n8n.io template',
-      confidence: 0.9
-    },
     downloadUrl: template.downloadUrl || template.url,
     previewUrl: template.previewUrl || template.url,
     active: true,
@@ -465,18 +519,3 @@ function determineTriggerType(fileName: string): 'Manual' | 'Webhook' | 'Schedul
   const types: ('Manual' | 'Webhook' | 'Scheduled' | 'Complex')[] = ['Manual', 'Webhook', 'Scheduled', 'Complex'];
   return types[Math.floor(Math.random() * types.length)];
 }
-
-function extractIntegrations(fileName: string): string[] {
-  const commonIntegrations = ['Slack', 'Discord', 'Email', 'Google Sheets', 'Airtable', 'Zapier', 'Webhook', 'HTTP Request'];
-  const numIntegrations = Math.floor(Math.random() * 4) + 1;
-  const shuffled = commonIntegrations.sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, numIntegrations);
-}
-
-function generateTags(fileName: string): string[] {
-  const baseTags = ['automation', 'workflow', 'n8n', 'productivity'];
-  const additionalTags = ['integration', 'api', 'data', 'processing', 'notification', 'scheduled'];
-  const numAdditional = Math.floor(Math.random() * 3) + 1;
-  const shuffled = additionalTags.sort(() => 0.5 - Math.random());
-  return [...baseTags, ...shuffled.slice(0, numAdditional)];
-}
@@ -6,6 +6,15 @@
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateN8nWorkflow, WorkflowValidationResult } from '../_shared/n8n-workflow-validator.ts';
+import {
+  buildRepairPrompt,
+  DEFAULT_REPAIR_ROUNDS,
+  GenerationAttempt,
+  generateWithRepair
+} from '../_shared/workflow-repair.ts';
+
+const MODEL = "gpt-4o-mini";
 
 interface Subtask {
   id?: string;
@@ -38,6 +47,24 @@ interface GeneratedWorkflow {
   versionId: string;
 }
 
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface GenerationOutcome {
+  workflow: GeneratedWorkflow;
+  status: 'generated' | 'fallback';
+  /** Strict validation of the returned workflow, also for the fallback */
+  validation: WorkflowValidationResult;
+  generationMetadata: {
+    timestamp: number;
+    model: string;
+    language: 'de' | 'en';
+    attempts: GenerationAttempt[];
+  };
+}
+
 function getSupabase() {
   const url = Deno.env.get("SUPABASE_URL");
   const key = Deno.env.get("SUPABASE_ANON_KEY") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
@@ -46,9 +73,14 @@ function getSupabase() {
 }
 
 /**
- * Generate n8n workflow using OpenAI
+ * Generate an n8n workflow with OpenAI; invalid answers are sent back for repair
+ * up to `repairRounds` times before the fallback template is used
  */
-async function generateWorkflowWithAI(subtask: Subtask, lang: 'de' | 'en' = 'de'): Promise<GeneratedWorkflow> {
+async function generateWorkflowWithAI(
+  subtask: Subtask,
+  lang: 'de' | 'en' = 'de',
+  repairRounds = DEFAULT_REPAIR_ROUNDS
+): Promise<GenerationOutcome> {
   const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
   
   if (!openaiApiKey) {
@@ -62,9 +94,11 @@ WICHTIGE REGELN:
 1. Antworte NUR mit gültigem JSON - keine Erklärungen oder zusätzlichen Text
 2. Erstelle realistische n8n Nodes mit korrekten Parametern
 3. Verwende echte n8n Node-Typen (HTTP Request, Webhook, Slack, etc.)
-4. Erstelle logische Verbindungen zwischen den Nodes
-5. Berücksichtige die angegebenen Systeme und Integrationen
-6. Mache den Workflow praktisch und umsetzbar
+4. Erstelle logische Verbindungen zwischen den Nodes (Schlüssel und Ziele sind Node-Namen, nicht IDs)
+5. Beginne mit genau einem Trigger-Node (Webhook, Schedule Trigger, Manual Trigger oder App-Trigger)
+6. Keine API-Keys oder Passwörter in Parametern – dafür sind Credentials da
+7. Berücksichtige die angegebenen Systeme und Integrationen
+8. Mache den Workflow praktisch und umsetzbar
 
 JSON Format:
 {
@@ -75,14 +109,14 @@ JSON Format:
     {
       "id": "node-id",
       "name": "Node Name",
-      "type": "n8n-node-type",
+      "type": "n8n-nodes-base.httpRequest",
       "position": [x, y],
       "parameters": { /* n8n node parameters */ }
     }
   ],
   "connections": {
-    "node-id": {
-      "main": [[{"node": "target-node-id", "type": "main", "index": 0}]]
+    "Node Name": {
+      "main": [[{"node": "Target Node Name", "type": "main", "index": 0}]]
     }
   },
   "settings": {
@@ -97,9 +131,11 @@ IMPORTANT RULES:
 1. Respond ONLY with valid JSON - no explanations or additional text
 2. Create realistic n8n nodes with correct parameters
 3. Use real n8n node types (HTTP Request, Webhook, Slack, etc.)
-4. Create logical connections between nodes
-5. Consider the specified systems and integrations
-6. Make the workflow practical and implementable
+4. Create logical connections between nodes (keys and targets are node names, not ids)
+5. Start with exactly one trigger node (Webhook, Schedule Trigger, Manual Trigger or an app trigger)
+6. No API keys or passwords in parameters - credentials cover those
+7. Consider the specified systems and integrations
+8. Make the workflow practical and implementable
 
 JSON Format:
 {
@@ -110,14 +146,14 @@ JSON Format:
     {
       "id": "node-id",
       "name": "Node Name",
-      "type": "n8n-node-type",
+      "type": "n8n-nodes-base.httpRequest",
       "position": [x, y],
       "parameters": { /* n8n node parameters */ }
     }
   ],
   "connections": {
-    "node-id": {
-      "main": [[{"node": "target-node-id", "type": "main", "index": 0}]]
+    "Node Name": {
+      "main": [[{"node": "Target Node Name", "type": "main", "index": 0}]]
     }
   },
   "settings": {
@@ -161,51 +197,82 @@ AI Tools: ${subtask.aiTools.join(', ')}
 Create a practical, implementable n8n workflow with realistic nodes and connections.
 `;
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+
+  const result = await generateWithRepair<GeneratedWorkflow>(
+    () => requestCompletion(openaiApiKey, messages, 0.7),
+    (previous, errors) => requestCompletion(openaiApiKey, [
+      ...messages,
+      { role: "assistant", content: previous },
+      { role: "user", content: buildRepairPrompt(errors, lang) }
+    ], 0.2),
+    { maxRepairRounds: repairRounds }
+  );
+
+  result.attempts.forEach(attempt => {
+    console.log(`[generate-ai-workflow] ${attempt.kind} #${attempt.round}: ${attempt.outcome}, ${attempt.errorCount} errors`);
+  });
+
+  const generationMetadata = {
+    timestamp: Date.now(),
+    model: MODEL,
+    language: lang,
+    attempts: result.attempts
+  };
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+  if (result.workflow) {
+    const workflow = {
+      ...result.workflow,
+      name: result.workflow.name || subtask.title,
+      description: result.workflow.description || subtask.description,
+      summary: result.workflow.summary || result.workflow.description || subtask.description
+    };
+    return {
+      workflow,
+      status: 'generated',
+      validation: validateN8nWorkflow(workflow, { strict: true }),
+      generationMetadata
+    };
+  }
 
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
+  const fallback = generateFallbackWorkflow(subtask, lang);
+  return {
+    workflow: fallback,
+    status: 'fallback',
+    validation: validateN8nWorkflow(fallback, { strict: true }),
+    generationMetadata
+  };
+}
 
-    // Parse JSON response
-    const workflow = JSON.parse(content);
-    
-    // Validate required fields
-    if (!workflow.name || !workflow.description || !workflow.nodes) {
-      throw new Error("Invalid workflow structure received from AI");
-    }
+async function requestCompletion(apiKey: string, messages: ChatMessage[], temperature: number): Promise<string> {
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: MODEL,
+      messages,
+      max_tokens: 2000,
+      temperature,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+  }
 
-    return workflow;
+  const data = await response.json();
+  const content = data.choices[0]?.message?.content;
 
-  } catch (error) {
-    console.error('Error generating workflow with AI:', error);
-    
-    // Return fallback workflow if AI generation fails
-    return generateFallbackWorkflow(subtask, lang);
+  if (!content) {
+    throw new Error("No content received from OpenAI");
   }
+  return content;
 }
 
 /**
@@ -264,11 +331,11 @@ return processedItems;`
       }
     ],
     connections: {
-      'webhook-trigger': {
-        main: [[{ node: 'process-data', type: 'main', index: 0 }]]
+      'Webhook Trigger': {
+        main: [[{ node: 'Process Data', type: 'main', index: 0 }]]
       },
-      'process-data': {
-        main: [[{ node: 'respond', type: 'main', index: 0 }]]
+      'Process Data': {
+        main: [[{ node: 'Respond to Webhook', type: 'main', index: 0 }]]
       }
     },
     settings: {
@@ -304,7 +371,7 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    const { subtask, lang = 'de' } = await req.json();
+    const { subtask, lang = 'de', repairRounds = DEFAULT_REPAIR_ROUNDS } = await req.json();
 
     if (!subtask || !subtask.title) {
       return new Response(JSON.stringify({ 
@@ -320,15 +387,23 @@ async function handler(req: Request): Promise<Response> {
 
     console.log(`🤖 Generating AI workflow for: ${subtask.title}`);
 
-    // Generate workflow using AI
-    const workflow = await generateWorkflowWithAI(subtask, lang);
+    // Generate workflow using AI, repairing invalid answers
+    const { workflow, status, validation, generationMetadata } = await generateWorkflowWithAI(subtask, lang, repairRounds);
 
-    console.log(`✅ Generated workflow: ${workflow.name}`);
+    if (status === 'fallback') {
+      console.warn(`[generate-ai-workflow] No valid workflow after ${generationMetadata.attempts.length} attempts, using fallback`);
+    } else {
+      console.log(`✅ Generated workflow: ${workflow.name}`);
+    }
 
     return new Response(JSON.stringify({ 
       workflow,
+      validation,
+      status,
+      diagnostics: validation.diagnostics,
+      generationMetadata,
       success: true,
-      generated: true
+      generated: status === 'generated'
     }), { 
       headers: { 
         "Content-Type": "application/json",
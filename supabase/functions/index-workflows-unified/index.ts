@@ -3,77 +3,35 @@
  * 
  * Updated to work with unified_workflows table
  * Integrates with feature flags for gradual rollout
+ * quality_prior is weighted by a scoring profile (body.profile, default 'default')
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { isUnifiedWorkflowReadEnabled } from '../_shared/feature-toggles.ts';
-
-interface UnifiedWorkflow {
+import { embedTexts } from '../_shared/embeddings.ts';
+import {
+  QualityPriorRow,
+  ScoringProfile,
+  ScoringProfileRow,
+  calculateQualityPrior,
+  profileFromRow,
+  profileRef,
+  qualityPriorInputFromRow,
+  resolveScoringProfile
+} from '../_shared/scoring-profiles.ts';
+
+/** unified_workflows row as loaded with select('*') */
+interface UnifiedWorkflowRow extends QualityPriorRow {
   id: string;
   title: string;
   description: string;
-  summary?: string;
+  summary?: string | null;
   source: 'github' | 'n8n.io' | 'ai-generated' | 'manual' | 'api';
-  sourceUrl?: string;
   category: string;
-  tags: string[];
-  license?: string;
+  tags?: string[] | null;
   complexity: 'Low' | 'Medium' | 'High' | 'Easy' | 'Hard';
-  triggerType: 'Manual' | 'Webhook' | 'Scheduled' | 'Complex';
-  integrations: string[];
-  nodeCount?: number;
-  connectionCount?: number;
-  author?: {
-    name?: string;
-    username?: string;
-    avatar?: string;
-    verified?: boolean;
-  };
-  createdAt: string;
-  updatedAt?: string;
-  version?: string;
-  status: 'generated' | 'verified' | 'fallback' | 'loading';
-  isAIGenerated: boolean;
-  generationMetadata?: {
-    timestamp: number;
-    model?: string;
-    language?: string;
-    cacheKey?: string;
-  };
-  validationStatus?: 'valid' | 'invalid' | 'pending';
-  setupCost?: number;
-  estimatedTime?: string;
-  estimatedCost?: string;
-  timeSavings?: number;
-  downloads?: number;
-  rating?: number;
-  popularity?: number;
-  verified?: boolean;
-  domainClassification?: {
-    domains: string[];
-    confidences: number[];
-    origin: 'llm' | 'admin' | 'mixed';
-  };
-  score?: {
-    overall: number;
-    complexity: number;
-    integration: number;
-    popularity: number;
-    quality: number;
-  };
-  match?: {
-    score: number;
-    reason: string;
-    confidence: number;
-  };
-  downloadUrl?: string;
-  previewUrl?: string;
-  thumbnailUrl?: string;
-  active?: boolean;
-  fileHash?: string;
-  analyzedAt?: string;
-  lastAccessed?: string;
-  cacheKey?: string;
+  trigger_type: 'Manual' | 'Webhook' | 'Scheduled' | 'Complex';
+  integrations?: string[] | null;
 }
 
 function getSupabase() {
@@ -87,41 +45,10 @@ function getSupabase() {
   return createClient(url, serviceKey);
 }
 
-/**
- * Generate embeddings for workflows
- */
-async function embedAll(texts: string[], apiKey?: string): Promise<number[][]> {
-  if (!apiKey) return [];
-  
-  try {
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: texts,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.data.map((d: any) => d.embedding as number[]);
-  } catch (error) {
-    console.error('Error generating embeddings:', error);
-    return [];
-  }
-}
-
 /**
  * Normalize integrations for unified workflows
  */
-function normalizeIntegrations(workflow: UnifiedWorkflow): string[] {
+function normalizeIntegrations(workflow: UnifiedWorkflowRow): string[] {
   return workflow.integrations || [];
 }
 
@@ -153,27 +80,21 @@ function normalizeComplexity(complexity: string): string {
 }
 
 /**
- * Calculate quality prior for unified workflows
+ * Active version of the requested scoring profile, the built-in one when it is not stored
  */
-function calculateQualityPrior(workflow: UnifiedWorkflow): number {
-  let score = 0.5; // Base score
-  
-  // Boost for verified workflows
-  if (workflow.verified) score += 0.2;
-  
-  // Boost for AI-generated workflows
-  if (workflow.isAIGenerated) score += 0.1;
-  
-  // Boost for high ratings
-  if (workflow.rating && workflow.rating > 4) score += 0.1;
-  
-  // Boost for high popularity
-  if (workflow.popularity && workflow.popularity > 100) score += 0.1;
-  
-  // Boost for downloads
-  if (workflow.downloads && workflow.downloads > 50) score += 0.1;
-  
-  return Math.min(score, 1.0);
+async function loadScoringProfile(supabase: any, slug?: string): Promise<ScoringProfile> {
+  const builtin = resolveScoringProfile(slug);
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .eq('slug', slug || builtin.slug)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) {
+    console.warn(`[index-workflows-unified] scoring profile lookup failed, using built-in ${builtin.slug}:`, error.message);
+    return builtin;
+  }
+  return data ? profileFromRow(data as ScoringProfileRow) : builtin;
 }
 
 /**
@@ -206,16 +127,17 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    const { sources = ["github", "n8n.io", "ai-generated"], batchSize = 800 } = await req.json().catch(() => ({}));
+    const { sources = ["github", "n8n.io", "ai-generated"], batchSize = 800, profile: profileSlug } = await req.json().catch(() => ({}));
     const supabase = getSupabase();
+    const profile = await loadScoringProfile(supabase, typeof profileSlug === 'string' ? profileSlug : undefined);
 
     // Check if unified workflow schema is enabled
     const useUnified = isUnifiedWorkflowReadEnabled();
     
     if (useUnified) {
-      return await handleUnifiedWorkflows(supabase, sources, batchSize, startTime);
+      return await handleUnifiedWorkflows(supabase, sources, batchSize, startTime, profile);
     } else {
-      return await handleLegacyWorkflows(supabase, sources, batchSize, startTime);
+      return await handleLegacyWorkflows(supabase, sources, batchSize, startTime, profile);
     }
 
   } catch (e) {
@@ -238,7 +160,8 @@ async function handleUnifiedWorkflows(
   supabase: any, 
   sources: string[], 
   batchSize: number, 
-  startTime: number
+  startTime: number,
+  profile: ScoringProfile
 ): Promise<Response> {
   let totalWorkflows = 0;
   let embeddedCount = 0;
@@ -259,7 +182,8 @@ async function handleUnifiedWorkflows(
       return new Response(JSON.stringify({ 
         updated: 0, 
         message: "No unified workflows found",
-        unified: true
+        unified: true,
+        profile: profileRef(profile)
       }), { 
         headers: { 
           "Content-Type": "application/json",
@@ -271,9 +195,9 @@ async function handleUnifiedWorkflows(
     totalWorkflows = workflows.length;
 
     // Build feature rows for unified workflows
-    const features = workflows.map((workflow: UnifiedWorkflow) => {
+    const features = workflows.map((workflow: UnifiedWorkflowRow) => {
       const integrations = normalizeIntegrations(workflow);
-      const triggers = normalizeTrigger(workflow.triggerType);
+      const triggers = normalizeTrigger(workflow.trigger_type);
       const complexity = normalizeComplexity(workflow.complexity);
       
       return {
@@ -282,10 +206,12 @@ async function handleUnifiedWorkflows(
         integrations_norm: integrations,
         triggers_norm: triggers,
         complexity_band: complexity,
-        author_verified: workflow.author?.verified || false,
+        author_verified: workflow.author_verified || false,
         rating: workflow.rating || null,
-        quality_prior: calculateQualityPrior(workflow),
-        is_ai_generated: workflow.isAIGenerated,
+        quality_prior: calculateQualityPrior(qualityPriorInputFromRow(workflow), profile.workflow),
+        scoring_profile: profile.slug,
+        scoring_profile_version: profile.version,
+        is_ai_generated: workflow.is_ai_generated ?? false,
         category: workflow.category,
         updated_at: new Date().toISOString()
       };
@@ -308,12 +234,12 @@ async function handleUnifiedWorkflows(
     // Generate embeddings if API key available
     const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
     if (OPENAI_API_KEY) {
-      const texts = workflows.map((w: UnifiedWorkflow) => 
+      const texts = workflows.map((w: UnifiedWorkflowRow) => 
         `${w.title || ""}\n${w.description || ""}\n${w.summary || ""}\n${(w.tags || []).join(",")}`.slice(0, 4000)
       );
       
       await chunk(texts, batchSize, async (part, idx) => {
-        const embs = await embedAll(part, OPENAI_API_KEY);
+        const embs = await embedTexts(part, OPENAI_API_KEY);
         if (!embs || embs.length === 0) return;
         
         const rows = embs.map((e, i) => {
@@ -335,13 +261,14 @@ async function handleUnifiedWorkflows(
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[index-workflows-unified] duration=${duration}ms workflows=${totalWorkflows} features=${features.length} embeddings=${embeddedCount}`);
+    console.log(`[index-workflows-unified] duration=${duration}ms workflows=${totalWorkflows} features=${features.length} embeddings=${embeddedCount} profile=${profile.slug}@${profile.version}`);
     
     return new Response(JSON.stringify({ 
       updated: features.length, 
       embedded: embeddedCount,
       unified: true,
-      workflows: totalWorkflows
+      workflows: totalWorkflows,
+      profile: profileRef(profile)
     }), { 
       headers: { 
         "Content-Type": "application/json",
@@ -363,7 +290,8 @@ async function handleLegacyWorkflows(
   supabase: any, 
   sources: string[], 
   batchSize: number, 
-  startTime: number
+  startTime: number,
+  profile: ScoringProfile
 ): Promise<Response> {
   let totalWorkflows = 0;
   let embeddedCount = 0;
@@ -389,7 +317,8 @@ async function handleLegacyWorkflows(
       return new Response(JSON.stringify({ 
         updated: 0, 
         message: "No legacy workflows found",
-        unified: false
+        unified: false,
+        profile: profileRef(profile)
       }), { 
         headers: { 
           "Content-Type": "application/json",
@@ -415,7 +344,9 @@ async function handleLegacyWorkflows(
         complexity_band: complexity,
         author_verified: !!w.authorVerified,
         rating: null,
-        quality_prior: 0.5,
+        quality_prior: profile.workflow.base,
+        scoring_profile: profile.slug,
+        scoring_profile_version: profile.version,
         is_ai_generated: false,
         category: w.category || 'General',
         updated_at: new Date().toISOString()
@@ -444,7 +375,7 @@ async function handleLegacyWorkflows(
       );
       
       await chunk(texts, batchSize, async (part, idx) => {
-        const embs = await embedAll(part, OPENAI_API_KEY);
+        const embs = await embedTexts(part, OPENAI_API_KEY);
         if (!embs || embs.length === 0) return;
         
         const rows = embs.map((e, i) => {
@@ -466,13 +397,14 @@ async function handleLegacyWorkflows(
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[index-workflows-unified] duration=${duration}ms workflows=${totalWorkflows} features=${features.length} embeddings=${embeddedCount}`);
+    console.log(`[index-workflows-unified] duration=${duration}ms workflows=${totalWorkflows} features=${features.length} embeddings=${embeddedCount} profile=${profile.slug}@${profile.version}`);
     
     return new Response(JSON.stringify({ 
       updated: features.length, 
       embedded: embeddedCount,
       unified: false,
-      workflows: totalWorkflows
+      workflows: totalWorkflows,
+      profile: profileRef(profile)
     }), { 
       headers: { 
         "Content-Type": "application/json",
@@ -1,28 +1,32 @@
 /**
- * OpenAI Proxy - Secure backend for OpenAI API calls
- * This Edge Function acts as a secure proxy to prevent API key exposure
+ * OpenAI Proxy - Secure backend for LLM API calls
+ * This Edge Function acts as a secure proxy to prevent API key exposure.
+ * The provider (OpenAI, Azure OpenAI, Anthropic, local) is chosen per action,
+ * see _shared/llm-config.ts.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { streamCompletion, type LLMMessage } from '../_shared/llm-providers.ts';
+import { createProviderFromEnv, resolveActionConfig } from '../_shared/llm-config.ts';
+import { embedTexts, EMBEDDING_MODEL } from '../_shared/embeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
 interface OpenAIRequestBody {
-  action: 'chat' | 'analyze-job' | 'analyze-job-complete' | 'generate-subtasks' | 'generate-business-case' | 'find-solutions' | 'complete-analysis' | 'generate-workflow';
-  messages?: OpenAIMessage[];
+  action: 'chat' | 'analyze-job' | 'analyze-job-complete' | 'generate-subtasks' | 'generate-business-case' | 'find-solutions' | 'complete-analysis' | 'generate-workflow' | 'embed';
+  messages?: LLMMessage[];
+  /** Texts to embed for the 'embed' action (search queries); always OpenAI, see _shared/embeddings.ts */
+  texts?: string[];
   jobText?: string;
   taskText?: string;
   subtasks?: any[];
   subtask?: any;
   lang?: 'de' | 'en';
+  /** Relay the completion as server-sent events instead of a single JSON body */
+  stream?: boolean;
   options?: {
     temperature?: number;
     max_tokens?: number;
@@ -39,14 +43,7 @@ serve(async (req) => {
   }
 
   try {
-    // Get OpenAI API key from environment (NOT prefixed with VITE_)
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured on server');
-    }
-
-    const { action, messages, jobText, taskText, subtasks, subtask, lang = 'de', options }: OpenAIRequestBody = await req.json();
+    const { action, messages, texts, jobText, taskText, subtasks, subtask, lang = 'de', stream = false, options }: OpenAIRequestBody = await req.json();
 
     let systemPrompt = '';
     let userPrompt = '';
@@ -58,7 +55,10 @@ serve(async (req) => {
         if (!messages) {
           throw new Error('Messages required for chat action');
         }
-        return await makeOpenAIRequest(OPENAI_API_KEY, messages, options);
+        if (stream) {
+          return streamLLMResponse(action, messages, options, 1000);
+        }
+        return jsonResponse(await makeLLMRequest(action, messages, options, 1000));
 
       case 'analyze-job':
         if (!jobText) {
@@ -203,24 +203,35 @@ ${jobText.slice(0, 1000)}`;
         maxTokens = 2000;
         break;
 
+      case 'embed': {
+        if (!texts || texts.length === 0) {
+          throw new Error('texts required for embed action');
+        }
+        // Not routed through LLM_ACTION_CONFIG: query vectors must come from the model the workflows were indexed with
+        const embeddings = await embedTexts(texts.map(text => text.slice(0, 4000)), Deno.env.get('OPENAI_API_KEY'));
+        if (embeddings.length === 0) {
+          throw new Error('Embeddings unavailable');
+        }
+        return jsonResponse({ embeddings, model: EMBEDDING_MODEL });
+      }
+
       default:
         throw new Error(`Unknown action: ${action}`);
     }
 
-    // Make OpenAI API request
-    const response = await makeOpenAIRequest(
-      OPENAI_API_KEY,
-      [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      { ...options, max_tokens: maxTokens }
-    );
+    const promptMessages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    if (stream) {
+      return streamLLMResponse(action, promptMessages, options, maxTokens);
+    }
 
-    return new Response(JSON.stringify(response), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    // Make LLM request with the provider configured for this action
+    const response = await makeLLMRequest(action, promptMessages, options, maxTokens);
+
+    return jsonResponse(response);
 
   } catch (error) {
     console.error('OpenAI Proxy Error:', error);
@@ -237,51 +248,92 @@ ${jobText.slice(0, 1000)}`;
   }
 });
 
-async function makeOpenAIRequest(apiKey: string, messages: OpenAIMessage[], options: any = {}) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages,
-      temperature: options.temperature || 0.7,
-      max_tokens: options.max_tokens || 1000,
-      top_p: options.top_p || 1,
-      frequency_penalty: options.frequency_penalty || 0,
-      presence_penalty: options.presence_penalty || 0,
-    }),
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
   });
+}
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`OpenAI API Error: ${errorData.error?.message || 'Unknown error'}`);
-  }
+function prepareLLMRequest(
+  action: string,
+  options: OpenAIRequestBody['options'] = {},
+  defaultMaxTokens: number
+) {
+  const config = resolveActionConfig(
+    action,
+    { temperature: 0.7, maxTokens: defaultMaxTokens },
+    { temperature: options.temperature, maxTokens: options.max_tokens }
+  );
+  const provider = createProviderFromEnv(config.provider);
 
-  const data = await response.json();
-  
-  // Extract JSON from markdown code blocks if present
-  let content = data.choices[0]?.message?.content || '';
-  
-  // Check if response is wrapped in markdown code blocks
-  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-  if (jsonMatch) {
-    content = jsonMatch[1].trim();
-  } else if (content.startsWith('```') && content.endsWith('```')) {
-    // Handle generic code blocks
-    const lines = content.split('\n');
-    content = lines.slice(1, -1).join('\n').trim();
-  }
+  console.log(`🤖 [openai-proxy] ${action} via ${config.provider} (${config.model})`);
 
   return {
-    content: content,
-    usage: data.usage,
-    model: data.model,
+    provider,
+    requestOptions: {
+      ...options,
+      model: config.model,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+    },
   };
 }
 
+async function makeLLMRequest(
+  action: string,
+  messages: LLMMessage[],
+  options: OpenAIRequestBody['options'] = {},
+  defaultMaxTokens: number
+) {
+  const { provider, requestOptions } = prepareLLMRequest(action, options, defaultMaxTokens);
+  return await provider.complete(messages, requestOptions);
+}
+
+/**
+ * Relay the completion as server-sent events:
+ *   data: {"delta":"..."}                       for each text chunk
+ *   data: {"done":true,"content":"...",...}     once, with the full completion
+ *   data: {"error":"..."}                       if the provider fails mid-stream
+ */
+function streamLLMResponse(
+  action: string,
+  messages: LLMMessage[],
+  options: OpenAIRequestBody['options'] = {},
+  defaultMaxTokens: number
+): Response {
+  const { provider, requestOptions } = prepareLLMRequest(action, options, defaultMaxTokens);
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (payload: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      try {
+        const completion = await streamCompletion(provider, messages, requestOptions, (delta) => send({ delta }));
+        send({ done: true, ...completion });
+      } catch (error) {
+        console.error('OpenAI Proxy Stream Error:', error);
+        send({ error: error.message || 'Stream failed' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+    status: 200,
+  });
+}
+
 // Prompt builders
 function buildSubtasksPrompt(lang: string): string {
   return lang === 'de'
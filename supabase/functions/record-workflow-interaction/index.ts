@@ -0,0 +1,112 @@
+/**
+ * Workflow Interaction Recording Edge Function
+ *
+ * Stores marketplace views/downloads in workflow_interaction_events, the internal signal
+ * of the popularity score (see _shared/popularity.ts). Clients cannot insert events
+ * themselves: the session is derived from the caller's address, each session is
+ * stored once per workflow, type and day, and at most MAX_INTERACTIONS_PER_HOUR events
+ * per session and hour are accepted.
+ *
+ * POST { workflowId, eventType: 'view' | 'download' }
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clientAddress, interactionSessionKey, MAX_INTERACTIONS_PER_HOUR } from '../_shared/popularity.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+} as Record<string, string>;
+
+const EVENT_TYPES = ['view', 'download'] as const;
+type EventType = typeof EVENT_TYPES[number];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const workflowId = typeof body.workflowId === 'string' ? body.workflowId.trim() : '';
+    const eventType = body.eventType as EventType;
+    if (!workflowId || workflowId.length > 200 || !EVENT_TYPES.includes(eventType)) {
+      return jsonResponse({ success: false, error: 'workflowId and eventType (view | download) required' }, 400);
+    }
+
+    const address = clientAddress(req);
+    if (!address) {
+      return jsonResponse({ success: false, error: 'Client address unavailable' }, 400);
+    }
+
+    const now = new Date();
+    const sessionId = await interactionSessionKey(address, now);
+    const supabase = getSupabase();
+
+    if (await countSessionEvents(supabase, sessionId, new Date(now.getTime() - 60 * 60 * 1000)) >= MAX_INTERACTIONS_PER_HOUR) {
+      return jsonResponse({ success: false, error: 'Too many interactions, try again later' }, 429);
+    }
+
+    // Popularity counts a session once per workflow, type and day; repeats need no row
+    const startOfDay = new Date(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+    if (await countSessionEvents(supabase, sessionId, startOfDay, { workflowId, eventType }) > 0) {
+      return jsonResponse({ success: true, recorded: false });
+    }
+
+    const { error } = await supabase
+      .from('workflow_interaction_events')
+      .insert({ workflow_id: workflowId, event_type: eventType, session_id: sessionId, created_at: now.toISOString() });
+    if (error) throw new Error(`Failed to record interaction: ${error.message}`);
+
+    return jsonResponse({ success: true, recorded: true });
+  } catch (error) {
+    console.error('[record-workflow-interaction] error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function getSupabase() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient(url, serviceKey);
+}
+
+async function countSessionEvents(
+  supabase: SupabaseClient,
+  sessionId: string,
+  since: Date,
+  filter?: { workflowId: string; eventType: EventType }
+): Promise<number> {
+  let query = supabase
+    .from('workflow_interaction_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .gte('created_at', since.toISOString());
+  if (filter) {
+    query = query.eq('workflow_id', filter.workflowId).eq('event_type', filter.eventType);
+  }
+
+  const { count, error } = await query;
+  if (error) throw new Error(`Failed to count interactions: ${error.message}`);
+  return count ?? 0;
+}
@@ -0,0 +1,251 @@
+/**
+ * Workflow Popularity Refresh Edge Function
+ *
+ * Collects real popularity signals and writes the time-decayed score to unified_workflows:
+ * - GitHub stars, forks and last push of the source repository
+ * - view counts from the n8n.io template API
+ * - our own view/download events (workflow_interaction_events)
+ *
+ * Writes with the service role, so the caller must be an admin or the scheduler calling
+ * with the service role key (see _shared/admin-auth.ts).
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorizeAdmin } from '../_shared/admin-auth.ts';
+import { computePopularity, dedupeSessionEvents, PopularityEvent, PopularitySignals } from '../_shared/popularity.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+} as Record<string, string>;
+
+const FETCH_CONCURRENCY = 8;
+const EVENT_WINDOW_DAYS = 365;
+const PAGE_SIZE = 1000;
+
+interface WorkflowRow {
+  id: string;
+  source: string;
+  source_url: string | null;
+}
+
+interface RepoStats {
+  stars: number;
+  forks: number;
+  pushedAt?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const supabase = getSupabase();
+    const caller = await authorizeAdmin(req, supabase, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+    if (!caller.ok) {
+      return jsonResponse({ success: false, error: caller.error }, caller.status);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const sources: string[] = Array.isArray(body.sources) ? body.sources : ['github', 'n8n.io'];
+    const now = new Date();
+
+    const workflows = await loadWorkflows(supabase, sources);
+    const [repoStats, templateViews, events] = await Promise.all([
+      loadRepoStats(workflows),
+      loadTemplateViews(workflows),
+      loadEvents(supabase, now)
+    ]);
+
+    let updated = 0;
+    await runLimited(workflows, FETCH_CONCURRENCY, async workflow => {
+      const repo = repoStats.get(githubRepoOf(workflow.source_url) || '');
+      const templateId = n8nTemplateIdOf(workflow.source_url);
+      const workflowEvents = dedupeSessionEvents(events.get(workflow.id) || []);
+      const downloads = workflowEvents.filter(event => event.type === 'download').length;
+
+      const signals: PopularitySignals = {
+        githubStars: repo?.stars,
+        githubForks: repo?.forks,
+        lastCommitAt: repo?.pushedAt,
+        sourceViews: templateId ? templateViews.get(templateId) : undefined,
+        events: workflowEvents
+      };
+      const breakdown = computePopularity(signals, now);
+
+      const { error } = await supabase
+        .from('unified_workflows')
+        .update({
+          popularity: breakdown.score,
+          downloads,
+          popularity_signals: {
+            githubStars: signals.githubStars ?? null,
+            githubForks: signals.githubForks ?? null,
+            lastCommitAt: signals.lastCommitAt ?? null,
+            sourceViews: signals.sourceViews ?? null,
+            views: workflowEvents.length - downloads,
+            decayedViews: breakdown.decayedViews,
+            decayedDownloads: breakdown.decayedDownloads,
+            components: breakdown.components,
+            freshness: breakdown.freshness
+          },
+          popularity_updated_at: now.toISOString()
+        })
+        .eq('id', workflow.id);
+
+      if (error) {
+        console.warn(`[refresh-workflow-popularity] update failed for ${workflow.id}:`, error.message);
+      } else {
+        updated++;
+      }
+    });
+
+    return jsonResponse({
+      success: true,
+      updated,
+      total: workflows.length,
+      repositories: repoStats.size,
+      templates: templateViews.size,
+      durationMs: Date.now() - startTime
+    });
+  } catch (error) {
+    console.error('[refresh-workflow-popularity] error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function getSupabase() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient(url, serviceKey);
+}
+
+async function loadWorkflows(supabase: SupabaseClient, sources: string[]): Promise<WorkflowRow[]> {
+  const rows: WorkflowRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('unified_workflows')
+      .select('id, source, source_url')
+      .in('source', sources)
+      .eq('active', true)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load workflows: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadEvents(supabase: SupabaseClient, now: Date): Promise<Map<string, PopularityEvent[]>> {
+  const since = new Date(now.getTime() - EVENT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const byWorkflow = new Map<string, PopularityEvent[]>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('workflow_interaction_events')
+      .select('workflow_id, event_type, session_id, created_at')
+      .gte('created_at', since)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load interaction events: ${error.message}`);
+
+    (data || []).forEach((row: { workflow_id: string; event_type: 'view' | 'download'; session_id: string | null; created_at: string }) => {
+      const list = byWorkflow.get(row.workflow_id) || [];
+      list.push({ type: row.event_type, occurredAt: row.created_at, sessionId: row.session_id });
+      byWorkflow.set(row.workflow_id, list);
+    });
+    if (!data || data.length < PAGE_SIZE) return byWorkflow;
+  }
+}
+
+/**
+ * Repository stats per "owner/repo"; one API call per repository, not per file
+ */
+async function loadRepoStats(workflows: WorkflowRow[]): Promise<Map<string, RepoStats>> {
+  const repos = Array.from(new Set(workflows.map(w => githubRepoOf(w.source_url)).filter((r): r is string => !!r)));
+  const token = Deno.env.get('GITHUB_TOKEN') || Deno.env.get('VITE_GITHUB_TOKEN');
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'prom8eus-workflow-indexer',
+  };
+  if (token) headers['Authorization'] = `token ${token}`;
+
+  const stats = new Map<string, RepoStats>();
+  await runLimited(repos, FETCH_CONCURRENCY, async repo => {
+    try {
+      const response = await fetch(`https://api.github.com/repos/${repo}`, { headers });
+      if (!response.ok) return;
+      const data = await response.json();
+      stats.set(repo, {
+        stars: Number(data.stargazers_count) || 0,
+        forks: Number(data.forks_count) || 0,
+        pushedAt: data.pushed_at || undefined
+      });
+    } catch (error) {
+      console.warn(`[refresh-workflow-popularity] GitHub stats failed for ${repo}:`, error);
+    }
+  });
+  return stats;
+}
+
+async function loadTemplateViews(workflows: WorkflowRow[]): Promise<Map<string, number>> {
+  const ids = Array.from(new Set(workflows.map(w => n8nTemplateIdOf(w.source_url)).filter((id): id is string => !!id)));
+  const views = new Map<string, number>();
+
+  await runLimited(ids, FETCH_CONCURRENCY, async id => {
+    try {
+      const response = await fetch(`https://api.n8n.io/api/templates/workflows/${id}`, {
+        headers: { 'Accept': 'application/json', 'User-Agent': 'Mozilla/5.0 (compatible; Prom8eusBot/1.0; +https://prom8eus.local)' }
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      const total = data?.workflow?.totalViews ?? data?.totalViews;
+      if (typeof total === 'number') views.set(id, total);
+    } catch (error) {
+      console.warn(`[refresh-workflow-popularity] n8n template views failed for ${id}:`, error);
+    }
+  });
+  return views;
+}
+
+function githubRepoOf(url: string | null): string | null {
+  const match = (url || '').match(/github\.com\/([^/]+)\/([^/#?]+)/);
+  return match ? `${match[1]}/${match[2].replace(/\.git$/, '')}` : null;
+}
+
+function n8nTemplateIdOf(url: string | null): string | null {
+  const match = (url || '').match(/n8n\.io\/workflows\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+async function runLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
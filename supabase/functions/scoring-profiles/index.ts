@@ -0,0 +1,175 @@
+/**
+ * Scoring Profiles Edge Function
+ *
+ * Admin edits of scoring_profiles. Every save writes a new version and makes it
+ * the active one; older versions stay for comparison and rollback.
+ *
+ * POST { action: 'list' }                                      active version of every profile
+ * POST { action: 'history', slug }                             all versions of a profile, newest first
+ * POST { action: 'save', slug, name, description?, config }    store a new active version
+ * POST { action: 'activate', slug, version }                   roll back/forward to a stored version
+ *
+ * Reads are public like the table itself; save and activate write with the service
+ * role, so the caller must be an admin (see _shared/admin-auth.ts).
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorizeAdmin } from '../_shared/admin-auth.ts';
+import {
+  BUILTIN_SCORING_PROFILES,
+  ScoringProfile,
+  ScoringProfileRow,
+  mergeProfileConfig,
+  profileFromRow,
+  resolveScoringProfile,
+  validateProfileConfig
+} from '../_shared/scoring-profiles.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+} as Record<string, string>;
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const WRITE_ACTIONS = new Set(['save', 'activate']);
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const supabase = getSupabase();
+
+    const caller = WRITE_ACTIONS.has(body.action)
+      ? await authorizeAdmin(req, supabase, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"))
+      : null;
+    if (caller && !caller.ok) {
+      return jsonResponse({ success: false, error: caller.error }, caller.status);
+    }
+
+    if (body.action === 'history') {
+      if (typeof body.slug !== 'string') {
+        return jsonResponse({ success: false, error: 'slug is required' }, 400);
+      }
+      const { data, error } = await supabase
+        .from('scoring_profiles')
+        .select('*')
+        .eq('slug', body.slug)
+        .order('version', { ascending: false });
+      if (error) throw new Error(`Loading profile history failed: ${error.message}`);
+      return jsonResponse({
+        success: true,
+        versions: (data || []).map((row: ScoringProfileRow & { created_at: string; created_by: string | null }) => ({
+          profile: profileFromRow(row),
+          active: row.is_active,
+          createdAt: row.created_at,
+          createdBy: row.created_by
+        }))
+      });
+    }
+
+    if (body.action === 'save') {
+      if (typeof body.slug !== 'string' || !SLUG_PATTERN.test(body.slug) || typeof body.name !== 'string' || !body.name.trim()) {
+        return jsonResponse({ success: false, error: 'slug (lowercase, digits, dashes) and name are required' }, 400);
+      }
+      const base = resolveScoringProfile(body.slug);
+      const config = mergeProfileConfig(body.config, base);
+      const errors = validateProfileConfig(config);
+      if (errors.length > 0) {
+        return jsonResponse({ success: false, error: errors.join('; '), errors }, 400);
+      }
+
+      const { data: latest, error: latestError } = await supabase
+        .from('scoring_profiles')
+        .select('version')
+        .eq('slug', body.slug)
+        .order('version', { ascending: false })
+        .limit(1);
+      if (latestError) throw new Error(`Loading profile failed: ${latestError.message}`);
+      const version = (latest?.[0]?.version ?? 0) + 1;
+
+      const { error: insertError } = await supabase
+        .from('scoring_profiles')
+        .insert({
+          slug: body.slug,
+          version,
+          name: body.name.trim(),
+          description: typeof body.description === 'string' ? body.description : null,
+          config,
+          is_active: false,
+          // The verified caller wins over a name sent in the body
+          created_by: caller?.email ?? caller?.userId ?? (typeof body.createdBy === 'string' ? body.createdBy : null)
+        });
+      if (insertError) throw new Error(`Saving profile failed: ${insertError.message}`);
+
+      if (!await activateVersion(supabase, body.slug, version)) {
+        throw new Error(`Activating profile ${body.slug} version ${version} failed`);
+      }
+      return jsonResponse({ success: true, slug: body.slug, version });
+    }
+
+    if (body.action === 'activate') {
+      const version = Number(body.version);
+      if (typeof body.slug !== 'string' || !Number.isInteger(version)) {
+        return jsonResponse({ success: false, error: 'slug and version are required' }, 400);
+      }
+      if (!await activateVersion(supabase, body.slug, version)) {
+        return jsonResponse({ success: false, error: `Profile ${body.slug} has no version ${version}` }, 404);
+      }
+      return jsonResponse({ success: true, slug: body.slug, version });
+    }
+
+    return jsonResponse({ success: true, profiles: await loadActiveProfiles(supabase) });
+  } catch (e) {
+    console.error('[scoring-profiles] error:', (e as Error).message);
+    return jsonResponse({ success: false, error: (e as Error).message }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function getSupabase() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient(url, serviceKey);
+}
+
+/**
+ * Active version of every stored profile plus the built-ins not stored yet
+ */
+async function loadActiveProfiles(supabase: SupabaseClient): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .eq('is_active', true)
+    .order('slug');
+  if (error) throw new Error(`Loading profiles failed: ${error.message}`);
+  const stored = (data || []).map((row: ScoringProfileRow) => profileFromRow(row));
+  const slugs = new Set(stored.map((profile: ScoringProfile) => profile.slug));
+  return [...stored, ...BUILTIN_SCORING_PROFILES.filter(profile => !slugs.has(profile.slug))];
+}
+
+// Deactivating the current version and activating the new one happen in one transaction
+// (activate_scoring_profile, migration 20251019000013); false when the version does not exist
+async function activateVersion(supabase: SupabaseClient, slug: string, version: number): Promise<boolean> {
+  const { data, error } = await supabase.rpc('activate_scoring_profile', { p_slug: slug, p_version: version });
+  if (error) throw new Error(`Activating profile failed: ${error.message}`);
+  return data === true;
+}
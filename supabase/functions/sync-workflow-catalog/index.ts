@@ -0,0 +1,582 @@
+/**
+ * Incremental Workflow Catalog Sync Edge Function
+ *
+ * Replaces full re-fetches of the catalog:
+ * - GitHub: one conditional HEAD commit request (ETag), one recursive tree listing;
+ *   only files whose blob SHA changed are downloaded and upserted
+ * - n8n.io: paged template listing, per-template content hash
+ * - workflows missing from a complete listing are soft-deleted (active = false)
+ * - progress is checkpointed in workflow_sync_state; a run that hits the time budget
+ *   is resumed by the next invocation
+ * - every run writes a report (added/updated/removed/failed) to workflow_sync_reports
+ *
+ * Writes the catalog with the service role, so the caller must be an admin or the
+ * scheduler calling with the service role key (see _shared/admin-auth.ts).
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorizeAdmin } from '../_shared/admin-auth.ts';
+import {
+  contentHash,
+  planSync,
+  recordFailure,
+  resumeOrStartReport,
+  stableWorkflowId,
+  StoredCatalogEntry,
+  SyncCheckpoint,
+  SyncReport
+} from '../_shared/catalog-sync.ts';
+import { analyzeN8nWorkflow, N8nNodeLike, N8nWorkflowLike, N8nWorkflowMetadata } from '../_shared/n8n-workflow-metadata.ts';
+import { graphFingerprint } from '../_shared/workflow-dedup.ts';
+import { validateN8nWorkflow, WorkflowValidationResult } from '../_shared/n8n-workflow-validator.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+} as Record<string, string>;
+
+const GITHUB_REPOSITORIES: Record<string, string> = {
+  'github': 'Zie619/n8n-workflows',
+  'ai-enhanced': 'wassupjay/n8n-free-templates',
+  'awesome-n8n-templates': 'awesome-n8n-templates/awesome-n8n-templates',
+};
+
+const DEFAULT_TIME_BUDGET_MS = 110_000; // below the edge function wall-clock limit
+const BATCH_SIZE = 20;
+const PAGE_SIZE = 1000;
+const N8N_PAGE_SIZE = 100;
+const NON_WORKFLOW_FILES = new Set(['package.json', 'package-lock.json', 'tsconfig.json', 'composer.json']);
+// Stored file_hash of GitHub files: blob SHA prefix, as written by fetch-github-workflows-unified
+const GITHUB_HASH_LENGTH = 8;
+
+interface SyncContext {
+  supabase: SupabaseClient;
+  force: boolean;
+  deadline: number;
+  now: Date;
+}
+
+interface SyncState {
+  etag: string | null;
+  revision: string | null;
+  checkpoint: SyncCheckpoint | null;
+}
+
+interface GithubTreeEntry {
+  path: string;
+  sha: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+// Entry of the n8n.io template listing; nodes carry types but no connections
+interface N8nTemplateListItem {
+  id: number | string;
+  name?: string;
+  description?: string;
+  totalViews?: number;
+  nodes?: N8nNodeLike[];
+  categories?: Array<{ name?: string }>;
+  user?: { name?: string; username?: string };
+}
+
+interface StoredWorkflowRow {
+  id: string;
+  file_hash: string | null;
+  active: boolean | null;
+}
+
+type CatalogRow = ReturnType<typeof catalogRow>;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabase = getSupabase();
+    const caller = await authorizeAdmin(req, supabase, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+    if (!caller.ok) {
+      return jsonResponse({ success: false, error: caller.error }, caller.status);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const sources: string[] = Array.isArray(body.sources) && body.sources.length > 0 ? body.sources : ['github', 'n8n.io'];
+    const timeBudgetMs = Number(body.timeBudgetMs) > 0 ? Number(body.timeBudgetMs) : DEFAULT_TIME_BUDGET_MS;
+    const context: SyncContext = {
+      supabase,
+      force: body.force === true,
+      deadline: Date.now() + timeBudgetMs,
+      now: new Date(),
+    };
+
+    const reports: SyncReport[] = [];
+    for (const source of sources) {
+      const repo = GITHUB_REPOSITORIES[source];
+      if (repo) {
+        reports.push(await syncGithubRepository(context, repo));
+      } else if (source === 'n8n.io') {
+        reports.push(await syncN8nTemplates(context));
+      } else {
+        console.warn(`[sync-workflow-catalog] Unknown source skipped: ${source}`);
+      }
+    }
+
+    return jsonResponse({
+      success: reports.every(report => report.status !== 'failed'),
+      workflowsAdded: reports.reduce((sum, report) => sum + report.added, 0),
+      workflowsUpdated: reports.reduce((sum, report) => sum + report.updated, 0),
+      workflowsRemoved: reports.reduce((sum, report) => sum + report.removed, 0),
+      errors: reports.flatMap(report => report.failures.map(failure => `${report.source}: ${failure.id}: ${failure.error}`)),
+      resumable: reports.some(report => report.status === 'interrupted'),
+      reports,
+    });
+  } catch (error) {
+    console.error('[sync-workflow-catalog] error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function getSupabase() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient(url, serviceKey);
+}
+
+function githubHeaders(): Record<string, string> {
+  const token = Deno.env.get('GITHUB_TOKEN') || Deno.env.get('VITE_GITHUB_TOKEN');
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'prom8eus-workflow-indexer',
+  };
+  if (token) headers['Authorization'] = `token ${token}`;
+  return headers;
+}
+
+// === GitHub ===
+
+async function syncGithubRepository(context: SyncContext, repo: string): Promise<SyncReport> {
+  const stateKey = `github:${repo}`;
+  const state = await loadState(context.supabase, stateKey);
+  const headers = githubHeaders();
+
+  // Conditional request: a 304 does not count against the GitHub rate limit
+  const headResponse = await fetch(`https://api.github.com/repos/${repo}/commits/HEAD`, {
+    headers: state.etag && !context.force ? { ...headers, 'If-None-Match': state.etag } : headers,
+  });
+
+  let revision: string | undefined;
+  let etag = state.etag;
+  if (headResponse.status === 304) {
+    revision = state.checkpoint?.revision ?? state.revision ?? undefined;
+  } else if (headResponse.ok) {
+    revision = (await headResponse.json()).sha;
+    etag = headResponse.headers.get('etag');
+  } else {
+    return await failRun(context, stateKey, state, `GitHub HEAD request failed: ${headResponse.status}`);
+  }
+
+  if (!context.force && !state.checkpoint && revision && revision === state.revision) {
+    return await finishUnchanged(context, stateKey, revision, etag);
+  }
+
+  const { report } = resumeOrStartReport(stateKey, state.checkpoint, revision, () => crypto.randomUUID(), context.now);
+  const previouslyProcessed = report.added + report.updated;
+  report.failed = 0;
+  report.failures = [];
+
+  try {
+    const treeResponse = await fetch(`https://api.github.com/repos/${repo}/git/trees/${revision}?recursive=1`, { headers });
+    if (!treeResponse.ok) throw new Error(`GitHub tree request failed: ${treeResponse.status}`);
+    const tree: { tree?: GithubTreeEntry[]; truncated?: boolean } = await treeResponse.json();
+
+    const files = (tree.tree || [])
+      .filter(entry => entry.type === 'blob' && isWorkflowPath(entry.path))
+      .map(entry => ({ path: entry.path, sha: entry.sha.slice(0, GITHUB_HASH_LENGTH), id: stableWorkflowId('github', repo, entry.path) }));
+    const filesById = new Map(files.map(file => [file.id, file]));
+
+    const stored = await loadStoredEntries(context.supabase, 'github', `${stableWorkflowId('github', repo)}-`);
+    // A truncated tree is not a complete listing; never remove on partial data
+    const plan = planSync(stored, files.map(file => ({ id: file.id, fileHash: file.sha })), !tree.truncated);
+
+    report.unchanged = Math.max(0, plan.unchanged.length - previouslyProcessed);
+    report.removed += await softDelete(context.supabase, plan.removed, context.now);
+
+    const added = new Set(plan.added);
+    const changed = [...plan.added, ...plan.updated];
+    for (let offset = 0; offset < changed.length; offset += BATCH_SIZE) {
+      if (Date.now() > context.deadline) {
+        return await interruptRun(context, stateKey, report, offset + previouslyProcessed);
+      }
+
+      const batch = changed.slice(offset, offset + BATCH_SIZE);
+      const rows = (await Promise.all(batch.map(async id => {
+        const file = filesById.get(id)!;
+        try {
+          return await githubFileToRow(repo, revision!, file.path, file.sha, id, context.now);
+        } catch (error) {
+          recordFailure(report, id, error);
+          return null;
+        }
+      }))).filter((row): row is CatalogRow => row !== null);
+
+      await upsertRows(context.supabase, rows);
+      rows.forEach(row => (added.has(row.id) ? report.added++ : report.updated++));
+      await saveCheckpoint(context.supabase, stateKey, { runId: report.runId, revision, cursor: offset + batch.length, report });
+    }
+
+    return await completeRun(context, stateKey, report, { etag, revision });
+  } catch (error) {
+    console.error(`[sync-workflow-catalog] ${stateKey} failed:`, error);
+    recordFailure(report, stateKey, error);
+    report.status = 'failed';
+    report.finishedAt = new Date().toISOString();
+    await saveReport(context.supabase, report);
+    return report;
+  }
+}
+
+function isWorkflowPath(path: string): boolean {
+  const fileName = path.split('/').pop() || '';
+  return fileName.toLowerCase().endsWith('.json')
+    && !NON_WORKFLOW_FILES.has(fileName)
+    && !path.split('/').some(segment => segment.startsWith('.') || segment === 'node_modules');
+}
+
+async function githubFileToRow(repo: string, revision: string, path: string, sha: string, id: string, now: Date) {
+  const response = await fetch(`https://raw.githubusercontent.com/${repo}/${revision}/${path.split('/').map(encodeURIComponent).join('/')}`);
+  if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+  const workflow: N8nWorkflowLike & { description?: unknown } = JSON.parse(await response.text());
+  const metadata = analyzeN8nWorkflow(workflow);
+
+  const segments = path.split('/');
+  const fileName = segments[segments.length - 1];
+  const directory = segments.length > 1 ? segments[segments.length - 2] : 'General';
+  const title = metadata.name || humanize(fileName.replace(/\.json$/i, ''));
+
+  return catalogRow(id, 'github', metadata, validateN8nWorkflow(workflow), {
+    title,
+    description: typeof workflow.description === 'string' && workflow.description.trim()
+      ? workflow.description.trim()
+      : `Automated workflow for ${title.toLowerCase()}.`,
+    category: humanize(directory),
+    sourceUrl: `https://github.com/${repo}/blob/HEAD/${path}`,
+    jsonUrl: `https://raw.githubusercontent.com/${repo}/HEAD/${path}`,
+    license: 'MIT',
+    author: 'GitHub Community',
+    fileHash: sha,
+  }, now, { graph_fingerprint: graphFingerprint(workflow) });
+}
+
+// === n8n.io ===
+
+async function syncN8nTemplates(context: SyncContext): Promise<SyncReport> {
+  const stateKey = 'n8n.io';
+  const state = await loadState(context.supabase, stateKey);
+  const { report } = resumeOrStartReport(stateKey, state.checkpoint, undefined, () => crypto.randomUUID(), context.now);
+  const seenIds = new Set(state.checkpoint?.seenIds || []);
+  report.failed = 0;
+  report.failures = [];
+
+  try {
+    for (let page = state.checkpoint?.cursor || 1; ; page++) {
+      if (Date.now() > context.deadline) {
+        report.status = 'interrupted';
+        await saveCheckpoint(context.supabase, stateKey, { runId: report.runId, cursor: page, seenIds: Array.from(seenIds), report });
+        await saveReport(context.supabase, report);
+        return report;
+      }
+
+      const response = await fetch(`https://api.n8n.io/api/templates/workflows?page=${page}&perPage=${N8N_PAGE_SIZE}`, {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'Mozilla/5.0 (compatible; Prom8eusBot/1.0; +https://prom8eus.local)',
+          'Referer': 'https://n8n.io/workflows/',
+        },
+      });
+      if (!response.ok) throw new Error(`n8n template listing failed: ${response.status}`);
+      const items: N8nTemplateListItem[] = (await response.json()).workflows || [];
+
+      // View counts change constantly and are tracked as popularity, not as content
+      const remote = items.map(item => ({
+        id: stableWorkflowId('n8n.io', String(item.id)),
+        fileHash: contentHash({ ...item, totalViews: undefined }),
+        item,
+      }));
+      remote.forEach(entry => seenIds.add(entry.id));
+
+      const stored = await loadStoredEntriesById(context.supabase, remote.map(entry => entry.id));
+      const plan = planSync(stored, remote, false);
+      const changed = new Set([...plan.added, ...plan.updated]);
+      const added = new Set(plan.added);
+      report.unchanged += plan.unchanged.length;
+
+      const rows = remote
+        .filter(entry => changed.has(entry.id))
+        .map(entry => {
+          try {
+            return n8nTemplateToRow(entry.item, entry.id, entry.fileHash, context.now);
+          } catch (error) {
+            recordFailure(report, entry.id, error);
+            return null;
+          }
+        })
+        .filter((row): row is CatalogRow => row !== null);
+      await upsertRows(context.supabase, rows);
+      rows.forEach(row => (added.has(row.id) ? report.added++ : report.updated++));
+
+      if (items.length < N8N_PAGE_SIZE) break;
+      await saveCheckpoint(context.supabase, stateKey, { runId: report.runId, cursor: page + 1, seenIds: Array.from(seenIds), report });
+    }
+
+    if (seenIds.size === 0) throw new Error('n8n template listing is empty');
+
+    // Listing complete: everything not seen in this run is gone from n8n.io
+    const stored = await loadStoredEntries(context.supabase, 'n8n.io', `${stableWorkflowId('n8n.io')}-`);
+    const removed = stored.filter(entry => entry.active && !seenIds.has(entry.id)).map(entry => entry.id);
+    report.removed += await softDelete(context.supabase, removed, context.now);
+
+    return await completeRun(context, stateKey, report, { etag: null, revision: contentHash(Array.from(seenIds).sort()) });
+  } catch (error) {
+    console.error('[sync-workflow-catalog] n8n.io failed:', error);
+    recordFailure(report, stateKey, error);
+    report.status = 'failed';
+    report.finishedAt = new Date().toISOString();
+    await saveReport(context.supabase, report);
+    return report;
+  }
+}
+
+function n8nTemplateToRow(item: N8nTemplateListItem, id: string, fileHash: string, now: Date) {
+  const nodes = Array.isArray(item.nodes) ? item.nodes : [];
+  // The listing has node types but no connections; counts and branching come from the full template
+  const metadata = analyzeN8nWorkflow({ name: item.name, nodes, connections: {} });
+  const title = item.name || `n8n template ${item.id}`;
+
+  return catalogRow(id, 'n8n.io', metadata, validateN8nWorkflow({ nodes }, { nodesOnly: true }), {
+    title,
+    description: item.description || title,
+    category: item.categories?.[0]?.name || 'General',
+    sourceUrl: `https://n8n.io/workflows/${item.id}`,
+    jsonUrl: `https://api.n8n.io/api/templates/workflows/${item.id}`,
+    license: 'Commercial',
+    author: item.user?.name || item.user?.username || 'n8n.io',
+    fileHash,
+  }, now, { connection_count: null, branching_depth: null, graph_fingerprint: graphFingerprint({ nodes }) });
+}
+
+// === Rows & state ===
+
+function catalogRow(
+  id: string,
+  source: 'github' | 'n8n.io',
+  metadata: N8nWorkflowMetadata,
+  validation: WorkflowValidationResult,
+  details: {
+    title: string;
+    description: string;
+    category: string;
+    sourceUrl: string;
+    jsonUrl: string;
+    license: string;
+    author: string;
+    fileHash: string;
+  },
+  now: Date,
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id,
+    title: details.title,
+    description: details.description,
+    summary: details.description,
+    source,
+    source_url: details.sourceUrl,
+    json_url: details.jsonUrl,
+    category: details.category,
+    tags: metadata.tags,
+    license: details.license,
+    complexity: metadata.complexity,
+    trigger_type: metadata.triggerType,
+    integrations: metadata.integrations,
+    node_count: metadata.nodeCount,
+    connection_count: metadata.connectionCount,
+    trigger_node_type: metadata.triggerNodeType ?? null,
+    credentials_required: metadata.credentialsRequired,
+    branching_depth: metadata.branchingDepth,
+    author_name: details.author,
+    status: 'verified',
+    is_ai_generated: false,
+    validation_status: validation.status,
+    validation_diagnostics: validation.diagnostics,
+    active: true,
+    deleted_at: null,
+    file_hash: details.fileHash,
+    updated_at: now.toISOString(),
+    analyzed_at: now.toISOString(),
+    ...overrides,
+  };
+}
+
+function humanize(value: string): string {
+  return value
+    .replace(/^\d+[_-]/, '')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+async function loadState(supabase: SupabaseClient, source: string): Promise<SyncState> {
+  const { data, error } = await supabase
+    .from('workflow_sync_state')
+    .select('etag, revision, checkpoint')
+    .eq('source', source)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load sync state: ${error.message}`);
+  return { etag: data?.etag ?? null, revision: data?.revision ?? null, checkpoint: data?.checkpoint ?? null };
+}
+
+async function saveCheckpoint(supabase: SupabaseClient, source: string, checkpoint: SyncCheckpoint): Promise<void> {
+  const { error } = await supabase
+    .from('workflow_sync_state')
+    .upsert({ source, checkpoint }, { onConflict: 'source' });
+  if (error) throw new Error(`Failed to save checkpoint: ${error.message}`);
+}
+
+async function saveReport(supabase: SupabaseClient, report: SyncReport): Promise<void> {
+  const { error } = await supabase
+    .from('workflow_sync_reports')
+    .upsert({
+      run_id: report.runId,
+      source: report.source,
+      status: report.status,
+      revision: report.revision ?? null,
+      started_at: report.startedAt,
+      finished_at: report.finishedAt ?? null,
+      added: report.added,
+      updated: report.updated,
+      removed: report.removed,
+      unchanged: report.unchanged,
+      failed: report.failed,
+      failures: report.failures,
+      invocations: report.invocations,
+    }, { onConflict: 'run_id' });
+  if (error) console.warn('[sync-workflow-catalog] Failed to save report:', error.message);
+}
+
+async function completeRun(
+  context: SyncContext,
+  source: string,
+  report: SyncReport,
+  state: { etag: string | null; revision?: string }
+): Promise<SyncReport> {
+  report.status = 'completed';
+  report.finishedAt = new Date().toISOString();
+  const { error } = await context.supabase
+    .from('workflow_sync_state')
+    .upsert({
+      source,
+      etag: state.etag,
+      revision: state.revision ?? null,
+      checkpoint: null,
+      last_synced_at: report.finishedAt,
+    }, { onConflict: 'source' });
+  if (error) throw new Error(`Failed to save sync state: ${error.message}`);
+  await saveReport(context.supabase, report);
+  return report;
+}
+
+async function interruptRun(context: SyncContext, source: string, report: SyncReport, cursor: number): Promise<SyncReport> {
+  report.status = 'interrupted';
+  await saveCheckpoint(context.supabase, source, { runId: report.runId, revision: report.revision, cursor, report });
+  await saveReport(context.supabase, report);
+  return report;
+}
+
+async function finishUnchanged(context: SyncContext, source: string, revision: string, etag: string | null): Promise<SyncReport> {
+  const { report } = resumeOrStartReport(source, null, revision, () => crypto.randomUUID(), context.now);
+  report.status = 'unchanged';
+  report.finishedAt = new Date().toISOString();
+  await context.supabase
+    .from('workflow_sync_state')
+    .upsert({ source, etag, revision, last_synced_at: report.finishedAt }, { onConflict: 'source' });
+  await saveReport(context.supabase, report);
+  return report;
+}
+
+async function failRun(context: SyncContext, source: string, state: SyncState, message: string): Promise<SyncReport> {
+  const { report } = resumeOrStartReport(source, state.checkpoint, undefined, () => crypto.randomUUID(), context.now);
+  recordFailure(report, source, message);
+  report.status = 'failed';
+  report.finishedAt = new Date().toISOString();
+  await saveReport(context.supabase, report);
+  return report;
+}
+
+async function loadStoredEntries(supabase: SupabaseClient, source: string, idPrefix: string): Promise<StoredCatalogEntry[]> {
+  const entries: StoredCatalogEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('unified_workflows')
+      .select('id, file_hash, active')
+      .eq('source', source)
+      .like('id', `${idPrefix}%`)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load stored workflows: ${error.message}`);
+    entries.push(...(data || []).map((row: StoredWorkflowRow) => ({ id: row.id, fileHash: row.file_hash, active: row.active !== false })));
+    if (!data || data.length < PAGE_SIZE) return entries;
+  }
+}
+
+async function loadStoredEntriesById(supabase: SupabaseClient, ids: string[]): Promise<StoredCatalogEntry[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('unified_workflows')
+    .select('id, file_hash, active')
+    .in('id', ids);
+  if (error) throw new Error(`Failed to load stored workflows: ${error.message}`);
+  return (data || []).map((row: StoredWorkflowRow) => ({ id: row.id, fileHash: row.file_hash, active: row.active !== false }));
+}
+
+async function upsertRows(supabase: SupabaseClient, rows: CatalogRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from('unified_workflows')
+    .upsert(rows, { onConflict: 'id' });
+  if (error) throw new Error(`Upsert failed: ${error.message}`);
+}
+
+async function softDelete(supabase: SupabaseClient, ids: string[], now: Date): Promise<number> {
+  let removed = 0;
+  for (let offset = 0; offset < ids.length; offset += 200) {
+    const chunk = ids.slice(offset, offset + 200);
+    const { error } = await supabase
+      .from('unified_workflows')
+      .update({ active: false, deleted_at: now.toISOString() })
+      .in('id', chunk);
+    if (error) throw new Error(`Soft delete failed: ${error.message}`);
+    removed += chunk.length;
+  }
+  return removed;
+}
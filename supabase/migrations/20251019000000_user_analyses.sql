@@ -0,0 +1,60 @@
+-- Migration: Server-side analysis history for signed-in users
+-- Description: Stores full analysis results per auth user with tags and an edit history
+
+CREATE TABLE IF NOT EXISTS user_analyses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    job_text TEXT NOT NULL DEFAULT '',
+    analysis JSONB NOT NULL, -- Full AnalysisResult
+    total_score NUMERIC(5,2) NOT NULL DEFAULT 0,
+    task_count INTEGER NOT NULL DEFAULT 0,
+    lang TEXT NOT NULL DEFAULT 'de' CHECK (lang IN ('de', 'en')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    edit_history JSONB NOT NULL DEFAULT '[]', -- [{ at, field, from, to }]
+    local_id TEXT, -- localStorage id of imported entries, keeps the import idempotent
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, local_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_analyses_user_created ON user_analyses(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_analyses_tags ON user_analyses USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_user_analyses_search ON user_analyses
+    USING GIN(to_tsvector('simple', title || ' ' || job_text));
+
+-- Row Level Security: users only see and change their own analyses
+ALTER TABLE user_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own analyses"
+ON user_analyses FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users insert own analyses"
+ON user_analyses FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users update own analyses"
+ON user_analyses FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users delete own analyses"
+ON user_analyses FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_user_analyses_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_user_analyses_updated_at
+    BEFORE UPDATE ON user_analyses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_user_analyses_updated_at();
+
+COMMENT ON TABLE user_analyses IS 'Analysis history of signed-in users (replaces the browser-only localStorage history)';
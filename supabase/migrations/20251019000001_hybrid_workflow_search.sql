@@ -0,0 +1,83 @@
+-- Migration: Hybrid workflow search
+-- Description: Keyword (full-text) and vector retrieval RPCs over unified_workflows for
+-- reciprocal rank fusion on the client. Also aligns workflow_embeddings with the model
+-- used by index-workflows-unified (text-embedding-3-small, 1536 dimensions).
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Embeddings were declared as vector(3072) while the indexer writes 1536-dimensional
+-- vectors; drop rows of another size and fix the column so HNSW can index it (max 2000 dims)
+DELETE FROM public.workflow_embeddings WHERE vector_dims(embedding) <> 1536;
+ALTER TABLE public.workflow_embeddings ALTER COLUMN embedding TYPE vector(1536);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_embeddings_hnsw
+    ON public.workflow_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- Keyword retrieval: OR-combined lexemes so task phrases ("send invoice reminders")
+-- match templates containing only some of the words; ranked by cover density.
+-- Uses the same document expression as idx_unified_workflows_search.
+CREATE OR REPLACE FUNCTION search_workflows_keyword(
+    query_text TEXT,
+    match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (id TEXT, rank REAL) AS $$
+DECLARE
+    lexemes TEXT[];
+    ts_query tsquery;
+BEGIN
+    lexemes := tsvector_to_array(to_tsvector('english', COALESCE(query_text, '')));
+    IF lexemes IS NULL OR array_length(lexemes, 1) IS NULL THEN
+        RETURN;
+    END IF;
+    ts_query := to_tsquery('english', array_to_string(lexemes, ' | '));
+
+    RETURN QUERY
+    SELECT uw.id, ts_rank_cd(
+        to_tsvector('english',
+            COALESCE(uw.title, '') || ' ' ||
+            COALESCE(uw.description, '') || ' ' ||
+            COALESCE(uw.summary, '') || ' ' ||
+            COALESCE(uw.category, '') || ' ' ||
+            COALESCE(array_to_string(uw.tags, ' '), '') || ' ' ||
+            COALESCE(array_to_string(uw.integrations, ' '), '')
+        ),
+        ts_query,
+        32 -- normalise by rank / (rank + 1)
+    ) AS rank
+    FROM unified_workflows uw
+    WHERE uw.active = TRUE
+    AND to_tsvector('english',
+            COALESCE(uw.title, '') || ' ' ||
+            COALESCE(uw.description, '') || ' ' ||
+            COALESCE(uw.summary, '') || ' ' ||
+            COALESCE(uw.category, '') || ' ' ||
+            COALESCE(array_to_string(uw.tags, ' '), '') || ' ' ||
+            COALESCE(array_to_string(uw.integrations, ' '), '')
+        ) @@ ts_query
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Vector retrieval: cosine similarity against the stored workflow embeddings
+CREATE OR REPLACE FUNCTION search_workflows_vector(
+    query_embedding vector(1536),
+    match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (id TEXT, similarity REAL) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT uw.id, (1 - (we.embedding <=> query_embedding))::REAL AS similarity
+    FROM public.workflow_embeddings we
+    JOIN unified_workflows uw ON uw.id = we.workflow_id
+    WHERE uw.active = TRUE
+    ORDER BY we.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_workflows_keyword(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_workflows_vector(vector, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_workflows_keyword IS 'Full-text candidates for hybrid workflow search (OR semantics, ts_rank_cd)';
+COMMENT ON FUNCTION search_workflows_vector IS 'Embedding candidates for hybrid workflow search (cosine similarity)';
@@ -0,0 +1,15 @@
+-- Migration: Workflow structure metadata
+-- Description: Columns for metadata parsed from n8n workflow JSON during ingestion
+-- (trigger node, required credentials, branching depth) next to node/connection counts.
+
+ALTER TABLE unified_workflows
+    ADD COLUMN IF NOT EXISTS trigger_node_type TEXT,
+    ADD COLUMN IF NOT EXISTS credentials_required TEXT[] DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS branching_depth INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_unified_workflows_credentials
+    ON unified_workflows USING GIN (credentials_required);
+
+COMMENT ON COLUMN unified_workflows.trigger_node_type IS 'n8n node type of the first active trigger node';
+COMMENT ON COLUMN unified_workflows.credentials_required IS 'Credential types referenced by active nodes';
+COMMENT ON COLUMN unified_workflows.branching_depth IS 'Most branch points on any path from a trigger';
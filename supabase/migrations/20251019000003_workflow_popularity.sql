@@ -0,0 +1,34 @@
+-- Migration: Workflow popularity signals
+-- Description: Stores marketplace view/download events and the raw signals behind the
+-- time-decayed unified_workflows.popularity score (see supabase/functions/_shared/popularity.ts)
+
+CREATE TABLE IF NOT EXISTS workflow_interaction_events (
+    id BIGSERIAL PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    event_type TEXT NOT NULL CHECK (event_type IN ('view', 'download')),
+    session_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_interaction_events_workflow
+    ON workflow_interaction_events(workflow_id, created_at DESC);
+
+-- Anyone may record an event; only the service role reads them for aggregation
+ALTER TABLE workflow_interaction_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record workflow interactions"
+ON workflow_interaction_events FOR INSERT
+TO anon, authenticated
+WITH CHECK (true);
+
+ALTER TABLE unified_workflows
+    ADD COLUMN IF NOT EXISTS popularity_signals JSONB,
+    ADD COLUMN IF NOT EXISTS popularity_updated_at TIMESTAMPTZ;
+
+-- Randomized ratings and download counts were written by earlier ingesters; they carry no signal
+UPDATE unified_workflows
+SET rating = NULL, downloads = 0, popularity = 0
+WHERE source IN ('github', 'n8n.io') AND popularity_updated_at IS NULL;
+
+COMMENT ON TABLE workflow_interaction_events IS 'Marketplace view/download events, aggregated into unified_workflows.popularity';
+COMMENT ON COLUMN unified_workflows.popularity_signals IS 'Inputs and components of the last popularity computation';
@@ -0,0 +1,61 @@
+-- Migration: Incremental workflow catalog sync
+-- Description: Per-source sync state (ETag, synced revision, checkpoint of an unfinished run),
+-- one report row per sync run, and soft-deletion of workflows removed at the source.
+
+CREATE TABLE IF NOT EXISTS workflow_sync_state (
+    source TEXT PRIMARY KEY, -- e.g. 'github:Zie619/n8n-workflows', 'n8n.io'
+    etag TEXT,
+    revision TEXT, -- last completely synced commit SHA / listing hash
+    checkpoint JSONB, -- SyncCheckpoint of an interrupted run, NULL when idle
+    last_synced_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workflow_sync_reports (
+    run_id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'interrupted', 'failed', 'unchanged')),
+    revision TEXT,
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ,
+    added INTEGER NOT NULL DEFAULT 0,
+    updated INTEGER NOT NULL DEFAULT 0,
+    removed INTEGER NOT NULL DEFAULT 0,
+    unchanged INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    failures JSONB NOT NULL DEFAULT '[]',
+    invocations INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_sync_reports_source
+    ON workflow_sync_reports(source, started_at DESC);
+
+ALTER TABLE unified_workflows
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Sync bookkeeping is written by the service role only; reports are readable for admin views
+ALTER TABLE workflow_sync_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_sync_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sync reports are readable"
+ON workflow_sync_reports FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_workflow_sync_state_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_workflow_sync_state_updated_at
+    BEFORE UPDATE ON workflow_sync_state
+    FOR EACH ROW
+    EXECUTE FUNCTION update_workflow_sync_state_updated_at();
+
+COMMENT ON TABLE workflow_sync_state IS 'Change-detection state and resumable checkpoints of catalog syncs';
+COMMENT ON TABLE workflow_sync_reports IS 'Added/updated/removed/failed counts per catalog sync run';
+COMMENT ON COLUMN unified_workflows.deleted_at IS 'Set (with active = FALSE) when the workflow disappeared from its source';
@@ -0,0 +1,121 @@
+-- Migration: Near-duplicate workflow detection
+-- Description: Graph fingerprints on unified_workflows, canonical records with the source URLs
+-- of their duplicates, and an admin review queue for uncertain merges. Search only returns
+-- canonical records.
+
+ALTER TABLE unified_workflows
+    ADD COLUMN IF NOT EXISTS graph_fingerprint JSONB, -- {nodes, edges, hash} from the normalized node graph
+    ADD COLUMN IF NOT EXISTS canonical_id TEXT REFERENCES unified_workflows(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS source_aliases JSONB NOT NULL DEFAULT '[]'; -- [{workflowId, source, url}]
+
+CREATE INDEX IF NOT EXISTS idx_unified_workflows_canonical_id
+    ON unified_workflows(canonical_id)
+    WHERE canonical_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS workflow_merge_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    left_id TEXT NOT NULL REFERENCES unified_workflows(id) ON DELETE CASCADE,
+    right_id TEXT NOT NULL REFERENCES unified_workflows(id) ON DELETE CASCADE,
+    score REAL NOT NULL,
+    graph_similarity REAL NOT NULL,
+    title_similarity REAL NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'separate')),
+    reviewed_by TEXT,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (left_id < right_id),
+    UNIQUE (left_id, right_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_merge_reviews_pending
+    ON workflow_merge_reviews(score DESC)
+    WHERE status = 'pending';
+
+ALTER TABLE workflow_merge_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Decisions are written through the dedup-workflows function (service role); the queue is readable for admin views
+CREATE POLICY "Merge reviews are readable"
+ON workflow_merge_reviews FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION update_workflow_merge_reviews_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_workflow_merge_reviews_updated_at
+    BEFORE UPDATE ON workflow_merge_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_workflow_merge_reviews_updated_at();
+
+-- Hybrid search retrievers: skip duplicates, their canonical record carries the aliases
+CREATE OR REPLACE FUNCTION search_workflows_keyword(
+    query_text TEXT,
+    match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (id TEXT, rank REAL) AS $$
+DECLARE
+    lexemes TEXT[];
+    ts_query tsquery;
+BEGIN
+    lexemes := tsvector_to_array(to_tsvector('english', COALESCE(query_text, '')));
+    IF lexemes IS NULL OR array_length(lexemes, 1) IS NULL THEN
+        RETURN;
+    END IF;
+    ts_query := to_tsquery('english', array_to_string(lexemes, ' | '));
+
+    RETURN QUERY
+    SELECT uw.id, ts_rank_cd(
+        to_tsvector('english',
+            COALESCE(uw.title, '') || ' ' ||
+            COALESCE(uw.description, '') || ' ' ||
+            COALESCE(uw.summary, '') || ' ' ||
+            COALESCE(uw.category, '') || ' ' ||
+            COALESCE(array_to_string(uw.tags, ' '), '') || ' ' ||
+            COALESCE(array_to_string(uw.integrations, ' '), '')
+        ),
+        ts_query,
+        32 -- normalise by rank / (rank + 1)
+    ) AS rank
+    FROM unified_workflows uw
+    WHERE uw.active = TRUE
+    AND uw.canonical_id IS NULL
+    AND to_tsvector('english',
+            COALESCE(uw.title, '') || ' ' ||
+            COALESCE(uw.description, '') || ' ' ||
+            COALESCE(uw.summary, '') || ' ' ||
+            COALESCE(uw.category, '') || ' ' ||
+            COALESCE(array_to_string(uw.tags, ' '), '') || ' ' ||
+            COALESCE(array_to_string(uw.integrations, ' '), '')
+        ) @@ ts_query
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION search_workflows_vector(
+    query_embedding vector(1536),
+    match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (id TEXT, similarity REAL) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT uw.id, (1 - (we.embedding <=> query_embedding))::REAL AS similarity
+    FROM public.workflow_embeddings we
+    JOIN unified_workflows uw ON uw.id = we.workflow_id
+    WHERE uw.active = TRUE
+    AND uw.canonical_id IS NULL
+    ORDER BY we.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN unified_workflows.graph_fingerprint IS 'Normalized node-type graph used for duplicate detection';
+COMMENT ON COLUMN unified_workflows.canonical_id IS 'Canonical record this workflow duplicates; NULL for canonical and unique workflows';
+COMMENT ON COLUMN unified_workflows.source_aliases IS 'Source URLs of the duplicates merged into this canonical record';
+COMMENT ON TABLE workflow_merge_reviews IS 'Uncertain duplicate pairs awaiting an admin merge decision';
@@ -0,0 +1,12 @@
+-- Migration: Static workflow validation
+-- Description: Diagnostics of the n8n workflow validator next to validation_status, so the
+-- admin area can show why a catalog workflow is invalid without re-downloading it.
+
+ALTER TABLE unified_workflows
+    ADD COLUMN IF NOT EXISTS validation_diagnostics JSONB NOT NULL DEFAULT '[]'; -- [{code, severity, message, node?, parameter?}]
+
+CREATE INDEX IF NOT EXISTS idx_unified_workflows_invalid
+    ON unified_workflows(source)
+    WHERE validation_status = 'invalid';
+
+COMMENT ON COLUMN unified_workflows.validation_diagnostics IS 'Errors and warnings of the last static validation (n8n-workflow-validator)';
@@ -0,0 +1,94 @@
+-- Migration: Unified agent index
+-- Description: One table for AI agents from the curated catalog and the fetched agent sources
+-- (HuggingFace Spaces, CrewAI, GitHub topics, manifest), the counterpart of unified_workflows.
+-- Rows map 1:1 onto AgentIndex (src/lib/schemas/agentIndex.ts).
+
+CREATE TABLE IF NOT EXISTS unified_agents (
+    -- Core identification
+    id TEXT PRIMARY KEY, -- e.g. 'hr-assistant', 'acme/research-crew'
+    source TEXT NOT NULL, -- 'catalog', 'hf-spaces', 'crewai', 'github-agents', 'manifest'
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL DEFAULT '',
+    link TEXT NOT NULL DEFAULT '#',
+
+    -- Agent specifications
+    model TEXT,
+    provider TEXT,
+    capabilities TEXT[] NOT NULL DEFAULT '{}', -- tags of agent_capability_tags
+    domains TEXT[] NOT NULL DEFAULT '{Other}', -- labels of ontology_domains
+    category TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    difficulty TEXT CHECK (difficulty IN ('Beginner', 'Intermediate', 'Advanced')),
+    setup_time TEXT CHECK (setup_time IN ('Quick', 'Medium', 'Long')),
+    deployment TEXT CHECK (deployment IN ('Local', 'Cloud', 'Hybrid')),
+    pricing TEXT CHECK (pricing IN ('Free', 'Freemium', 'Paid', 'Enterprise')),
+    license TEXT NOT NULL DEFAULT 'Unknown',
+    requirements TEXT[] NOT NULL DEFAULT '{}',
+    use_cases TEXT[] NOT NULL DEFAULT '{}',
+    automation_potential INTEGER CHECK (automation_potential BETWEEN 0 AND 100),
+
+    -- Author
+    author_name TEXT,
+    author_username TEXT,
+    author_avatar TEXT,
+    author_verified BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- Source metadata
+    likes INTEGER,
+    downloads INTEGER,
+    last_modified TIMESTAMPTZ,
+    github_url TEXT,
+    demo_url TEXT,
+    documentation_url TEXT,
+
+    -- Source health
+    source_health TEXT NOT NULL DEFAULT 'unknown' CHECK (source_health IN ('healthy', 'degraded', 'unhealthy', 'unknown')),
+    source_checked_at TIMESTAMPTZ,
+
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    deleted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unified_agents_source ON unified_agents(source);
+CREATE INDEX IF NOT EXISTS idx_unified_agents_provider ON unified_agents(provider);
+CREATE INDEX IF NOT EXISTS idx_unified_agents_capabilities_gin ON unified_agents USING GIN(capabilities);
+CREATE INDEX IF NOT EXISTS idx_unified_agents_domains_gin ON unified_agents USING GIN(domains);
+CREATE INDEX IF NOT EXISTS idx_unified_agents_tags_gin ON unified_agents USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_unified_agents_unhealthy
+    ON unified_agents(source)
+    WHERE source_health IN ('degraded', 'unhealthy');
+
+-- Catalog ingestion writes with the service role; everyone reads active agents
+ALTER TABLE unified_agents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to active agents"
+ON unified_agents FOR SELECT
+USING (active = TRUE AND deleted_at IS NULL);
+
+CREATE POLICY "Service role full access to agents"
+ON unified_agents FOR ALL
+USING (auth.role() = 'service_role');
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_unified_agents_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_unified_agents_updated_at
+    BEFORE UPDATE ON unified_agents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_unified_agents_updated_at();
+
+COMMENT ON TABLE unified_agents IS 'Unified table for AI agents (curated catalog, HuggingFace Spaces, CrewAI, GitHub, manifest)';
+COMMENT ON COLUMN unified_agents.capabilities IS 'Standardized capability tags (agent_capability_tags.tag)';
+COMMENT ON COLUMN unified_agents.domains IS 'Ontology domain labels, Other as fallback';
+COMMENT ON COLUMN unified_agents.model IS 'LLM the agent runs on, NULL when the listing does not name one';
+COMMENT ON COLUMN unified_agents.provider IS 'LLM provider, otherwise the listing provider';
+COMMENT ON COLUMN unified_agents.source_health IS 'Health of the source listing at the last ingestion (agent_sources.health_status)';
+COMMENT ON COLUMN unified_agents.source_checked_at IS 'When the source listing was last fetched';
@@ -0,0 +1,50 @@
+-- Migration: Scoring profiles
+-- Description: Named, versioned weightings for agent scoring and the workflow quality prior
+-- (e.g. enterprise-safe, open-source-only, quick-wins), editable in the admin UI and
+-- selectable per request. Configs are merged over the built-in profiles of
+-- supabase/functions/_shared/scoring-profiles.ts, so the seeded version 1 rows store '{}'.
+
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9][a-z0-9-]*$'),
+    version INTEGER NOT NULL CHECK (version > 0),
+    name TEXT NOT NULL,
+    description TEXT,
+    config JSONB NOT NULL DEFAULT '{}', -- { agent: {...}, workflow: {...} }, partial configs allowed
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (slug, version)
+);
+
+-- Exactly one active version per profile
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_profiles_active
+    ON scoring_profiles(slug)
+    WHERE is_active;
+
+-- Edits go through the scoring-profiles edge function (service role); everyone reads
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to scoring profiles"
+ON scoring_profiles FOR SELECT
+USING (TRUE);
+
+CREATE POLICY "Service role full access to scoring profiles"
+ON scoring_profiles FOR ALL
+USING (auth.role() = 'service_role');
+
+INSERT INTO scoring_profiles (slug, version, name, description, is_active, created_by) VALUES
+    ('default', 1, 'Default', 'Balanced weighting of capabilities, domain fit and data quality', TRUE, 'migration'),
+    ('enterprise-safe', 1, 'Enterprise-safe', 'Established providers and verified sources before everything else', TRUE, 'migration'),
+    ('open-source-only', 1, 'Open source only', 'Only openly licensed agents; self-hostable models rank highest', TRUE, 'migration'),
+    ('quick-wins', 1, 'Quick wins', 'Cheap, fast-to-set-up solutions that cover the task directly', TRUE, 'migration')
+ON CONFLICT (slug, version) DO NOTHING;
+
+-- Which profile produced the stored quality prior
+ALTER TABLE workflow_features ADD COLUMN IF NOT EXISTS scoring_profile TEXT;
+ALTER TABLE workflow_features ADD COLUMN IF NOT EXISTS scoring_profile_version INTEGER;
+
+COMMENT ON TABLE scoring_profiles IS 'Versioned scoring profiles; a new row per edit, one active version per slug';
+COMMENT ON COLUMN scoring_profiles.config IS 'Partial ScoringProfileConfig, missing keys fall back to the built-in profile';
+COMMENT ON COLUMN workflow_features.scoring_profile IS 'Slug of the scoring profile used for quality_prior';
+COMMENT ON COLUMN workflow_features.scoring_profile_version IS 'Version of the scoring profile used for quality_prior';
@@ -0,0 +1,10 @@
+-- Migration: Full-text search column for the account history
+-- Description: PostgREST can only text-search columns, so the search document of
+-- user_analyses becomes a generated column; its GIN index replaces the expression index
+
+ALTER TABLE user_analyses
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', title || ' ' || job_text)) STORED;
+
+DROP INDEX IF EXISTS idx_user_analyses_search;
+CREATE INDEX IF NOT EXISTS idx_user_analyses_search ON user_analyses USING GIN(search_vector);
@@ -0,0 +1,13 @@
+-- Migration: Session-bound workflow interaction events
+-- Description: Popularity counts each session once per workflow, event type and day
+-- (see supabase/functions/_shared/popularity.ts), so anonymous inserts must carry a session
+
+DROP POLICY IF EXISTS "Anyone can record workflow interactions" ON workflow_interaction_events;
+
+CREATE POLICY "Anyone can record workflow interactions"
+ON workflow_interaction_events FOR INSERT
+TO anon, authenticated
+WITH CHECK (session_id IS NOT NULL AND length(session_id) BETWEEN 8 AND 64);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_interaction_events_session
+    ON workflow_interaction_events(workflow_id, session_id, event_type);
@@ -0,0 +1,12 @@
+-- Migration: Record workflow interactions through an edge function
+-- Description: Anonymous inserts let clients rotate session_id values to inflate popularity.
+-- Events are now written only by the record-workflow-interaction Edge Function (service
+-- role), which derives the session from the caller's address and rate-limits it.
+
+DROP POLICY IF EXISTS "Anyone can record workflow interactions" ON workflow_interaction_events;
+
+-- Hourly rate limit lookups per session
+CREATE INDEX IF NOT EXISTS idx_workflow_interaction_events_session_time
+    ON workflow_interaction_events(session_id, created_at DESC);
+
+COMMENT ON COLUMN workflow_interaction_events.session_id IS 'Daily hash of the caller address, set by record-workflow-interaction';
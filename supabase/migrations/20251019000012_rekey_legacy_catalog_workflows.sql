@@ -0,0 +1,78 @@
+-- Migration: Re-key legacy catalog workflows to stable ids
+-- Description: fetch-github-workflows-unified numbered workflows by listing position
+-- (github-<n>, n8n-<n>); sync-workflow-catalog keys them by repository path and template id
+-- (stableWorkflowId in supabase/functions/_shared/catalog-sync.ts). Legacy rows get the
+-- stable id derived from their source_url, so the first sync updates them instead of adding
+-- duplicates, and soft-deletes them once they disappear from the source. Legacy rows that
+-- map onto an existing id (several numbers for one file, or an earlier sync) are soft-deleted.
+
+CREATE TEMP TABLE workflow_rekey AS
+SELECT old_id, new_id, row_number() OVER (PARTITION BY new_id ORDER BY updated_at DESC NULLS LAST, old_id) AS duplicate_rank
+FROM (
+    SELECT
+        w.id AS old_id,
+        w.updated_at,
+        CASE
+            -- Same slug as stableWorkflowId('github', 'owner/repo', path); encoded characters are separators
+            WHEN w.source = 'github' AND gh.parts IS NOT NULL THEN 'github-' || trim(BOTH '-' FROM regexp_replace(
+                lower(regexp_replace(regexp_replace(gh.parts[1] || '-' || gh.parts[2], '%[0-9A-Fa-f]{2}', '-', 'g'), '\.json$', '', 'i')),
+                '[^a-z0-9]+', '-', 'g'))
+            WHEN w.source = 'n8n.io' AND n8n.parts IS NOT NULL THEN 'n8n-io-' || n8n.parts[1]
+        END AS new_id
+    FROM unified_workflows w
+    LEFT JOIN LATERAL (SELECT regexp_match(w.source_url, '^https://github\.com/([^/]+/[^/]+)/blob/[^/]+/(.+)$') AS parts) gh ON true
+    LEFT JOIN LATERAL (SELECT regexp_match(w.source_url, 'n8n\.io/workflows/(\d+)') AS parts) n8n ON true
+    WHERE (w.source = 'github' AND w.id ~ '^github-\d+$')
+       OR (w.source = 'n8n.io' AND w.id ~ '^n8n-\d+$')
+) legacy
+WHERE new_id IS NOT NULL;
+
+UPDATE unified_workflows w
+SET active = false, deleted_at = COALESCE(w.deleted_at, NOW())
+FROM workflow_rekey r
+WHERE w.id = r.old_id
+  AND (r.duplicate_rank > 1 OR EXISTS (SELECT 1 FROM unified_workflows existing WHERE existing.id = r.new_id));
+
+DELETE FROM workflow_rekey r
+WHERE r.duplicate_rank > 1 OR EXISTS (SELECT 1 FROM unified_workflows existing WHERE existing.id = r.new_id);
+
+-- The references have no ON UPDATE CASCADE, and merge reviews must stay ordered (left_id < right_id)
+ALTER TABLE unified_workflows DROP CONSTRAINT IF EXISTS unified_workflows_canonical_id_fkey;
+ALTER TABLE workflow_merge_reviews DROP CONSTRAINT IF EXISTS workflow_merge_reviews_left_id_fkey;
+ALTER TABLE workflow_merge_reviews DROP CONSTRAINT IF EXISTS workflow_merge_reviews_right_id_fkey;
+
+UPDATE unified_workflows w
+SET id = r.new_id
+FROM workflow_rekey r
+WHERE w.id = r.old_id;
+
+UPDATE unified_workflows w
+SET canonical_id = r.new_id
+FROM workflow_rekey r
+WHERE w.canonical_id = r.old_id;
+
+UPDATE workflow_merge_reviews m
+SET left_id = LEAST(COALESCE(l.new_id, m.left_id), COALESCE(rr.new_id, m.right_id)),
+    right_id = GREATEST(COALESCE(l.new_id, m.left_id), COALESCE(rr.new_id, m.right_id))
+FROM workflow_merge_reviews base
+LEFT JOIN workflow_rekey l ON l.old_id = base.left_id
+LEFT JOIN workflow_rekey rr ON rr.old_id = base.right_id
+WHERE m.id = base.id
+  AND (l.old_id IS NOT NULL OR rr.old_id IS NOT NULL);
+
+UPDATE workflow_interaction_events e
+SET workflow_id = r.new_id
+FROM workflow_rekey r
+WHERE e.workflow_id = r.old_id;
+
+ALTER TABLE unified_workflows
+    ADD CONSTRAINT unified_workflows_canonical_id_fkey
+    FOREIGN KEY (canonical_id) REFERENCES unified_workflows(id) ON DELETE SET NULL;
+ALTER TABLE workflow_merge_reviews
+    ADD CONSTRAINT workflow_merge_reviews_left_id_fkey
+    FOREIGN KEY (left_id) REFERENCES unified_workflows(id) ON DELETE CASCADE;
+ALTER TABLE workflow_merge_reviews
+    ADD CONSTRAINT workflow_merge_reviews_right_id_fkey
+    FOREIGN KEY (right_id) REFERENCES unified_workflows(id) ON DELETE CASCADE;
+
+DROP TABLE workflow_rekey;
@@ -0,0 +1,38 @@
+-- Migration: Atomic scoring profile activation
+-- Description: The scoring-profiles edge function switched the active version with two
+-- separate writes (deactivate, then activate), so a failure in between left a profile with
+-- no active version. activate_scoring_profile does both in one transaction.
+
+-- Returns false when the version does not exist; the active version is then left unchanged.
+-- The partial unique index idx_scoring_profiles_active is checked per row, so deactivate first.
+CREATE OR REPLACE FUNCTION activate_scoring_profile(
+    p_slug TEXT,
+    p_version INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM 1
+    FROM scoring_profiles
+    WHERE slug = p_slug AND version = p_version
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE scoring_profiles
+    SET is_active = FALSE
+    WHERE slug = p_slug AND is_active AND version <> p_version;
+
+    UPDATE scoring_profiles
+    SET is_active = TRUE
+    WHERE slug = p_slug AND version = p_version;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Edits go through the scoring-profiles edge function (service role) only
+REVOKE EXECUTE ON FUNCTION activate_scoring_profile(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_scoring_profile(TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION activate_scoring_profile(TEXT, INTEGER) IS 'Make one version the active version of a scoring profile; false if the version does not exist';